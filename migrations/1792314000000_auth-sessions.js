@@ -0,0 +1,35 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = pgm => {
+  // One row per login; the session is the refresh token family
+  pgm.createTable('auth_sessions', {
+    id: { type: 'uuid', primaryKey: true, default: pgm.func('gen_random_uuid()') },
+    user_id: { type: 'integer', notNull: true, references: 'users', onDelete: 'CASCADE' },
+    user_agent: { type: 'text' },
+    ip_address: { type: 'varchar(64)' },
+    created_at: { type: 'timestamp', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') },
+    last_used_at: { type: 'timestamp' },
+    expires_at: { type: 'timestamp', notNull: true },
+    revoked_at: { type: 'timestamp' },
+    revoked_reason: { type: 'varchar(50)' }
+  });
+  pgm.createIndex('auth_sessions', 'user_id');
+
+  // Refresh tokens are stored as SHA-256 hashes; rotated_at marks a consumed token
+  pgm.createTable('refresh_tokens', {
+    id: 'id',
+    session_id: { type: 'uuid', notNull: true, references: 'auth_sessions', onDelete: 'CASCADE' },
+    token_hash: { type: 'varchar(64)', notNull: true, unique: true },
+    expires_at: { type: 'timestamp', notNull: true },
+    rotated_at: { type: 'timestamp' },
+    created_at: { type: 'timestamp', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') }
+  });
+  pgm.createIndex('refresh_tokens', 'session_id');
+};
+
+exports.down = pgm => {
+  pgm.dropTable('refresh_tokens');
+  pgm.dropTable('auth_sessions');
+};
@@ -0,0 +1,30 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = pgm => {
+  pgm.addColumn('users', {
+    email_verified_at: { type: 'timestamp' }
+  });
+
+  // Single-use, expiring tokens for password reset and email verification (stored hashed)
+  pgm.createTable('user_tokens', {
+    id: 'id',
+    user_id: { type: 'integer', notNull: true, references: 'users', onDelete: 'CASCADE' },
+    purpose: {
+      type: 'varchar(32)',
+      notNull: true,
+      check: "purpose IN ('password_reset', 'email_verification')"
+    },
+    token_hash: { type: 'varchar(64)', notNull: true, unique: true },
+    expires_at: { type: 'timestamp', notNull: true },
+    used_at: { type: 'timestamp' },
+    created_at: { type: 'timestamp', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') }
+  });
+  pgm.createIndex('user_tokens', ['user_id', 'purpose']);
+};
+
+exports.down = pgm => {
+  pgm.dropTable('user_tokens');
+  pgm.dropColumn('users', 'email_verified_at');
+};
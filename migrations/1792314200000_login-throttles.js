@@ -0,0 +1,20 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = pgm => {
+  // Failed login tracking, keyed by 'email:<address>' or 'ip:<address>'.
+  // Emails are tracked whether or not an account exists so lockout behaves the same for unknown emails.
+  pgm.createTable('login_throttles', {
+    key: { type: 'varchar(320)', primaryKey: true },
+    failure_count: { type: 'integer', notNull: true, default: 0 },
+    window_started_at: { type: 'timestamp', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') },
+    last_failure_at: { type: 'timestamp' },
+    next_attempt_at: { type: 'timestamp' },
+    locked_until: { type: 'timestamp' }
+  });
+};
+
+exports.down = pgm => {
+  pgm.dropTable('login_throttles');
+};
@@ -0,0 +1,35 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = pgm => {
+  // Students apply for instructor access; an admin approves or rejects with a reason
+  pgm.createTable('instructor_applications', {
+    id: 'id',
+    user_id: { type: 'integer', notNull: true, references: 'users', onDelete: 'CASCADE' },
+    status: {
+      type: 'varchar(20)',
+      notNull: true,
+      default: 'pending',
+      check: "status IN ('pending', 'approved', 'rejected')"
+    },
+    motivation: { type: 'text', notNull: true },
+    decision_reason: { type: 'text' },
+    decided_by: { type: 'integer', references: 'users', onDelete: 'SET NULL' },
+    decided_at: { type: 'timestamp' },
+    created_at: { type: 'timestamp', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') }
+  });
+  pgm.createIndex('instructor_applications', 'user_id');
+  pgm.createIndex('instructor_applications', 'status');
+
+  // At most one open application per user
+  pgm.createIndex('instructor_applications', 'user_id', {
+    name: 'instructor_applications_one_pending_per_user',
+    unique: true,
+    where: "status = 'pending'"
+  });
+};
+
+exports.down = pgm => {
+  pgm.dropTable('instructor_applications');
+};
@@ -0,0 +1,42 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = pgm => {
+  // TOTP secret per user (encrypted). enabled_at stays NULL until the first code is confirmed.
+  pgm.createTable('user_mfa', {
+    user_id: { type: 'integer', primaryKey: true, references: 'users', onDelete: 'CASCADE' },
+    secret_encrypted: { type: 'text', notNull: true },
+    enabled_at: { type: 'timestamp' },
+    last_used_step: { type: 'bigint' }, // Last accepted TOTP time step, rejects replays
+    created_at: { type: 'timestamp', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') }
+  });
+
+  // Single-use recovery codes, stored as SHA-256 hashes
+  pgm.createTable('mfa_recovery_codes', {
+    id: 'id',
+    user_id: { type: 'integer', notNull: true, references: 'users', onDelete: 'CASCADE' },
+    code_hash: { type: 'varchar(64)', notNull: true },
+    used_at: { type: 'timestamp' },
+    created_at: { type: 'timestamp', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') }
+  });
+  pgm.createIndex('mfa_recovery_codes', 'user_id');
+
+  // Roles for which two-factor authentication is mandatory
+  pgm.createTable('mfa_role_policies', {
+    role: {
+      type: 'varchar(20)',
+      primaryKey: true,
+      check: "role IN ('admin', 'instructor', 'student')"
+    },
+    required: { type: 'boolean', notNull: true, default: false },
+    updated_by: { type: 'integer', references: 'users', onDelete: 'SET NULL' },
+    updated_at: { type: 'timestamp', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') }
+  });
+};
+
+exports.down = pgm => {
+  pgm.dropTable('mfa_role_policies');
+  pgm.dropTable('mfa_recovery_codes');
+  pgm.dropTable('user_mfa');
+};
@@ -0,0 +1,24 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = pgm => {
+  // Personal API keys. Only the SHA-256 hash is stored; prefix is the visible, non-secret part.
+  pgm.createTable('api_keys', {
+    id: 'id',
+    user_id: { type: 'integer', notNull: true, references: 'users', onDelete: 'CASCADE' },
+    name: { type: 'varchar(100)', notNull: true },
+    prefix: { type: 'varchar(16)', notNull: true, unique: true },
+    key_hash: { type: 'varchar(64)', notNull: true },
+    scopes: { type: 'text[]', notNull: true, default: '{}' },
+    expires_at: { type: 'timestamp' },
+    last_used_at: { type: 'timestamp' },
+    revoked_at: { type: 'timestamp' },
+    created_at: { type: 'timestamp', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') }
+  });
+  pgm.createIndex('api_keys', 'user_id');
+};
+
+exports.down = pgm => {
+  pgm.dropTable('api_keys');
+};
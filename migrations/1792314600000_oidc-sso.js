@@ -0,0 +1,38 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = pgm => {
+  // SSO-only accounts have no local password
+  pgm.alterColumn('users', 'password_hash', { notNull: false });
+
+  // Pending authorization-code requests (state -> PKCE verifier + nonce), consumed by the callback
+  pgm.createTable('oidc_login_states', {
+    state: { type: 'varchar(64)', primaryKey: true },
+    code_verifier: { type: 'varchar(128)', notNull: true },
+    nonce: { type: 'varchar(64)', notNull: true },
+    expires_at: { type: 'timestamp', notNull: true },
+    created_at: { type: 'timestamp', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') }
+  });
+  pgm.createIndex('oidc_login_states', 'expires_at');
+
+  // Links between local users and identity provider accounts (provider + subject)
+  pgm.createTable('user_identities', {
+    id: 'id',
+    user_id: { type: 'integer', notNull: true, references: 'users', onDelete: 'CASCADE' },
+    provider: { type: 'varchar(50)', notNull: true },
+    subject: { type: 'varchar(255)', notNull: true },
+    email: { type: 'varchar(255)' },
+    last_login_at: { type: 'timestamp' },
+    created_at: { type: 'timestamp', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') }
+  });
+  pgm.createIndex('user_identities', ['provider', 'subject'], { unique: true });
+  pgm.createIndex('user_identities', 'user_id');
+};
+
+exports.down = pgm => {
+  pgm.dropTable('user_identities');
+  pgm.dropTable('oidc_login_states');
+  // Fails if SSO-only users exist; delete them or set a password first
+  pgm.alterColumn('users', 'password_hash', { notNull: true });
+};
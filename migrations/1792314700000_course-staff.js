@@ -0,0 +1,25 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = pgm => {
+  // Co-instructors and teaching assistants; the owner stays in courses.instructor_id
+  pgm.createTable('course_staff', {
+    id: 'id',
+    course_id: { type: 'integer', notNull: true, references: 'courses', onDelete: 'CASCADE' },
+    user_id: { type: 'integer', notNull: true, references: 'users', onDelete: 'CASCADE' },
+    role: {
+      type: 'varchar(20)',
+      notNull: true,
+      check: "role IN ('co_instructor', 'ta')"
+    },
+    added_by: { type: 'integer', references: 'users', onDelete: 'SET NULL' },
+    created_at: { type: 'timestamp', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') }
+  });
+  pgm.createIndex('course_staff', ['course_id', 'user_id'], { unique: true });
+  pgm.createIndex('course_staff', 'user_id');
+};
+
+exports.down = pgm => {
+  pgm.dropTable('course_staff');
+};
@@ -0,0 +1,50 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = pgm => {
+  // Sections between courses and lessons; lessons.position becomes the position within the module
+  pgm.createTable('course_modules', {
+    id: 'id',
+    course_id: { type: 'integer', notNull: true, references: 'courses', onDelete: 'CASCADE' },
+    title: { type: 'varchar(255)', notNull: true },
+    position: { type: 'integer', notNull: true },
+    created_at: { type: 'timestamp', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') }
+  });
+  pgm.createIndex('course_modules', ['course_id', 'position']);
+
+  pgm.addColumn('lessons', {
+    module_id: { type: 'integer', references: 'course_modules', onDelete: 'CASCADE' }
+  });
+
+  // Existing flat courses get one default module holding all their lessons (positions unchanged)
+  pgm.sql(`
+    INSERT INTO course_modules (course_id, title, position)
+    SELECT id, 'Course content', 1 FROM courses
+  `);
+  pgm.sql(`
+    UPDATE lessons l
+    SET module_id = m.id
+    FROM course_modules m
+    WHERE m.course_id = l.course_id
+  `);
+
+  pgm.alterColumn('lessons', 'module_id', { notNull: true });
+  pgm.createIndex('lessons', ['module_id', 'position']);
+};
+
+exports.down = pgm => {
+  // Flatten back to course-wide positions in module order
+  pgm.sql(`
+    UPDATE lessons l
+    SET position = ordered.course_position
+    FROM (
+      SELECT l2.id, ROW_NUMBER() OVER (PARTITION BY l2.course_id ORDER BY m.position, l2.position) AS course_position
+      FROM lessons l2
+      JOIN course_modules m ON l2.module_id = m.id
+    ) ordered
+    WHERE l.id = ordered.id
+  `);
+  pgm.dropColumn('lessons', 'module_id');
+  pgm.dropTable('course_modules');
+};
@@ -0,0 +1,45 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = pgm => {
+  // Every edit of a lesson is a revision; lessons keeps the published content
+  pgm.createTable('lesson_revisions', {
+    id: 'id',
+    lesson_id: { type: 'integer', notNull: true, references: 'lessons', onDelete: 'CASCADE' },
+    revision_number: { type: 'integer', notNull: true },
+    title: { type: 'varchar(255)', notNull: true },
+    video_url: { type: 'text' },
+    content_md: { type: 'text' },
+    author_id: { type: 'integer', references: 'users', onDelete: 'SET NULL' },
+    restored_from: { type: 'integer' }, // Revision number this one copies, if restored
+    published_at: { type: 'timestamp' },
+    published_by: { type: 'integer', references: 'users', onDelete: 'SET NULL' },
+    created_at: { type: 'timestamp', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') }
+  });
+  pgm.createIndex('lesson_revisions', ['lesson_id', 'revision_number'], { unique: true });
+
+  pgm.addColumn('lessons', {
+    published_revision_id: { type: 'integer', references: 'lesson_revisions', onDelete: 'SET NULL' }
+  });
+
+  // Existing lesson content becomes revision 1, authored and published by the course owner
+  pgm.sql(`
+    INSERT INTO lesson_revisions
+      (lesson_id, revision_number, title, video_url, content_md, author_id, published_at, published_by, created_at)
+    SELECT l.id, 1, l.title, l.video_url, l.content_md, c.instructor_id, l.created_at, c.instructor_id, l.created_at
+    FROM lessons l
+    JOIN courses c ON l.course_id = c.id
+  `);
+  pgm.sql(`
+    UPDATE lessons l
+    SET published_revision_id = r.id
+    FROM lesson_revisions r
+    WHERE r.lesson_id = l.id
+  `);
+};
+
+exports.down = pgm => {
+  pgm.dropColumn('lessons', 'published_revision_id');
+  pgm.dropTable('lesson_revisions');
+};
@@ -0,0 +1,43 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = pgm => {
+  // open: every lesson is available; sequential: a lesson unlocks once the previous one is complete
+  pgm.addColumn('courses', {
+    release_mode: {
+      type: 'varchar(20)',
+      notNull: true,
+      default: 'open',
+      check: "release_mode IN ('open', 'sequential')"
+    }
+  });
+
+  // Drip schedule: days after enrollment and/or a fixed date
+  pgm.addColumn('lessons', {
+    unlock_after_days: { type: 'integer', check: 'unlock_after_days >= 0' },
+    unlock_at: { type: 'timestamp' }
+  });
+
+  // A prerequisite is either a lesson to complete or a quiz to pass with a minimum score
+  pgm.createTable('lesson_prerequisites', {
+    id: 'id',
+    lesson_id: { type: 'integer', notNull: true, references: 'lessons', onDelete: 'CASCADE' },
+    prerequisite_lesson_id: { type: 'integer', references: 'lessons', onDelete: 'CASCADE' },
+    prerequisite_quiz_id: { type: 'integer', references: 'quizzes', onDelete: 'CASCADE' },
+    min_score: { type: 'numeric(5,2)' },
+    created_at: { type: 'timestamp', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') }
+  }, {
+    constraints: {
+      check: `(prerequisite_lesson_id IS NOT NULL AND prerequisite_quiz_id IS NULL AND min_score IS NULL)
+        OR (prerequisite_lesson_id IS NULL AND prerequisite_quiz_id IS NOT NULL)`
+    }
+  });
+  pgm.createIndex('lesson_prerequisites', 'lesson_id');
+};
+
+exports.down = pgm => {
+  pgm.dropTable('lesson_prerequisites');
+  pgm.dropColumn('lessons', ['unlock_after_days', 'unlock_at']);
+  pgm.dropColumn('courses', 'release_mode');
+};
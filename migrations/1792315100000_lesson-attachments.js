@@ -0,0 +1,39 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = pgm => {
+  // Stored files, content-addressed: identical uploads share one object
+  pgm.createTable('storage_objects', {
+    checksum_sha256: { type: 'char(64)', primaryKey: true },
+    storage_key: { type: 'varchar(255)', notNull: true },
+    size_bytes: { type: 'bigint', notNull: true },
+    created_at: { type: 'timestamp', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') }
+  });
+
+  pgm.createTable('lesson_attachments', {
+    id: 'id',
+    lesson_id: { type: 'integer', notNull: true, references: 'lessons', onDelete: 'CASCADE' },
+    course_id: { type: 'integer', notNull: true, references: 'courses', onDelete: 'CASCADE' },
+    filename: { type: 'varchar(255)', notNull: true },
+    content_type: { type: 'varchar(100)', notNull: true },
+    size_bytes: { type: 'bigint', notNull: true },
+    checksum_sha256: { type: 'char(64)', notNull: true, references: 'storage_objects' },
+    uploaded_by: { type: 'integer', references: 'users', onDelete: 'SET NULL' },
+    created_at: { type: 'timestamp', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') }
+  });
+  pgm.createIndex('lesson_attachments', ['lesson_id', 'checksum_sha256'], { unique: true });
+  pgm.createIndex('lesson_attachments', 'course_id');
+  pgm.createIndex('lesson_attachments', 'checksum_sha256');
+
+  // Per-course storage quota in bytes; null uses STORAGE_COURSE_QUOTA_MB
+  pgm.addColumn('courses', {
+    storage_quota_bytes: { type: 'bigint', check: 'storage_quota_bytes >= 0' }
+  });
+};
+
+exports.down = pgm => {
+  pgm.dropColumn('courses', 'storage_quota_bytes');
+  pgm.dropTable('lesson_attachments');
+  pgm.dropTable('storage_objects');
+};
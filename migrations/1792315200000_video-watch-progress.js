@@ -0,0 +1,28 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = pgm => {
+  // Video watch time per enrollment and lesson, built from player heartbeats
+  pgm.createTable('lesson_watch_progress', {
+    id: 'id',
+    enrollment_id: { type: 'integer', notNull: true, references: 'enrollments', onDelete: 'CASCADE' },
+    lesson_id: { type: 'integer', notNull: true, references: 'lessons', onDelete: 'CASCADE' },
+    duration_seconds: { type: 'numeric(10,1)', notNull: true },
+    // Disjoint [start, end) pairs in seconds, sorted
+    watched_intervals: { type: 'jsonb', notNull: true, default: pgm.func("'[]'::jsonb") },
+    watched_seconds: { type: 'numeric(10,1)', notNull: true, default: 0 },
+    last_position: { type: 'numeric(10,1)', notNull: true },
+    last_playback_rate: { type: 'numeric(4,2)', notNull: true, default: 1 },
+    last_heartbeat_at: { type: 'timestamp', notNull: true },
+    heartbeat_count: { type: 'integer', notNull: true, default: 0 },
+    created_at: { type: 'timestamp', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') },
+    updated_at: { type: 'timestamp', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') }
+  });
+  pgm.createIndex('lesson_watch_progress', ['enrollment_id', 'lesson_id'], { unique: true });
+  pgm.createIndex('lesson_watch_progress', 'lesson_id');
+};
+
+exports.down = pgm => {
+  pgm.dropTable('lesson_watch_progress');
+};
@@ -0,0 +1,16 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = pgm => {
+  pgm.addColumn('courses', {
+    // Templates can be cloned by any instructor
+    is_template: { type: 'boolean', notNull: true, default: false },
+    cloned_from_id: { type: 'integer', references: 'courses', onDelete: 'SET NULL' }
+  });
+  pgm.createIndex('courses', 'is_template', { where: 'is_template' });
+};
+
+exports.down = pgm => {
+  pgm.dropColumn('courses', ['is_template', 'cloned_from_id']);
+};
@@ -0,0 +1,15 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = pgm => {
+  pgm.addColumn('courses', {
+    // "<exporting instance>/courses/<id>" for courses created from a package
+    import_source: { type: 'varchar(600)' }
+  });
+  pgm.createIndex('courses', 'import_source', { where: 'import_source IS NOT NULL' });
+};
+
+exports.down = pgm => {
+  pgm.dropColumn('courses', 'import_source');
+};
@@ -0,0 +1,40 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = pgm => {
+  // Categories nest; a category with subcategories cannot be deleted
+  pgm.createTable('course_categories', {
+    id: 'id',
+    parent_id: { type: 'integer', references: 'course_categories' },
+    name: { type: 'varchar(100)', notNull: true },
+    slug: { type: 'varchar(100)', notNull: true, unique: true },
+    position: { type: 'integer', notNull: true, default: 0 },
+    created_at: { type: 'timestamp', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') }
+  });
+  pgm.createIndex('course_categories', 'parent_id');
+
+  pgm.addColumn('courses', {
+    category_id: { type: 'integer', references: 'course_categories', onDelete: 'SET NULL' },
+    level: { type: 'varchar(20)', check: "level IN ('beginner', 'intermediate', 'advanced')" },
+    language: { type: 'varchar(20)' }, // BCP 47 tag, e.g. en or pt-BR
+    tags: { type: 'text[]', notNull: true, default: '{}' } // Lowercase, deduplicated
+  });
+  pgm.createIndex('courses', 'category_id');
+  pgm.createIndex('courses', 'tags', { method: 'gin' });
+
+  // One rating per enrolled student, 1 to 5
+  pgm.createTable('course_ratings', {
+    course_id: { type: 'integer', notNull: true, references: 'courses', onDelete: 'CASCADE', primaryKey: true },
+    user_id: { type: 'integer', notNull: true, references: 'users', onDelete: 'CASCADE', primaryKey: true },
+    rating: { type: 'smallint', notNull: true, check: 'rating BETWEEN 1 AND 5' },
+    created_at: { type: 'timestamp', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') },
+    updated_at: { type: 'timestamp', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') }
+  });
+};
+
+exports.down = pgm => {
+  pgm.dropTable('course_ratings');
+  pgm.dropColumn('courses', ['category_id', 'level', 'language', 'tags']);
+  pgm.dropTable('course_categories');
+};
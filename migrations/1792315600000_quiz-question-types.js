@@ -0,0 +1,38 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+const QUESTION_TYPES = ['single_choice', 'multiple_choice', 'true_false', 'numeric', 'short_text', 'ordering', 'matching'];
+
+exports.up = pgm => {
+  pgm.addColumn('quiz_questions', {
+    type: {
+      type: 'varchar(20)',
+      notNull: true,
+      default: 'single_choice',
+      check: `type IN (${QUESTION_TYPES.map(type => `'${type}'`).join(', ')})`
+    },
+    points: { type: 'numeric(6,2)', notNull: true, default: 1, check: 'points > 0' },
+    // Type-specific fields, including the answer key (see src/utils/quiz-grading.ts)
+    definition: { type: 'jsonb' }
+  });
+
+  pgm.sql(`UPDATE quiz_questions SET definition = jsonb_build_object('choices', to_jsonb(choices), 'correct_index', correct_index)`);
+  pgm.alterColumn('quiz_questions', 'definition', { notNull: true });
+  pgm.dropColumn('quiz_questions', ['choices', 'correct_index']);
+};
+
+exports.down = pgm => {
+  pgm.addColumn('quiz_questions', {
+    choices: { type: 'jsonb' },
+    correct_index: { type: 'integer' }
+  });
+
+  // Only single-choice questions fit the old columns
+  pgm.sql(`DELETE FROM quiz_questions WHERE type <> 'single_choice'`);
+  pgm.sql(`UPDATE quiz_questions SET choices = definition->'choices', correct_index = (definition->>'correct_index')::integer`);
+  pgm.alterColumn('quiz_questions', 'choices', { notNull: true });
+  pgm.alterColumn('quiz_questions', 'correct_index', { notNull: true });
+
+  pgm.dropColumn('quiz_questions', ['type', 'points', 'definition']);
+};
@@ -0,0 +1,37 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = pgm => {
+  // Null settings mean no limit, no timer, no pass mark and no cooldown
+  pgm.addColumn('quizzes', {
+    max_attempts: { type: 'integer', check: 'max_attempts > 0' },
+    time_limit_minutes: { type: 'integer', check: 'time_limit_minutes > 0' },
+    pass_score: { type: 'numeric(5,2)', check: 'pass_score BETWEEN 0 AND 100' },
+    score_policy: { type: 'varchar(10)', notNull: true, default: 'best', check: "score_policy IN ('best', 'latest', 'average')" },
+    cooldown_minutes: { type: 'integer', check: 'cooldown_minutes > 0' }
+  });
+
+  // An attempt is started before answers are submitted; expires_at enforces the time limit
+  pgm.createTable('quiz_attempts', {
+    id: 'id',
+    quiz_id: { type: 'integer', notNull: true, references: 'quizzes', onDelete: 'CASCADE' },
+    user_id: { type: 'integer', notNull: true, references: 'users', onDelete: 'CASCADE' },
+    started_at: { type: 'timestamp', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') },
+    expires_at: { type: 'timestamp' },
+    submitted_at: { type: 'timestamp' },
+    submission_id: { type: 'integer', unique: true, references: 'quiz_submissions', onDelete: 'SET NULL' }
+  });
+  pgm.createIndex('quiz_attempts', ['quiz_id', 'user_id']);
+
+  // Earlier submissions count as attempts
+  pgm.sql(`
+    INSERT INTO quiz_attempts (quiz_id, user_id, started_at, submitted_at, submission_id)
+    SELECT quiz_id, user_id, created_at, created_at, id FROM quiz_submissions
+  `);
+};
+
+exports.down = pgm => {
+  pgm.dropTable('quiz_attempts');
+  pgm.dropColumn('quizzes', ['max_attempts', 'time_limit_minutes', 'pass_score', 'score_policy', 'cooldown_minutes']);
+};
@@ -0,0 +1,87 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = pgm => {
+  pgm.addColumn('quizzes', {
+    shuffle_questions: { type: 'boolean', notNull: true, default: false },
+    shuffle_choices: { type: 'boolean', notNull: true, default: false }
+  });
+
+  // The questions of a quiz as an attempt saw them; one row per distinct content
+  pgm.createTable('quiz_versions', {
+    id: 'id',
+    quiz_id: { type: 'integer', notNull: true, references: 'quizzes', onDelete: 'CASCADE' },
+    checksum: { type: 'varchar(64)', notNull: true }, // SHA-256 of the questions and shuffle settings, or 'backfill'
+    questions: { type: 'jsonb', notNull: true }, // [{ id, prompt, points, definition }] in quiz order
+    shuffle_questions: { type: 'boolean', notNull: true },
+    shuffle_choices: { type: 'boolean', notNull: true },
+    created_at: { type: 'timestamp', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') }
+  });
+  pgm.addConstraint('quiz_versions', 'quiz_versions_quiz_id_checksum_key', { unique: ['quiz_id', 'checksum'] });
+
+  // Attempts from before versions existed get the backfilled version below and no seed
+  pgm.addColumn('quiz_attempts', {
+    quiz_version_id: { type: 'integer', references: 'quiz_versions' },
+    seed: { type: 'integer' } // Set when the quiz shuffles questions or choices
+  });
+
+  // Answers become a map of question ID to answer. Earlier submissions were
+  // positional; they are matched to the questions in their current order.
+  pgm.sql('ALTER TABLE quiz_submissions ALTER COLUMN answers TYPE jsonb USING answers::jsonb');
+  pgm.sql(`
+    UPDATE quiz_submissions s
+    SET answers = COALESCE((
+      SELECT jsonb_object_agg(q.id::text, a.answer)
+      FROM jsonb_array_elements(s.answers) WITH ORDINALITY AS a(answer, n)
+      JOIN (
+        SELECT id, row_number() OVER (ORDER BY created_at, id) as n
+        FROM quiz_questions
+        WHERE quiz_id = s.quiz_id
+      ) q ON q.n = a.n
+    ), '{}'::jsonb)
+    WHERE jsonb_typeof(s.answers) = 'array'
+  `);
+
+  // Freeze the questions those answers were matched to as a version of each
+  // quiz, so later edits to the quiz do not change what they were answers to.
+  // Every submission has an attempt (see quiz-attempts), which points at it.
+  pgm.sql(`
+    INSERT INTO quiz_versions (quiz_id, checksum, questions, shuffle_questions, shuffle_choices)
+    SELECT q.id, 'backfill', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', qq.id,
+        'prompt', qq.prompt,
+        'points', qq.points::float8,
+        'definition', qq.definition || jsonb_build_object('type', qq.type)
+      ) ORDER BY qq.created_at, qq.id)
+      FROM quiz_questions qq
+      WHERE qq.quiz_id = q.id
+    ), '[]'::jsonb), false, false
+    FROM quizzes q
+    WHERE EXISTS (SELECT 1 FROM quiz_attempts a WHERE a.quiz_id = q.id)
+  `);
+  pgm.sql(`
+    UPDATE quiz_attempts a
+    SET quiz_version_id = v.id
+    FROM quiz_versions v
+    WHERE v.quiz_id = a.quiz_id
+  `);
+  pgm.alterColumn('quiz_attempts', 'quiz_version_id', { notNull: true });
+};
+
+exports.down = pgm => {
+  pgm.sql(`
+    UPDATE quiz_submissions s
+    SET answers = COALESCE((
+      SELECT jsonb_agg(s.answers->(q.id::text) ORDER BY q.created_at, q.id)
+      FROM quiz_questions q
+      WHERE q.quiz_id = s.quiz_id
+    ), '[]'::jsonb)
+    WHERE jsonb_typeof(s.answers) = 'object'
+  `);
+
+  pgm.dropColumn('quiz_attempts', ['quiz_version_id', 'seed']);
+  pgm.dropTable('quiz_versions');
+  pgm.dropColumn('quizzes', ['shuffle_questions', 'shuffle_choices']);
+};
@@ -0,0 +1,59 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+const QUESTION_TYPES = ['single_choice', 'multiple_choice', 'true_false', 'numeric', 'short_text', 'ordering', 'matching'];
+const DIFFICULTIES = ['easy', 'medium', 'hard'];
+
+exports.up = pgm => {
+  // Reusable questions of a course, drawn into quizzes at random
+  pgm.createTable('question_banks', {
+    id: 'id',
+    course_id: { type: 'integer', notNull: true, references: 'courses', onDelete: 'CASCADE' },
+    title: { type: 'varchar(255)', notNull: true },
+    description: { type: 'text' },
+    created_at: { type: 'timestamp', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') },
+    updated_at: { type: 'timestamp', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') }
+  });
+  pgm.createIndex('question_banks', 'course_id');
+
+  // IDs come from the quiz question sequence: answers are keyed by question
+  // ID, and an attempt can hold quiz and bank questions side by side
+  pgm.createTable('bank_questions', {
+    id: { type: 'integer', primaryKey: true, default: pgm.func("nextval('quiz_questions_id_seq')") },
+    bank_id: { type: 'integer', notNull: true, references: 'question_banks', onDelete: 'CASCADE' },
+    prompt: { type: 'text', notNull: true },
+    type: { type: 'varchar(20)', notNull: true, check: `type IN (${QUESTION_TYPES.map(type => `'${type}'`).join(', ')})` },
+    points: { type: 'numeric(6,2)', notNull: true, default: 1, check: 'points > 0' },
+    definition: { type: 'jsonb', notNull: true }, // As in quiz_questions
+    topic: { type: 'varchar(100)' },
+    difficulty: { type: 'varchar(10)', check: `difficulty IN (${DIFFICULTIES.map(level => `'${level}'`).join(', ')})` },
+    created_at: { type: 'timestamp', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') }
+  });
+  pgm.createIndex('bank_questions', 'bank_id');
+
+  // "Draw count questions from bank", optionally of one topic and difficulty
+  pgm.createTable('quiz_question_draws', {
+    id: 'id',
+    quiz_id: { type: 'integer', notNull: true, references: 'quizzes', onDelete: 'CASCADE' },
+    bank_id: { type: 'integer', notNull: true, references: 'question_banks' }, // A bank in use cannot be deleted
+    count: { type: 'integer', notNull: true, check: 'count > 0' },
+    topic: { type: 'varchar(100)' },
+    difficulty: { type: 'varchar(10)', check: `difficulty IN (${DIFFICULTIES.map(level => `'${level}'`).join(', ')})` },
+    position: { type: 'integer', notNull: true }
+  });
+  pgm.createIndex('quiz_question_draws', ['quiz_id', 'position']);
+
+  // The bank questions an attempt drew, frozen like the quiz version's:
+  // [{ id, prompt, points, definition }] in draw order; null when nothing was drawn
+  pgm.addColumn('quiz_attempts', {
+    drawn_questions: { type: 'jsonb' }
+  });
+};
+
+exports.down = pgm => {
+  pgm.dropColumn('quiz_attempts', 'drawn_questions');
+  pgm.dropTable('quiz_question_draws');
+  pgm.dropTable('bank_questions');
+  pgm.dropTable('question_banks');
+};
@@ -0,0 +1,94 @@
+/* eslint-disable camelcase */
+
+exports.shorthands = undefined;
+
+exports.up = pgm => {
+  // Essay and file assignments, graded by hand against a rubric
+  pgm.createTable('assignments', {
+    id: 'id',
+    course_id: { type: 'integer', notNull: true, references: 'courses', onDelete: 'CASCADE' },
+    title: { type: 'varchar(255)', notNull: true },
+    instructions: { type: 'text' },
+    submission_type: { type: 'varchar(10)', notNull: true, default: 'text', check: "submission_type IN ('text', 'file', 'both')" },
+    due_at: { type: 'timestamp' }, // null: no due date, never late
+    // Percentage of the grade deducted per started day late; null: late submissions are refused
+    late_penalty_per_day: { type: 'numeric(5,2)', check: 'late_penalty_per_day BETWEEN 0 AND 100' },
+    late_penalty_max: { type: 'numeric(5,2)', notNull: true, default: 100, check: 'late_penalty_max BETWEEN 0 AND 100' },
+    late_cutoff_days: { type: 'integer', check: 'late_cutoff_days >= 0' }, // null: late submissions any time
+    // [{ title, description, levels: [{ title, description, points }] }]
+    rubric: { type: 'jsonb', notNull: true },
+    created_at: { type: 'timestamp', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') },
+    updated_at: { type: 'timestamp', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') }
+  });
+  pgm.createIndex('assignments', 'course_id');
+
+  // One per student and assignment: a draft until submitted, then locked
+  pgm.createTable('assignment_submissions', {
+    id: 'id',
+    assignment_id: { type: 'integer', notNull: true, references: 'assignments', onDelete: 'CASCADE' },
+    user_id: { type: 'integer', notNull: true, references: 'users', onDelete: 'CASCADE' },
+    text_content: { type: 'text' },
+    status: { type: 'varchar(10)', notNull: true, default: 'draft', check: "status IN ('draft', 'submitted')" },
+    submitted_at: { type: 'timestamp' },
+    late_days: { type: 'integer', notNull: true, default: 0 }, // Started days past due_at when submitted
+    created_at: { type: 'timestamp', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') },
+    updated_at: { type: 'timestamp', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') }
+  });
+  pgm.addConstraint('assignment_submissions', 'assignment_submissions_assignment_id_user_id_key', {
+    unique: ['assignment_id', 'user_id']
+  });
+  pgm.createIndex('assignment_submissions', 'user_id');
+
+  // Content is stored like lesson attachments, in storage_objects
+  pgm.createTable('assignment_submission_files', {
+    id: 'id',
+    submission_id: { type: 'integer', notNull: true, references: 'assignment_submissions', onDelete: 'CASCADE' },
+    filename: { type: 'varchar(255)', notNull: true },
+    content_type: { type: 'varchar(100)', notNull: true },
+    size_bytes: { type: 'bigint', notNull: true },
+    checksum_sha256: { type: 'char(64)', notNull: true, references: 'storage_objects' },
+    created_at: { type: 'timestamp', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') }
+  });
+  pgm.createIndex('assignment_submission_files', 'submission_id');
+  pgm.createIndex('assignment_submission_files', 'checksum_sha256');
+
+  // Students only see a grade once released_at is set
+  pgm.createTable('assignment_grades', {
+    id: 'id',
+    submission_id: { type: 'integer', notNull: true, unique: true, references: 'assignment_submissions', onDelete: 'CASCADE' },
+    grader_id: { type: 'integer', references: 'users', onDelete: 'SET NULL' },
+    rubric_scores: { type: 'jsonb', notNull: true }, // [{ criterion, level, points, comment }] in rubric order
+    raw_points: { type: 'numeric(7,2)', notNull: true },
+    late_penalty_percent: { type: 'numeric(5,2)', notNull: true, default: 0 },
+    points: { type: 'numeric(7,2)', notNull: true }, // raw_points less the late penalty
+    max_points: { type: 'numeric(7,2)', notNull: true },
+    feedback: { type: 'text' },
+    released_at: { type: 'timestamp' },
+    created_at: { type: 'timestamp', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') },
+    updated_at: { type: 'timestamp', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') }
+  });
+
+  pgm.createTable('assignment_regrade_requests', {
+    id: 'id',
+    submission_id: { type: 'integer', notNull: true, references: 'assignment_submissions', onDelete: 'CASCADE' },
+    reason: { type: 'text', notNull: true },
+    status: { type: 'varchar(10)', notNull: true, default: 'open', check: "status IN ('open', 'resolved', 'rejected')" },
+    response: { type: 'text' },
+    resolved_by: { type: 'integer', references: 'users', onDelete: 'SET NULL' },
+    created_at: { type: 'timestamp', notNull: true, default: pgm.func('CURRENT_TIMESTAMP') },
+    resolved_at: { type: 'timestamp' }
+  });
+  pgm.createIndex('assignment_regrade_requests', 'submission_id', {
+    name: 'assignment_regrade_requests_one_open',
+    unique: true,
+    where: "status = 'open'"
+  });
+};
+
+exports.down = pgm => {
+  pgm.dropTable('assignment_regrade_requests');
+  pgm.dropTable('assignment_grades');
+  pgm.dropTable('assignment_submission_files');
+  pgm.dropTable('assignment_submissions');
+  pgm.dropTable('assignments');
+};
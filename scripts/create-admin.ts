@@ -0,0 +1,114 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Bootstrap an admin account
+ *
+ * Public registration only creates students, so the first admin has to be
+ * created from the command line. Uses the same DATABASE_URL as the app.
+ *
+ * Usage:
+ *   npm run create-admin -- --email admin@example.com --name "Site Admin"
+ *
+ * The password is read from ADMIN_PASSWORD (preferred, keeps it out of shell
+ * history) or --password. Pass --promote to turn an existing user into an admin.
+ */
+
+import { db } from '../src/db';
+import { UsersService } from '../src/services/users.service';
+import { SessionsService } from '../src/services/sessions.service';
+
+interface CreateAdminArgs {
+  email?: string;
+  name?: string;
+  password?: string;
+  promote: boolean;
+}
+
+function parseArgs(argv: string[]): CreateAdminArgs {
+  const args: CreateAdminArgs = { promote: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--email':
+        args.email = argv[++i];
+        break;
+      case '--name':
+        args.name = argv[++i];
+        break;
+      case '--password':
+        args.password = argv[++i];
+        break;
+      case '--promote':
+        args.promote = true;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${argv[i]}`);
+    }
+  }
+
+  args.password = args.password || process.env.ADMIN_PASSWORD;
+  return args;
+}
+
+async function promoteExistingUser(email: string): Promise<void> {
+  const result = await db.query('SELECT id, role FROM users WHERE email = $1', [email.toLowerCase()]);
+  const user = result.rows[0];
+
+  if (!user) {
+    throw new Error(`No user found with email ${email}`);
+  }
+
+  if (user.role === 'admin') {
+    console.log(`ℹ️  ${email} is already an admin`);
+    return;
+  }
+
+  await UsersService.updateUser(user.id, { role: 'admin' });
+  await SessionsService.revokeAllSessions(user.id, 'role_changed');
+  console.log(`✅ Promoted ${email} (id ${user.id}) from ${user.role} to admin`);
+}
+
+async function main() {
+  try {
+    const args = parseArgs(process.argv.slice(2));
+
+    if (!args.email) {
+      throw new Error('--email is required');
+    }
+
+    if (args.promote) {
+      await promoteExistingUser(args.email);
+      return;
+    }
+
+    if (!args.name) {
+      throw new Error('--name is required');
+    }
+
+    if (!args.password || args.password.length < 6) {
+      throw new Error('A password of at least 6 characters is required (ADMIN_PASSWORD or --password)');
+    }
+
+    const user = await UsersService.createUser({
+      email: args.email,
+      name: args.name,
+      password: args.password,
+      role: 'admin'
+    });
+
+    console.log(`✅ Admin created: ${user.email} (id ${user.id})`);
+  } catch (error) {
+    if (error instanceof Error && error.message === 'EMAIL_EXISTS') {
+      console.error('❌ A user with this email already exists. Use --promote to make them an admin.');
+    } else {
+      console.error('❌ Failed to create admin:', error instanceof Error ? error.message : error);
+    }
+    process.exitCode = 1;
+  } finally {
+    await db.disconnect();
+  }
+}
+
+if (require.main === module) {
+  main();
+}
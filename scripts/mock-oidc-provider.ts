@@ -0,0 +1,205 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Minimal OpenID Connect provider for local SSO testing
+ *
+ * Implements discovery, JWKS, the authorization endpoint (with a tiny login
+ * form) and the token endpoint with PKCE (S256) verification. ID tokens are
+ * signed with an RSA key generated at startup. Never use this outside
+ * development: it authenticates anyone as any email.
+ *
+ * Usage:
+ *   npm run mock-idp
+ *
+ * Then start the API with:
+ *   OIDC_ISSUER=http://localhost:4010 OIDC_CLIENT_ID=learnlite
+ *
+ * Passing login_hint=<email> to the authorization URL skips the form.
+ * MOCK_OIDC_PORT changes the port (default 4010).
+ */
+
+import crypto from 'crypto';
+import express, { Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+
+const port = parseInt(process.env.MOCK_OIDC_PORT || '4010', 10);
+const issuer = `http://localhost:${port}`;
+const keyId = 'mock-key-1';
+const CODE_TTL_MS = 60 * 1000;
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  nonce?: string;
+  email: string;
+  name: string;
+  emailVerified: boolean;
+  expiresAt: number;
+}
+
+const codes = new Map<string, PendingCode>();
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Issue a code for the user and redirect back to the client
+ */
+function approve(res: Response, params: Record<string, any>, user: { email: string; name?: string; emailVerified: boolean }) {
+  const code = crypto.randomBytes(24).toString('base64url');
+
+  codes.set(code, {
+    clientId: params.client_id,
+    redirectUri: params.redirect_uri,
+    codeChallenge: params.code_challenge,
+    nonce: params.nonce,
+    email: user.email.toLowerCase(),
+    name: user.name || user.email.split('@')[0],
+    emailVerified: user.emailVerified,
+    expiresAt: Date.now() + CODE_TTL_MS
+  });
+
+  const redirect = new URL(params.redirect_uri);
+  redirect.searchParams.set('code', code);
+  if (params.state) {
+    redirect.searchParams.set('state', params.state);
+  }
+
+  console.log(`✅ Issued code for ${user.email} -> ${redirect.origin}${redirect.pathname}`);
+  res.redirect(302, redirect.toString());
+}
+
+function validateAuthorizeParams(params: Record<string, any>): string | null {
+  if (params.response_type !== 'code') return 'response_type must be "code"';
+  if (!params.client_id) return 'client_id is required';
+  if (!params.redirect_uri) return 'redirect_uri is required';
+  if (!params.code_challenge || params.code_challenge_method !== 'S256') return 'PKCE with S256 is required';
+  return null;
+}
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+app.use(express.json());
+
+app.get('/.well-known/openid-configuration', (_req: Request, res: Response) => {
+  res.json({
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    jwks_uri: `${issuer}/jwks`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256'],
+    code_challenge_methods_supported: ['S256'],
+    scopes_supported: ['openid', 'email', 'profile'],
+    token_endpoint_auth_methods_supported: ['none', 'client_secret_post']
+  });
+});
+
+app.get('/jwks', (_req: Request, res: Response) => {
+  res.json({
+    keys: [{ ...publicKey.export({ format: 'jwk' }), kid: keyId, use: 'sig', alg: 'RS256' }]
+  });
+});
+
+// GET /authorize - Show a login form, or approve directly when login_hint is given
+app.get('/authorize', (req: Request, res: Response) => {
+  const params = req.query as Record<string, any>;
+  const error = validateAuthorizeParams(params);
+  if (error) {
+    return res.status(400).send(error);
+  }
+
+  if (params.login_hint) {
+    return approve(res, params, { email: String(params.login_hint), emailVerified: true });
+  }
+
+  const hidden = Object.entries(params)
+    .map(([key, value]) => `<input type="hidden" name="${escapeHtml(key)}" value="${escapeHtml(String(value))}">`)
+    .join('\n');
+
+  res.send(`<!doctype html>
+<html><body>
+<h1>Mock identity provider</h1>
+<form method="post" action="/authorize">
+${hidden}
+<p><label>Email <input name="email" type="email" required></label></p>
+<p><label>Name <input name="name"></label></p>
+<p><label><input name="email_verified" type="checkbox" value="true" checked> Email verified</label></p>
+<button type="submit">Sign in</button>
+</form>
+</body></html>`);
+});
+
+// POST /authorize - Login form submission
+app.post('/authorize', (req: Request, res: Response) => {
+  const params = req.body as Record<string, any>;
+  const error = validateAuthorizeParams(params);
+  if (error || !params.email) {
+    return res.status(400).send(error || 'email is required');
+  }
+
+  approve(res, params, {
+    email: params.email,
+    name: params.name,
+    emailVerified: params.email_verified === 'true'
+  });
+});
+
+// POST /token - Authorization code grant with PKCE
+app.post('/token', (req: Request, res: Response) => {
+  const { grant_type, code, redirect_uri, client_id, code_verifier } = req.body || {};
+
+  if (grant_type !== 'authorization_code') {
+    return res.status(400).json({ error: 'unsupported_grant_type' });
+  }
+
+  const pending = typeof code === 'string' ? codes.get(code) : undefined;
+  codes.delete(code);
+
+  if (!pending || pending.expiresAt < Date.now()) {
+    return res.status(400).json({ error: 'invalid_grant', error_description: 'Unknown or expired code' });
+  }
+
+  if (pending.clientId !== client_id || pending.redirectUri !== redirect_uri) {
+    return res.status(400).json({ error: 'invalid_grant', error_description: 'client_id or redirect_uri mismatch' });
+  }
+
+  const challenge = typeof code_verifier === 'string'
+    ? crypto.createHash('sha256').update(code_verifier).digest('base64url')
+    : '';
+  if (challenge !== pending.codeChallenge) {
+    return res.status(400).json({ error: 'invalid_grant', error_description: 'PKCE verification failed' });
+  }
+
+  // Stable subject per email so repeated logins map to the same identity
+  const sub = crypto.createHash('sha256').update(pending.email).digest('hex').slice(0, 24);
+
+  const idToken = jwt.sign(
+    {
+      sub,
+      email: pending.email,
+      email_verified: pending.emailVerified,
+      name: pending.name,
+      ...(pending.nonce ? { nonce: pending.nonce } : {})
+    },
+    privateKey,
+    { algorithm: 'RS256', keyid: keyId, issuer, audience: client_id, expiresIn: 300 }
+  );
+
+  res.json({
+    access_token: crypto.randomBytes(24).toString('base64url'),
+    token_type: 'Bearer',
+    expires_in: 300,
+    id_token: idToken
+  });
+});
+
+app.listen(port, () => {
+  console.log(`🔐 Mock OIDC provider running at ${issuer}`);
+  console.log(`   Discovery: ${issuer}/.well-known/openid-configuration`);
+});
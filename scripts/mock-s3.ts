@@ -0,0 +1,126 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Minimal S3-compatible server for testing the s3 storage driver locally
+ *
+ * Supports path-style PUT, GET, HEAD and DELETE of objects and checks the
+ * SigV4 signature of every request against one access key. Objects are kept
+ * in memory and lost on exit. Never use this outside development.
+ *
+ * Usage:
+ *   npm run mock-s3
+ *
+ * Then start the API with:
+ *   STORAGE_DRIVER=s3 STORAGE_S3_ENDPOINT=http://localhost:4020 STORAGE_S3_BUCKET=learnlite
+ *   STORAGE_S3_ACCESS_KEY_ID=learnlite STORAGE_S3_SECRET_ACCESS_KEY=learnlite-secret
+ *
+ * MOCK_S3_PORT, MOCK_S3_ACCESS_KEY_ID and MOCK_S3_SECRET_ACCESS_KEY change the defaults.
+ */
+
+import crypto from 'crypto';
+import express, { Request, Response } from 'express';
+import { signRequest } from '../src/modules/storage/s3.driver';
+
+const port = parseInt(process.env.MOCK_S3_PORT || '4020', 10);
+const accessKeyId = process.env.MOCK_S3_ACCESS_KEY_ID || 'learnlite';
+const secretAccessKey = process.env.MOCK_S3_SECRET_ACCESS_KEY || 'learnlite-secret';
+
+interface StoredObject {
+  data: Buffer;
+  contentType: string;
+  etag: string;
+  lastModified: Date;
+}
+
+const objects = new Map<string, StoredObject>();
+
+function sendS3Error(res: Response, status: number, code: string, message: string) {
+  res.status(status).type('application/xml').send(
+    `<?xml version="1.0" encoding="UTF-8"?><Error><Code>${code}</Code><Message>${message}</Message></Error>`
+  );
+}
+
+/**
+ * Recompute the request's signature from the headers it claims to have signed
+ */
+function isSignatureValid(req: Request): boolean {
+  const match = (req.headers.authorization || '').match(
+    /^AWS4-HMAC-SHA256 Credential=([^/]+)\/(\d{8})\/([^/]+)\/s3\/aws4_request, ?SignedHeaders=([^,]+), ?Signature=([0-9a-f]{64})$/
+  );
+  if (!match || match[1] !== accessKeyId) {
+    return false;
+  }
+
+  const [, , , region, signedHeaders, signature] = match;
+  const headers: Record<string, string> = {};
+  for (const name of signedHeaders.split(';')) {
+    const value = req.headers[name];
+    if (value === undefined) {
+      return false;
+    }
+    headers[name] = Array.isArray(value) ? value.join(',') : value;
+  }
+
+  const payloadHash = String(req.headers['x-amz-content-sha256'] || '');
+  const body = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+  if (payloadHash !== crypto.createHash('sha256').update(body).digest('hex')) {
+    return false;
+  }
+
+  const expected = signRequest(
+    { method: req.method, path: req.originalUrl.split('?')[0], headers, payloadHash },
+    { secretAccessKey, region }
+  );
+
+  return expected.signature === signature;
+}
+
+const app = express();
+app.use(express.raw({ type: () => true, limit: '1gb' }));
+
+app.use((req, res, next) => {
+  if (!isSignatureValid(req)) {
+    return sendS3Error(res, 403, 'SignatureDoesNotMatch', 'The request signature we calculated does not match the signature you provided.');
+  }
+  next();
+});
+
+app.put('/:bucket/*', (req, res) => {
+  const data = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+  const etag = `"${crypto.createHash('md5').update(data).digest('hex')}"`;
+
+  objects.set(`${req.params.bucket}/${req.params[0]}`, {
+    data,
+    contentType: req.headers['content-type'] || 'application/octet-stream',
+    etag,
+    lastModified: new Date()
+  });
+
+  console.log(`PUT ${req.params.bucket}/${req.params[0]} (${data.length} bytes)`);
+  res.set('ETag', etag).status(200).end();
+});
+
+app.get('/:bucket/*', (req, res) => {
+  const object = objects.get(`${req.params.bucket}/${req.params[0]}`);
+  if (!object) {
+    return sendS3Error(res, 404, 'NoSuchKey', 'The specified key does not exist.');
+  }
+
+  res.set({
+    'Content-Type': object.contentType,
+    ETag: object.etag,
+    'Last-Modified': object.lastModified.toUTCString()
+  });
+  res.send(object.data);
+});
+
+app.delete('/:bucket/*', (req, res) => {
+  objects.delete(`${req.params.bucket}/${req.params[0]}`);
+  console.log(`DELETE ${req.params.bucket}/${req.params[0]}`);
+  res.status(204).end();
+});
+
+app.listen(port, () => {
+  console.log(`🪣 Mock S3 server listening on http://localhost:${port}`);
+  console.log(`   Access key: ${accessKeyId} / ${secretAccessKey}`);
+});
@@ -1,7 +1,7 @@
 #!/usr/bin/env ts-node
 
 import { Pool } from 'pg';
-import * as bcrypt from 'bcrypt';
+import { hashPassword } from '../src/utils/password-hasher';
 import * as dotenv from 'dotenv';
 
 // Load environment variables
@@ -412,7 +412,9 @@ async function clearExistingData() {
     console.log('  • Clearing certificates...');
     await client.query('DELETE FROM certificates');
     
-    console.log('  • Clearing quiz submissions...');
+    console.log('  • Clearing quiz attempts and submissions...');
+    await client.query('DELETE FROM quiz_attempts');
+    await client.query('DELETE FROM quiz_versions');
     await client.query('DELETE FROM quiz_submissions');
     
     console.log('  • Clearing lesson progress...');
@@ -424,15 +426,39 @@ async function clearExistingData() {
     console.log('  • Clearing quizzes...');
     await client.query('DELETE FROM quizzes');
     
+    console.log('  • Clearing question banks...');
+    await client.query('DELETE FROM bank_questions');
+    await client.query('DELETE FROM question_banks');
+    
+    console.log('  • Clearing assignments and submissions...');
+    await client.query('DELETE FROM assignment_regrade_requests');
+    await client.query('DELETE FROM assignment_grades');
+    await client.query('DELETE FROM assignment_submission_files');
+    await client.query('DELETE FROM assignment_submissions');
+    await client.query('DELETE FROM assignments');
+    
     console.log('  • Clearing enrollments...');
     await client.query('DELETE FROM enrollments');
     
+    console.log('  • Clearing lesson attachments...');
+    await client.query('DELETE FROM lesson_attachments');
+    await client.query('DELETE FROM storage_objects');
+    
     console.log('  • Clearing lessons...');
     await client.query('DELETE FROM lessons');
     
+    console.log('  • Clearing course modules...');
+    await client.query('DELETE FROM course_modules');
+    
+    console.log('  • Clearing course ratings...');
+    await client.query('DELETE FROM course_ratings');
+    
     console.log('  • Clearing courses...');
     await client.query('DELETE FROM courses');
     
+    console.log('  • Clearing course categories...');
+    await client.query('DELETE FROM course_categories');
+    
     console.log('  • Clearing users...');
     await client.query('DELETE FROM users');
     
@@ -441,10 +467,22 @@ async function clearExistingData() {
     await client.query('ALTER SEQUENCE users_id_seq RESTART WITH 1');
     await client.query('ALTER SEQUENCE courses_id_seq RESTART WITH 1');
     await client.query('ALTER SEQUENCE lessons_id_seq RESTART WITH 1');
+    await client.query('ALTER SEQUENCE course_modules_id_seq RESTART WITH 1');
+    await client.query('ALTER SEQUENCE course_categories_id_seq RESTART WITH 1');
+    await client.query('ALTER SEQUENCE lesson_revisions_id_seq RESTART WITH 1');
     await client.query('ALTER SEQUENCE quizzes_id_seq RESTART WITH 1');
     await client.query('ALTER SEQUENCE quiz_questions_id_seq RESTART WITH 1');
     await client.query('ALTER SEQUENCE enrollments_id_seq RESTART WITH 1');
     await client.query('ALTER SEQUENCE quiz_submissions_id_seq RESTART WITH 1');
+    await client.query('ALTER SEQUENCE quiz_attempts_id_seq RESTART WITH 1');
+    await client.query('ALTER SEQUENCE quiz_versions_id_seq RESTART WITH 1');
+    await client.query('ALTER SEQUENCE question_banks_id_seq RESTART WITH 1');
+    await client.query('ALTER SEQUENCE quiz_question_draws_id_seq RESTART WITH 1');
+    await client.query('ALTER SEQUENCE assignments_id_seq RESTART WITH 1');
+    await client.query('ALTER SEQUENCE assignment_submissions_id_seq RESTART WITH 1');
+    await client.query('ALTER SEQUENCE assignment_submission_files_id_seq RESTART WITH 1');
+    await client.query('ALTER SEQUENCE assignment_grades_id_seq RESTART WITH 1');
+    await client.query('ALTER SEQUENCE assignment_regrade_requests_id_seq RESTART WITH 1');
     await client.query('ALTER SEQUENCE certificates_id_seq RESTART WITH 1');
     await client.query('ALTER SEQUENCE lesson_progress_id_seq RESTART WITH 1');
     await client.query('ALTER SEQUENCE outbox_events_id_seq RESTART WITH 1');
@@ -465,7 +503,7 @@ async function seedUsers() {
   const client = await pool.connect();
   try {
     for (const user of seedData.users) {
-      const hashedPassword = await bcrypt.hash(user.password, 12);
+      const hashedPassword = await hashPassword(user.password);
       
       await client.query(
         'INSERT INTO users (email, password_hash, name, role) VALUES ($1, $2, $3, $4)',
@@ -518,7 +556,7 @@ async function seedLessons() {
     for (const lesson of seedData.lessons) {
       // Get course ID
       const courseResult = await client.query(
-        'SELECT id FROM courses WHERE title = $1',
+        'SELECT id, instructor_id FROM courses WHERE title = $1',
         [lesson.courseTitle]
       );
       
@@ -527,10 +565,35 @@ async function seedLessons() {
       }
       
       const courseId = courseResult.rows[0].id;
+      const instructorId = courseResult.rows[0].instructor_id;
+      
+      // Seeded courses keep all lessons in a single default module
+      let moduleResult = await client.query(
+        'SELECT id FROM course_modules WHERE course_id = $1 ORDER BY position LIMIT 1',
+        [courseId]
+      );
+      
+      if (moduleResult.rows.length === 0) {
+        moduleResult = await client.query(
+          `INSERT INTO course_modules (course_id, title, position) VALUES ($1, 'Course content', 1) RETURNING id`,
+          [courseId]
+        );
+      }
+      
+      const lessonResult = await client.query(
+        'INSERT INTO lessons (course_id, module_id, title, content_md, video_url, position) VALUES ($1, $2, $3, $4, $5, $6) RETURNING id',
+        [courseId, moduleResult.rows[0].id, lesson.title, lesson.content, lesson.videoUrl, lesson.position]
+      );
       
+      // Seeded content is the lesson's first published revision
       await client.query(
-        'INSERT INTO lessons (course_id, title, content_md, video_url, position) VALUES ($1, $2, $3, $4, $5)',
-        [courseId, lesson.title, lesson.content, lesson.videoUrl, lesson.position]
+        `WITH revision AS (
+           INSERT INTO lesson_revisions (lesson_id, revision_number, title, video_url, content_md, author_id, published_at, published_by)
+           VALUES ($1, 1, $2, $3, $4, $5, CURRENT_TIMESTAMP, $5)
+           RETURNING id
+         )
+         UPDATE lessons SET published_revision_id = (SELECT id FROM revision) WHERE id = $1`,
+        [lessonResult.rows[0].id, lesson.title, lesson.videoUrl, lesson.content, instructorId]
       );
       
       console.log(`  ✓ Created lesson: ${lesson.title}`);
@@ -569,8 +632,8 @@ async function seedQuizzes() {
       // Create questions
       for (const question of quiz.questions) {
         await client.query(
-          'INSERT INTO quiz_questions (quiz_id, prompt, choices, correct_index) VALUES ($1, $2, $3, $4)',
-          [quizId, question.prompt, JSON.stringify(question.choices), question.correctIndex]
+          'INSERT INTO quiz_questions (quiz_id, prompt, type, definition) VALUES ($1, $2, $3, $4)',
+          [quizId, question.prompt, 'single_choice', JSON.stringify({ choices: question.choices, correct_index: question.correctIndex })]
         );
       }
       
@@ -1,3 +1,5 @@
+import crypto from 'crypto';
+import path from 'path';
 import dotenv from 'dotenv';
 
 // Load environment variables from .env file
@@ -9,7 +11,15 @@ export interface AppConfig {
   nodeEnv: 'development' | 'test' | 'production';
   
   // Security
-  jwtSecret: string;
+  jwtSecret: string; // HS256 signing secret
+  jwtAlgorithm: JwtAlgorithm;
+  jwtKeyId: string; // kid of the active signing key
+  jwtPrivateKey: string; // PEM, required for RS256/EdDSA
+  jwtPreviousKeys: JwtVerificationKeyConfig[]; // Retired keys still accepted for verification
+  jwtIssuer: string; // Empty to omit and skip the check
+  jwtAudience: string; // Empty to omit and skip the check
+  accessTokenTtlSeconds: number;
+  refreshTokenTtlSeconds: number;
   
   // Database (future)
   databaseUrl: string;
@@ -24,6 +34,70 @@ export interface AppConfig {
   // Notifications
   notificationsEnabled: boolean;
   notificationsSink: 'console' | 'file';
+
+  // Mail (delivered by the notifications worker)
+  mailSink: 'console' | 'file';
+  mailFrom: string;
+  appBaseUrl: string; // Front-end URL used to build links in emails
+
+  // Account flows
+  passwordResetTtlSeconds: number;
+  emailVerificationTtlSeconds: number;
+  requireEmailVerification: boolean; // Block enrollment until email is verified
+
+  // Login throttling
+  loginMaxFailures: number; // Failed attempts per email before a temporary lockout
+  loginLockoutSeconds: number;
+  loginBackoffBaseSeconds: number; // Delay after the first failure, doubled on each further failure
+  loginBackoffMaxSeconds: number;
+  loginIpMaxFailures: number; // Failed attempts per IP within the window
+  loginIpWindowSeconds: number;
+
+  // Two-factor authentication
+  mfaIssuer: string; // Issuer shown in authenticator apps
+  mfaChallengeTtlSeconds: number; // Lifetime of the login/enrollment challenge token
+  mfaEncryptionKey: string; // Encrypts TOTP secrets at rest
+
+  // Single sign-on (OpenID Connect authorization code + PKCE)
+  oidcEnabled: boolean; // True when OIDC_ISSUER is set
+  oidcProviderName: string; // Stored with linked identities
+  oidcIssuer: string;
+  oidcClientId: string;
+  oidcClientSecret: string; // Empty for public clients (PKCE only)
+  oidcRedirectUri: string; // Page that receives ?code&state and posts them to /api/auth/oidc/callback
+  oidcScopes: string;
+  oidcAutoProvision: boolean; // Create unknown users on first SSO login
+  oidcDefaultRole: 'student' | 'instructor'; // Role of provisioned users
+
+  // File storage (lesson attachments)
+  storageDriver: 'local' | 's3';
+  storageLocalDir: string; // Root directory of the local driver
+  storageS3Endpoint: string; // S3-compatible endpoint; objects are addressed path-style
+  storageS3Region: string;
+  storageS3Bucket: string;
+  storageS3AccessKeyId: string;
+  storageS3SecretAccessKey: string;
+  storageMaxUploadBytes: number;
+  storageCourseQuotaBytes: number; // Default per-course quota; courses may override it
+  storageUrlTtlSeconds: number; // Lifetime of signed download URLs
+  storageSigningKey: string; // Signs download URLs
+
+  // Video watch-time tracking
+  videoCompletionThresholdPercent: number; // Share of a video to watch before its lesson auto-completes
+  videoHeartbeatMaxGapSeconds: number; // Heartbeats further apart than this do not count as watching
+
+  // Course import/export
+  courseImportMaxBytes: number; // Largest accepted course package, compressed and unpacked
+}
+
+export type JwtAlgorithm = 'HS256' | 'RS256' | 'EdDSA';
+
+export interface JwtVerificationKeyConfig {
+  kid: string;
+  alg: JwtAlgorithm;
+  secret?: string; // HS256
+  publicKey?: string; // PEM, RS256/EdDSA
+  retireAt?: string; // ISO date after which the key is no longer accepted
 }
 
 class ConfigError extends Error {
@@ -55,6 +129,16 @@ function parsePort(portStr: string | undefined, defaultPort: number): number {
   return port;
 }
 
+function parsePositiveInt(key: string, value: string | undefined, defaultValue: number): number {
+  if (!value) return defaultValue;
+
+  const parsed = parseInt(value, 10);
+  if (isNaN(parsed) || parsed <= 0) {
+    throw new ConfigError(`❌ Invalid ${key} value: ${value}. Must be a positive integer.`);
+  }
+  return parsed;
+}
+
 function validateNodeEnv(env: string | undefined): 'development' | 'test' | 'production' {
   const validEnvs = ['development', 'test', 'production'] as const;
   const nodeEnv = (env || 'development').toLowerCase();
@@ -83,6 +167,123 @@ function validateLogLevel(level: string | undefined): 'error' | 'warn' | 'info'
   return logLevel as 'error' | 'warn' | 'info' | 'debug';
 }
 
+const JWT_ALGORITHMS: JwtAlgorithm[] = ['HS256', 'RS256', 'EdDSA'];
+
+// Key type each asymmetric algorithm needs
+const JWT_KEY_TYPES: Record<string, string> = { RS256: 'rsa', EdDSA: 'ed25519' };
+
+function validateJwtAlgorithm(key: string, alg: string | undefined): JwtAlgorithm {
+  const algorithm = alg || 'HS256';
+
+  if (!JWT_ALGORITHMS.includes(algorithm as JwtAlgorithm)) {
+    throw new ConfigError(
+      `❌ Invalid ${key} value: ${alg}\n` +
+      `   Valid values are: ${JWT_ALGORITHMS.join(', ')}`
+    );
+  }
+
+  return algorithm as JwtAlgorithm;
+}
+
+/**
+ * PEM values may be given on one line with literal "\n" sequences (common in .env files)
+ */
+function normalizePem(value: string | undefined): string {
+  return (value || '').replace(/\\n/g, '\n').trim();
+}
+
+function validateKeyType(key: string, alg: JwtAlgorithm, keyObject: crypto.KeyObject): void {
+  if (keyObject.asymmetricKeyType !== JWT_KEY_TYPES[alg]) {
+    throw new ConfigError(`❌ ${key} must be a ${JWT_KEY_TYPES[alg]} key for ${alg}, got ${keyObject.asymmetricKeyType}`);
+  }
+}
+
+function parseJwtPreviousKeys(value: string | undefined): JwtVerificationKeyConfig[] {
+  if (!value || value.trim() === '') return [];
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch {
+    throw new ConfigError('❌ Invalid JWT_PREVIOUS_KEYS value. Must be a JSON array of keys.');
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new ConfigError('❌ Invalid JWT_PREVIOUS_KEYS value. Must be a JSON array of keys.');
+  }
+
+  return parsed.map((entry: any, index: number) => {
+    const key = `JWT_PREVIOUS_KEYS[${index}]`;
+
+    if (!entry || typeof entry.kid !== 'string' || entry.kid.trim() === '') {
+      throw new ConfigError(`❌ ${key} needs a non-empty "kid"`);
+    }
+
+    const alg = validateJwtAlgorithm(`${key}.alg`, entry.alg);
+
+    if (alg === 'HS256') {
+      if (typeof entry.secret !== 'string' || entry.secret === '') {
+        throw new ConfigError(`❌ ${key} needs a "secret" for HS256`);
+      }
+    } else {
+      try {
+        validateKeyType(`${key}.publicKey`, alg, crypto.createPublicKey(normalizePem(entry.publicKey)));
+      } catch (error) {
+        if (error instanceof ConfigError) throw error;
+        throw new ConfigError(`❌ ${key} needs a PEM "publicKey" for ${alg}`);
+      }
+    }
+
+    if (entry.retireAt !== undefined && isNaN(new Date(entry.retireAt).getTime())) {
+      throw new ConfigError(`❌ ${key}.retireAt must be an ISO 8601 date`);
+    }
+
+    return {
+      kid: entry.kid,
+      alg,
+      secret: alg === 'HS256' ? entry.secret : undefined,
+      publicKey: alg === 'HS256' ? undefined : normalizePem(entry.publicKey),
+      retireAt: entry.retireAt
+    };
+  });
+}
+
+function validateOidcDefaultRole(role: string | undefined): 'student' | 'instructor' {
+  const validRoles = ['student', 'instructor'] as const;
+  const defaultRole = (role || 'student').toLowerCase();
+
+  if (!validRoles.includes(defaultRole as any)) {
+    throw new ConfigError(
+      `❌ Invalid OIDC_DEFAULT_ROLE value: ${role}\n` +
+      `   Valid values are: ${validRoles.join(', ')}`
+    );
+  }
+
+  return defaultRole as 'student' | 'instructor';
+}
+
+function parsePercent(key: string, value: string | undefined, defaultValue: number): number {
+  const parsed = parsePositiveInt(key, value, defaultValue);
+  if (parsed > 100) {
+    throw new ConfigError(`❌ Invalid ${key} value: ${value}. Must be a percentage between 1 and 100.`);
+  }
+  return parsed;
+}
+
+function validateStorageDriver(driver: string | undefined): 'local' | 's3' {
+  const validDrivers = ['local', 's3'] as const;
+  const storageDriver = (driver || 'local').toLowerCase();
+
+  if (!validDrivers.includes(storageDriver as any)) {
+    throw new ConfigError(
+      `❌ Invalid STORAGE_DRIVER value: ${driver}\n` +
+      `   Valid values are: ${validDrivers.join(', ')}`
+    );
+  }
+
+  return storageDriver as 'local' | 's3';
+}
+
 function loadConfig(): AppConfig {
   try {
     const nodeEnv = validateNodeEnv(process.env.NODE_ENV);
@@ -96,23 +297,108 @@ function loadConfig(): AppConfig {
       jwtSecret = process.env.JWT_SECRET || 'dev-jwt-secret-change-in-production';
     }
     
+    // Asymmetric algorithms sign with JWT_PRIVATE_KEY; JWT_SECRET is then only used for HS256 previous keys
+    const jwtAlgorithm = validateJwtAlgorithm('JWT_ALGORITHM', process.env.JWT_ALGORITHM);
+    const jwtPrivateKey = normalizePem(process.env.JWT_PRIVATE_KEY);
+    if (jwtAlgorithm !== 'HS256') {
+      validateRequired('JWT_PRIVATE_KEY', jwtPrivateKey, nodeEnv);
+      let privateKey: crypto.KeyObject;
+      try {
+        privateKey = crypto.createPrivateKey(jwtPrivateKey);
+      } catch {
+        throw new ConfigError('❌ Invalid JWT_PRIVATE_KEY value. Must be a PEM encoded private key.');
+      }
+      validateKeyType('JWT_PRIVATE_KEY', jwtAlgorithm, privateKey);
+    }
+
+    // TOTP secrets are encrypted with MFA_ENCRYPTION_KEY, falling back to JWT_SECRET
+    const mfaEncryptionKey = process.env.MFA_ENCRYPTION_KEY || jwtSecret;
+
+    // SSO is enabled by configuring an issuer; client ID and redirect URI are then required
+    const oidcIssuer = (process.env.OIDC_ISSUER || '').trim().replace(/\/+$/, '');
+    const oidcEnabled = oidcIssuer !== '';
+    const oidcClientId = oidcEnabled ? validateRequired('OIDC_CLIENT_ID', process.env.OIDC_CLIENT_ID, nodeEnv) : '';
+    const oidcRedirectUri = oidcEnabled
+      ? validateRequired('OIDC_REDIRECT_URI', process.env.OIDC_REDIRECT_URI, nodeEnv)
+      : '';
+
+    // The S3 driver needs a bucket and credentials; the endpoint defaults to AWS
+    const storageDriver = validateStorageDriver(process.env.STORAGE_DRIVER);
+    const storageS3Region = process.env.STORAGE_S3_REGION || 'us-east-1';
+    const storageS3Bucket = storageDriver === 's3'
+      ? validateRequired('STORAGE_S3_BUCKET', process.env.STORAGE_S3_BUCKET, nodeEnv)
+      : '';
+    const storageS3AccessKeyId = storageDriver === 's3'
+      ? validateRequired('STORAGE_S3_ACCESS_KEY_ID', process.env.STORAGE_S3_ACCESS_KEY_ID, nodeEnv)
+      : '';
+    const storageS3SecretAccessKey = storageDriver === 's3'
+      ? validateRequired('STORAGE_S3_SECRET_ACCESS_KEY', process.env.STORAGE_S3_SECRET_ACCESS_KEY, nodeEnv)
+      : '';
+
     // For test environment, use a different default port to avoid conflicts
     const defaultPort = nodeEnv === 'test' ? 4001 : 4000;
     
     // Parse notifications configuration
     const notificationsEnabled = process.env.NOTIFICATIONS_ENABLED === 'true';
     const notificationsSink = (process.env.NOTIFICATIONS_SINK === 'file' ? 'file' : 'console') as 'console' | 'file';
+    const mailSink = (process.env.MAIL_SINK === 'file' ? 'file' : 'console') as 'console' | 'file';
     
     return {
       port: parsePort(process.env.PORT, defaultPort),
       nodeEnv,
       jwtSecret,
+      jwtAlgorithm,
+      jwtKeyId: process.env.JWT_KEY_ID || 'default',
+      jwtPrivateKey,
+      jwtPreviousKeys: parseJwtPreviousKeys(process.env.JWT_PREVIOUS_KEYS),
+      jwtIssuer: process.env.JWT_ISSUER ?? 'learnlite',
+      jwtAudience: process.env.JWT_AUDIENCE ?? 'learnlite-api',
+      accessTokenTtlSeconds: parsePositiveInt('ACCESS_TOKEN_TTL', process.env.ACCESS_TOKEN_TTL, 15 * 60),
+      refreshTokenTtlSeconds: parsePositiveInt('REFRESH_TOKEN_TTL', process.env.REFRESH_TOKEN_TTL, 30 * 24 * 60 * 60),
       databaseUrl: process.env.DATABASE_URL || 'postgresql://localhost:5432/learnlite_dev',
       logLevel: validateLogLevel(process.env.LOG_LEVEL),
       appName: process.env.APP_NAME || 'learnlite',
       version: 'v1.9', // Versión actual de la aplicación utilizada para tracking y compatibilidad
       notificationsEnabled,
-      notificationsSink
+      notificationsSink,
+      mailSink,
+      mailFrom: process.env.MAIL_FROM || 'LearnLite <no-reply@learnlite.local>',
+      appBaseUrl: (process.env.APP_BASE_URL || 'http://localhost:3000').replace(/\/+$/, ''),
+      passwordResetTtlSeconds: parsePositiveInt('PASSWORD_RESET_TTL', process.env.PASSWORD_RESET_TTL, 60 * 60),
+      emailVerificationTtlSeconds: parsePositiveInt('EMAIL_VERIFICATION_TTL', process.env.EMAIL_VERIFICATION_TTL, 48 * 60 * 60),
+      requireEmailVerification: process.env.REQUIRE_EMAIL_VERIFICATION === 'true',
+      loginMaxFailures: parsePositiveInt('LOGIN_MAX_FAILURES', process.env.LOGIN_MAX_FAILURES, 10),
+      loginLockoutSeconds: parsePositiveInt('LOGIN_LOCKOUT_DURATION', process.env.LOGIN_LOCKOUT_DURATION, 15 * 60),
+      loginBackoffBaseSeconds: parsePositiveInt('LOGIN_BACKOFF_BASE', process.env.LOGIN_BACKOFF_BASE, 1),
+      loginBackoffMaxSeconds: parsePositiveInt('LOGIN_BACKOFF_MAX', process.env.LOGIN_BACKOFF_MAX, 60),
+      loginIpMaxFailures: parsePositiveInt('LOGIN_IP_MAX_FAILURES', process.env.LOGIN_IP_MAX_FAILURES, 50),
+      loginIpWindowSeconds: parsePositiveInt('LOGIN_IP_WINDOW', process.env.LOGIN_IP_WINDOW, 15 * 60),
+      mfaIssuer: process.env.MFA_ISSUER || 'LearnLite',
+      mfaChallengeTtlSeconds: parsePositiveInt('MFA_CHALLENGE_TTL', process.env.MFA_CHALLENGE_TTL, 5 * 60),
+      mfaEncryptionKey,
+      oidcEnabled,
+      oidcProviderName: process.env.OIDC_PROVIDER_NAME || 'oidc',
+      oidcIssuer,
+      oidcClientId,
+      oidcClientSecret: process.env.OIDC_CLIENT_SECRET || '',
+      oidcRedirectUri,
+      oidcScopes: process.env.OIDC_SCOPES || 'openid email profile',
+      oidcAutoProvision: process.env.OIDC_AUTO_PROVISION !== 'false',
+      oidcDefaultRole: validateOidcDefaultRole(process.env.OIDC_DEFAULT_ROLE),
+      storageDriver,
+      storageLocalDir: process.env.STORAGE_LOCAL_DIR || path.join(process.cwd(), 'var', 'storage'),
+      storageS3Endpoint: (process.env.STORAGE_S3_ENDPOINT || `https://s3.${storageS3Region}.amazonaws.com`).replace(/\/+$/, ''),
+      storageS3Region,
+      storageS3Bucket,
+      storageS3AccessKeyId,
+      storageS3SecretAccessKey,
+      storageMaxUploadBytes: parsePositiveInt('STORAGE_MAX_UPLOAD_MB', process.env.STORAGE_MAX_UPLOAD_MB, 25) * 1024 * 1024,
+      storageCourseQuotaBytes: parsePositiveInt('STORAGE_COURSE_QUOTA_MB', process.env.STORAGE_COURSE_QUOTA_MB, 500) * 1024 * 1024,
+      storageUrlTtlSeconds: parsePositiveInt('STORAGE_URL_TTL', process.env.STORAGE_URL_TTL, 5 * 60),
+      storageSigningKey: process.env.STORAGE_SIGNING_KEY || jwtSecret,
+      videoCompletionThresholdPercent: parsePercent('VIDEO_COMPLETION_THRESHOLD', process.env.VIDEO_COMPLETION_THRESHOLD, 90),
+      videoHeartbeatMaxGapSeconds: parsePositiveInt('VIDEO_HEARTBEAT_MAX_GAP', process.env.VIDEO_HEARTBEAT_MAX_GAP, 60),
+      courseImportMaxBytes: parsePositiveInt('COURSE_IMPORT_MAX_MB', process.env.COURSE_IMPORT_MAX_MB, 200) * 1024 * 1024
     };
   } catch (error) {
     if (error instanceof ConfigError) {
@@ -134,11 +420,57 @@ export function getConfigSummary(): Record<string, any> {
     port: config.port,
     nodeEnv: config.nodeEnv,
     jwtSecret: config.jwtSecret ? '[REDACTED]' : '[NOT SET]',
+    jwtAlgorithm: config.jwtAlgorithm,
+    jwtKeyId: config.jwtKeyId,
+    jwtPrivateKey: config.jwtPrivateKey ? '[REDACTED]' : '[NOT SET]',
+    jwtPreviousKeys: config.jwtPreviousKeys.map(key => `${key.kid} (${key.alg})`),
+    jwtIssuer: config.jwtIssuer,
+    jwtAudience: config.jwtAudience,
+    accessTokenTtlSeconds: config.accessTokenTtlSeconds,
+    refreshTokenTtlSeconds: config.refreshTokenTtlSeconds,
     databaseUrl: config.databaseUrl ? '[REDACTED]' : '[NOT SET]',
     logLevel: config.logLevel,
     appName: config.appName,
     version: config.version,
     notificationsEnabled: config.notificationsEnabled,
-    notificationsSink: config.notificationsSink
+    notificationsSink: config.notificationsSink,
+    mailSink: config.mailSink,
+    mailFrom: config.mailFrom,
+    appBaseUrl: config.appBaseUrl,
+    passwordResetTtlSeconds: config.passwordResetTtlSeconds,
+    emailVerificationTtlSeconds: config.emailVerificationTtlSeconds,
+    requireEmailVerification: config.requireEmailVerification,
+    loginMaxFailures: config.loginMaxFailures,
+    loginLockoutSeconds: config.loginLockoutSeconds,
+    loginBackoffBaseSeconds: config.loginBackoffBaseSeconds,
+    loginBackoffMaxSeconds: config.loginBackoffMaxSeconds,
+    loginIpMaxFailures: config.loginIpMaxFailures,
+    loginIpWindowSeconds: config.loginIpWindowSeconds,
+    mfaIssuer: config.mfaIssuer,
+    mfaChallengeTtlSeconds: config.mfaChallengeTtlSeconds,
+    mfaEncryptionKey: config.mfaEncryptionKey ? '[REDACTED]' : '[NOT SET]',
+    oidcEnabled: config.oidcEnabled,
+    oidcProviderName: config.oidcProviderName,
+    oidcIssuer: config.oidcIssuer,
+    oidcClientId: config.oidcClientId,
+    oidcClientSecret: config.oidcClientSecret ? '[REDACTED]' : '[NOT SET]',
+    oidcRedirectUri: config.oidcRedirectUri,
+    oidcScopes: config.oidcScopes,
+    oidcAutoProvision: config.oidcAutoProvision,
+    oidcDefaultRole: config.oidcDefaultRole,
+    storageDriver: config.storageDriver,
+    storageLocalDir: config.storageLocalDir,
+    storageS3Endpoint: config.storageS3Endpoint,
+    storageS3Region: config.storageS3Region,
+    storageS3Bucket: config.storageS3Bucket,
+    storageS3AccessKeyId: config.storageS3AccessKeyId ? '[REDACTED]' : '[NOT SET]',
+    storageS3SecretAccessKey: config.storageS3SecretAccessKey ? '[REDACTED]' : '[NOT SET]',
+    storageMaxUploadBytes: config.storageMaxUploadBytes,
+    storageCourseQuotaBytes: config.storageCourseQuotaBytes,
+    storageUrlTtlSeconds: config.storageUrlTtlSeconds,
+    storageSigningKey: config.storageSigningKey ? '[REDACTED]' : '[NOT SET]',
+    videoCompletionThresholdPercent: config.videoCompletionThresholdPercent,
+    videoHeartbeatMaxGapSeconds: config.videoHeartbeatMaxGapSeconds,
+    courseImportMaxBytes: config.courseImportMaxBytes
   };
 }
@@ -0,0 +1,169 @@
+import { Request, Response } from 'express';
+import { ApiKeysService, ApiKey, ROLE_API_KEY_SCOPES, ScopeNotAllowedError } from '../services/api-keys.service';
+import { UserRole } from '../services/users.service';
+import { ApiKeyValidator } from '../utils/validation';
+import { config } from '../config';
+
+/**
+ * Create API key response (safe for client)
+ */
+function toApiKeyResponse(apiKey: ApiKey) {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    prefix: apiKey.prefix,
+    scopes: apiKey.scopes,
+    expiresAt: apiKey.expires_at,
+    lastUsedAt: apiKey.last_used_at,
+    revokedAt: apiKey.revoked_at,
+    createdAt: apiKey.created_at
+  };
+}
+
+export const apiKeysController = {
+  // GET /auth/api-keys - List own API keys and the scopes the user may grant
+  index: async (req: Request, res: Response) => {
+    try {
+      const keys = await ApiKeysService.listKeys(req.user!.id);
+
+      res.json({
+        ok: true,
+        data: keys.map(toApiKeyResponse),
+        availableScopes: ROLE_API_KEY_SCOPES[req.user!.role as UserRole] || [],
+        version: config.version
+      });
+    } catch (error) {
+      console.error(`[${req.requestId}] List API keys error:`, error);
+      res.status(500).json({
+        ok: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to list API keys',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  },
+
+  // POST /auth/api-keys - Create an API key; the full key is only returned here
+  create: async (req: Request, res: Response) => {
+    try {
+      const validation = ApiKeyValidator.validateCreateApiKey(req.body, scope => ApiKeysService.isValidScope(scope));
+      if (!validation.isValid) {
+        return res.status(400).json({
+          ok: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid API key data',
+            details: validation.errors,
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const { apiKey, key } = await ApiKeysService.createKey(req.user!, {
+        name: req.body.name.trim(),
+        scopes: req.body.scopes,
+        expiresAt: req.body.expiresAt ? new Date(req.body.expiresAt) : undefined
+      });
+
+      res.status(201).json({
+        ok: true,
+        message: 'API key created. Copy the key now, it will not be shown again',
+        data: {
+          ...toApiKeyResponse(apiKey),
+          key
+        },
+        version: config.version
+      });
+    } catch (error) {
+      if (error instanceof ScopeNotAllowedError) {
+        return res.status(403).json({
+          ok: false,
+          error: {
+            code: 'SCOPE_NOT_ALLOWED',
+            message: `Your role cannot grant scope(s): ${error.scopes.join(', ')}`,
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      if (error instanceof Error) {
+        if (error.message === 'TOO_MANY_KEYS') {
+          return res.status(409).json({
+            ok: false,
+            error: {
+              code: 'TOO_MANY_KEYS',
+              message: 'API key limit reached. Revoke unused keys first',
+              requestId: req.requestId,
+              timestamp: new Date().toISOString()
+            }
+          });
+        }
+      }
+
+      console.error(`[${req.requestId}] Create API key error:`, error);
+      res.status(500).json({
+        ok: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to create API key',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  },
+
+  // DELETE /auth/api-keys/:id - Revoke an API key
+  revoke: async (req: Request, res: Response) => {
+    try {
+      const keyId = parseInt(req.params.id);
+      if (isNaN(keyId)) {
+        return res.status(400).json({
+          ok: false,
+          error: {
+            code: 'INVALID_ID',
+            message: 'API key ID must be a valid number',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const revoked = await ApiKeysService.revokeKey(req.user!.id, keyId);
+
+      if (!revoked) {
+        return res.status(404).json({
+          ok: false,
+          error: {
+            code: 'API_KEY_NOT_FOUND',
+            message: 'API key not found or already revoked',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      res.json({
+        ok: true,
+        message: 'API key revoked',
+        version: config.version
+      });
+    } catch (error) {
+      console.error(`[${req.requestId}] Revoke API key error:`, error);
+      res.status(500).json({
+        ok: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to revoke API key',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  }
+};
@@ -0,0 +1,486 @@
+import { Request, Response } from 'express';
+import { AssignmentsService, AssignmentError, Assignment, SubmissionFile, RegradeRequest } from '../services/assignments.service';
+import { LessonAttachmentsService } from '../services/lesson-attachments.service';
+import { AssignmentValidator, AttachmentValidator } from '../utils/validation';
+import { normalizeRubric } from '../utils/assignment-grading';
+import { checkFileType, normalizeContentType } from '../modules/storage/file-types';
+import { signDownloadUrl, verifyDownloadSignature } from '../modules/storage/signed-urls';
+import { can } from '../modules/permissions/policy';
+import { Permission } from '../modules/permissions/permissions';
+import { config } from '../config';
+import { sendError, authorizeCourse, parseId } from '../middleware/errorHandler.middleware';
+
+/**
+ * Load an assignment and check the caller's permission on its course
+ * @returns The assignment, or null after a response was sent
+ */
+async function authorizeAssignment(req: Request, res: Response, permission: Permission): Promise<Assignment | null> {
+  const assignmentId = parseId(req, res, 'id', 'Assignment');
+  if (assignmentId === null) return null;
+
+  const assignment = await AssignmentsService.getAssignmentById(assignmentId);
+  if (!assignment) {
+    sendError(req, res, 404, 'ASSIGNMENT_NOT_FOUND', 'Assignment not found');
+    return null;
+  }
+
+  return (await authorizeCourse(req, res, assignment.course_id, permission)) ? assignment : null;
+}
+
+function withDownloadUrl(file: SubmissionFile) {
+  const signed = signDownloadUrl(file.id, config.storageUrlTtlSeconds, 'submission_file');
+  return { ...file, download_url: signed.url, download_url_expires_at: signed.expiresAt };
+}
+
+function withDownloadUrls<T extends { files: SubmissionFile[] }>(submission: T) {
+  return { ...submission, files: submission.files.map(withDownloadUrl) };
+}
+
+/**
+ * Map service errors shared by the assignment endpoints
+ */
+function sendAssignmentError(req: Request, res: Response, error: unknown, action: string) {
+  if (error instanceof AssignmentError) {
+    switch (error.message) {
+      case 'TOO_MANY_FILES':
+        return sendError(req, res, 409, 'TOO_MANY_FILES', `A submission can have at most ${error.details.max} files`);
+      case 'PAST_DUE':
+        return sendError(req, res, 403, 'PAST_DUE', 'The assignment no longer takes submissions', {
+          dueAt: error.details.dueAt,
+          lateDays: error.details.lateDays
+        });
+      case 'INVALID_GRADE':
+        return sendError(req, res, 400, 'VALIDATION_ERROR', 'Invalid grade', error.details.errors);
+    }
+  }
+
+  if (error instanceof Error) {
+    switch (error.message) {
+      case 'NOT_FOUND':
+        return sendError(req, res, 404, 'NOT_FOUND', 'Assignment, submission, file or regrade request not found');
+      case 'RUBRIC_LOCKED':
+        return sendError(req, res, 409, 'RUBRIC_LOCKED', 'The rubric cannot change once submissions are graded');
+      case 'TEXT_NOT_ACCEPTED':
+        return sendError(req, res, 400, 'TEXT_NOT_ACCEPTED', 'This assignment only takes files');
+      case 'FILES_NOT_ACCEPTED':
+        return sendError(req, res, 400, 'FILES_NOT_ACCEPTED', 'This assignment only takes text');
+      case 'ALREADY_SUBMITTED':
+        return sendError(req, res, 409, 'ALREADY_SUBMITTED', 'The submission was submitted and can no longer change');
+      case 'EMPTY_SUBMISSION':
+        return sendError(req, res, 400, 'EMPTY_SUBMISSION', 'Add the text or files the assignment asks for before submitting');
+      case 'NOT_SUBMITTED':
+        return sendError(req, res, 409, 'NOT_SUBMITTED', 'Only submitted work can be graded');
+      case 'NOT_GRADED':
+        return sendError(req, res, 409, 'NOT_GRADED', 'A regrade can only be requested once a grade is released');
+      case 'REGRADE_PENDING':
+        return sendError(req, res, 409, 'REGRADE_PENDING', 'A regrade request is already open for this submission');
+      case 'ALREADY_RESOLVED':
+        return sendError(req, res, 409, 'ALREADY_RESOLVED', 'The regrade request was already answered');
+    }
+  }
+
+  console.error(`[${req.requestId}] ${action} assignment error:`, error);
+  return sendError(req, res, 500, 'INTERNAL_ERROR', `Failed to ${action.toLowerCase()} assignment`);
+}
+
+const REGRADE_STATUSES: Array<RegradeRequest['status']> = ['open', 'resolved', 'rejected'];
+
+export const assignmentsController = {
+  // GET /courses/:courseId/assignments - List a course's assignments (assignment.view)
+  index: async (req: Request, res: Response) => {
+    try {
+      const courseId = parseId(req, res, 'courseId', 'Course');
+      if (courseId === null) return;
+      if (!(await authorizeCourse(req, res, courseId, 'assignment.view'))) return;
+
+      const assignments = await AssignmentsService.listAssignments(courseId);
+
+      res.json({
+        ok: true,
+        data: assignments,
+        version: config.version
+      });
+    } catch (error) {
+      sendAssignmentError(req, res, error, 'List');
+    }
+  },
+
+  // POST /courses/:courseId/assignments - Create an assignment (assignment.manage)
+  create: async (req: Request, res: Response) => {
+    try {
+      const courseId = parseId(req, res, 'courseId', 'Course');
+      if (courseId === null) return;
+      if (!(await authorizeCourse(req, res, courseId, 'assignment.manage'))) return;
+
+      const validation = AssignmentValidator.validateAssignment(req.body);
+      if (!validation.isValid) {
+        return sendError(req, res, 400, 'VALIDATION_ERROR', 'Invalid assignment data', validation.errors);
+      }
+
+      const assignment = await AssignmentsService.createAssignment(courseId, {
+        ...req.body,
+        rubric: normalizeRubric(req.body.rubric)
+      });
+
+      res.status(201).json({
+        ok: true,
+        message: 'Assignment created',
+        data: assignment,
+        version: config.version
+      });
+    } catch (error) {
+      sendAssignmentError(req, res, error, 'Create');
+    }
+  },
+
+  // GET /assignments/:id - An assignment with its rubric (assignment.view)
+  show: async (req: Request, res: Response) => {
+    try {
+      const assignment = await authorizeAssignment(req, res, 'assignment.view');
+      if (!assignment) return;
+
+      res.json({
+        ok: true,
+        data: assignment,
+        version: config.version
+      });
+    } catch (error) {
+      sendAssignmentError(req, res, error, 'Get');
+    }
+  },
+
+  // PUT /assignments/:id - Update an assignment; the rubric is locked once grading starts (assignment.manage)
+  update: async (req: Request, res: Response) => {
+    try {
+      const assignment = await authorizeAssignment(req, res, 'assignment.manage');
+      if (!assignment) return;
+
+      const validation = AssignmentValidator.validateAssignment(req.body, true);
+      if (!validation.isValid) {
+        return sendError(req, res, 400, 'VALIDATION_ERROR', 'Invalid assignment data', validation.errors);
+      }
+
+      const updated = await AssignmentsService.updateAssignment(assignment.id, {
+        title: req.body.title,
+        instructions: req.body.instructions,
+        submission_type: req.body.submission_type,
+        due_at: req.body.due_at,
+        late_penalty_per_day: req.body.late_penalty_per_day,
+        late_penalty_max: req.body.late_penalty_max,
+        late_cutoff_days: req.body.late_cutoff_days,
+        rubric: req.body.rubric === undefined ? undefined : normalizeRubric(req.body.rubric)
+      });
+
+      res.json({
+        ok: true,
+        message: 'Assignment updated',
+        data: updated,
+        version: config.version
+      });
+    } catch (error) {
+      sendAssignmentError(req, res, error, 'Update');
+    }
+  },
+
+  // DELETE /assignments/:id - Delete an assignment with its submissions and grades (assignment.manage)
+  remove: async (req: Request, res: Response) => {
+    try {
+      const assignment = await authorizeAssignment(req, res, 'assignment.manage');
+      if (!assignment) return;
+
+      await AssignmentsService.deleteAssignment(assignment.id);
+
+      res.json({
+        ok: true,
+        message: 'Assignment deleted',
+        version: config.version
+      });
+    } catch (error) {
+      sendAssignmentError(req, res, error, 'Delete');
+    }
+  },
+
+  // GET /assignments/:id/submission - The caller's submission and released grade (assignment.submit)
+  mySubmission: async (req: Request, res: Response) => {
+    try {
+      const assignment = await authorizeAssignment(req, res, 'assignment.submit');
+      if (!assignment) return;
+
+      const submission = await AssignmentsService.getStudentSubmission(assignment.id, req.user!.id);
+
+      res.json({
+        ok: true,
+        data: submission && withDownloadUrls(submission),
+        version: config.version
+      });
+    } catch (error) {
+      sendAssignmentError(req, res, error, 'Get submission for');
+    }
+  },
+
+  // PUT /assignments/:id/submission - Save the text of the caller's draft (assignment.submit)
+  saveText: async (req: Request, res: Response) => {
+    try {
+      const assignment = await authorizeAssignment(req, res, 'assignment.submit');
+      if (!assignment) return;
+
+      const validation = AssignmentValidator.validateSubmissionText(req.body);
+      if (!validation.isValid) {
+        return sendError(req, res, 400, 'VALIDATION_ERROR', 'Invalid submission', validation.errors);
+      }
+
+      const submission = await AssignmentsService.saveText(assignment, req.user!.id, req.body.text);
+
+      res.json({
+        ok: true,
+        message: 'Draft saved',
+        data: withDownloadUrls(submission),
+        version: config.version
+      });
+    } catch (error) {
+      sendAssignmentError(req, res, error, 'Save submission for');
+    }
+  },
+
+  // POST /assignments/:id/submission/files?filename=essay.pdf - Add the request body as a file to the caller's draft (assignment.submit)
+  uploadFile: async (req: Request, res: Response) => {
+    try {
+      const assignment = await authorizeAssignment(req, res, 'assignment.submit');
+      if (!assignment) return;
+
+      const filename = AttachmentValidator.normalizeFilename(req.query.filename);
+      const validation = AttachmentValidator.validateUpload(filename, req.body);
+      if (!validation.isValid) {
+        return sendError(req, res, 400, 'VALIDATION_ERROR', 'Invalid upload', validation.errors);
+      }
+
+      const contentType = normalizeContentType(req.headers['content-type']);
+      const typeError = checkFileType(contentType, req.body);
+      if (typeError) {
+        return sendError(req, res, 415, 'UNSUPPORTED_FILE_TYPE', typeError);
+      }
+
+      const file = await AssignmentsService.addFile(assignment, req.user!.id, { filename, contentType, data: req.body });
+
+      res.status(201).json({
+        ok: true,
+        message: 'File uploaded',
+        data: withDownloadUrl(file),
+        version: config.version
+      });
+    } catch (error) {
+      sendAssignmentError(req, res, error, 'Upload file to');
+    }
+  },
+
+  // DELETE /assignments/:id/submission/files/:fileId - Remove a file from the caller's draft (assignment.submit)
+  removeFile: async (req: Request, res: Response) => {
+    try {
+      const assignment = await authorizeAssignment(req, res, 'assignment.submit');
+      if (!assignment) return;
+      const fileId = parseId(req, res, 'fileId', 'File');
+      if (fileId === null) return;
+
+      await AssignmentsService.removeFile(assignment.id, req.user!.id, fileId);
+
+      res.json({
+        ok: true,
+        message: 'File removed',
+        version: config.version
+      });
+    } catch (error) {
+      sendAssignmentError(req, res, error, 'Remove file from');
+    }
+  },
+
+  // POST /assignments/:id/submission/submit - Submit the caller's draft (assignment.submit)
+  submit: async (req: Request, res: Response) => {
+    try {
+      const assignment = await authorizeAssignment(req, res, 'assignment.submit');
+      if (!assignment) return;
+
+      const submission = await AssignmentsService.submit(assignment, req.user!.id);
+
+      res.json({
+        ok: true,
+        message: submission.late_days > 0 ? `Submitted ${submission.late_days} day(s) late` : 'Submitted',
+        data: withDownloadUrls(submission),
+        version: config.version
+      });
+    } catch (error) {
+      sendAssignmentError(req, res, error, 'Submit');
+    }
+  },
+
+  // GET /assignments/:id/submissions - Submitted work with grades and open regrade requests (assignment.grade)
+  submissions: async (req: Request, res: Response) => {
+    try {
+      const assignment = await authorizeAssignment(req, res, 'assignment.grade');
+      if (!assignment) return;
+
+      const submissions = await AssignmentsService.listSubmissions(assignment.id);
+
+      res.json({
+        ok: true,
+        data: submissions.map(withDownloadUrls),
+        version: config.version
+      });
+    } catch (error) {
+      sendAssignmentError(req, res, error, 'List submissions for');
+    }
+  },
+
+  // PUT /assignments/:id/submissions/:submissionId/grade - Grade against the rubric, optionally releasing (assignment.grade)
+  grade: async (req: Request, res: Response) => {
+    try {
+      const assignment = await authorizeAssignment(req, res, 'assignment.grade');
+      if (!assignment) return;
+      const submissionId = parseId(req, res, 'submissionId', 'Submission');
+      if (submissionId === null) return;
+
+      // The scores are checked against the rubric in the service, under its lock
+      const grade = await AssignmentsService.gradeSubmission(assignment.id, submissionId, req.body ?? {}, req.user!.id);
+
+      res.json({
+        ok: true,
+        message: grade.released_at ? 'Grade saved and released' : 'Grade saved',
+        data: grade,
+        version: config.version
+      });
+    } catch (error) {
+      sendAssignmentError(req, res, error, 'Grade');
+    }
+  },
+
+  // POST /assignments/:id/release - Release graded work to students, all or { submission_ids } (assignment.grade)
+  release: async (req: Request, res: Response) => {
+    try {
+      const assignment = await authorizeAssignment(req, res, 'assignment.grade');
+      if (!assignment) return;
+
+      const validation = AssignmentValidator.validateRelease(req.body);
+      if (!validation.isValid) {
+        return sendError(req, res, 400, 'VALIDATION_ERROR', 'Invalid release', validation.errors);
+      }
+
+      const released = await AssignmentsService.releaseGrades(assignment, req.body?.submission_ids);
+
+      res.json({
+        ok: true,
+        message: `${released.length} grade(s) released`,
+        data: released,
+        version: config.version
+      });
+    } catch (error) {
+      sendAssignmentError(req, res, error, 'Release grades of');
+    }
+  },
+
+  // POST /assignments/:id/regrade-requests - Ask for a released grade to be reviewed (assignment.submit)
+  requestRegrade: async (req: Request, res: Response) => {
+    try {
+      const assignment = await authorizeAssignment(req, res, 'assignment.submit');
+      if (!assignment) return;
+
+      const validation = AssignmentValidator.validateRegradeRequest(req.body);
+      if (!validation.isValid) {
+        return sendError(req, res, 400, 'VALIDATION_ERROR', 'Invalid regrade request', validation.errors);
+      }
+
+      const request = await AssignmentsService.requestRegrade(assignment.id, req.user!.id, req.body.reason);
+
+      res.status(201).json({
+        ok: true,
+        message: 'Regrade requested',
+        data: request,
+        version: config.version
+      });
+    } catch (error) {
+      sendAssignmentError(req, res, error, 'Request regrade of');
+    }
+  },
+
+  // GET /assignments/:id/regrade-requests?status=open - Regrade requests (assignment.grade)
+  regradeRequests: async (req: Request, res: Response) => {
+    try {
+      const assignment = await authorizeAssignment(req, res, 'assignment.grade');
+      if (!assignment) return;
+
+      const status = req.query.status as RegradeRequest['status'] | undefined;
+      if (status !== undefined && !REGRADE_STATUSES.includes(status)) {
+        return sendError(req, res, 400, 'VALIDATION_ERROR', `status must be one of: ${REGRADE_STATUSES.join(', ')}`);
+      }
+
+      const requests = await AssignmentsService.listRegradeRequests(assignment.id, status);
+
+      res.json({
+        ok: true,
+        data: requests,
+        version: config.version
+      });
+    } catch (error) {
+      sendAssignmentError(req, res, error, 'List regrade requests for');
+    }
+  },
+
+  // PUT /assignments/:id/regrade-requests/:requestId - Resolve or reject a regrade request (assignment.grade)
+  resolveRegrade: async (req: Request, res: Response) => {
+    try {
+      const assignment = await authorizeAssignment(req, res, 'assignment.grade');
+      if (!assignment) return;
+      const requestId = parseId(req, res, 'requestId', 'Regrade request');
+      if (requestId === null) return;
+
+      const validation = AssignmentValidator.validateRegradeResolution(req.body);
+      if (!validation.isValid) {
+        return sendError(req, res, 400, 'VALIDATION_ERROR', 'Invalid regrade resolution', validation.errors);
+      }
+
+      const request = await AssignmentsService.resolveRegradeRequest(
+        assignment,
+        requestId,
+        { status: req.body.status, response: req.body.response },
+        req.user!.id
+      );
+
+      res.json({
+        ok: true,
+        message: request.status === 'resolved' ? 'Regrade request resolved' : 'Regrade request rejected',
+        data: request,
+        version: config.version
+      });
+    } catch (error) {
+      sendAssignmentError(req, res, error, 'Resolve regrade request for');
+    }
+  },
+
+  // GET /assignments/files/:id/download?expires=&signature= - Download a submission file with a signed URL (no session needed)
+  downloadFile: async (req: Request, res: Response) => {
+    try {
+      const fileId = parseId(req, res, 'id', 'File');
+      if (fileId === null) return;
+
+      if (!verifyDownloadSignature(fileId, req.query.expires, req.query.signature, 'submission_file')) {
+        return sendError(req, res, 403, 'INVALID_SIGNATURE', 'Download link is invalid or has expired');
+      }
+
+      const file = await AssignmentsService.getFile(fileId);
+      const data = file && await LessonAttachmentsService.readObject(file.checksum_sha256);
+      if (!file || !data) {
+        return sendError(req, res, 404, 'FILE_NOT_FOUND', 'File not found');
+      }
+
+      res.attachment(file.filename);
+      res.set({
+        'Content-Type': file.content_type,
+        'Content-Length': String(data.length),
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'private, no-store'
+      });
+      res.send(data);
+    } catch (error) {
+      console.error(`[${req.requestId}] Download submission file error:`, error);
+      sendError(req, res, 500, 'INTERNAL_ERROR', 'Failed to download file');
+    }
+  }
+};
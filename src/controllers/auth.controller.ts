@@ -1,6 +1,11 @@
 import { Request, Response } from 'express';
 import { db } from '../db';
 import { AuthService } from '../services/auth.service';
+import { TokenService } from '../services/token.service';
+import { SessionsService } from '../services/sessions.service';
+import { AccountService } from '../services/account.service';
+import { LoginThrottleService } from '../services/login-throttle.service';
+import { MfaService } from '../services/mfa.service';
 import { config } from '../config';
 
 export const authController = {
@@ -49,16 +54,14 @@ export const authController = {
         });
       }
 
-      // Role validation - allow role assignment for development/testing
-      let userRole = 'student';
-      if (role && ['admin', 'instructor', 'student'].includes(role)) {
-        userRole = role;
-      } else if (role && !['admin', 'instructor', 'student'].includes(role)) {
-        return res.status(400).json({
+      // Public registration only creates students. Instructors go through
+      // /instructor-applications; admins are created by admins or the create-admin script
+      if (role !== undefined && role !== 'student') {
+        return res.status(403).json({
           ok: false,
           error: {
-            code: 'VALIDATION_ERROR',
-            message: 'Invalid role. Must be admin, instructor, or student',
+            code: 'ROLE_NOT_ALLOWED',
+            message: 'Public registration only creates student accounts. Apply for instructor access via /api/instructor-applications',
             requestId: req.requestId,
             timestamp: new Date().toISOString()
           }
@@ -88,24 +91,32 @@ export const authController = {
 
       // Create user
       const result = await db.query(
-        'INSERT INTO users (email, password_hash, name, role) VALUES ($1, $2, $3, $4) RETURNING id, email, name, role, created_at',
-        [email.toLowerCase(), hashedPassword, name, userRole]
+        'INSERT INTO users (email, password_hash, name, role) VALUES ($1, $2, $3, $4) RETURNING id, email, name, role, created_at, email_verified_at',
+        [email.toLowerCase(), hashedPassword, name, 'student']
       );
 
       const user = result.rows[0];
       const profile = AuthService.createUserProfile(user);
+
+      // Verification mail goes through the outbox; a failure here must not block registration
+      try {
+        await AccountService.sendEmailVerification(user.id);
+      } catch (mailError) {
+        console.error(`[${req.requestId}] Failed to queue verification email:`, mailError);
+      }
       
-      // Generate JWT token for immediate login
-      const token = AuthService.generateToken({
-        id: user.id,
-        email: user.email,
-        role: user.role
-      });
+      // Start a session for immediate login
+      const session = await SessionsService.createSession(
+        { id: user.id, email: user.email, role: user.role },
+        { userAgent: req.get('user-agent'), ipAddress: req.ip }
+      );
 
       res.status(201).json({
         ok: true,
         message: 'User registered successfully',
-        token,
+        token: session.accessToken,
+        refreshToken: session.refreshToken,
+        expiresIn: session.expiresIn,
         user: profile,
         version: config.version
       });
@@ -126,7 +137,9 @@ export const authController = {
   // POST /auth/login - Authenticate user and issue JWT
   login: async (req: Request, res: Response) => {
     try {
-      const { email, password } = req.body;
+      const { password } = req.body;
+      // Normalized once, so the throttle and the user lookup agree on whose login this is
+      const email = typeof req.body.email === 'string' ? req.body.email.trim().toLowerCase() : '';
 
       // Basic validation
       if (!email || !password) {
@@ -141,13 +154,39 @@ export const authController = {
         });
       }
 
+      // Brute-force protection: backoff/lockout per email, throttling per IP.
+      // Checked before the password so a locked account rejects even the right password.
+      const throttle = await LoginThrottleService.checkAllowed(email, req.ip);
+      if (!throttle.allowed) {
+        res.set('Retry-After', String(throttle.retryAfterSeconds));
+        return res.status(429).json({
+          ok: false,
+          error: {
+            code: 'TOO_MANY_ATTEMPTS',
+            message: 'Too many failed login attempts. Please try again later',
+            retryAfter: throttle.retryAfterSeconds,
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
       // Find user by email
       const result = await db.query(
-        'SELECT id, email, password_hash, name, role, created_at FROM users WHERE email = $1',
-        [email.toLowerCase()]
+        'SELECT id, email, password_hash, name, role, created_at, email_verified_at FROM users WHERE email = $1',
+        [email]
       );
 
-      if (result.rows.length === 0) {
+      const user = result.rows[0];
+
+      // Unknown emails still pay for a bcrypt comparison and count as a failure,
+      // so timing and lockout behave the same as for a wrong password
+      const isValidPassword = user
+        ? await AuthService.verifyPassword(password, user.password_hash)
+        : await AuthService.verifyAgainstDummyHash(password);
+
+      if (!isValidPassword) {
+        await LoginThrottleService.recordFailure(email, req.ip, user?.id);
         return res.status(401).json({
           ok: false,
           error: {
@@ -159,40 +198,153 @@ export const authController = {
         });
       }
 
-      const user = result.rows[0];
+      // Second step: no session until the TOTP/recovery code is verified.
+      // The throttle counter is only cleared once the whole login succeeds.
+      if (await MfaService.isEnabled(user.id)) {
+        return res.json({
+          ok: true,
+          message: 'Two-factor authentication required',
+          mfaRequired: true,
+          challengeToken: TokenService.generateChallengeToken(user.id, 'mfa_login'),
+          expiresIn: config.mfaChallengeTtlSeconds,
+          version: config.version
+        });
+      }
 
-      // Verify password
-      const isValidPassword = await AuthService.verifyPassword(password, user.password_hash);
-      if (!isValidPassword) {
+      // The role requires 2FA but the user has not set it up: enrollment first
+      if (await MfaService.isRequiredForRole(user.role)) {
+        return res.json({
+          ok: true,
+          message: 'Two-factor authentication must be set up before logging in',
+          mfaEnrollmentRequired: true,
+          challengeToken: TokenService.generateChallengeToken(user.id, 'mfa_enroll'),
+          expiresIn: config.mfaChallengeTtlSeconds,
+          version: config.version
+        });
+      }
+
+      await LoginThrottleService.recordSuccess(email);
+
+      // Start a new session (access token + rotating refresh token)
+      const session = await SessionsService.createSession(
+        { id: user.id, email: user.email, role: user.role },
+        { userAgent: req.get('user-agent'), ipAddress: req.ip }
+      );
+
+      const profile = AuthService.createUserProfile(user);
+
+      res.json({
+        ok: true,
+        message: 'Login successful',
+        token: session.accessToken,
+        refreshToken: session.refreshToken,
+        expiresIn: session.expiresIn,
+        user: profile,
+        version: config.version
+      });
+    } catch (error) {
+      console.error(`[${req.requestId}] Login error:`, error);
+      res.status(500).json({
+        ok: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Login failed',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  },
+
+  // POST /auth/login/mfa - Second login step: exchange a challenge token and code for a session
+  loginMfa: async (req: Request, res: Response) => {
+    try {
+      const { challengeToken, code, recoveryCode } = req.body;
+
+      if (!challengeToken || typeof challengeToken !== 'string' ||
+          (typeof code !== 'string' && typeof recoveryCode !== 'string')) {
+        return res.status(400).json({
+          ok: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'challengeToken and either code or recoveryCode are required',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const userId = TokenService.verifyChallengeToken(challengeToken, 'mfa_login');
+      const result = userId
+        ? await db.query('SELECT id, email, name, role, created_at, email_verified_at FROM users WHERE id = $1', [userId])
+        : null;
+      const user = result?.rows[0];
+
+      if (!user) {
         return res.status(401).json({
           ok: false,
           error: {
-            code: 'INVALID_CREDENTIALS',
-            message: 'Invalid email or password',
+            code: 'INVALID_CHALLENGE',
+            message: 'Challenge token is invalid or expired. Please log in again',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      // Code guessing counts against the same email/IP limits as password guessing
+      const throttle = await LoginThrottleService.checkAllowed(user.email, req.ip);
+      if (!throttle.allowed) {
+        res.set('Retry-After', String(throttle.retryAfterSeconds));
+        return res.status(429).json({
+          ok: false,
+          error: {
+            code: 'TOO_MANY_ATTEMPTS',
+            message: 'Too many failed login attempts. Please try again later',
+            retryAfter: throttle.retryAfterSeconds,
             requestId: req.requestId,
             timestamp: new Date().toISOString()
           }
         });
       }
 
-      // Generate JWT token
-      const token = AuthService.generateToken({
-        id: user.id,
-        email: user.email,
-        role: user.role
+      const method = await MfaService.verifySecondFactor(user.id, {
+        code: typeof code === 'string' ? code : undefined,
+        recoveryCode: typeof recoveryCode === 'string' ? recoveryCode : undefined
       });
 
-      const profile = AuthService.createUserProfile(user);
+      if (!method) {
+        await LoginThrottleService.recordFailure(user.email, req.ip, user.id);
+        return res.status(401).json({
+          ok: false,
+          error: {
+            code: 'INVALID_MFA_CODE',
+            message: 'Invalid authentication code',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      await LoginThrottleService.recordSuccess(user.email);
+
+      const session = await SessionsService.createSession(
+        { id: user.id, email: user.email, role: user.role },
+        { userAgent: req.get('user-agent'), ipAddress: req.ip }
+      );
 
       res.json({
         ok: true,
         message: 'Login successful',
-        token,
-        user: profile,
+        token: session.accessToken,
+        refreshToken: session.refreshToken,
+        expiresIn: session.expiresIn,
+        user: AuthService.createUserProfile(user),
+        mfaMethod: method,
         version: config.version
       });
     } catch (error) {
-      console.error(`[${req.requestId}] Login error:`, error);
+      console.error(`[${req.requestId}] MFA login error:`, error);
       res.status(500).json({
         ok: false,
         error: {
@@ -205,6 +357,348 @@ export const authController = {
     }
   },
 
+  // POST /auth/refresh - Rotate refresh token and issue a new access token
+  refresh: async (req: Request, res: Response) => {
+    try {
+      const { refreshToken } = req.body;
+
+      if (!refreshToken || typeof refreshToken !== 'string') {
+        return res.status(400).json({
+          ok: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Refresh token is required',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const session = await SessionsService.refreshSession(refreshToken);
+
+      res.json({
+        ok: true,
+        message: 'Token refreshed successfully',
+        token: session.accessToken,
+        refreshToken: session.refreshToken,
+        expiresIn: session.expiresIn,
+        version: config.version
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message === 'REFRESH_TOKEN_REUSED') {
+          console.warn(`[${req.requestId}] Refresh token reuse detected, session revoked`);
+          return res.status(401).json({
+            ok: false,
+            error: {
+              code: 'REFRESH_TOKEN_REUSED',
+              message: 'Refresh token has already been used. The session has been revoked, please log in again',
+              requestId: req.requestId,
+              timestamp: new Date().toISOString()
+            }
+          });
+        }
+
+        if (['INVALID_REFRESH_TOKEN', 'SESSION_REVOKED', 'SESSION_EXPIRED'].includes(error.message)) {
+          return res.status(401).json({
+            ok: false,
+            error: {
+              code: error.message,
+              message: 'Invalid or expired refresh token',
+              requestId: req.requestId,
+              timestamp: new Date().toISOString()
+            }
+          });
+        }
+      }
+
+      console.error(`[${req.requestId}] Token refresh error:`, error);
+      res.status(500).json({
+        ok: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Token refresh failed',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  },
+
+  // POST /auth/logout - Revoke the current session, or all sessions with { "all": true }
+  logout: async (req: Request, res: Response) => {
+    try {
+      if (!req.user || req.auth?.type !== 'session') {
+        return res.status(401).json({
+          ok: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const logoutAll = req.body?.all === true;
+
+      const revoked = logoutAll
+        ? await SessionsService.revokeAllSessions(req.user.id, 'logout_all')
+        : (await SessionsService.revokeSession(req.auth.sessionId, 'logout') ? 1 : 0);
+
+      res.json({
+        ok: true,
+        message: logoutAll ? 'Logged out from all sessions' : 'Logged out successfully',
+        sessionsRevoked: revoked,
+        version: config.version
+      });
+    } catch (error) {
+      console.error(`[${req.requestId}] Logout error:`, error);
+      res.status(500).json({
+        ok: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Logout failed',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  },
+
+  // POST /auth/password/forgot - Email a single-use password reset link
+  forgotPassword: async (req: Request, res: Response) => {
+    try {
+      const { email } = req.body;
+
+      if (!email || typeof email !== 'string') {
+        return res.status(400).json({
+          ok: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Email is required',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      await AccountService.requestPasswordReset(email.trim());
+
+      // Same response whether or not the email is registered
+      res.json({
+        ok: true,
+        message: 'If an account exists for this email, a password reset link has been sent',
+        version: config.version
+      });
+    } catch (error) {
+      console.error(`[${req.requestId}] Forgot password error:`, error);
+      res.status(500).json({
+        ok: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to request password reset',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  },
+
+  // POST /auth/password/reset - Set a new password using a reset token
+  resetPassword: async (req: Request, res: Response) => {
+    try {
+      const { token, password } = req.body;
+
+      if (!token || typeof token !== 'string' || !password || typeof password !== 'string') {
+        return res.status(400).json({
+          ok: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Token and password are required',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      if (password.length < 6) {
+        return res.status(400).json({
+          ok: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Password must be at least 6 characters long',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      await AccountService.resetPassword(token, password);
+
+      res.json({
+        ok: true,
+        message: 'Password has been reset. Please log in with your new password',
+        version: config.version
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'INVALID_TOKEN') {
+        return res.status(400).json({
+          ok: false,
+          error: {
+            code: 'INVALID_TOKEN',
+            message: 'Reset token is invalid, expired or already used',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      console.error(`[${req.requestId}] Reset password error:`, error);
+      res.status(500).json({
+        ok: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to reset password',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  },
+
+  // POST /auth/email/verify - Confirm email ownership using a verification token
+  verifyEmail: async (req: Request, res: Response) => {
+    try {
+      const { token } = req.body;
+
+      if (!token || typeof token !== 'string') {
+        return res.status(400).json({
+          ok: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Token is required',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      await AccountService.verifyEmail(token);
+
+      res.json({
+        ok: true,
+        message: 'Email verified successfully',
+        version: config.version
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'INVALID_TOKEN') {
+        return res.status(400).json({
+          ok: false,
+          error: {
+            code: 'INVALID_TOKEN',
+            message: 'Verification token is invalid, expired or already used',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      console.error(`[${req.requestId}] Verify email error:`, error);
+      res.status(500).json({
+        ok: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to verify email',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  },
+
+  // POST /auth/email/verification - Re-send the verification email to the current user
+  resendVerification: async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          ok: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      await AccountService.sendEmailVerification(req.user.id);
+
+      res.json({
+        ok: true,
+        message: 'Verification email sent',
+        version: config.version
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message === 'ALREADY_VERIFIED') {
+          return res.status(409).json({
+            ok: false,
+            error: {
+              code: 'ALREADY_VERIFIED',
+              message: 'Email address is already verified',
+              requestId: req.requestId,
+              timestamp: new Date().toISOString()
+            }
+          });
+        }
+
+        if (error.message === 'NOT_FOUND') {
+          return res.status(404).json({
+            ok: false,
+            error: {
+              code: 'USER_NOT_FOUND',
+              message: 'User not found',
+              requestId: req.requestId,
+              timestamp: new Date().toISOString()
+            }
+          });
+        }
+      }
+
+      console.error(`[${req.requestId}] Resend verification error:`, error);
+      res.status(500).json({
+        ok: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to send verification email',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  },
+
+  // GET /auth/jwks - Public signing keys (RS256/EdDSA only) as a standard JWK set
+  jwks: async (req: Request, res: Response) => {
+    try {
+      // Plain JWK set (no envelope) so JWT libraries can consume it directly
+      res.set('Cache-Control', 'public, max-age=300');
+      res.json(TokenService.getJwks());
+    } catch (error) {
+      console.error(`[${req.requestId}] JWKS error:`, error);
+      res.status(500).json({
+        ok: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to load signing keys',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  },
+
   // GET /auth/me - Get current user profile from token
   me: async (req: Request, res: Response) => {
     try {
@@ -222,7 +716,7 @@ export const authController = {
 
       // Fetch fresh user data from database
       const result = await db.query(
-        'SELECT id, email, name, role, created_at FROM users WHERE id = $1',
+        'SELECT id, email, name, role, created_at, email_verified_at FROM users WHERE id = $1',
         [req.user.id]
       );
 
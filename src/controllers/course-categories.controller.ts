@@ -0,0 +1,146 @@
+import { Request, Response } from 'express';
+import { CourseCategoriesService } from '../services/course-categories.service';
+import { CourseCategoryValidator } from '../utils/validation';
+import { config } from '../config';
+import { sendError } from '../middleware/errorHandler.middleware';
+
+function parseId(req: Request, res: Response): number | null {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    sendError(req, res, 400, 'INVALID_ID', 'Category ID must be a valid number');
+    return null;
+  }
+  return id;
+}
+
+/**
+ * Map service error codes shared by create and update
+ * @returns false when the error is not one of them
+ */
+function sendCategoryError(req: Request, res: Response, error: unknown): boolean {
+  const code = error instanceof Error ? error.message : undefined;
+
+  switch (code) {
+    case 'NOT_FOUND':
+      sendError(req, res, 404, 'CATEGORY_NOT_FOUND', 'Category not found');
+      return true;
+    case 'PARENT_NOT_FOUND':
+      sendError(req, res, 400, 'VALIDATION_ERROR', 'Invalid category data', [{ field: 'parent_id', message: 'Parent category not found' }]);
+      return true;
+    case 'CYCLE':
+      sendError(req, res, 400, 'VALIDATION_ERROR', 'Invalid category data', [
+        { field: 'parent_id', message: 'A category cannot be moved under itself or one of its subcategories' }
+      ]);
+      return true;
+    case 'SLUG_REQUIRED':
+      sendError(req, res, 400, 'VALIDATION_ERROR', 'Invalid category data', [
+        { field: 'slug', message: 'A slug is required when none can be made from the name' }
+      ]);
+      return true;
+    case 'SLUG_TAKEN':
+      sendError(req, res, 409, 'SLUG_TAKEN', 'Another category already has this slug');
+      return true;
+    default:
+      return false;
+  }
+}
+
+export const courseCategoriesController = {
+  // GET /categories - Category tree (public)
+  index: async (req: Request, res: Response) => {
+    try {
+      const categories = await CourseCategoriesService.getCategoryTree();
+
+      res.json({
+        ok: true,
+        data: categories,
+        version: config.version
+      });
+    } catch (error) {
+      console.error(`[${req.requestId}] List categories error:`, error);
+      sendError(req, res, 500, 'INTERNAL_ERROR', 'Failed to list categories');
+    }
+  },
+
+  // POST /categories - Create a category (category.manage)
+  create: async (req: Request, res: Response) => {
+    try {
+      const validation = CourseCategoryValidator.validateCategory(req.body);
+      if (!validation.isValid) {
+        return sendError(req, res, 400, 'VALIDATION_ERROR', 'Invalid category data', validation.errors);
+      }
+
+      const category = await CourseCategoriesService.createCategory({
+        name: req.body.name.trim(),
+        slug: req.body.slug,
+        parent_id: req.body.parent_id,
+        position: req.body.position
+      });
+
+      res.status(201).json({
+        ok: true,
+        message: 'Category created',
+        data: category,
+        version: config.version
+      });
+    } catch (error) {
+      if (sendCategoryError(req, res, error)) return;
+      console.error(`[${req.requestId}] Create category error:`, error);
+      sendError(req, res, 500, 'INTERNAL_ERROR', 'Failed to create category');
+    }
+  },
+
+  // PUT /categories/:id - Rename, move or reorder a category (category.manage)
+  update: async (req: Request, res: Response) => {
+    try {
+      const categoryId = parseId(req, res);
+      if (categoryId === null) return;
+
+      const validation = CourseCategoryValidator.validateCategory(req.body, true);
+      if (!validation.isValid) {
+        return sendError(req, res, 400, 'VALIDATION_ERROR', 'Invalid category data', validation.errors);
+      }
+
+      const category = await CourseCategoriesService.updateCategory(categoryId, {
+        name: req.body.name?.trim(),
+        slug: req.body.slug,
+        parent_id: req.body.parent_id,
+        position: req.body.position
+      });
+
+      res.json({
+        ok: true,
+        message: 'Category updated',
+        data: category,
+        version: config.version
+      });
+    } catch (error) {
+      if (sendCategoryError(req, res, error)) return;
+      console.error(`[${req.requestId}] Update category error:`, error);
+      sendError(req, res, 500, 'INTERNAL_ERROR', 'Failed to update category');
+    }
+  },
+
+  // DELETE /categories/:id - Delete a category without subcategories (category.manage)
+  remove: async (req: Request, res: Response) => {
+    try {
+      const categoryId = parseId(req, res);
+      if (categoryId === null) return;
+
+      await CourseCategoriesService.deleteCategory(categoryId);
+
+      res.json({
+        ok: true,
+        message: 'Category deleted; its courses are now uncategorized',
+        version: config.version
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'HAS_CHILDREN') {
+        return sendError(req, res, 409, 'CATEGORY_HAS_CHILDREN', 'Move or delete the subcategories first');
+      }
+      if (sendCategoryError(req, res, error)) return;
+      console.error(`[${req.requestId}] Delete category error:`, error);
+      sendError(req, res, 500, 'INTERNAL_ERROR', 'Failed to delete category');
+    }
+  }
+};
@@ -0,0 +1,67 @@
+import { Request, Response } from 'express';
+import { CourseCloneService } from '../services/course-clone.service';
+import { CoursesService } from '../services/courses.service';
+import { CourseValidator } from '../utils/validation';
+import { config } from '../config';
+import { sendError, authorizeCourse, parseId } from '../middleware/errorHandler.middleware';
+
+export const courseCloneController = {
+  // POST /courses/:id/clone - Copy a course into a new unpublished course owned by the caller (course.clone)
+  clone: async (req: Request, res: Response) => {
+    try {
+      const courseId = parseId(req, res, 'id', 'Course');
+      if (courseId === null) return;
+      if (!(await authorizeCourse(req, res, courseId, 'course.clone'))) return;
+
+      const validation = CourseValidator.validateClone(req.body);
+      if (!validation.isValid) {
+        return sendError(req, res, 400, 'VALIDATION_ERROR', 'Invalid clone request', validation.errors);
+      }
+
+      const title = typeof req.body.title === 'string' ? req.body.title.trim() : undefined;
+      const result = await CourseCloneService.cloneCourse(courseId, req.user!.id, title);
+
+      res.status(201).json({
+        ok: true,
+        message: 'Course cloned',
+        data: result,
+        version: config.version
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'NOT_FOUND') {
+        return sendError(req, res, 404, 'COURSE_NOT_FOUND', 'Course not found');
+      }
+      console.error(`[${req.requestId}] Clone course error:`, error);
+      sendError(req, res, 500, 'INTERNAL_ERROR', 'Failed to clone course');
+    }
+  },
+
+  // PUT /courses/:id/template - Mark or unmark a course as a template (course.manage_templates)
+  setTemplate: async (req: Request, res: Response) => {
+    try {
+      const courseId = parseId(req, res, 'id', 'Course');
+      if (courseId === null) return;
+      if (!(await authorizeCourse(req, res, courseId, 'course.manage_templates'))) return;
+
+      const validation = CourseValidator.validateTemplate(req.body);
+      if (!validation.isValid) {
+        return sendError(req, res, 400, 'VALIDATION_ERROR', 'Invalid template flag', validation.errors);
+      }
+
+      const course = await CoursesService.setTemplate(courseId, req.body.isTemplate);
+      if (!course) {
+        return sendError(req, res, 404, 'COURSE_NOT_FOUND', 'Course not found');
+      }
+
+      res.json({
+        ok: true,
+        message: course.is_template ? 'Course is now a template' : 'Course is no longer a template',
+        data: course,
+        version: config.version
+      });
+    } catch (error) {
+      console.error(`[${req.requestId}] Update course template error:`, error);
+      sendError(req, res, 500, 'INTERNAL_ERROR', 'Failed to update course template');
+    }
+  }
+};
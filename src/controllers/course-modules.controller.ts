@@ -0,0 +1,128 @@
+import { Request, Response } from 'express';
+import { CourseModulesService } from '../services/course-modules.service';
+import { CourseModuleValidator } from '../utils/validation';
+import { Permission } from '../modules/permissions/permissions';
+import { config } from '../config';
+import { sendError, authorizeCourse, parseId } from '../middleware/errorHandler.middleware';
+
+/**
+ * Load a module and check the caller's permission on its course
+ * @returns The module ID, or null after a response was sent
+ */
+async function authorizeModule(req: Request, res: Response, permission: Permission): Promise<number | null> {
+  const moduleId = parseId(req, res, 'id', 'Module');
+  if (moduleId === null) return null;
+
+  const module = await CourseModulesService.getModuleById(moduleId);
+  if (!module) {
+    sendError(req, res, 404, 'MODULE_NOT_FOUND', 'Module not found');
+    return null;
+  }
+
+  return (await authorizeCourse(req, res, module.course_id, permission)) ? moduleId : null;
+}
+
+/**
+ * Map service errors shared by the module endpoints
+ */
+function sendModuleError(req: Request, res: Response, error: unknown, action: string) {
+  if (error instanceof Error) {
+    switch (error.message) {
+      case 'NOT_FOUND':
+        return sendError(req, res, 404, 'MODULE_NOT_FOUND', 'Module not found');
+      case 'MODULE_NOT_EMPTY':
+        return sendError(req, res, 409, 'MODULE_NOT_EMPTY', 'Move or delete the lessons of this module first');
+    }
+  }
+
+  console.error(`[${req.requestId}] ${action} module error:`, error);
+  return sendError(req, res, 500, 'INTERNAL_ERROR', `Failed to ${action.toLowerCase()} module`);
+}
+
+export const courseModulesController = {
+  // GET /courses/:courseId/modules - List modules with their lessons (lesson.view)
+  index: async (req: Request, res: Response) => {
+    try {
+      const courseId = parseId(req, res, 'courseId', 'Course');
+      if (courseId === null) return;
+      if (!(await authorizeCourse(req, res, courseId, 'lesson.view'))) return;
+
+      const modules = await CourseModulesService.listModules(courseId);
+
+      res.json({
+        ok: true,
+        data: modules,
+        version: config.version
+      });
+    } catch (error) {
+      sendModuleError(req, res, error, 'List');
+    }
+  },
+
+  // POST /courses/:courseId/modules - Create a module (module.create)
+  create: async (req: Request, res: Response) => {
+    try {
+      const courseId = parseId(req, res, 'courseId', 'Course');
+      if (courseId === null) return;
+      if (!(await authorizeCourse(req, res, courseId, 'module.create'))) return;
+
+      const validation = CourseModuleValidator.validateCreateModule(req.body);
+      if (!validation.isValid) {
+        return sendError(req, res, 400, 'VALIDATION_ERROR', 'Invalid module data', validation.errors);
+      }
+
+      const module = await CourseModulesService.createModule(courseId, req.body.title.trim(), req.body.position);
+
+      res.status(201).json({
+        ok: true,
+        message: 'Module created',
+        data: module,
+        version: config.version
+      });
+    } catch (error) {
+      sendModuleError(req, res, error, 'Create');
+    }
+  },
+
+  // PUT /modules/:id - Rename a module (module.edit)
+  update: async (req: Request, res: Response) => {
+    try {
+      const moduleId = await authorizeModule(req, res, 'module.edit');
+      if (moduleId === null) return;
+
+      const validation = CourseModuleValidator.validateUpdateModule(req.body);
+      if (!validation.isValid) {
+        return sendError(req, res, 400, 'VALIDATION_ERROR', 'Invalid module data', validation.errors);
+      }
+
+      const module = await CourseModulesService.updateModule(moduleId, req.body.title.trim());
+
+      res.json({
+        ok: true,
+        message: 'Module updated',
+        data: module,
+        version: config.version
+      });
+    } catch (error) {
+      sendModuleError(req, res, error, 'Update');
+    }
+  },
+
+  // DELETE /modules/:id - Delete an empty module (module.delete)
+  remove: async (req: Request, res: Response) => {
+    try {
+      const moduleId = await authorizeModule(req, res, 'module.delete');
+      if (moduleId === null) return;
+
+      await CourseModulesService.deleteModule(moduleId);
+
+      res.json({
+        ok: true,
+        message: 'Module deleted',
+        version: config.version
+      });
+    } catch (error) {
+      sendModuleError(req, res, error, 'Delete');
+    }
+  }
+};
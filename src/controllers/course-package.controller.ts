@@ -0,0 +1,99 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { CoursePackageService, AttachmentMissingError } from '../services/course-package.service';
+import { CourseValidator } from '../utils/validation';
+import { can, getCourseResource } from '../modules/permissions/policy';
+import { config } from '../config';
+import { sendError } from '../middleware/errorHandler.middleware';
+
+const rawBody = express.raw({ type: () => true, limit: config.courseImportMaxBytes });
+
+export const coursePackageController = {
+  // Reads a package body as raw bytes, answering 413 when it exceeds COURSE_IMPORT_MAX_MB
+  readPackage: (req: Request, res: Response, next: NextFunction) => {
+    rawBody(req, res, (error?: any) => {
+      if (error?.type === 'entity.too.large') {
+        return sendError(req, res, 413, 'PACKAGE_TOO_LARGE', `Packages may be at most ${config.courseImportMaxBytes} bytes`);
+      }
+      next(error);
+    });
+  },
+
+  // GET /courses/:id/export - Download the course as a .tar.gz package (course.export)
+  export: async (req: Request, res: Response) => {
+    try {
+      const courseId = parseInt(req.params.id);
+      if (isNaN(courseId)) {
+        return sendError(req, res, 400, 'INVALID_ID', 'Course ID must be a valid number');
+      }
+
+      const course = await getCourseResource(courseId);
+      if (!course) {
+        return sendError(req, res, 404, 'COURSE_NOT_FOUND', 'Course not found');
+      }
+      if (!(await can(req.user, 'course.export', { course }))) {
+        return sendError(req, res, 403, 'FORBIDDEN', 'Missing permission course.export for this course');
+      }
+
+      const { filename, archive } = await CoursePackageService.exportCourse(courseId);
+
+      res.attachment(filename);
+      res.set({
+        'Content-Type': 'application/gzip',
+        'Content-Length': String(archive.length),
+        'Cache-Control': 'private, no-store'
+      });
+      res.send(archive);
+    } catch (error) {
+      if (error instanceof Error && error.message === 'NOT_FOUND') {
+        return sendError(req, res, 404, 'COURSE_NOT_FOUND', 'Course not found');
+      }
+      if (error instanceof AttachmentMissingError) {
+        return sendError(req, res, 409, 'ATTACHMENT_MISSING', `The stored content of attachment ${error.filename} is missing`);
+      }
+      console.error(`[${req.requestId}] Export course error:`, error);
+      sendError(req, res, 500, 'INTERNAL_ERROR', 'Failed to export course');
+    }
+  },
+
+  // POST /courses/import?dryRun=true&force=true&title= - Import a package as a new unpublished course (course.create)
+  import: async (req: Request, res: Response) => {
+    try {
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return sendError(req, res, 400, 'VALIDATION_ERROR', 'The request body must contain the package');
+      }
+
+      const title = typeof req.query.title === 'string' ? req.query.title.trim() : undefined;
+      const validation = CourseValidator.validateClone({ title });
+      if (!validation.isValid) {
+        return sendError(req, res, 400, 'VALIDATION_ERROR', 'Invalid import request', validation.errors);
+      }
+
+      const report = await CoursePackageService.importCourse(req.body, req.user!.id, {
+        dryRun: req.query.dryRun === 'true',
+        force: req.query.force === 'true',
+        title
+      });
+
+      if (report.errors.length > 0) {
+        return sendError(req, res, 422, 'INVALID_PACKAGE', 'The package is not a valid course package', report);
+      }
+      if (report.conflicts.length > 0 && !report.dryRun && !report.imported) {
+        return sendError(req, res, 409, 'IMPORT_CONFLICT', 'The package conflicts with existing courses; retry with force=true to import anyway', report);
+      }
+
+      res.status(report.imported ? 201 : 200).json({
+        ok: true,
+        message: report.imported
+          ? 'Course imported'
+          : report.conflicts.length > 0
+            ? 'Dry run: the package is valid but conflicts with existing courses'
+            : 'Dry run: the package can be imported',
+        data: report,
+        version: config.version
+      });
+    } catch (error) {
+      console.error(`[${req.requestId}] Import course error:`, error);
+      sendError(req, res, 500, 'INTERNAL_ERROR', 'Failed to import course');
+    }
+  }
+};
@@ -0,0 +1,199 @@
+import { Request, Response } from 'express';
+import { CourseStaffService, CourseStaffRole } from '../services/course-staff.service';
+import { CourseStaffValidator } from '../utils/validation';
+import { can, getCourseResource } from '../modules/permissions/policy';
+import { Permission } from '../modules/permissions/permissions';
+import { config } from '../config';
+import { sendError } from '../middleware/errorHandler.middleware';
+
+/**
+ * Parse the course ID and check the caller's permission on the course
+ * @returns The course ID, or null after a 400/403/404 response was sent
+ */
+async function authorizeCourse(req: Request, res: Response, permission: Permission): Promise<number | null> {
+  const courseId = parseInt(req.params.id);
+  if (isNaN(courseId)) {
+    sendError(req, res, 400, 'INVALID_ID', 'Course ID must be a valid number');
+    return null;
+  }
+
+  const course = await getCourseResource(courseId);
+  if (!course) {
+    sendError(req, res, 404, 'COURSE_NOT_FOUND', 'Course not found');
+    return null;
+  }
+
+  if (!(await can(req.user, permission, { course }))) {
+    sendError(req, res, 403, 'FORBIDDEN', `Missing permission ${permission} for this course`);
+    return null;
+  }
+
+  return courseId;
+}
+
+function parseStaffUserId(req: Request, res: Response): number | null {
+  const userId = parseInt(req.params.userId);
+  if (isNaN(userId)) {
+    sendError(req, res, 400, 'INVALID_ID', 'User ID must be a valid number');
+    return null;
+  }
+  return userId;
+}
+
+/**
+ * Map service errors shared by the staff endpoints
+ */
+function sendStaffError(req: Request, res: Response, error: unknown, action: string) {
+  if (error instanceof Error) {
+    switch (error.message) {
+      case 'COURSE_NOT_FOUND':
+        return sendError(req, res, 404, 'COURSE_NOT_FOUND', 'Course not found');
+      case 'USER_NOT_FOUND':
+        return sendError(req, res, 404, 'USER_NOT_FOUND', 'User not found');
+      case 'STAFF_NOT_FOUND':
+        return sendError(req, res, 404, 'STAFF_NOT_FOUND', 'User is not on the staff of this course');
+      case 'ALREADY_OWNER':
+        return sendError(req, res, 409, 'ALREADY_OWNER', 'User already owns this course');
+      case 'ALREADY_STAFF':
+        return sendError(req, res, 409, 'ALREADY_STAFF', 'User is already on the staff of this course');
+      case 'INVALID_NEW_OWNER':
+        return sendError(req, res, 422, 'INVALID_NEW_OWNER', 'The new owner must be allowed to create courses');
+      case 'INVALID_STAFF_MEMBER':
+        return sendError(req, res, 422, 'INVALID_STAFF_MEMBER', 'Staff members must be allowed to create courses');
+    }
+  }
+
+  console.error(`[${req.requestId}] ${action} course staff error:`, error);
+  return sendError(req, res, 500, 'INTERNAL_ERROR', `Failed to ${action.toLowerCase()} course staff`);
+}
+
+export const courseStaffController = {
+  // GET /courses/:id/staff - List owner, co-instructors and TAs (course.view_staff)
+  index: async (req: Request, res: Response) => {
+    try {
+      const courseId = await authorizeCourse(req, res, 'course.view_staff');
+      if (courseId === null) return;
+
+      const staff = await CourseStaffService.listStaff(courseId);
+
+      res.json({
+        ok: true,
+        data: staff,
+        version: config.version
+      });
+    } catch (error) {
+      sendStaffError(req, res, error, 'List');
+    }
+  },
+
+  // POST /courses/:id/staff - Add a co-instructor or TA (course.manage_staff)
+  add: async (req: Request, res: Response) => {
+    try {
+      const courseId = await authorizeCourse(req, res, 'course.manage_staff');
+      if (courseId === null) return;
+
+      const validation = CourseStaffValidator.validateAddStaff(req.body);
+      if (!validation.isValid) {
+        return sendError(req, res, 400, 'VALIDATION_ERROR', 'Invalid staff data', validation.errors);
+      }
+
+      const member = await CourseStaffService.addStaff(
+        courseId,
+        req.body.userId,
+        req.body.role as CourseStaffRole,
+        req.user!.id
+      );
+
+      res.status(201).json({
+        ok: true,
+        message: 'Staff member added',
+        data: member,
+        version: config.version
+      });
+    } catch (error) {
+      sendStaffError(req, res, error, 'Add');
+    }
+  },
+
+  // PUT /courses/:id/staff/:userId - Change a staff member's role (course.manage_staff)
+  update: async (req: Request, res: Response) => {
+    try {
+      const courseId = await authorizeCourse(req, res, 'course.manage_staff');
+      if (courseId === null) return;
+
+      const userId = parseStaffUserId(req, res);
+      if (userId === null) return;
+
+      const validation = CourseStaffValidator.validateUpdateStaff(req.body);
+      if (!validation.isValid) {
+        return sendError(req, res, 400, 'VALIDATION_ERROR', 'Invalid staff data', validation.errors);
+      }
+
+      const member = await CourseStaffService.updateStaffRole(courseId, userId, req.body.role as CourseStaffRole);
+
+      res.json({
+        ok: true,
+        message: 'Staff role updated',
+        data: member,
+        version: config.version
+      });
+    } catch (error) {
+      sendStaffError(req, res, error, 'Update');
+    }
+  },
+
+  // DELETE /courses/:id/staff/:userId - Remove a co-instructor or TA (course.manage_staff)
+  remove: async (req: Request, res: Response) => {
+    try {
+      const courseId = await authorizeCourse(req, res, 'course.manage_staff');
+      if (courseId === null) return;
+
+      const userId = parseStaffUserId(req, res);
+      if (userId === null) return;
+
+      await CourseStaffService.removeStaff(courseId, userId);
+
+      res.json({
+        ok: true,
+        message: 'Staff member removed',
+        version: config.version
+      });
+    } catch (error) {
+      sendStaffError(req, res, error, 'Remove');
+    }
+  },
+
+  // POST /courses/:id/staff/transfer - Transfer ownership to another user (course.transfer)
+  transfer: async (req: Request, res: Response) => {
+    try {
+      const courseId = await authorizeCourse(req, res, 'course.transfer');
+      if (courseId === null) return;
+
+      const validation = CourseStaffValidator.validateTransfer(req.body);
+      if (!validation.isValid) {
+        return sendError(req, res, 400, 'VALIDATION_ERROR', 'Invalid transfer data', validation.errors);
+      }
+
+      // The previous owner stays on as co-instructor unless told otherwise
+      const previousOwnerRole = req.body.previousOwnerRole === undefined
+        ? 'co_instructor'
+        : req.body.previousOwnerRole as CourseStaffRole | null;
+
+      const staff = await CourseStaffService.transferOwnership(
+        courseId,
+        req.body.userId,
+        previousOwnerRole,
+        req.user!.id
+      );
+
+      res.json({
+        ok: true,
+        message: 'Course ownership transferred',
+        data: staff,
+        version: config.version
+      });
+    } catch (error) {
+      sendStaffError(req, res, error, 'Transfer');
+    }
+  }
+};
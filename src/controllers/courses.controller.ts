@@ -1,25 +1,66 @@
 import { Request, Response } from 'express';
 import { CoursesService, CreateCourseData, UpdateCourseData } from '../services/courses.service';
+import { CourseCategoriesService } from '../services/course-categories.service';
 import { CourseValidator } from '../utils/validation';
+import { can, getCourseResource } from '../modules/permissions/policy';
 
 export const coursesController = {
-  // GET /courses - List courses with role-based filtering
+  // GET /courses - List courses filtered by the caller's permissions
   index: async (req: Request, res: Response) => {
     try {
       const { page, limit } = CourseValidator.validatePagination(req.query);
       const search = CourseValidator.sanitizeSearch(req.query.q);
-      
-      let options: any = { page, limit, search };
+      const catalog = CourseValidator.parseCatalogQuery(req.query);
+      if (catalog.errors.length > 0) {
+        return res.status(400).json({
+          ok: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid catalog filters',
+            details: catalog.errors,
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const { category: categoryParam, ...filters } = catalog.filters;
+      let options: any = { page, limit, search, ...filters, include_facets: true };
 
-      // Role-based filtering
-      if (!req.user || req.user.role === 'student') {
-        // Public or student access - only published courses
-        options.published_only = true;
-      } else if (req.user.role === 'instructor') {
-        // Instructor - only their own courses
-        options.instructor_id = req.user.id;
+      // ?category= takes an ID or slug and includes subcategories
+      if (categoryParam) {
+        const category = await CourseCategoriesService.findCategory(categoryParam);
+        if (!category) {
+          return res.status(400).json({
+            ok: false,
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: 'Invalid catalog filters',
+              details: [{ field: 'category', message: `Unknown category ${categoryParam}` }],
+              requestId: req.requestId,
+              timestamp: new Date().toISOString()
+            }
+          });
+        }
+        options.category_ids = await CourseCategoriesService.getSubtreeIds(category.id);
+      }
+
+      // ?template=true lists templates; everyone who can create courses may see (and clone) them
+      if (req.query.template === 'true') {
+        options.templates_only = true;
+      }
+
+      // Permission-based filtering (course.view_all sees every course)
+      const seesAllTemplates = options.templates_only && await can(req.user, 'course.create');
+      if (!seesAllTemplates && !(await can(req.user, 'course.view_all'))) {
+        if (req.user && await can(req.user, 'course.list_taught')) {
+          // Only the courses they own or staff, published or not
+          options.staff_user_id = req.user.id;
+        } else {
+          // Public or student access - only published courses
+          options.published_only = true;
+        }
       }
-      // Admin sees all courses (no additional filtering)
 
       const result = await CoursesService.listCourses(options);
 
@@ -27,6 +68,7 @@ export const coursesController = {
         ok: true,
         data: result.courses,
         pagination: result.pagination,
+        facets: result.facets,
         version: 'v1.9' // Versión de API actualizada con mejoras en el sistema de gestión de cursos
       });
     } catch (error) {
@@ -80,9 +122,26 @@ export const coursesController = {
         title: req.body.title.trim(),
         description: req.body.description?.trim() || null,
         price_cents: normalizedPrice!,
-        instructor_id: req.body.instructor_id // Only admin can set this
+        instructor_id: req.body.instructor_id, // Only admin can set this
+        category_id: req.body.category_id,
+        level: req.body.level,
+        language: req.body.language && CourseValidator.normalizeLanguage(req.body.language),
+        tags: req.body.tags && CourseValidator.normalizeTags(req.body.tags)
       };
 
+      if (courseData.category_id && !(await CourseCategoriesService.getCategory(courseData.category_id))) {
+        return res.status(400).json({
+          ok: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid course data',
+            details: [{ field: 'category_id', message: 'Category not found' }],
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
       const course = await CoursesService.createCourse(
         courseData,
         req.user.id,
@@ -152,33 +211,17 @@ export const coursesController = {
         });
       }
 
-      // Check if user can view unpublished course
-      if (!course.published) {
-        if (!req.user) {
-          return res.status(404).json({
-            ok: false,
-            error: {
-              code: 'COURSE_NOT_FOUND',
-              message: 'Course not found',
-              requestId: req.requestId,
-              timestamp: new Date().toISOString()
-            }
-          });
-        }
-
-        // Only instructor (owner) or admin can view unpublished courses
-        if (req.user.role === 'student' || 
-            (req.user.role === 'instructor' && course.instructor_id !== req.user.id)) {
-          return res.status(404).json({
-            ok: false,
-            error: {
-              code: 'COURSE_NOT_FOUND',
-              message: 'Course not found',
-              requestId: req.requestId,
-              timestamp: new Date().toISOString()
-            }
-          });
-        }
+      // Unpublished courses are hidden from anyone without course.view
+      if (!(await can(req.user, 'course.view', { course }))) {
+        return res.status(404).json({
+          ok: false,
+          error: {
+            code: 'COURSE_NOT_FOUND',
+            message: 'Course not found',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
       }
 
       res.json({
@@ -200,7 +243,7 @@ export const coursesController = {
     }
   },
 
-  // PUT /courses/:id - Update course (owner instructor/admin only)
+  // PUT /courses/:id - Update course (course.edit)
   update: async (req: Request, res: Response) => {
     try {
       if (!req.user) {
@@ -228,9 +271,9 @@ export const coursesController = {
         });
       }
 
-      // Check if user can modify this course
-      const canModify = await CoursesService.canModifyCourse(courseId, req.user.id, req.user.role);
-      if (!canModify) {
+      // Check if user can modify this course (missing courses fall through to 404 below)
+      const resource = await getCourseResource(courseId);
+      if (resource && !(await can(req.user, 'course.edit', { course: resource }))) {
         return res.status(403).json({
           ok: false,
           error: {
@@ -271,11 +314,39 @@ export const coursesController = {
         updateData.price_cents = CourseValidator.normalizePrice(req.body.price_cents)!;
       }
 
-      // Only admin can change instructor_id
-      if (req.body.instructor_id !== undefined && req.user.role === 'admin') {
+      // Reassigning the course needs course.assign_instructor
+      if (req.body.instructor_id !== undefined && await can(req.user, 'course.assign_instructor')) {
         updateData.instructor_id = req.body.instructor_id;
       }
 
+      if (req.body.category_id !== undefined) {
+        if (req.body.category_id !== null && !(await CourseCategoriesService.getCategory(req.body.category_id))) {
+          return res.status(400).json({
+            ok: false,
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: 'Invalid course data',
+              details: [{ field: 'category_id', message: 'Category not found' }],
+              requestId: req.requestId,
+              timestamp: new Date().toISOString()
+            }
+          });
+        }
+        updateData.category_id = req.body.category_id;
+      }
+
+      if (req.body.level !== undefined) {
+        updateData.level = req.body.level;
+      }
+
+      if (req.body.language !== undefined) {
+        updateData.language = req.body.language && CourseValidator.normalizeLanguage(req.body.language);
+      }
+
+      if (req.body.tags !== undefined) {
+        updateData.tags = CourseValidator.normalizeTags(req.body.tags);
+      }
+
       const course = await CoursesService.updateCourse(courseId, updateData);
       
       if (!course) {
@@ -310,15 +381,15 @@ export const coursesController = {
     }
   },
 
-  // DELETE /courses/:id - Delete course (admin only)
+  // DELETE /courses/:id - Delete course (course.delete)
   remove: async (req: Request, res: Response) => {
     try {
-      if (!req.user || req.user.role !== 'admin') {
+      if (!(await can(req.user, 'course.delete'))) {
         return res.status(403).json({
           ok: false,
           error: {
             code: 'FORBIDDEN',
-            message: 'Only administrators can delete courses',
+            message: 'You do not have permission to delete courses',
             requestId: req.requestId,
             timestamp: new Date().toISOString()
           }
@@ -371,7 +442,7 @@ export const coursesController = {
     }
   },
 
-  // POST /courses/:id/publish - Publish course (owner instructor/admin only)
+  // POST /courses/:id/publish - Publish course (course.publish)
   publish: async (req: Request, res: Response) => {
     try {
       if (!req.user) {
@@ -399,9 +470,9 @@ export const coursesController = {
         });
       }
 
-      // Check if user can modify this course
-      const canModify = await CoursesService.canModifyCourse(courseId, req.user.id, req.user.role);
-      if (!canModify) {
+      // Check if user can publish this course (missing courses fall through to 404 below)
+      const resource = await getCourseResource(courseId);
+      if (resource && !(await can(req.user, 'course.publish', { course: resource }))) {
         return res.status(403).json({
           ok: false,
           error: {
@@ -447,7 +518,7 @@ export const coursesController = {
     }
   },
 
-  // POST /courses/:id/unpublish - Unpublish course (owner instructor/admin only)
+  // POST /courses/:id/unpublish - Unpublish course (course.publish)
   unpublish: async (req: Request, res: Response) => {
     try {
       if (!req.user) {
@@ -475,9 +546,9 @@ export const coursesController = {
         });
       }
 
-      // Check if user can modify this course
-      const canModify = await CoursesService.canModifyCourse(courseId, req.user.id, req.user.role);
-      if (!canModify) {
+      // Check if user can unpublish this course (missing courses fall through to 404 below)
+      const resource = await getCourseResource(courseId);
+      if (resource && !(await can(req.user, 'course.publish', { course: resource }))) {
         return res.status(403).json({
           ok: false,
           error: {
@@ -523,6 +594,83 @@ export const coursesController = {
     }
   },
 
+  // PUT /courses/:id/rating - Rate a course 1-5; one rating per enrolled student (course.rate)
+  rate: async (req: Request, res: Response) => {
+    try {
+      const courseId = parseInt(req.params.id);
+      if (isNaN(courseId)) {
+        return res.status(400).json({
+          ok: false,
+          error: {
+            code: 'INVALID_ID',
+            message: 'Course ID must be a valid number',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const resource = await getCourseResource(courseId);
+      if (!resource) {
+        return res.status(404).json({
+          ok: false,
+          error: {
+            code: 'COURSE_NOT_FOUND',
+            message: 'Course not found',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      if (!(await can(req.user, 'course.rate', { course: resource }))) {
+        return res.status(403).json({
+          ok: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'Only students enrolled in this course can rate it',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const validation = CourseValidator.validateRating(req.body);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          ok: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid rating',
+            details: validation.errors,
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const rating = await CoursesService.rateCourse(courseId, req.user!.id, req.body.rating);
+
+      res.json({
+        ok: true,
+        message: 'Rating saved',
+        data: rating,
+        version: 'v1.9' // Versión de API actualizada con mejoras en el sistema de gestión de cursos
+      });
+    } catch (error) {
+      console.error(`[${req.requestId}] Rate course error:`, error);
+      res.status(500).json({
+        ok: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to save rating',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  },
+
   // GET /courses/:id/overview - Get course overview with statistics
   overview: async (req: Request, res: Response) => {
     try {
@@ -553,33 +701,18 @@ export const coursesController = {
         });
       }
 
-      // Check access permissions
-      if (!overview.published) {
-        if (!req.user) {
-          return res.status(404).json({
-            ok: false,
-            error: {
-              code: 'COURSE_NOT_FOUND',
-              message: 'Course not found',
-              requestId: req.requestId,
-              timestamp: new Date().toISOString()
-            }
-          });
-        }
-
-        // Only instructor (owner) or admin can view unpublished course overview
-        if (req.user.role === 'student' || 
-            (req.user.role === 'instructor' && overview.instructor.id !== req.user.id)) {
-          return res.status(404).json({
-            ok: false,
-            error: {
-              code: 'COURSE_NOT_FOUND',
-              message: 'Course not found',
-              requestId: req.requestId,
-              timestamp: new Date().toISOString()
-            }
-          });
-        }
+      // Unpublished course overviews are hidden from anyone without course.view
+      const course = { id: overview.id, instructor_id: overview.instructor.id, published: overview.published };
+      if (!(await can(req.user, 'course.view', { course }))) {
+        return res.status(404).json({
+          ok: false,
+          error: {
+            code: 'COURSE_NOT_FOUND',
+            message: 'Course not found',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
       }
 
       res.json({
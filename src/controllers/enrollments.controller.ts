@@ -3,6 +3,7 @@ import { EnrollmentsService } from '../services/enrollments.service';
 import { EnrollmentValidator } from '../utils/validation';
 import { config } from '../config';
 import { publish, isNotificationsEnabled } from '../modules/notifications/publisher';
+import { can, getCourseResource } from '../modules/permissions/policy';
 
 export const enrollmentsController = {
   /**
@@ -26,13 +27,13 @@ export const enrollmentsController = {
         });
       }
 
-      // Students can only enroll themselves
-      if (!req.user || req.user.role !== 'student') {
+      // Users can only enroll themselves
+      if (!req.user || !(await can(req.user, 'enrollment.create'))) {
         return res.status(403).json({
           ok: false,
           error: {
             code: 'FORBIDDEN',
-            message: 'Only students can enroll in courses',
+            message: 'You do not have permission to enroll in courses',
             requestId: req.requestId,
             timestamp: new Date().toISOString()
           }
@@ -86,6 +87,18 @@ export const enrollmentsController = {
           });
         }
         
+        if (error.message === 'Email verification required') {
+          return res.status(403).json({
+            ok: false,
+            error: {
+              code: 'EMAIL_NOT_VERIFIED',
+              message: 'Please verify your email address before enrolling',
+              requestId: req.requestId,
+              timestamp: new Date().toISOString()
+            }
+          });
+        }
+        
         if (error.message === 'Already enrolled in this course') {
           return res.status(409).json({
             ok: false,
@@ -161,7 +174,7 @@ export const enrollmentsController = {
 
   /**
    * GET /api/courses/:courseId/enrollments
-   * Get enrollments for a specific course (instructor/admin only)
+   * Get enrollments for a specific course (enrollment.view_course)
    */
   getCourseEnrollments: async (req: Request, res: Response) => {
     try {
@@ -190,14 +203,20 @@ export const enrollmentsController = {
         });
       }
 
-      // Check if user can view course enrollments
-      const canView = await EnrollmentsService.canViewCourseEnrollments(
-        courseId,
-        req.user.id,
-        req.user.role
-      );
+      const course = await getCourseResource(courseId);
+      if (!course) {
+        return res.status(404).json({
+          ok: false,
+          error: {
+            code: 'COURSE_NOT_FOUND',
+            message: 'Course not found',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
 
-      if (!canView) {
+      if (!(await can(req.user, 'enrollment.view_course', { course }))) {
         return res.status(403).json({
           ok: false,
           error: {
@@ -240,7 +259,7 @@ export const enrollmentsController = {
 
   /**
    * PUT /api/enrollments/:id/status
-   * Update enrollment status (admin only)
+   * Update enrollment status (enrollment.update_status)
    */
   updateStatus: async (req: Request, res: Response) => {
     try {
@@ -256,13 +275,12 @@ export const enrollmentsController = {
         });
       }
 
-      // Only admins can update enrollment status
-      if (req.user.role !== 'admin') {
+      if (!(await can(req.user, 'enrollment.update_status'))) {
         return res.status(403).json({
           ok: false,
           error: {
             code: 'FORBIDDEN',
-            message: 'Only administrators can update enrollment status',
+            message: 'You do not have permission to update enrollment status',
             requestId: req.requestId,
             timestamp: new Date().toISOString()
           }
@@ -0,0 +1,40 @@
+import { Request, Response } from 'express';
+import { GradebookService } from '../services/gradebook.service';
+import { can, getCourseResource } from '../modules/permissions/policy';
+import { config } from '../config';
+import { sendError } from '../middleware/errorHandler.middleware';
+
+export const gradebookController = {
+  // GET /courses/:courseId/gradebook - Every student's grades (gradebook.view_course), or the caller's own released grades (gradebook.view_own)
+  show: async (req: Request, res: Response) => {
+    try {
+      const courseId = parseInt(req.params.courseId);
+      if (isNaN(courseId)) {
+        return sendError(req, res, 400, 'INVALID_ID', 'Course ID must be a valid number');
+      }
+
+      const course = await getCourseResource(courseId);
+      if (!course) {
+        return sendError(req, res, 404, 'COURSE_NOT_FOUND', 'Course not found');
+      }
+
+      let gradebook;
+      if (await can(req.user, 'gradebook.view_course', { course })) {
+        gradebook = await GradebookService.getGradebook(courseId);
+      } else if (await can(req.user, 'gradebook.view_own', { course })) {
+        gradebook = await GradebookService.getGradebook(courseId, req.user!.id);
+      } else {
+        return sendError(req, res, 403, 'FORBIDDEN', 'Missing permission gradebook.view_course or gradebook.view_own for this course');
+      }
+
+      res.json({
+        ok: true,
+        data: gradebook,
+        version: config.version
+      });
+    } catch (error) {
+      console.error(`[${req.requestId}] Get gradebook error:`, error);
+      sendError(req, res, 500, 'INTERNAL_ERROR', 'Failed to get gradebook');
+    }
+  }
+};
@@ -0,0 +1,310 @@
+import { Request, Response } from 'express';
+import { InstructorApplicationsService } from '../services/instructor-applications.service';
+import { InstructorApplicationValidator } from '../utils/validation';
+import { config } from '../config';
+import { can } from '../modules/permissions/policy';
+
+/**
+ * Map service errors shared by the decision endpoints
+ */
+function sendDecisionError(req: Request, res: Response, error: unknown, action: string) {
+  if (error instanceof Error) {
+    if (error.message === 'NOT_FOUND') {
+      return res.status(404).json({
+        ok: false,
+        error: {
+          code: 'APPLICATION_NOT_FOUND',
+          message: 'Instructor application not found',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+
+    if (error.message === 'ALREADY_DECIDED') {
+      return res.status(409).json({
+        ok: false,
+        error: {
+          code: 'ALREADY_DECIDED',
+          message: 'This application has already been approved or rejected',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  }
+
+  console.error(`[${req.requestId}] ${action} instructor application error:`, error);
+  return res.status(500).json({
+    ok: false,
+    error: {
+      code: 'INTERNAL_ERROR',
+      message: `Failed to ${action.toLowerCase()} instructor application`,
+      requestId: req.requestId,
+      timestamp: new Date().toISOString()
+    }
+  });
+}
+
+function parseApplicationId(req: Request, res: Response): number | null {
+  const id = parseInt(req.params.id);
+  if (isNaN(id)) {
+    res.status(400).json({
+      ok: false,
+      error: {
+        code: 'INVALID_ID',
+        message: 'Application ID must be a valid number',
+        requestId: req.requestId,
+        timestamp: new Date().toISOString()
+      }
+    });
+    return null;
+  }
+  return id;
+}
+
+export const instructorApplicationsController = {
+  // POST /instructor-applications - Student applies for instructor access
+  create: async (req: Request, res: Response) => {
+    try {
+      const validation = InstructorApplicationValidator.validateCreateApplication(req.body);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          ok: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid application data',
+            details: validation.errors,
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const application = await InstructorApplicationsService.createApplication(
+        req.user!.id,
+        req.body.motivation.trim()
+      );
+
+      res.status(201).json({
+        ok: true,
+        message: 'Application submitted successfully',
+        data: application,
+        version: config.version
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message === 'NOT_A_STUDENT') {
+          return res.status(403).json({
+            ok: false,
+            error: {
+              code: 'FORBIDDEN',
+              message: 'Only students can apply for instructor access',
+              requestId: req.requestId,
+              timestamp: new Date().toISOString()
+            }
+          });
+        }
+
+        if (error.message === 'APPLICATION_PENDING') {
+          return res.status(409).json({
+            ok: false,
+            error: {
+              code: 'APPLICATION_PENDING',
+              message: 'You already have a pending instructor application',
+              requestId: req.requestId,
+              timestamp: new Date().toISOString()
+            }
+          });
+        }
+
+        if (error.message === 'NOT_FOUND') {
+          return res.status(404).json({
+            ok: false,
+            error: {
+              code: 'USER_NOT_FOUND',
+              message: 'User not found',
+              requestId: req.requestId,
+              timestamp: new Date().toISOString()
+            }
+          });
+        }
+      }
+
+      console.error(`[${req.requestId}] Create instructor application error:`, error);
+      res.status(500).json({
+        ok: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to submit instructor application',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  },
+
+  // GET /instructor-applications/me - Current user's applications
+  mine: async (req: Request, res: Response) => {
+    try {
+      const applications = await InstructorApplicationsService.getUserApplications(req.user!.id);
+
+      res.json({
+        ok: true,
+        data: applications,
+        version: config.version
+      });
+    } catch (error) {
+      console.error(`[${req.requestId}] List own instructor applications error:`, error);
+      res.status(500).json({
+        ok: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to list instructor applications',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  },
+
+  // GET /instructor-applications?status=&page=&limit= - List applications (instructor_application.list)
+  index: async (req: Request, res: Response) => {
+    try {
+      const { page, limit, status } = InstructorApplicationValidator.validateListQuery(req.query);
+
+      const result = await InstructorApplicationsService.listApplications({ page, limit, status });
+
+      res.json({
+        ok: true,
+        data: result.applications,
+        pagination: result.pagination,
+        version: config.version
+      });
+    } catch (error) {
+      console.error(`[${req.requestId}] List instructor applications error:`, error);
+      res.status(500).json({
+        ok: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to list instructor applications',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  },
+
+  // GET /instructor-applications/:id - Application details (instructor_application.view; applicant always)
+  show: async (req: Request, res: Response) => {
+    try {
+      const id = parseApplicationId(req, res);
+      if (id === null) return;
+
+      const application = await InstructorApplicationsService.getApplicationById(id);
+
+      if (!application || !(await can(req.user, 'instructor_application.view', { ownerId: application.user_id }))) {
+        return res.status(404).json({
+          ok: false,
+          error: {
+            code: 'APPLICATION_NOT_FOUND',
+            message: 'Instructor application not found',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      res.json({
+        ok: true,
+        data: application,
+        version: config.version
+      });
+    } catch (error) {
+      console.error(`[${req.requestId}] Get instructor application error:`, error);
+      res.status(500).json({
+        ok: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to get instructor application',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  },
+
+  // POST /instructor-applications/:id/approve - Approve and promote to instructor (instructor_application.review)
+  approve: async (req: Request, res: Response) => {
+    try {
+      const id = parseApplicationId(req, res);
+      if (id === null) return;
+
+      const validation = InstructorApplicationValidator.validateDecision(req.body, false);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          ok: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid decision data',
+            details: validation.errors,
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const application = await InstructorApplicationsService.approveApplication(
+        id,
+        req.user!.id,
+        req.body?.reason?.trim() || undefined
+      );
+
+      res.json({
+        ok: true,
+        message: 'Application approved. The user is now an instructor',
+        data: application,
+        version: config.version
+      });
+    } catch (error) {
+      sendDecisionError(req, res, error, 'Approve');
+    }
+  },
+
+  // POST /instructor-applications/:id/reject - Reject with a reason (instructor_application.review)
+  reject: async (req: Request, res: Response) => {
+    try {
+      const id = parseApplicationId(req, res);
+      if (id === null) return;
+
+      const validation = InstructorApplicationValidator.validateDecision(req.body, true);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          ok: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'A reason is required to reject an application',
+            details: validation.errors,
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const application = await InstructorApplicationsService.rejectApplication(
+        id,
+        req.user!.id,
+        req.body.reason.trim()
+      );
+
+      res.json({
+        ok: true,
+        message: 'Application rejected',
+        data: application,
+        version: config.version
+      });
+    } catch (error) {
+      sendDecisionError(req, res, error, 'Reject');
+    }
+  }
+};
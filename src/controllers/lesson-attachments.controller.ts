@@ -0,0 +1,228 @@
+import express, { Request, Response, NextFunction } from 'express';
+import { LessonAttachmentsService, LessonAttachment, QuotaExceededError } from '../services/lesson-attachments.service';
+import { lessonsService } from '../services/lessons.service';
+import { AttachmentValidator } from '../utils/validation';
+import { checkFileType, normalizeContentType } from '../modules/storage/file-types';
+import { signDownloadUrl, verifyDownloadSignature } from '../modules/storage/signed-urls';
+import { config } from '../config';
+import { sendError, authorizeCourse, parseId } from '../middleware/errorHandler.middleware';
+
+/**
+ * Apply the lesson's viewing rules (visibility, release locks) to the caller
+ * @returns false after an error response was sent
+ */
+async function authorizeView(req: Request, res: Response, lessonId: number): Promise<boolean> {
+  try {
+    await lessonsService.getLessonById(lessonId, req.user?.id, req.user?.role);
+    return true;
+  } catch (error: any) {
+    if (error.status === 404) {
+      sendError(req, res, 404, 'LESSON_NOT_FOUND', 'Lesson not found');
+    } else if (error.code === 'LESSON_LOCKED') {
+      sendError(req, res, 403, 'LESSON_LOCKED', error.message, error.reasons);
+    } else if (error.status === 403) {
+      sendError(req, res, 403, 'FORBIDDEN', error.message);
+    } else {
+      throw error;
+    }
+    return false;
+  }
+}
+
+function withDownloadUrl(attachment: LessonAttachment) {
+  const signed = signDownloadUrl(attachment.id);
+  return { ...attachment, download_url: signed.url, download_url_expires_at: signed.expiresAt };
+}
+
+const rawBody = express.raw({ type: () => true, limit: config.storageMaxUploadBytes });
+
+export const lessonAttachmentsController = {
+  // Reads an upload body as raw bytes, answering 413 when it exceeds STORAGE_MAX_UPLOAD_MB
+  readUpload: (req: Request, res: Response, next: NextFunction) => {
+    rawBody(req, res, (error?: any) => {
+      if (error?.type === 'entity.too.large') {
+        return sendError(req, res, 413, 'FILE_TOO_LARGE', `Files may be at most ${config.storageMaxUploadBytes} bytes`);
+      }
+      next(error);
+    });
+  },
+
+  // GET /lessons/:id/attachments - List attachments with signed download URLs (lesson viewers)
+  index: async (req: Request, res: Response) => {
+    try {
+      const lessonId = parseId(req, res, 'id', 'Lesson');
+      if (lessonId === null) return;
+      if (!(await authorizeView(req, res, lessonId))) return;
+
+      const attachments = await LessonAttachmentsService.listAttachments(lessonId);
+
+      res.json({
+        ok: true,
+        data: attachments.map(withDownloadUrl),
+        version: config.version
+      });
+    } catch (error) {
+      console.error(`[${req.requestId}] List attachments error:`, error);
+      sendError(req, res, 500, 'INTERNAL_ERROR', 'Failed to list attachments');
+    }
+  },
+
+  // POST /lessons/:id/attachments?filename=slides.pdf - Upload the request body as a file (lesson.edit)
+  create: async (req: Request, res: Response) => {
+    try {
+      const lessonId = parseId(req, res, 'id', 'Lesson');
+      if (lessonId === null) return;
+
+      const courseId = await LessonAttachmentsService.getLessonCourseId(lessonId);
+      if (courseId === null) {
+        return sendError(req, res, 404, 'LESSON_NOT_FOUND', 'Lesson not found');
+      }
+      if (!(await authorizeCourse(req, res, courseId, 'lesson.edit'))) return;
+
+      const filename = AttachmentValidator.normalizeFilename(req.query.filename);
+      const validation = AttachmentValidator.validateUpload(filename, req.body);
+      if (!validation.isValid) {
+        return sendError(req, res, 400, 'VALIDATION_ERROR', 'Invalid upload', validation.errors);
+      }
+
+      const contentType = normalizeContentType(req.headers['content-type']);
+      const typeError = checkFileType(contentType, req.body);
+      if (typeError) {
+        return sendError(req, res, 415, 'UNSUPPORTED_FILE_TYPE', typeError);
+      }
+
+      const { attachment, created, deduplicated } = await LessonAttachmentsService.uploadAttachment(
+        lessonId,
+        { filename, contentType, data: req.body },
+        req.user!.id
+      );
+
+      res.status(created ? 201 : 200).json({
+        ok: true,
+        message: created ? 'File uploaded' : 'The lesson already has this file',
+        data: { ...withDownloadUrl(attachment), deduplicated },
+        version: config.version
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'NOT_FOUND') {
+        return sendError(req, res, 404, 'LESSON_NOT_FOUND', 'Lesson not found');
+      }
+      if (error instanceof QuotaExceededError) {
+        return sendError(req, res, 413, 'QUOTA_EXCEEDED', 'The course storage quota would be exceeded', {
+          usedBytes: error.usedBytes,
+          quotaBytes: error.quotaBytes
+        });
+      }
+      console.error(`[${req.requestId}] Upload attachment error:`, error);
+      sendError(req, res, 500, 'INTERNAL_ERROR', 'Failed to upload attachment');
+    }
+  },
+
+  // GET /attachments/:id/download?expires=&signature= - Download with a signed URL (no session needed)
+  download: async (req: Request, res: Response) => {
+    try {
+      const attachmentId = parseId(req, res, 'id', 'Attachment');
+      if (attachmentId === null) return;
+
+      if (!verifyDownloadSignature(attachmentId, req.query.expires, req.query.signature)) {
+        return sendError(req, res, 403, 'INVALID_SIGNATURE', 'Download link is invalid or has expired');
+      }
+
+      const attachment = await LessonAttachmentsService.getAttachment(attachmentId);
+      const data = attachment && await LessonAttachmentsService.readAttachment(attachment);
+      if (!attachment || !data) {
+        return sendError(req, res, 404, 'ATTACHMENT_NOT_FOUND', 'Attachment not found');
+      }
+
+      res.attachment(attachment.filename);
+      res.set({
+        'Content-Type': attachment.content_type,
+        'Content-Length': String(data.length),
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'private, no-store'
+      });
+      res.send(data);
+    } catch (error) {
+      console.error(`[${req.requestId}] Download attachment error:`, error);
+      sendError(req, res, 500, 'INTERNAL_ERROR', 'Failed to download attachment');
+    }
+  },
+
+  // DELETE /attachments/:id - Remove an attachment (lesson.edit)
+  remove: async (req: Request, res: Response) => {
+    try {
+      const attachmentId = parseId(req, res, 'id', 'Attachment');
+      if (attachmentId === null) return;
+
+      const attachment = await LessonAttachmentsService.getAttachment(attachmentId);
+      if (!attachment) {
+        return sendError(req, res, 404, 'ATTACHMENT_NOT_FOUND', 'Attachment not found');
+      }
+      if (!(await authorizeCourse(req, res, attachment.course_id, 'lesson.edit'))) return;
+
+      await LessonAttachmentsService.deleteAttachment(attachmentId);
+
+      res.json({
+        ok: true,
+        message: 'Attachment deleted',
+        version: config.version
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'NOT_FOUND') {
+        return sendError(req, res, 404, 'ATTACHMENT_NOT_FOUND', 'Attachment not found');
+      }
+      console.error(`[${req.requestId}] Delete attachment error:`, error);
+      sendError(req, res, 500, 'INTERNAL_ERROR', 'Failed to delete attachment');
+    }
+  },
+
+  // GET /courses/:courseId/storage - Storage used by the course's attachments and its quota (lesson.edit)
+  usage: async (req: Request, res: Response) => {
+    try {
+      const courseId = parseId(req, res, 'courseId', 'Course');
+      if (courseId === null) return;
+      if (!(await authorizeCourse(req, res, courseId, 'lesson.edit'))) return;
+
+      const usage = await LessonAttachmentsService.getStorageUsage(courseId);
+
+      res.json({
+        ok: true,
+        data: usage,
+        version: config.version
+      });
+    } catch (error) {
+      console.error(`[${req.requestId}] Get storage usage error:`, error);
+      sendError(req, res, 500, 'INTERNAL_ERROR', 'Failed to get storage usage');
+    }
+  },
+
+  // PUT /courses/:courseId/storage - Override the course's quota, null for the default (course.manage_storage)
+  updateQuota: async (req: Request, res: Response) => {
+    try {
+      const courseId = parseId(req, res, 'courseId', 'Course');
+      if (courseId === null) return;
+      if (!(await authorizeCourse(req, res, courseId, 'course.manage_storage'))) return;
+
+      const validation = AttachmentValidator.validateQuota(req.body);
+      if (!validation.isValid) {
+        return sendError(req, res, 400, 'VALIDATION_ERROR', 'Invalid storage quota', validation.errors);
+      }
+
+      await LessonAttachmentsService.setStorageQuota(courseId, req.body.quotaBytes);
+      const usage = await LessonAttachmentsService.getStorageUsage(courseId);
+
+      res.json({
+        ok: true,
+        message: 'Storage quota updated',
+        data: usage,
+        version: config.version
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'COURSE_NOT_FOUND') {
+        return sendError(req, res, 404, 'COURSE_NOT_FOUND', 'Course not found');
+      }
+      console.error(`[${req.requestId}] Update storage quota error:`, error);
+      sendError(req, res, 500, 'INTERNAL_ERROR', 'Failed to update storage quota');
+    }
+  }
+};
@@ -0,0 +1,113 @@
+import { Request, Response } from 'express';
+import { LessonReleaseService, ReleaseMode, LessonPrerequisite } from '../services/lesson-release.service';
+import { LessonReleaseValidator } from '../utils/validation';
+import { config } from '../config';
+import { sendError, authorizeCourse, parseId } from '../middleware/errorHandler.middleware';
+
+/**
+ * Map service errors shared by the release endpoints
+ */
+function sendReleaseError(req: Request, res: Response, error: unknown, action: string) {
+  if (error instanceof Error) {
+    switch (error.message) {
+      case 'COURSE_NOT_FOUND':
+        return sendError(req, res, 404, 'COURSE_NOT_FOUND', 'Course not found');
+      case 'NOT_FOUND':
+        return sendError(req, res, 404, 'LESSON_NOT_FOUND', 'Lesson not found');
+      case 'INVALID_PREREQUISITE':
+        return sendError(req, res, 422, 'INVALID_PREREQUISITE', 'Prerequisites must be other lessons or quizzes of the same course');
+    }
+  }
+
+  console.error(`[${req.requestId}] ${action} release rules error:`, error);
+  return sendError(req, res, 500, 'INTERNAL_ERROR', `Failed to ${action.toLowerCase()} release rules`);
+}
+
+export const lessonReleaseController = {
+  // GET /courses/:courseId/release - Release mode and per-lesson rules (lesson.edit)
+  show: async (req: Request, res: Response) => {
+    try {
+      const courseId = parseId(req, res, 'courseId', 'Course');
+      if (courseId === null) return;
+      if (!(await authorizeCourse(req, res, courseId, 'lesson.edit'))) return;
+
+      const settings = await LessonReleaseService.getCourseSettings(courseId);
+
+      res.json({
+        ok: true,
+        data: settings,
+        version: config.version
+      });
+    } catch (error) {
+      sendReleaseError(req, res, error, 'Get');
+    }
+  },
+
+  // PUT /courses/:courseId/release - Set the course's release mode (course.edit)
+  updateMode: async (req: Request, res: Response) => {
+    try {
+      const courseId = parseId(req, res, 'courseId', 'Course');
+      if (courseId === null) return;
+      if (!(await authorizeCourse(req, res, courseId, 'course.edit'))) return;
+
+      const validation = LessonReleaseValidator.validateReleaseMode(req.body);
+      if (!validation.isValid) {
+        return sendError(req, res, 400, 'VALIDATION_ERROR', 'Invalid release mode', validation.errors);
+      }
+
+      await LessonReleaseService.setReleaseMode(courseId, req.body.mode as ReleaseMode);
+      const settings = await LessonReleaseService.getCourseSettings(courseId);
+
+      res.json({
+        ok: true,
+        message: 'Release mode updated',
+        data: settings,
+        version: config.version
+      });
+    } catch (error) {
+      sendReleaseError(req, res, error, 'Update');
+    }
+  },
+
+  // PUT /lessons/:id/release - Replace a lesson's drip schedule and prerequisites (lesson.edit)
+  updateLesson: async (req: Request, res: Response) => {
+    try {
+      const lessonId = parseId(req, res, 'id', 'Lesson');
+      if (lessonId === null) return;
+
+      const courseId = await LessonReleaseService.getLessonCourseId(lessonId);
+      if (courseId === null) {
+        return sendError(req, res, 404, 'LESSON_NOT_FOUND', 'Lesson not found');
+      }
+      if (!(await authorizeCourse(req, res, courseId, 'lesson.edit'))) return;
+
+      const validation = LessonReleaseValidator.validateLessonRules(req.body);
+      if (!validation.isValid) {
+        return sendError(req, res, 400, 'VALIDATION_ERROR', 'Invalid release rules', validation.errors);
+      }
+
+      const prerequisites: LessonPrerequisite[] = (req.body.prerequisites || []).map((prerequisite: any) =>
+        prerequisite.lessonId
+          ? { lessonId: prerequisite.lessonId }
+          : { quizId: prerequisite.quizId, minScore: prerequisite.minScore ?? null }
+      );
+
+      await LessonReleaseService.setLessonRules(lessonId, {
+        unlockAfterDays: req.body.unlockAfterDays ?? null,
+        unlockAt: req.body.unlockAt ? new Date(req.body.unlockAt) : null,
+        prerequisites
+      });
+
+      const settings = await LessonReleaseService.getCourseSettings(courseId);
+
+      res.json({
+        ok: true,
+        message: 'Release rules updated',
+        data: settings!.lessons.find(rules => rules.lessonId === lessonId),
+        version: config.version
+      });
+    } catch (error) {
+      sendReleaseError(req, res, error, 'Update');
+    }
+  }
+};
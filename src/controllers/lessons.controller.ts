@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { lessonsService } from '../services/lessons.service';
+import { lessonRevisionsService } from '../services/lesson-revisions.service';
 import { LessonValidator } from '../utils/validation';
 
 // v1.9 - Controlador de lecciones actualizado con manejo de errores mejorado,
@@ -51,23 +52,14 @@ export const lessonsController = {
         });
       }
       
-      // Check role permissions
-      if (req.user.role !== 'instructor' && req.user.role !== 'admin') {
-        return res.status(403).json({
-          ok: false,
-          error: 'Only instructors and admins can create lessons',
-          role: req.user.role,
-          version: 'v1.9'
-        });
-      }
-      
       // Create lesson
       const lessonData = {
         course_id: courseId,
         title: req.body.title,
         video_url: req.body.video_url,
         content_md: req.body.content_md,
-        position: req.body.position
+        position: req.body.position,
+        module_id: req.body.module_id
       };
       
       const lesson = await lessonsService.createLesson(
@@ -165,6 +157,7 @@ export const lessonsController = {
         return res.status(error.status).json({
           ok: false,
           error: error.message,
+          ...(error.reasons ? { code: error.code, reasons: error.reasons } : {}),
           version: 'v1.9'
         });
       }
@@ -174,7 +167,7 @@ export const lessonsController = {
   
   /**
    * PUT /api/lessons/:id
-   * Update a lesson
+   * Save an edit as the lesson's draft (published separately)
    */
   update: async (req: AuthRequest, res: Response, next: NextFunction) => {
     try {
@@ -208,16 +201,6 @@ export const lessonsController = {
         });
       }
       
-      // Check role permissions
-      if (req.user.role !== 'instructor' && req.user.role !== 'admin') {
-        return res.status(403).json({
-          ok: false,
-          error: 'Only instructors and admins can update lessons',
-          role: req.user.role,
-          version: 'v1.9'
-        });
-      }
-      
       const updateData = {
         title: req.body.title,
         video_url: req.body.video_url,
@@ -251,6 +234,8 @@ export const lessonsController = {
   /**
    * PATCH /api/courses/:courseId/lessons/reorder
    * Atomically reorder lessons for a course
+   * Body: { lessonIds } to reorder within modules, or
+   * { modules: [{ id, lessonIds }] } to reorder modules and move lessons between them
    */
   reorder: async (req: AuthRequest, res: Response, next: NextFunction) => {
     try {
@@ -284,27 +269,62 @@ export const lessonsController = {
         });
       }
       
-      // Check role permissions
-      if (req.user.role !== 'instructor' && req.user.role !== 'admin') {
-        return res.status(403).json({
+      const lessons = req.body.modules !== undefined
+        ? await lessonsService.reorderCourseLayout(courseId, req.body.modules, req.user.id, req.user.role)
+        : await lessonsService.reorderLessons(courseId, req.body.lessonIds, req.user.id, req.user.role);
+      
+      res.json({
+        ok: true,
+        lessons,
+        count: lessons.length,
+        version: 'v1.9'
+      });
+    } catch (error: any) {
+      if (error.status) {
+        return res.status(error.status).json({
           ok: false,
-          error: 'Only instructors and admins can reorder lessons',
-          role: req.user.role,
+          error: error.message,
           version: 'v1.9'
         });
       }
+      next(error);
+    }
+  },
+  
+  /**
+   * DELETE /api/lessons/:id
+   * Delete a lesson and re-compact positions
+   */
+  remove: async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const lessonId = parseInt(req.params.id);
       
-      const lessons = await lessonsService.reorderLessons(
-        courseId,
-        req.body.lessonIds,
+      if (isNaN(lessonId)) {
+        return res.status(400).json({
+          ok: false,
+          error: 'Invalid lesson ID',
+          version: 'v1.9'
+        });
+      }
+      
+      // Check authentication
+      if (!req.user) {
+        return res.status(401).json({
+          ok: false,
+          error: 'Authentication required',
+          version: 'v1.9'
+        });
+      }
+      
+      await lessonsService.deleteLesson(
+        lessonId,
         req.user.id,
         req.user.role
       );
       
       res.json({
         ok: true,
-        lessons,
-        count: lessons.length,
+        message: 'Lesson deleted successfully',
         version: 'v1.9'
       });
     } catch (error: any) {
@@ -320,10 +340,10 @@ export const lessonsController = {
   },
   
   /**
-   * DELETE /api/lessons/:id
-   * Delete a lesson and re-compact positions
+   * GET /api/lessons/:id/revisions
+   * List a lesson's revisions, newest first
    */
-  remove: async (req: AuthRequest, res: Response, next: NextFunction) => {
+  listRevisions: async (req: AuthRequest, res: Response, next: NextFunction) => {
     try {
       const lessonId = parseInt(req.params.id);
       
@@ -344,25 +364,219 @@ export const lessonsController = {
         });
       }
       
-      // Check role permissions
-      if (req.user.role !== 'instructor' && req.user.role !== 'admin') {
-        return res.status(403).json({
+      const revisions = await lessonRevisionsService.listRevisions(lessonId, req.user);
+      
+      res.json({
+        ok: true,
+        revisions,
+        count: revisions.length,
+        version: 'v1.9'
+      });
+    } catch (error: any) {
+      if (error.status) {
+        return res.status(error.status).json({
+          ok: false,
+          error: error.message,
+          version: 'v1.9'
+        });
+      }
+      next(error);
+    }
+  },
+  
+  /**
+   * GET /api/lessons/:id/revisions/diff?from=&to=
+   * Diff the content of two revisions
+   */
+  diffRevisions: async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const lessonId = parseInt(req.params.id);
+      
+      if (isNaN(lessonId)) {
+        return res.status(400).json({
           ok: false,
-          error: 'Only instructors and admins can delete lessons',
-          role: req.user.role,
+          error: 'Invalid lesson ID',
           version: 'v1.9'
         });
       }
       
-      await lessonsService.deleteLesson(
-        lessonId,
-        req.user.id,
-        req.user.role
-      );
+      const from = parseInt(req.query.from as string);
+      const to = parseInt(req.query.to as string);
+      
+      if (isNaN(from) || isNaN(to) || from <= 0 || to <= 0) {
+        return res.status(400).json({
+          ok: false,
+          error: 'Query parameters from and to must be revision numbers',
+          version: 'v1.9'
+        });
+      }
+      
+      // Check authentication
+      if (!req.user) {
+        return res.status(401).json({
+          ok: false,
+          error: 'Authentication required',
+          version: 'v1.9'
+        });
+      }
+      
+      const diff = await lessonRevisionsService.diffRevisions(lessonId, from, to, req.user);
       
       res.json({
         ok: true,
-        message: 'Lesson deleted successfully',
+        diff,
+        version: 'v1.9'
+      });
+    } catch (error: any) {
+      if (error.status) {
+        return res.status(error.status).json({
+          ok: false,
+          error: error.message,
+          version: 'v1.9'
+        });
+      }
+      next(error);
+    }
+  },
+  
+  /**
+   * GET /api/lessons/:id/revisions/:revision
+   * Get one revision with its content
+   */
+  showRevision: async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const lessonId = parseInt(req.params.id);
+      
+      if (isNaN(lessonId)) {
+        return res.status(400).json({
+          ok: false,
+          error: 'Invalid lesson ID',
+          version: 'v1.9'
+        });
+      }
+      
+      const revisionNumber = parseInt(req.params.revision);
+      
+      if (isNaN(revisionNumber) || revisionNumber <= 0) {
+        return res.status(400).json({
+          ok: false,
+          error: 'Invalid revision number',
+          version: 'v1.9'
+        });
+      }
+      
+      // Check authentication
+      if (!req.user) {
+        return res.status(401).json({
+          ok: false,
+          error: 'Authentication required',
+          version: 'v1.9'
+        });
+      }
+      
+      const revision = await lessonRevisionsService.getRevision(lessonId, revisionNumber, req.user);
+      
+      res.json({
+        ok: true,
+        revision,
+        version: 'v1.9'
+      });
+    } catch (error: any) {
+      if (error.status) {
+        return res.status(error.status).json({
+          ok: false,
+          error: error.message,
+          version: 'v1.9'
+        });
+      }
+      next(error);
+    }
+  },
+  
+  /**
+   * POST /api/lessons/:id/revisions/:revision/restore
+   * Copy an old revision into a new draft
+   */
+  restoreRevision: async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const lessonId = parseInt(req.params.id);
+      
+      if (isNaN(lessonId)) {
+        return res.status(400).json({
+          ok: false,
+          error: 'Invalid lesson ID',
+          version: 'v1.9'
+        });
+      }
+      
+      const revisionNumber = parseInt(req.params.revision);
+      
+      if (isNaN(revisionNumber) || revisionNumber <= 0) {
+        return res.status(400).json({
+          ok: false,
+          error: 'Invalid revision number',
+          version: 'v1.9'
+        });
+      }
+      
+      // Check authentication
+      if (!req.user) {
+        return res.status(401).json({
+          ok: false,
+          error: 'Authentication required',
+          version: 'v1.9'
+        });
+      }
+      
+      const draft = await lessonRevisionsService.restoreRevision(lessonId, revisionNumber, req.user);
+      
+      res.status(201).json({
+        ok: true,
+        draft,
+        version: 'v1.9'
+      });
+    } catch (error: any) {
+      if (error.status) {
+        return res.status(error.status).json({
+          ok: false,
+          error: error.message,
+          version: 'v1.9'
+        });
+      }
+      next(error);
+    }
+  },
+  
+  /**
+   * POST /api/lessons/:id/publish
+   * Publish the lesson's draft
+   */
+  publish: async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const lessonId = parseInt(req.params.id);
+      
+      if (isNaN(lessonId)) {
+        return res.status(400).json({
+          ok: false,
+          error: 'Invalid lesson ID',
+          version: 'v1.9'
+        });
+      }
+      
+      // Check authentication
+      if (!req.user) {
+        return res.status(401).json({
+          ok: false,
+          error: 'Authentication required',
+          version: 'v1.9'
+        });
+      }
+      
+      const revision = await lessonRevisionsService.publishDraft(lessonId, req.user);
+      
+      res.json({
+        ok: true,
+        revision,
         version: 'v1.9'
       });
     } catch (error: any) {
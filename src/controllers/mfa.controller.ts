@@ -0,0 +1,441 @@
+import { Request, Response } from 'express';
+import { db } from '../db';
+import { MfaService } from '../services/mfa.service';
+import { AuthService } from '../services/auth.service';
+import { TokenService } from '../services/token.service';
+import { SessionsService } from '../services/sessions.service';
+import { LoginThrottleService } from '../services/login-throttle.service';
+import { UsersService } from '../services/users.service';
+import { config } from '../config';
+
+interface EnrollingUser {
+  id: number;
+  email: string;
+  name: string;
+  role: string;
+  created_at: Date;
+  email_verified_at: Date | null;
+}
+
+/**
+ * Setup and activation work for a logged-in user (Bearer token) and for a user
+ * whose login was blocked by a role policy (mfa_enroll challenge token in the body)
+ */
+async function resolveEnrollingUser(req: Request): Promise<{ user: EnrollingUser; viaChallenge: boolean } | null> {
+  let userId: number | null = null;
+  let viaChallenge = false;
+
+  if (req.user) {
+    userId = req.user.id;
+  } else if (typeof req.body?.challengeToken === 'string') {
+    userId = TokenService.verifyChallengeToken(req.body.challengeToken, 'mfa_enroll');
+    viaChallenge = true;
+  }
+
+  if (!userId) {
+    return null;
+  }
+
+  const result = await db.query(
+    'SELECT id, email, name, role, created_at, email_verified_at FROM users WHERE id = $1',
+    [userId]
+  );
+
+  return result.rows[0] ? { user: result.rows[0], viaChallenge } : null;
+}
+
+function sendUnauthorized(req: Request, res: Response) {
+  return res.status(401).json({
+    ok: false,
+    error: {
+      code: 'UNAUTHORIZED',
+      message: 'Authentication required (Bearer token or enrollment challengeToken)',
+      requestId: req.requestId,
+      timestamp: new Date().toISOString()
+    }
+  });
+}
+
+function sendInvalidCode(req: Request, res: Response) {
+  return res.status(400).json({
+    ok: false,
+    error: {
+      code: 'INVALID_MFA_CODE',
+      message: 'Invalid authentication code',
+      requestId: req.requestId,
+      timestamp: new Date().toISOString()
+    }
+  });
+}
+
+export const mfaController = {
+  // GET /auth/mfa - Current user's 2FA status
+  status: async (req: Request, res: Response) => {
+    try {
+      const status = await MfaService.getStatus(req.user!.id, req.user!.role);
+
+      res.json({
+        ok: true,
+        data: status,
+        version: config.version
+      });
+    } catch (error) {
+      console.error(`[${req.requestId}] MFA status error:`, error);
+      res.status(500).json({
+        ok: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to get two-factor authentication status',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  },
+
+  // POST /auth/mfa/setup - Generate a new secret and provisioning URI
+  setup: async (req: Request, res: Response) => {
+    try {
+      const resolved = await resolveEnrollingUser(req);
+      if (!resolved) {
+        return sendUnauthorized(req, res);
+      }
+
+      const enrollment = await MfaService.beginEnrollment(resolved.user);
+
+      res.json({
+        ok: true,
+        message: 'Scan the provisioning URI with your authenticator app, then confirm with a code',
+        data: enrollment,
+        version: config.version
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'ALREADY_ENABLED') {
+        return res.status(409).json({
+          ok: false,
+          error: {
+            code: 'MFA_ALREADY_ENABLED',
+            message: 'Two-factor authentication is already enabled',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      console.error(`[${req.requestId}] MFA setup error:`, error);
+      res.status(500).json({
+        ok: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to start two-factor authentication setup',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  },
+
+  // POST /auth/mfa/activate - Confirm setup with a first code; returns recovery codes
+  activate: async (req: Request, res: Response) => {
+    try {
+      if (typeof req.body?.code !== 'string') {
+        return res.status(400).json({
+          ok: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Code is required',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const resolved = await resolveEnrollingUser(req);
+      if (!resolved) {
+        return sendUnauthorized(req, res);
+      }
+
+      const { user, viaChallenge } = resolved;
+      const recoveryCodes = await MfaService.activate(user.id, req.body.code);
+
+      // Enrollment forced at login completes that login
+      if (viaChallenge) {
+        await LoginThrottleService.recordSuccess(user.email);
+
+        const session = await SessionsService.createSession(
+          { id: user.id, email: user.email, role: user.role },
+          { userAgent: req.get('user-agent'), ipAddress: req.ip }
+        );
+
+        return res.json({
+          ok: true,
+          message: 'Two-factor authentication enabled. Store your recovery codes safely',
+          data: { recoveryCodes },
+          token: session.accessToken,
+          refreshToken: session.refreshToken,
+          expiresIn: session.expiresIn,
+          user: AuthService.createUserProfile(user),
+          version: config.version
+        });
+      }
+
+      res.json({
+        ok: true,
+        message: 'Two-factor authentication enabled. Store your recovery codes safely',
+        data: { recoveryCodes },
+        version: config.version
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message === 'INVALID_CODE') {
+          return sendInvalidCode(req, res);
+        }
+
+        if (error.message === 'NOT_STARTED') {
+          return res.status(409).json({
+            ok: false,
+            error: {
+              code: 'MFA_SETUP_NOT_STARTED',
+              message: 'Call POST /api/auth/mfa/setup first',
+              requestId: req.requestId,
+              timestamp: new Date().toISOString()
+            }
+          });
+        }
+
+        if (error.message === 'ALREADY_ENABLED') {
+          return res.status(409).json({
+            ok: false,
+            error: {
+              code: 'MFA_ALREADY_ENABLED',
+              message: 'Two-factor authentication is already enabled',
+              requestId: req.requestId,
+              timestamp: new Date().toISOString()
+            }
+          });
+        }
+      }
+
+      console.error(`[${req.requestId}] MFA activate error:`, error);
+      res.status(500).json({
+        ok: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to enable two-factor authentication',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  },
+
+  // POST /auth/mfa/recovery-codes - Replace recovery codes (requires a current code)
+  regenerateRecoveryCodes: async (req: Request, res: Response) => {
+    try {
+      if (typeof req.body?.code !== 'string') {
+        return res.status(400).json({
+          ok: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Code is required',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const recoveryCodes = await MfaService.regenerateRecoveryCodes(req.user!.id, req.body.code);
+
+      res.json({
+        ok: true,
+        message: 'Recovery codes regenerated. Previous codes no longer work',
+        data: { recoveryCodes },
+        version: config.version
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message === 'INVALID_CODE') {
+          return sendInvalidCode(req, res);
+        }
+
+        if (error.message === 'NOT_ENABLED') {
+          return res.status(409).json({
+            ok: false,
+            error: {
+              code: 'MFA_NOT_ENABLED',
+              message: 'Two-factor authentication is not enabled',
+              requestId: req.requestId,
+              timestamp: new Date().toISOString()
+            }
+          });
+        }
+      }
+
+      console.error(`[${req.requestId}] MFA recovery codes error:`, error);
+      res.status(500).json({
+        ok: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to regenerate recovery codes',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  },
+
+  // POST /auth/mfa/disable - Turn off 2FA (requires a code or recovery code)
+  disable: async (req: Request, res: Response) => {
+    try {
+      const { code, recoveryCode } = req.body || {};
+
+      if (typeof code !== 'string' && typeof recoveryCode !== 'string') {
+        return res.status(400).json({
+          ok: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Either code or recoveryCode is required',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      await MfaService.disable(req.user!.id, req.user!.role, {
+        code: typeof code === 'string' ? code : undefined,
+        recoveryCode: typeof recoveryCode === 'string' ? recoveryCode : undefined
+      });
+
+      // Losing a factor is a credential change: sign out other sessions
+      await SessionsService.revokeAllSessions(
+        req.user!.id,
+        'credentials_changed',
+        req.auth?.type === 'session' ? req.auth.sessionId : undefined
+      );
+
+      res.json({
+        ok: true,
+        message: 'Two-factor authentication disabled',
+        version: config.version
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message === 'INVALID_CODE') {
+          return sendInvalidCode(req, res);
+        }
+
+        if (error.message === 'NOT_ENABLED') {
+          return res.status(409).json({
+            ok: false,
+            error: {
+              code: 'MFA_NOT_ENABLED',
+              message: 'Two-factor authentication is not enabled',
+              requestId: req.requestId,
+              timestamp: new Date().toISOString()
+            }
+          });
+        }
+
+        if (error.message === 'MFA_REQUIRED_BY_POLICY') {
+          return res.status(403).json({
+            ok: false,
+            error: {
+              code: 'MFA_REQUIRED_BY_POLICY',
+              message: `Two-factor authentication is required for the ${req.user!.role} role and cannot be disabled`,
+              requestId: req.requestId,
+              timestamp: new Date().toISOString()
+            }
+          });
+        }
+      }
+
+      console.error(`[${req.requestId}] MFA disable error:`, error);
+      res.status(500).json({
+        ok: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to disable two-factor authentication',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  },
+
+  // GET /auth/mfa/policies - 2FA requirement per role (admin only)
+  listPolicies: async (req: Request, res: Response) => {
+    try {
+      const policies = await MfaService.listPolicies();
+
+      res.json({
+        ok: true,
+        data: policies,
+        version: config.version
+      });
+    } catch (error) {
+      console.error(`[${req.requestId}] List MFA policies error:`, error);
+      res.status(500).json({
+        ok: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to list two-factor authentication policies',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  },
+
+  // PUT /auth/mfa/policies/:role - Require or stop requiring 2FA for a role (admin only)
+  updatePolicy: async (req: Request, res: Response) => {
+    try {
+      const { role } = req.params;
+
+      if (!UsersService.isValidRole(role)) {
+        return res.status(400).json({
+          ok: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Role must be one of: admin, instructor, student',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      if (typeof req.body?.required !== 'boolean') {
+        return res.status(400).json({
+          ok: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'required must be a boolean',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const policy = await MfaService.setPolicy(role, req.body.required, req.user!.id);
+
+      res.json({
+        ok: true,
+        message: policy.required
+          ? `Two-factor authentication is now required for ${role} accounts`
+          : `Two-factor authentication is now optional for ${role} accounts`,
+        data: policy,
+        version: config.version
+      });
+    } catch (error) {
+      console.error(`[${req.requestId}] Update MFA policy error:`, error);
+      res.status(500).json({
+        ok: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to update two-factor authentication policy',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  }
+};
@@ -0,0 +1,199 @@
+import { Request, Response } from 'express';
+import { OidcService } from '../services/oidc.service';
+import { AuthService } from '../services/auth.service';
+import { TokenService } from '../services/token.service';
+import { SessionsService } from '../services/sessions.service';
+import { MfaService } from '../services/mfa.service';
+import { config } from '../config';
+
+function sendNotConfigured(req: Request, res: Response) {
+  return res.status(404).json({
+    ok: false,
+    error: {
+      code: 'SSO_NOT_CONFIGURED',
+      message: 'Single sign-on is not configured',
+      requestId: req.requestId,
+      timestamp: new Date().toISOString()
+    }
+  });
+}
+
+function sendProviderUnavailable(req: Request, res: Response) {
+  return res.status(502).json({
+    ok: false,
+    error: {
+      code: 'SSO_PROVIDER_UNAVAILABLE',
+      message: 'The identity provider could not be reached. Please try again later',
+      requestId: req.requestId,
+      timestamp: new Date().toISOString()
+    }
+  });
+}
+
+export const oidcController = {
+  // GET /auth/oidc/authorize - Start SSO login; the client navigates to authorizationUrl
+  authorize: async (req: Request, res: Response) => {
+    if (!config.oidcEnabled) {
+      return sendNotConfigured(req, res);
+    }
+
+    try {
+      const login = await OidcService.beginLogin();
+
+      res.json({
+        ok: true,
+        data: {
+          provider: config.oidcProviderName,
+          authorizationUrl: login.authorizationUrl,
+          state: login.state,
+          expiresIn: login.expiresIn
+        },
+        version: config.version
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'PROVIDER_UNAVAILABLE') {
+        return sendProviderUnavailable(req, res);
+      }
+
+      console.error(`[${req.requestId}] SSO authorize error:`, error);
+      res.status(500).json({
+        ok: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to start single sign-on',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  },
+
+  // POST /auth/oidc/callback - Exchange the provider's code and state for a session
+  callback: async (req: Request, res: Response) => {
+    if (!config.oidcEnabled) {
+      return sendNotConfigured(req, res);
+    }
+
+    try {
+      const { code, state } = req.body || {};
+
+      if (!code || typeof code !== 'string' || !state || typeof state !== 'string') {
+        return res.status(400).json({
+          ok: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'code and state are required',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const { user, linked, provisioned } = await OidcService.completeLogin(code, state);
+
+      // A local second factor still applies after the provider has authenticated the user
+      if (await MfaService.isEnabled(user.id)) {
+        return res.json({
+          ok: true,
+          message: 'Two-factor authentication required',
+          mfaRequired: true,
+          challengeToken: TokenService.generateChallengeToken(user.id, 'mfa_login'),
+          expiresIn: config.mfaChallengeTtlSeconds,
+          version: config.version
+        });
+      }
+
+      if (await MfaService.isRequiredForRole(user.role)) {
+        return res.json({
+          ok: true,
+          message: 'Two-factor authentication must be set up before logging in',
+          mfaEnrollmentRequired: true,
+          challengeToken: TokenService.generateChallengeToken(user.id, 'mfa_enroll'),
+          expiresIn: config.mfaChallengeTtlSeconds,
+          version: config.version
+        });
+      }
+
+      const session = await SessionsService.createSession(
+        { id: user.id, email: user.email, role: user.role },
+        { userAgent: req.get('user-agent'), ipAddress: req.ip }
+      );
+
+      res.json({
+        ok: true,
+        message: provisioned ? 'Account created via single sign-on' : 'Login successful',
+        token: session.accessToken,
+        refreshToken: session.refreshToken,
+        expiresIn: session.expiresIn,
+        user: AuthService.createUserProfile(user),
+        sso: { provider: config.oidcProviderName, linked, provisioned },
+        version: config.version
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message === 'INVALID_STATE') {
+          return res.status(400).json({
+            ok: false,
+            error: {
+              code: 'INVALID_STATE',
+              message: 'Login request is invalid or expired. Please start again',
+              requestId: req.requestId,
+              timestamp: new Date().toISOString()
+            }
+          });
+        }
+
+        if (error.message === 'TOKEN_EXCHANGE_FAILED' || error.message === 'INVALID_ID_TOKEN') {
+          return res.status(401).json({
+            ok: false,
+            error: {
+              code: 'SSO_LOGIN_FAILED',
+              message: 'The identity provider response could not be verified',
+              requestId: req.requestId,
+              timestamp: new Date().toISOString()
+            }
+          });
+        }
+
+        if (error.message === 'EMAIL_NOT_VERIFIED') {
+          return res.status(403).json({
+            ok: false,
+            error: {
+              code: 'SSO_EMAIL_NOT_VERIFIED',
+              message: 'The identity provider did not return a verified email address',
+              requestId: req.requestId,
+              timestamp: new Date().toISOString()
+            }
+          });
+        }
+
+        if (error.message === 'ACCOUNT_NOT_FOUND') {
+          return res.status(403).json({
+            ok: false,
+            error: {
+              code: 'ACCOUNT_NOT_FOUND',
+              message: 'No account exists for this email. Please contact an administrator',
+              requestId: req.requestId,
+              timestamp: new Date().toISOString()
+            }
+          });
+        }
+
+        if (error.message === 'PROVIDER_UNAVAILABLE') {
+          return sendProviderUnavailable(req, res);
+        }
+      }
+
+      console.error(`[${req.requestId}] SSO callback error:`, error);
+      res.status(500).json({
+        ok: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Single sign-on failed',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  }
+};
@@ -72,6 +72,16 @@ export const progressController = {
         });
       }
 
+      if (error.message === 'Lesson is locked') {
+        return res.status(403).json({
+          ok: false,
+          error: error.message,
+          code: 'LESSON_LOCKED',
+          reasons: error.reasons,
+          version: config.version
+        });
+      }
+
       res.status(500).json({
         ok: false,
         error: 'Failed to mark lesson progress',
@@ -80,6 +90,70 @@ export const progressController = {
     }
   },
 
+  /**
+   * POST /api/progress/heartbeat
+   * Record the position of the authenticated student's video player
+   */
+  heartbeat: async (req: AuthRequest, res: Response) => {
+    try {
+      const validation = ProgressValidator.validateHeartbeat(req.body);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          ok: false,
+          error: 'Validation failed',
+          errors: validation.errors,
+          version: config.version
+        });
+      }
+
+      const { enrollmentId, lessonId, position, duration, playbackRate } = req.body;
+
+      const watch = await progressService.recordHeartbeat(req.user!.id, enrollmentId, lessonId, {
+        position,
+        duration,
+        playbackRate: playbackRate ?? 1
+      });
+
+      res.json({
+        ok: true,
+        data: watch,
+        version: config.version
+      });
+    } catch (error: any) {
+      console.error('Error recording video heartbeat:', error);
+
+      if (error.message.includes('not found')) {
+        return res.status(404).json({
+          ok: false,
+          error: error.message,
+          version: config.version
+        });
+      }
+
+      if (error.message.includes('can only mark progress for your own')) {
+        return res.status(403).json({
+          ok: false,
+          error: error.message,
+          version: config.version
+        });
+      }
+
+      if (error.message === 'Lesson has no video') {
+        return res.status(409).json({
+          ok: false,
+          error: error.message,
+          version: config.version
+        });
+      }
+
+      res.status(500).json({
+        ok: false,
+        error: 'Failed to record heartbeat',
+        version: config.version
+      });
+    }
+  },
+
   /**
    * GET /api/progress/me?courseId=...
    * Get the authenticated user's progress for a specific course
@@ -171,5 +245,57 @@ export const progressController = {
         version: config.version
       });
     }
+  },
+
+  /**
+   * GET /api/courses/:courseId/progress/watch-time
+   * Watch-time and drop-off curves per video lesson (progress.view_course)
+   */
+  getCourseWatchAnalytics: async (req: AuthRequest, res: Response) => {
+    try {
+      const courseId = parseInt(req.params.courseId);
+      if (isNaN(courseId) || courseId <= 0) {
+        return res.status(400).json({
+          ok: false,
+          error: 'Invalid course ID',
+          version: config.version
+        });
+      }
+
+      const lessons = await progressService.getCourseWatchAnalytics(courseId, req.user!.id, req.user!.role);
+
+      res.json({
+        ok: true,
+        data: {
+          completionThresholdPercent: config.videoCompletionThresholdPercent,
+          lessons
+        },
+        version: config.version
+      });
+    } catch (error: any) {
+      console.error('Error getting watch-time analytics:', error);
+
+      if (error.message.includes('not found')) {
+        return res.status(404).json({
+          ok: false,
+          error: error.message,
+          version: config.version
+        });
+      }
+
+      if (error.message.includes('can only view progress for your own')) {
+        return res.status(403).json({
+          ok: false,
+          error: error.message,
+          version: config.version
+        });
+      }
+
+      res.status(500).json({
+        ok: false,
+        error: 'Failed to get watch-time analytics',
+        version: config.version
+      });
+    }
   }
 };
@@ -0,0 +1,247 @@
+import { Request, Response } from 'express';
+import { QuestionBanksService, BankInUseError } from '../services/question-banks.service';
+import { InvalidQuestionError } from '../services/quizzes.service';
+import { QuestionBankValidator, QuizValidator } from '../utils/validation';
+import { QUESTION_DIFFICULTIES, QuestionDifficulty, toDefinition } from '../utils/quiz-grading';
+import { config } from '../config';
+import { sendError, authorizeCourse, parseId } from '../middleware/errorHandler.middleware';
+
+/**
+ * Load a bank and check the caller may manage its course's quizzes; banks
+ * hold answer keys, so reading them takes quiz.manage as well
+ * @returns The bank ID, or null after a response was sent
+ */
+async function authorizeBank(req: Request, res: Response): Promise<number | null> {
+  const bankId = parseId(req, res, 'id', 'Bank');
+  if (bankId === null) return null;
+
+  const bank = await QuestionBanksService.getBankById(bankId);
+  if (!bank) {
+    sendError(req, res, 404, 'BANK_NOT_FOUND', 'Question bank not found');
+    return null;
+  }
+
+  return (await authorizeCourse(req, res, bank.course_id, 'quiz.manage')) ? bankId : null;
+}
+
+/**
+ * Map service errors shared by the bank endpoints
+ */
+function sendBankError(req: Request, res: Response, error: unknown, action: string) {
+  if (error instanceof InvalidQuestionError) {
+    return sendError(req, res, 400, 'VALIDATION_ERROR', 'Invalid question data', error.details);
+  }
+  if (error instanceof BankInUseError) {
+    return sendError(req, res, 409, 'BANK_IN_USE', 'Remove the draws of the quizzes using this bank first', {
+      quizzes: error.quizzes
+    });
+  }
+  if (error instanceof Error && error.message === 'NOT_FOUND') {
+    return sendError(req, res, 404, 'NOT_FOUND', 'Question bank or question not found');
+  }
+
+  console.error(`[${req.requestId}] ${action} question bank error:`, error);
+  return sendError(req, res, 500, 'INTERNAL_ERROR', `Failed to ${action.toLowerCase()} question bank`);
+}
+
+export const questionBanksController = {
+  // GET /courses/:courseId/question-banks - List a course's banks (quiz.manage)
+  index: async (req: Request, res: Response) => {
+    try {
+      const courseId = parseId(req, res, 'courseId', 'Course');
+      if (courseId === null) return;
+      if (!(await authorizeCourse(req, res, courseId, 'quiz.manage'))) return;
+
+      const banks = await QuestionBanksService.listBanks(courseId);
+
+      res.json({
+        ok: true,
+        data: banks,
+        version: config.version
+      });
+    } catch (error) {
+      sendBankError(req, res, error, 'List');
+    }
+  },
+
+  // POST /courses/:courseId/question-banks - Create a bank (quiz.manage)
+  create: async (req: Request, res: Response) => {
+    try {
+      const courseId = parseId(req, res, 'courseId', 'Course');
+      if (courseId === null) return;
+      if (!(await authorizeCourse(req, res, courseId, 'quiz.manage'))) return;
+
+      const validation = QuestionBankValidator.validateBank(req.body);
+      if (!validation.isValid) {
+        return sendError(req, res, 400, 'VALIDATION_ERROR', 'Invalid question bank data', validation.errors);
+      }
+
+      const bank = await QuestionBanksService.createBank(courseId, req.body.title.trim(), req.body.description ?? null);
+
+      res.status(201).json({
+        ok: true,
+        message: 'Question bank created',
+        data: bank,
+        version: config.version
+      });
+    } catch (error) {
+      sendBankError(req, res, error, 'Create');
+    }
+  },
+
+  // GET /question-banks/:id?topic=&difficulty= - A bank with its questions (quiz.manage)
+  show: async (req: Request, res: Response) => {
+    try {
+      const bankId = await authorizeBank(req, res);
+      if (bankId === null) return;
+
+      const { topic, difficulty } = req.query;
+      if (difficulty !== undefined && !QUESTION_DIFFICULTIES.includes(difficulty as QuestionDifficulty)) {
+        return sendError(req, res, 400, 'VALIDATION_ERROR', `difficulty must be one of: ${QUESTION_DIFFICULTIES.join(', ')}`);
+      }
+
+      const [bank, questions] = await Promise.all([
+        QuestionBanksService.getBankById(bankId),
+        QuestionBanksService.listQuestions(bankId, {
+          topic: typeof topic === 'string' && topic.trim() ? topic.trim() : undefined,
+          difficulty: difficulty as QuestionDifficulty | undefined
+        })
+      ]);
+
+      res.json({
+        ok: true,
+        data: { ...bank, questions },
+        version: config.version
+      });
+    } catch (error) {
+      sendBankError(req, res, error, 'Get');
+    }
+  },
+
+  // PUT /question-banks/:id - Rename a bank or change its description (quiz.manage)
+  update: async (req: Request, res: Response) => {
+    try {
+      const bankId = await authorizeBank(req, res);
+      if (bankId === null) return;
+
+      const validation = QuestionBankValidator.validateBank(req.body, true);
+      if (!validation.isValid) {
+        return sendError(req, res, 400, 'VALIDATION_ERROR', 'Invalid question bank data', validation.errors);
+      }
+
+      const bank = await QuestionBanksService.updateBank(bankId, {
+        title: req.body.title?.trim(),
+        description: req.body.description
+      });
+
+      res.json({
+        ok: true,
+        message: 'Question bank updated',
+        data: bank,
+        version: config.version
+      });
+    } catch (error) {
+      sendBankError(req, res, error, 'Update');
+    }
+  },
+
+  // DELETE /question-banks/:id - Delete a bank no quiz draws from (quiz.manage)
+  remove: async (req: Request, res: Response) => {
+    try {
+      const bankId = await authorizeBank(req, res);
+      if (bankId === null) return;
+
+      await QuestionBanksService.deleteBank(bankId);
+
+      res.json({
+        ok: true,
+        message: 'Question bank deleted',
+        version: config.version
+      });
+    } catch (error) {
+      sendBankError(req, res, error, 'Delete');
+    }
+  },
+
+  // POST /question-banks/:id/questions - Add a question (quiz.manage)
+  createQuestion: async (req: Request, res: Response) => {
+    try {
+      const bankId = await authorizeBank(req, res);
+      if (bankId === null) return;
+
+      const errors = [
+        ...QuizValidator.validateCreateQuestion(req.body).errors,
+        ...QuestionBankValidator.validateTags(req.body).errors
+      ];
+      if (errors.length > 0) {
+        return sendError(req, res, 400, 'VALIDATION_ERROR', 'Invalid question data', errors);
+      }
+
+      const question = await QuestionBanksService.createQuestion(bankId, {
+        prompt: req.body.prompt,
+        points: req.body.points,
+        definition: toDefinition(req.body.type ?? 'single_choice', req.body),
+        topic: req.body.topic,
+        difficulty: req.body.difficulty
+      });
+
+      res.status(201).json({
+        ok: true,
+        message: 'Question created',
+        data: question,
+        version: config.version
+      });
+    } catch (error) {
+      sendBankError(req, res, error, 'Create question in');
+    }
+  },
+
+  // PUT /question-banks/:id/questions/:questionId - Update a question (quiz.manage)
+  updateQuestion: async (req: Request, res: Response) => {
+    try {
+      const bankId = await authorizeBank(req, res);
+      if (bankId === null) return;
+      const questionId = parseId(req, res, 'questionId', 'Question');
+      if (questionId === null) return;
+
+      const errors = [
+        ...QuizValidator.validateUpdateQuestion(req.body).errors,
+        ...QuestionBankValidator.validateTags(req.body).errors
+      ];
+      if (errors.length > 0) {
+        return sendError(req, res, 400, 'VALIDATION_ERROR', 'Invalid question data', errors);
+      }
+
+      const question = await QuestionBanksService.updateQuestion(bankId, questionId, req.body);
+
+      res.json({
+        ok: true,
+        message: 'Question updated',
+        data: question,
+        version: config.version
+      });
+    } catch (error) {
+      sendBankError(req, res, error, 'Update question in');
+    }
+  },
+
+  // DELETE /question-banks/:id/questions/:questionId - Delete a question (quiz.manage)
+  removeQuestion: async (req: Request, res: Response) => {
+    try {
+      const bankId = await authorizeBank(req, res);
+      if (bankId === null) return;
+      const questionId = parseId(req, res, 'questionId', 'Question');
+      if (questionId === null) return;
+
+      await QuestionBanksService.deleteQuestion(bankId, questionId);
+
+      res.json({
+        ok: true,
+        message: 'Question deleted',
+        version: config.version
+      });
+    } catch (error) {
+      sendBankError(req, res, error, 'Delete question in');
+    }
+  }
+};
@@ -1,12 +1,70 @@
 import { Request, Response } from 'express';
-import { QuizzesService } from '../services/quizzes.service';
-import { QuizValidator } from '../utils/validation';
+import {
+  QuizzesService,
+  QuizSettings,
+  BankNotFoundError,
+  CooldownActiveError,
+  InvalidAnswersError,
+  InvalidQuestionError,
+  NotEnoughQuestionsError
+} from '../services/quizzes.service';
+import { QuestionBankValidator, QuizValidator } from '../utils/validation';
+import { toDefinition } from '../utils/quiz-grading';
 import { config } from '../config';
 
+function pickSettings(body: any): Partial<QuizSettings> {
+  return {
+    max_attempts: body.max_attempts,
+    time_limit_minutes: body.time_limit_minutes,
+    pass_score: body.pass_score,
+    score_policy: body.score_policy,
+    cooldown_minutes: body.cooldown_minutes,
+    shuffle_questions: body.shuffle_questions,
+    shuffle_choices: body.shuffle_choices
+  };
+}
+
+/**
+ * Respond to the errors of starting an attempt, shared by start and submit
+ * @returns false when the error is not one of them
+ */
+function sendAttemptError(req: Request, res: Response, error: unknown): boolean {
+  if (error instanceof Error && error.message === 'ATTEMPT_LIMIT_REACHED') {
+    res.status(409).json({
+      ok: false,
+      error: {
+        code: 'ATTEMPT_LIMIT_REACHED',
+        message: 'You have used all attempts for this quiz',
+        requestId: req.requestId,
+        timestamp: new Date().toISOString()
+      }
+    });
+    return true;
+  }
+
+  if (error instanceof CooldownActiveError) {
+    const { availableAt } = error;
+    res.set('Retry-After', String(Math.max(1, Math.ceil((availableAt.getTime() - Date.now()) / 1000))));
+    res.status(429).json({
+      ok: false,
+      error: {
+        code: 'COOLDOWN_ACTIVE',
+        message: 'You must wait before starting another attempt',
+        details: { availableAt: availableAt.toISOString() },
+        requestId: req.requestId,
+        timestamp: new Date().toISOString()
+      }
+    });
+    return true;
+  }
+
+  return false;
+}
+
 export const quizzesController = {
   /**
    * POST /api/courses/:courseId/quizzes
-   * Create a quiz for a course (instructor owner|admin)
+   * Create a quiz for a course (quiz.manage)
    */
   createQuiz: async (req: Request, res: Response) => {
     try {
@@ -53,7 +111,8 @@ export const quizzesController = {
       const quiz = await QuizzesService.createQuiz(
         courseId,
         req.body.title,
-        req.user.id
+        req.user,
+        pickSettings(req.body)
       );
 
       res.status(201).json({
@@ -108,7 +167,7 @@ export const quizzesController = {
 
       const quizzes = await QuizzesService.listQuizzesForCourse(
         courseId,
-        req.user?.id
+        req.user
       );
 
       res.json({
@@ -161,7 +220,7 @@ export const quizzesController = {
         });
       }
 
-      const result = await QuizzesService.getQuizById(quizId, req.user?.id);
+      const result = await QuizzesService.getQuizById(quizId, req.user);
 
       res.json({
         ok: true,
@@ -194,9 +253,224 @@ export const quizzesController = {
     }
   },
 
+  /**
+   * PUT /api/quizzes/:id/settings
+   * Change attempt limits, time limit, pass score, score policy and cooldown (quiz.manage)
+   */
+  updateSettings: async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          ok: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const quizId = parseInt(req.params.id);
+      if (isNaN(quizId)) {
+        return res.status(400).json({
+          ok: false,
+          error: {
+            code: 'INVALID_QUIZ_ID',
+            message: 'Quiz ID must be a valid number',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const validation = QuizValidator.validateSettings(req.body);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          ok: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid quiz settings',
+            details: validation.errors,
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const quiz = await QuizzesService.updateSettings(quizId, pickSettings(req.body), req.user);
+
+      res.json({
+        ok: true,
+        data: quiz,
+        version: config.version
+      });
+    } catch (error: any) {
+      if (error.message === 'NOT_FOUND') {
+        return res.status(404).json({
+          ok: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Quiz not found',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      if (error.message === 'FORBIDDEN') {
+        return res.status(403).json({
+          ok: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'You do not have permission to change this quiz',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      console.error('Error updating quiz settings:', error);
+      res.status(500).json({
+        ok: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to update quiz settings',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  },
+
+  /**
+   * PUT /api/quizzes/:id/draws
+   * Replace the random draws from question banks (quiz.manage)
+   */
+  updateDraws: async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          ok: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const quizId = parseInt(req.params.id);
+      if (isNaN(quizId)) {
+        return res.status(400).json({
+          ok: false,
+          error: {
+            code: 'INVALID_QUIZ_ID',
+            message: 'Quiz ID must be a valid number',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const validation = QuestionBankValidator.validateDraws(req.body);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          ok: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid draws',
+            details: validation.errors,
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const draws = await QuizzesService.setDraws(
+        quizId,
+        req.body.draws.map((draw: any) => ({
+          bank_id: draw.bank_id,
+          count: draw.count,
+          topic: draw.topic?.trim() ?? null,
+          difficulty: draw.difficulty ?? null
+        })),
+        req.user
+      );
+
+      res.json({
+        ok: true,
+        data: draws,
+        version: config.version
+      });
+    } catch (error: any) {
+      if (error.message === 'NOT_FOUND') {
+        return res.status(404).json({
+          ok: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Quiz not found',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      if (error.message === 'FORBIDDEN') {
+        return res.status(403).json({
+          ok: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'You do not have permission to change this quiz',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      if (error instanceof BankNotFoundError) {
+        return res.status(400).json({
+          ok: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid draws',
+            details: [{ field: `draws[${error.index}].bank_id`, message: `Question bank ${error.bankId} not found in this course` }],
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      if (error instanceof NotEnoughQuestionsError) {
+        return res.status(409).json({
+          ok: false,
+          error: {
+            code: 'NOT_ENOUGH_QUESTIONS',
+            message: `Draw ${error.index + 1} asks for ${error.requested} questions; the bank has ${error.available} matching`,
+            details: { index: error.index, requested: error.requested, available: error.available },
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      console.error('Error updating quiz draws:', error);
+      res.status(500).json({
+        ok: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to update quiz draws',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  },
+
   /**
    * POST /api/quizzes/:quizId/questions
-   * Create a question (instructor owner|admin)
+   * Create a question (quiz.manage)
    */
   createQuestion: async (req: Request, res: Response) => {
     try {
@@ -242,10 +516,12 @@ export const quizzesController = {
 
       const question = await QuizzesService.createQuestion(
         quizId,
-        req.body.prompt,
-        req.body.choices,
-        req.body.correct_index,
-        req.user.id
+        {
+          prompt: req.body.prompt,
+          points: req.body.points,
+          definition: toDefinition(req.body.type ?? 'single_choice', req.body)
+        },
+        req.user
       );
 
       res.status(201).json({
@@ -293,7 +569,7 @@ export const quizzesController = {
 
   /**
    * PUT /api/quizzes/:quizId/questions/:questionId
-   * Update question (instructor owner|admin)
+   * Update question (quiz.manage)
    */
   updateQuestion: async (req: Request, res: Response) => {
     try {
@@ -343,7 +619,7 @@ export const quizzesController = {
         quizId,
         questionId,
         req.body,
-        req.user.id
+        req.user
       );
 
       res.json({
@@ -364,6 +640,19 @@ export const quizzesController = {
         });
       }
 
+      if (error instanceof InvalidQuestionError) {
+        return res.status(400).json({
+          ok: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid question data',
+            details: error.details,
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
       if (error.message === 'FORBIDDEN') {
         return res.status(403).json({
           ok: false,
@@ -391,7 +680,7 @@ export const quizzesController = {
 
   /**
    * DELETE /api/quizzes/:quizId/questions/:questionId
-   * Delete question (instructor owner|admin)
+   * Delete question (quiz.manage)
    */
   deleteQuestion: async (req: Request, res: Response) => {
     try {
@@ -422,7 +711,7 @@ export const quizzesController = {
         });
       }
 
-      await QuizzesService.deleteQuestion(quizId, questionId, req.user.id);
+      await QuizzesService.deleteQuestion(quizId, questionId, req.user);
 
       res.json({
         ok: true,
@@ -468,10 +757,10 @@ export const quizzesController = {
   },
 
   /**
-   * POST /api/quizzes/:id/submit
-   * Submit quiz answers (student)
+   * POST /api/quizzes/:id/attempts
+   * Start an attempt, or resume the one in progress (quiz.submit)
    */
-  submitQuiz: async (req: Request, res: Response) => {
+  startAttempt: async (req: Request, res: Response) => {
     try {
       if (!req.user) {
         return res.status(401).json({
@@ -498,29 +787,102 @@ export const quizzesController = {
         });
       }
 
-      // Get quiz to validate answer count
-      const quizData = await QuizzesService.getQuizById(quizId, req.user.id);
-      const questionCount = quizData.questions.length;
+      const { created, attempts } = await QuizzesService.startAttempt(quizId, req.user);
 
-      // Validate submission
-      const validation = QuizValidator.validateSubmission(req.body, questionCount);
-      if (!validation.isValid) {
+      res.status(created ? 201 : 200).json({
+        ok: true,
+        message: created ? 'Attempt started' : 'Attempt already in progress',
+        data: attempts,
+        version: config.version
+      });
+    } catch (error: any) {
+      if (error.message === 'NOT_FOUND') {
+        return res.status(404).json({
+          ok: false,
+          error: {
+            code: 'NOT_FOUND',
+            message: 'Quiz not found',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      if (error.message === 'FORBIDDEN') {
+        return res.status(403).json({
+          ok: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'Course is not published',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      if (error.message === 'NOT_ENROLLED') {
+        return res.status(403).json({
+          ok: false,
+          error: {
+            code: 'NOT_ENROLLED',
+            message: 'You must be enrolled in the course to take this quiz',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      if (sendAttemptError(req, res, error)) return;
+
+      console.error('Error starting quiz attempt:', error);
+      res.status(500).json({
+        ok: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to start attempt',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  },
+
+  /**
+   * POST /api/quizzes/:id/submit
+   * Submit quiz answers (student)
+   */
+  submitQuiz: async (req: Request, res: Response) => {
+    try {
+      if (!req.user) {
+        return res.status(401).json({
+          ok: false,
+          error: {
+            code: 'UNAUTHORIZED',
+            message: 'Authentication required',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const quizId = parseInt(req.params.id);
+      if (isNaN(quizId)) {
         return res.status(400).json({
           ok: false,
           error: {
-            code: 'VALIDATION_ERROR',
-            message: 'Invalid submission data',
-            details: validation.errors,
+            code: 'INVALID_QUIZ_ID',
+            message: 'Quiz ID must be a valid number',
             requestId: req.requestId,
             timestamp: new Date().toISOString()
           }
         });
       }
 
+      // Answers are validated by the service against the attempt's questions
       const result = await QuizzesService.submitQuiz(
         quizId,
         req.body.answers,
-        req.user.id
+        req.user
       );
 
       res.json({
@@ -565,12 +927,39 @@ export const quizzesController = {
         });
       }
 
-      if (error.message === 'INVALID_ANSWERS_LENGTH') {
+      if (error.message === 'ATTEMPT_NOT_STARTED') {
+        return res.status(409).json({
+          ok: false,
+          error: {
+            code: 'ATTEMPT_NOT_STARTED',
+            message: 'This quiz is timed, shuffled or drawn from question banks; start an attempt before submitting',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      if (error.message === 'ATTEMPT_EXPIRED') {
+        return res.status(409).json({
+          ok: false,
+          error: {
+            code: 'ATTEMPT_EXPIRED',
+            message: 'The time limit of this attempt has passed',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      if (sendAttemptError(req, res, error)) return;
+
+      if (error instanceof InvalidAnswersError) {
         return res.status(400).json({
           ok: false,
           error: {
-            code: 'INVALID_SUBMISSION',
-            message: 'Number of answers does not match number of questions',
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid submission data',
+            details: error.details,
             requestId: req.requestId,
             timestamp: new Date().toISOString()
           }
@@ -656,7 +1045,7 @@ export const quizzesController = {
 
   /**
    * GET /api/quizzes/:id/submissions
-   * List all submissions (instructor owner|admin)
+   * List all submissions (quiz.view_submissions)
    */
   listSubmissions: async (req: Request, res: Response) => {
     try {
@@ -685,7 +1074,7 @@ export const quizzesController = {
         });
       }
 
-      const submissions = await QuizzesService.listSubmissions(quizId, req.user.id);
+      const submissions = await QuizzesService.listSubmissions(quizId, req.user);
 
       res.json({
         ok: true,
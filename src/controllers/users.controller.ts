@@ -1,61 +1,540 @@
 import { Request, Response } from 'express';
+import { UsersService, UpdateUserData } from '../services/users.service';
+import { AuthService } from '../services/auth.service';
+import { SessionsService } from '../services/sessions.service';
+import { LoginThrottleService } from '../services/login-throttle.service';
+import { MfaService } from '../services/mfa.service';
+import { UserValidator } from '../utils/validation';
+import { config } from '../config';
+import { can } from '../modules/permissions/policy';
 
 export const usersController = {
-  // GET /users
+  // GET /users - List users with pagination, search (?q=) and role filter (?role=) (user.list)
   index: async (req: Request, res: Response) => {
-    res.json({
-      ok: true,
-      route: 'users',
-      action: 'index',
-      // Identificador de versión de API - Actualizado a v1.9 con mejoras de funcionalidad
-      version: 'v1.9'
-    });
+    try {
+      const { page, limit, search, role } = UserValidator.validateListQuery(req.query);
+
+      const result = await UsersService.listUsers({ page, limit, search, role });
+
+      res.json({
+        ok: true,
+        data: result.users.map(user => AuthService.createUserProfile(user)),
+        pagination: result.pagination,
+        version: config.version
+      });
+    } catch (error) {
+      console.error(`[${req.requestId}] List users error:`, error);
+      res.status(500).json({
+        ok: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to list users',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
   },
 
-  // POST /users
+  // POST /users - Create user with any role (user.create)
   create: async (req: Request, res: Response) => {
-    res.json({
-      ok: true,
-      route: 'users',
-      action: 'create',
-      // Identificador de versión de API - Actualizado a v1.9 con mejoras de funcionalidad
-      version: 'v1.9'
-    });
+    try {
+      const validation = UserValidator.validateCreateUser(req.body);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          ok: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid user data',
+            details: validation.errors,
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const user = await UsersService.createUser({
+        email: req.body.email.trim(),
+        password: req.body.password,
+        name: req.body.name.trim(),
+        role: req.body.role
+      });
+
+      res.status(201).json({
+        ok: true,
+        message: 'User created successfully',
+        data: AuthService.createUserProfile(user),
+        version: config.version
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'EMAIL_EXISTS') {
+        return res.status(409).json({
+          ok: false,
+          error: {
+            code: 'EMAIL_EXISTS',
+            message: 'Email already registered',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      console.error(`[${req.requestId}] Create user error:`, error);
+      res.status(500).json({
+        ok: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to create user',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
   },
 
-  // GET /users/:id
+  // GET /users/:id - Get user details (user.view; own profile always)
   show: async (req: Request, res: Response) => {
-    res.json({
-      ok: true,
-      route: 'users',
-      action: 'show',
-      id: req.params.id,
-      // Identificador de versión de API - Actualizado a v1.9 con mejoras de funcionalidad
-      version: 'v1.9'
-    });
+    try {
+      const userId = parseInt(req.params.id);
+      if (isNaN(userId)) {
+        return res.status(400).json({
+          ok: false,
+          error: {
+            code: 'INVALID_ID',
+            message: 'User ID must be a valid number',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      if (!(await can(req.user, 'user.view', { ownerId: userId }))) {
+        return res.status(403).json({
+          ok: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'You can only view your own profile',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const user = await UsersService.getUserById(userId);
+
+      if (!user) {
+        return res.status(404).json({
+          ok: false,
+          error: {
+            code: 'USER_NOT_FOUND',
+            message: 'User not found',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      res.json({
+        ok: true,
+        data: AuthService.createUserProfile(user),
+        version: config.version
+      });
+    } catch (error) {
+      console.error(`[${req.requestId}] Get user error:`, error);
+      res.status(500).json({
+        ok: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to get user',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
   },
 
-  // PUT /users/:id
+  // PUT /users/:id - Update user (user.edit; own profile always)
   update: async (req: Request, res: Response) => {
-    res.json({
-      ok: true,
-      route: 'users',
-      action: 'update',
-      id: req.params.id,
-      // Identificador de versión de API - Actualizado a v1.9 con mejoras de funcionalidad
-      version: 'v1.9'
-    });
+    try {
+      const userId = parseInt(req.params.id);
+      if (isNaN(userId)) {
+        return res.status(400).json({
+          ok: false,
+          error: {
+            code: 'INVALID_ID',
+            message: 'User ID must be a valid number',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const isSelf = req.user!.id === userId;
+
+      if (!(await can(req.user, 'user.edit', { ownerId: userId }))) {
+        return res.status(403).json({
+          ok: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'You can only update your own profile',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const validation = UserValidator.validateUpdateUser(req.body);
+      if (!validation.isValid) {
+        return res.status(400).json({
+          ok: false,
+          error: {
+            code: 'VALIDATION_ERROR',
+            message: 'Invalid user data',
+            details: validation.errors,
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      if (req.body.role !== undefined && !(await can(req.user, 'user.change_role'))) {
+        return res.status(403).json({
+          ok: false,
+          error: {
+            code: 'FORBIDDEN',
+            message: 'You do not have permission to change user roles',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      // Self-service password changes require the current password
+      if (req.body.password !== undefined && !(await can(req.user, 'user.set_password'))) {
+        const currentPasswordValid = typeof req.body.currentPassword === 'string' &&
+          await UsersService.verifyCurrentPassword(userId, req.body.currentPassword);
+
+        if (!currentPasswordValid) {
+          return res.status(403).json({
+            ok: false,
+            error: {
+              code: 'INVALID_CURRENT_PASSWORD',
+              message: 'Current password is required and must be correct to change password',
+              requestId: req.requestId,
+              timestamp: new Date().toISOString()
+            }
+          });
+        }
+      }
+
+      const updateData: UpdateUserData = {};
+
+      if (req.body.email !== undefined) {
+        updateData.email = req.body.email.trim();
+      }
+
+      if (req.body.name !== undefined) {
+        updateData.name = req.body.name.trim();
+      }
+
+      if (req.body.password !== undefined) {
+        updateData.password = req.body.password;
+      }
+
+      if (req.body.role !== undefined) {
+        updateData.role = req.body.role;
+      }
+
+      const previous = await UsersService.getUserById(userId);
+      const user = await UsersService.updateUser(userId, updateData);
+
+      if (!previous || !user) {
+        return res.status(404).json({
+          ok: false,
+          error: {
+            code: 'USER_NOT_FOUND',
+            message: 'User not found',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      // Existing tokens carry the old role; force a fresh login everywhere
+      if (previous.role !== user.role) {
+        await SessionsService.revokeAllSessions(userId, 'role_changed');
+      } else if (updateData.password !== undefined) {
+        // Password changed: sign out other sessions, keep the caller's own session
+        await SessionsService.revokeAllSessions(
+          userId,
+          'credentials_changed',
+          isSelf && req.auth?.type === 'session' ? req.auth.sessionId : undefined
+        );
+      }
+
+      res.json({
+        ok: true,
+        message: 'User updated successfully',
+        data: AuthService.createUserProfile(user),
+        version: config.version
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message === 'EMAIL_EXISTS') {
+          return res.status(409).json({
+            ok: false,
+            error: {
+              code: 'EMAIL_EXISTS',
+              message: 'Email already registered',
+              requestId: req.requestId,
+              timestamp: new Date().toISOString()
+            }
+          });
+        }
+
+        if (error.message === 'LAST_ADMIN') {
+          return res.status(409).json({
+            ok: false,
+            error: {
+              code: 'LAST_ADMIN',
+              message: 'Cannot change the role of the last administrator',
+              requestId: req.requestId,
+              timestamp: new Date().toISOString()
+            }
+          });
+        }
+      }
+
+      console.error(`[${req.requestId}] Update user error:`, error);
+      res.status(500).json({
+        ok: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to update user',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  },
+
+  // POST /users/:id/unlock - Clear login lockout and failed attempts (user.unlock)
+  unlock: async (req: Request, res: Response) => {
+    try {
+      const userId = parseInt(req.params.id);
+      if (isNaN(userId)) {
+        return res.status(400).json({
+          ok: false,
+          error: {
+            code: 'INVALID_ID',
+            message: 'User ID must be a valid number',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const result = await LoginThrottleService.unlockUser(userId, req.user!.id);
+
+      res.json({
+        ok: true,
+        message: result.wasLocked ? 'Account unlocked successfully' : 'Account was not locked; failed attempts cleared',
+        data: result,
+        version: config.version
+      });
+    } catch (error) {
+      if (error instanceof Error && error.message === 'NOT_FOUND') {
+        return res.status(404).json({
+          ok: false,
+          error: {
+            code: 'USER_NOT_FOUND',
+            message: 'User not found',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      console.error(`[${req.requestId}] Unlock user error:`, error);
+      res.status(500).json({
+        ok: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to unlock user',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+  },
+
+  // DELETE /users/:id/mfa - Reset two-factor authentication, e.g. lost device (user.reset_mfa)
+  resetMfa: async (req: Request, res: Response) => {
+    try {
+      const userId = parseInt(req.params.id);
+      if (isNaN(userId)) {
+        return res.status(400).json({
+          ok: false,
+          error: {
+            code: 'INVALID_ID',
+            message: 'User ID must be a valid number',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const user = await UsersService.getUserById(userId);
+      if (!user) {
+        return res.status(404).json({
+          ok: false,
+          error: {
+            code: 'USER_NOT_FOUND',
+            message: 'User not found',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      const hadMfa = await MfaService.reset(userId);
+      await SessionsService.revokeAllSessions(userId, 'credentials_changed');
+
+      res.json({
+        ok: true,
+        message: hadMfa
+          ? 'Two-factor authentication reset. The user must set it up again if their role requires it'
+          : 'User had no two-factor authentication configured',
+        data: { userId, mfaReset: hadMfa },
+        version: config.version
+      });
+    } catch (error) {
+      console.error(`[${req.requestId}] Reset MFA error:`, error);
+      res.status(500).json({
+        ok: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to reset two-factor authentication',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
   },
 
-  // DELETE /users/:id
+  // DELETE /users/:id?reassignTo=ID - Delete user (user.delete)
   remove: async (req: Request, res: Response) => {
-    res.json({
-      ok: true,
-      route: 'users',
-      action: 'remove',
-      id: req.params.id,
-      // Identificador de versión de API - Actualizado a v1.9 con mejoras de funcionalidad
-      version: 'v1.9'
-    });
+    try {
+      const userId = parseInt(req.params.id);
+      if (isNaN(userId)) {
+        return res.status(400).json({
+          ok: false,
+          error: {
+            code: 'INVALID_ID',
+            message: 'User ID must be a valid number',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      if (req.user!.id === userId) {
+        return res.status(400).json({
+          ok: false,
+          error: {
+            code: 'CANNOT_DELETE_SELF',
+            message: 'Administrators cannot delete their own account',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+
+      let reassignCoursesTo: number | undefined;
+      if (req.query.reassignTo !== undefined) {
+        reassignCoursesTo = parseInt(req.query.reassignTo as string);
+        if (isNaN(reassignCoursesTo) || reassignCoursesTo <= 0) {
+          return res.status(400).json({
+            ok: false,
+            error: {
+              code: 'VALIDATION_ERROR',
+              message: 'reassignTo must be a positive integer user ID',
+              requestId: req.requestId,
+              timestamp: new Date().toISOString()
+            }
+          });
+        }
+      }
+
+      const result = await UsersService.deleteUser(userId, { reassignCoursesTo });
+
+      res.json({
+        ok: true,
+        message: 'User deleted successfully',
+        data: result,
+        version: config.version
+      });
+    } catch (error) {
+      if (error instanceof Error) {
+        if (error.message === 'NOT_FOUND') {
+          return res.status(404).json({
+            ok: false,
+            error: {
+              code: 'USER_NOT_FOUND',
+              message: 'User not found',
+              requestId: req.requestId,
+              timestamp: new Date().toISOString()
+            }
+          });
+        }
+
+        if (error.message === 'USER_OWNS_COURSES') {
+          return res.status(409).json({
+            ok: false,
+            error: {
+              code: 'USER_OWNS_COURSES',
+              message: 'User still owns courses. Pass ?reassignTo=<instructorId> to transfer them before deletion',
+              requestId: req.requestId,
+              timestamp: new Date().toISOString()
+            }
+          });
+        }
+
+        if (error.message === 'INVALID_REASSIGN_TARGET') {
+          return res.status(400).json({
+            ok: false,
+            error: {
+              code: 'INVALID_REASSIGN_TARGET',
+              message: 'Courses can only be reassigned to another existing instructor or admin',
+              requestId: req.requestId,
+              timestamp: new Date().toISOString()
+            }
+          });
+        }
+
+        if (error.message === 'LAST_ADMIN') {
+          return res.status(409).json({
+            ok: false,
+            error: {
+              code: 'LAST_ADMIN',
+              message: 'Cannot delete the last administrator',
+              requestId: req.requestId,
+              timestamp: new Date().toISOString()
+            }
+          });
+        }
+      }
+
+      console.error(`[${req.requestId}] Delete user error:`, error);
+      res.status(500).json({
+        ok: false,
+        error: {
+          code: 'INTERNAL_ERROR',
+          message: 'Failed to delete user',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
   }
 };
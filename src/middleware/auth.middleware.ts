@@ -1,6 +1,9 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
-import { config } from '../config';
+import { SessionsService } from '../services/sessions.service';
+import { TokenService } from '../services/token.service';
+import { ApiKeysService, ApiKeyScope } from '../services/api-keys.service';
+import { Permission } from '../modules/permissions/permissions';
+import { hasRolePermission } from '../modules/permissions/policy';
 
 // Extend Express Request interface to include user
 declare global {
@@ -11,32 +14,72 @@ declare global {
         email: string;
         role: string;
       };
+      auth?:
+        | {
+            type: 'session';
+            sessionId: string;
+          }
+        | {
+            type: 'api_key';
+            apiKeyId: number;
+            scopes: ApiKeyScope[];
+            scopeChecked: boolean; // Set by requireScope; requirePermission rejects keys without it
+          };
     }
   }
 }
 
-export interface JwtPayload {
-  sub: number;
-  email: string;
-  role: string;
-  iat: number;
-  exp: number;
+/**
+ * Resolve an `Authorization: ApiKey <key>` header and attach req.user and req.auth
+ * @returns false if the key is invalid, revoked or expired
+ */
+async function attachApiKeyPrincipal(req: Request, key: string): Promise<boolean> {
+  const principal = await ApiKeysService.authenticate(key);
+  if (!principal) {
+    return false;
+  }
+
+  req.user = principal.user;
+  req.auth = {
+    type: 'api_key',
+    apiKeyId: principal.apiKeyId,
+    scopes: principal.scopes,
+    scopeChecked: false
+  };
+  return true;
 }
 
 /**
- * Middleware to authenticate JWT tokens
- * Reads Authorization: Bearer <token>, verifies, and attaches req.user
+ * Middleware to authenticate JWT tokens or API keys
+ * Reads Authorization: Bearer <token>, verifies, checks the session is still
+ * active, and attaches req.user and req.auth.
+ * Authorization: ApiKey <key> authenticates as the key's owner (see requireScope)
  */
-export const authenticate = (req: Request, res: Response, next: NextFunction) => {
+export const authenticate = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const authHeader = req.headers.authorization;
+
+    if (authHeader && authHeader.startsWith('ApiKey ')) {
+      if (!(await attachApiKeyPrincipal(req, authHeader.substring(7).trim()))) {
+        return res.status(401).json({
+          ok: false,
+          error: {
+            code: 'INVALID_API_KEY',
+            message: 'Invalid, revoked or expired API key',
+            requestId: req.requestId,
+            timestamp: new Date().toISOString()
+          }
+        });
+      }
+      return next();
+    }
     
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
       return res.status(401).json({
         ok: false,
         error: {
           code: 'UNAUTHORIZED',
-          message: 'Missing or invalid Authorization header. Expected: Bearer <token>',
+          message: 'Missing or invalid Authorization header. Expected: Bearer <token> or ApiKey <key>',
           requestId: req.requestId,
           timestamp: new Date().toISOString()
         }
@@ -57,17 +100,32 @@ export const authenticate = (req: Request, res: Response, next: NextFunction) =>
       });
     }
 
-    // Verify JWT token
-    const decoded = jwt.verify(token, config.jwtSecret);
-    
-    // Type guard to ensure we have the expected payload structure
-    if (typeof decoded === 'string' || !decoded || typeof decoded !== 'object') {
-      throw new jwt.JsonWebTokenError('Invalid token payload');
+    // Verify signature (by kid), expiry, issuer, audience and payload structure
+    const decoded = TokenService.verifyAccessToken(token);
+    if (!decoded) {
+      return res.status(401).json({
+        ok: false,
+        error: {
+          code: 'INVALID_TOKEN',
+          message: 'Invalid or expired token',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
     }
-    
-    // Validate required fields exist and have correct types
-    if (typeof decoded.sub !== 'number' || typeof decoded.email !== 'string' || typeof decoded.role !== 'string') {
-      throw new jwt.JsonWebTokenError('Invalid token payload structure');
+
+    // Reject tokens whose session has been revoked (logout, refresh token reuse)
+    const sessionActive = await SessionsService.isSessionActive(decoded.sid);
+    if (!sessionActive) {
+      return res.status(401).json({
+        ok: false,
+        error: {
+          code: 'SESSION_REVOKED',
+          message: 'Session has been revoked or has expired',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
     }
     
     // Attach user info to request
@@ -76,21 +134,13 @@ export const authenticate = (req: Request, res: Response, next: NextFunction) =>
       email: decoded.email,
       role: decoded.role
     };
+    req.auth = {
+      type: 'session',
+      sessionId: decoded.sid
+    };
 
     next();
   } catch (error) {
-    if (error instanceof jwt.JsonWebTokenError) {
-      return res.status(401).json({
-        ok: false,
-        error: {
-          code: 'INVALID_TOKEN',
-          message: 'Invalid or expired token',
-          requestId: req.requestId,
-          timestamp: new Date().toISOString()
-        }
-      });
-    }
-
     return res.status(401).json({
       ok: false,
       error: {
@@ -104,10 +154,12 @@ export const authenticate = (req: Request, res: Response, next: NextFunction) =>
 };
 
 /**
- * RBAC guard that checks if user has required role(s)
- * Must be used after authenticate middleware
+ * Guard for permissions granted by role alone (see modules/permissions)
+ * Must be used after authenticate middleware. Permissions that depend on a
+ * resource (course ownership, enrollment, ...) are checked in the controller.
+ * API keys are only accepted if a requireScope check ran before this guard.
  */
-export const requireRole = (...allowedRoles: string[]) => {
+export const requirePermission = (permission: Permission) => {
   return (req: Request, res: Response, next: NextFunction) => {
     if (!req.user) {
       return res.status(401).json({
@@ -121,12 +173,24 @@ export const requireRole = (...allowedRoles: string[]) => {
       });
     }
 
-    if (!allowedRoles.includes(req.user.role)) {
+    if (req.auth?.type === 'api_key' && !req.auth.scopeChecked) {
+      return res.status(403).json({
+        ok: false,
+        error: {
+          code: 'API_KEY_NOT_ALLOWED',
+          message: 'This endpoint cannot be used with an API key',
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+
+    if (!hasRolePermission(req.user.role, permission)) {
       return res.status(403).json({
         ok: false,
         error: {
           code: 'FORBIDDEN',
-          message: `Access denied. Required role(s): ${allowedRoles.join(', ')}. Your role: ${req.user.role}`,
+          message: `Access denied. Missing permission: ${permission}`,
           requestId: req.requestId,
           timestamp: new Date().toISOString()
         }
@@ -137,13 +201,69 @@ export const requireRole = (...allowedRoles: string[]) => {
   };
 };
 
+/**
+ * Scope guard for API keys
+ * Requests authenticated with an API key must carry every listed scope.
+ * Session (Bearer) and anonymous requests pass through unchanged.
+ */
+export const requireScope = (...requiredScopes: ApiKeyScope[]) => {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (req.auth?.type !== 'api_key') {
+      return next();
+    }
+
+    const auth = req.auth;
+    const missing = requiredScopes.filter(scope => !auth.scopes.includes(scope));
+    if (missing.length > 0) {
+      return res.status(403).json({
+        ok: false,
+        error: {
+          code: 'INSUFFICIENT_SCOPE',
+          message: `API key is missing required scope(s): ${missing.join(', ')}`,
+          requestId: req.requestId,
+          timestamp: new Date().toISOString()
+        }
+      });
+    }
+
+    auth.scopeChecked = true;
+    next();
+  };
+};
+
+/**
+ * Guard for account-management endpoints that must not be reachable with an API key
+ * (logout, 2FA, API key management, profile and password changes, ...)
+ */
+export const requireSession = (req: Request, res: Response, next: NextFunction) => {
+  if (req.auth?.type === 'api_key') {
+    return res.status(403).json({
+      ok: false,
+      error: {
+        code: 'API_KEY_NOT_ALLOWED',
+        message: 'This endpoint requires a logged-in session and cannot be used with an API key',
+        requestId: req.requestId,
+        timestamp: new Date().toISOString()
+      }
+    });
+  }
+
+  next();
+};
+
 /**
  * Optional authentication middleware
  * Attempts to authenticate but doesn't fail if no token is provided
  */
-export const authenticateOptional = (req: Request, res: Response, next: NextFunction) => {
+export const authenticateOptional = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const authHeader = req.headers.authorization;
+
+    // Invalid API keys are treated as anonymous, like invalid tokens
+    if (authHeader && authHeader.startsWith('ApiKey ')) {
+      await attachApiKeyPrincipal(req, authHeader.substring(7).trim());
+      return next();
+    }
     
     // If no auth header, just continue without setting req.user
     if (!authHeader || !authHeader.startsWith('Bearer ')) {
@@ -156,18 +276,14 @@ export const authenticateOptional = (req: Request, res: Response, next: NextFunc
       return next();
     }
 
-    // Verify JWT token
-    const decoded = jwt.verify(token, config.jwtSecret);
-    
-    // Type guard to ensure we have the expected payload structure
-    if (typeof decoded === 'string' || !decoded || typeof decoded !== 'object') {
-      // Invalid token, but since auth is optional, just continue
+    // Invalid or expired tokens are treated as anonymous, since auth is optional
+    const decoded = TokenService.verifyAccessToken(token);
+    if (!decoded) {
       return next();
     }
-    
-    // Validate required fields exist and have correct types
-    if (typeof decoded.sub !== 'number' || typeof decoded.email !== 'string' || typeof decoded.role !== 'string') {
-      // Invalid token structure, but since auth is optional, just continue
+
+    // Revoked sessions are treated as anonymous
+    if (!(await SessionsService.isSessionActive(decoded.sid))) {
       return next();
     }
     
@@ -177,6 +293,10 @@ export const authenticateOptional = (req: Request, res: Response, next: NextFunc
       email: decoded.email,
       role: decoded.role
     };
+    req.auth = {
+      type: 'session',
+      sessionId: decoded.sid
+    };
 
     next();
   } catch (error) {
@@ -190,5 +310,8 @@ export const authenticateOptional = (req: Request, res: Response, next: NextFunc
  */
 export const authMiddleware = {
   required: authenticate,
-  optional: authenticateOptional
+  optional: authenticateOptional,
+  scope: requireScope,
+  permission: requirePermission,
+  session: requireSession
 };
@@ -1,10 +1,60 @@
 import { Request, Response, NextFunction } from 'express';
+import { can, getCourseResource } from '../modules/permissions/policy';
+import { Permission } from '../modules/permissions/permissions';
 
 export interface ApiError extends Error {
   statusCode?: number;
   code?: string;
 }
 
+/**
+ * Send a JSON error response in the API's error shape
+ */
+export function sendError(req: Request, res: Response, status: number, code: string, message: string, details?: unknown) {
+  return res.status(status).json({
+    ok: false,
+    error: {
+      code,
+      message,
+      ...(details ? { details } : {}),
+      requestId: req.requestId,
+      timestamp: new Date().toISOString()
+    }
+  });
+}
+
+/**
+ * Check the caller's permission on a course
+ * @returns false after a 404/403 response was sent
+ */
+export async function authorizeCourse(req: Request, res: Response, courseId: number, permission: Permission): Promise<boolean> {
+  const course = await getCourseResource(courseId);
+  if (!course) {
+    sendError(req, res, 404, 'COURSE_NOT_FOUND', 'Course not found');
+    return false;
+  }
+
+  if (!(await can(req.user, permission, { course }))) {
+    sendError(req, res, 403, 'FORBIDDEN', `Missing permission ${permission} for this course`);
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Parse a numeric route parameter
+ * @returns null after a 400 response was sent
+ */
+export function parseId(req: Request, res: Response, param: string, label: string): number | null {
+  const id = parseInt(req.params[param]);
+  if (isNaN(id)) {
+    sendError(req, res, 400, 'INVALID_ID', `${label} ID must be a valid number`);
+    return null;
+  }
+  return id;
+}
+
 export const errorHandler = (
   err: ApiError,
   req: Request,
@@ -20,26 +70,10 @@ export const errorHandler = (
   console.error(`[${req.requestId}] Error ${statusCode}: ${message}`);
 
   // Send consistent JSON error response
-  res.status(statusCode).json({
-    ok: false,
-    error: {
-      code,
-      message,
-      requestId: req.requestId,
-      timestamp: new Date().toISOString()
-    }
-  });
+  sendError(req, res, statusCode, code, message);
 };
 
 // 404 handler for unknown routes
 export const notFoundHandler = (req: Request, res: Response) => {
-  res.status(404).json({
-    ok: false,
-    error: {
-      code: 'NOT_FOUND',
-      message: `Route ${req.method} ${req.path} not found`,
-      requestId: req.requestId,
-      timestamp: new Date().toISOString()
-    }
-  });
+  sendError(req, res, 404, 'NOT_FOUND', `Route ${req.method} ${req.path} not found`);
 };
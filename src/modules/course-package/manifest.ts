@@ -0,0 +1,516 @@
+import crypto from 'crypto';
+import { QuestionBankValidator, QuizValidator, ValidationError } from '../../utils/validation';
+import { QuestionDefinition, QuestionDifficulty, ScorePolicy, toDefinition } from '../../utils/quiz-grading';
+import { checkFileType } from '../storage/file-types';
+
+/**
+ * Course package format (.tar.gz)
+ *
+ *   manifest.json            Course, modules, lessons, question banks, quizzes and questions
+ *   lessons/001-<slug>.md    One markdown file per lesson, named by the manifest
+ *   attachments/<sha256>     Attachment content, stored once per checksum
+ *
+ * Items refer to each other by keys local to the package ("lesson-3",
+ * "quiz-1", "bank-2"), never by database IDs. Arrays are in course order and positions
+ * are kept as exported, so an import reproduces the ordering exactly.
+ *
+ * formatVersion is bumped for changes older importers cannot read; an
+ * importer rejects packages with a newer version than it knows.
+ */
+
+export const PACKAGE_FORMAT = 'learnlite-course';
+export const PACKAGE_FORMAT_VERSION = 2;
+export const MANIFEST_FILE = 'manifest.json';
+
+export type PackagePrerequisite = { lesson: string } | { quiz: string; minScore: number | null };
+
+export interface PackageAttachment {
+  filename: string;
+  contentType: string;
+  sizeBytes: number;
+  sha256: string;
+  file: string;
+}
+
+export interface PackageLesson {
+  key: string;
+  title: string;
+  position: number;
+  videoUrl: string | null;
+  content: string; // Path of the markdown file
+  unlockAfterDays: number | null;
+  unlockAt: string | null;
+  prerequisites: PackagePrerequisite[];
+  attachments: PackageAttachment[];
+}
+
+export interface PackageModule {
+  key: string;
+  title: string;
+  position: number;
+  lessons: PackageLesson[];
+}
+
+/**
+ * Version 1 packages hold single-choice questions only, as { prompt,
+ * choices, correctIndex }; parsePackage turns them into this shape.
+ */
+export interface PackageQuestion {
+  prompt: string;
+  points: number;
+  definition: QuestionDefinition;
+}
+
+export interface PackageQuizSettings {
+  maxAttempts: number | null;
+  timeLimitMinutes: number | null;
+  passScore: number | null;
+  scorePolicy: ScorePolicy;
+  cooldownMinutes: number | null;
+  shuffleQuestions?: boolean; // Optional; absent from packages made before shuffling existed
+  shuffleChoices?: boolean;
+}
+
+export interface PackageBankQuestion extends PackageQuestion {
+  topic: string | null;
+  difficulty: QuestionDifficulty | null;
+}
+
+export interface PackageQuestionBank {
+  key: string;
+  title: string;
+  description: string | null;
+  questions: PackageBankQuestion[];
+}
+
+export interface PackageQuizDraw {
+  bank: string; // Key of the bank
+  count: number;
+  topic: string | null;
+  difficulty: QuestionDifficulty | null;
+}
+
+export interface PackageQuiz {
+  key: string;
+  title: string;
+  settings?: PackageQuizSettings; // Optional; packages from before quiz settings existed lack them
+  questions: PackageQuestion[];
+  draws?: PackageQuizDraw[]; // Optional; packages from before question banks existed lack them
+}
+
+export interface CourseManifest {
+  format: typeof PACKAGE_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  source: {
+    instance: string; // APP_BASE_URL of the exporting deployment
+    courseId: number;
+    version: string;
+  };
+  course: {
+    title: string;
+    description: string | null;
+    priceCents: number;
+    releaseMode: 'open' | 'sequential';
+    // Catalog fields; optional, packages from before they existed lack them
+    category?: string | null; // Slug, matched against the importing instance's categories
+    level?: 'beginner' | 'intermediate' | 'advanced' | null;
+    language?: string | null;
+    tags?: string[];
+  };
+  modules: PackageModule[];
+  questionBanks?: PackageQuestionBank[]; // Optional, like PackageQuiz.draws
+  quizzes: PackageQuiz[];
+}
+
+export interface ParsedPackage {
+  manifest: CourseManifest | null;
+  errors: ValidationError[];
+  warnings: string[];
+}
+
+/**
+ * File name of a lesson's markdown: "lessons/007-joins-and-indexes.md"
+ */
+export function lessonFilePath(index: number, title: string): string {
+  const slug = title
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 50)
+    .replace(/-+$/, '');
+
+  return `lessons/${String(index + 1).padStart(3, '0')}${slug ? `-${slug}` : ''}.md`;
+}
+
+export function attachmentFilePath(sha256: string): string {
+  return `attachments/${sha256}`;
+}
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isTitle = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0 && value.length <= 255;
+
+const isNullableString = (value: unknown) => value === null || typeof value === 'string';
+
+const isNonNegativeInteger = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+function isUtf8(data: Buffer): boolean {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(data);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse and check a package's manifest against the files it came with
+ * Every problem is reported, with the manifest path it was found at; the
+ * manifest is only returned when there are no errors.
+ */
+export function parsePackage(files: Map<string, Buffer>): ParsedPackage {
+  const errors: ValidationError[] = [];
+  const warnings: string[] = [];
+  const error = (field: string, message: string) => errors.push({ field, message });
+
+  const raw = files.get(MANIFEST_FILE);
+  if (!raw) {
+    error(MANIFEST_FILE, 'The package has no manifest.json');
+    return { manifest: null, errors, warnings };
+  }
+
+  let manifest: any;
+  try {
+    manifest = JSON.parse(raw.toString('utf8'));
+  } catch {
+    error(MANIFEST_FILE, 'manifest.json is not valid JSON');
+    return { manifest: null, errors, warnings };
+  }
+
+  if (!isObject(manifest) || manifest.format !== PACKAGE_FORMAT) {
+    error('format', `Not a course package (format must be "${PACKAGE_FORMAT}")`);
+    return { manifest: null, errors, warnings };
+  }
+
+  if (!Number.isInteger(manifest.formatVersion) || manifest.formatVersion < 1) {
+    error('formatVersion', 'formatVersion must be a positive integer');
+    return { manifest: null, errors, warnings };
+  }
+  if (manifest.formatVersion > PACKAGE_FORMAT_VERSION) {
+    error('formatVersion', `Package format version ${manifest.formatVersion} is newer than the supported version ${PACKAGE_FORMAT_VERSION}`);
+    return { manifest: null, errors, warnings };
+  }
+
+  if (!isObject(manifest.source) || typeof manifest.source.instance !== 'string' || !Number.isInteger(manifest.source.courseId)) {
+    error('source', 'source must name the exporting instance and course ID');
+  }
+
+  const course = manifest.course;
+  if (!isObject(course)) {
+    error('course', 'course is required');
+  } else {
+    if (!isTitle(course.title)) error('course.title', 'Title is required and must be 255 characters or less');
+    if (!isNullableString(course.description)) error('course.description', 'Description must be a string or null');
+    if (!isNonNegativeInteger(course.priceCents)) error('course.priceCents', 'priceCents must be a non-negative integer');
+    if (!['open', 'sequential'].includes(course.releaseMode)) error('course.releaseMode', 'releaseMode must be open or sequential');
+    if (course.category !== undefined && !isNullableString(course.category)) error('course.category', 'category must be a slug or null');
+    if (course.level !== undefined && course.level !== null && !['beginner', 'intermediate', 'advanced'].includes(course.level)) {
+      error('course.level', 'level must be beginner, intermediate, advanced or null');
+    }
+    if (course.language !== undefined && !isNullableString(course.language)) error('course.language', 'language must be a string or null');
+    if (course.tags !== undefined && (!Array.isArray(course.tags) || !course.tags.every((tag: unknown) => typeof tag === 'string'))) {
+      error('course.tags', 'tags must be an array of strings');
+    }
+  }
+
+  const keys = new Set<string>();
+  const lessonKeys = new Set<string>();
+  const quizKeys = new Set<string>();
+  const bankKeys = new Set<string>();
+  const referencedFiles = new Set<string>([MANIFEST_FILE]);
+
+  const checkKey = (field: string, key: unknown, kind: Set<string>) => {
+    if (typeof key !== 'string' || key.length === 0) {
+      error(field, 'key must be a non-empty string');
+    } else if (keys.has(key)) {
+      error(field, `Duplicate key "${key}"`);
+    } else {
+      keys.add(key);
+      kind.add(key);
+    }
+  };
+
+  // Keys first, so prerequisites may point forward
+  const modules: any[] = Array.isArray(manifest.modules) ? manifest.modules : [];
+  const quizzes: any[] = Array.isArray(manifest.quizzes) ? manifest.quizzes : [];
+  const banks: any[] = Array.isArray(manifest.questionBanks) ? manifest.questionBanks : [];
+  if (!Array.isArray(manifest.modules)) error('modules', 'modules must be an array');
+  if (!Array.isArray(manifest.quizzes)) error('quizzes', 'quizzes must be an array');
+  if (manifest.questionBanks !== undefined && !Array.isArray(manifest.questionBanks)) {
+    error('questionBanks', 'questionBanks must be an array');
+  }
+
+  modules.forEach((module, m) => {
+    if (isObject(module) && Array.isArray(module.lessons)) {
+      module.lessons.forEach((lesson: any, l: number) => {
+        checkKey(`modules[${m}].lessons[${l}].key`, lesson?.key, lessonKeys);
+      });
+    }
+  });
+  quizzes.forEach((quiz, q) => checkKey(`quizzes[${q}].key`, quiz?.key, quizKeys));
+  banks.forEach((bank, b) => checkKey(`questionBanks[${b}].key`, bank?.key, bankKeys));
+
+  /**
+   * Check a question in the current format, normalizing its definition
+   */
+  const checkQuestion = (field: string, question: any) => {
+    if (typeof question.points !== 'number' || !(question.points > 0) || question.points > 1000) {
+      error(`${field}.points`, 'points must be a number greater than 0 and at most 1000');
+    }
+    if (!isObject(question.definition)) {
+      return error(`${field}.definition`, 'definition is required');
+    }
+    const definition = QuizValidator.validateQuestionDefinition(question.definition);
+    if (!definition.isValid) {
+      definition.errors.forEach(e => error(`${field}.definition.${e.field}`, e.message));
+    } else {
+      question.definition = toDefinition(question.definition.type, question.definition);
+    }
+  };
+
+  // Bank questions by bank key, for checking that draws can be met
+  const bankQuestions = new Map<string, any[]>();
+
+  banks.forEach((bank, b) => {
+    const at = `questionBanks[${b}]`;
+    if (!isObject(bank)) {
+      return error(at, 'Question bank must be an object');
+    }
+
+    if (!isTitle(bank.title)) error(`${at}.title`, 'Title is required and must be 255 characters or less');
+    if (!isNullableString(bank.description)) error(`${at}.description`, 'Description must be a string or null');
+    if (!Array.isArray(bank.questions)) {
+      return error(`${at}.questions`, 'questions must be an array');
+    }
+    bankQuestions.set(bank.key, bank.questions);
+
+    bank.questions.forEach((question: any, i: number) => {
+      const field = `${at}.questions[${i}]`;
+      if (!isObject(question)) {
+        return error(field, 'Question must be an object');
+      }
+      if (typeof question.prompt !== 'string' || question.prompt.trim().length === 0) {
+        error(`${field}.prompt`, 'prompt is required');
+      }
+      QuestionBankValidator.validateTags(question).errors.forEach(e => error(`${field}.${e.field}`, e.message));
+      checkQuestion(field, question);
+    });
+  });
+
+  const modulePositions = new Set<number>();
+
+  modules.forEach((module, m) => {
+    const at = `modules[${m}]`;
+    if (!isObject(module)) {
+      return error(at, 'Module must be an object');
+    }
+
+    if (typeof module.key !== 'string' || module.key.length === 0) error(`${at}.key`, 'key must be a non-empty string');
+    if (!isTitle(module.title)) error(`${at}.title`, 'Title is required and must be 255 characters or less');
+    if (!isNonNegativeInteger(module.position)) {
+      error(`${at}.position`, 'position must be a non-negative integer');
+    } else if (modulePositions.has(module.position)) {
+      error(`${at}.position`, `Another module already has position ${module.position}`);
+    } else {
+      modulePositions.add(module.position);
+    }
+
+    if (!Array.isArray(module.lessons)) {
+      return error(`${at}.lessons`, 'lessons must be an array');
+    }
+
+    const lessonPositions = new Set<number>();
+
+    module.lessons.forEach((lesson: any, l: number) => {
+      const at = `modules[${m}].lessons[${l}]`;
+      if (!isObject(lesson)) {
+        return error(at, 'Lesson must be an object');
+      }
+
+      if (!isTitle(lesson.title)) error(`${at}.title`, 'Title is required and must be 255 characters or less');
+      if (!isNonNegativeInteger(lesson.position)) {
+        error(`${at}.position`, 'position must be a non-negative integer');
+      } else if (lessonPositions.has(lesson.position)) {
+        error(`${at}.position`, `Another lesson in the module already has position ${lesson.position}`);
+      } else {
+        lessonPositions.add(lesson.position);
+      }
+      if (!isNullableString(lesson.videoUrl)) error(`${at}.videoUrl`, 'videoUrl must be a string or null');
+      if (lesson.unlockAfterDays !== null && !isNonNegativeInteger(lesson.unlockAfterDays)) {
+        error(`${at}.unlockAfterDays`, 'unlockAfterDays must be a non-negative integer or null');
+      }
+      if (lesson.unlockAt !== null && (typeof lesson.unlockAt !== 'string' || isNaN(Date.parse(lesson.unlockAt)))) {
+        error(`${at}.unlockAt`, 'unlockAt must be an ISO 8601 date or null');
+      }
+
+      if (typeof lesson.content !== 'string') {
+        error(`${at}.content`, 'content must be the path of the lesson markdown');
+      } else {
+        referencedFiles.add(lesson.content);
+        const content = files.get(lesson.content);
+        if (!content) {
+          error(`${at}.content`, `File ${lesson.content} is missing from the package`);
+        } else if (!isUtf8(content)) {
+          error(`${at}.content`, `File ${lesson.content} is not UTF-8 text`);
+        }
+      }
+
+      if (!Array.isArray(lesson.prerequisites)) {
+        error(`${at}.prerequisites`, 'prerequisites must be an array');
+      } else {
+        lesson.prerequisites.forEach((prerequisite: any, p: number) => {
+          const field = `${at}.prerequisites[${p}]`;
+          if (isObject(prerequisite) && typeof prerequisite.lesson === 'string') {
+            if (!lessonKeys.has(prerequisite.lesson)) error(field, `Unknown lesson "${prerequisite.lesson}"`);
+            else if (prerequisite.lesson === lesson.key) error(field, 'A lesson cannot be its own prerequisite');
+          } else if (isObject(prerequisite) && typeof prerequisite.quiz === 'string') {
+            if (!quizKeys.has(prerequisite.quiz)) error(field, `Unknown quiz "${prerequisite.quiz}"`);
+            const minScore = prerequisite.minScore;
+            if (minScore !== null && (typeof minScore !== 'number' || minScore < 0 || minScore > 100)) {
+              error(field, 'minScore must be between 0 and 100, or null');
+            }
+          } else {
+            error(field, 'A prerequisite must name a lesson or a quiz');
+          }
+        });
+      }
+
+      if (!Array.isArray(lesson.attachments)) {
+        error(`${at}.attachments`, 'attachments must be an array');
+      } else {
+        lesson.attachments.forEach((attachment: any, a: number) => {
+          const field = `${at}.attachments[${a}]`;
+          if (!isObject(attachment) || typeof attachment.file !== 'string') {
+            return error(field, 'An attachment must name its file');
+          }
+          if (typeof attachment.filename !== 'string' || attachment.filename.trim().length === 0) {
+            error(`${field}.filename`, 'filename is required');
+          }
+
+          referencedFiles.add(attachment.file);
+          const data = files.get(attachment.file);
+          if (!data) {
+            return error(`${field}.file`, `File ${attachment.file} is missing from the package`);
+          }
+          if (attachment.sizeBytes !== data.length) {
+            error(`${field}.sizeBytes`, `File ${attachment.file} is ${data.length} bytes, not ${attachment.sizeBytes}`);
+          }
+          if (attachment.sha256 !== crypto.createHash('sha256').update(data).digest('hex')) {
+            error(`${field}.sha256`, `Checksum of ${attachment.file} does not match`);
+          }
+          const typeError = checkFileType(attachment.contentType, data);
+          if (typeError) {
+            error(`${field}.contentType`, typeError);
+          }
+        });
+      }
+    });
+  });
+
+  quizzes.forEach((quiz, q) => {
+    const at = `quizzes[${q}]`;
+    if (!isObject(quiz)) {
+      return error(at, 'Quiz must be an object');
+    }
+
+    if (!isTitle(quiz.title)) error(`${at}.title`, 'Title is required and must be 255 characters or less');
+    if (quiz.settings !== undefined) {
+      if (!isObject(quiz.settings)) {
+        error(`${at}.settings`, 'settings must be an object');
+      } else {
+        const settings = QuizValidator.validateSettings({
+          max_attempts: quiz.settings.maxAttempts,
+          time_limit_minutes: quiz.settings.timeLimitMinutes,
+          pass_score: quiz.settings.passScore,
+          score_policy: quiz.settings.scorePolicy,
+          cooldown_minutes: quiz.settings.cooldownMinutes,
+          shuffle_questions: quiz.settings.shuffleQuestions,
+          shuffle_choices: quiz.settings.shuffleChoices
+        });
+        settings.errors.forEach(e => error(`${at}.settings.${e.field.replace(/_(\w)/g, (_, c) => c.toUpperCase())}`, e.message));
+      }
+    }
+    if (!Array.isArray(quiz.questions)) {
+      return error(`${at}.questions`, 'questions must be an array');
+    }
+
+    quiz.questions.forEach((question: any, i: number) => {
+      const field = `${at}.questions[${i}]`;
+      if (!isObject(question)) {
+        return error(field, 'Question must be an object');
+      }
+      if (typeof question.prompt !== 'string' || question.prompt.trim().length === 0) {
+        error(`${field}.prompt`, 'prompt is required');
+      }
+
+      if (manifest.formatVersion === 1) {
+        if (!Array.isArray(question.choices) || question.choices.length < 2 || !question.choices.every((c: unknown) => typeof c === 'string')) {
+          error(`${field}.choices`, 'choices must be an array of at least 2 strings');
+        } else if (!Number.isInteger(question.correctIndex) || question.correctIndex < 0 || question.correctIndex >= question.choices.length) {
+          error(`${field}.correctIndex`, 'correctIndex must point at one of the choices');
+        } else {
+          quiz.questions[i] = {
+            prompt: question.prompt,
+            points: 1,
+            definition: { type: 'single_choice', choices: question.choices, correct_index: question.correctIndex }
+          };
+        }
+        return;
+      }
+
+      checkQuestion(field, question);
+    });
+
+    if (quiz.draws !== undefined) {
+      if (!Array.isArray(quiz.draws)) {
+        return error(`${at}.draws`, 'draws must be an array');
+      }
+
+      quiz.draws.forEach((draw: any, d: number) => {
+        const field = `${at}.draws[${d}]`;
+        if (!isObject(draw)) {
+          return error(field, 'Draw must be an object');
+        }
+        if (!Number.isInteger(draw.count) || draw.count < 1 || draw.count > 100) {
+          error(`${field}.count`, 'count must be an integer between 1 and 100');
+        }
+        const tags = QuestionBankValidator.validateTags(draw);
+        tags.errors.forEach(e => error(`${field}.${e.field}`, e.message));
+
+        if (!bankKeys.has(draw.bank)) {
+          return error(`${field}.bank`, `Unknown question bank "${draw.bank}"`);
+        }
+        const matching = (bankQuestions.get(draw.bank) || []).filter(question =>
+          isObject(question)
+          && (!draw.topic || (typeof question.topic === 'string' && question.topic.toLowerCase() === String(draw.topic).toLowerCase()))
+          && (!draw.difficulty || question.difficulty === draw.difficulty)
+        ).length;
+        if (tags.isValid && Number.isInteger(draw.count) && matching < draw.count) {
+          error(field, `The draw asks for ${draw.count} questions; bank "${draw.bank}" has ${matching} matching`);
+        }
+      });
+    }
+  });
+
+  for (const name of files.keys()) {
+    if (!referencedFiles.has(name)) {
+      warnings.push(`File ${name} is not referenced by the manifest and was ignored`);
+    }
+  }
+
+  return { manifest: errors.length === 0 ? manifest as CourseManifest : null, errors, warnings };
+}
@@ -0,0 +1,198 @@
+import zlib from 'zlib';
+
+/**
+ * Minimal tar.gz reader and writer for course packages
+ *
+ * Writes POSIX ustar archives of regular files. Reading accepts what common
+ * tar tools produce: long names from pax and GNU headers are honored,
+ * directory entries are skipped, links and devices are rejected, and entry
+ * names may not escape the archive root.
+ */
+
+export interface TarEntry {
+  name: string;
+  data: Buffer;
+}
+
+const BLOCK_SIZE = 512;
+
+export class TarError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TarError';
+  }
+}
+
+function writeString(header: Buffer, value: string, offset: number, length: number) {
+  header.write(value, offset, Math.min(Buffer.byteLength(value), length), 'utf8');
+}
+
+function writeOctal(header: Buffer, value: number, offset: number, length: number) {
+  writeString(header, value.toString(8).padStart(length - 1, '0') + '\0', offset, length);
+}
+
+function readString(header: Buffer, offset: number, length: number): string {
+  const end = header.indexOf(0, offset);
+  return header.toString('utf8', offset, end === -1 || end > offset + length ? offset + length : end);
+}
+
+function readOctal(header: Buffer, offset: number, length: number): number {
+  const value = readString(header, offset, length).trim();
+  return value === '' ? 0 : parseInt(value, 8);
+}
+
+// Sum of the header bytes with the checksum field counted as spaces
+function checksum(header: Buffer): number {
+  let sum = 0;
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    sum += i >= 148 && i < 156 ? 0x20 : header[i];
+  }
+  return sum;
+}
+
+/**
+ * Entry name split into ustar's name and prefix fields
+ */
+function splitName(name: string): { name: string; prefix: string } {
+  if (Buffer.byteLength(name) <= 100) {
+    return { name, prefix: '' };
+  }
+
+  const slash = name.lastIndexOf('/', 155);
+  if (slash > 0 && Buffer.byteLength(name.slice(slash + 1)) <= 100 && Buffer.byteLength(name.slice(0, slash)) <= 155) {
+    return { name: name.slice(slash + 1), prefix: name.slice(0, slash) };
+  }
+
+  throw new TarError(`Entry name is too long: ${name}`);
+}
+
+/**
+ * The path record of a pax extended header ("<length> path=<name>\n" ...)
+ */
+function paxPath(data: Buffer): string | null {
+  let offset = 0;
+
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    const length = parseInt(data.toString('utf8', offset, space), 10);
+    if (space === -1 || !(length > 0)) {
+      break;
+    }
+
+    const record = data.toString('utf8', space + 1, offset + length - 1);
+    if (record.startsWith('path=')) {
+      return record.slice('path='.length);
+    }
+    offset += length;
+  }
+
+  return null;
+}
+
+function isSafeName(name: string): boolean {
+  return name.length > 0
+    && !name.startsWith('/')
+    && !name.includes('\\')
+    && !name.split('/').some(part => part === '..');
+}
+
+/**
+ * Pack files into a gzipped tar archive, in the given order
+ */
+export function packTarGz(entries: TarEntry[], mtime = new Date()): Buffer {
+  const blocks: Buffer[] = [];
+
+  for (const entry of entries) {
+    const header = Buffer.alloc(BLOCK_SIZE);
+    const { name, prefix } = splitName(entry.name);
+
+    writeString(header, name, 0, 100);
+    writeOctal(header, 0o644, 100, 8);
+    writeOctal(header, 0, 108, 8);
+    writeOctal(header, 0, 116, 8);
+    writeOctal(header, entry.data.length, 124, 12);
+    writeOctal(header, Math.floor(mtime.getTime() / 1000), 136, 12);
+    header.write('0', 156);
+    writeString(header, 'ustar\0', 257, 6);
+    writeString(header, '00', 263, 2);
+    writeString(header, prefix, 345, 155);
+    writeOctal(header, checksum(header), 148, 7);
+    header[155] = 0x20;
+
+    blocks.push(header, entry.data);
+
+    const padding = (BLOCK_SIZE - (entry.data.length % BLOCK_SIZE)) % BLOCK_SIZE;
+    if (padding > 0) {
+      blocks.push(Buffer.alloc(padding));
+    }
+  }
+
+  // End of archive: two empty blocks
+  blocks.push(Buffer.alloc(BLOCK_SIZE * 2));
+
+  return zlib.gzipSync(Buffer.concat(blocks));
+}
+
+/**
+ * Unpack the regular files of a gzipped tar archive
+ * Throws TarError for corrupt archives, unsafe entries, or archives that
+ * unpack to more than maxBytes
+ */
+export function unpackTarGz(archive: Buffer, maxBytes: number): TarEntry[] {
+  let tar: Buffer;
+  try {
+    tar = zlib.gunzipSync(archive, { maxOutputLength: maxBytes });
+  } catch (error: any) {
+    if (error?.code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new TarError(`Archive unpacks to more than ${maxBytes} bytes`);
+    }
+    throw new TarError('Archive is not gzip-compressed');
+  }
+
+  const entries: TarEntry[] = [];
+  let longName: string | null = null; // From a pax or GNU header, for the next entry
+  let offset = 0;
+
+  while (offset + BLOCK_SIZE <= tar.length) {
+    const header = tar.subarray(offset, offset + BLOCK_SIZE);
+    if (header.every(byte => byte === 0)) {
+      break;
+    }
+
+    if (readOctal(header, 148, 8) !== checksum(header)) {
+      throw new TarError(`Corrupt tar header at offset ${offset}`);
+    }
+
+    const size = readOctal(header, 124, 12);
+    const type = String.fromCharCode(header[156] || 0x30);
+    // Old GNU headers ("ustar  ") keep other fields where ustar has the prefix
+    const prefix = readString(header, 257, 6) === 'ustar' ? readString(header, 345, 155) : '';
+    const name = longName ?? (prefix ? `${prefix}/` : '') + readString(header, 0, 100);
+    const dataStart = offset + BLOCK_SIZE;
+
+    if (dataStart + size > tar.length) {
+      throw new TarError(`Truncated tar entry: ${name}`);
+    }
+    const data = tar.subarray(dataStart, dataStart + size);
+
+    if (type === 'x' || type === 'L') {
+      longName = type === 'x' ? paxPath(data) : readString(data, 0, data.length);
+    } else {
+      longName = null;
+
+      if (type === '0') {
+        const entryName = name.replace(/^\.\//, '');
+        if (!isSafeName(entryName)) {
+          throw new TarError(`Unsafe entry name: ${name}`);
+        }
+        entries.push({ name: entryName, data: Buffer.from(data) });
+      } else if (type !== '5' && type !== 'g') {
+        throw new TarError(`Unsupported tar entry type '${type}': ${name}`);
+      }
+    }
+
+    offset = dataStart + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+  }
+
+  return entries;
+}
@@ -0,0 +1,48 @@
+import { renderMarkdown, RenderedMarkdown } from './render';
+
+/**
+ * Rendered lesson content, cached per lesson revision
+ *
+ * Revisions never change, so an entry stays valid until its lesson is edited
+ * or deleted; invalidateLesson then drops every entry of that lesson. The
+ * cache is per process and bounded, oldest entries first.
+ */
+
+const MAX_ENTRIES = 500;
+
+const renders = new Map<number, { lessonId: number; rendered: RenderedMarkdown }>();
+
+/**
+ * Render a revision's markdown, reusing the cached result when there is one
+ * Content without a revision (revisionId null) is rendered every time.
+ */
+export function getRenderedContent(lessonId: number, revisionId: number | null, markdown: string | null): RenderedMarkdown {
+  if (revisionId === null) {
+    return renderMarkdown(markdown || '');
+  }
+
+  const cached = renders.get(revisionId);
+  if (cached) {
+    return cached.rendered;
+  }
+
+  const rendered = renderMarkdown(markdown || '');
+
+  if (renders.size >= MAX_ENTRIES) {
+    renders.delete(renders.keys().next().value!);
+  }
+  renders.set(revisionId, { lessonId, rendered });
+
+  return rendered;
+}
+
+/**
+ * Drop the cached renders of a lesson's revisions
+ */
+export function invalidateLesson(lessonId: number): void {
+  for (const [revisionId, entry] of renders) {
+    if (entry.lessonId === lessonId) {
+      renders.delete(revisionId);
+    }
+  }
+}
@@ -0,0 +1,67 @@
+/**
+ * Video hosts that may be embedded in lesson content
+ *
+ * A paragraph that consists of nothing but a link to one of these hosts is
+ * rendered as an iframe pointing at the host's own player. Any other URL stays
+ * a plain link, so lesson authors cannot frame arbitrary pages.
+ */
+
+interface EmbedProvider {
+  name: string;
+  hosts: string[];
+  // Extract the video ID from a parsed URL, or null if the URL is not a video
+  match: (url: URL) => string | null;
+  embedUrl: (id: string) => string;
+}
+
+const YOUTUBE_ID = /^[\w-]{11}$/;
+
+const PROVIDERS: EmbedProvider[] = [
+  {
+    name: 'youtube',
+    hosts: ['youtube.com', 'www.youtube.com', 'm.youtube.com', 'youtu.be', 'www.youtube-nocookie.com'],
+    match: url => {
+      const id = url.hostname === 'youtu.be'
+        ? url.pathname.slice(1)
+        : url.pathname === '/watch'
+          ? url.searchParams.get('v')
+          : url.pathname.match(/^\/(?:embed|shorts)\/([^/]+)$/)?.[1] ?? null;
+      return id && YOUTUBE_ID.test(id) ? id : null;
+    },
+    embedUrl: id => `https://www.youtube-nocookie.com/embed/${id}`
+  },
+  {
+    name: 'vimeo',
+    hosts: ['vimeo.com', 'www.vimeo.com', 'player.vimeo.com'],
+    match: url => url.pathname.match(/^\/(?:video\/)?(\d+)$/)?.[1] ?? null,
+    embedUrl: id => `https://player.vimeo.com/video/${id}`
+  },
+  {
+    name: 'loom',
+    hosts: ['loom.com', 'www.loom.com'],
+    match: url => url.pathname.match(/^\/(?:share|embed)\/([0-9a-f]{32})$/)?.[1] ?? null,
+    embedUrl: id => `https://www.loom.com/embed/${id}`
+  }
+];
+
+/**
+ * The player URL for a link to a whitelisted video host
+ * @returns null for any other URL
+ */
+export function toEmbedUrl(link: string): { provider: string; src: string } | null {
+  let url: URL;
+  try {
+    url = new URL(link);
+  } catch {
+    return null;
+  }
+
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    return null;
+  }
+
+  const provider = PROVIDERS.find(candidate => candidate.hosts.includes(url.hostname.toLowerCase()));
+  const id = provider?.match(url);
+
+  return provider && id ? { provider: provider.name, src: provider.embedUrl(id) } : null;
+}
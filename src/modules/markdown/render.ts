@@ -0,0 +1,365 @@
+import { toEmbedUrl } from './embeds';
+
+/**
+ * Markdown to sanitized HTML for lesson content
+ *
+ * Covers CommonMark's everyday subset: headings, paragraphs, emphasis, links,
+ * images, lists, blockquotes, rules, inline code and fenced code blocks, plus
+ * math ($inline$ and $$display$$) and video embeds.
+ *
+ * Safety comes from construction rather than filtering: every character of
+ * the source is HTML-escaped and only the tags built here are emitted, so raw
+ * HTML (including <script>, event handlers and <iframe>) shows up as text.
+ * Link and image URLs must be http(s), mailto or relative; anything else
+ * (javascript:, data:, vbscript:, ...) is dropped and only the text is kept.
+ *
+ * Code blocks get a `language-<name>` class and math is left as TeX inside
+ * `math-inline` / `math-display` elements for client-side highlighters and
+ * math renderers.
+ */
+
+export interface TocEntry {
+  level: number;
+  text: string;
+  id: string;
+}
+
+export interface RenderedMarkdown {
+  html: string;
+  toc: TocEntry[];
+}
+
+interface RenderContext {
+  toc: TocEntry[];
+  slugs: Map<string, number>;
+  placeholders: string[];
+  sources: string[]; // The markdown each placeholder stands for, by index
+}
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([\w+#.-]*)[^`]*$/;
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const BLOCKQUOTE = /^ {0,3}>\s?/;
+const BULLET_ITEM = /^( {0,3})([-*+])\s+(.*)$/;
+const ORDERED_ITEM = /^( {0,3})(\d{1,9})[.)]\s+(.*)$/;
+const MATH_FENCE = /^ {0,3}\$\$\s*$/;
+const MATH_LINE = /^ {0,3}\$\$(.+)\$\$\s*$/;
+
+// Placeholders survive escaping and emphasis untouched
+const PLACEHOLDER = /\u0000(\d+)\u0000/g;
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * A URL that is safe in href/src, or null
+ */
+export function safeUrl(url: string): string | null {
+  const trimmed = url.trim();
+  // Browsers ignore control characters and whitespace when reading the scheme
+  const normalized = trimmed.replace(/[\u0000- \u007f]/g, '');
+
+  const scheme = normalized.match(/^([a-z][a-z0-9+.-]*):/i)?.[1].toLowerCase();
+  if (scheme === undefined) {
+    return trimmed.length > 0 ? trimmed : null;
+  }
+
+  return ['http', 'https', 'mailto'].includes(scheme) ? trimmed : null;
+}
+
+function isBlank(line: string): boolean {
+  return line.trim().length === 0;
+}
+
+function startsBlock(line: string): boolean {
+  return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || BLOCKQUOTE.test(line) ||
+    BULLET_ITEM.test(line) || ORDERED_ITEM.test(line) || MATH_FENCE.test(line) || MATH_LINE.test(line);
+}
+
+function slugify(text: string, context: RenderContext): string {
+  const base = text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s-]/gu, '')
+    .trim()
+    .replace(/\s+/g, '-') || 'section';
+
+  const seen = context.slugs.get(base) || 0;
+  context.slugs.set(base, seen + 1);
+  return seen === 0 ? base : `${base}-${seen}`;
+}
+
+function hold(context: RenderContext, html: string, source: string): string {
+  context.placeholders.push(html);
+  context.sources.push(source);
+  return `\u0000${context.placeholders.length - 1}\u0000`;
+}
+
+function restore(html: string, context: RenderContext): string {
+  // Placeholders can contain placeholders (e.g. code inside a link)
+  while (html.includes('\u0000')) {
+    html = html.replace(PLACEHOLDER, (_, index) => context.placeholders[parseInt(index)]);
+  }
+  return html;
+}
+
+/**
+ * Put the markdown back in place of placeholders. URLs, alt text and titles
+ * are attribute values: they are read as plain text and escaped once, never
+ * given held HTML, whose quotes would end the attribute.
+ */
+function unhold(text: string, context: RenderContext): string {
+  while (text.includes('\u0000')) {
+    text = text.replace(PLACEHOLDER, (_, index) => context.sources[parseInt(index)]);
+  }
+  return text;
+}
+
+/**
+ * Render inline markdown to HTML (placeholders are restored by the caller)
+ */
+function renderInline(text: string, context: RenderContext): string {
+  let result = text;
+
+  // Code spans first: nothing inside them is markdown
+  result = result.replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (match: string, __, code: string) =>
+    hold(context, `<code>${escapeHtml(code.trim())}</code>`, match)
+  );
+
+  // Backslash escapes and hard breaks
+  result = result.replace(/\\\n/g, () => hold(context, '<br>\n', '\n'));
+  result = result.replace(/\\([\\`*_{}[\]()#+\-.!$>~|<])/g, (_, char: string) => hold(context, escapeHtml(char), char));
+
+  // Inline math: $...$ with no whitespace just inside the dollars
+  result = result.replace(/\$(?=\S)([^$\n]*?\S)\$/g, (match: string, tex: string) =>
+    hold(context, `<span class="math math-inline">${escapeHtml(tex)}</span>`, match)
+  );
+
+  // Images
+  result = result.replace(/!\[([^\]]*)\]\(\s*((?:[^\s()]|\([^\s()]*\))+)(?:\s+"([^"]*)")?\s*\)/g, (match: string, alt: string, url: string, title?: string) => {
+    const src = safeUrl(unhold(url, context));
+    const altText = unhold(alt, context);
+    if (!src) {
+      return hold(context, escapeHtml(altText), match);
+    }
+    const titleAttr = title ? ` title="${escapeHtml(unhold(title, context))}"` : '';
+    return hold(context, `<img src="${escapeHtml(src)}" alt="${escapeHtml(altText)}"${titleAttr} loading="lazy">`, match);
+  });
+
+  // Links
+  result = result.replace(/\[([^\]]+)\]\(\s*((?:[^\s()]|\([^\s()]*\))+)(?:\s+"([^"]*)")?\s*\)/g, (match: string, label: string, url: string, title?: string) => {
+    const href = safeUrl(unhold(url, context));
+    const inner = renderInline(label, context);
+    if (!href) {
+      return hold(context, inner, match);
+    }
+    const titleAttr = title ? ` title="${escapeHtml(unhold(title, context))}"` : '';
+    return hold(context, `<a href="${escapeHtml(href)}"${titleAttr} rel="nofollow noopener noreferrer">${inner}</a>`, match);
+  });
+
+  // Autolinks
+  result = result.replace(/<((?:https?:\/\/|mailto:)[^\s<>]+)>/gi, (match: string, url: string) => {
+    const href = unhold(url, context);
+    return hold(context, `<a href="${escapeHtml(href)}" rel="nofollow noopener noreferrer">${escapeHtml(href)}</a>`, match);
+  });
+
+  result = escapeHtml(result);
+
+  result = result
+    .replace(/\*\*(?=\S)([\s\S]*?\S)\*\*/g, '<strong>$1</strong>')
+    .replace(/(^|[^\w])__(?=\S)([\s\S]*?\S)__(?!\w)/g, '$1<strong>$2</strong>')
+    .replace(/\*(?=\S)([\s\S]*?\S)\*/g, '<em>$1</em>')
+    .replace(/(^|[^\w])_(?=\S)([\s\S]*?\S)_(?!\w)/g, '$1<em>$2</em>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>')
+    .replace(/ {2,}\n/g, '<br>\n');
+
+  return result;
+}
+
+function renderParagraph(lines: string[], context: RenderContext): string {
+  // Keep trailing spaces inside the paragraph: two of them mark a hard break
+  const text = lines.map(line => line.replace(/^\s+/, '')).join('\n').trimEnd();
+
+  const embed = /^\S+$/.test(text) ? toEmbedUrl(text.replace(/^<|>$/g, '')) : null;
+  if (embed) {
+    return `<div class="video-embed video-embed-${embed.provider}">` +
+      `<iframe src="${escapeHtml(embed.src)}" title="Embedded video" loading="lazy" ` +
+      'allow="encrypted-media; picture-in-picture; fullscreen" allowfullscreen ' +
+      'sandbox="allow-scripts allow-same-origin allow-presentation" referrerpolicy="strict-origin-when-cross-origin">' +
+      '</iframe></div>';
+  }
+
+  return `<p>${renderInline(text, context)}</p>`;
+}
+
+function renderList(lines: string[], start: number, ordered: boolean, context: RenderContext): [string, number] {
+  const marker = ordered ? ORDERED_ITEM : BULLET_ITEM;
+  const items: string[][] = [];
+  const baseIndent = lines[start].match(marker)![1].length;
+  let firstNumber = 1;
+  let i = start;
+
+  while (i < lines.length) {
+    const match = lines[i].match(marker);
+    // Items indented past the list's own items belong to a nested list
+    if (match && match[1].length < baseIndent + 2) {
+      if (items.length === 0 && ordered) {
+        firstNumber = parseInt(match[2]);
+      }
+      items.push([match[3]]);
+      i++;
+      continue;
+    }
+
+    // Indented lines (and blank lines followed by them) continue the current item
+    if (isBlank(lines[i])) {
+      const next = lines[i + 1];
+      if (next !== undefined && (/^\s{2,}\S/.test(next) || marker.test(next))) {
+        items[items.length - 1].push('');
+        i++;
+        continue;
+      }
+      break;
+    }
+    if (/^\s{2,}\S/.test(lines[i])) {
+      items[items.length - 1].push(lines[i].replace(/^\s{2,4}/, ''));
+      i++;
+      continue;
+    }
+    if (!startsBlock(lines[i])) {
+      // Lazy continuation of the item's paragraph
+      items[items.length - 1].push(lines[i]);
+      i++;
+      continue;
+    }
+    break;
+  }
+
+  const html = items.map(itemLines => {
+    const inner = renderBlocks(itemLines, context);
+    // Items without blank lines are tight: their leading paragraph is not wrapped in <p>
+    const tight = !itemLines.includes('');
+    return `<li>${tight ? inner.replace(/^<p>([\s\S]*?)<\/p>/, '$1') : inner}</li>`;
+  }).join('\n');
+
+  const tag = ordered ? 'ol' : 'ul';
+  const startAttr = ordered && firstNumber !== 1 ? ` start="${firstNumber}"` : '';
+  return [`<${tag}${startAttr}>\n${html}\n</${tag}>`, i];
+}
+
+/**
+ * Render block-level markdown to HTML
+ */
+function renderBlocks(lines: string[], context: RenderContext): string {
+  const output: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const closing = new RegExp(`^ {0,3}${fence[1][0]}{${fence[1].length},}\\s*$`);
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !closing.test(lines[i])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++; // Closing fence (or end of input)
+
+      const language = fence[2] ? ` class="language-${escapeHtml(fence[2].toLowerCase())}"` : '';
+      output.push(`<pre><code${language}>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    const mathLine = line.match(MATH_LINE);
+    if (mathLine) {
+      output.push(`<div class="math math-display">${escapeHtml(mathLine[1].trim())}</div>`);
+      i++;
+      continue;
+    }
+
+    if (MATH_FENCE.test(line)) {
+      const tex: string[] = [];
+      i++;
+      while (i < lines.length && !MATH_FENCE.test(lines[i])) {
+        tex.push(lines[i]);
+        i++;
+      }
+      i++;
+      output.push(`<div class="math math-display">${escapeHtml(tex.join('\n').trim())}</div>`);
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      const level = heading[1].length;
+      const inner = restore(renderInline(heading[2] || '', context), context);
+      const text = inner
+        .replace(/<[^>]*>/g, '')
+        .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&#39;/g, "'")
+        .replace(/&amp;/g, '&');
+      const id = slugify(text, context);
+
+      context.toc.push({ level, text, id });
+      output.push(`<h${level} id="${escapeHtml(id)}">${inner}</h${level}>`);
+      i++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      output.push('<hr>');
+      i++;
+      continue;
+    }
+
+    if (BLOCKQUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && !isBlank(lines[i]) && (BLOCKQUOTE.test(lines[i]) || !startsBlock(lines[i]))) {
+        quoted.push(lines[i].replace(BLOCKQUOTE, ''));
+        i++;
+      }
+      output.push(`<blockquote>\n${renderBlocks(quoted, context)}\n</blockquote>`);
+      continue;
+    }
+
+    if (BULLET_ITEM.test(line) || ORDERED_ITEM.test(line)) {
+      const [html, next] = renderList(lines, i, ORDERED_ITEM.test(line), context);
+      output.push(html);
+      i = next;
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && !isBlank(lines[i]) && (paragraph.length === 0 || !startsBlock(lines[i]))) {
+      paragraph.push(lines[i]);
+      i++;
+    }
+    output.push(renderParagraph(paragraph, context));
+  }
+
+  return output.join('\n');
+}
+
+/**
+ * Render lesson markdown to sanitized HTML with a table of contents
+ */
+export function renderMarkdown(markdown: string): RenderedMarkdown {
+  const context: RenderContext = { toc: [], slugs: new Map(), placeholders: [], sources: [] };
+  const lines = markdown.replace(/\r\n?/g, '\n').replace(/\u0000/g, '�').split('\n');
+
+  const html = restore(renderBlocks(lines, context), context);
+
+  return { html, toc: context.toc };
+}
@@ -0,0 +1,77 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { config } from '../../config';
+
+/**
+ * Outgoing email as stored in the outbox (topic: mail.send)
+ */
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  template?: string; // e.g. 'password_reset', 'email_verification'
+}
+
+/**
+ * A mail sink delivers messages picked up by the notifications worker.
+ * Only local sinks exist today; a real SMTP/API transport can implement
+ * the same interface.
+ */
+export interface MailSink {
+  readonly name: string;
+  send(message: MailMessage, eventId: number): Promise<void>;
+}
+
+/**
+ * Prints emails to the server console
+ */
+export class ConsoleMailSink implements MailSink {
+  readonly name = 'console';
+
+  async send(message: MailMessage, eventId: number): Promise<void> {
+    console.log(
+      `✉️  [mail #${eventId}] To: ${message.to} | Subject: ${message.subject}\n${message.text}`
+    );
+  }
+}
+
+/**
+ * Writes each email as an .eml file to var/mail for local inspection
+ */
+export class FileMailSink implements MailSink {
+  readonly name = 'file';
+  private readonly mailDir: string;
+
+  constructor(mailDir: string = path.join(process.cwd(), 'var', 'mail')) {
+    this.mailDir = mailDir;
+
+    if (!fs.existsSync(this.mailDir)) {
+      fs.mkdirSync(this.mailDir, { recursive: true });
+    }
+  }
+
+  async send(message: MailMessage, eventId: number): Promise<void> {
+    const date = new Date();
+    const fileName = `${date.getTime()}-${eventId}.eml`;
+    const content = [
+      `From: ${config.mailFrom}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      `Date: ${date.toUTCString()}`,
+      'Content-Type: text/plain; charset=utf-8',
+      message.template ? `X-LearnLite-Template: ${message.template}` : null,
+      '',
+      message.text,
+      ''
+    ].filter(line => line !== null).join('\r\n');
+
+    fs.writeFileSync(path.join(this.mailDir, fileName), content);
+  }
+}
+
+/**
+ * Create the configured mail sink
+ */
+export function createMailSink(kind: 'console' | 'file' = config.mailSink): MailSink {
+  return kind === 'file' ? new FileMailSink() : new ConsoleMailSink();
+}
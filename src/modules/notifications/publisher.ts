@@ -1,20 +1,28 @@
-import { db } from '../../db';
+import { db, PoolClient } from '../../db';
+import { MailMessage } from './mailer';
+
+const INSERT_EVENT = `
+  INSERT INTO outbox_events (topic, payload, processed)
+  VALUES ($1, $2, false)
+  RETURNING id
+`;
 
 /**
  * Publishes an event to the outbox_events table for async processing
  * @param topic - Event topic (e.g., 'enrollment.created', 'certificate.issued')
  * @param payload - Event payload data
+ * @param client - Transaction to write the event in, so it is queued only if the transaction commits.
+ *   Errors are then thrown rather than logged, since a failed insert aborts the transaction.
  * @returns The created event ID or null if publishing fails
  */
-export async function publish(topic: string, payload: any): Promise<number | null> {
+export async function publish(topic: string, payload: any, client?: PoolClient): Promise<number | null> {
+  if (client) {
+    const result = await client.query(INSERT_EVENT, [topic, JSON.stringify(payload)]);
+    return result.rows[0]?.id ?? null;
+  }
+
   try {
-    const query = `
-      INSERT INTO outbox_events (topic, payload, processed)
-      VALUES ($1, $2, false)
-      RETURNING id
-    `;
-    
-    const result = await db.query(query, [topic, JSON.stringify(payload)]);
+    const result = await db.query(INSERT_EVENT, [topic, JSON.stringify(payload)]);
     
     if (result.rows.length > 0) {
       return result.rows[0].id;
@@ -27,6 +35,15 @@ export async function publish(topic: string, payload: any): Promise<number | nul
   }
 }
 
+/**
+ * Queues an email in the outbox; the worker delivers it through the configured mail sink.
+ * Mail is always queued (even with the worker disabled) so it is sent once the worker runs.
+ * @returns The created event ID or null if publishing fails
+ */
+export async function enqueueMail(message: MailMessage): Promise<number | null> {
+  return publish('mail.send', message);
+}
+
 /**
  * Helper to check if notifications are enabled
  */
@@ -1,6 +1,7 @@
 import { db } from '../../db';
 import * as fs from 'fs';
 import * as path from 'path';
+import { createMailSink, MailSink } from './mailer';
 
 export class NotificationsWorker {
   private intervalId: NodeJS.Timeout | null = null;
@@ -11,11 +12,13 @@ export class NotificationsWorker {
   private readonly batchSize = 50;
   private readonly sink: 'console' | 'file';
   private readonly logFile: string;
+  private readonly mailSink: MailSink;
   private isShuttingDown = false;
 
   constructor() {
     this.sink = (process.env.NOTIFICATIONS_SINK as 'console' | 'file') || 'console';
     this.logFile = path.join(process.cwd(), 'var', 'notifications.log');
+    this.mailSink = createMailSink();
     
     // Ensure var directory exists if using file sink
     if (this.sink === 'file') {
@@ -35,7 +38,7 @@ export class NotificationsWorker {
       return;
     }
 
-    console.log(`📬 Notifications worker: enabled, sink=${this.sink}, interval=${this.interval}ms`);
+    console.log(`📬 Notifications worker: enabled, sink=${this.sink}, mail=${this.mailSink.name}, interval=${this.interval}ms`);
     
     // Run immediately on start
     this.processEvents();
@@ -134,8 +137,14 @@ export class NotificationsWorker {
 
   /**
    * Send a notification (log to console or file)
+   * Mail events are handed to the mail sink instead
    */
   private async sendNotification(event: any): Promise<void> {
+    if (event.topic === 'mail.send') {
+      await this.mailSink.send(event.payload, event.id);
+      return;
+    }
+
     const timestamp = new Date().toISOString();
     const message = {
       timestamp,
@@ -178,13 +187,15 @@ export class NotificationsWorker {
     lastRunAt: Date | null;
     pendingEstimate: number;
     sink: string;
+    mailSink: string;
   } {
     return {
       enabled: true,
       interval: this.interval,
       lastRunAt: this.lastRunAt,
       pendingEstimate: this.pendingCount,
-      sink: this.sink
+      sink: this.sink,
+      mailSink: this.mailSink.name
     };
   }
 }
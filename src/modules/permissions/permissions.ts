@@ -0,0 +1,213 @@
+/**
+ * Named permissions and the grants that hand them out
+ *
+ * A user holds a permission when any of these grants it:
+ * - their role (ROLE_PERMISSIONS), everywhere
+ * - a relationship with the course the resource belongs to (COURSE_RELATIONSHIP_PERMISSIONS)
+ * - being the user the resource belongs to (OWNER_PERMISSIONS)
+ * - the course being published (PUBLISHED_COURSE_PERMISSIONS), even without a login
+ * - the course being a template (TEMPLATE_COURSE_PERMISSIONS), to users whose role grants course.create
+ *
+ * A new role or course relationship only needs entries here (and a resolver in
+ * policy.ts for relationships); services and controllers ask for permissions, not roles.
+ */
+
+export const PERMISSIONS = [
+  // Courses
+  'course.create',
+  'course.view',
+  'course.view_all', // List every course, published or not
+  'course.list_taught', // List the courses one owns or staffs, published or not
+  'course.edit',
+  'course.publish',
+  'course.assign_instructor',
+  'course.delete',
+  'course.view_staff',
+  'course.manage_staff',
+  'course.transfer',
+  'course.manage_storage', // Override a course's attachment storage quota
+  'course.clone',
+  'course.export', // Download the course as a portable package
+  'course.manage_templates', // Mark courses as templates any instructor can clone
+  'course.rate',
+
+  // Catalog
+  'category.manage',
+
+  // Modules (sections of lessons; viewing them is lesson.view)
+  'module.create',
+  'module.edit',
+  'module.delete',
+
+  // Lessons
+  'lesson.view',
+  'lesson.create',
+  'lesson.edit', // Also covers drafts and revision history
+  'lesson.publish', // Make a lesson's draft visible to viewers
+  'lesson.delete',
+
+  // Quizzes
+  'quiz.view',
+  'quiz.view_answers',
+  'quiz.manage',
+  'quiz.submit',
+  'quiz.view_submissions',
+
+  // Assignments
+  'assignment.view',
+  'assignment.manage',
+  'assignment.submit',
+  'assignment.grade', // Grade submissions, release grades and answer regrade requests
+
+  // Gradebook
+  'gradebook.view_course', // Every student's grades
+  'gradebook.view_own', // One's own released grades
+
+  // Enrollments and progress
+  'enrollment.create',
+  'enrollment.view_course',
+  'enrollment.update_status',
+  'progress.view_course',
+
+  // Certificates
+  'certificate.issue',
+  'certificate.claim',
+  'certificate.view_course',
+
+  // Users
+  'user.list',
+  'user.create',
+  'user.view',
+  'user.edit',
+  'user.change_role',
+  'user.set_password', // Set a password without knowing the current one
+  'user.unlock',
+  'user.reset_mfa',
+  'user.delete',
+
+  // Instructor applications
+  'instructor_application.create',
+  'instructor_application.view',
+  'instructor_application.list',
+  'instructor_application.review',
+
+  // Security settings
+  'mfa_policy.manage'
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+export const ROLE_PERMISSIONS: Record<string, readonly Permission[]> = {
+  admin: PERMISSIONS,
+  instructor: [
+    'course.create',
+    'course.list_taught'
+  ],
+  student: [
+    'enrollment.create',
+    'certificate.claim',
+    'instructor_application.create'
+  ]
+};
+
+// owner: the course's instructor_id
+// co_instructor, ta: listed in course_staff with that role
+// student: holds an active enrollment in the course
+export type CourseRelationship = 'owner' | 'co_instructor' | 'ta' | 'student';
+
+export const COURSE_RELATIONSHIP_PERMISSIONS: Record<CourseRelationship, readonly Permission[]> = {
+  owner: [
+    'course.view',
+    'course.edit',
+    'course.publish',
+    'course.view_staff',
+    'course.manage_staff',
+    'course.transfer',
+    'course.clone',
+    'course.export',
+    'module.create',
+    'module.edit',
+    'module.delete',
+    'lesson.view',
+    'lesson.create',
+    'lesson.edit',
+    'lesson.publish',
+    'lesson.delete',
+    'quiz.view',
+    'quiz.view_answers',
+    'quiz.manage',
+    'quiz.view_submissions',
+    'assignment.view',
+    'assignment.manage',
+    'assignment.grade',
+    'gradebook.view_course',
+    'enrollment.view_course',
+    'progress.view_course',
+    'certificate.issue',
+    'certificate.view_course'
+  ],
+  co_instructor: [
+    'course.view',
+    'course.view_staff',
+    'course.clone',
+    'course.export',
+    'module.create',
+    'module.edit',
+    'module.delete',
+    'lesson.view',
+    'lesson.create',
+    'lesson.edit',
+    'lesson.publish',
+    'lesson.delete',
+    'quiz.view',
+    'quiz.view_answers',
+    'quiz.manage',
+    'quiz.view_submissions',
+    'assignment.view',
+    'assignment.manage',
+    'assignment.grade',
+    'gradebook.view_course',
+    'enrollment.view_course',
+    'progress.view_course',
+    'certificate.view_course'
+  ],
+  ta: [
+    'course.view',
+    'course.view_staff',
+    'lesson.view',
+    'quiz.view',
+    'quiz.view_answers',
+    'quiz.view_submissions',
+    'assignment.view',
+    'assignment.grade',
+    'gradebook.view_course',
+    'progress.view_course'
+  ],
+  student: [
+    'quiz.submit',
+    'assignment.submit',
+    'gradebook.view_own',
+    'course.rate'
+  ]
+};
+
+export const OWNER_PERMISSIONS: readonly Permission[] = [
+  'user.view',
+  'user.edit',
+  'instructor_application.view'
+];
+
+export const PUBLISHED_COURSE_PERMISSIONS: readonly Permission[] = [
+  'course.view',
+  'lesson.view',
+  'quiz.view',
+  'assignment.view'
+];
+
+export const TEMPLATE_COURSE_PERMISSIONS: readonly Permission[] = [
+  'course.view',
+  'course.clone',
+  'lesson.view',
+  'quiz.view',
+  'assignment.view'
+];
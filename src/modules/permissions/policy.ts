@@ -0,0 +1,122 @@
+import { db } from '../../db';
+import {
+  Permission,
+  CourseRelationship,
+  ROLE_PERMISSIONS,
+  COURSE_RELATIONSHIP_PERMISSIONS,
+  OWNER_PERMISSIONS,
+  PUBLISHED_COURSE_PERMISSIONS,
+  TEMPLATE_COURSE_PERMISSIONS
+} from './permissions';
+
+/**
+ * Permission checks against the user, the resource and its relationships
+ */
+
+export interface Principal {
+  id: number;
+  role: string;
+}
+
+export interface CourseResource {
+  id: number;
+  instructor_id: number | null;
+  published: boolean;
+  is_template?: boolean;
+}
+
+export interface PolicyContext {
+  course?: CourseResource; // The course the resource belongs to
+  ownerId?: number; // The user the resource belongs to
+}
+
+type RelationshipResolver = (principal: Principal, course: CourseResource) => boolean | Promise<boolean>;
+
+async function getStaffRole(principal: Principal, course: CourseResource): Promise<string | null> {
+  const result = await db.query(
+    'SELECT role FROM course_staff WHERE course_id = $1 AND user_id = $2',
+    [course.id, principal.id]
+  );
+  return result.rows[0]?.role || null;
+}
+
+const COURSE_RELATIONSHIPS: Record<CourseRelationship, RelationshipResolver> = {
+  owner: (principal, course) => course.instructor_id === principal.id,
+
+  co_instructor: async (principal, course) => await getStaffRole(principal, course) === 'co_instructor',
+
+  ta: async (principal, course) => await getStaffRole(principal, course) === 'ta',
+
+  student: async (principal, course) => {
+    const result = await db.query(
+      `SELECT 1 FROM enrollments WHERE user_id = $1 AND course_id = $2 AND status = 'active'`,
+      [principal.id, course.id]
+    );
+    return result.rows.length > 0;
+  }
+};
+
+/**
+ * Check a permission granted by role alone (no resource involved)
+ */
+export function hasRolePermission(role: string, permission: Permission): boolean {
+  return (ROLE_PERMISSIONS[role] || []).includes(permission);
+}
+
+/**
+ * Check whether a user (or an anonymous visitor) holds a permission
+ * Relationships are only resolved when they could grant the permission.
+ */
+export async function can(
+  principal: Principal | null | undefined,
+  permission: Permission,
+  context: PolicyContext = {}
+): Promise<boolean> {
+  const { course, ownerId } = context;
+
+  if (course?.published && PUBLISHED_COURSE_PERMISSIONS.includes(permission)) {
+    return true;
+  }
+
+  if (!principal) {
+    return false;
+  }
+
+  if (hasRolePermission(principal.role, permission)) {
+    return true;
+  }
+
+  if (ownerId !== undefined && ownerId === principal.id && OWNER_PERMISSIONS.includes(permission)) {
+    return true;
+  }
+
+  if (course?.is_template && TEMPLATE_COURSE_PERMISSIONS.includes(permission) && hasRolePermission(principal.role, 'course.create')) {
+    return true;
+  }
+
+  if (course) {
+    const relationships = Object.keys(COURSE_RELATIONSHIPS) as CourseRelationship[];
+    for (const relationship of relationships) {
+      if (
+        COURSE_RELATIONSHIP_PERMISSIONS[relationship].includes(permission) &&
+        await COURSE_RELATIONSHIPS[relationship](principal, course)
+      ) {
+        return true;
+      }
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Load the fields of a course the policy needs
+ * @returns The course, or null if it does not exist
+ */
+export async function getCourseResource(courseId: number): Promise<CourseResource | null> {
+  const result = await db.query(
+    'SELECT id, instructor_id, published, is_template FROM courses WHERE id = $1',
+    [courseId]
+  );
+  return result.rows[0] || null;
+}
@@ -0,0 +1,71 @@
+/**
+ * File types accepted as lesson attachments
+ *
+ * The declared Content-Type must be on the list and the first bytes of the
+ * file must match it, so an HTML page or executable cannot be uploaded as a
+ * "PDF" and later served from our origin.
+ */
+
+const PDF = [0x25, 0x50, 0x44, 0x46, 0x2d]; // %PDF-
+const ZIP = [0x50, 0x4b, 0x03, 0x04]; // PK.. (OOXML and OpenDocument are zip files)
+const OLE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]; // Legacy Office documents
+const PARQUET = [0x50, 0x41, 0x52, 0x31]; // PAR1
+
+// Leading bytes each type must start with; 'text' means UTF-8 without NUL bytes
+const ALLOWED_TYPES: Record<string, number[] | 'text'> = {
+  // Documents and slide decks
+  'application/pdf': PDF,
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': ZIP,
+  'application/vnd.ms-powerpoint': OLE,
+  'application/vnd.oasis.opendocument.presentation': ZIP,
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ZIP,
+
+  // Datasets
+  'text/csv': 'text',
+  'text/tab-separated-values': 'text',
+  'text/plain': 'text',
+  'text/markdown': 'text',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ZIP,
+  'application/vnd.ms-excel': OLE,
+  'application/vnd.oasis.opendocument.spreadsheet': ZIP,
+  'application/vnd.apache.parquet': PARQUET,
+  'application/zip': ZIP
+};
+
+export const ALLOWED_CONTENT_TYPES = Object.keys(ALLOWED_TYPES);
+
+/**
+ * Media type without parameters, lowercased ("text/csv; charset=utf-8" -> "text/csv")
+ */
+export function normalizeContentType(contentType: string | undefined): string {
+  return (contentType || '').split(';')[0].trim().toLowerCase();
+}
+
+function isUtf8Text(data: Buffer): boolean {
+  if (data.includes(0)) {
+    return false;
+  }
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(data);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Check a file against its declared content type
+ * @returns An error message, or null when the file is acceptable
+ */
+export function checkFileType(contentType: string, data: Buffer): string | null {
+  const magic = ALLOWED_TYPES[contentType];
+  if (!magic) {
+    return `Content type ${contentType || '(none)'} is not allowed; allowed types: ${ALLOWED_CONTENT_TYPES.join(', ')}`;
+  }
+
+  const matches = magic === 'text'
+    ? isUtf8Text(data)
+    : magic.every((byte, index) => data[index] === byte);
+
+  return matches ? null : `File content does not match content type ${contentType}`;
+}
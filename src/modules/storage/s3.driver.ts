@@ -0,0 +1,157 @@
+import crypto from 'crypto';
+import type { StorageDriver } from './storage';
+
+/**
+ * Stores objects in an S3-compatible bucket (AWS S3, MinIO, scripts/mock-s3.ts)
+ *
+ * Requests are signed with AWS Signature Version 4 and address objects
+ * path-style (<endpoint>/<bucket>/<key>), which every S3-compatible server
+ * understands. No SDK is needed for the four calls we make.
+ */
+
+export interface S3Options {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+}
+
+export interface SignableRequest {
+  method: string;
+  path: string; // URI-encoded, as sent
+  query?: string; // Canonical query string, empty for none
+  headers: Record<string, string>; // Must include host and x-amz-date
+  payloadHash: string; // Hex SHA-256 of the body
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+/**
+ * Encode a key the way SigV4 canonicalizes paths (slashes kept)
+ */
+export function encodeS3Path(key: string): string {
+  return key
+    .split('/')
+    .map(segment => encodeURIComponent(segment).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`))
+    .join('/');
+}
+
+/**
+ * The SigV4 signature of a request
+ * The date and credential scope come from the x-amz-date header.
+ */
+export function signRequest(
+  request: SignableRequest,
+  credentials: { secretAccessKey: string; region: string },
+  service = 's3'
+): { signature: string; scope: string; signedHeaders: string } {
+  const amzDate = request.headers['x-amz-date'];
+  const date = amzDate.slice(0, 8);
+  const scope = `${date}/${credentials.region}/${service}/aws4_request`;
+
+  const headerNames = Object.keys(request.headers).map(name => name.toLowerCase()).sort();
+  const lowerHeaders = Object.fromEntries(
+    Object.entries(request.headers).map(([name, value]) => [name.toLowerCase(), value])
+  );
+  const canonicalHeaders = headerNames
+    .map(name => `${name}:${String(lowerHeaders[name]).trim().replace(/\s+/g, ' ')}\n`)
+    .join('');
+  const signedHeaders = headerNames.join(';');
+
+  const canonicalRequest = [
+    request.method,
+    request.path,
+    request.query || '',
+    canonicalHeaders,
+    signedHeaders,
+    request.payloadHash
+  ].join('\n');
+
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+  const signingKey = hmac(
+    hmac(hmac(hmac(`AWS4${credentials.secretAccessKey}`, date), credentials.region), service),
+    'aws4_request'
+  );
+
+  return {
+    signature: crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex'),
+    scope,
+    signedHeaders
+  };
+}
+
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3';
+  private readonly options: S3Options;
+
+  constructor(options: S3Options) {
+    this.options = options;
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    const response = await this.request('PUT', key, data, { 'content-type': contentType });
+    if (!response.ok) {
+      throw new Error(`S3 PUT ${key} failed with status ${response.status}`);
+    }
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const response = await this.request('GET', key);
+    if (response.status === 404) {
+      return null;
+    }
+    if (!response.ok) {
+      throw new Error(`S3 GET ${key} failed with status ${response.status}`);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', key);
+    if (!response.ok && response.status !== 404) {
+      throw new Error(`S3 DELETE ${key} failed with status ${response.status}`);
+    }
+  }
+
+  private async request(
+    method: string,
+    key: string,
+    body?: Buffer,
+    extraHeaders: Record<string, string> = {}
+  ): Promise<Response> {
+    const url = new URL(`${this.options.endpoint}/${encodeS3Path(this.options.bucket)}/${encodeS3Path(key)}`);
+    const payloadHash = sha256Hex(body || '');
+
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-date': new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, ''),
+      'x-amz-content-sha256': payloadHash,
+      ...extraHeaders
+    };
+
+    const { signature, scope, signedHeaders } = signRequest(
+      { method, path: url.pathname, headers, payloadHash },
+      this.options
+    );
+
+    // fetch sets Host itself
+    const { host, ...sentHeaders } = headers;
+
+    return fetch(url, {
+      method,
+      headers: {
+        ...sentHeaders,
+        authorization: `AWS4-HMAC-SHA256 Credential=${this.options.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+      },
+      body
+    });
+  }
+}
@@ -0,0 +1,46 @@
+import { config } from '../../config';
+import { LocalStorageDriver } from './local.driver';
+import { S3StorageDriver } from './s3.driver';
+
+/**
+ * Where uploaded files are kept
+ *
+ * Drivers store opaque objects under a key; the database owns everything else
+ * (file names, content types, who may read them). Local disk is the default,
+ * an S3-compatible bucket the optional alternative.
+ */
+export interface StorageDriver {
+  readonly name: string;
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  // null when there is no object under the key
+  get(key: string): Promise<Buffer | null>;
+  // Deleting a missing object is not an error
+  delete(key: string): Promise<void>;
+}
+
+let driver: StorageDriver | null = null;
+
+/**
+ * Create a storage driver
+ */
+export function createStorageDriver(kind: 'local' | 's3' = config.storageDriver): StorageDriver {
+  return kind === 's3'
+    ? new S3StorageDriver({
+      endpoint: config.storageS3Endpoint,
+      region: config.storageS3Region,
+      bucket: config.storageS3Bucket,
+      accessKeyId: config.storageS3AccessKeyId,
+      secretAccessKey: config.storageS3SecretAccessKey
+    })
+    : new LocalStorageDriver(config.storageLocalDir);
+}
+
+/**
+ * The configured driver, shared by the process
+ */
+export function getStorage(): StorageDriver {
+  if (!driver) {
+    driver = createStorageDriver();
+  }
+  return driver;
+}
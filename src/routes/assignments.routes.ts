@@ -0,0 +1,57 @@
+import { Router } from 'express';
+import { assignmentsController } from '../controllers/assignments.controller';
+import { lessonAttachmentsController } from '../controllers/lesson-attachments.controller';
+import { authenticate, authenticateOptional, requireScope, requireSession } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// Assignments are listed and created under /courses/:courseId/assignments
+
+// GET /assignments/files/:id/download?expires=&signature= - Download a submission file through a signed URL (no session needed)
+router.get('/files/:id/download', assignmentsController.downloadFile);
+
+// GET /assignments/:id - Assignment with its rubric (assignment.view, checked in controller; public for published courses)
+router.get('/:id', authenticateOptional, requireScope('assignments:read'), assignmentsController.show);
+
+// PUT /assignments/:id - Update assignment (assignment.manage, checked in controller)
+router.put('/:id', authenticate, requireScope('assignments:write'), assignmentsController.update);
+
+// DELETE /assignments/:id - Delete assignment with its submissions (assignment.manage, checked in controller)
+router.delete('/:id', authenticate, requireScope('assignments:write'), assignmentsController.remove);
+
+// Student submissions (assignment.submit: active enrollment)
+// GET /assignments/:id/submission - The caller's submission and released grade
+router.get('/:id/submission', authenticate, requireScope('assignments:read'), assignmentsController.mySubmission);
+
+// PUT /assignments/:id/submission - Save the draft's text
+router.put('/:id/submission', authenticate, requireSession, assignmentsController.saveText);
+
+// POST /assignments/:id/submission/files?filename= - Add the request body as a file to the draft
+router.post('/:id/submission/files', authenticate, requireSession, lessonAttachmentsController.readUpload, assignmentsController.uploadFile);
+
+// DELETE /assignments/:id/submission/files/:fileId - Remove a file from the draft
+router.delete('/:id/submission/files/:fileId', authenticate, requireSession, assignmentsController.removeFile);
+
+// POST /assignments/:id/submission/submit - Submit the draft; it is locked afterwards
+router.post('/:id/submission/submit', authenticate, requireSession, assignmentsController.submit);
+
+// POST /assignments/:id/regrade-requests - Ask for a released grade to be reviewed
+router.post('/:id/regrade-requests', authenticate, requireSession, assignmentsController.requestRegrade);
+
+// Grading (assignment.grade, checked in controller)
+// GET /assignments/:id/submissions - Submitted work with grades and open regrade requests
+router.get('/:id/submissions', authenticate, requireScope('assignments:read'), assignmentsController.submissions);
+
+// PUT /assignments/:id/submissions/:submissionId/grade - Grade against the rubric
+router.put('/:id/submissions/:submissionId/grade', authenticate, requireScope('assignments:write'), assignmentsController.grade);
+
+// POST /assignments/:id/release - Release grades to students
+router.post('/:id/release', authenticate, requireScope('assignments:write'), assignmentsController.release);
+
+// GET /assignments/:id/regrade-requests?status= - List regrade requests
+router.get('/:id/regrade-requests', authenticate, requireScope('assignments:read'), assignmentsController.regradeRequests);
+
+// PUT /assignments/:id/regrade-requests/:requestId - Resolve or reject a regrade request
+router.put('/:id/regrade-requests/:requestId', authenticate, requireScope('assignments:write'), assignmentsController.resolveRegrade);
+
+export default router;
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { lessonAttachmentsController } from '../controllers/lesson-attachments.controller';
+import { authenticate, requireScope } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// Attachments are listed and uploaded under /lessons/:id/attachments
+
+// GET /attachments/:id/download?expires=&signature= - Download through a signed URL (no session needed)
+router.get('/:id/download', lessonAttachmentsController.download);
+
+// DELETE /attachments/:id - Remove an attachment (lesson.edit, checked in controller)
+router.delete('/:id', authenticate, requireScope('lessons:write'), lessonAttachmentsController.remove);
+
+export default router;
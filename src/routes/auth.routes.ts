@@ -1,6 +1,9 @@
 import { Router } from 'express';
 import { authController } from '../controllers/auth.controller';
-import { authenticate } from '../middleware/auth.middleware';
+import { mfaController } from '../controllers/mfa.controller';
+import { apiKeysController } from '../controllers/api-keys.controller';
+import { oidcController } from '../controllers/oidc.controller';
+import { authenticate, authenticateOptional, requirePermission, requireSession } from '../middleware/auth.middleware';
 
 const router = Router();
 
@@ -10,6 +13,66 @@ router.post('/register', authController.register);
 // POST /auth/login - Authenticate user and issue JWT
 router.post('/login', authController.login);
 
+// POST /auth/login/mfa - Second login step with challenge token + TOTP or recovery code
+router.post('/login/mfa', authController.loginMfa);
+
+// GET /auth/oidc/authorize - Start single sign-on (authorization code + PKCE)
+router.get('/oidc/authorize', oidcController.authorize);
+
+// POST /auth/oidc/callback - Complete single sign-on with the provider's code and state
+router.post('/oidc/callback', oidcController.callback);
+
+// POST /auth/refresh - Exchange a refresh token for a new token pair (rotation)
+router.post('/refresh', authController.refresh);
+
+// POST /auth/logout - Revoke current session, or every session with { "all": true }
+router.post('/logout', authenticate, requireSession, authController.logout);
+
+// POST /auth/password/forgot - Request a password reset email (uniform response)
+router.post('/password/forgot', authController.forgotPassword);
+
+// POST /auth/password/reset - Set a new password with a reset token
+router.post('/password/reset', authController.resetPassword);
+
+// POST /auth/email/verify - Verify email address with a verification token
+router.post('/email/verify', authController.verifyEmail);
+
+// POST /auth/email/verification - Re-send verification email (requires authentication)
+router.post('/email/verification', authenticate, requireSession, authController.resendVerification);
+
+// GET /auth/mfa - Two-factor authentication status
+router.get('/mfa', authenticate, requireSession, mfaController.status);
+
+// POST /auth/mfa/setup - Start TOTP enrollment (Bearer token or enrollment challengeToken)
+router.post('/mfa/setup', authenticateOptional, requireSession, mfaController.setup);
+
+// POST /auth/mfa/activate - Confirm enrollment with a first code (Bearer token or enrollment challengeToken)
+router.post('/mfa/activate', authenticateOptional, requireSession, mfaController.activate);
+
+// POST /auth/mfa/recovery-codes - Regenerate recovery codes
+router.post('/mfa/recovery-codes', authenticate, requireSession, mfaController.regenerateRecoveryCodes);
+
+// POST /auth/mfa/disable - Turn off two-factor authentication
+router.post('/mfa/disable', authenticate, requireSession, mfaController.disable);
+
+// GET /auth/mfa/policies - Two-factor requirement per role (mfa_policy.manage)
+router.get('/mfa/policies', authenticate, requireSession, requirePermission('mfa_policy.manage'), mfaController.listPolicies);
+
+// PUT /auth/mfa/policies/:role - Require two-factor authentication for a role (mfa_policy.manage)
+router.put('/mfa/policies/:role', authenticate, requireSession, requirePermission('mfa_policy.manage'), mfaController.updatePolicy);
+
+// GET /auth/api-keys - List own API keys
+router.get('/api-keys', authenticate, requireSession, apiKeysController.index);
+
+// POST /auth/api-keys - Create an API key with scopes (key is shown once)
+router.post('/api-keys', authenticate, requireSession, apiKeysController.create);
+
+// DELETE /auth/api-keys/:id - Revoke an API key
+router.delete('/api-keys/:id', authenticate, requireSession, apiKeysController.revoke);
+
+// GET /auth/jwks - Public keys for verifying access tokens (asymmetric algorithms only)
+router.get('/jwks', authController.jwks);
+
 // GET /auth/me - Get current user profile (requires authentication)
 router.get('/me', authenticate, authController.me);
 
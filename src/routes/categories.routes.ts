@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import { courseCategoriesController } from '../controllers/course-categories.controller';
+import { authenticate, requirePermission, requireScope } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// GET /categories - Category tree for browsing the catalog (public)
+router.get('/', courseCategoriesController.index);
+
+// POST /categories - Create a category (category.manage)
+router.post('/', authenticate, requireScope('courses:write'), requirePermission('category.manage'), courseCategoriesController.create);
+
+// PUT /categories/:id - Rename, move or reorder a category (category.manage)
+router.put('/:id', authenticate, requireScope('courses:write'), requirePermission('category.manage'), courseCategoriesController.update);
+
+// DELETE /categories/:id - Delete a category (category.manage)
+router.delete('/:id', authenticate, requireScope('courses:write'), requirePermission('category.manage'), courseCategoriesController.remove);
+
+export default router;
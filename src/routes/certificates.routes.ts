@@ -1,14 +1,14 @@
 import { Router } from 'express';
 import { certificatesController } from '../controllers/certificates.controller';
-import { authMiddleware, authenticate, requireRole } from '../middleware/auth.middleware';
+import { authMiddleware, authenticate, requirePermission, requireScope, requireSession } from '../middleware/auth.middleware';
 
 const router = Router();
 
-router.post('/issue', authenticate, requireRole('instructor', 'admin'), certificatesController.issue);
+router.post('/issue', authenticate, requireScope('certificates:issue'), certificatesController.issue);
 
-router.post('/claim', authenticate, requireRole('student'), certificatesController.claim);
+router.post('/claim', authenticate, requireSession, requirePermission('certificate.claim'), certificatesController.claim);
 
-router.get('/me', authMiddleware.required, certificatesController.getMyCertificates);
+router.get('/me', authMiddleware.required, authMiddleware.scope('certificates:read'), certificatesController.getMyCertificates);
 
 router.get('/:code', certificatesController.verify);
 
@@ -3,72 +3,157 @@ import { coursesController } from '../controllers/courses.controller';
 import { lessonsController } from '../controllers/lessons.controller';
 import { enrollmentsController } from '../controllers/enrollments.controller';
 import { quizzesController } from '../controllers/quizzes.controller';
+import { questionBanksController } from '../controllers/question-banks.controller';
+import { assignmentsController } from '../controllers/assignments.controller';
+import { gradebookController } from '../controllers/gradebook.controller';
 import { progressController } from '../controllers/progress.controller';
 import { certificatesController } from '../controllers/certificates.controller';
-import { authenticate, requireRole } from '../middleware/auth.middleware';
+import { courseStaffController } from '../controllers/course-staff.controller';
+import { courseModulesController } from '../controllers/course-modules.controller';
+import { lessonReleaseController } from '../controllers/lesson-release.controller';
+import { lessonAttachmentsController } from '../controllers/lesson-attachments.controller';
+import { courseCloneController } from '../controllers/course-clone.controller';
+import { coursePackageController } from '../controllers/course-package.controller';
+import { authenticate, requirePermission, requireScope, requireSession } from '../middleware/auth.middleware';
 import { authMiddleware } from '../middleware/auth.middleware';
 
 const router = Router();
 
-// Public routes (no authentication required)
-// GET /courses - List courses (role-based filtering applied in controller)
-router.get('/', coursesController.index);
+// Public routes (authentication optional; permission checks in controller)
+// GET /courses - List courses (filtered by the caller's permissions) with catalog filters, facets and sorting
+router.get('/', authMiddleware.optional, requireScope('courses:read'), coursesController.index);
 
-// GET /courses/:id - Get course details (role-based access applied in controller)
-router.get('/:id', coursesController.show);
+// GET /courses/:id - Get course details (unpublished courses need course.view)
+router.get('/:id', authMiddleware.optional, requireScope('courses:read'), coursesController.show);
 
-// GET /courses/:id/overview - Get course overview with statistics (role-based access applied in controller)
-router.get('/:id/overview', authMiddleware.optional, coursesController.overview);
+// GET /courses/:id/overview - Get course overview with statistics (unpublished courses need course.view)
+router.get('/:id/overview', authMiddleware.optional, requireScope('courses:read'), coursesController.overview);
 
 // Protected routes require authentication
-// POST /courses - Create course (instructors and admins only)
-router.post('/', authenticate, requireRole('instructor', 'admin'), coursesController.create);
+// POST /courses - Create course (course.create)
+router.post('/', authenticate, requireScope('courses:write'), requirePermission('course.create'), coursesController.create);
 
-// PUT /courses/:id - Update course (ownership checks in controller)
-router.put('/:id', authenticate, requireRole('instructor', 'admin'), coursesController.update);
+// PUT /courses/:id - Update course (course.edit, checked in controller)
+router.put('/:id', authenticate, requireScope('courses:write'), coursesController.update);
 
-// DELETE /courses/:id - Delete course (admins only)
-router.delete('/:id', authenticate, requireRole('admin'), coursesController.remove);
+// DELETE /courses/:id - Delete course (course.delete)
+router.delete('/:id', authenticate, requireScope('courses:write'), requirePermission('course.delete'), coursesController.remove);
 
-// Publish/Unpublish endpoints (ownership checks in controller)
-router.post('/:id/publish', authenticate, requireRole('instructor', 'admin'), coursesController.publish);
-router.post('/:id/unpublish', authenticate, requireRole('instructor', 'admin'), coursesController.unpublish);
+// Publish/Unpublish endpoints (course.publish, checked in controller)
+router.post('/:id/publish', authenticate, requireScope('courses:write'), coursesController.publish);
+router.post('/:id/unpublish', authenticate, requireScope('courses:write'), coursesController.unpublish);
+
+// PUT /courses/:id/rating - Rate a course 1-5 (course.rate: enrolled students)
+router.put('/:id/rating', authenticate, requireScope('enrollments:write'), coursesController.rate);
+
+// ===== Cloning and Templates =====
+
+// POST /courses/:id/clone - Copy into a new unpublished course owned by the caller (course.create, plus course.clone on the source)
+router.post('/:id/clone', authenticate, requireScope('courses:write'), requirePermission('course.create'), courseCloneController.clone);
+
+// PUT /courses/:id/template - Mark or unmark a course as a template (course.manage_templates)
+router.put('/:id/template', authenticate, requireScope('courses:write'), courseCloneController.setTemplate);
+
+// ===== Import/Export =====
+
+// POST /courses/import - Import a .tar.gz package as a new course (course.create); ?dryRun=true only validates
+router.post('/import', authenticate, requireScope('courses:write'), requirePermission('course.create'), coursePackageController.readPackage, coursePackageController.import);
+
+// GET /courses/:id/export - Download the course as a .tar.gz package (course.export)
+router.get('/:id/export', authenticate, requireScope('courses:read'), coursePackageController.export);
+
+// ===== Course Staff Routes =====
+
+// GET /courses/:id/staff - List owner, co-instructors and TAs (course.view_staff)
+router.get('/:id/staff', authenticate, requireScope('courses:read'), courseStaffController.index);
+
+// POST /courses/:id/staff - Add a co-instructor or TA (course.manage_staff)
+router.post('/:id/staff', authenticate, requireScope('courses:write'), courseStaffController.add);
+
+// POST /courses/:id/staff/transfer - Transfer ownership (course.transfer)
+router.post('/:id/staff/transfer', authenticate, requireSession, courseStaffController.transfer);
+
+// PUT /courses/:id/staff/:userId - Change a staff member's role (course.manage_staff)
+router.put('/:id/staff/:userId', authenticate, requireScope('courses:write'), courseStaffController.update);
+
+// DELETE /courses/:id/staff/:userId - Remove a co-instructor or TA (course.manage_staff)
+router.delete('/:id/staff/:userId', authenticate, requireScope('courses:write'), courseStaffController.remove);
+
+// ===== Nested Module Routes =====
+
+// GET /courses/:courseId/modules - List modules with their lessons (lesson.view)
+router.get('/:courseId/modules', authMiddleware.optional, requireScope('lessons:read'), courseModulesController.index);
+
+// POST /courses/:courseId/modules - Create module (module.create)
+router.post('/:courseId/modules', authenticate, requireScope('lessons:write'), courseModulesController.create);
 
 // ===== Nested Lesson Routes =====
 
-// POST /courses/:courseId/lessons - Create lesson for course (instructor owner|admin)
-router.post('/:courseId/lessons', authenticate, requireRole('instructor', 'admin'), lessonsController.create);
+// POST /courses/:courseId/lessons - Create lesson for course (lesson.create)
+router.post('/:courseId/lessons', authenticate, requireScope('lessons:write'), lessonsController.create);
 
 // GET /courses/:courseId/lessons - List lessons for course (visibility checks in controller)
 // Public/student can view if course is published
-router.get('/:courseId/lessons', authMiddleware.optional, lessonsController.listByCourse);
+router.get('/:courseId/lessons', authMiddleware.optional, requireScope('lessons:read'), lessonsController.listByCourse);
+
+// PATCH /courses/:courseId/lessons/reorder - Atomically reorder lessons and modules (lesson.edit)
+router.patch('/:courseId/lessons/reorder', authenticate, requireScope('lessons:write'), lessonsController.reorder);
+
+// GET /courses/:courseId/release - Release mode and per-lesson release rules (lesson.edit)
+router.get('/:courseId/release', authenticate, requireScope('lessons:read'), lessonReleaseController.show);
 
-// PATCH /courses/:courseId/lessons/reorder - Atomically reorder lessons (instructor owner|admin)
-router.patch('/:courseId/lessons/reorder', authenticate, requireRole('instructor', 'admin'), lessonsController.reorder);
+// PUT /courses/:courseId/release - Set release mode: open or sequential (course.edit)
+router.put('/:courseId/release', authenticate, requireScope('courses:write'), lessonReleaseController.updateMode);
+
+// GET /courses/:courseId/storage - Attachment storage used and quota (lesson.edit)
+router.get('/:courseId/storage', authenticate, requireScope('lessons:read'), lessonAttachmentsController.usage);
+
+// PUT /courses/:courseId/storage - Override the storage quota (course.manage_storage)
+router.put('/:courseId/storage', authenticate, requireScope('courses:write'), lessonAttachmentsController.updateQuota);
 
 // ===== Nested Quiz Routes =====
 
-// POST /courses/:courseId/quizzes - Create quiz for course (instructor owner|admin)
-router.post('/:courseId/quizzes', authenticate, requireRole('instructor', 'admin'), quizzesController.createQuiz);
+// POST /courses/:courseId/quizzes - Create quiz for course (quiz.manage)
+router.post('/:courseId/quizzes', authenticate, requireScope('quizzes:write'), quizzesController.createQuiz);
 
 // GET /courses/:courseId/quizzes - List quizzes for course (visibility checks in controller)
 // Public/student can view if course is published
-router.get('/:courseId/quizzes', authMiddleware.optional, quizzesController.listCourseQuizzes);
+router.get('/:courseId/quizzes', authMiddleware.optional, requireScope('quizzes:read'), quizzesController.listCourseQuizzes);
+
+// GET /courses/:courseId/question-banks - List question banks (quiz.manage)
+router.get('/:courseId/question-banks', authenticate, requireScope('quizzes:read'), questionBanksController.index);
+
+// POST /courses/:courseId/question-banks - Create question bank (quiz.manage)
+router.post('/:courseId/question-banks', authenticate, requireScope('quizzes:write'), questionBanksController.create);
+
+// ===== Nested Assignment Routes =====
+
+// GET /courses/:courseId/assignments - List assignments (assignment.view)
+router.get('/:courseId/assignments', authMiddleware.optional, requireScope('assignments:read'), assignmentsController.index);
+
+// POST /courses/:courseId/assignments - Create assignment with its rubric (assignment.manage)
+router.post('/:courseId/assignments', authenticate, requireScope('assignments:write'), assignmentsController.create);
+
+// GET /courses/:courseId/gradebook - Quiz and assignment grades per student (gradebook.view_course, or gradebook.view_own for one's own row)
+router.get('/:courseId/gradebook', authenticate, requireScope('grades:read'), gradebookController.show);
 
 // ===== Nested Enrollment Routes =====
 
-// GET /courses/:courseId/enrollments - List enrollments for course (instructor owner|admin)
-router.get('/:courseId/enrollments', authenticate, requireRole('instructor', 'admin'), enrollmentsController.getCourseEnrollments);
+// GET /courses/:courseId/enrollments - List enrollments for course (enrollment.view_course)
+router.get('/:courseId/enrollments', authenticate, requireScope('enrollments:read'), enrollmentsController.getCourseEnrollments);
 
 // ===== Nested Progress Routes =====
 
 // Import progress controller at the top of the file (will add this import separately)
-// GET /courses/:courseId/progress - Get aggregated progress for course (instructor owner|admin)
-router.get('/:courseId/progress', authenticate, requireRole('instructor', 'admin'), progressController.getCourseProgress);
+// GET /courses/:courseId/progress - Get aggregated progress for course (progress.view_course)
+router.get('/:courseId/progress', authenticate, requireScope('progress:read'), progressController.getCourseProgress);
+
+// GET /courses/:courseId/progress/watch-time - Video watch time and drop-off curves per lesson (progress.view_course)
+router.get('/:courseId/progress/watch-time', authenticate, requireScope('progress:read'), progressController.getCourseWatchAnalytics);
 
 // ===== Nested Certificate Routes =====
 
-// GET /courses/:courseId/certificates - List certificates for course (instructor owner|admin)
-router.get('/:courseId/certificates', authenticate, requireRole('instructor', 'admin'), certificatesController.getCourseCertificates);
+// GET /courses/:courseId/certificates - List certificates for course (certificate.view_course)
+router.get('/:courseId/certificates', authenticate, requireScope('certificates:read'), certificatesController.getCourseCertificates);
 
 export default router;
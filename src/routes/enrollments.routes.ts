@@ -1,18 +1,19 @@
 import { Router } from 'express';
 import { enrollmentsController } from '../controllers/enrollments.controller';
-import { authenticate, requireRole } from '../middleware/auth.middleware';
+import { authenticate, requirePermission, requireScope } from '../middleware/auth.middleware';
 
 const router = Router();
 
 /**
  * POST /api/enrollments
- * Enroll in a course (student only)
+ * Enroll in a course (enrollment.create)
  * Body: { courseId: number }
  */
 router.post(
   '/',
   authenticate,
-  requireRole('student'),
+  requireScope('enrollments:write'),
+  requirePermission('enrollment.create'),
   enrollmentsController.enroll
 );
 
@@ -24,18 +25,20 @@ router.post(
 router.get(
   '/me',
   authenticate,
+  requireScope('enrollments:read'),
   enrollmentsController.getMyEnrollments
 );
 
 /**
  * PUT /api/enrollments/:id/status
- * Update enrollment status (admin only)
+ * Update enrollment status (enrollment.update_status)
  * Body: { status: 'active' | 'completed' | 'refunded' }
  */
 router.put(
   '/:id/status',
   authenticate,
-  requireRole('admin'),
+  requireScope('enrollments:write'),
+  requirePermission('enrollment.update_status'),
   enrollmentsController.updateStatus
 );
 
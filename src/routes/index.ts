@@ -4,12 +4,18 @@ import { Router } from 'express';
 import authRoutes from './auth.routes';
 import usersRoutes from './users.routes';
 import coursesRoutes from './courses.routes';
+import categoriesRoutes from './categories.routes';
 import lessonsRoutes from './lessons.routes';
+import modulesRoutes from './modules.routes';
+import attachmentsRoutes from './attachments.routes';
 import enrollmentsRoutes from './enrollments.routes';
 import progressRoutes from './progress.routes';
 import quizzesRoutes from './quizzes.routes';
+import questionBanksRoutes from './question-banks.routes';
+import assignmentsRoutes from './assignments.routes';
 import certificatesRoutes from './certificates.routes';
 import notificationsRoutes from './notifications.routes';
+import instructorApplicationsRoutes from './instructor-applications.routes';
 
 const router = Router();
 
@@ -17,11 +23,17 @@ const router = Router();
 router.use('/auth', authRoutes);
 router.use('/users', usersRoutes);
 router.use('/courses', coursesRoutes);
+router.use('/categories', categoriesRoutes);
 router.use('/lessons', lessonsRoutes);
+router.use('/modules', modulesRoutes);
+router.use('/attachments', attachmentsRoutes);
 router.use('/enrollments', enrollmentsRoutes);
 router.use('/progress', progressRoutes);
 router.use('/quizzes', quizzesRoutes);
+router.use('/question-banks', questionBanksRoutes);
+router.use('/assignments', assignmentsRoutes);
 router.use('/certificates', certificatesRoutes);
 router.use('/notifications', notificationsRoutes);
+router.use('/instructor-applications', instructorApplicationsRoutes);
 
 export default router;
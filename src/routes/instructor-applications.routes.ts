@@ -0,0 +1,28 @@
+import { Router } from 'express';
+import { instructorApplicationsController } from '../controllers/instructor-applications.controller';
+import { authenticate, requirePermission, requireSession } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// All instructor application routes require a login session (API keys are not accepted)
+router.use(authenticate, requireSession);
+
+// POST /instructor-applications - Apply for instructor access (instructor_application.create)
+router.post('/', requirePermission('instructor_application.create'), instructorApplicationsController.create);
+
+// GET /instructor-applications/me - List own applications
+router.get('/me', instructorApplicationsController.mine);
+
+// GET /instructor-applications?status=&page=&limit= - List applications (instructor_application.list)
+router.get('/', requirePermission('instructor_application.list'), instructorApplicationsController.index);
+
+// GET /instructor-applications/:id - Application details (instructor_application.view; applicant always)
+router.get('/:id', instructorApplicationsController.show);
+
+// POST /instructor-applications/:id/approve - Approve and promote to instructor (instructor_application.review)
+router.post('/:id/approve', requirePermission('instructor_application.review'), instructorApplicationsController.approve);
+
+// POST /instructor-applications/:id/reject - Reject with a reason (instructor_application.review)
+router.post('/:id/reject', requirePermission('instructor_application.review'), instructorApplicationsController.reject);
+
+export default router;
@@ -1,5 +1,7 @@
 import { Router } from 'express';
 import { lessonsController } from '../controllers/lessons.controller';
+import { lessonReleaseController } from '../controllers/lesson-release.controller';
+import { lessonAttachmentsController } from '../controllers/lesson-attachments.controller';
 import { authMiddleware } from '../middleware/auth.middleware';
 
 const router = Router();
@@ -27,12 +29,45 @@ const router = Router();
 // GET /api/lessons/:id - Get lesson detail
 // Public/student can view if course is published
 // Instructor owner and admin can always view
-router.get('/:id', authMiddleware.optional, lessonsController.show);
+router.get('/:id', authMiddleware.optional, authMiddleware.scope('lessons:read'), lessonsController.show);
 
 // PUT /api/lessons/:id - Update lesson (instructor owner|admin)
-router.put('/:id', authMiddleware.required, lessonsController.update);
+router.put('/:id', authMiddleware.required, authMiddleware.scope('lessons:write'), lessonsController.update);
 
 // DELETE /api/lessons/:id - Delete lesson (instructor owner|admin)
-router.delete('/:id', authMiddleware.required, lessonsController.remove);
+router.delete('/:id', authMiddleware.required, authMiddleware.scope('lessons:write'), lessonsController.remove);
+
+// ===== Drafts and revision history =====
+
+// PUT /api/lessons/:id saves a new draft revision; viewers see the published revision
+
+// POST /api/lessons/:id/publish - Publish the draft (lesson.publish)
+router.post('/:id/publish', authMiddleware.required, authMiddleware.scope('lessons:write'), lessonsController.publish);
+
+// GET /api/lessons/:id/revisions - List revisions (lesson.edit)
+router.get('/:id/revisions', authMiddleware.required, authMiddleware.scope('lessons:read'), lessonsController.listRevisions);
+
+// GET /api/lessons/:id/revisions/diff?from=1&to=3 - Diff content_md of two revisions (lesson.edit)
+router.get('/:id/revisions/diff', authMiddleware.required, authMiddleware.scope('lessons:read'), lessonsController.diffRevisions);
+
+// GET /api/lessons/:id/revisions/:revision - Get a revision (lesson.edit)
+router.get('/:id/revisions/:revision', authMiddleware.required, authMiddleware.scope('lessons:read'), lessonsController.showRevision);
+
+// POST /api/lessons/:id/revisions/:revision/restore - Restore a revision as the new draft (lesson.edit)
+router.post('/:id/revisions/:revision/restore', authMiddleware.required, authMiddleware.scope('lessons:write'), lessonsController.restoreRevision);
+
+// ===== Release rules =====
+
+// PUT /api/lessons/:id/release - Replace drip schedule and prerequisites (lesson.edit)
+router.put('/:id/release', authMiddleware.required, authMiddleware.scope('lessons:write'), lessonReleaseController.updateLesson);
+
+// ===== Attachments =====
+
+// GET /api/lessons/:id/attachments - List attachments with signed download URLs
+// Same visibility and release rules as GET /api/lessons/:id
+router.get('/:id/attachments', authMiddleware.optional, authMiddleware.scope('lessons:read'), lessonAttachmentsController.index);
+
+// POST /api/lessons/:id/attachments?filename=slides.pdf - Upload the raw request body (lesson.edit)
+router.post('/:id/attachments', authMiddleware.required, authMiddleware.scope('lessons:write'), lessonAttachmentsController.readUpload, lessonAttachmentsController.create);
 
 export default router;
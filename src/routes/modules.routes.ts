@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { courseModulesController } from '../controllers/course-modules.controller';
+import { authenticate, requireScope } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// Modules are listed and created under /courses/:courseId/modules
+
+// PUT /modules/:id - Rename module (module.edit, checked in controller)
+router.put('/:id', authenticate, requireScope('lessons:write'), courseModulesController.update);
+
+// DELETE /modules/:id - Delete an empty module (module.delete, checked in controller)
+router.delete('/:id', authenticate, requireScope('lessons:write'), courseModulesController.remove);
+
+export default router;
@@ -11,10 +11,14 @@ const router = Router();
 
 // POST /api/progress/complete
 // Mark a lesson as complete/incomplete for the authenticated student
-router.post('/complete', authMiddleware.required, progressController.markComplete);
+router.post('/complete', authMiddleware.required, authMiddleware.scope('progress:write'), progressController.markComplete);
+
+// POST /api/progress/heartbeat
+// Video player heartbeat (position, duration, playbackRate); auto-completes the lesson at the watch threshold
+router.post('/heartbeat', authMiddleware.required, authMiddleware.scope('progress:write'), progressController.heartbeat);
 
 // GET /api/progress/me?courseId=...
 // Get the authenticated user's progress for a specific course
-router.get('/me', authMiddleware.required, progressController.getMyProgress);
+router.get('/me', authMiddleware.required, authMiddleware.scope('progress:read'), progressController.getMyProgress);
 
 export default router;
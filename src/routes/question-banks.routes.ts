@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import { questionBanksController } from '../controllers/question-banks.controller';
+import { authenticate, requireScope } from '../middleware/auth.middleware';
+
+const router = Router();
+
+// Banks are listed and created under /courses/:courseId/question-banks
+
+// GET /question-banks/:id - Bank with its questions, filterable by topic and difficulty (quiz.manage, checked in controller)
+router.get('/:id', authenticate, requireScope('quizzes:read'), questionBanksController.show);
+
+// PUT /question-banks/:id - Rename bank or change its description (quiz.manage, checked in controller)
+router.put('/:id', authenticate, requireScope('quizzes:write'), questionBanksController.update);
+
+// DELETE /question-banks/:id - Delete a bank no quiz draws from (quiz.manage, checked in controller)
+router.delete('/:id', authenticate, requireScope('quizzes:write'), questionBanksController.remove);
+
+// POST /question-banks/:id/questions - Add a question (quiz.manage, checked in controller)
+router.post('/:id/questions', authenticate, requireScope('quizzes:write'), questionBanksController.createQuestion);
+
+// PUT /question-banks/:id/questions/:questionId - Update a question (quiz.manage, checked in controller)
+router.put('/:id/questions/:questionId', authenticate, requireScope('quizzes:write'), questionBanksController.updateQuestion);
+
+// DELETE /question-banks/:id/questions/:questionId - Delete a question (quiz.manage, checked in controller)
+router.delete('/:id/questions/:questionId', authenticate, requireScope('quizzes:write'), questionBanksController.removeQuestion);
+
+export default router;
@@ -1,30 +1,39 @@
 import { Router } from 'express';
 import { quizzesController } from '../controllers/quizzes.controller';
-import { authenticate, requireRole, authenticateOptional } from '../middleware/auth.middleware';
+import { authenticate, authenticateOptional, requireScope, requireSession } from '../middleware/auth.middleware';
 
 const router = Router();
 
 // Quiz detail and submissions routes
 // GET /api/quizzes/:id - Get quiz detail with questions (public can see published course quizzes)
-router.get('/:id', authenticateOptional, quizzesController.getQuiz);
+router.get('/:id', authenticateOptional, requireScope('quizzes:read'), quizzesController.getQuiz);
 
-// POST /api/quizzes/:id/submit - Submit quiz answers (enrolled students only)
-router.post('/:id/submit', authenticate, quizzesController.submitQuiz);
+// PUT /api/quizzes/:id/settings - Attempt limits, time limit, pass score, score policy and cooldown (quiz.manage)
+router.put('/:id/settings', authenticate, requireScope('quizzes:write'), quizzesController.updateSettings);
+
+// PUT /api/quizzes/:id/draws - Replace the random draws from question banks (quiz.manage)
+router.put('/:id/draws', authenticate, requireScope('quizzes:write'), quizzesController.updateDraws);
+
+// POST /api/quizzes/:id/attempts - Start or resume an attempt (quiz.submit: active enrollment)
+router.post('/:id/attempts', authenticate, requireSession, quizzesController.startAttempt);
+
+// POST /api/quizzes/:id/submit - Submit quiz answers (quiz.submit: active enrollment)
+router.post('/:id/submit', authenticate, requireSession, quizzesController.submitQuiz);
 
 // GET /api/quizzes/:id/submissions/me - Get student's latest submission
-router.get('/:id/submissions/me', authenticate, quizzesController.getMySubmission);
+router.get('/:id/submissions/me', authenticate, requireScope('quizzes:read'), quizzesController.getMySubmission);
 
-// GET /api/quizzes/:id/submissions - List all submissions (instructor/admin only)
-router.get('/:id/submissions', authenticate, quizzesController.listSubmissions);
+// GET /api/quizzes/:id/submissions - List all submissions (quiz.view_submissions)
+router.get('/:id/submissions', authenticate, requireScope('quizzes:read'), quizzesController.listSubmissions);
 
 // Quiz question management routes
-// POST /api/quizzes/:quizId/questions - Create a question (instructor/admin only)
-router.post('/:quizId/questions', authenticate, requireRole('instructor', 'admin'), quizzesController.createQuestion);
+// POST /api/quizzes/:quizId/questions - Create a question (quiz.manage)
+router.post('/:quizId/questions', authenticate, requireScope('quizzes:write'), quizzesController.createQuestion);
 
-// PUT /api/quizzes/:quizId/questions/:questionId - Update question (instructor/admin only)
-router.put('/:quizId/questions/:questionId', authenticate, requireRole('instructor', 'admin'), quizzesController.updateQuestion);
+// PUT /api/quizzes/:quizId/questions/:questionId - Update question (quiz.manage)
+router.put('/:quizId/questions/:questionId', authenticate, requireScope('quizzes:write'), quizzesController.updateQuestion);
 
-// DELETE /api/quizzes/:quizId/questions/:questionId - Delete question (instructor/admin only)
-router.delete('/:quizId/questions/:questionId', authenticate, requireRole('instructor', 'admin'), quizzesController.deleteQuestion);
+// DELETE /api/quizzes/:quizId/questions/:questionId - Delete question (quiz.manage)
+router.delete('/:quizId/questions/:questionId', authenticate, requireScope('quizzes:write'), quizzesController.deleteQuestion);
 
 export default router;
@@ -1,25 +1,31 @@
 import { Router } from 'express';
 import { usersController } from '../controllers/users.controller';
-import { authenticate, requireRole } from '../middleware/auth.middleware';
+import { authenticate, requirePermission, requireScope, requireSession } from '../middleware/auth.middleware';
 
 const router = Router();
 
 // All user routes require authentication
 router.use(authenticate);
 
-// GET /users - List users (admin only)
-router.get('/', requireRole('admin'), usersController.index);
+// GET /users?page=&limit=&q=&role= - List users (user.list)
+router.get('/', requireScope('users:read'), requirePermission('user.list'), usersController.index);
 
-// POST /users - Create user (admin only)
-router.post('/', requireRole('admin'), usersController.create);
+// POST /users - Create user (user.create)
+router.post('/', requireSession, requirePermission('user.create'), usersController.create);
 
-// GET /users/:id - Get user details (admin or own profile)
-router.get('/:id', usersController.show);
+// GET /users/:id - Get user details (user.view; own profile always)
+router.get('/:id', requireScope('users:read'), usersController.show);
 
-// PUT /users/:id - Update user (admin or own profile)
-router.put('/:id', usersController.update);
+// PUT /users/:id - Update user (user.edit; own profile always)
+router.put('/:id', requireSession, usersController.update);
 
-// DELETE /users/:id - Delete user (admin only)
-router.delete('/:id', requireRole('admin'), usersController.remove);
+// POST /users/:id/unlock - Unlock an account locked by failed logins (user.unlock)
+router.post('/:id/unlock', requireSession, requirePermission('user.unlock'), usersController.unlock);
+
+// DELETE /users/:id/mfa - Reset a user's two-factor authentication (user.reset_mfa)
+router.delete('/:id/mfa', requireSession, requirePermission('user.reset_mfa'), usersController.resetMfa);
+
+// DELETE /users/:id?reassignTo=ID - Delete user, reassigning owned courses (user.delete)
+router.delete('/:id', requireSession, requirePermission('user.delete'), usersController.remove);
 
 export default router;
@@ -0,0 +1,194 @@
+import crypto from 'crypto';
+import { db } from '../db';
+import { config } from '../config';
+import { AuthService } from './auth.service';
+import { SessionsService } from './sessions.service';
+import { enqueueMail } from '../modules/notifications/publisher';
+
+/**
+ * Account service for password reset and email verification
+ *
+ * Tokens are random, single-use and expiring. Only their SHA-256 hash is
+ * stored in user_tokens; the plain token only ever exists in the email link.
+ */
+
+export type AccountTokenPurpose = 'password_reset' | 'email_verification';
+
+interface TokenUser {
+  id: number;
+  email: string;
+  name: string;
+}
+
+export class AccountService {
+  /**
+   * Start the password reset flow
+   * Silently does nothing for unknown emails so the endpoint does not leak which emails exist
+   */
+  static async requestPasswordReset(email: string): Promise<void> {
+    const result = await db.query(
+      'SELECT id, email, name FROM users WHERE email = $1',
+      [email.toLowerCase()]
+    );
+
+    const user: TokenUser | undefined = result.rows[0];
+    if (!user) {
+      return;
+    }
+
+    const token = await this.issueToken(user.id, 'password_reset', config.passwordResetTtlSeconds);
+    const link = `${config.appBaseUrl}/reset-password?token=${encodeURIComponent(token)}`;
+    const minutes = Math.round(config.passwordResetTtlSeconds / 60);
+
+    await enqueueMail({
+      to: user.email,
+      template: 'password_reset',
+      subject: 'Reset your LearnLite password',
+      text:
+        `Hi ${user.name},\n\n` +
+        `We received a request to reset your password. Use the link below to choose a new one:\n\n` +
+        `${link}\n\n` +
+        `This link expires in ${minutes} minutes and can only be used once. ` +
+        `If you did not request a password reset, you can ignore this email.`
+    });
+  }
+
+  /**
+   * Complete the password reset flow
+   * Consumes the token, sets the new password and signs out every session
+   */
+  static async resetPassword(token: string, newPassword: string): Promise<void> {
+    const userId = await this.consumeToken(token, 'password_reset');
+    if (!userId) {
+      throw new Error('INVALID_TOKEN');
+    }
+
+    const hashedPassword = await AuthService.hashPassword(newPassword);
+
+    // Receiving the reset email also proves ownership of the address
+    const result = await db.query(
+      `UPDATE users
+       SET password_hash = $1, email_verified_at = COALESCE(email_verified_at, CURRENT_TIMESTAMP)
+       WHERE id = $2
+       RETURNING id, email, name`,
+      [hashedPassword, userId]
+    );
+
+    const user: TokenUser | undefined = result.rows[0];
+    if (!user) {
+      throw new Error('INVALID_TOKEN');
+    }
+
+    await SessionsService.revokeAllSessions(user.id, 'credentials_changed');
+
+    await enqueueMail({
+      to: user.email,
+      template: 'password_changed',
+      subject: 'Your LearnLite password was changed',
+      text:
+        `Hi ${user.name},\n\n` +
+        `Your password was just reset and all active sessions were signed out. ` +
+        `If this was not you, contact support immediately.`
+    });
+  }
+
+  /**
+   * Send (or re-send) an email verification link
+   */
+  static async sendEmailVerification(userId: number): Promise<void> {
+    const result = await db.query(
+      'SELECT id, email, name, email_verified_at FROM users WHERE id = $1',
+      [userId]
+    );
+
+    const user = result.rows[0];
+    if (!user) {
+      throw new Error('NOT_FOUND');
+    }
+
+    if (user.email_verified_at) {
+      throw new Error('ALREADY_VERIFIED');
+    }
+
+    const token = await this.issueToken(user.id, 'email_verification', config.emailVerificationTtlSeconds);
+    const link = `${config.appBaseUrl}/verify-email?token=${encodeURIComponent(token)}`;
+
+    await enqueueMail({
+      to: user.email,
+      template: 'email_verification',
+      subject: 'Verify your LearnLite email address',
+      text:
+        `Hi ${user.name},\n\n` +
+        `Please confirm that ${user.email} is your email address by opening the link below:\n\n` +
+        `${link}\n\n` +
+        `The link expires in ${Math.round(config.emailVerificationTtlSeconds / 3600)} hours.`
+    });
+  }
+
+  /**
+   * Mark the user's email as verified
+   */
+  static async verifyEmail(token: string): Promise<void> {
+    const userId = await this.consumeToken(token, 'email_verification');
+    if (!userId) {
+      throw new Error('INVALID_TOKEN');
+    }
+
+    await db.query(
+      'UPDATE users SET email_verified_at = COALESCE(email_verified_at, CURRENT_TIMESTAMP) WHERE id = $1',
+      [userId]
+    );
+  }
+
+  /**
+   * Check if a user has verified their email address
+   */
+  static async isEmailVerified(userId: number): Promise<boolean> {
+    const result = await db.query(
+      'SELECT email_verified_at FROM users WHERE id = $1',
+      [userId]
+    );
+    return !!result.rows[0]?.email_verified_at;
+  }
+
+  /**
+   * Issue a new token, invalidating any earlier unused token for the same purpose
+   */
+  private static async issueToken(userId: number, purpose: AccountTokenPurpose, ttlSeconds: number): Promise<string> {
+    const token = crypto.randomBytes(32).toString('base64url');
+    const expiresAt = new Date(Date.now() + ttlSeconds * 1000);
+
+    await db.query(
+      `UPDATE user_tokens SET used_at = CURRENT_TIMESTAMP
+       WHERE user_id = $1 AND purpose = $2 AND used_at IS NULL`,
+      [userId, purpose]
+    );
+
+    await db.query(
+      'INSERT INTO user_tokens (user_id, purpose, token_hash, expires_at) VALUES ($1, $2, $3, $4)',
+      [userId, purpose, this.hashToken(token), expiresAt]
+    );
+
+    return token;
+  }
+
+  /**
+   * Atomically mark a valid token as used and return its user ID
+   */
+  private static async consumeToken(token: string, purpose: AccountTokenPurpose): Promise<number | null> {
+    const result = await db.query(
+      `UPDATE user_tokens
+       SET used_at = CURRENT_TIMESTAMP
+       WHERE token_hash = $1 AND purpose = $2
+         AND used_at IS NULL AND expires_at > CURRENT_TIMESTAMP
+       RETURNING user_id`,
+      [this.hashToken(token), purpose]
+    );
+
+    return result.rows[0]?.user_id ?? null;
+  }
+
+  private static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
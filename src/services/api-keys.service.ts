@@ -0,0 +1,237 @@
+import crypto from 'crypto';
+import { db } from '../db';
+import { UserRole } from './users.service';
+
+/**
+ * Personal API keys for integrations (LMS sync scripts etc.)
+ *
+ * Keys look like `ll_1a2b3c4d_<secret>`. The `ll_1a2b3c4d` prefix is stored
+ * in clear and shown in listings so keys can be told apart; the full key is
+ * only returned once at creation and stored as a SHA-256 hash.
+ *
+ * A key acts as its owner with the owner's current role, restricted to the
+ * key's scopes (see requireScope in auth.middleware).
+ */
+
+export const API_KEY_SCOPES = [
+  'courses:read',
+  'courses:write',
+  'lessons:read',
+  'lessons:write',
+  'quizzes:read',
+  'quizzes:write',
+  'assignments:read',
+  'assignments:write',
+  'grades:read',
+  'enrollments:read',
+  'enrollments:write',
+  'progress:read',
+  'progress:write',
+  'certificates:read',
+  'certificates:issue',
+  'users:read'
+] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+// Scopes a role may grant to its keys; role checks on each endpoint still apply
+export const ROLE_API_KEY_SCOPES: Record<UserRole, ApiKeyScope[]> = {
+  admin: [...API_KEY_SCOPES],
+  instructor: [
+    'courses:read', 'courses:write',
+    'lessons:read', 'lessons:write',
+    'quizzes:read', 'quizzes:write',
+    'assignments:read', 'assignments:write',
+    'grades:read',
+    'enrollments:read',
+    'progress:read',
+    'certificates:read', 'certificates:issue'
+  ],
+  student: [
+    'courses:read',
+    'lessons:read',
+    'quizzes:read',
+    'assignments:read',
+    'grades:read',
+    'enrollments:read', 'enrollments:write',
+    'progress:read', 'progress:write',
+    'certificates:read'
+  ]
+};
+
+const KEY_PREFIX = 'll_';
+const MAX_KEYS_PER_USER = 25;
+
+// last_used_at is refreshed at most this often to avoid a write on every request
+const LAST_USED_RESOLUTION_SECONDS = 60;
+
+export interface ApiKey {
+  id: number;
+  user_id: number;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  expires_at: Date | null;
+  last_used_at: Date | null;
+  revoked_at: Date | null;
+  created_at: Date;
+}
+
+export interface CreateApiKeyData {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresAt?: Date;
+}
+
+export interface ApiKeyPrincipal {
+  user: {
+    id: number;
+    email: string;
+    role: string;
+  };
+  apiKeyId: number;
+  scopes: ApiKeyScope[];
+}
+
+/**
+ * SCOPE_NOT_ALLOWED, with the scopes the caller's role cannot grant
+ */
+export class ScopeNotAllowedError extends Error {
+  constructor(readonly scopes: ApiKeyScope[]) {
+    super('SCOPE_NOT_ALLOWED');
+    this.name = 'ScopeNotAllowedError';
+  }
+}
+
+const PUBLIC_COLUMNS = 'id, user_id, name, prefix, scopes, expires_at, last_used_at, revoked_at, created_at';
+
+export class ApiKeysService {
+  /**
+   * Create a key for a user
+   * Throws ScopeNotAllowedError (SCOPE_NOT_ALLOWED) or TOO_MANY_KEYS
+   * @returns The stored key and the plain secret (shown once)
+   */
+  static async createKey(
+    user: { id: number; role: string },
+    data: CreateApiKeyData
+  ): Promise<{ apiKey: ApiKey; key: string }> {
+    const allowed = ROLE_API_KEY_SCOPES[user.role as UserRole] || [];
+    const notAllowed = data.scopes.filter(scope => !allowed.includes(scope));
+    if (notAllowed.length > 0) {
+      throw new ScopeNotAllowedError(notAllowed);
+    }
+
+    const countResult = await db.query(
+      'SELECT COUNT(*) as total FROM api_keys WHERE user_id = $1 AND revoked_at IS NULL',
+      [user.id]
+    );
+    if (parseInt(countResult.rows[0].total) >= MAX_KEYS_PER_USER) {
+      throw new Error('TOO_MANY_KEYS');
+    }
+
+    const prefix = `${KEY_PREFIX}${crypto.randomBytes(4).toString('hex')}`;
+    const key = `${prefix}_${crypto.randomBytes(32).toString('base64url')}`;
+
+    const result = await db.query(
+      `INSERT INTO api_keys (user_id, name, prefix, key_hash, scopes, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING ${PUBLIC_COLUMNS}`,
+      [user.id, data.name, prefix, this.hashKey(key), [...new Set(data.scopes)], data.expiresAt || null]
+    );
+
+    return { apiKey: result.rows[0], key };
+  }
+
+  /**
+   * List a user's keys (never includes secrets or hashes)
+   */
+  static async listKeys(userId: number): Promise<ApiKey[]> {
+    const result = await db.query(
+      `SELECT ${PUBLIC_COLUMNS} FROM api_keys
+       WHERE user_id = $1
+       ORDER BY created_at DESC, id DESC`,
+      [userId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Revoke one of the user's keys
+   * @returns false if the key does not exist, belongs to someone else or is already revoked
+   */
+  static async revokeKey(userId: number, keyId: number): Promise<boolean> {
+    const result = await db.query(
+      `UPDATE api_keys SET revoked_at = CURRENT_TIMESTAMP
+       WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL`,
+      [keyId, userId]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Resolve a presented key to its owner and scopes
+   * Returns null for malformed, unknown, revoked or expired keys
+   */
+  static async authenticate(key: string): Promise<ApiKeyPrincipal | null> {
+    const prefix = this.extractPrefix(key);
+    if (!prefix) {
+      return null;
+    }
+
+    const result = await db.query(
+      `SELECT k.id, k.key_hash, k.scopes, k.expires_at, k.revoked_at,
+              u.id as user_id, u.email, u.role
+       FROM api_keys k
+       JOIN users u ON k.user_id = u.id
+       WHERE k.prefix = $1`,
+      [prefix]
+    );
+
+    const row = result.rows[0];
+    if (!row || row.revoked_at) {
+      return null;
+    }
+
+    if (row.expires_at && new Date(row.expires_at) <= new Date()) {
+      return null;
+    }
+
+    const expected = Buffer.from(row.key_hash, 'hex');
+    const actual = Buffer.from(this.hashKey(key), 'hex');
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    await db.query(
+      `UPDATE api_keys SET last_used_at = CURRENT_TIMESTAMP
+       WHERE id = $1
+         AND (last_used_at IS NULL OR last_used_at < CURRENT_TIMESTAMP - make_interval(secs => $2))`,
+      [row.id, LAST_USED_RESOLUTION_SECONDS]
+    );
+
+    return {
+      user: { id: row.user_id, email: row.email, role: row.role },
+      apiKeyId: row.id,
+      scopes: row.scopes
+    };
+  }
+
+  /**
+   * Validate scope value
+   */
+  static isValidScope(scope: any): scope is ApiKeyScope {
+    return API_KEY_SCOPES.includes(scope);
+  }
+
+  /**
+   * `ll_1a2b3c4d_<secret>` -> `ll_1a2b3c4d`
+   */
+  private static extractPrefix(key: string): string | null {
+    const match = /^(ll_[0-9a-f]{8})_[A-Za-z0-9_-]+$/.exec(key);
+    return match ? match[1] : null;
+  }
+
+  private static hashKey(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+}
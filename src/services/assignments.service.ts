@@ -0,0 +1,937 @@
+import crypto from 'crypto';
+import { db, PoolClient } from '../db';
+import { publish, isNotificationsEnabled } from '../modules/notifications/publisher';
+import { LessonAttachmentsService, UploadedFile } from './lesson-attachments.service';
+import { AssignmentValidator, ValidationError } from '../utils/validation';
+import {
+  RubricCriterion,
+  RubricScore,
+  RubricSelection,
+  SubmissionType,
+  acceptsSubmission,
+  applyLatePenalty,
+  lateDays,
+  latePenaltyPercent,
+  rubricMaxPoints,
+  scoreRubric
+} from '../utils/assignment-grading';
+
+/**
+ * Essay and file assignments, graded by hand against a rubric
+ *
+ * A student has one submission per assignment: a draft they can edit until
+ * they submit it, after which it is locked. Graders score it against the
+ * rubric; the late penalty is taken from the submission's late days and the
+ * assignment's policy at grading time. Students only see a grade once it is
+ * released, which notifies them through the outbox. After that they can ask
+ * for a regrade, one open request at a time.
+ *
+ * The rubric cannot change once a submission is graded, so stored scores
+ * always point at the criteria and levels they were given for.
+ */
+
+export interface Assignment {
+  id: number;
+  course_id: number;
+  title: string;
+  instructions: string | null;
+  submission_type: SubmissionType;
+  due_at: Date | null;
+  late_penalty_per_day: number | null;
+  late_penalty_max: number;
+  late_cutoff_days: number | null;
+  rubric: RubricCriterion[];
+  max_points: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface AssignmentData {
+  title?: string;
+  instructions?: string | null;
+  submission_type?: SubmissionType;
+  due_at?: string | null;
+  late_penalty_per_day?: number | null;
+  late_penalty_max?: number;
+  late_cutoff_days?: number | null;
+  rubric?: RubricCriterion[];
+}
+
+export interface SubmissionFile {
+  id: number;
+  submission_id: number;
+  filename: string;
+  content_type: string;
+  size_bytes: number;
+  checksum_sha256: string;
+  created_at: Date;
+}
+
+export interface AssignmentSubmission {
+  id: number;
+  assignment_id: number;
+  user_id: number;
+  text_content: string | null;
+  status: 'draft' | 'submitted';
+  submitted_at: Date | null;
+  late_days: number;
+  files: SubmissionFile[];
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface AssignmentGrade {
+  id: number;
+  submission_id: number;
+  grader_id: number | null;
+  rubric_scores: RubricScore[];
+  raw_points: number;
+  late_penalty_percent: number;
+  points: number;
+  max_points: number;
+  feedback: string | null;
+  released_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface RegradeRequest {
+  id: number;
+  submission_id: number;
+  reason: string;
+  status: 'open' | 'resolved' | 'rejected';
+  response: string | null;
+  resolved_by: number | null;
+  created_at: Date;
+  resolved_at: Date | null;
+}
+
+// What a student sees of their own submission: the grade only once released
+export interface StudentSubmission extends AssignmentSubmission {
+  grade: AssignmentGrade | null;
+  regrade_requests: RegradeRequest[];
+}
+
+// What graders see of each submitted submission
+export interface GradedSubmission extends AssignmentSubmission {
+  student: { id: number; name: string; email: string };
+  grade: AssignmentGrade | null;
+  open_regrade_request: RegradeRequest | null;
+}
+
+// A submission file with what is needed to authorize access to it
+export interface SubmissionFileAccess extends SubmissionFile {
+  assignment_id: number;
+  course_id: number;
+  user_id: number;
+}
+
+export interface GradeData {
+  scores: RubricSelection[];
+  feedback?: string | null;
+  release?: boolean;
+}
+
+export interface RegradeResolution {
+  status: 'resolved' | 'rejected';
+  response?: string | null;
+}
+
+const MAX_FILES_PER_SUBMISSION = 10;
+
+/**
+ * A service error with details for the response: the file limit for
+ * TOO_MANY_FILES, the due date and lateness for PAST_DUE, the validation
+ * errors for INVALID_GRADE
+ */
+export class AssignmentError extends Error {
+  constructor(
+    message: 'TOO_MANY_FILES' | 'PAST_DUE' | 'INVALID_GRADE',
+    readonly details: { max?: number; dueAt?: Date | null; lateDays?: number; errors?: ValidationError[] }
+  ) {
+    super(message);
+    this.name = 'AssignmentError';
+  }
+}
+
+// Fields stored as given; rubric and due_at need conversion
+const PLAIN_FIELDS = [
+  'title',
+  'instructions',
+  'submission_type',
+  'late_penalty_per_day',
+  'late_penalty_max',
+  'late_cutoff_days'
+] as const;
+
+type Queryable = { query(text: string, params?: any[]): Promise<{ rows: any[] }> };
+
+function toAssignment(row: any): Assignment {
+  return {
+    id: row.id,
+    course_id: row.course_id,
+    title: row.title,
+    instructions: row.instructions,
+    submission_type: row.submission_type,
+    due_at: row.due_at,
+    late_penalty_per_day: row.late_penalty_per_day === null ? null : parseFloat(row.late_penalty_per_day),
+    late_penalty_max: parseFloat(row.late_penalty_max),
+    late_cutoff_days: row.late_cutoff_days,
+    rubric: row.rubric,
+    max_points: rubricMaxPoints(row.rubric),
+    created_at: row.created_at,
+    updated_at: row.updated_at
+  };
+}
+
+// bigint columns arrive as strings
+function toFile(row: any): SubmissionFile {
+  return {
+    id: row.id,
+    submission_id: row.submission_id,
+    filename: row.filename,
+    content_type: row.content_type,
+    size_bytes: parseInt(row.size_bytes, 10),
+    checksum_sha256: row.checksum_sha256,
+    created_at: row.created_at
+  };
+}
+
+function toSubmission(row: any, files: SubmissionFile[]): AssignmentSubmission {
+  return {
+    id: row.id,
+    assignment_id: row.assignment_id,
+    user_id: row.user_id,
+    text_content: row.text_content,
+    status: row.status,
+    submitted_at: row.submitted_at,
+    late_days: row.late_days,
+    files,
+    created_at: row.created_at,
+    updated_at: row.updated_at
+  };
+}
+
+function toGrade(row: any): AssignmentGrade {
+  return {
+    id: row.id,
+    submission_id: row.submission_id,
+    grader_id: row.grader_id,
+    rubric_scores: row.rubric_scores,
+    raw_points: parseFloat(row.raw_points),
+    late_penalty_percent: parseFloat(row.late_penalty_percent),
+    points: parseFloat(row.points),
+    max_points: parseFloat(row.max_points),
+    feedback: row.feedback,
+    released_at: row.released_at,
+    created_at: row.created_at,
+    updated_at: row.updated_at
+  };
+}
+
+export class AssignmentsService {
+  /**
+   * List a course's assignments by due date, undated ones last
+   */
+  static async listAssignments(courseId: number): Promise<Assignment[]> {
+    const result = await db.query(
+      `SELECT * FROM assignments
+       WHERE course_id = $1
+       ORDER BY due_at NULLS LAST, created_at, id`,
+      [courseId]
+    );
+
+    return result.rows.map(toAssignment);
+  }
+
+  /**
+   * Get an assignment by ID
+   */
+  static async getAssignmentById(id: number): Promise<Assignment | null> {
+    const result = await db.query('SELECT * FROM assignments WHERE id = $1', [id]);
+    return result.rows[0] ? toAssignment(result.rows[0]) : null;
+  }
+
+  /**
+   * Create an assignment
+   */
+  static async createAssignment(courseId: number, data: AssignmentData & { title: string; rubric: RubricCriterion[] }): Promise<Assignment> {
+    const result = await db.query(
+      `INSERT INTO assignments (
+         course_id, title, instructions, submission_type, due_at,
+         late_penalty_per_day, late_penalty_max, late_cutoff_days, rubric
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       RETURNING *`,
+      [
+        courseId,
+        data.title.trim(),
+        data.instructions ?? null,
+        data.submission_type ?? 'text',
+        data.due_at ? new Date(data.due_at) : null,
+        data.late_penalty_per_day ?? null,
+        data.late_penalty_max ?? 100,
+        data.late_cutoff_days ?? null,
+        JSON.stringify(data.rubric)
+      ]
+    );
+
+    return toAssignment(result.rows[0]);
+  }
+
+  /**
+   * Update an assignment; changing the due date recounts the late days of
+   * submissions made so far (grades keep the penalty they were given until regraded)
+   * Throws NOT_FOUND, or RUBRIC_LOCKED when the rubric changes after grading started
+   */
+  static async updateAssignment(id: number, data: AssignmentData): Promise<Assignment> {
+    const client = await db.getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      // Grading takes a share lock, so no grade appears while the rubric changes
+      const current = await client.query('SELECT * FROM assignments WHERE id = $1 FOR UPDATE', [id]);
+      if (current.rows.length === 0) {
+        throw new Error('NOT_FOUND');
+      }
+
+      const updateFields: string[] = [];
+      const values: any[] = [];
+      let paramCount = 1;
+
+      for (const field of PLAIN_FIELDS) {
+        if (data[field] !== undefined) {
+          updateFields.push(`${field} = $${paramCount++}`);
+          values.push(field === 'title' ? data.title!.trim() : data[field]);
+        }
+      }
+
+      if (data.due_at !== undefined) {
+        updateFields.push(`due_at = $${paramCount++}`);
+        values.push(data.due_at === null ? null : new Date(data.due_at));
+      }
+
+      if (data.rubric !== undefined && JSON.stringify(data.rubric) !== JSON.stringify(current.rows[0].rubric)) {
+        const graded = await client.query(
+          `SELECT 1 FROM assignment_grades g
+           JOIN assignment_submissions s ON s.id = g.submission_id
+           WHERE s.assignment_id = $1
+           LIMIT 1`,
+          [id]
+        );
+        if (graded.rows.length > 0) {
+          throw new Error('RUBRIC_LOCKED');
+        }
+
+        updateFields.push(`rubric = $${paramCount++}`);
+        values.push(JSON.stringify(data.rubric));
+      }
+
+      if (updateFields.length > 0) {
+        values.push(id);
+        await client.query(
+          `UPDATE assignments SET ${updateFields.join(', ')}, updated_at = CURRENT_TIMESTAMP WHERE id = $${paramCount}`,
+          values
+        );
+      }
+
+      if (data.due_at !== undefined) {
+        await client.query(
+          `UPDATE assignment_submissions s
+           SET late_days = CASE
+             WHEN a.due_at IS NULL OR s.submitted_at <= a.due_at THEN 0
+             ELSE CEIL(EXTRACT(EPOCH FROM s.submitted_at - a.due_at) / 86400)::int
+           END
+           FROM assignments a
+           WHERE a.id = s.assignment_id AND s.assignment_id = $1 AND s.status = 'submitted'`,
+          [id]
+        );
+      }
+
+      const updated = await client.query('SELECT * FROM assignments WHERE id = $1', [id]);
+
+      await client.query('COMMIT');
+      return toAssignment(updated.rows[0]);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Delete an assignment with its submissions and grades
+   * Throws NOT_FOUND
+   */
+  static async deleteAssignment(id: number): Promise<void> {
+    const result = await db.query('DELETE FROM assignments WHERE id = $1', [id]);
+
+    if ((result.rowCount ?? 0) === 0) {
+      throw new Error('NOT_FOUND');
+    }
+
+    await LessonAttachmentsService.deleteUnreferencedObjects();
+  }
+
+  /**
+   * The files of some submissions, by submission ID
+   */
+  private static async listFiles(queryable: Queryable, submissionIds: number[]): Promise<Map<number, SubmissionFile[]>> {
+    const files = new Map<number, SubmissionFile[]>(submissionIds.map(id => [id, []]));
+    if (submissionIds.length === 0) {
+      return files;
+    }
+
+    const result = await queryable.query(
+      `SELECT * FROM assignment_submission_files
+       WHERE submission_id = ANY($1::int[])
+       ORDER BY created_at, id`,
+      [submissionIds]
+    );
+    for (const row of result.rows) {
+      files.get(row.submission_id)!.push(toFile(row));
+    }
+
+    return files;
+  }
+
+  /**
+   * A student's submission with its files, released grade and regrade requests
+   * @returns null before the student saved anything
+   */
+  static async getStudentSubmission(assignmentId: number, userId: number): Promise<StudentSubmission | null> {
+    const result = await db.query(
+      'SELECT * FROM assignment_submissions WHERE assignment_id = $1 AND user_id = $2',
+      [assignmentId, userId]
+    );
+
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+
+    const [files, grade, requests] = await Promise.all([
+      this.listFiles(db, [row.id]),
+      db.query('SELECT * FROM assignment_grades WHERE submission_id = $1 AND released_at IS NOT NULL', [row.id]),
+      db.query('SELECT * FROM assignment_regrade_requests WHERE submission_id = $1 ORDER BY created_at, id', [row.id])
+    ]);
+
+    return {
+      ...toSubmission(row, files.get(row.id)!),
+      grade: grade.rows[0] ? toGrade(grade.rows[0]) : null,
+      regrade_requests: requests.rows
+    };
+  }
+
+  /**
+   * The student's draft, created if needed, locked for the transaction
+   * Throws ALREADY_SUBMITTED
+   */
+  private static async lockDraft(client: PoolClient, assignmentId: number, userId: number): Promise<any> {
+    const result = await client.query(
+      `INSERT INTO assignment_submissions (assignment_id, user_id)
+       VALUES ($1, $2)
+       ON CONFLICT (assignment_id, user_id) DO UPDATE SET updated_at = CURRENT_TIMESTAMP
+       RETURNING *`,
+      [assignmentId, userId]
+    );
+
+    if (result.rows[0].status === 'submitted') {
+      throw new Error('ALREADY_SUBMITTED');
+    }
+
+    return result.rows[0];
+  }
+
+  /**
+   * Save the text of a student's draft
+   * Throws TEXT_NOT_ACCEPTED or ALREADY_SUBMITTED
+   */
+  static async saveText(assignment: Assignment, userId: number, text: string): Promise<StudentSubmission> {
+    if (assignment.submission_type === 'file') {
+      throw new Error('TEXT_NOT_ACCEPTED');
+    }
+
+    const client = await db.getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      const draft = await this.lockDraft(client, assignment.id, userId);
+      await client.query('UPDATE assignment_submissions SET text_content = $1 WHERE id = $2', [text, draft.id]);
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return (await this.getStudentSubmission(assignment.id, userId))!;
+  }
+
+  /**
+   * Add a file to a student's draft
+   * Throws FILES_NOT_ACCEPTED, ALREADY_SUBMITTED or TOO_MANY_FILES
+   */
+  static async addFile(assignment: Assignment, userId: number, file: UploadedFile): Promise<SubmissionFile> {
+    if (assignment.submission_type === 'text') {
+      throw new Error('FILES_NOT_ACCEPTED');
+    }
+
+    const checksum = crypto.createHash('sha256').update(file.data).digest('hex');
+    const client = await db.getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      const draft = await this.lockDraft(client, assignment.id, userId);
+
+      const count = await client.query(
+        'SELECT COUNT(*) as total FROM assignment_submission_files WHERE submission_id = $1',
+        [draft.id]
+      );
+      if (parseInt(count.rows[0].total) >= MAX_FILES_PER_SUBMISSION) {
+        throw new AssignmentError('TOO_MANY_FILES', { max: MAX_FILES_PER_SUBMISSION });
+      }
+
+      await LessonAttachmentsService.storeObject(client, checksum, file.data, file.contentType);
+
+      const inserted = await client.query(
+        `INSERT INTO assignment_submission_files (submission_id, filename, content_type, size_bytes, checksum_sha256)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING *`,
+        [draft.id, file.filename, file.contentType, file.data.length, checksum]
+      );
+
+      await client.query('COMMIT');
+      return toFile(inserted.rows[0]);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Remove a file from a student's draft
+   * Throws NOT_FOUND or ALREADY_SUBMITTED
+   */
+  static async removeFile(assignmentId: number, userId: number, fileId: number): Promise<void> {
+    const client = await db.getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      const file = await client.query(
+        `SELECT f.id, s.status
+         FROM assignment_submission_files f
+         JOIN assignment_submissions s ON s.id = f.submission_id
+         WHERE f.id = $1 AND s.assignment_id = $2 AND s.user_id = $3
+         FOR UPDATE OF s`,
+        [fileId, assignmentId, userId]
+      );
+      if (file.rows.length === 0) {
+        throw new Error('NOT_FOUND');
+      }
+      if (file.rows[0].status === 'submitted') {
+        throw new Error('ALREADY_SUBMITTED');
+      }
+
+      await client.query('DELETE FROM assignment_submission_files WHERE id = $1', [fileId]);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    await LessonAttachmentsService.deleteUnreferencedObjects();
+  }
+
+  /**
+   * Submit a student's draft, recording how late it is; the submission is locked afterwards
+   * Throws EMPTY_SUBMISSION, ALREADY_SUBMITTED, or PAST_DUE with the due date and late days
+   */
+  static async submit(assignment: Assignment, userId: number): Promise<StudentSubmission> {
+    const client = await db.getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        `SELECT s.*, CURRENT_TIMESTAMP as now,
+                (SELECT COUNT(*) FROM assignment_submission_files f WHERE f.submission_id = s.id)::int as file_count
+         FROM assignment_submissions s
+         WHERE s.assignment_id = $1 AND s.user_id = $2
+         FOR UPDATE`,
+        [assignment.id, userId]
+      );
+
+      const draft = result.rows[0];
+      if (!draft) {
+        throw new Error('EMPTY_SUBMISSION');
+      }
+      if (draft.status === 'submitted') {
+        throw new Error('ALREADY_SUBMITTED');
+      }
+
+      // 'both' takes text, files or both; the other types need their own kind of content
+      const hasText = assignment.submission_type !== 'file' && !!draft.text_content?.trim();
+      const hasFiles = assignment.submission_type !== 'text' && draft.file_count > 0;
+      if (!hasText && !hasFiles) {
+        throw new Error('EMPTY_SUBMISSION');
+      }
+
+      const daysLate = lateDays(assignment.due_at, draft.now);
+      if (!acceptsSubmission(assignment, daysLate)) {
+        throw new AssignmentError('PAST_DUE', { dueAt: assignment.due_at, lateDays: daysLate });
+      }
+
+      await client.query(
+        `UPDATE assignment_submissions
+         SET status = 'submitted', submitted_at = $1, late_days = $2, updated_at = CURRENT_TIMESTAMP
+         WHERE id = $3`,
+        [draft.now, daysLate, draft.id]
+      );
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return (await this.getStudentSubmission(assignment.id, userId))!;
+  }
+
+  /**
+   * Submitted submissions with their students, grades and open regrade requests, oldest first
+   */
+  static async listSubmissions(assignmentId: number): Promise<GradedSubmission[]> {
+    const result = await db.query(
+      `SELECT s.*, u.name as student_name, u.email as student_email
+       FROM assignment_submissions s
+       JOIN users u ON u.id = s.user_id
+       WHERE s.assignment_id = $1 AND s.status = 'submitted'
+       ORDER BY s.submitted_at, s.id`,
+      [assignmentId]
+    );
+
+    const ids = result.rows.map(row => row.id);
+    const [files, grades, requests] = await Promise.all([
+      this.listFiles(db, ids),
+      db.query('SELECT * FROM assignment_grades WHERE submission_id = ANY($1::int[])', [ids]),
+      db.query("SELECT * FROM assignment_regrade_requests WHERE submission_id = ANY($1::int[]) AND status = 'open'", [ids])
+    ]);
+
+    const gradeBySubmission = new Map(grades.rows.map(row => [row.submission_id, toGrade(row)]));
+    const requestBySubmission = new Map(requests.rows.map(row => [row.submission_id, row as RegradeRequest]));
+
+    return result.rows.map(row => ({
+      ...toSubmission(row, files.get(row.id)!),
+      student: { id: row.user_id, name: row.student_name, email: row.student_email },
+      grade: gradeBySubmission.get(row.id) ?? null,
+      open_regrade_request: requestBySubmission.get(row.id) ?? null
+    }));
+  }
+
+  /**
+   * Grade a submitted submission against the rubric, replacing any earlier grade
+   * A released grade stays released; the student is notified when a grade is
+   * released or a released grade changes.
+   * Throws NOT_FOUND, NOT_SUBMITTED, or INVALID_GRADE with details
+   */
+  static async gradeSubmission(assignmentId: number, submissionId: number, data: GradeData, graderId: number): Promise<AssignmentGrade> {
+    const client = await db.getClient();
+    let grade: AssignmentGrade;
+    let assignment: Assignment;
+    let userId: number;
+    let wasReleased: boolean;
+
+    try {
+      await client.query('BEGIN');
+
+      // Keeps the rubric from changing until this grade is in
+      const assignmentResult = await client.query('SELECT * FROM assignments WHERE id = $1 FOR SHARE', [assignmentId]);
+      const submission = await client.query(
+        'SELECT * FROM assignment_submissions WHERE id = $1 AND assignment_id = $2',
+        [submissionId, assignmentId]
+      );
+      if (assignmentResult.rows.length === 0 || submission.rows.length === 0) {
+        throw new Error('NOT_FOUND');
+      }
+      if (submission.rows[0].status !== 'submitted') {
+        throw new Error('NOT_SUBMITTED');
+      }
+
+      assignment = toAssignment(assignmentResult.rows[0]);
+      userId = submission.rows[0].user_id;
+
+      const validation = AssignmentValidator.validateGrade(data, assignment.rubric);
+      if (!validation.isValid) {
+        throw new AssignmentError('INVALID_GRADE', { errors: validation.errors });
+      }
+
+      const scores = scoreRubric(assignment.rubric, data.scores);
+      const rawPoints = scores.reduce((sum, score) => sum + score.points, 0);
+      const penalty = latePenaltyPercent(assignment, submission.rows[0].late_days);
+
+      const previous = await client.query(
+        'SELECT released_at FROM assignment_grades WHERE submission_id = $1 FOR UPDATE',
+        [submissionId]
+      );
+      wasReleased = !!previous.rows[0]?.released_at;
+
+      const result = await client.query(
+        `INSERT INTO assignment_grades (
+           submission_id, grader_id, rubric_scores, raw_points, late_penalty_percent, points, max_points, feedback, released_at
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, CASE WHEN $9 THEN CURRENT_TIMESTAMP END)
+         ON CONFLICT (submission_id) DO UPDATE SET
+           grader_id = EXCLUDED.grader_id,
+           rubric_scores = EXCLUDED.rubric_scores,
+           raw_points = EXCLUDED.raw_points,
+           late_penalty_percent = EXCLUDED.late_penalty_percent,
+           points = EXCLUDED.points,
+           max_points = EXCLUDED.max_points,
+           feedback = EXCLUDED.feedback,
+           released_at = COALESCE(assignment_grades.released_at, EXCLUDED.released_at),
+           updated_at = CURRENT_TIMESTAMP
+         RETURNING *`,
+        [
+          submissionId,
+          graderId,
+          JSON.stringify(scores),
+          Math.round(rawPoints * 100) / 100,
+          penalty,
+          applyLatePenalty(rawPoints, penalty),
+          assignment.max_points,
+          data.feedback ?? null,
+          data.release === true
+        ]
+      );
+      grade = toGrade(result.rows[0]);
+
+      if (grade.released_at) {
+        await this.notifyReleased(client, assignment, [{ grade, userId }], wasReleased);
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return grade;
+  }
+
+  /**
+   * Release graded submissions to their students, all of them or the ones given
+   * @returns The grades released now; already released ones are left alone
+   */
+  static async releaseGrades(assignment: Assignment, submissionIds?: number[]): Promise<AssignmentGrade[]> {
+    const client = await db.getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        `UPDATE assignment_grades g
+         SET released_at = CURRENT_TIMESTAMP
+         FROM assignment_submissions s
+         WHERE s.id = g.submission_id
+           AND s.assignment_id = $1
+           AND g.released_at IS NULL
+           AND ($2::int[] IS NULL OR s.id = ANY($2::int[]))
+         RETURNING g.*, s.user_id`,
+        [assignment.id, submissionIds ?? null]
+      );
+
+      const released = result.rows.map(row => ({ grade: toGrade(row), userId: row.user_id as number }));
+      await this.notifyReleased(client, assignment, released, false);
+
+      await client.query('COMMIT');
+      return released.map(({ grade }) => grade);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Tell students their grade is out, or that a released grade changed
+   * The events are written in the caller's transaction, so they only go out if it commits.
+   */
+  private static async notifyReleased(
+    client: PoolClient,
+    assignment: Assignment,
+    released: Array<{ grade: AssignmentGrade; userId: number }>,
+    regraded: boolean
+  ): Promise<void> {
+    if (!isNotificationsEnabled()) {
+      return;
+    }
+
+    for (const { grade, userId } of released) {
+      await publish('assignment.grade_released', {
+        assignmentId: assignment.id,
+        courseId: assignment.course_id,
+        submissionId: grade.submission_id,
+        userId,
+        title: assignment.title,
+        points: grade.points,
+        maxPoints: grade.max_points,
+        regraded
+      }, client);
+    }
+  }
+
+  /**
+   * Ask for a released grade to be looked at again
+   * Throws NOT_GRADED (no released grade) or REGRADE_PENDING
+   */
+  static async requestRegrade(assignmentId: number, userId: number, reason: string): Promise<RegradeRequest> {
+    const client = await db.getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      const submission = await client.query(
+        `SELECT s.id FROM assignment_submissions s
+         JOIN assignment_grades g ON g.submission_id = s.id AND g.released_at IS NOT NULL
+         WHERE s.assignment_id = $1 AND s.user_id = $2
+         FOR UPDATE OF s`,
+        [assignmentId, userId]
+      );
+      if (submission.rows.length === 0) {
+        throw new Error('NOT_GRADED');
+      }
+
+      const open = await client.query(
+        "SELECT 1 FROM assignment_regrade_requests WHERE submission_id = $1 AND status = 'open'",
+        [submission.rows[0].id]
+      );
+      if (open.rows.length > 0) {
+        throw new Error('REGRADE_PENDING');
+      }
+
+      const result = await client.query(
+        `INSERT INTO assignment_regrade_requests (submission_id, reason)
+         VALUES ($1, $2)
+         RETURNING *`,
+        [submission.rows[0].id, reason.trim()]
+      );
+
+      await client.query('COMMIT');
+      return result.rows[0];
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Regrade requests on an assignment, optionally of one status, oldest first
+   */
+  static async listRegradeRequests(assignmentId: number, status?: RegradeRequest['status']): Promise<Array<RegradeRequest & { user_id: number }>> {
+    const result = await db.query(
+      `SELECT r.*, s.user_id
+       FROM assignment_regrade_requests r
+       JOIN assignment_submissions s ON s.id = r.submission_id
+       WHERE s.assignment_id = $1 AND ($2::text IS NULL OR r.status = $2)
+       ORDER BY r.created_at, r.id`,
+      [assignmentId, status ?? null]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Answer an open regrade request; change the grade itself with gradeSubmission
+   * Throws NOT_FOUND or ALREADY_RESOLVED
+   */
+  static async resolveRegradeRequest(
+    assignment: Assignment,
+    requestId: number,
+    resolution: RegradeResolution,
+    resolvedBy: number
+  ): Promise<RegradeRequest> {
+    const client = await db.getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      const result = await client.query(
+        `UPDATE assignment_regrade_requests r
+         SET status = $1, response = $2, resolved_by = $3, resolved_at = CURRENT_TIMESTAMP
+         FROM assignment_submissions s
+         WHERE s.id = r.submission_id AND r.id = $4 AND s.assignment_id = $5 AND r.status = 'open'
+         RETURNING r.*, s.user_id`,
+        [resolution.status, resolution.response ?? null, resolvedBy, requestId, assignment.id]
+      );
+
+      if (result.rows.length === 0) {
+        const existing = await client.query(
+          `SELECT 1 FROM assignment_regrade_requests r
+           JOIN assignment_submissions s ON s.id = r.submission_id
+           WHERE r.id = $1 AND s.assignment_id = $2`,
+          [requestId, assignment.id]
+        );
+        throw new Error(existing.rows.length > 0 ? 'ALREADY_RESOLVED' : 'NOT_FOUND');
+      }
+
+      const { user_id: userId, ...request } = result.rows[0];
+
+      if (isNotificationsEnabled()) {
+        await publish('assignment.regrade_resolved', {
+          assignmentId: assignment.id,
+          courseId: assignment.course_id,
+          submissionId: request.submission_id,
+          requestId: request.id,
+          userId,
+          status: request.status
+        }, client);
+      }
+
+      await client.query('COMMIT');
+      return request;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * A submission file with its assignment, course and student
+   */
+  static async getFile(fileId: number): Promise<SubmissionFileAccess | null> {
+    const result = await db.query(
+      `SELECT f.*, s.assignment_id, s.user_id, a.course_id
+       FROM assignment_submission_files f
+       JOIN assignment_submissions s ON s.id = f.submission_id
+       JOIN assignments a ON a.id = s.assignment_id
+       WHERE f.id = $1`,
+      [fileId]
+    );
+
+    const row = result.rows[0];
+    return row
+      ? { ...toFile(row), assignment_id: row.assignment_id, course_id: row.course_id, user_id: row.user_id }
+      : null;
+  }
+}
@@ -1,65 +1,56 @@
-import bcrypt from 'bcrypt';
-import jwt from 'jsonwebtoken';
-import { config } from '../config';
+import { passwordHasher } from '../utils/password-hasher';
 
 /**
- * Authentication service for password hashing and JWT operations
- * 
- * Using bcrypt for password hashing:
- * - Industry standard with built-in salt generation
- * - Adaptive cost factor (rounds) for future-proofing
- * - Well-tested and widely adopted
- * - Good balance of security and performance
+ * Authentication service for password checks and user profiles
+ *
+ * Password hashing lives in utils/password-hasher (bcrypt, cost factor 12);
+ * JWTs are issued and verified by TokenService.
  */
 
-const BCRYPT_ROUNDS = 12; // Higher than default 10 for better security
+let dummyHash: Promise<string> | null = null;
 
 export class AuthService {
   /**
-   * Hash a plain text password using bcrypt
+   * Hash a plain text password
    */
   static async hashPassword(password: string): Promise<string> {
-    return bcrypt.hash(password, BCRYPT_ROUNDS);
+    return passwordHasher.hash(password);
   }
 
   /**
    * Verify a plain text password against a hashed password
+   * SSO-only accounts have no hash and never match (same timing as a wrong password)
    */
-  static async verifyPassword(password: string, hashedPassword: string): Promise<boolean> {
-    return bcrypt.compare(password, hashedPassword);
+  static async verifyPassword(password: string, hashedPassword: string | null): Promise<boolean> {
+    if (!hashedPassword || !password) {
+      return this.verifyAgainstDummyHash(password);
+    }
+    return passwordHasher.compare(password, hashedPassword);
   }
 
   /**
-   * Generate JWT token for authenticated user
+   * Compare against a throwaway hash so that logins for unknown emails
+   * take as long as logins with a wrong password
    */
-  static generateToken(user: { id: number; email: string; role: string }): string {
-    const payload = {
-      sub: user.id,        // Subject (user ID)
-      email: user.email,
-      role: user.role,
-      iat: Math.floor(Date.now() / 1000), // Issued at
-      exp: Math.floor(Date.now() / 1000) + (24 * 60 * 60) // Expires in 24 hours
-    };
-
-    return jwt.sign(payload, config.jwtSecret, { algorithm: 'HS256' });
-  }
-
-  /**
-   * Verify JWT token and return decoded payload
-   */
-  static verifyToken(token: string): any {
-    return jwt.verify(token, config.jwtSecret);
+  static async verifyAgainstDummyHash(password: string): Promise<false> {
+    if (!dummyHash) {
+      dummyHash = passwordHasher.hash('learnlite-timing-equalizer');
+    }
+    // The hasher rejects empty input; any non-matching value costs the same
+    await passwordHasher.compare(password || ' ', await dummyHash);
+    return false;
   }
 
   /**
    * Create user profile response (safe for client)
    */
-  static createUserProfile(user: { id: number; email: string; name: string; role: string; created_at: Date }) {
+  static createUserProfile(user: { id: number; email: string; name: string; role: string; created_at: Date; email_verified_at?: Date | null }) {
     return {
       id: user.id,
       email: user.email,
       name: user.name,
       role: user.role,
+      ...(user.email_verified_at !== undefined && { emailVerified: user.email_verified_at !== null }),
       createdAt: user.created_at
     };
   }
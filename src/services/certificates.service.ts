@@ -1,4 +1,5 @@
 import { db } from '../db';
+import { can } from '../modules/permissions/policy';
 import { progressService } from './progress.service';
 import { publish, isNotificationsEnabled } from '../modules/notifications/publisher';
 import crypto from 'crypto';
@@ -97,7 +98,7 @@ export class CertificatesService {
   }
 
   /**
-   * Issue a certificate to a user for a course (instructor/admin)
+   * Issue a certificate to a user for a course (certificate.issue)
    */
   async issueCertificate(
     userId: number,
@@ -116,7 +117,7 @@ export class CertificatesService {
     }
 
     // Check permissions
-    if (issuerRole !== 'admin' && course.rows[0].instructor_id !== issuerId) {
+    if (!(await can({ id: issuerId, role: issuerRole }, 'certificate.issue', { course: course.rows[0] }))) {
       throw new Error('You can only issue certificates for your own courses');
     }
 
@@ -275,7 +276,7 @@ export class CertificatesService {
   }
 
   /**
-   * Get all certificates issued for a course (instructor/admin only)
+   * Get all certificates issued for a course (certificate.view_course)
    */
   async getCourseCertificates(
     courseId: number,
@@ -292,7 +293,7 @@ export class CertificatesService {
       throw new Error('Course not found');
     }
 
-    if (requesterRole !== 'admin' && course.rows[0].instructor_id !== requesterId) {
+    if (!(await can({ id: requesterId, role: requesterRole }, 'certificate.view_course', { course: course.rows[0] }))) {
       throw new Error('You can only view certificates for your own courses');
     }
 
@@ -0,0 +1,228 @@
+import { db } from '../db';
+
+/**
+ * Catalog categories: a tree managed by admins
+ *
+ * Courses belong to at most one category. Filtering the catalog by a
+ * category includes the courses of all its subcategories.
+ */
+
+export interface CourseCategory {
+  id: number;
+  parent_id: number | null;
+  name: string;
+  slug: string;
+  position: number;
+  created_at: Date;
+}
+
+export interface CategoryTreeNode extends CourseCategory {
+  children: CategoryTreeNode[];
+}
+
+export interface CategoryData {
+  name?: string;
+  slug?: string;
+  parent_id?: number | null;
+  position?: number;
+}
+
+const CATEGORY_COLUMNS = 'id, parent_id, name, slug, position, created_at';
+
+/**
+ * URL-safe slug of a category name ("Data & AI" -> "data-ai")
+ */
+export function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 100);
+}
+
+export class CourseCategoriesService {
+  /**
+   * All categories, parents before children, siblings by position then name
+   */
+  static async listCategories(): Promise<CourseCategory[]> {
+    const result = await db.query(
+      `WITH RECURSIVE tree AS (
+         SELECT ${CATEGORY_COLUMNS}, ARRAY[lpad(position::text, 10, '0') || ':' || name] as sort_path
+         FROM course_categories
+         WHERE parent_id IS NULL
+         UNION ALL
+         SELECT c.id, c.parent_id, c.name, c.slug, c.position, c.created_at,
+                t.sort_path || (lpad(c.position::text, 10, '0') || ':' || c.name)
+         FROM course_categories c
+         JOIN tree t ON c.parent_id = t.id
+       )
+       SELECT ${CATEGORY_COLUMNS} FROM tree ORDER BY sort_path`
+    );
+    return result.rows;
+  }
+
+  /**
+   * Categories nested under their parents
+   */
+  static async getCategoryTree(): Promise<CategoryTreeNode[]> {
+    return this.buildTree(await this.listCategories());
+  }
+
+  static buildTree(categories: CourseCategory[]): CategoryTreeNode[] {
+    const nodes = new Map<number, CategoryTreeNode>();
+    const roots: CategoryTreeNode[] = [];
+
+    for (const category of categories) {
+      nodes.set(category.id, { ...category, children: [] });
+    }
+    for (const category of categories) {
+      const node = nodes.get(category.id)!;
+      const parent = category.parent_id === null ? undefined : nodes.get(category.parent_id);
+      (parent ? parent.children : roots).push(node);
+    }
+
+    return roots;
+  }
+
+  static async getCategory(id: number): Promise<CourseCategory | null> {
+    const result = await db.query(`SELECT ${CATEGORY_COLUMNS} FROM course_categories WHERE id = $1`, [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Find a category by ID or slug
+   */
+  static async findCategory(idOrSlug: string): Promise<CourseCategory | null> {
+    const result = /^\d+$/.test(idOrSlug)
+      ? await db.query(`SELECT ${CATEGORY_COLUMNS} FROM course_categories WHERE id = $1`, [parseInt(idOrSlug, 10)])
+      : await db.query(`SELECT ${CATEGORY_COLUMNS} FROM course_categories WHERE slug = $1`, [idOrSlug.toLowerCase()]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * A category's ID and the IDs of all categories below it
+   */
+  static async getSubtreeIds(id: number): Promise<number[]> {
+    const result = await db.query(
+      `WITH RECURSIVE subtree AS (
+         SELECT id FROM course_categories WHERE id = $1
+         UNION ALL
+         SELECT c.id FROM course_categories c JOIN subtree s ON c.parent_id = s.id
+       )
+       SELECT id FROM subtree`,
+      [id]
+    );
+    return result.rows.map(row => row.id);
+  }
+
+  /**
+   * Create a category (category.manage is checked by the caller)
+   * The slug defaults to one made from the name.
+   * Throws PARENT_NOT_FOUND, SLUG_REQUIRED (no slug can be made from the name) or SLUG_TAKEN
+   */
+  static async createCategory(data: CategoryData & { name: string }): Promise<CourseCategory> {
+    if (data.parent_id && !(await this.getCategory(data.parent_id))) {
+      throw new Error('PARENT_NOT_FOUND');
+    }
+
+    const slug = data.slug || slugify(data.name);
+    if (!slug) {
+      throw new Error('SLUG_REQUIRED');
+    }
+
+    try {
+      const result = await db.query(
+        `INSERT INTO course_categories (parent_id, name, slug, position)
+         VALUES ($1, $2, $3, $4)
+         RETURNING ${CATEGORY_COLUMNS}`,
+        [data.parent_id || null, data.name, slug, data.position ?? 0]
+      );
+      return result.rows[0];
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        throw new Error('SLUG_TAKEN');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Rename, move or reorder a category (category.manage is checked by the caller)
+   * Throws NOT_FOUND, PARENT_NOT_FOUND, CYCLE (moving under itself or a descendant) or SLUG_TAKEN
+   */
+  static async updateCategory(id: number, data: CategoryData): Promise<CourseCategory> {
+    if (!(await this.getCategory(id))) {
+      throw new Error('NOT_FOUND');
+    }
+
+    if (data.parent_id) {
+      if (!(await this.getCategory(data.parent_id))) {
+        throw new Error('PARENT_NOT_FOUND');
+      }
+      if ((await this.getSubtreeIds(id)).includes(data.parent_id)) {
+        throw new Error('CYCLE');
+      }
+    }
+
+    const updates: string[] = [];
+    const values: any[] = [];
+    let paramCount = 1;
+
+    if (data.name !== undefined) {
+      updates.push(`name = $${paramCount++}`);
+      values.push(data.name);
+    }
+
+    if (data.slug !== undefined) {
+      updates.push(`slug = $${paramCount++}`);
+      values.push(data.slug);
+    }
+
+    if (data.parent_id !== undefined) {
+      updates.push(`parent_id = $${paramCount++}`);
+      values.push(data.parent_id);
+    }
+
+    if (data.position !== undefined) {
+      updates.push(`position = $${paramCount++}`);
+      values.push(data.position);
+    }
+
+    if (updates.length === 0) {
+      return (await this.getCategory(id))!;
+    }
+
+    values.push(id);
+
+    try {
+      const result = await db.query(
+        `UPDATE course_categories SET ${updates.join(', ')} WHERE id = $${paramCount} RETURNING ${CATEGORY_COLUMNS}`,
+        values
+      );
+      return result.rows[0];
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        throw new Error('SLUG_TAKEN');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a category; its courses become uncategorized (category.manage is checked by the caller)
+   * Throws NOT_FOUND or HAS_CHILDREN
+   */
+  static async deleteCategory(id: number): Promise<void> {
+    const children = await db.query('SELECT 1 FROM course_categories WHERE parent_id = $1 LIMIT 1', [id]);
+    if (children.rows.length > 0) {
+      throw new Error('HAS_CHILDREN');
+    }
+
+    const result = await db.query('DELETE FROM course_categories WHERE id = $1', [id]);
+    if ((result.rowCount ?? 0) === 0) {
+      throw new Error('NOT_FOUND');
+    }
+  }
+}
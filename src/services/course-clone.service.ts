@@ -0,0 +1,312 @@
+import { db, PoolClient } from '../db';
+import { Course } from './courses.service';
+import { lessonRevisionsService } from './lesson-revisions.service';
+
+/**
+ * Deep copies of courses, for re-running a course or starting from a template
+ *
+ * A clone gets the source's modules, lessons (published content, positions,
+ * release rules and attachments), question banks, quizzes with their
+ * questions and bank draws, and assignments with their rubrics. It starts
+ * unpublished, owned by the caller, with no staff, enrollments, progress,
+ * submissions, grades or certificates. Unpublished lesson drafts are not copied.
+ */
+
+export interface CloneResult {
+  course: Course;
+  copied: {
+    modules: number;
+    lessons: number;
+    quizzes: number;
+    questions: number;
+    questionBanks: number;
+    bankQuestions: number;
+    attachments: number;
+    assignments: number;
+  };
+}
+
+export class CourseCloneService {
+  /**
+   * Copy a course in one transaction (course.clone is checked by the caller)
+   * Throws NOT_FOUND
+   */
+  static async cloneCourse(sourceId: number, ownerId: number, title?: string): Promise<CloneResult> {
+    const client = await db.getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      // Hold off edits to the source's own row while it is copied
+      const source = await client.query('SELECT * FROM courses WHERE id = $1 FOR SHARE', [sourceId]);
+      if (source.rows.length === 0) {
+        throw new Error('NOT_FOUND');
+      }
+      const original = source.rows[0];
+
+      const inserted = await client.query(
+        `INSERT INTO courses (title, description, price_cents, instructor_id, published, release_mode,
+                              cloned_from_id, category_id, level, language, tags)
+         VALUES ($1, $2, $3, $4, false, $5, $6, $7, $8, $9, $10)
+         RETURNING id, title, description, price_cents, published, instructor_id, created_at,
+                   category_id, level, language, tags`,
+        [
+          title || original.title,
+          original.description,
+          original.price_cents,
+          ownerId,
+          original.release_mode,
+          sourceId,
+          original.category_id,
+          original.level,
+          original.language,
+          original.tags
+        ]
+      );
+      const course: Course = inserted.rows[0];
+
+      const moduleIds = await this.copyModules(client, sourceId, course.id);
+      const lessonIds = await this.copyLessons(client, sourceId, course.id, moduleIds, ownerId);
+      const banks = await this.copyQuestionBanks(client, sourceId, course.id);
+      const { quizIds, questions } = await this.copyQuizzes(client, sourceId, course.id, banks.bankIds);
+
+      await client.query(
+        `INSERT INTO lesson_prerequisites (lesson_id, prerequisite_lesson_id, prerequisite_quiz_id, min_score)
+         SELECT (map.lessons ->> p.lesson_id::text)::int,
+                (map.lessons ->> p.prerequisite_lesson_id::text)::int,
+                (map.quizzes ->> p.prerequisite_quiz_id::text)::int,
+                p.min_score
+         FROM lesson_prerequisites p
+         JOIN lessons l ON p.lesson_id = l.id
+         CROSS JOIN (SELECT $2::jsonb as lessons, $3::jsonb as quizzes) map
+         WHERE l.course_id = $1
+         ORDER BY p.id`,
+        [sourceId, JSON.stringify(Object.fromEntries(lessonIds)), JSON.stringify(Object.fromEntries(quizIds))]
+      );
+
+      // Attachments share the stored files; only the rows are new
+      const attachments = await client.query(
+        `INSERT INTO lesson_attachments (lesson_id, course_id, filename, content_type, size_bytes, checksum_sha256, uploaded_by)
+         SELECT ($2::jsonb ->> a.lesson_id::text)::int, $3, a.filename, a.content_type, a.size_bytes, a.checksum_sha256, $4
+         FROM lesson_attachments a
+         WHERE a.course_id = $1
+         ORDER BY a.id`,
+        [sourceId, JSON.stringify(Object.fromEntries(lessonIds)), course.id, ownerId]
+      );
+
+      // Due dates and late rules come along as they are; submissions and grades do not
+      const assignments = await client.query(
+        `INSERT INTO assignments (course_id, title, instructions, submission_type, due_at,
+                                  late_penalty_per_day, late_penalty_max, late_cutoff_days, rubric)
+         SELECT $2, title, instructions, submission_type, due_at,
+                late_penalty_per_day, late_penalty_max, late_cutoff_days, rubric
+         FROM assignments
+         WHERE course_id = $1
+         ORDER BY id`,
+        [sourceId, course.id]
+      );
+
+      await client.query('COMMIT');
+
+      return {
+        course,
+        copied: {
+          modules: moduleIds.size,
+          lessons: lessonIds.size,
+          quizzes: quizIds.size,
+          questions,
+          questionBanks: banks.bankIds.size,
+          bankQuestions: banks.questions,
+          attachments: attachments.rowCount ?? 0,
+          assignments: assignments.rowCount ?? 0
+        }
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * @returns New module ID per source module ID
+   */
+  private static async copyModules(client: PoolClient, sourceId: number, courseId: number): Promise<Map<number, number>> {
+    const modules = await client.query(
+      'SELECT id, title, position FROM course_modules WHERE course_id = $1 ORDER BY position',
+      [sourceId]
+    );
+
+    const ids = new Map<number, number>();
+    for (const sourceModule of modules.rows) {
+      const copy = await client.query(
+        'INSERT INTO course_modules (course_id, title, position) VALUES ($1, $2, $3) RETURNING id',
+        [courseId, sourceModule.title, sourceModule.position]
+      );
+      ids.set(sourceModule.id, copy.rows[0].id);
+    }
+
+    return ids;
+  }
+
+  /**
+   * Copy lessons with their published content as revision 1
+   * @returns New lesson ID per source lesson ID
+   */
+  private static async copyLessons(
+    client: PoolClient,
+    sourceId: number,
+    courseId: number,
+    moduleIds: Map<number, number>,
+    ownerId: number
+  ): Promise<Map<number, number>> {
+    const lessons = await client.query(
+      `SELECT l.id, l.module_id, l.title, l.video_url, l.content_md, l.position, l.unlock_after_days, l.unlock_at
+       FROM lessons l
+       JOIN course_modules m ON l.module_id = m.id
+       WHERE l.course_id = $1
+       ORDER BY m.position, l.position`,
+      [sourceId]
+    );
+
+    const ids = new Map<number, number>();
+    for (const lesson of lessons.rows) {
+      const copy = await client.query(
+        `INSERT INTO lessons (course_id, module_id, title, video_url, content_md, position, unlock_after_days, unlock_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         RETURNING *`,
+        [
+          courseId,
+          moduleIds.get(lesson.module_id),
+          lesson.title,
+          lesson.video_url,
+          lesson.content_md,
+          lesson.position,
+          lesson.unlock_after_days,
+          lesson.unlock_at
+        ]
+      );
+      const lessonCopy = copy.rows[0];
+
+      // Same as a newly created lesson: its content is revision 1, published
+      const revision = await lessonRevisionsService.createRevision(client, lessonCopy.id, lessonCopy, ownerId);
+      await client.query(
+        'UPDATE lesson_revisions SET published_at = CURRENT_TIMESTAMP, published_by = $1 WHERE id = $2',
+        [ownerId, revision.id]
+      );
+      await client.query('UPDATE lessons SET published_revision_id = $1 WHERE id = $2', [revision.id, lessonCopy.id]);
+
+      ids.set(lesson.id, lessonCopy.id);
+    }
+
+    return ids;
+  }
+
+  /**
+   * Copy question banks and their questions, keeping question order
+   * @returns New bank ID per source bank ID, and the number of questions copied
+   */
+  private static async copyQuestionBanks(
+    client: PoolClient,
+    sourceId: number,
+    courseId: number
+  ): Promise<{ bankIds: Map<number, number>; questions: number }> {
+    const banks = await client.query(
+      'SELECT id, title, description FROM question_banks WHERE course_id = $1 ORDER BY id',
+      [sourceId]
+    );
+
+    const bankIds = new Map<number, number>();
+    let questions = 0;
+
+    for (const bank of banks.rows) {
+      const copy = await client.query(
+        'INSERT INTO question_banks (course_id, title, description) VALUES ($1, $2, $3) RETURNING id',
+        [courseId, bank.title, bank.description]
+      );
+      bankIds.set(bank.id, copy.rows[0].id);
+
+      const sourceQuestions = await client.query(
+        'SELECT prompt, type, points, definition, topic, difficulty FROM bank_questions WHERE bank_id = $1 ORDER BY created_at, id',
+        [bank.id]
+      );
+      for (const question of sourceQuestions.rows) {
+        // clock_timestamp() rather than the transaction time, so copies keep their relative order
+        await client.query(
+          `INSERT INTO bank_questions (bank_id, prompt, type, points, definition, topic, difficulty, created_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, clock_timestamp())`,
+          [
+            copy.rows[0].id, question.prompt, question.type, question.points, JSON.stringify(question.definition),
+            question.topic, question.difficulty
+          ]
+        );
+        questions++;
+      }
+    }
+
+    return { bankIds, questions };
+  }
+
+  /**
+   * Copy quizzes with their questions and bank draws, keeping question order
+   * @returns New quiz ID per source quiz ID, and the number of questions copied
+   */
+  private static async copyQuizzes(
+    client: PoolClient,
+    sourceId: number,
+    courseId: number,
+    bankIds: Map<number, number>
+  ): Promise<{ quizIds: Map<number, number>; questions: number }> {
+    const quizzes = await client.query(
+      `SELECT id, title, max_attempts, time_limit_minutes, pass_score, score_policy, cooldown_minutes,
+              shuffle_questions, shuffle_choices
+       FROM quizzes WHERE course_id = $1 ORDER BY created_at, id`,
+      [sourceId]
+    );
+
+    const quizIds = new Map<number, number>();
+    let questions = 0;
+
+    for (const quiz of quizzes.rows) {
+      // clock_timestamp() rather than the transaction time, so copies keep their relative order
+      const copy = await client.query(
+        `INSERT INTO quizzes (
+           course_id, title, max_attempts, time_limit_minutes, pass_score, score_policy, cooldown_minutes,
+           shuffle_questions, shuffle_choices, created_at
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, clock_timestamp())
+         RETURNING id`,
+        [
+          courseId, quiz.title, quiz.max_attempts, quiz.time_limit_minutes, quiz.pass_score, quiz.score_policy,
+          quiz.cooldown_minutes, quiz.shuffle_questions, quiz.shuffle_choices
+        ]
+      );
+      const quizId = copy.rows[0].id;
+      quizIds.set(quiz.id, quizId);
+
+      const sourceQuestions = await client.query(
+        'SELECT prompt, type, points, definition FROM quiz_questions WHERE quiz_id = $1 ORDER BY created_at, id',
+        [quiz.id]
+      );
+      for (const question of sourceQuestions.rows) {
+        await client.query(
+          `INSERT INTO quiz_questions (quiz_id, prompt, type, points, definition, created_at)
+           VALUES ($1, $2, $3, $4, $5, clock_timestamp())`,
+          [quizId, question.prompt, question.type, question.points, JSON.stringify(question.definition)]
+        );
+        questions++;
+      }
+
+      await client.query(
+        `INSERT INTO quiz_question_draws (quiz_id, bank_id, count, topic, difficulty, position)
+         SELECT $2, ($3::jsonb ->> bank_id::text)::int, count, topic, difficulty, position
+         FROM quiz_question_draws
+         WHERE quiz_id = $1`,
+        [quiz.id, quizId, JSON.stringify(Object.fromEntries(bankIds))]
+      );
+    }
+
+    return { quizIds, questions };
+  }
+}
@@ -0,0 +1,183 @@
+import { db, PoolClient } from '../db';
+
+/**
+ * Course modules: ordered sections of a course that hold its lessons
+ *
+ * Module positions are dense (1..n) per course and lesson positions are dense
+ * per module, so the course order is (module.position, lesson.position).
+ */
+
+export const DEFAULT_MODULE_TITLE = 'Course content';
+
+export interface CourseModule {
+  id: number;
+  course_id: number;
+  title: string;
+  position: number;
+  created_at: Date;
+}
+
+export interface CourseModuleWithLessons extends CourseModule {
+  lessons: {
+    id: number;
+    title: string;
+    position: number;
+  }[];
+}
+
+export class CourseModulesService {
+  /**
+   * List a course's modules in order, each with its lessons in order
+   */
+  static async listModules(courseId: number): Promise<CourseModuleWithLessons[]> {
+    const modulesResult = await db.query(
+      'SELECT * FROM course_modules WHERE course_id = $1 ORDER BY position',
+      [courseId]
+    );
+
+    const lessonsResult = await db.query(
+      'SELECT id, module_id, title, position FROM lessons WHERE course_id = $1 ORDER BY position',
+      [courseId]
+    );
+
+    return modulesResult.rows.map(module => ({
+      ...module,
+      lessons: lessonsResult.rows
+        .filter(lesson => lesson.module_id === module.id)
+        .map(({ module_id, ...lesson }) => lesson)
+    }));
+  }
+
+  /**
+   * Get a module by ID
+   */
+  static async getModuleById(moduleId: number): Promise<CourseModule | null> {
+    const result = await db.query('SELECT * FROM course_modules WHERE id = $1', [moduleId]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Create a module; without a position it is appended
+   */
+  static async createModule(courseId: number, title: string, position?: number): Promise<CourseModule> {
+    const client = await db.getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      // Serialize position changes for the course
+      await client.query('SELECT id FROM courses WHERE id = $1 FOR UPDATE', [courseId]);
+
+      const maxResult = await client.query(
+        'SELECT COALESCE(MAX(position), 0) as max_position FROM course_modules WHERE course_id = $1',
+        [courseId]
+      );
+      const nextPosition = maxResult.rows[0].max_position + 1;
+
+      if (!position || position >= nextPosition) {
+        position = nextPosition;
+      } else {
+        await client.query(
+          'UPDATE course_modules SET position = position + 1 WHERE course_id = $1 AND position >= $2',
+          [courseId, position]
+        );
+      }
+
+      const result = await client.query(
+        `INSERT INTO course_modules (course_id, title, position)
+         VALUES ($1, $2, $3)
+         RETURNING *`,
+        [courseId, title, position]
+      );
+
+      await client.query('COMMIT');
+      return result.rows[0];
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Rename a module
+   * Throws NOT_FOUND
+   */
+  static async updateModule(moduleId: number, title: string): Promise<CourseModule> {
+    const result = await db.query(
+      'UPDATE course_modules SET title = $1 WHERE id = $2 RETURNING *',
+      [title, moduleId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new Error('NOT_FOUND');
+    }
+
+    return result.rows[0];
+  }
+
+  /**
+   * Delete an empty module and close the gap in module positions
+   * Throws NOT_FOUND or MODULE_NOT_EMPTY
+   */
+  static async deleteModule(moduleId: number): Promise<void> {
+    const client = await db.getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      const moduleResult = await client.query(
+        'SELECT * FROM course_modules WHERE id = $1 FOR UPDATE',
+        [moduleId]
+      );
+      const module = moduleResult.rows[0];
+
+      if (!module) {
+        throw new Error('NOT_FOUND');
+      }
+
+      const lessons = await client.query('SELECT 1 FROM lessons WHERE module_id = $1 LIMIT 1', [moduleId]);
+      if (lessons.rows.length > 0) {
+        throw new Error('MODULE_NOT_EMPTY');
+      }
+
+      await client.query('DELETE FROM course_modules WHERE id = $1', [moduleId]);
+      await client.query(
+        'UPDATE course_modules SET position = position - 1 WHERE course_id = $1 AND position > $2',
+        [module.course_id, module.position]
+      );
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * The module new lessons go to when none is given: the course's last module,
+   * created with the default title for courses that have none yet
+   * Runs on the caller's transaction.
+   */
+  static async getOrCreateLastModule(client: PoolClient, courseId: number): Promise<number> {
+    const last = await client.query(
+      'SELECT id FROM course_modules WHERE course_id = $1 ORDER BY position DESC LIMIT 1',
+      [courseId]
+    );
+
+    if (last.rows.length > 0) {
+      return last.rows[0].id;
+    }
+
+    const created = await client.query(
+      `INSERT INTO course_modules (course_id, title, position)
+       VALUES ($1, $2, 1)
+       RETURNING id`,
+      [courseId, DEFAULT_MODULE_TITLE]
+    );
+    return created.rows[0].id;
+  }
+}
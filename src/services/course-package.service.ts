@@ -0,0 +1,611 @@
+import crypto from 'crypto';
+import { db, PoolClient } from '../db';
+import { config } from '../config';
+import { Course } from './courses.service';
+import { lessonRevisionsService } from './lesson-revisions.service';
+import { LessonAttachmentsService } from './lesson-attachments.service';
+import { CourseValidator, ValidationError } from '../utils/validation';
+import { toDefinition } from '../utils/quiz-grading';
+import { packTarGz, unpackTarGz, TarEntry, TarError } from '../modules/course-package/tar';
+import {
+  CourseManifest,
+  PackageLesson,
+  PackagePrerequisite,
+  PackageQuestionBank,
+  PackageQuiz,
+  PACKAGE_FORMAT,
+  PACKAGE_FORMAT_VERSION,
+  MANIFEST_FILE,
+  attachmentFilePath,
+  lessonFilePath,
+  parsePackage
+} from '../modules/course-package/manifest';
+
+/**
+ * Course export and import as portable packages (see modules/course-package)
+ *
+ * An export holds the course's published content: modules, lessons with their
+ * markdown, release rules and attachments, question banks, and quizzes with
+ * their questions and bank draws.
+ * An import creates a new unpublished course owned by the caller, in one
+ * transaction. Staff, enrollments and learner data never leave the instance.
+ */
+
+export interface ImportOptions {
+  dryRun: boolean;
+  force: boolean; // Import despite conflicts
+  title?: string; // Overrides the packaged course title
+}
+
+export interface ImportConflict {
+  code: 'COURSE_TITLE_EXISTS' | 'ALREADY_IMPORTED';
+  message: string;
+  courseId: number;
+}
+
+export interface ImportSummary {
+  modules: number;
+  lessons: number;
+  quizzes: number;
+  questions: number;
+  questionBanks: number;
+  bankQuestions: number;
+  attachments: number;
+  attachmentBytes: number;
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  imported: boolean;
+  errors: ValidationError[];
+  warnings: string[];
+  conflicts: ImportConflict[];
+  summary: ImportSummary | null;
+  course: Course | null;
+}
+
+function importSource(manifest: CourseManifest): string {
+  return `${manifest.source.instance}/courses/${manifest.source.courseId}`;
+}
+
+function summarize(manifest: CourseManifest): ImportSummary {
+  const lessons = manifest.modules.flatMap(module => module.lessons);
+  const attachments = lessons.flatMap(lesson => lesson.attachments);
+
+  return {
+    modules: manifest.modules.length,
+    lessons: lessons.length,
+    quizzes: manifest.quizzes.length,
+    questions: manifest.quizzes.reduce((total, quiz) => total + quiz.questions.length, 0),
+    questionBanks: manifest.questionBanks?.length ?? 0,
+    bankQuestions: (manifest.questionBanks ?? []).reduce((total, bank) => total + bank.questions.length, 0),
+    attachments: attachments.length,
+    attachmentBytes: attachments.reduce((total, attachment) => total + attachment.sizeBytes, 0)
+  };
+}
+
+/**
+ * ATTACHMENT_MISSING: the stored content of an attachment being exported is gone
+ */
+export class AttachmentMissingError extends Error {
+  constructor(readonly filename: string) {
+    super('ATTACHMENT_MISSING');
+    this.name = 'AttachmentMissingError';
+  }
+}
+
+export class CoursePackageService {
+  /**
+   * Export a course as a .tar.gz package (course.export is checked by the caller)
+   * Throws NOT_FOUND, or ATTACHMENT_MISSING (with filename) when stored content is gone
+   */
+  static async exportCourse(courseId: number): Promise<{ filename: string; archive: Buffer }> {
+    const courseResult = await db.query(
+      `SELECT c.id, c.title, c.description, c.price_cents, c.release_mode, c.level, c.language, c.tags,
+              cat.slug as category_slug
+       FROM courses c
+       LEFT JOIN course_categories cat ON c.category_id = cat.id
+       WHERE c.id = $1`,
+      [courseId]
+    );
+    if (courseResult.rows.length === 0) {
+      throw new Error('NOT_FOUND');
+    }
+    const course = courseResult.rows[0];
+
+    const [modules, lessons, prerequisites, attachments, quizzes, questions, banks, bankQuestions, draws] = await Promise.all([
+      db.query('SELECT id, title, position FROM course_modules WHERE course_id = $1 ORDER BY position', [courseId]),
+      db.query(
+        `SELECT l.id, l.module_id, l.title, l.video_url, l.content_md, l.position, l.unlock_after_days, l.unlock_at
+         FROM lessons l
+         JOIN course_modules m ON l.module_id = m.id
+         WHERE l.course_id = $1
+         ORDER BY m.position, l.position`,
+        [courseId]
+      ),
+      db.query(
+        `SELECT p.lesson_id, p.prerequisite_lesson_id, p.prerequisite_quiz_id, p.min_score
+         FROM lesson_prerequisites p
+         JOIN lessons l ON p.lesson_id = l.id
+         WHERE l.course_id = $1
+         ORDER BY p.id`,
+        [courseId]
+      ),
+      db.query(
+        `SELECT id, lesson_id, filename, content_type, size_bytes, checksum_sha256
+         FROM lesson_attachments
+         WHERE course_id = $1
+         ORDER BY created_at, id`,
+        [courseId]
+      ),
+      db.query(
+        `SELECT id, title, max_attempts, time_limit_minutes, pass_score, score_policy, cooldown_minutes,
+                shuffle_questions, shuffle_choices
+         FROM quizzes WHERE course_id = $1 ORDER BY created_at, id`,
+        [courseId]
+      ),
+      db.query(
+        `SELECT qq.quiz_id, qq.prompt, qq.type, qq.points, qq.definition
+         FROM quiz_questions qq
+         JOIN quizzes q ON qq.quiz_id = q.id
+         WHERE q.course_id = $1
+         ORDER BY qq.created_at, qq.id`,
+        [courseId]
+      ),
+      db.query('SELECT id, title, description FROM question_banks WHERE course_id = $1 ORDER BY id', [courseId]),
+      db.query(
+        `SELECT bq.bank_id, bq.prompt, bq.type, bq.points, bq.definition, bq.topic, bq.difficulty
+         FROM bank_questions bq
+         JOIN question_banks b ON bq.bank_id = b.id
+         WHERE b.course_id = $1
+         ORDER BY bq.created_at, bq.id`,
+        [courseId]
+      ),
+      db.query(
+        `SELECT d.quiz_id, d.bank_id, d.count, d.topic, d.difficulty
+         FROM quiz_question_draws d
+         JOIN quizzes q ON d.quiz_id = q.id
+         WHERE q.course_id = $1
+         ORDER BY d.quiz_id, d.position`,
+        [courseId]
+      )
+    ]);
+
+    const lessonKeys = new Map<number, string>(lessons.rows.map((lesson, index) => [lesson.id, `lesson-${index + 1}`]));
+    const quizKeys = new Map<number, string>(quizzes.rows.map((quiz, index) => [quiz.id, `quiz-${index + 1}`]));
+    const bankKeys = new Map<number, string>(banks.rows.map((bank, index) => [bank.id, `bank-${index + 1}`]));
+    const files: TarEntry[] = [];
+    const packagedObjects = new Set<string>();
+
+    const packageLessons = new Map<number, PackageLesson[]>();
+    for (const [index, lesson] of lessons.rows.entries()) {
+      const content = lessonFilePath(index, lesson.title);
+      files.push({ name: content, data: Buffer.from(lesson.content_md || '', 'utf8') });
+
+      const lessonAttachments = [];
+      for (const attachment of attachments.rows.filter(row => row.lesson_id === lesson.id)) {
+        const file = attachmentFilePath(attachment.checksum_sha256);
+
+        if (!packagedObjects.has(file)) {
+          const data = await LessonAttachmentsService.readAttachment(attachment);
+          if (!data) {
+            throw new AttachmentMissingError(attachment.filename);
+          }
+          files.push({ name: file, data });
+          packagedObjects.add(file);
+        }
+
+        lessonAttachments.push({
+          filename: attachment.filename,
+          contentType: attachment.content_type,
+          sizeBytes: parseInt(attachment.size_bytes, 10),
+          sha256: attachment.checksum_sha256,
+          file
+        });
+      }
+
+      const packageLesson: PackageLesson = {
+        key: lessonKeys.get(lesson.id)!,
+        title: lesson.title,
+        position: lesson.position,
+        videoUrl: lesson.video_url,
+        content,
+        unlockAfterDays: lesson.unlock_after_days,
+        unlockAt: lesson.unlock_at ? new Date(lesson.unlock_at).toISOString() : null,
+        prerequisites: prerequisites.rows
+          .filter(row => row.lesson_id === lesson.id)
+          .map((row): PackagePrerequisite => row.prerequisite_lesson_id
+            ? { lesson: lessonKeys.get(row.prerequisite_lesson_id)! }
+            : { quiz: quizKeys.get(row.prerequisite_quiz_id)!, minScore: row.min_score === null ? null : parseFloat(row.min_score) }),
+        attachments: lessonAttachments
+      };
+
+      packageLessons.set(lesson.module_id, [...(packageLessons.get(lesson.module_id) || []), packageLesson]);
+    }
+
+    const manifest: CourseManifest = {
+      format: PACKAGE_FORMAT,
+      formatVersion: PACKAGE_FORMAT_VERSION,
+      exportedAt: new Date().toISOString(),
+      source: {
+        instance: config.appBaseUrl,
+        courseId: course.id,
+        version: config.version
+      },
+      course: {
+        title: course.title,
+        description: course.description,
+        priceCents: course.price_cents,
+        releaseMode: course.release_mode,
+        category: course.category_slug,
+        level: course.level,
+        language: course.language,
+        tags: course.tags
+      },
+      modules: modules.rows.map((module, index) => ({
+        key: `module-${index + 1}`,
+        title: module.title,
+        position: module.position,
+        lessons: packageLessons.get(module.id) || []
+      })),
+      questionBanks: banks.rows.map((bank): PackageQuestionBank => ({
+        key: bankKeys.get(bank.id)!,
+        title: bank.title,
+        description: bank.description,
+        questions: bankQuestions.rows
+          .filter(row => row.bank_id === bank.id)
+          .map(row => ({
+            prompt: row.prompt,
+            points: parseFloat(row.points),
+            definition: toDefinition(row.type, row.definition),
+            topic: row.topic,
+            difficulty: row.difficulty
+          }))
+      })),
+      quizzes: quizzes.rows.map((quiz): PackageQuiz => ({
+        key: quizKeys.get(quiz.id)!,
+        title: quiz.title,
+        settings: {
+          maxAttempts: quiz.max_attempts,
+          timeLimitMinutes: quiz.time_limit_minutes,
+          passScore: quiz.pass_score === null ? null : parseFloat(quiz.pass_score),
+          scorePolicy: quiz.score_policy,
+          cooldownMinutes: quiz.cooldown_minutes,
+          shuffleQuestions: quiz.shuffle_questions,
+          shuffleChoices: quiz.shuffle_choices
+        },
+        questions: questions.rows
+          .filter(row => row.quiz_id === quiz.id)
+          .map(row => ({
+            prompt: row.prompt,
+            points: parseFloat(row.points),
+            definition: toDefinition(row.type, row.definition)
+          })),
+        draws: draws.rows
+          .filter(row => row.quiz_id === quiz.id)
+          .map(row => ({
+            bank: bankKeys.get(row.bank_id)!,
+            count: row.count,
+            topic: row.topic,
+            difficulty: row.difficulty
+          }))
+      }))
+    };
+
+    const manifestFile = { name: MANIFEST_FILE, data: Buffer.from(JSON.stringify(manifest, null, 2) + '\n', 'utf8') };
+
+    return {
+      filename: `course-${course.id}.tar.gz`,
+      archive: packTarGz([manifestFile, ...files])
+    };
+  }
+
+  /**
+   * Validate a package and, unless it is a dry run, import it as a new course
+   * Nothing is written when the package has errors, or conflicts without force.
+   */
+  static async importCourse(archive: Buffer, ownerId: number, options: ImportOptions): Promise<ImportReport> {
+    const report: ImportReport = {
+      dryRun: options.dryRun,
+      imported: false,
+      errors: [],
+      warnings: [],
+      conflicts: [],
+      summary: null,
+      course: null
+    };
+
+    const files = new Map<string, Buffer>();
+    try {
+      for (const entry of unpackTarGz(archive, config.courseImportMaxBytes)) {
+        if (files.has(entry.name)) {
+          report.errors.push({ field: 'package', message: `File ${entry.name} appears more than once` });
+        }
+        files.set(entry.name, entry.data);
+      }
+    } catch (error) {
+      if (error instanceof TarError) {
+        report.errors.push({ field: 'package', message: error.message });
+        return report;
+      }
+      throw error;
+    }
+
+    const parsed = parsePackage(files);
+    report.errors.push(...parsed.errors);
+    report.warnings = parsed.warnings;
+
+    const manifest = parsed.manifest;
+    if (!manifest || report.errors.length > 0) {
+      return report;
+    }
+
+    report.summary = summarize(manifest);
+
+    if (report.summary.attachmentBytes > config.storageCourseQuotaBytes) {
+      report.errors.push({
+        field: 'attachments',
+        message: `Attachments total ${report.summary.attachmentBytes} bytes; the course storage quota is ${config.storageCourseQuotaBytes}`
+      });
+      return report;
+    }
+
+    const title = options.title || manifest.course.title;
+    report.conflicts = await this.findConflicts(ownerId, title, importSource(manifest));
+
+    const categoryId = await this.findCategoryId(manifest.course.category);
+    if (manifest.course.category && categoryId === null) {
+      report.warnings.push(`Category ${manifest.course.category} does not exist here; the course will be uncategorized`);
+    }
+
+    if (options.dryRun || (report.conflicts.length > 0 && !options.force)) {
+      return report;
+    }
+
+    report.course = await this.createCourse(manifest, files, ownerId, title, categoryId);
+    report.imported = true;
+
+    return report;
+  }
+
+  /**
+   * Courses of the importer's that the package would duplicate
+   */
+  private static async findConflicts(ownerId: number, title: string, source: string): Promise<ImportConflict[]> {
+    const result = await db.query(
+      `SELECT id, title, import_source
+       FROM courses
+       WHERE instructor_id = $1 AND (lower(title) = lower($2) OR import_source = $3)
+       ORDER BY id`,
+      [ownerId, title, source]
+    );
+
+    const conflicts: ImportConflict[] = [];
+    for (const row of result.rows) {
+      if (row.import_source === source) {
+        conflicts.push({ code: 'ALREADY_IMPORTED', message: `Course ${row.id} was already imported from ${source}`, courseId: row.id });
+      }
+      if (row.title.toLowerCase() === title.toLowerCase()) {
+        conflicts.push({ code: 'COURSE_TITLE_EXISTS', message: `You already have a course titled "${row.title}"`, courseId: row.id });
+      }
+    }
+
+    return conflicts;
+  }
+
+  private static async findCategoryId(slug: string | null | undefined): Promise<number | null> {
+    if (!slug) {
+      return null;
+    }
+    const result = await db.query('SELECT id FROM course_categories WHERE slug = $1', [slug]);
+    return result.rows[0]?.id ?? null;
+  }
+
+  private static async createCourse(
+    manifest: CourseManifest,
+    files: Map<string, Buffer>,
+    ownerId: number,
+    title: string,
+    categoryId: number | null
+  ): Promise<Course> {
+    const client = await db.getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      const inserted = await client.query(
+        `INSERT INTO courses (title, description, price_cents, instructor_id, published, release_mode, import_source,
+                              category_id, level, language, tags)
+         VALUES ($1, $2, $3, $4, false, $5, $6, $7, $8, $9, $10)
+         RETURNING id, title, description, price_cents, published, instructor_id, created_at,
+                   category_id, level, language, tags`,
+        [
+          title,
+          manifest.course.description,
+          manifest.course.priceCents,
+          ownerId,
+          manifest.course.releaseMode,
+          importSource(manifest),
+          categoryId,
+          manifest.course.level ?? null,
+          manifest.course.language ?? null,
+          CourseValidator.normalizeTags(manifest.course.tags ?? [])
+        ]
+      );
+      const course: Course = inserted.rows[0];
+
+      const bankIds = await this.createQuestionBanks(client, course.id, manifest.questionBanks ?? []);
+      const quizIds = await this.createQuizzes(client, course.id, manifest.quizzes, bankIds);
+      const lessonIds = new Map<string, number>();
+
+      for (const module of manifest.modules) {
+        const moduleResult = await client.query(
+          'INSERT INTO course_modules (course_id, title, position) VALUES ($1, $2, $3) RETURNING id',
+          [course.id, module.title, module.position]
+        );
+
+        for (const lesson of module.lessons) {
+          const lessonId = await this.createLesson(client, course.id, moduleResult.rows[0].id, lesson, files, ownerId);
+          lessonIds.set(lesson.key, lessonId);
+        }
+      }
+
+      // Prerequisites last: they may point at lessons later in the course
+      for (const lesson of manifest.modules.flatMap(module => module.lessons)) {
+        for (const prerequisite of lesson.prerequisites) {
+          await client.query(
+            `INSERT INTO lesson_prerequisites (lesson_id, prerequisite_lesson_id, prerequisite_quiz_id, min_score)
+             VALUES ($1, $2, $3, $4)`,
+            'lesson' in prerequisite
+              ? [lessonIds.get(lesson.key), lessonIds.get(prerequisite.lesson), null, null]
+              : [lessonIds.get(lesson.key), null, quizIds.get(prerequisite.quiz), prerequisite.minScore]
+          );
+        }
+      }
+
+      await client.query('COMMIT');
+      return course;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Create a lesson with its content as published revision 1, and its attachments
+   */
+  private static async createLesson(
+    client: PoolClient,
+    courseId: number,
+    moduleId: number,
+    lesson: PackageLesson,
+    files: Map<string, Buffer>,
+    ownerId: number
+  ): Promise<number> {
+    const contentMd = files.get(lesson.content)!.toString('utf8');
+
+    const result = await client.query(
+      `INSERT INTO lessons (course_id, module_id, title, video_url, content_md, position, unlock_after_days, unlock_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING *`,
+      [courseId, moduleId, lesson.title, lesson.videoUrl, contentMd || null, lesson.position, lesson.unlockAfterDays, lesson.unlockAt]
+    );
+    const created = result.rows[0];
+
+    const revision = await lessonRevisionsService.createRevision(client, created.id, created, ownerId);
+    await client.query(
+      'UPDATE lesson_revisions SET published_at = CURRENT_TIMESTAMP, published_by = $1 WHERE id = $2',
+      [ownerId, revision.id]
+    );
+    await client.query('UPDATE lessons SET published_revision_id = $1 WHERE id = $2', [revision.id, created.id]);
+
+    for (const attachment of lesson.attachments) {
+      const data = files.get(attachment.file)!;
+      const checksum = crypto.createHash('sha256').update(data).digest('hex');
+
+      await LessonAttachmentsService.storeObject(client, checksum, data, attachment.contentType);
+      await client.query(
+        `INSERT INTO lesson_attachments (lesson_id, course_id, filename, content_type, size_bytes, checksum_sha256, uploaded_by)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         ON CONFLICT (lesson_id, checksum_sha256) DO NOTHING`,
+        [created.id, courseId, attachment.filename, attachment.contentType, data.length, checksum, ownerId]
+      );
+    }
+
+    return created.id;
+  }
+
+  /**
+   * Create question banks and their questions in package order
+   * @returns New bank ID per package key
+   */
+  private static async createQuestionBanks(
+    client: PoolClient,
+    courseId: number,
+    banks: PackageQuestionBank[]
+  ): Promise<Map<string, number>> {
+    const ids = new Map<string, number>();
+
+    for (const bank of banks) {
+      const result = await client.query(
+        'INSERT INTO question_banks (course_id, title, description) VALUES ($1, $2, $3) RETURNING id',
+        [courseId, bank.title, bank.description]
+      );
+      ids.set(bank.key, result.rows[0].id);
+
+      for (const question of bank.questions) {
+        const { type, ...definition } = question.definition; // The type has its own column
+        // clock_timestamp() rather than the transaction time, so questions keep their order
+        await client.query(
+          `INSERT INTO bank_questions (bank_id, prompt, type, points, definition, topic, difficulty, created_at)
+           VALUES ($1, $2, $3, $4, $5, $6, $7, clock_timestamp())`,
+          [
+            result.rows[0].id, question.prompt, type, question.points, JSON.stringify(definition),
+            question.topic ?? null, question.difficulty ?? null
+          ]
+        );
+      }
+    }
+
+    return ids;
+  }
+
+  /**
+   * Create quizzes with their questions and bank draws in package order
+   * @returns New quiz ID per package key
+   */
+  private static async createQuizzes(
+    client: PoolClient,
+    courseId: number,
+    quizzes: PackageQuiz[],
+    bankIds: Map<string, number>
+  ): Promise<Map<string, number>> {
+    const ids = new Map<string, number>();
+
+    for (const quiz of quizzes) {
+      // clock_timestamp() rather than the transaction time, so quizzes and questions keep their order
+      const settings = quiz.settings;
+      const result = await client.query(
+        `INSERT INTO quizzes (
+           course_id, title, max_attempts, time_limit_minutes, pass_score, score_policy, cooldown_minutes,
+           shuffle_questions, shuffle_choices, created_at
+         )
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, clock_timestamp())
+         RETURNING id`,
+        [
+          courseId,
+          quiz.title,
+          settings?.maxAttempts ?? null,
+          settings?.timeLimitMinutes ?? null,
+          settings?.passScore ?? null,
+          settings?.scorePolicy ?? 'best',
+          settings?.cooldownMinutes ?? null,
+          settings?.shuffleQuestions ?? false,
+          settings?.shuffleChoices ?? false
+        ]
+      );
+      ids.set(quiz.key, result.rows[0].id);
+
+      for (const question of quiz.questions) {
+        const { type, ...definition } = question.definition; // The type has its own column
+        await client.query(
+          `INSERT INTO quiz_questions (quiz_id, prompt, type, points, definition, created_at)
+           VALUES ($1, $2, $3, $4, $5, clock_timestamp())`,
+          [result.rows[0].id, question.prompt, type, question.points, JSON.stringify(definition)]
+        );
+      }
+
+      for (const [index, draw] of (quiz.draws ?? []).entries()) {
+        await client.query(
+          `INSERT INTO quiz_question_draws (quiz_id, bank_id, count, topic, difficulty, position)
+           VALUES ($1, $2, $3, $4, $5, $6)`,
+          [result.rows[0].id, bankIds.get(draw.bank), draw.count, draw.topic ?? null, draw.difficulty ?? null, index + 1]
+        );
+      }
+    }
+
+    return ids;
+  }
+}
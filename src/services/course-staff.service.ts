@@ -0,0 +1,219 @@
+import { db } from '../db';
+import { hasRolePermission } from '../modules/permissions/policy';
+import { publish, isNotificationsEnabled } from '../modules/notifications/publisher';
+
+/**
+ * Course staff roster
+ *
+ * The owner is the course's instructor_id; co-instructors and teaching
+ * assistants are rows in course_staff. What each of them may do is defined by
+ * the course relationships in modules/permissions.
+ */
+
+export type CourseStaffRole = 'co_instructor' | 'ta';
+
+export interface CourseStaffMember {
+  user_id: number;
+  name: string;
+  email: string;
+  role: 'owner' | CourseStaffRole;
+  added_at: Date | null; // null for the owner
+}
+
+export class CourseStaffService {
+  /**
+   * List the owner followed by co-instructors and TAs
+   * @returns null if the course does not exist
+   */
+  static async listStaff(courseId: number): Promise<CourseStaffMember[] | null> {
+    const course = await db.query(
+      `SELECT u.id as user_id, u.name, u.email
+       FROM courses c
+       LEFT JOIN users u ON c.instructor_id = u.id
+       WHERE c.id = $1`,
+      [courseId]
+    );
+
+    if (course.rows.length === 0) {
+      return null;
+    }
+
+    const staff = await db.query(
+      `SELECT s.user_id, u.name, u.email, s.role, s.created_at as added_at
+       FROM course_staff s
+       JOIN users u ON s.user_id = u.id
+       WHERE s.course_id = $1
+       ORDER BY s.role, u.name`,
+      [courseId]
+    );
+
+    const owner = course.rows[0];
+    const members: CourseStaffMember[] = owner.user_id
+      ? [{ user_id: owner.user_id, name: owner.name, email: owner.email, role: 'owner', added_at: null }]
+      : [];
+
+    return members.concat(staff.rows);
+  }
+
+  /**
+   * Add a co-instructor or TA
+   * Throws COURSE_NOT_FOUND, USER_NOT_FOUND, INVALID_STAFF_MEMBER, ALREADY_OWNER or ALREADY_STAFF
+   */
+  static async addStaff(
+    courseId: number,
+    userId: number,
+    role: CourseStaffRole,
+    addedBy: number
+  ): Promise<CourseStaffMember> {
+    const course = await db.query('SELECT instructor_id FROM courses WHERE id = $1', [courseId]);
+    if (course.rows.length === 0) {
+      throw new Error('COURSE_NOT_FOUND');
+    }
+
+    if (course.rows[0].instructor_id === userId) {
+      throw new Error('ALREADY_OWNER');
+    }
+
+    const user = await db.query('SELECT id, name, email, role FROM users WHERE id = $1', [userId]);
+    if (user.rows.length === 0) {
+      throw new Error('USER_NOT_FOUND');
+    }
+
+    // Staff are instructors or admins, like owners; students cannot be made staff
+    if (!hasRolePermission(user.rows[0].role, 'course.create')) {
+      throw new Error('INVALID_STAFF_MEMBER');
+    }
+
+    const result = await db.query(
+      `INSERT INTO course_staff (course_id, user_id, role, added_by)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (course_id, user_id) DO NOTHING
+       RETURNING created_at`,
+      [courseId, userId, role, addedBy]
+    );
+
+    if (result.rows.length === 0) {
+      throw new Error('ALREADY_STAFF');
+    }
+
+    return {
+      user_id: userId,
+      name: user.rows[0].name,
+      email: user.rows[0].email,
+      role,
+      added_at: result.rows[0].created_at
+    };
+  }
+
+  /**
+   * Change a staff member's role
+   * Throws STAFF_NOT_FOUND
+   */
+  static async updateStaffRole(courseId: number, userId: number, role: CourseStaffRole): Promise<CourseStaffMember> {
+    const result = await db.query(
+      `UPDATE course_staff s
+       SET role = $3
+       FROM users u
+       WHERE s.course_id = $1 AND s.user_id = $2 AND u.id = s.user_id
+       RETURNING s.user_id, u.name, u.email, s.role, s.created_at as added_at`,
+      [courseId, userId, role]
+    );
+
+    if (result.rows.length === 0) {
+      throw new Error('STAFF_NOT_FOUND');
+    }
+
+    return result.rows[0];
+  }
+
+  /**
+   * Remove a co-instructor or TA (the owner can only be replaced by a transfer)
+   * Throws STAFF_NOT_FOUND
+   */
+  static async removeStaff(courseId: number, userId: number): Promise<void> {
+    const result = await db.query(
+      'DELETE FROM course_staff WHERE course_id = $1 AND user_id = $2',
+      [courseId, userId]
+    );
+
+    if ((result.rowCount ?? 0) === 0) {
+      throw new Error('STAFF_NOT_FOUND');
+    }
+  }
+
+  /**
+   * Make another user the owner of a course
+   * The new owner leaves the staff list; the previous owner joins it with
+   * previousOwnerRole, or leaves the course entirely when it is null.
+   * Throws COURSE_NOT_FOUND, USER_NOT_FOUND, ALREADY_OWNER or INVALID_NEW_OWNER
+   */
+  static async transferOwnership(
+    courseId: number,
+    newOwnerId: number,
+    previousOwnerRole: CourseStaffRole | null,
+    transferredBy: number
+  ): Promise<CourseStaffMember[]> {
+    const client = await db.getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      const course = await client.query(
+        'SELECT instructor_id FROM courses WHERE id = $1 FOR UPDATE',
+        [courseId]
+      );
+      if (course.rows.length === 0) {
+        throw new Error('COURSE_NOT_FOUND');
+      }
+
+      const previousOwnerId: number | null = course.rows[0].instructor_id;
+      if (previousOwnerId === newOwnerId) {
+        throw new Error('ALREADY_OWNER');
+      }
+
+      const user = await client.query('SELECT id, role FROM users WHERE id = $1', [newOwnerId]);
+      if (user.rows.length === 0) {
+        throw new Error('USER_NOT_FOUND');
+      }
+
+      // Owners need to be able to run a course of their own
+      if (!hasRolePermission(user.rows[0].role, 'course.create')) {
+        throw new Error('INVALID_NEW_OWNER');
+      }
+
+      await client.query(
+        'DELETE FROM course_staff WHERE course_id = $1 AND user_id = $2',
+        [courseId, newOwnerId]
+      );
+
+      await client.query('UPDATE courses SET instructor_id = $1 WHERE id = $2', [newOwnerId, courseId]);
+
+      if (previousOwnerId && previousOwnerRole) {
+        await client.query(
+          `INSERT INTO course_staff (course_id, user_id, role, added_by)
+           VALUES ($1, $2, $3, $4)
+           ON CONFLICT (course_id, user_id) DO UPDATE SET role = EXCLUDED.role`,
+          [courseId, previousOwnerId, previousOwnerRole, transferredBy]
+        );
+      }
+
+      if (isNotificationsEnabled()) {
+        await publish('course.ownership_transferred', {
+          courseId,
+          previousOwnerId,
+          newOwnerId,
+          transferredBy
+        }, client);
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return (await this.listStaff(courseId))!;
+  }
+}
@@ -1,4 +1,12 @@
 import { db } from '../db';
+import { can } from '../modules/permissions/policy';
+import { LessonAttachmentsService } from './lesson-attachments.service';
+import { CourseCategoriesService } from './course-categories.service';
+
+const COURSE_LEVELS = ['beginner', 'intermediate', 'advanced'] as const;
+export type CourseLevel = typeof COURSE_LEVELS[number];
+
+export type CourseSort = 'newest' | 'popular' | 'rating' | 'price_asc' | 'price_desc';
 
 export interface Course {
   id: number;
@@ -8,6 +16,14 @@ export interface Course {
   published: boolean;
   instructor_id: number;
   created_at: Date;
+  is_template?: boolean;
+  category_id?: number | null;
+  level?: CourseLevel | null;
+  language?: string | null;
+  tags?: string[];
+  enrollment_count?: number; // Listings only
+  rating_average?: number | null; // Listings only
+  rating_count?: number; // Listings only
   instructor?: {
     id: number;
     name: string;
@@ -18,14 +34,22 @@ export interface CreateCourseData {
   title: string;
   description?: string;
   price_cents: number;
-  instructor_id?: number; // Optional for admin to specify
+  instructor_id?: number; // Honored with course.assign_instructor
+  category_id?: number | null;
+  level?: CourseLevel | null;
+  language?: string | null;
+  tags?: string[];
 }
 
 export interface UpdateCourseData {
   title?: string;
   description?: string;
   price_cents?: number;
-  instructor_id?: number; // Only admin can change
+  instructor_id?: number; // Requires course.assign_instructor
+  category_id?: number | null;
+  level?: CourseLevel | null;
+  language?: string | null;
+  tags?: string[];
 }
 
 export interface CourseListOptions {
@@ -34,6 +58,21 @@ export interface CourseListOptions {
   search?: string;
   published_only?: boolean;
   instructor_id?: number; // Filter by instructor
+  staff_user_id?: number; // Courses the user owns or is on the staff of
+  templates_only?: boolean;
+  category_ids?: number[]; // A category and its subcategories
+  tags?: string[]; // Courses with all of these tags
+  levels?: CourseLevel[]; // Any of these levels
+  languages?: string[]; // Any of these languages
+  sort?: CourseSort;
+  include_facets?: boolean;
+}
+
+export interface CourseFacets {
+  categories: { id: number; parent_id: number | null; slug: string; name: string; count: number }[];
+  tags: { tag: string; count: number }[];
+  levels: { level: CourseLevel; count: number }[];
+  languages: { language: string; count: number }[];
 }
 
 export interface CourseListResult {
@@ -44,8 +83,22 @@ export interface CourseListResult {
     total: number;
     totalPages: number;
   };
+  facets?: CourseFacets;
 }
 
+type FacetName = 'category' | 'tags' | 'level' | 'language';
+
+const SORT_ORDER: Record<CourseSort, string> = {
+  newest: 'c.created_at DESC, c.id DESC',
+  popular: 'enrollment_count DESC, c.created_at DESC, c.id DESC',
+  rating: 'rating_average DESC NULLS LAST, rating_count DESC, c.created_at DESC, c.id DESC',
+  price_asc: 'c.price_cents ASC, c.created_at DESC, c.id DESC',
+  price_desc: 'c.price_cents DESC, c.created_at DESC, c.id DESC'
+};
+
+// Most frequent tags returned as facets
+const TAG_FACET_LIMIT = 30;
+
 export interface CourseOverview {
   id: number;
   title: string;
@@ -55,6 +108,13 @@ export interface CourseOverview {
     name: string;
   };
   totalLessons: number;
+  modules: {
+    id: number;
+    title: string;
+    position: number;
+    totalLessons: number;
+    averageProgress: number;
+  }[];
   enrollments: {
     active: number;
     completed: number;
@@ -73,24 +133,32 @@ export class CoursesService {
    * Create a new course
    */
   static async createCourse(data: CreateCourseData, creatorId: number, creatorRole: string): Promise<Course> {
-    // Determine instructor_id based on role
-    let instructorId = data.instructor_id;
-    
-    if (creatorRole === 'instructor') {
-      // Instructors can only create courses for themselves
-      instructorId = creatorId;
-    } else if (creatorRole === 'admin') {
-      // Admin can specify instructor_id or default to themselves
-      instructorId = data.instructor_id || creatorId;
-    } else {
+    const creator = { id: creatorId, role: creatorRole };
+
+    if (!(await can(creator, 'course.create'))) {
       throw new Error('Insufficient permissions to create course');
     }
 
+    // Only course.assign_instructor may create a course for someone else
+    const instructorId = data.instructor_id && await can(creator, 'course.assign_instructor')
+      ? data.instructor_id
+      : creatorId;
+
     const result = await db.query(
-      `INSERT INTO courses (title, description, price_cents, instructor_id, published)
-       VALUES ($1, $2, $3, $4, false)
-       RETURNING id, title, description, price_cents, published, instructor_id, created_at`,
-      [data.title, data.description || null, data.price_cents, instructorId]
+      `INSERT INTO courses (title, description, price_cents, instructor_id, published, category_id, level, language, tags)
+       VALUES ($1, $2, $3, $4, false, $5, $6, $7, $8)
+       RETURNING id, title, description, price_cents, published, instructor_id, created_at,
+                 category_id, level, language, tags`,
+      [
+        data.title,
+        data.description || null,
+        data.price_cents,
+        instructorId,
+        data.category_id ?? null,
+        data.level ?? null,
+        data.language ?? null,
+        data.tags ?? []
+      ]
     );
 
     return result.rows[0];
@@ -101,7 +169,8 @@ export class CoursesService {
    */
   static async getCourseById(id: number, includeInstructor = false): Promise<Course | null> {
     let query = `
-      SELECT c.id, c.title, c.description, c.price_cents, c.published, c.instructor_id, c.created_at
+      SELECT c.id, c.title, c.description, c.price_cents, c.published, c.instructor_id, c.created_at,
+             c.category_id, c.level, c.language, c.tags
     `;
     
     if (includeInstructor) {
@@ -163,6 +232,26 @@ export class CoursesService {
       values.push(data.instructor_id);
     }
 
+    if (data.category_id !== undefined) {
+      updates.push(`category_id = $${paramCount++}`);
+      values.push(data.category_id);
+    }
+
+    if (data.level !== undefined) {
+      updates.push(`level = $${paramCount++}`);
+      values.push(data.level);
+    }
+
+    if (data.language !== undefined) {
+      updates.push(`language = $${paramCount++}`);
+      values.push(data.language);
+    }
+
+    if (data.tags !== undefined) {
+      updates.push(`tags = $${paramCount++}`);
+      values.push(data.tags);
+    }
+
     if (updates.length === 0) {
       // No updates to make, return current course
       return this.getCourseById(id);
@@ -174,10 +263,19 @@ export class CoursesService {
       UPDATE courses 
       SET ${updates.join(', ')}
       WHERE id = $${paramCount}
-      RETURNING id, title, description, price_cents, published, instructor_id, created_at
+      RETURNING id, title, description, price_cents, published, instructor_id, created_at,
+                category_id, level, language, tags
     `;
 
     const result = await db.query(query, values);
+
+    // A new owner is no longer also a co-instructor or TA of the course
+    if (data.instructor_id !== undefined && result.rows.length > 0) {
+      await db.query(
+        'DELETE FROM course_staff WHERE course_id = $1 AND user_id = $2',
+        [id, data.instructor_id]
+      );
+    }
     
     return result.rows.length > 0 ? result.rows[0] : null;
   }
@@ -198,39 +296,21 @@ export class CoursesService {
   }
 
   /**
-   * List courses with pagination and filtering
+   * List courses with pagination, filtering and sorting
+   * Facet counts (include_facets) apply every filter except the facet's own,
+   * so each facet lists the values a further selection could switch to.
    */
   static async listCourses(options: CourseListOptions = {}): Promise<CourseListResult> {
     const {
       page = 1,
       limit = 10,
-      search,
-      published_only = false,
-      instructor_id
+      sort = 'newest',
+      include_facets = false
     } = options;
 
     const offset = (page - 1) * limit;
-    const conditions: string[] = [];
-    const values: any[] = [];
-    let paramCount = 1;
-
-    // Build WHERE conditions
-    if (published_only) {
-      conditions.push(`c.published = true`);
-    }
-
-    if (instructor_id) {
-      conditions.push(`c.instructor_id = $${paramCount++}`);
-      values.push(instructor_id);
-    }
-
-    if (search) {
-      conditions.push(`(c.title ILIKE $${paramCount} OR c.description ILIKE $${paramCount})`);
-      values.push(`%${search}%`);
-      paramCount++;
-    }
-
-    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const { whereClause, values } = this.buildListFilters(options);
+    let paramCount = values.length + 1;
 
     // Get total count
     const countQuery = `
@@ -242,21 +322,31 @@ export class CoursesService {
     const countResult = await db.query(countQuery, values);
     const total = parseInt(countResult.rows[0].total);
 
-    // Get courses with instructor info
+    // Get courses with instructor info, enrollment counts and ratings
     const coursesQuery = `
       SELECT 
         c.id, c.title, c.description, c.price_cents, c.published, c.instructor_id, c.created_at,
-        u.name as instructor_name
+        c.is_template, c.category_id, c.level, c.language, c.tags, u.name as instructor_name,
+        COALESCE(e.enrollment_count, 0) as enrollment_count,
+        r.rating_average, COALESCE(r.rating_count, 0) as rating_count
       FROM courses c
       LEFT JOIN users u ON c.instructor_id = u.id
+      LEFT JOIN (
+        SELECT course_id, COUNT(*) as enrollment_count
+        FROM enrollments
+        WHERE status <> 'refunded'
+        GROUP BY course_id
+      ) e ON e.course_id = c.id
+      LEFT JOIN (
+        SELECT course_id, ROUND(AVG(rating), 2) as rating_average, COUNT(*) as rating_count
+        FROM course_ratings GROUP BY course_id
+      ) r ON r.course_id = c.id
       ${whereClause}
-      ORDER BY c.created_at DESC
+      ORDER BY ${SORT_ORDER[sort]}
       LIMIT $${paramCount++} OFFSET $${paramCount}
     `;
 
-    values.push(limit, offset);
-
-    const coursesResult = await db.query(coursesQuery, values);
+    const coursesResult = await db.query(coursesQuery, [...values, limit, offset]);
 
     const courses = coursesResult.rows.map(row => {
       const course: Course = {
@@ -266,7 +356,15 @@ export class CoursesService {
         price_cents: row.price_cents,
         published: row.published,
         instructor_id: row.instructor_id,
-        created_at: row.created_at
+        created_at: row.created_at,
+        is_template: row.is_template,
+        category_id: row.category_id,
+        level: row.level,
+        language: row.language,
+        tags: row.tags,
+        enrollment_count: parseInt(row.enrollment_count),
+        rating_average: row.rating_average === null ? null : parseFloat(row.rating_average),
+        rating_count: parseInt(row.rating_count)
       };
 
       if (row.instructor_name) {
@@ -286,32 +384,206 @@ export class CoursesService {
         limit,
         total,
         totalPages: Math.ceil(total / limit)
-      }
+      },
+      ...(include_facets ? { facets: await this.getFacets(options) } : {})
     };
   }
 
   /**
-   * Check if user can modify course (ownership check)
+   * WHERE clause of a course listing, optionally leaving out one facet's filter
    */
-  static async canModifyCourse(courseId: number, userId: number, userRole: string): Promise<boolean> {
-    if (userRole === 'admin') {
-      return true; // Admins can modify any course
+  private static buildListFilters(
+    options: CourseListOptions,
+    excludeFacet?: FacetName
+  ): { whereClause: string; values: any[] } {
+    const {
+      search,
+      published_only = false,
+      instructor_id,
+      staff_user_id,
+      templates_only = false,
+      category_ids,
+      tags,
+      levels,
+      languages
+    } = options;
+
+    const conditions: string[] = [];
+    const values: any[] = [];
+    let paramCount = 1;
+
+    // Build WHERE conditions
+    if (published_only) {
+      conditions.push(`c.published = true`);
+    }
+
+    if (templates_only) {
+      conditions.push(`c.is_template = true`);
     }
 
-    if (userRole === 'instructor') {
-      const course = await this.getCourseById(courseId);
-      return course ? course.instructor_id === userId : false;
+    if (instructor_id) {
+      conditions.push(`c.instructor_id = $${paramCount++}`);
+      values.push(instructor_id);
     }
 
-    return false; // Students cannot modify courses
+    if (staff_user_id) {
+      conditions.push(
+        `(c.instructor_id = $${paramCount} OR EXISTS (SELECT 1 FROM course_staff s WHERE s.course_id = c.id AND s.user_id = $${paramCount}))`
+      );
+      values.push(staff_user_id);
+      paramCount++;
+    }
+
+    if (search) {
+      conditions.push(`(c.title ILIKE $${paramCount} OR c.description ILIKE $${paramCount})`);
+      values.push(`%${search}%`);
+      paramCount++;
+    }
+
+    if (category_ids && excludeFacet !== 'category') {
+      conditions.push(`c.category_id = ANY($${paramCount++}::int[])`);
+      values.push(category_ids);
+    }
+
+    if (tags?.length && excludeFacet !== 'tags') {
+      conditions.push(`c.tags @> $${paramCount++}::text[]`);
+      values.push(tags);
+    }
+
+    if (levels?.length && excludeFacet !== 'level') {
+      conditions.push(`c.level = ANY($${paramCount++}::text[])`);
+      values.push(levels);
+    }
+
+    if (languages?.length && excludeFacet !== 'language') {
+      conditions.push(`lower(c.language) = ANY($${paramCount++}::text[])`);
+      values.push(languages.map(language => language.toLowerCase()));
+    }
+
+    return {
+      whereClause: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+      values
+    };
+  }
+
+  /**
+   * Course counts per category (including subcategories), tag, level and language
+   */
+  private static async getFacets(options: CourseListOptions): Promise<CourseFacets> {
+    const category = this.buildListFilters(options, 'category');
+    const tag = this.buildListFilters(options, 'tags');
+    const level = this.buildListFilters(options, 'level');
+    const language = this.buildListFilters(options, 'language');
+
+    const [categoryCounts, tagCounts, levelCounts, languageCounts, categories] = await Promise.all([
+      db.query(
+        `SELECT c.category_id, COUNT(*) as count FROM courses c ${category.whereClause} GROUP BY c.category_id`,
+        category.values
+      ),
+      db.query(
+        `SELECT t.tag, COUNT(*) as count
+         FROM courses c CROSS JOIN LATERAL unnest(c.tags) as t(tag)
+         ${tag.whereClause}
+         GROUP BY t.tag
+         ORDER BY count DESC, t.tag
+         LIMIT ${TAG_FACET_LIMIT}`,
+        tag.values
+      ),
+      db.query(
+        `SELECT c.level, COUNT(*) as count FROM courses c
+         ${level.whereClause ? `${level.whereClause} AND` : 'WHERE'} c.level IS NOT NULL
+         GROUP BY c.level`,
+        level.values
+      ),
+      db.query(
+        `SELECT c.language, COUNT(*) as count FROM courses c
+         ${language.whereClause ? `${language.whereClause} AND` : 'WHERE'} c.language IS NOT NULL
+         GROUP BY c.language
+         ORDER BY count DESC, c.language`,
+        language.values
+      ),
+      CourseCategoriesService.listCategories()
+    ]);
+
+    // Roll each category's count up to its ancestors
+    const parents = new Map(categories.map(c => [c.id, c.parent_id]));
+    const counts = new Map<number, number>();
+    for (const row of categoryCounts.rows) {
+      const seen = new Set<number>();
+      for (let id: number | null | undefined = row.category_id; id != null && !seen.has(id); id = parents.get(id)) {
+        seen.add(id);
+        counts.set(id, (counts.get(id) || 0) + parseInt(row.count));
+      }
+    }
+
+    return {
+      categories: categories
+        .filter(c => counts.has(c.id))
+        .map(c => ({ id: c.id, parent_id: c.parent_id, slug: c.slug, name: c.name, count: counts.get(c.id)! })),
+      tags: tagCounts.rows.map(row => ({ tag: row.tag, count: parseInt(row.count) })),
+      levels: COURSE_LEVELS
+        .map(value => ({ level: value, count: parseInt(levelCounts.rows.find(row => row.level === value)?.count || '0') }))
+        .filter(facet => facet.count > 0),
+      languages: languageCounts.rows.map(row => ({ language: row.language, count: parseInt(row.count) }))
+    };
   }
 
   /**
-   * Delete course by ID (admin only)
+   * Rate a course 1 to 5, replacing the user's earlier rating (course.rate is checked by the caller)
+   */
+  static async rateCourse(
+    courseId: number,
+    userId: number,
+    rating: number
+  ): Promise<{ rating: number; rating_average: number; rating_count: number }> {
+    await db.query(
+      `INSERT INTO course_ratings (course_id, user_id, rating)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (course_id, user_id)
+       DO UPDATE SET rating = EXCLUDED.rating, updated_at = CURRENT_TIMESTAMP`,
+      [courseId, userId, rating]
+    );
+
+    const summary = await db.query(
+      'SELECT ROUND(AVG(rating), 2) as rating_average, COUNT(*) as rating_count FROM course_ratings WHERE course_id = $1',
+      [courseId]
+    );
+
+    return {
+      rating,
+      rating_average: parseFloat(summary.rows[0].rating_average),
+      rating_count: parseInt(summary.rows[0].rating_count)
+    };
+  }
+
+  /**
+   * Mark or unmark a course as a template (course.manage_templates is checked by the caller)
+   */
+  static async setTemplate(id: number, isTemplate: boolean): Promise<Course | null> {
+    const result = await db.query(
+      `UPDATE courses
+       SET is_template = $1
+       WHERE id = $2
+       RETURNING id, title, description, price_cents, published, instructor_id, created_at, is_template`,
+      [isTemplate, id]
+    );
+
+    return result.rows.length > 0 ? result.rows[0] : null;
+  }
+
+  /**
+   * Delete course by ID (course.delete is checked by the caller)
    */
   static async deleteCourse(id: number): Promise<boolean> {
     const result = await db.query('DELETE FROM courses WHERE id = $1', [id]);
-    return (result.rowCount ?? 0) > 0;
+    const deleted = (result.rowCount ?? 0) > 0;
+
+    // Attachments went with the course; drop files nothing else uses
+    if (deleted) {
+      await LessonAttachmentsService.deleteUnreferencedObjects();
+    }
+
+    return deleted;
   }
 
   /**
@@ -342,7 +614,8 @@ export class CoursesService {
       enrollmentsResult,
       progressResult,
       quizzesResult,
-      certificatesResult
+      certificatesResult,
+      modulesResult
     ] = await Promise.all([
       // Total lessons count
       db.query(
@@ -396,6 +669,23 @@ export class CoursesService {
         SELECT COUNT(*) as total
         FROM certificates
         WHERE course_id = $1
+      `, [courseId]),
+      
+      // Per-module lesson counts and completions across all enrollments
+      db.query(`
+        SELECT 
+          m.id, m.title, m.position,
+          (SELECT COUNT(*) FROM lessons l WHERE l.module_id = m.id) as total_lessons,
+          (SELECT COUNT(*)
+           FROM lesson_progress lp
+           JOIN lessons l ON lp.lesson_id = l.id
+           JOIN enrollments e ON lp.enrollment_id = e.id
+           WHERE l.module_id = m.id AND e.course_id = m.course_id AND lp.completed_at IS NOT NULL
+          ) as completed_lessons,
+          (SELECT COUNT(*) FROM enrollments e WHERE e.course_id = m.course_id) as enrollment_count
+        FROM course_modules m
+        WHERE m.course_id = $1
+        ORDER BY m.position
       `, [courseId])
     ]);
     
@@ -411,6 +701,17 @@ export class CoursesService {
       totalQuestions: parseInt(quizzesResult.rows[0]?.total_questions || '0')
     };
     const certificatesIssued = parseInt(certificatesResult.rows[0]?.total || '0');
+    const modules = modulesResult.rows.map(row => {
+      const moduleLessons = parseInt(row.total_lessons);
+      const possible = moduleLessons * parseInt(row.enrollment_count);
+      return {
+        id: row.id,
+        title: row.title,
+        position: row.position,
+        totalLessons: moduleLessons,
+        averageProgress: possible > 0 ? Math.round(parseInt(row.completed_lessons) / possible * 100) : 0
+      };
+    });
     
     return {
       id: course.id,
@@ -421,6 +722,7 @@ export class CoursesService {
         name: course.instructor_name || 'Unknown'
       },
       totalLessons,
+      modules,
       enrollments,
       averageProgress,
       quizzes,
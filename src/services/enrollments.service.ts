@@ -1,4 +1,6 @@
 import { db } from '../db';
+import { config } from '../config';
+import { AccountService } from './account.service';
 
 export interface Enrollment {
   id: number;
@@ -64,6 +66,11 @@ export class EnrollmentsService {
       throw new Error('Cannot enroll in unpublished course');
     }
 
+    // Optionally require a verified email before enrolling
+    if (config.requireEmailVerification && !(await AccountService.isEmailVerified(userId))) {
+      throw new Error('Email verification required');
+    }
+
     // Check for existing enrollment
     const existingCheck = await db.query(
       'SELECT id FROM enrollments WHERE user_id = $1 AND course_id = $2',
@@ -234,31 +241,6 @@ export class EnrollmentsService {
     return result.rows.length > 0 ? result.rows[0] : null;
   }
 
-  /**
-   * Check if user can view course enrollments
-   * Instructors can only view enrollments for their own courses
-   * Admins can view all enrollments
-   */
-  static async canViewCourseEnrollments(
-    courseId: number,
-    userId: number,
-    userRole: string
-  ): Promise<boolean> {
-    if (userRole === 'admin') {
-      return true;
-    }
-
-    if (userRole === 'instructor') {
-      const result = await db.query(
-        'SELECT id FROM courses WHERE id = $1 AND instructor_id = $2',
-        [courseId, userId]
-      );
-      return result.rows.length > 0;
-    }
-
-    return false;
-  }
-
   /**
    * Validate enrollment status
    */
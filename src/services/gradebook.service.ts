@@ -0,0 +1,145 @@
+import { db } from '../db';
+import { ScorePolicy, countedScore } from '../utils/quiz-grading';
+import { rubricMaxPoints } from '../utils/assignment-grading';
+
+/**
+ * A course's grades in one table: a column per quiz and assignment, a row per
+ * enrolled student (refunded enrollments left out)
+ *
+ * Every grade is a percentage. Quizzes count under their score policy;
+ * assignments count the points left after the late penalty out of the
+ * rubric's maximum. The average is the unweighted mean of the grades a
+ * student has so far. Students only see released assignment grades.
+ */
+
+export interface GradebookItem {
+  type: 'quiz' | 'assignment';
+  id: number;
+  title: string;
+  max_points: number | null; // Assignments only; quizzes are graded in percent
+}
+
+export interface GradebookGrade {
+  score: number | null; // Percentage; null when nothing counts yet
+  points?: number; // Assignments: points after the late penalty
+  late_penalty_percent?: number;
+  released?: boolean; // Assignments; students only get released grades
+}
+
+export interface GradebookRow {
+  student: { id: number; name: string; email: string };
+  grades: GradebookGrade[]; // In the order of the items
+  average: number | null;
+}
+
+export interface Gradebook {
+  course_id: number;
+  items: GradebookItem[];
+  students: GradebookRow[];
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export class GradebookService {
+  /**
+   * The course's gradebook, or one student's row of it with released grades only
+   */
+  static async getGradebook(courseId: number, studentId?: number): Promise<Gradebook> {
+    const releasedOnly = studentId !== undefined;
+
+    const [quizzes, assignments, students, submissions, grades] = await Promise.all([
+      db.query(
+        'SELECT id, title, score_policy FROM quizzes WHERE course_id = $1 ORDER BY created_at, id',
+        [courseId]
+      ),
+      db.query(
+        `SELECT id, title, rubric FROM assignments
+         WHERE course_id = $1
+         ORDER BY due_at NULLS LAST, created_at, id`,
+        [courseId]
+      ),
+      db.query(
+        `SELECT u.id, u.name, u.email
+         FROM enrollments e
+         JOIN users u ON u.id = e.user_id
+         WHERE e.course_id = $1 AND e.status <> 'refunded' AND ($2::int IS NULL OR e.user_id = $2)
+         ORDER BY u.name, u.id`,
+        [courseId, studentId ?? null]
+      ),
+      db.query(
+        `SELECT s.quiz_id, s.user_id, s.score
+         FROM quiz_submissions s
+         JOIN quizzes q ON q.id = s.quiz_id
+         WHERE q.course_id = $1 AND ($2::int IS NULL OR s.user_id = $2)
+         ORDER BY s.created_at, s.id`,
+        [courseId, studentId ?? null]
+      ),
+      db.query(
+        `SELECT s.assignment_id, s.user_id, g.points, g.max_points, g.late_penalty_percent, g.released_at
+         FROM assignment_grades g
+         JOIN assignment_submissions s ON s.id = g.submission_id
+         JOIN assignments a ON a.id = s.assignment_id
+         WHERE a.course_id = $1
+           AND ($2::int IS NULL OR s.user_id = $2)
+           AND (NOT $3 OR g.released_at IS NOT NULL)`,
+        [courseId, studentId ?? null, releasedOnly]
+      )
+    ]);
+
+    // Quiz scores per quiz and student, in submission order
+    const quizScores = new Map<string, number[]>();
+    for (const row of submissions.rows) {
+      const key = `${row.quiz_id}:${row.user_id}`;
+      quizScores.set(key, [...(quizScores.get(key) || []), parseFloat(row.score)]);
+    }
+
+    const assignmentGrades = new Map<string, any>(
+      grades.rows.map(row => [`${row.assignment_id}:${row.user_id}`, row])
+    );
+
+    const items: GradebookItem[] = [
+      ...quizzes.rows.map(quiz => ({ type: 'quiz' as const, id: quiz.id, title: quiz.title, max_points: null as number | null })),
+      ...assignments.rows.map(assignment => ({
+        type: 'assignment' as const,
+        id: assignment.id,
+        title: assignment.title,
+        max_points: rubricMaxPoints(assignment.rubric)
+      }))
+    ];
+
+    const rows = students.rows.map(student => {
+      const quizGrades: GradebookGrade[] = quizzes.rows.map(quiz => {
+        const score = countedScore(quiz.score_policy as ScorePolicy, quizScores.get(`${quiz.id}:${student.id}`) || []);
+        return { score: score === null ? null : round(score) };
+      });
+
+      const assignmentGradesOfStudent: GradebookGrade[] = assignments.rows.map(assignment => {
+        const grade = assignmentGrades.get(`${assignment.id}:${student.id}`);
+        if (!grade) {
+          return { score: null };
+        }
+        const points = parseFloat(grade.points);
+        const maxPoints = parseFloat(grade.max_points);
+        return {
+          score: maxPoints > 0 ? round((points / maxPoints) * 100) : null,
+          points,
+          late_penalty_percent: parseFloat(grade.late_penalty_percent),
+          released: grade.released_at !== null
+        };
+      });
+
+      const studentGrades = [...quizGrades, ...assignmentGradesOfStudent];
+      const scores = studentGrades.filter(grade => grade.score !== null).map(grade => grade.score!);
+
+      return {
+        student: { id: student.id, name: student.name, email: student.email },
+        grades: studentGrades,
+        average: scores.length > 0 ? round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : null
+      };
+    });
+
+    return { course_id: courseId, items, students: rows };
+  }
+}
@@ -0,0 +1,242 @@
+import { db } from '../db';
+import { SessionsService } from './sessions.service';
+import { publish } from '../modules/notifications/publisher';
+
+export type ApplicationStatus = 'pending' | 'approved' | 'rejected';
+
+export interface InstructorApplication {
+  id: number;
+  user_id: number;
+  status: ApplicationStatus;
+  motivation: string;
+  decision_reason: string | null;
+  decided_by: number | null;
+  decided_at: Date | null;
+  created_at: Date;
+  // Optional joined data
+  user?: {
+    id: number;
+    email: string;
+    name: string;
+    role: string;
+  };
+}
+
+export interface ApplicationListOptions {
+  page?: number;
+  limit?: number;
+  status?: ApplicationStatus;
+}
+
+export interface ApplicationListResult {
+  applications: InstructorApplication[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export class InstructorApplicationsService {
+  /**
+   * Submit an application for instructor access (students only)
+   */
+  static async createApplication(userId: number, motivation: string): Promise<InstructorApplication> {
+    const userResult = await db.query('SELECT id, role FROM users WHERE id = $1', [userId]);
+    const user = userResult.rows[0];
+
+    if (!user) {
+      throw new Error('NOT_FOUND');
+    }
+
+    if (user.role !== 'student') {
+      throw new Error('NOT_A_STUDENT');
+    }
+
+    const pending = await db.query(
+      "SELECT id FROM instructor_applications WHERE user_id = $1 AND status = 'pending'",
+      [userId]
+    );
+
+    if (pending.rows.length > 0) {
+      throw new Error('APPLICATION_PENDING');
+    }
+
+    try {
+      const result = await db.query(
+        `INSERT INTO instructor_applications (user_id, motivation)
+         VALUES ($1, $2)
+         RETURNING *`,
+        [userId, motivation]
+      );
+      return result.rows[0];
+    } catch (error: any) {
+      // Concurrent submit hit the one-pending-per-user index
+      if (error.code === '23505') {
+        throw new Error('APPLICATION_PENDING');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * List applications with applicant details (admin)
+   */
+  static async listApplications(options: ApplicationListOptions = {}): Promise<ApplicationListResult> {
+    const { page = 1, limit = 10, status } = options;
+    const offset = (page - 1) * limit;
+
+    const whereClause = status ? 'WHERE a.status = $1' : '';
+    const values: any[] = status ? [status] : [];
+
+    const countResult = await db.query(
+      `SELECT COUNT(*) as total FROM instructor_applications a ${whereClause}`,
+      values
+    );
+    const total = parseInt(countResult.rows[0].total);
+
+    const result = await db.query(
+      `SELECT a.*, u.email as user_email, u.name as user_name, u.role as user_role
+       FROM instructor_applications a
+       JOIN users u ON a.user_id = u.id
+       ${whereClause}
+       ORDER BY a.created_at DESC, a.id DESC
+       LIMIT $${values.length + 1} OFFSET $${values.length + 2}`,
+      [...values, limit, offset]
+    );
+
+    return {
+      applications: result.rows.map(row => this.mapApplicationRow(row)),
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  /**
+   * Get a user's own applications, newest first
+   */
+  static async getUserApplications(userId: number): Promise<InstructorApplication[]> {
+    const result = await db.query(
+      `SELECT * FROM instructor_applications
+       WHERE user_id = $1
+       ORDER BY created_at DESC, id DESC`,
+      [userId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Get application by ID with applicant details
+   */
+  static async getApplicationById(id: number): Promise<InstructorApplication | null> {
+    const result = await db.query(
+      `SELECT a.*, u.email as user_email, u.name as user_name, u.role as user_role
+       FROM instructor_applications a
+       JOIN users u ON a.user_id = u.id
+       WHERE a.id = $1`,
+      [id]
+    );
+
+    return result.rows[0] ? this.mapApplicationRow(result.rows[0]) : null;
+  }
+
+  /**
+   * Approve a pending application and promote the applicant to instructor
+   * The applicant's sessions are revoked so their next login carries the new role
+   */
+  static async approveApplication(id: number, adminId: number, reason?: string): Promise<InstructorApplication> {
+    const application = await this.decide(id, adminId, 'approved', reason || null);
+
+    await SessionsService.revokeAllSessions(application.user_id, 'role_changed');
+
+    return application;
+  }
+
+  /**
+   * Reject a pending application with a reason
+   */
+  static async rejectApplication(id: number, adminId: number, reason: string): Promise<InstructorApplication> {
+    return this.decide(id, adminId, 'rejected', reason);
+  }
+
+  /**
+   * Record a decision on a pending application (and promote on approval) in one transaction,
+   * queueing instructor_application.approved/rejected with it
+   * Throws NOT_FOUND or ALREADY_DECIDED
+   */
+  private static async decide(
+    id: number,
+    adminId: number,
+    status: 'approved' | 'rejected',
+    reason: string | null
+  ): Promise<InstructorApplication> {
+    const client = await db.getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      const existing = await client.query(
+        'SELECT id, user_id, status FROM instructor_applications WHERE id = $1 FOR UPDATE',
+        [id]
+      );
+
+      if (existing.rows.length === 0) {
+        throw new Error('NOT_FOUND');
+      }
+
+      if (existing.rows[0].status !== 'pending') {
+        throw new Error('ALREADY_DECIDED');
+      }
+
+      const result = await client.query(
+        `UPDATE instructor_applications
+         SET status = $1, decision_reason = $2, decided_by = $3, decided_at = CURRENT_TIMESTAMP
+         WHERE id = $4
+         RETURNING *`,
+        [status, reason, adminId, id]
+      );
+
+      if (status === 'approved') {
+        // Only students are promoted; never downgrade an admin who happened to apply
+        await client.query(
+          "UPDATE users SET role = 'instructor' WHERE id = $1 AND role = 'student'",
+          [existing.rows[0].user_id]
+        );
+      }
+
+      const application = result.rows[0];
+      await publish(`instructor_application.${status}`, {
+        applicationId: application.id,
+        userId: application.user_id,
+        decidedBy: adminId,
+        reason: application.decision_reason
+      }, client);
+
+      await client.query('COMMIT');
+      return application;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  private static mapApplicationRow(row: any): InstructorApplication {
+    const { user_email, user_name, user_role, ...application } = row;
+    return {
+      ...application,
+      user: {
+        id: row.user_id,
+        email: user_email,
+        name: user_name,
+        role: user_role
+      }
+    };
+  }
+}
@@ -0,0 +1,314 @@
+import crypto from 'crypto';
+import { db, PoolClient } from '../db';
+import { config } from '../config';
+import { getStorage } from '../modules/storage/storage';
+
+/**
+ * Files attached to lessons (PDFs, slide decks, datasets)
+ *
+ * Content lives in the configured storage driver under its SHA-256, so the
+ * same file uploaded to several lessons is stored once. Uploads count against
+ * the course's quota by their full size, whether or not they were deduplicated.
+ * Objects no attachment refers to any more are removed by deleteUnreferencedObjects.
+ * Assignment submission files are stored the same way and keep their objects too.
+ */
+
+export interface LessonAttachment {
+  id: number;
+  lesson_id: number;
+  course_id: number;
+  filename: string;
+  content_type: string;
+  size_bytes: number;
+  checksum_sha256: string;
+  uploaded_by: number | null;
+  created_at: Date;
+}
+
+export interface UploadedFile {
+  filename: string;
+  contentType: string;
+  data: Buffer;
+}
+
+export interface StorageUsage {
+  courseId: number;
+  usedBytes: number;
+  quotaBytes: number;
+  attachmentCount: number;
+}
+
+/**
+ * QUOTA_EXCEEDED: the upload does not fit in the course's remaining quota
+ */
+export class QuotaExceededError extends Error {
+  constructor(readonly usedBytes: number, readonly quotaBytes: number) {
+    super('QUOTA_EXCEEDED');
+    this.name = 'QuotaExceededError';
+  }
+}
+
+const ATTACHMENT_COLUMNS = `
+  id, lesson_id, course_id, filename, content_type, size_bytes,
+  checksum_sha256, uploaded_by, created_at`;
+
+// bigint columns arrive as strings
+function toAttachment(row: any): LessonAttachment {
+  return { ...row, size_bytes: parseInt(row.size_bytes, 10) };
+}
+
+function storageKey(checksum: string): string {
+  return `attachments/${checksum.slice(0, 2)}/${checksum}`;
+}
+
+export class LessonAttachmentsService {
+  /**
+   * The course a lesson belongs to
+   * @returns null if the lesson does not exist
+   */
+  static async getLessonCourseId(lessonId: number): Promise<number | null> {
+    const result = await db.query('SELECT course_id FROM lessons WHERE id = $1', [lessonId]);
+    return result.rows[0]?.course_id ?? null;
+  }
+
+  /**
+   * List a lesson's attachments, oldest first
+   */
+  static async listAttachments(lessonId: number): Promise<LessonAttachment[]> {
+    const result = await db.query(
+      `SELECT ${ATTACHMENT_COLUMNS} FROM lesson_attachments WHERE lesson_id = $1 ORDER BY created_at, id`,
+      [lessonId]
+    );
+    return result.rows.map(toAttachment);
+  }
+
+  static async getAttachment(id: number): Promise<LessonAttachment | null> {
+    const result = await db.query(`SELECT ${ATTACHMENT_COLUMNS} FROM lesson_attachments WHERE id = $1`, [id]);
+    return result.rows[0] ? toAttachment(result.rows[0]) : null;
+  }
+
+  /**
+   * Attach a file to a lesson
+   * Uploading a file the lesson already has returns the existing attachment
+   * (created: false); deduplicated tells whether the content was already stored.
+   * Throws NOT_FOUND or QUOTA_EXCEEDED (with usedBytes and quotaBytes)
+   */
+  static async uploadAttachment(
+    lessonId: number,
+    file: UploadedFile,
+    userId: number
+  ): Promise<{ attachment: LessonAttachment; created: boolean; deduplicated: boolean }> {
+    const checksum = crypto.createHash('sha256').update(file.data).digest('hex');
+    const client = await db.getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      // Locking the course serializes uploads per course, keeping the quota check exact
+      const lesson = await client.query(
+        `SELECT l.course_id, c.storage_quota_bytes
+         FROM lessons l
+         JOIN courses c ON l.course_id = c.id
+         WHERE l.id = $1
+         FOR UPDATE OF c`,
+        [lessonId]
+      );
+      if (lesson.rows.length === 0) {
+        throw new Error('NOT_FOUND');
+      }
+      const courseId = lesson.rows[0].course_id;
+
+      const existing = await client.query(
+        `SELECT ${ATTACHMENT_COLUMNS} FROM lesson_attachments WHERE lesson_id = $1 AND checksum_sha256 = $2`,
+        [lessonId, checksum]
+      );
+      if (existing.rows[0]) {
+        await client.query('COMMIT');
+        return { attachment: toAttachment(existing.rows[0]), created: false, deduplicated: true };
+      }
+
+      const usage = await client.query(
+        'SELECT COALESCE(SUM(size_bytes), 0) as used FROM lesson_attachments WHERE course_id = $1',
+        [courseId]
+      );
+      const usedBytes = parseInt(usage.rows[0].used, 10);
+      const quotaBytes = lesson.rows[0].storage_quota_bytes === null
+        ? config.storageCourseQuotaBytes
+        : parseInt(lesson.rows[0].storage_quota_bytes, 10);
+
+      if (usedBytes + file.data.length > quotaBytes) {
+        throw new QuotaExceededError(usedBytes, quotaBytes);
+      }
+
+      const deduplicated = await this.storeObject(client, checksum, file.data, file.contentType);
+
+      const inserted = await client.query(
+        `INSERT INTO lesson_attachments (lesson_id, course_id, filename, content_type, size_bytes, checksum_sha256, uploaded_by)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING ${ATTACHMENT_COLUMNS}`,
+        [lessonId, courseId, file.filename, file.contentType, file.data.length, checksum, userId]
+      );
+
+      await client.query('COMMIT');
+      return { attachment: toAttachment(inserted.rows[0]), created: true, deduplicated };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Store content under its checksum, unless it is stored already
+   * Runs in the caller's transaction, which inserts the attachments that refer to it.
+   * @returns true when the content was already stored
+   */
+  static async storeObject(client: PoolClient, checksum: string, data: Buffer, contentType: string): Promise<boolean> {
+    // Same lock as deleteUnreferencedObjects, so an object is never removed while being reused
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [checksum]);
+
+    const stored = await client.query(
+      `INSERT INTO storage_objects (checksum_sha256, storage_key, size_bytes)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (checksum_sha256) DO NOTHING
+       RETURNING storage_key`,
+      [checksum, storageKey(checksum), data.length]
+    );
+
+    if (stored.rows.length === 0) {
+      return true;
+    }
+
+    await getStorage().put(stored.rows[0].storage_key, data, contentType);
+    return false;
+  }
+
+  /**
+   * Read an attachment's content
+   * @returns null if the stored object is missing
+   */
+  static async readAttachment(attachment: LessonAttachment): Promise<Buffer | null> {
+    return this.readObject(attachment.checksum_sha256);
+  }
+
+  /**
+   * Read stored content by its checksum
+   * @returns null if the object is missing
+   */
+  static async readObject(checksum: string): Promise<Buffer | null> {
+    const result = await db.query('SELECT storage_key FROM storage_objects WHERE checksum_sha256 = $1', [checksum]);
+    if (result.rows.length === 0) {
+      return null;
+    }
+    return getStorage().get(result.rows[0].storage_key);
+  }
+
+  /**
+   * Remove an attachment, and its stored object when nothing else uses it
+   * Throws NOT_FOUND
+   */
+  static async deleteAttachment(id: number): Promise<void> {
+    const result = await db.query('DELETE FROM lesson_attachments WHERE id = $1', [id]);
+
+    if ((result.rowCount ?? 0) === 0) {
+      throw new Error('NOT_FOUND');
+    }
+
+    await this.deleteUnreferencedObjects();
+  }
+
+  /**
+   * Remove stored objects that no attachment or submission file refers to
+   * Called after attachments, submission files, lessons, courses or users are deleted; safe to run any time.
+   * @returns Number of objects removed
+   */
+  static async deleteUnreferencedObjects(limit = 100): Promise<number> {
+    const candidates = await db.query(
+      `SELECT o.checksum_sha256
+       FROM storage_objects o
+       WHERE NOT EXISTS (SELECT 1 FROM lesson_attachments a WHERE a.checksum_sha256 = o.checksum_sha256)
+         AND NOT EXISTS (SELECT 1 FROM assignment_submission_files f WHERE f.checksum_sha256 = o.checksum_sha256)
+       LIMIT $1`,
+      [limit]
+    );
+
+    let removed = 0;
+
+    for (const { checksum_sha256: checksum } of candidates.rows) {
+      const client = await db.getClient();
+
+      try {
+        await client.query('BEGIN');
+        await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [checksum]);
+
+        // Re-check under the lock: an upload may have reused the object meanwhile
+        const deleted = await client.query(
+          `DELETE FROM storage_objects o
+           WHERE o.checksum_sha256 = $1
+             AND NOT EXISTS (SELECT 1 FROM lesson_attachments a WHERE a.checksum_sha256 = o.checksum_sha256)
+             AND NOT EXISTS (SELECT 1 FROM assignment_submission_files f WHERE f.checksum_sha256 = o.checksum_sha256)
+           RETURNING storage_key`,
+          [checksum]
+        );
+
+        // The row is only gone once the object is; a failed delete is retried next time
+        if (deleted.rows[0]) {
+          await getStorage().delete(deleted.rows[0].storage_key);
+          removed++;
+        }
+
+        await client.query('COMMIT');
+      } catch (error) {
+        await client.query('ROLLBACK');
+        console.error(`Failed to remove stored object ${checksum}:`, error);
+      } finally {
+        client.release();
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Storage used by a course's attachments and its quota
+   * @returns null if the course does not exist
+   */
+  static async getStorageUsage(courseId: number): Promise<StorageUsage | null> {
+    const result = await db.query(
+      `SELECT c.storage_quota_bytes,
+              COALESCE(SUM(a.size_bytes), 0) as used,
+              COUNT(a.id) as attachment_count
+       FROM courses c
+       LEFT JOIN lesson_attachments a ON a.course_id = c.id
+       WHERE c.id = $1
+       GROUP BY c.id`,
+      [courseId]
+    );
+
+    const row = result.rows[0];
+    if (!row) {
+      return null;
+    }
+
+    return {
+      courseId,
+      usedBytes: parseInt(row.used, 10),
+      quotaBytes: row.storage_quota_bytes === null ? config.storageCourseQuotaBytes : parseInt(row.storage_quota_bytes, 10),
+      attachmentCount: parseInt(row.attachment_count, 10)
+    };
+  }
+
+  /**
+   * Override a course's storage quota; null restores the default
+   * Existing attachments are kept even when they exceed a lowered quota.
+   * Throws COURSE_NOT_FOUND
+   */
+  static async setStorageQuota(courseId: number, quotaBytes: number | null): Promise<void> {
+    const result = await db.query('UPDATE courses SET storage_quota_bytes = $1 WHERE id = $2', [quotaBytes, courseId]);
+
+    if ((result.rowCount ?? 0) === 0) {
+      throw new Error('COURSE_NOT_FOUND');
+    }
+  }
+}
@@ -0,0 +1,346 @@
+import { db } from '../db';
+
+/**
+ * Content release rules: when a student may open a lesson
+ *
+ * - Course release mode: 'open', or 'sequential' (a lesson unlocks once the
+ *   previous lesson in course order is complete)
+ * - Prerequisites per lesson: lessons to complete, or quizzes to pass with a
+ *   minimum score
+ * - Drip schedule per lesson: a number of days after enrollment and/or a
+ *   fixed date
+ *
+ * A lesson is locked while any rule is unmet; every unmet rule is reported.
+ * Callers decide who the rules apply to (staff with lesson.edit are exempt).
+ */
+
+export type ReleaseMode = 'open' | 'sequential';
+
+export interface LockReason {
+  type: 'sequential' | 'prerequisite_lesson' | 'prerequisite_quiz' | 'scheduled' | 'enrollment_required';
+  message: string;
+  lessonId?: number;
+  quizId?: number;
+  minScore?: number;
+  bestScore?: number | null;
+  unlocksAt?: Date;
+}
+
+export interface LessonPrerequisite {
+  lessonId?: number;
+  quizId?: number;
+  minScore?: number | null; // Quizzes only; null means any submission
+}
+
+export interface LessonReleaseRules {
+  lessonId: number;
+  title: string;
+  unlockAfterDays: number | null;
+  unlockAt: Date | null;
+  prerequisites: LessonPrerequisite[];
+}
+
+export interface CourseReleaseSettings {
+  mode: ReleaseMode;
+  lessons: LessonReleaseRules[];
+}
+
+/**
+ * Everything needed to evaluate the rules for one student
+ */
+export interface ReleaseState {
+  mode: ReleaseMode;
+  lessons: LessonReleaseRules[]; // In course order
+  enrolledAt: Date | null; // null when not enrolled
+  completedLessonIds: Set<number>;
+  bestQuizScores: Map<number, number>;
+  now: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Evaluate the release rules of every lesson
+ * Pure function; an empty reason list means the lesson is unlocked.
+ */
+export function evaluateLessonLocks(state: ReleaseState): Map<number, LockReason[]> {
+  const titles = new Map(state.lessons.map(lesson => [lesson.lessonId, lesson.title]));
+  const locks = new Map<number, LockReason[]>();
+
+  state.lessons.forEach((lesson, index) => {
+    const reasons: LockReason[] = [];
+
+    if (state.mode === 'sequential' && index > 0) {
+      const previous = state.lessons[index - 1];
+      if (!state.completedLessonIds.has(previous.lessonId)) {
+        reasons.push({
+          type: 'sequential',
+          message: `Complete "${previous.title}" first`,
+          lessonId: previous.lessonId
+        });
+      }
+    }
+
+    for (const prerequisite of lesson.prerequisites) {
+      if (prerequisite.lessonId !== undefined) {
+        if (!state.completedLessonIds.has(prerequisite.lessonId)) {
+          reasons.push({
+            type: 'prerequisite_lesson',
+            message: `Complete "${titles.get(prerequisite.lessonId) ?? `lesson ${prerequisite.lessonId}`}" first`,
+            lessonId: prerequisite.lessonId
+          });
+        }
+      } else if (prerequisite.quizId !== undefined) {
+        const bestScore = state.bestQuizScores.get(prerequisite.quizId);
+        const minScore = prerequisite.minScore ?? 0;
+        if (bestScore === undefined || bestScore < minScore) {
+          reasons.push({
+            type: 'prerequisite_quiz',
+            message: prerequisite.minScore
+              ? `Score at least ${minScore}% on quiz ${prerequisite.quizId}`
+              : `Submit quiz ${prerequisite.quizId}`,
+            quizId: prerequisite.quizId,
+            minScore,
+            bestScore: bestScore ?? null
+          });
+        }
+      }
+    }
+
+    if (lesson.unlockAt && state.now < lesson.unlockAt) {
+      reasons.push({
+        type: 'scheduled',
+        message: `Available from ${lesson.unlockAt.toISOString()}`,
+        unlocksAt: lesson.unlockAt
+      });
+    }
+
+    if (lesson.unlockAfterDays !== null) {
+      if (!state.enrolledAt) {
+        reasons.push({
+          type: 'enrollment_required',
+          message: `Available ${lesson.unlockAfterDays} days after enrollment`
+        });
+      } else {
+        const unlocksAt = new Date(state.enrolledAt.getTime() + lesson.unlockAfterDays * DAY_MS);
+        if (state.now < unlocksAt) {
+          reasons.push({
+            type: 'scheduled',
+            message: `Available from ${unlocksAt.toISOString()}`,
+            unlocksAt
+          });
+        }
+      }
+    }
+
+    locks.set(lesson.lessonId, reasons);
+  });
+
+  return locks;
+}
+
+export class LessonReleaseService {
+  /**
+   * Get a course's release mode and the rules of each lesson, in course order
+   * @returns null if the course does not exist
+   */
+  static async getCourseSettings(courseId: number): Promise<CourseReleaseSettings | null> {
+    const course = await db.query('SELECT release_mode FROM courses WHERE id = $1', [courseId]);
+    if (course.rows.length === 0) {
+      return null;
+    }
+
+    const lessons = await db.query(
+      `SELECT l.id, l.title, l.unlock_after_days, l.unlock_at
+       FROM lessons l
+       JOIN course_modules m ON l.module_id = m.id
+       WHERE l.course_id = $1
+       ORDER BY m.position, l.position`,
+      [courseId]
+    );
+
+    const prerequisites = await db.query(
+      `SELECT p.lesson_id, p.prerequisite_lesson_id, p.prerequisite_quiz_id, p.min_score
+       FROM lesson_prerequisites p
+       JOIN lessons l ON p.lesson_id = l.id
+       WHERE l.course_id = $1
+       ORDER BY p.id`,
+      [courseId]
+    );
+
+    return {
+      mode: course.rows[0].release_mode,
+      lessons: lessons.rows.map(row => ({
+        lessonId: row.id,
+        title: row.title,
+        unlockAfterDays: row.unlock_after_days,
+        unlockAt: row.unlock_at,
+        prerequisites: prerequisites.rows
+          .filter(prerequisite => prerequisite.lesson_id === row.id)
+          .map(prerequisite => prerequisite.prerequisite_lesson_id
+            ? { lessonId: prerequisite.prerequisite_lesson_id }
+            : {
+              quizId: prerequisite.prerequisite_quiz_id,
+              minScore: prerequisite.min_score === null ? null : parseFloat(prerequisite.min_score)
+            })
+      }))
+    };
+  }
+
+  /**
+   * The course a lesson belongs to
+   * @returns null if the lesson does not exist
+   */
+  static async getLessonCourseId(lessonId: number): Promise<number | null> {
+    const result = await db.query('SELECT course_id FROM lessons WHERE id = $1', [lessonId]);
+    return result.rows[0]?.course_id ?? null;
+  }
+
+  /**
+   * Set a course's release mode
+   * Throws COURSE_NOT_FOUND
+   */
+  static async setReleaseMode(courseId: number, mode: ReleaseMode): Promise<void> {
+    const result = await db.query('UPDATE courses SET release_mode = $1 WHERE id = $2', [mode, courseId]);
+
+    if ((result.rowCount ?? 0) === 0) {
+      throw new Error('COURSE_NOT_FOUND');
+    }
+  }
+
+  /**
+   * Replace a lesson's drip schedule and prerequisites
+   * Prerequisite lessons and quizzes must belong to the same course.
+   * Throws NOT_FOUND or INVALID_PREREQUISITE
+   */
+  static async setLessonRules(
+    lessonId: number,
+    rules: { unlockAfterDays: number | null; unlockAt: Date | null; prerequisites: LessonPrerequisite[] }
+  ): Promise<void> {
+    const client = await db.getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      const lesson = await client.query('SELECT course_id FROM lessons WHERE id = $1 FOR UPDATE', [lessonId]);
+      if (lesson.rows.length === 0) {
+        throw new Error('NOT_FOUND');
+      }
+      const courseId = lesson.rows[0].course_id;
+
+      const lessonIds = rules.prerequisites.filter(p => p.lessonId !== undefined).map(p => p.lessonId!);
+      const quizIds = rules.prerequisites.filter(p => p.quizId !== undefined).map(p => p.quizId!);
+
+      if (lessonIds.includes(lessonId)) {
+        throw new Error('INVALID_PREREQUISITE');
+      }
+
+      const lessonMatches = await client.query(
+        'SELECT COUNT(*) as count FROM lessons WHERE id = ANY($1::int[]) AND course_id = $2',
+        [lessonIds, courseId]
+      );
+      const quizMatches = await client.query(
+        'SELECT COUNT(*) as count FROM quizzes WHERE id = ANY($1::int[]) AND course_id = $2',
+        [quizIds, courseId]
+      );
+      if (
+        parseInt(lessonMatches.rows[0].count) !== new Set(lessonIds).size ||
+        parseInt(quizMatches.rows[0].count) !== new Set(quizIds).size
+      ) {
+        throw new Error('INVALID_PREREQUISITE');
+      }
+
+      await client.query(
+        'UPDATE lessons SET unlock_after_days = $1, unlock_at = $2 WHERE id = $3',
+        [rules.unlockAfterDays, rules.unlockAt, lessonId]
+      );
+
+      await client.query('DELETE FROM lesson_prerequisites WHERE lesson_id = $1', [lessonId]);
+      for (const prerequisite of rules.prerequisites) {
+        await client.query(
+          `INSERT INTO lesson_prerequisites (lesson_id, prerequisite_lesson_id, prerequisite_quiz_id, min_score)
+           VALUES ($1, $2, $3, $4)`,
+          [lessonId, prerequisite.lessonId ?? null, prerequisite.quizId ?? null, prerequisite.minScore ?? null]
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Evaluate the release rules of a course's lessons for a user
+   * Anonymous and unenrolled viewers have completed nothing.
+   * @returns Lock reasons per lesson ID; empty when unlocked
+   */
+  static async getLessonLocks(courseId: number, userId: number | null): Promise<Map<number, LockReason[]>> {
+    const settings = await this.getCourseSettings(courseId);
+    if (!settings) {
+      return new Map();
+    }
+
+    const hasRules = settings.mode === 'sequential' || settings.lessons.some(lesson =>
+      lesson.unlockAfterDays !== null || lesson.unlockAt !== null || lesson.prerequisites.length > 0
+    );
+    if (!hasRules) {
+      return new Map(settings.lessons.map(lesson => [lesson.lessonId, []]));
+    }
+
+    let enrolledAt: Date | null = null;
+    const completedLessonIds = new Set<number>();
+    const bestQuizScores = new Map<number, number>();
+
+    if (userId !== null) {
+      const enrollment = await db.query(
+        `SELECT id, created_at FROM enrollments
+         WHERE user_id = $1 AND course_id = $2 AND status <> 'refunded'
+         ORDER BY created_at DESC
+         LIMIT 1`,
+        [userId, courseId]
+      );
+
+      if (enrollment.rows[0]) {
+        enrolledAt = enrollment.rows[0].created_at;
+
+        const completed = await db.query(
+          'SELECT lesson_id FROM lesson_progress WHERE enrollment_id = $1 AND completed = true',
+          [enrollment.rows[0].id]
+        );
+        completed.rows.forEach(row => completedLessonIds.add(row.lesson_id));
+      }
+
+      const scores = await db.query(
+        `SELECT s.quiz_id, MAX(s.score) as best_score
+         FROM quiz_submissions s
+         JOIN quizzes q ON s.quiz_id = q.id
+         WHERE s.user_id = $1 AND q.course_id = $2
+         GROUP BY s.quiz_id`,
+        [userId, courseId]
+      );
+      scores.rows.forEach(row => bestQuizScores.set(row.quiz_id, parseFloat(row.best_score)));
+    }
+
+    return evaluateLessonLocks({
+      mode: settings.mode,
+      lessons: settings.lessons,
+      enrolledAt,
+      completedLessonIds,
+      bestQuizScores,
+      now: new Date()
+    });
+  }
+
+  /**
+   * Why a lesson is locked for a user
+   * @returns An empty list when the lesson is unlocked
+   */
+  static async getLockReasons(courseId: number, lessonId: number, userId: number | null): Promise<LockReason[]> {
+    const locks = await this.getLessonLocks(courseId, userId);
+    return locks.get(lessonId) || [];
+  }
+}
@@ -0,0 +1,266 @@
+import { db, PoolClient, QueryResult } from '../db';
+import { can, Principal } from '../modules/permissions/policy';
+import { Permission } from '../modules/permissions/permissions';
+import { diffLines, diffStats, formatUnifiedDiff, DiffStats } from '../utils/line-diff';
+import { getRenderedContent } from '../modules/markdown/cache';
+import { TocEntry } from '../modules/markdown/render';
+
+/**
+ * Lesson revision history
+ *
+ * Every edit of a lesson is stored as a new revision. The latest revision is a
+ * draft until it is published; publishing copies it into the lessons row,
+ * which is all that viewers without lesson.edit ever see.
+ */
+
+export interface LessonRevision {
+  id: number;
+  lesson_id: number;
+  revision_number: number;
+  title: string;
+  video_url: string | null;
+  content_md: string | null;
+  author_id: number | null;
+  author_name?: string | null;
+  restored_from: number | null;
+  published_at: Date | null;
+  published_by: number | null;
+  created_at: Date;
+  content_html?: string; // Sanitized rendering of content_md, when requested on its own
+  toc?: TocEntry[];
+}
+
+export interface RevisionContent {
+  title: string;
+  video_url: string | null;
+  content_md: string | null;
+}
+
+export interface RevisionDiff {
+  from: number;
+  to: number;
+  titleChanged: boolean;
+  videoUrlChanged: boolean;
+  stats: DiffStats;
+  diff: string; // Unified diff of content_md
+}
+
+// The pool or a client inside a transaction
+type Queryable = { query: (text: string, params?: any[]) => Promise<QueryResult> };
+
+const REVISION_COLUMNS = `
+  r.id, r.lesson_id, r.revision_number, r.title, r.video_url, r.content_md,
+  r.author_id, u.name as author_name, r.restored_from, r.published_at, r.published_by, r.created_at`;
+
+export class LessonRevisionsService {
+  /**
+   * List a lesson's revisions, newest first (without content)
+   * Requires lesson.edit on the lesson's course
+   */
+  async listRevisions(lessonId: number, user: Principal): Promise<Omit<LessonRevision, 'content_md'>[]> {
+    await this.authorize(lessonId, user, 'lesson.edit', 'You do not have permission to view the history of this lesson');
+
+    const result = await db.query(
+      `SELECT ${REVISION_COLUMNS}
+       FROM lesson_revisions r
+       LEFT JOIN users u ON r.author_id = u.id
+       WHERE r.lesson_id = $1
+       ORDER BY r.revision_number DESC`,
+      [lessonId]
+    );
+
+    return result.rows.map(({ content_md, ...revision }) => revision);
+  }
+
+  /**
+   * Get one revision with its content, as markdown and rendered HTML
+   * Requires lesson.edit on the lesson's course
+   */
+  async getRevision(lessonId: number, revisionNumber: number, user: Principal): Promise<LessonRevision> {
+    await this.authorize(lessonId, user, 'lesson.edit', 'You do not have permission to view the history of this lesson');
+
+    const revision = await this.findRevision(db, lessonId, revisionNumber);
+    const rendered = getRenderedContent(lessonId, revision.id, revision.content_md);
+
+    return { ...revision, content_html: rendered.html, toc: rendered.toc };
+  }
+
+  /**
+   * Compare the content of two revisions
+   * Requires lesson.edit on the lesson's course
+   */
+  async diffRevisions(lessonId: number, from: number, to: number, user: Principal): Promise<RevisionDiff> {
+    await this.authorize(lessonId, user, 'lesson.edit', 'You do not have permission to view the history of this lesson');
+
+    const fromRevision = await this.findRevision(db, lessonId, from);
+    const toRevision = await this.findRevision(db, lessonId, to);
+    const lines = diffLines(fromRevision.content_md || '', toRevision.content_md || '');
+
+    return {
+      from,
+      to,
+      titleChanged: fromRevision.title !== toRevision.title,
+      videoUrlChanged: fromRevision.video_url !== toRevision.video_url,
+      stats: diffStats(lines),
+      diff: formatUnifiedDiff(lines, `revision ${from}`, `revision ${to}`)
+    };
+  }
+
+  /**
+   * Copy an old revision into a new draft (publishing it is a separate step)
+   * Requires lesson.edit on the lesson's course
+   */
+  async restoreRevision(lessonId: number, revisionNumber: number, user: Principal): Promise<LessonRevision> {
+    const client = await db.getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      await this.authorize(lessonId, user, 'lesson.edit', 'You do not have permission to update this lesson', client);
+      const revision = await this.findRevision(client, lessonId, revisionNumber);
+
+      const draft = await this.createRevision(client, lessonId, revision, user.id, revisionNumber);
+
+      await client.query('COMMIT');
+      return draft;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Publish the draft so viewers see it
+   * Requires lesson.publish on the lesson's course
+   */
+  async publishDraft(lessonId: number, user: Principal): Promise<LessonRevision> {
+    const client = await db.getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      await this.authorize(lessonId, user, 'lesson.publish', 'You do not have permission to publish this lesson', client);
+
+      const draft = await this.getDraft(client, lessonId);
+      if (!draft) {
+        throw { status: 409, message: 'Lesson has no unpublished draft' };
+      }
+
+      const published = await client.query(
+        `UPDATE lesson_revisions SET published_at = CURRENT_TIMESTAMP, published_by = $1
+         WHERE id = $2
+         RETURNING *`,
+        [user.id, draft.id]
+      );
+
+      await client.query(
+        `UPDATE lessons SET title = $1, video_url = $2, content_md = $3, published_revision_id = $4
+         WHERE id = $5`,
+        [draft.title, draft.video_url, draft.content_md, draft.id, lessonId]
+      );
+
+      await client.query('COMMIT');
+      return published.rows[0];
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * The latest revision when it has not been published yet
+   */
+  async getDraft(client: Queryable, lessonId: number): Promise<LessonRevision | null> {
+    const result = await client.query(
+      `SELECT * FROM lesson_revisions
+       WHERE lesson_id = $1
+       ORDER BY revision_number DESC
+       LIMIT 1`,
+      [lessonId]
+    );
+
+    const latest = result.rows[0];
+    return latest && !latest.published_at ? latest : null;
+  }
+
+  /**
+   * Append a revision; callers hold a lock on the lesson row
+   * Runs on the caller's transaction.
+   */
+  async createRevision(
+    client: PoolClient,
+    lessonId: number,
+    content: RevisionContent,
+    authorId: number,
+    restoredFrom: number | null = null
+  ): Promise<LessonRevision> {
+    const result = await client.query(
+      `INSERT INTO lesson_revisions (lesson_id, revision_number, title, video_url, content_md, author_id, restored_from)
+       SELECT $1, COALESCE(MAX(revision_number), 0) + 1, $2, $3, $4, $5, $6
+       FROM lesson_revisions
+       WHERE lesson_id = $1
+       RETURNING *`,
+      [lessonId, content.title, content.video_url, content.content_md, authorId, restoredFrom]
+    );
+
+    return result.rows[0];
+  }
+
+  private async findRevision(
+    client: Queryable,
+    lessonId: number,
+    revisionNumber: number
+  ): Promise<LessonRevision> {
+    const result = await client.query(
+      `SELECT ${REVISION_COLUMNS}
+       FROM lesson_revisions r
+       LEFT JOIN users u ON r.author_id = u.id
+       WHERE r.lesson_id = $1 AND r.revision_number = $2`,
+      [lessonId, revisionNumber]
+    );
+
+    if (result.rows.length === 0) {
+      throw { status: 404, message: `Revision ${revisionNumber} not found` };
+    }
+
+    return result.rows[0];
+  }
+
+  /**
+   * Check a permission on the lesson's course; inside a transaction the
+   * lesson row is locked so revision numbers are assigned one at a time
+   */
+  private async authorize(
+    lessonId: number,
+    user: Principal,
+    permission: Permission,
+    message: string,
+    client?: PoolClient
+  ): Promise<void> {
+    const queryable: Queryable = client || db;
+    const result = await queryable.query(
+      `SELECT l.course_id, c.instructor_id, c.published
+       FROM lessons l
+       JOIN courses c ON l.course_id = c.id
+       WHERE l.id = $1
+       ${client ? 'FOR UPDATE OF l' : ''}`,
+      [lessonId]
+    );
+
+    if (result.rows.length === 0) {
+      throw { status: 404, message: 'Lesson not found' };
+    }
+
+    const row = result.rows[0];
+    const course = { id: row.course_id, instructor_id: row.instructor_id, published: row.published };
+    if (!(await can(user, permission, { course }))) {
+      throw { status: 403, message };
+    }
+  }
+}
+
+export const lessonRevisionsService = new LessonRevisionsService();
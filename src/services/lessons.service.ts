@@ -1,14 +1,29 @@
 import { db } from '../db';
 import { QueryResult } from 'pg';
+import { can, Principal } from '../modules/permissions/policy';
+import { CourseModulesService } from './course-modules.service';
+import { lessonRevisionsService, LessonRevision } from './lesson-revisions.service';
+import { LessonReleaseService, LockReason } from './lesson-release.service';
+import { LessonAttachmentsService } from './lesson-attachments.service';
+import { getRenderedContent, invalidateLesson } from '../modules/markdown/cache';
+import { TocEntry } from '../modules/markdown/render';
 
+// title, video_url and content_md are the published revision
 interface Lesson {
   id: number;
   course_id: number;
+  module_id: number;
   title: string;
   video_url?: string;
   content_md?: string;
   position: number;
+  published_revision_id: number | null;
   created_at: Date;
+  content_html?: string; // Sanitized rendering of content_md (single lessons only)
+  toc?: TocEntry[];
+  draft?: LessonRevision | null; // Only for callers with lesson.edit
+  locked?: boolean; // Only in lists for callers bound by release rules
+  lock_reasons?: LockReason[];
 }
 
 interface CreateLessonData {
@@ -16,7 +31,8 @@ interface CreateLessonData {
   title: string;
   video_url?: string;
   content_md?: string;
-  position?: number;
+  position?: number; // Within the module
+  module_id?: number; // Defaults to the course's last module
 }
 
 interface UpdateLessonData {
@@ -25,10 +41,23 @@ interface UpdateLessonData {
   content_md?: string;
 }
 
+interface ModuleLayout {
+  id: number;
+  lessonIds: number[];
+}
+
+// Course order: modules by position, then lessons by position within their module
+const COURSE_LESSONS_QUERY = `
+  SELECT l.*
+  FROM lessons l
+  JOIN course_modules m ON l.module_id = m.id
+  WHERE l.course_id = $1
+  ORDER BY m.position ASC, l.position ASC`;
+
 export class LessonsService {
   /**
    * Create a new lesson for a course
-   * If position is not provided, append to the end
+   * If position is not provided, append to the end of the module
    */
   async createLesson(data: CreateLessonData, userId: number, userRole: string): Promise<Lesson> {
     const client = await db.getClient();
@@ -37,8 +66,9 @@ export class LessonsService {
       await client.query('BEGIN');
       
       // Check if the course exists and user has permission
+      // (the row lock serializes position changes within the course)
       const courseResult = await client.query(
-        'SELECT id, instructor_id, published FROM courses WHERE id = $1',
+        'SELECT id, instructor_id, published FROM courses WHERE id = $1 FOR UPDATE',
         [data.course_id]
       );
       
@@ -48,37 +78,60 @@ export class LessonsService {
       
       const course = courseResult.rows[0];
       
-      // Check permission: instructor must own the course, admin can modify any
-      if (userRole !== 'admin' && course.instructor_id !== userId) {
+      if (!(await can({ id: userId, role: userRole }, 'lesson.create', { course }))) {
         throw { status: 403, message: 'You do not have permission to add lessons to this course' };
       }
       
+      let moduleId = data.module_id;
+      if (moduleId) {
+        const moduleResult = await client.query(
+          'SELECT id FROM course_modules WHERE id = $1 AND course_id = $2',
+          [moduleId, data.course_id]
+        );
+        
+        if (moduleResult.rows.length === 0) {
+          throw { status: 400, message: 'Module does not belong to this course' };
+        }
+      } else {
+        moduleId = await CourseModulesService.getOrCreateLastModule(client, data.course_id);
+      }
+      
       // Determine position if not provided
       let position = data.position;
       if (!position) {
         const maxPositionResult = await client.query(
-          'SELECT COALESCE(MAX(position), 0) as max_position FROM lessons WHERE course_id = $1',
-          [data.course_id]
+          'SELECT COALESCE(MAX(position), 0) as max_position FROM lessons WHERE module_id = $1',
+          [moduleId]
         );
         position = maxPositionResult.rows[0].max_position + 1;
       } else {
-        // If position is provided, shift existing lessons
+        // If position is provided, shift existing lessons in the module
         await client.query(
-          'UPDATE lessons SET position = position + 1 WHERE course_id = $1 AND position >= $2',
-          [data.course_id, position]
+          'UPDATE lessons SET position = position + 1 WHERE module_id = $1 AND position >= $2',
+          [moduleId, position]
         );
       }
       
       // Create the lesson
       const result = await client.query(
-        `INSERT INTO lessons (course_id, title, video_url, content_md, position)
-         VALUES ($1, $2, $3, $4, $5)
+        `INSERT INTO lessons (course_id, module_id, title, video_url, content_md, position)
+         VALUES ($1, $2, $3, $4, $5, $6)
          RETURNING *`,
-        [data.course_id, data.title, data.video_url || null, data.content_md || null, position]
+        [data.course_id, moduleId, data.title, data.video_url || null, data.content_md || null, position]
       );
+      const lesson = result.rows[0];
+      
+      // The initial content is revision 1, published with the lesson
+      const revision = await lessonRevisionsService.createRevision(client, lesson.id, lesson, userId);
+      await client.query(
+        'UPDATE lesson_revisions SET published_at = CURRENT_TIMESTAMP, published_by = $1 WHERE id = $2',
+        [userId, revision.id]
+      );
+      await client.query('UPDATE lessons SET published_revision_id = $1 WHERE id = $2', [revision.id, lesson.id]);
+      lesson.published_revision_id = revision.id;
       
       await client.query('COMMIT');
-      return result.rows[0];
+      return lesson;
       
     } catch (error) {
       await client.query('ROLLBACK');
@@ -89,13 +142,15 @@ export class LessonsService {
   }
   
   /**
-   * List lessons for a course, ordered by position
+   * List lessons for a course in course order (module, then position)
    * Visibility rules: public/student can only see lessons for published courses
+   * Callers without lesson.edit get each lesson's lock status; locked lessons
+   * are listed without their content.
    */
   async listLessons(courseId: number, userId?: number, userRole?: string): Promise<Lesson[]> {
     // First check if course exists and get its status
     const courseResult = await db.query(
-      'SELECT id, instructor_id, published FROM courses WHERE id = $1',
+      'SELECT id, instructor_id, published, is_template FROM courses WHERE id = $1',
       [courseId]
     );
     
@@ -105,33 +160,38 @@ export class LessonsService {
     
     const course = courseResult.rows[0];
     
-    // Check visibility permissions
-    const canView = 
-      course.published || // Published courses are visible to all
-      userRole === 'admin' || // Admins can see all
-      (userId && course.instructor_id === userId); // Instructors can see their own
-    
-    if (!canView) {
+    if (!(await can(this.toPrincipal(userId, userRole), 'lesson.view', { course }))) {
       throw { status: 403, message: 'You do not have permission to view lessons for this course' };
     }
     
-    // Get lessons ordered by position
-    const result = await db.query(
-      'SELECT * FROM lessons WHERE course_id = $1 ORDER BY position ASC',
-      [courseId]
-    );
+    const result = await db.query(COURSE_LESSONS_QUERY, [courseId]);
     
-    return result.rows;
+    const principal = this.toPrincipal(userId, userRole);
+    if (principal && await can(principal, 'lesson.edit', { course })) {
+      return result.rows;
+    }
+    
+    const locks = await LessonReleaseService.getLessonLocks(courseId, userId ?? null);
+    
+    return result.rows.map(lesson => {
+      const reasons = locks.get(lesson.id) || [];
+      if (reasons.length === 0) {
+        return { ...lesson, locked: false, lock_reasons: [] };
+      }
+      return { ...lesson, video_url: null, content_md: null, locked: true, lock_reasons: reasons };
+    });
   }
   
   /**
    * Get a single lesson by ID
-   * Same visibility rules as list
+   * Same visibility rules as list; callers with lesson.edit also get the draft
+   * Other callers get 403 LESSON_LOCKED with the reasons while release rules lock it
+   * Content is returned as markdown and as sanitized HTML with a table of contents.
    */
   async getLessonById(lessonId: number, userId?: number, userRole?: string): Promise<Lesson> {
     // Get lesson with course info
     const result = await db.query(
-      `SELECT l.*, c.instructor_id, c.published 
+      `SELECT l.*, c.instructor_id, c.published, c.is_template
        FROM lessons l
        JOIN courses c ON l.course_id = c.id
        WHERE l.id = $1`,
@@ -144,16 +204,29 @@ export class LessonsService {
     
     const lesson = result.rows[0];
     
-    // Check visibility permissions
-    const canView = 
-      lesson.published || // Published courses are visible to all
-      userRole === 'admin' || // Admins can see all
-      (userId && lesson.instructor_id === userId); // Instructors can see their own
-    
-    if (!canView) {
+    const course = { id: lesson.course_id, instructor_id: lesson.instructor_id, published: lesson.published, is_template: lesson.is_template };
+    if (!(await can(this.toPrincipal(userId, userRole), 'lesson.view', { course }))) {
       throw { status: 403, message: 'You do not have permission to view this lesson' };
     }
     
+    const principal = this.toPrincipal(userId, userRole);
+    if (principal && await can(principal, 'lesson.edit', { course })) {
+      lesson.draft = await lessonRevisionsService.getDraft(db, lessonId);
+      if (lesson.draft) {
+        const draftRender = getRenderedContent(lessonId, lesson.draft.id, lesson.draft.content_md);
+        lesson.draft = { ...lesson.draft, content_html: draftRender.html, toc: draftRender.toc };
+      }
+    } else {
+      const reasons = await LessonReleaseService.getLockReasons(lesson.course_id, lessonId, userId ?? null);
+      if (reasons.length > 0) {
+        throw { status: 403, code: 'LESSON_LOCKED', message: 'Lesson is locked', reasons };
+      }
+    }
+    
+    const rendered = getRenderedContent(lessonId, lesson.published_revision_id, lesson.content_md);
+    lesson.content_html = rendered.html;
+    lesson.toc = rendered.toc;
+    
     // Remove course metadata from response
     delete lesson.instructor_id;
     delete lesson.published;
@@ -162,70 +235,80 @@ export class LessonsService {
   }
   
   /**
-   * Update a lesson
-   * Only instructor owner or admin can update
+   * Save an edit of a lesson as a new draft revision
+   * Fields left out keep their value from the current draft, or from the
+   * published lesson when there is none. Viewers keep seeing the published
+   * content until the draft is published.
+   * Requires lesson.edit on the lesson's course
    */
   async updateLesson(lessonId: number, data: UpdateLessonData, userId: number, userRole: string): Promise<Lesson> {
-    // Get lesson with course info
-    const lessonResult = await db.query(
-      `SELECT l.*, c.instructor_id 
-       FROM lessons l
-       JOIN courses c ON l.course_id = c.id
-       WHERE l.id = $1`,
-      [lessonId]
-    );
-    
-    if (lessonResult.rows.length === 0) {
-      throw { status: 404, message: 'Lesson not found' };
-    }
-    
-    const lesson = lessonResult.rows[0];
-    
-    // Check permission
-    if (userRole !== 'admin' && lesson.instructor_id !== userId) {
-      throw { status: 403, message: 'You do not have permission to update this lesson' };
-    }
-    
-    // Build update query dynamically
-    const updates: string[] = [];
-    const values: any[] = [];
-    let paramCount = 1;
-    
-    if (data.title !== undefined) {
-      updates.push(`title = $${paramCount}`);
-      values.push(data.title);
-      paramCount++;
-    }
-    
-    if (data.video_url !== undefined) {
-      updates.push(`video_url = $${paramCount}`);
-      values.push(data.video_url || null);
-      paramCount++;
-    }
-    
-    if (data.content_md !== undefined) {
-      updates.push(`content_md = $${paramCount}`);
-      values.push(data.content_md || null);
-      paramCount++;
-    }
+    const client = await db.getClient();
     
-    if (updates.length === 0) {
-      return lesson; // No updates to make
+    try {
+      await client.query('BEGIN');
+      
+      // Get lesson with course info (locked so revision numbers stay sequential)
+      const lessonResult = await client.query(
+        `SELECT l.*, c.instructor_id, c.published 
+         FROM lessons l
+         JOIN courses c ON l.course_id = c.id
+         WHERE l.id = $1
+         FOR UPDATE OF l`,
+        [lessonId]
+      );
+      
+      if (lessonResult.rows.length === 0) {
+        throw { status: 404, message: 'Lesson not found' };
+      }
+      
+      const lesson = lessonResult.rows[0];
+      
+      const course = { id: lesson.course_id, instructor_id: lesson.instructor_id, published: lesson.published };
+      if (!(await can({ id: userId, role: userRole }, 'lesson.edit', { course }))) {
+        throw { status: 403, message: 'You do not have permission to update this lesson' };
+      }
+      
+      // Remove course metadata from response
+      delete lesson.instructor_id;
+      delete lesson.published;
+      
+      const current = (await lessonRevisionsService.getDraft(client, lessonId)) || lesson;
+      
+      if (data.title === undefined && data.video_url === undefined && data.content_md === undefined) {
+        await client.query('COMMIT');
+        lesson.draft = current === lesson ? null : current;
+        return lesson; // No updates to make
+      }
+      
+      lesson.draft = await lessonRevisionsService.createRevision(
+        client,
+        lessonId,
+        {
+          title: data.title !== undefined ? data.title : current.title,
+          video_url: data.video_url !== undefined ? data.video_url || null : current.video_url,
+          content_md: data.content_md !== undefined ? data.content_md || null : current.content_md
+        },
+        userId
+      );
+      
+      await client.query('COMMIT');
+      
+      // Drop renders of superseded revisions
+      invalidateLesson(lessonId);
+      return lesson;
+      
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
     }
-    
-    values.push(lessonId);
-    
-    const result = await db.query(
-      `UPDATE lessons SET ${updates.join(', ')} WHERE id = $${paramCount} RETURNING *`,
-      values
-    );
-    
-    return result.rows[0];
   }
   
   /**
    * Reorder lessons atomically
-   * Expects an ordered array of lesson IDs for the course
+   * Expects an ordered array of lesson IDs for the course. Lessons stay in
+   * their modules; their relative order in the array sets their order there.
    */
   async reorderLessons(courseId: number, lessonIds: number[], userId: number, userRole: string): Promise<Lesson[]> {
     const client = await db.getClient();
@@ -235,7 +318,7 @@ export class LessonsService {
       
       // Check course exists and user has permission
       const courseResult = await client.query(
-        'SELECT id, instructor_id FROM courses WHERE id = $1',
+        'SELECT id, instructor_id, published FROM courses WHERE id = $1',
         [courseId]
       );
       
@@ -245,18 +328,20 @@ export class LessonsService {
       
       const course = courseResult.rows[0];
       
-      // Check permission
-      if (userRole !== 'admin' && course.instructor_id !== userId) {
+      if (!(await can({ id: userId, role: userRole }, 'lesson.edit', { course }))) {
         throw { status: 403, message: 'You do not have permission to reorder lessons for this course' };
       }
       
       // Get current lessons for this course
       const currentLessonsResult = await client.query(
-        'SELECT id FROM lessons WHERE course_id = $1 ORDER BY position',
+        'SELECT id, module_id FROM lessons WHERE course_id = $1',
         [courseId]
       );
       
       const currentLessonIds = currentLessonsResult.rows.map((row: any) => row.id);
+      const moduleOf = new Map<number, number>(
+        currentLessonsResult.rows.map((row: any) => [row.id, row.module_id])
+      );
       
       // Validate that provided IDs match exactly (same set, just reordered)
       if (lessonIds.length !== currentLessonIds.length) {
@@ -287,20 +372,90 @@ export class LessonsService {
         }
       }
       
-      // Update positions atomically
-      for (let i = 0; i < lessonIds.length; i++) {
+      // Update positions atomically, numbering each module separately
+      const nextPosition = new Map<number, number>();
+      for (const id of lessonIds) {
+        const moduleId = moduleOf.get(id)!;
+        const position = (nextPosition.get(moduleId) || 0) + 1;
+        nextPosition.set(moduleId, position);
+        
         await client.query(
           'UPDATE lessons SET position = $1 WHERE id = $2 AND course_id = $3',
-          [i + 1, lessonIds[i], courseId]
+          [position, id, courseId]
         );
       }
       
       // Get the reordered lessons
-      const result = await client.query(
-        'SELECT * FROM lessons WHERE course_id = $1 ORDER BY position ASC',
+      const result = await client.query(COURSE_LESSONS_QUERY, [courseId]);
+      
+      await client.query('COMMIT');
+      return result.rows;
+      
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+  
+  /**
+   * Reorder modules and move lessons between them atomically
+   * Expects every module of the course in order, each with the ordered IDs of
+   * the lessons it should hold; every lesson of the course must appear once.
+   */
+  async reorderCourseLayout(courseId: number, modules: ModuleLayout[], userId: number, userRole: string): Promise<Lesson[]> {
+    const client = await db.getClient();
+    
+    try {
+      await client.query('BEGIN');
+      
+      const courseResult = await client.query(
+        'SELECT id, instructor_id, published FROM courses WHERE id = $1 FOR UPDATE',
         [courseId]
       );
       
+      if (courseResult.rows.length === 0) {
+        throw { status: 404, message: 'Course not found' };
+      }
+      
+      const course = courseResult.rows[0];
+      
+      if (!(await can({ id: userId, role: userRole }, 'lesson.edit', { course }))) {
+        throw { status: 403, message: 'You do not have permission to reorder lessons for this course' };
+      }
+      
+      const currentModules = await client.query('SELECT id FROM course_modules WHERE course_id = $1', [courseId]);
+      const currentLessons = await client.query('SELECT id FROM lessons WHERE course_id = $1', [courseId]);
+      
+      this.assertSameIds(
+        'module',
+        currentModules.rows.map((row: any) => row.id),
+        modules.map(module => module.id)
+      );
+      this.assertSameIds(
+        'lesson',
+        currentLessons.rows.map((row: any) => row.id),
+        modules.flatMap(module => module.lessonIds)
+      );
+      
+      for (let i = 0; i < modules.length; i++) {
+        await client.query(
+          'UPDATE course_modules SET position = $1 WHERE id = $2 AND course_id = $3',
+          [i + 1, modules[i].id, courseId]
+        );
+        
+        const lessonIds = modules[i].lessonIds;
+        for (let j = 0; j < lessonIds.length; j++) {
+          await client.query(
+            'UPDATE lessons SET module_id = $1, position = $2 WHERE id = $3 AND course_id = $4',
+            [modules[i].id, j + 1, lessonIds[j], courseId]
+          );
+        }
+      }
+      
+      const result = await client.query(COURSE_LESSONS_QUERY, [courseId]);
+      
       await client.query('COMMIT');
       return result.rows;
       
@@ -313,7 +468,7 @@ export class LessonsService {
   }
   
   /**
-   * Delete a lesson and re-compact positions
+   * Delete a lesson and re-compact positions within its module
    */
   async deleteLesson(lessonId: number, userId: number, userRole: string): Promise<void> {
     const client = await db.getClient();
@@ -323,7 +478,7 @@ export class LessonsService {
       
       // Get lesson with course info
       const lessonResult = await client.query(
-        `SELECT l.*, c.instructor_id 
+        `SELECT l.*, c.instructor_id, c.published 
          FROM lessons l
          JOIN courses c ON l.course_id = c.id
          WHERE l.id = $1`,
@@ -336,8 +491,8 @@ export class LessonsService {
       
       const lesson = lessonResult.rows[0];
       
-      // Check permission
-      if (userRole !== 'admin' && lesson.instructor_id !== userId) {
+      const course = { id: lesson.course_id, instructor_id: lesson.instructor_id, published: lesson.published };
+      if (!(await can({ id: userId, role: userRole }, 'lesson.delete', { course }))) {
         throw { status: 403, message: 'You do not have permission to delete this lesson' };
       }
       
@@ -346,11 +501,15 @@ export class LessonsService {
       
       // Re-compact positions (close the gap)
       await client.query(
-        'UPDATE lessons SET position = position - 1 WHERE course_id = $1 AND position > $2',
-        [lesson.course_id, lesson.position]
+        'UPDATE lessons SET position = position - 1 WHERE module_id = $1 AND position > $2',
+        [lesson.module_id, lesson.position]
       );
       
       await client.query('COMMIT');
+      invalidateLesson(lessonId);
+      
+      // Attachments went with the lesson; drop files nothing else uses
+      await LessonAttachmentsService.deleteUnreferencedObjects();
       
     } catch (error) {
       await client.query('ROLLBACK');
@@ -361,23 +520,37 @@ export class LessonsService {
   }
   
   /**
-   * Check if a user can modify lessons for a course
+   * Check that a reorder request names exactly the course's current IDs
    */
-  async canModifyCourseLessons(courseId: number, userId: number, userRole: string): Promise<boolean> {
-    if (userRole === 'admin') {
-      return true;
+  private assertSameIds(kind: 'module' | 'lesson', currentIds: number[], providedIds: number[]): void {
+    if (providedIds.length !== currentIds.length) {
+      throw {
+        status: 400,
+        message: `Invalid ${kind} IDs: count mismatch. Expected ${currentIds.length} ${kind}s`
+      };
     }
     
-    const result = await db.query(
-      'SELECT instructor_id FROM courses WHERE id = $1',
-      [courseId]
-    );
+    const current = new Set(currentIds);
+    const provided = new Set(providedIds);
     
-    if (result.rows.length === 0) {
-      return false;
+    for (const id of currentIds) {
+      if (!provided.has(id)) {
+        throw { status: 400, message: `Invalid ${kind} IDs: ${kind} ${id} is missing from the reorder list` };
+      }
     }
     
-    return result.rows[0].instructor_id === userId;
+    for (const id of providedIds) {
+      if (!current.has(id)) {
+        throw { status: 400, message: `Invalid ${kind} IDs: ${kind} ${id} does not belong to this course` };
+      }
+    }
+  }
+  
+  /**
+   * Anonymous requests carry neither a user ID nor a role
+   */
+  private toPrincipal(userId?: number, userRole?: string): Principal | null {
+    return userId !== undefined && userRole !== undefined ? { id: userId, role: userRole } : null;
   }
 }
 
@@ -0,0 +1,204 @@
+import { db, PoolClient } from '../db';
+import { config } from '../config';
+import { publish } from '../modules/notifications/publisher';
+
+/**
+ * Login throttling service (brute-force protection)
+ *
+ * Failed logins are tracked per email and per IP address in login_throttles:
+ * - Email: exponential backoff between attempts, then a temporary lockout
+ *   after loginMaxFailures failures. Unknown emails are tracked exactly like
+ *   known ones so responses never reveal whether an account exists.
+ * - IP: at most loginIpMaxFailures failures per loginIpWindowSeconds window.
+ *
+ * A successful login clears the email counter; the IP counter only expires
+ * with its window.
+ */
+
+export interface ThrottleCheck {
+  allowed: boolean;
+  retryAfterSeconds: number;
+}
+
+export interface FailureResult {
+  locked: boolean;
+  lockedUntil: Date | null;
+}
+
+export interface UnlockResult {
+  userId: number;
+  email: string;
+  wasLocked: boolean;
+}
+
+export class LoginThrottleService {
+  /**
+   * Check whether a login attempt may proceed for this email and IP
+   */
+  static async checkAllowed(email: string, ipAddress?: string): Promise<ThrottleCheck> {
+    const keys = [this.emailKey(email)];
+    if (ipAddress) {
+      keys.push(this.ipKey(ipAddress));
+    }
+
+    const result = await db.query(
+      'SELECT next_attempt_at, locked_until FROM login_throttles WHERE key = ANY($1)',
+      [keys]
+    );
+
+    const now = Date.now();
+    let blockedUntil = now;
+
+    for (const row of result.rows) {
+      for (const value of [row.next_attempt_at, row.locked_until]) {
+        if (value) {
+          blockedUntil = Math.max(blockedUntil, new Date(value).getTime());
+        }
+      }
+    }
+
+    const retryAfterSeconds = Math.ceil((blockedUntil - now) / 1000);
+    return { allowed: retryAfterSeconds <= 0, retryAfterSeconds: Math.max(retryAfterSeconds, 0) };
+  }
+
+  /**
+   * Record a failed login for this email and IP
+   * Publishes auth.account_locked when the email gets locked out
+   */
+  static async recordFailure(email: string, ipAddress?: string, userId?: number): Promise<FailureResult> {
+    const client = await db.getClient();
+    const now = new Date();
+    let lockedUntil: Date | null = null;
+    let failedAttempts = 0;
+
+    try {
+      await client.query('BEGIN');
+
+      const emailRow = await this.lockRow(client, this.emailKey(email));
+
+      // Old failures stop counting once a lockout period has passed without new ones
+      const idleMs = config.loginLockoutSeconds * 1000;
+      const stale = !emailRow.last_failure_at || now.getTime() - new Date(emailRow.last_failure_at).getTime() > idleMs;
+      failedAttempts = (stale ? 0 : emailRow.failure_count) + 1;
+
+      if (failedAttempts >= config.loginMaxFailures) {
+        lockedUntil = new Date(now.getTime() + config.loginLockoutSeconds * 1000);
+        await client.query(
+          `UPDATE login_throttles
+           SET failure_count = 0, last_failure_at = $2, next_attempt_at = NULL, locked_until = $3
+           WHERE key = $1`,
+          [this.emailKey(email), now, lockedUntil]
+        );
+      } else {
+        const delaySeconds = Math.min(
+          config.loginBackoffMaxSeconds,
+          config.loginBackoffBaseSeconds * Math.pow(2, failedAttempts - 1)
+        );
+        await client.query(
+          `UPDATE login_throttles
+           SET failure_count = $2, last_failure_at = $3, next_attempt_at = $4
+           WHERE key = $1`,
+          [this.emailKey(email), failedAttempts, now, new Date(now.getTime() + delaySeconds * 1000)]
+        );
+      }
+
+      if (ipAddress) {
+        const ipRow = await this.lockRow(client, this.ipKey(ipAddress));
+        const windowMs = config.loginIpWindowSeconds * 1000;
+        const windowExpired = now.getTime() - new Date(ipRow.window_started_at).getTime() >= windowMs;
+
+        const windowStartedAt = windowExpired ? now : new Date(ipRow.window_started_at);
+        const ipFailures = (windowExpired ? 0 : ipRow.failure_count) + 1;
+        const ipBlockedUntil = ipFailures >= config.loginIpMaxFailures
+          ? new Date(windowStartedAt.getTime() + windowMs)
+          : null;
+
+        await client.query(
+          `UPDATE login_throttles
+           SET failure_count = $2, window_started_at = $3, last_failure_at = $4, locked_until = $5
+           WHERE key = $1`,
+          [this.ipKey(ipAddress), ipFailures, windowStartedAt, now, ipBlockedUntil]
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    if (lockedUntil) {
+      // Security events are always recorded, regardless of NOTIFICATIONS_ENABLED
+      await publish('auth.account_locked', {
+        email: email.toLowerCase(),
+        userId: userId ?? null,
+        ipAddress: ipAddress ?? null,
+        failedAttempts,
+        lockedUntil: lockedUntil.toISOString()
+      });
+    }
+
+    return { locked: lockedUntil !== null, lockedUntil };
+  }
+
+  /**
+   * Clear the email counter after a successful login
+   */
+  static async recordSuccess(email: string): Promise<void> {
+    await db.query('DELETE FROM login_throttles WHERE key = $1', [this.emailKey(email)]);
+  }
+
+  /**
+   * Unlock a user's account and clear its failed attempts (admin action)
+   * Throws NOT_FOUND if the user does not exist
+   */
+  static async unlockUser(userId: number, unlockedBy: number): Promise<UnlockResult> {
+    const userResult = await db.query('SELECT id, email FROM users WHERE id = $1', [userId]);
+    const user = userResult.rows[0];
+    if (!user) {
+      throw new Error('NOT_FOUND');
+    }
+
+    const result = await db.query(
+      'DELETE FROM login_throttles WHERE key = $1 RETURNING locked_until',
+      [this.emailKey(user.email)]
+    );
+
+    const lockedUntil = result.rows[0]?.locked_until;
+    const wasLocked = !!lockedUntil && new Date(lockedUntil) > new Date();
+
+    await publish('auth.account_unlocked', {
+      userId: user.id,
+      email: user.email,
+      unlockedBy,
+      wasLocked
+    });
+
+    return { userId: user.id, email: user.email, wasLocked };
+  }
+
+  /**
+   * Make sure a row exists for the key and lock it for this transaction
+   */
+  private static async lockRow(client: PoolClient, key: string): Promise<any> {
+    await client.query(
+      'INSERT INTO login_throttles (key) VALUES ($1) ON CONFLICT (key) DO NOTHING',
+      [key]
+    );
+    const result = await client.query(
+      'SELECT failure_count, window_started_at, last_failure_at FROM login_throttles WHERE key = $1 FOR UPDATE',
+      [key]
+    );
+    return result.rows[0];
+  }
+
+  private static emailKey(email: string): string {
+    return `email:${email.trim().toLowerCase()}`;
+  }
+
+  private static ipKey(ipAddress: string): string {
+    return `ip:${ipAddress}`;
+  }
+}
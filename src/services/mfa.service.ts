@@ -0,0 +1,367 @@
+import crypto from 'crypto';
+import { db, PoolClient } from '../db';
+import { config } from '../config';
+import { UserRole, USER_ROLES } from './users.service';
+import { generateSecret, verifyTotp, buildOtpAuthUri } from '../utils/totp';
+
+/**
+ * Two-factor authentication service (TOTP + recovery codes)
+ *
+ * Enrollment is two-step: beginEnrollment() stores a pending secret and
+ * activate() enables it once the user proves their authenticator works.
+ * TOTP secrets are encrypted at rest (AES-256-GCM); recovery codes are only
+ * stored as hashes. Time-dependent methods accept `now` for deterministic use.
+ */
+
+const RECOVERY_CODE_COUNT = 10;
+
+export interface MfaStatus {
+  enabled: boolean;
+  pendingEnrollment: boolean;
+  recoveryCodesRemaining: number;
+  requiredByPolicy: boolean;
+}
+
+export interface MfaEnrollment {
+  secret: string;
+  otpauthUrl: string;
+}
+
+export interface MfaRolePolicy {
+  role: UserRole;
+  required: boolean;
+  updated_by: number | null;
+  updated_at: Date | null;
+}
+
+export type SecondFactorMethod = 'totp' | 'recovery_code';
+
+export class MfaService {
+  /**
+   * Current 2FA state of a user
+   */
+  static async getStatus(userId: number, role: string): Promise<MfaStatus> {
+    const mfaResult = await db.query('SELECT enabled_at FROM user_mfa WHERE user_id = $1', [userId]);
+    const codesResult = await db.query(
+      'SELECT COUNT(*) as total FROM mfa_recovery_codes WHERE user_id = $1 AND used_at IS NULL',
+      [userId]
+    );
+
+    const mfa = mfaResult.rows[0];
+
+    return {
+      enabled: !!mfa?.enabled_at,
+      pendingEnrollment: !!mfa && !mfa.enabled_at,
+      recoveryCodesRemaining: parseInt(codesResult.rows[0].total),
+      requiredByPolicy: await this.isRequiredForRole(role)
+    };
+  }
+
+  /**
+   * Check if a user has confirmed 2FA
+   */
+  static async isEnabled(userId: number): Promise<boolean> {
+    const result = await db.query(
+      'SELECT 1 FROM user_mfa WHERE user_id = $1 AND enabled_at IS NOT NULL',
+      [userId]
+    );
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Start (or restart) enrollment with a fresh secret
+   * Throws ALREADY_ENABLED if 2FA is already active
+   */
+  static async beginEnrollment(user: { id: number; email: string }): Promise<MfaEnrollment> {
+    if (await this.isEnabled(user.id)) {
+      throw new Error('ALREADY_ENABLED');
+    }
+
+    const secret = generateSecret();
+
+    await db.query(
+      `INSERT INTO user_mfa (user_id, secret_encrypted)
+       VALUES ($1, $2)
+       ON CONFLICT (user_id) DO UPDATE
+       SET secret_encrypted = EXCLUDED.secret_encrypted, last_used_step = NULL, created_at = CURRENT_TIMESTAMP
+       WHERE user_mfa.enabled_at IS NULL`,
+      [user.id, this.encryptSecret(secret)]
+    );
+
+    return {
+      secret,
+      otpauthUrl: buildOtpAuthUri(secret, user.email, config.mfaIssuer)
+    };
+  }
+
+  /**
+   * Confirm enrollment with a first code and issue recovery codes
+   * Throws NOT_STARTED, ALREADY_ENABLED or INVALID_CODE
+   * @returns The plain recovery codes (shown to the user once)
+   */
+  static async activate(userId: number, code: string, now: number = Date.now()): Promise<string[]> {
+    const result = await db.query(
+      'SELECT secret_encrypted, enabled_at FROM user_mfa WHERE user_id = $1',
+      [userId]
+    );
+    const mfa = result.rows[0];
+
+    if (!mfa) {
+      throw new Error('NOT_STARTED');
+    }
+
+    if (mfa.enabled_at) {
+      throw new Error('ALREADY_ENABLED');
+    }
+
+    const step = verifyTotp(this.decryptSecret(mfa.secret_encrypted), code, { now });
+    if (step === null) {
+      throw new Error('INVALID_CODE');
+    }
+
+    const client = await db.getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      await client.query(
+        'UPDATE user_mfa SET enabled_at = CURRENT_TIMESTAMP, last_used_step = $2 WHERE user_id = $1',
+        [userId, step]
+      );
+
+      const codes = await this.replaceRecoveryCodes(client, userId);
+
+      await client.query('COMMIT');
+      return codes;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Verify a TOTP code for a user with 2FA enabled
+   * Each time step is accepted at most once, so an observed code cannot be replayed
+   */
+  static async verifyCode(userId: number, code: string, now: number = Date.now()): Promise<boolean> {
+    const result = await db.query(
+      'SELECT secret_encrypted FROM user_mfa WHERE user_id = $1 AND enabled_at IS NOT NULL',
+      [userId]
+    );
+    const mfa = result.rows[0];
+    if (!mfa) {
+      return false;
+    }
+
+    const step = verifyTotp(this.decryptSecret(mfa.secret_encrypted), code, { now });
+    if (step === null) {
+      return false;
+    }
+
+    const update = await db.query(
+      `UPDATE user_mfa SET last_used_step = $2
+       WHERE user_id = $1 AND (last_used_step IS NULL OR last_used_step < $2)`,
+      [userId, step]
+    );
+
+    return (update.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Consume a recovery code
+   */
+  static async useRecoveryCode(userId: number, code: string): Promise<boolean> {
+    const result = await db.query(
+      `UPDATE mfa_recovery_codes
+       SET used_at = CURRENT_TIMESTAMP
+       WHERE id = (
+         SELECT id FROM mfa_recovery_codes
+         WHERE user_id = $1 AND code_hash = $2 AND used_at IS NULL
+         LIMIT 1
+       ) AND used_at IS NULL`,
+      [userId, this.hashRecoveryCode(code)]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Verify the second factor, accepting either a TOTP code or a recovery code
+   * @returns The method that succeeded, or null
+   */
+  static async verifySecondFactor(
+    userId: number,
+    factor: { code?: string; recoveryCode?: string },
+    now: number = Date.now()
+  ): Promise<SecondFactorMethod | null> {
+    if (factor.code && await this.verifyCode(userId, factor.code, now)) {
+      return 'totp';
+    }
+
+    if (factor.recoveryCode && await this.useRecoveryCode(userId, factor.recoveryCode)) {
+      return 'recovery_code';
+    }
+
+    return null;
+  }
+
+  /**
+   * Replace all recovery codes (requires a valid TOTP code)
+   * Throws NOT_ENABLED or INVALID_CODE
+   */
+  static async regenerateRecoveryCodes(userId: number, code: string, now: number = Date.now()): Promise<string[]> {
+    if (!(await this.isEnabled(userId))) {
+      throw new Error('NOT_ENABLED');
+    }
+
+    if (!(await this.verifyCode(userId, code, now))) {
+      throw new Error('INVALID_CODE');
+    }
+
+    const client = await db.getClient();
+
+    try {
+      await client.query('BEGIN');
+      const codes = await this.replaceRecoveryCodes(client, userId);
+      await client.query('COMMIT');
+      return codes;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Turn off 2FA for the user (requires a valid TOTP or recovery code)
+   * Throws MFA_REQUIRED_BY_POLICY, NOT_ENABLED or INVALID_CODE
+   */
+  static async disable(
+    userId: number,
+    role: string,
+    factor: { code?: string; recoveryCode?: string },
+    now: number = Date.now()
+  ): Promise<void> {
+    if (await this.isRequiredForRole(role)) {
+      throw new Error('MFA_REQUIRED_BY_POLICY');
+    }
+
+    if (!(await this.isEnabled(userId))) {
+      throw new Error('NOT_ENABLED');
+    }
+
+    if (!(await this.verifySecondFactor(userId, factor, now))) {
+      throw new Error('INVALID_CODE');
+    }
+
+    await this.reset(userId);
+  }
+
+  /**
+   * Remove all 2FA data of a user (admin reset, e.g. lost device and recovery codes)
+   * @returns true if the user had 2FA set up
+   */
+  static async reset(userId: number): Promise<boolean> {
+    await db.query('DELETE FROM mfa_recovery_codes WHERE user_id = $1', [userId]);
+    const result = await db.query('DELETE FROM user_mfa WHERE user_id = $1', [userId]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Check whether 2FA is mandatory for a role
+   */
+  static async isRequiredForRole(role: string): Promise<boolean> {
+    const result = await db.query(
+      'SELECT required FROM mfa_role_policies WHERE role = $1',
+      [role]
+    );
+    return !!result.rows[0]?.required;
+  }
+
+  /**
+   * List the 2FA policy of every role (roles without a row are not required)
+   */
+  static async listPolicies(): Promise<MfaRolePolicy[]> {
+    const result = await db.query('SELECT role, required, updated_by, updated_at FROM mfa_role_policies');
+    const byRole = new Map(result.rows.map(row => [row.role, row]));
+
+    return USER_ROLES.map(role => byRole.get(role) || {
+      role,
+      required: false,
+      updated_by: null,
+      updated_at: null
+    });
+  }
+
+  /**
+   * Require (or stop requiring) 2FA for a role
+   */
+  static async setPolicy(role: UserRole, required: boolean, adminId: number): Promise<MfaRolePolicy> {
+    const result = await db.query(
+      `INSERT INTO mfa_role_policies (role, required, updated_by, updated_at)
+       VALUES ($1, $2, $3, CURRENT_TIMESTAMP)
+       ON CONFLICT (role) DO UPDATE
+       SET required = EXCLUDED.required, updated_by = EXCLUDED.updated_by, updated_at = EXCLUDED.updated_at
+       RETURNING role, required, updated_by, updated_at`,
+      [role, required, adminId]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Delete existing recovery codes and insert a new set within the caller's transaction
+   */
+  private static async replaceRecoveryCodes(client: PoolClient, userId: number): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => this.generateRecoveryCode());
+
+    await client.query('DELETE FROM mfa_recovery_codes WHERE user_id = $1', [userId]);
+
+    for (const code of codes) {
+      await client.query(
+        'INSERT INTO mfa_recovery_codes (user_id, code_hash) VALUES ($1, $2)',
+        [userId, this.hashRecoveryCode(code)]
+      );
+    }
+
+    return codes;
+  }
+
+  /**
+   * Recovery codes look like "k7f3q-9xw2m" (about 50 bits of entropy)
+   */
+  private static generateRecoveryCode(): string {
+    const alphabet = 'abcdefghjkmnpqrstuvwxyz23456789';
+    const bytes = crypto.randomBytes(10);
+    const chars = Array.from(bytes, byte => alphabet[byte % alphabet.length]).join('');
+    return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+  }
+
+  /**
+   * Codes are compared case-insensitively and without the dash
+   */
+  private static hashRecoveryCode(code: string): string {
+    const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, '');
+    return crypto.createHash('sha256').update(normalized).digest('hex');
+  }
+
+  private static encryptionKey(): Buffer {
+    return crypto.createHash('sha256').update(config.mfaEncryptionKey).digest();
+  }
+
+  private static encryptSecret(secret: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.encryptionKey(), iv);
+    const encrypted = Buffer.concat([cipher.update(secret, 'utf8'), cipher.final()]);
+    return ['v1', iv.toString('base64url'), cipher.getAuthTag().toString('base64url'), encrypted.toString('base64url')].join(':');
+  }
+
+  private static decryptSecret(payload: string): string {
+    const [, iv, tag, encrypted] = payload.split(':');
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.encryptionKey(), Buffer.from(iv, 'base64url'));
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+    return Buffer.concat([decipher.update(Buffer.from(encrypted, 'base64url')), decipher.final()]).toString('utf8');
+  }
+}
@@ -0,0 +1,336 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { db } from '../db';
+import { config } from '../config';
+
+/**
+ * OpenID Connect single sign-on (authorization code flow with PKCE)
+ *
+ * beginLogin() stores a state row holding the PKCE verifier and nonce and
+ * returns the provider's authorization URL. completeLogin() consumes the state,
+ * exchanges the code, verifies the ID token against the provider's JWKS and
+ * resolves the local user:
+ * 1. An identity already linked by (provider, subject)
+ * 2. An existing user with the same email, if the provider marks it verified
+ * 3. A new user with the configured default role (just-in-time provisioning)
+ */
+
+const STATE_TTL_SECONDS = 10 * 60;
+const METADATA_CACHE_SECONDS = 60 * 60;
+const ID_TOKEN_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'ES256', 'ES384', 'PS256'];
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface IdTokenClaims {
+  sub: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+  nonce?: string;
+}
+
+export interface OidcUser {
+  id: number;
+  email: string;
+  name: string;
+  role: string;
+  created_at: Date;
+  email_verified_at: Date | null;
+}
+
+export interface OidcLoginResult {
+  user: OidcUser;
+  linked: boolean; // Identity was linked to an existing account during this login
+  provisioned: boolean; // Account was created during this login
+}
+
+let metadataCache: { metadata: ProviderMetadata; fetchedAt: number } | null = null;
+let jwksCache: { keys: any[]; fetchedAt: number } | null = null;
+
+export class OidcService {
+  /**
+   * Start a login: store state, nonce and PKCE verifier and build the authorization URL
+   */
+  static async beginLogin(): Promise<{ authorizationUrl: string; state: string; expiresIn: number }> {
+    const metadata = await this.getMetadata();
+
+    const state = this.randomToken();
+    const nonce = this.randomToken();
+    const codeVerifier = this.randomToken(48);
+    const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+
+    // Opportunistic cleanup of abandoned logins
+    await db.query('DELETE FROM oidc_login_states WHERE expires_at < CURRENT_TIMESTAMP');
+
+    await db.query(
+      `INSERT INTO oidc_login_states (state, code_verifier, nonce, expires_at)
+       VALUES ($1, $2, $3, CURRENT_TIMESTAMP + make_interval(secs => $4))`,
+      [state, codeVerifier, nonce, STATE_TTL_SECONDS]
+    );
+
+    const params = new URLSearchParams({
+      response_type: 'code',
+      client_id: config.oidcClientId,
+      redirect_uri: config.oidcRedirectUri,
+      scope: config.oidcScopes,
+      state,
+      nonce,
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256'
+    });
+
+    return {
+      authorizationUrl: `${metadata.authorization_endpoint}?${params.toString()}`,
+      state,
+      expiresIn: STATE_TTL_SECONDS
+    };
+  }
+
+  /**
+   * Finish a login with the code and state returned by the provider
+   * Throws INVALID_STATE, TOKEN_EXCHANGE_FAILED, INVALID_ID_TOKEN, EMAIL_NOT_VERIFIED or ACCOUNT_NOT_FOUND
+   */
+  static async completeLogin(code: string, state: string): Promise<OidcLoginResult> {
+    // Single use: the row is deleted whether or not the rest succeeds
+    const stateResult = await db.query(
+      `DELETE FROM oidc_login_states
+       WHERE state = $1
+       RETURNING code_verifier, nonce, expires_at > CURRENT_TIMESTAMP as valid`,
+      [state]
+    );
+    const pending = stateResult.rows[0];
+
+    if (!pending || !pending.valid) {
+      throw new Error('INVALID_STATE');
+    }
+
+    const idToken = await this.exchangeCode(code, pending.code_verifier);
+    const claims = await this.verifyIdToken(idToken, pending.nonce);
+
+    return this.resolveUser(claims);
+  }
+
+  /**
+   * Find, link or provision the local user for verified ID token claims
+   */
+  private static async resolveUser(claims: IdTokenClaims): Promise<OidcLoginResult> {
+    const provider = config.oidcProviderName;
+    const email = claims.email ? claims.email.trim().toLowerCase() : null;
+    const emailVerified = claims.email_verified === true || claims.email_verified === 'true';
+
+    const client = await db.getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      const linked = await client.query(
+        `SELECT u.id, u.email, u.name, u.role, u.created_at, u.email_verified_at
+         FROM user_identities i
+         JOIN users u ON i.user_id = u.id
+         WHERE i.provider = $1 AND i.subject = $2`,
+        [provider, claims.sub]
+      );
+
+      if (linked.rows[0]) {
+        await client.query(
+          `UPDATE user_identities SET last_login_at = CURRENT_TIMESTAMP, email = COALESCE($3, email)
+           WHERE provider = $1 AND subject = $2`,
+          [provider, claims.sub, email]
+        );
+        await client.query('COMMIT');
+        return { user: linked.rows[0], linked: false, provisioned: false };
+      }
+
+      // Linking or creating an account by email is only safe if the provider vouches for it
+      if (!email || !emailVerified) {
+        throw new Error('EMAIL_NOT_VERIFIED');
+      }
+
+      const existing = await client.query(
+        `SELECT id, email, name, role, created_at, email_verified_at
+         FROM users WHERE email = $1
+         FOR UPDATE`,
+        [email]
+      );
+
+      let user: OidcUser;
+      let provisioned = false;
+
+      if (existing.rows[0]) {
+        const updated = await client.query(
+          `UPDATE users SET email_verified_at = COALESCE(email_verified_at, CURRENT_TIMESTAMP)
+           WHERE id = $1
+           RETURNING id, email, name, role, created_at, email_verified_at`,
+          [existing.rows[0].id]
+        );
+        user = updated.rows[0];
+      } else {
+        if (!config.oidcAutoProvision) {
+          throw new Error('ACCOUNT_NOT_FOUND');
+        }
+
+        const name = (claims.name || '').trim() || email.split('@')[0];
+        const created = await client.query(
+          `INSERT INTO users (email, password_hash, name, role, email_verified_at)
+           VALUES ($1, NULL, $2, $3, CURRENT_TIMESTAMP)
+           RETURNING id, email, name, role, created_at, email_verified_at`,
+          [email, name.slice(0, 255), config.oidcDefaultRole]
+        );
+        user = created.rows[0];
+        provisioned = true;
+      }
+
+      await client.query(
+        `INSERT INTO user_identities (user_id, provider, subject, email, last_login_at)
+         VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP)`,
+        [user.id, provider, claims.sub, email]
+      );
+
+      await client.query('COMMIT');
+      return { user, linked: !provisioned, provisioned };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Exchange the authorization code (and PKCE verifier) for tokens
+   * @returns The ID token
+   */
+  private static async exchangeCode(code: string, codeVerifier: string): Promise<string> {
+    const metadata = await this.getMetadata();
+
+    const body = new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: config.oidcRedirectUri,
+      client_id: config.oidcClientId,
+      code_verifier: codeVerifier
+    });
+    if (config.oidcClientSecret) {
+      body.set('client_secret', config.oidcClientSecret);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(metadata.token_endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/x-www-form-urlencoded',
+          Accept: 'application/json'
+        },
+        body: body.toString()
+      });
+    } catch (error) {
+      console.error('OIDC token request failed:', error);
+      throw new Error('TOKEN_EXCHANGE_FAILED');
+    }
+
+    const payload: any = await response.json().catch(() => null);
+    if (!response.ok || !payload || typeof payload.id_token !== 'string') {
+      console.warn(`OIDC token exchange rejected (${response.status}):`, payload?.error || 'no id_token');
+      throw new Error('TOKEN_EXCHANGE_FAILED');
+    }
+
+    return payload.id_token;
+  }
+
+  /**
+   * Verify signature, issuer, audience, expiry and nonce of an ID token
+   */
+  private static async verifyIdToken(idToken: string, nonce: string): Promise<IdTokenClaims> {
+    const decoded = jwt.decode(idToken, { complete: true });
+    if (!decoded || typeof decoded.payload === 'string') {
+      throw new Error('INVALID_ID_TOKEN');
+    }
+
+    const metadata = await this.getMetadata();
+    const jwk = await this.findSigningKey(decoded.header.kid);
+    if (!jwk) {
+      throw new Error('INVALID_ID_TOKEN');
+    }
+
+    let claims: IdTokenClaims;
+    try {
+      claims = jwt.verify(idToken, crypto.createPublicKey({ key: jwk, format: 'jwk' }), {
+        algorithms: ID_TOKEN_ALGORITHMS,
+        issuer: metadata.issuer,
+        audience: config.oidcClientId,
+        clockTolerance: 30
+      }) as IdTokenClaims;
+    } catch (error) {
+      console.warn('OIDC ID token rejected:', error instanceof Error ? error.message : error);
+      throw new Error('INVALID_ID_TOKEN');
+    }
+
+    if (!claims.sub || claims.nonce !== nonce) {
+      throw new Error('INVALID_ID_TOKEN');
+    }
+
+    return claims;
+  }
+
+  /**
+   * Find the JWK for a key ID, refetching the key set once for unknown IDs (key rotation)
+   */
+  private static async findSigningKey(kid: string | undefined): Promise<any | null> {
+    const match = (keys: any[]) =>
+      keys.find(key => (key.use === undefined || key.use === 'sig') && (!kid || key.kid === kid)) || null;
+
+    const cached = jwksCache && Date.now() - jwksCache.fetchedAt < METADATA_CACHE_SECONDS * 1000
+      ? match(jwksCache.keys)
+      : null;
+    if (cached) {
+      return cached;
+    }
+
+    const metadata = await this.getMetadata();
+    const jwks: any = await this.fetchJson(metadata.jwks_uri);
+    jwksCache = { keys: Array.isArray(jwks?.keys) ? jwks.keys : [], fetchedAt: Date.now() };
+
+    return match(jwksCache.keys);
+  }
+
+  /**
+   * Provider discovery document (cached)
+   */
+  private static async getMetadata(): Promise<ProviderMetadata> {
+    if (metadataCache && Date.now() - metadataCache.fetchedAt < METADATA_CACHE_SECONDS * 1000) {
+      return metadataCache.metadata;
+    }
+
+    const metadata = await this.fetchJson(`${config.oidcIssuer}/.well-known/openid-configuration`) as ProviderMetadata;
+
+    if (!metadata?.authorization_endpoint || !metadata.token_endpoint || !metadata.jwks_uri) {
+      throw new Error('PROVIDER_UNAVAILABLE');
+    }
+
+    metadataCache = { metadata, fetchedAt: Date.now() };
+    return metadata;
+  }
+
+  private static async fetchJson(url: string): Promise<unknown> {
+    try {
+      const response = await fetch(url, { headers: { Accept: 'application/json' } });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      return await response.json();
+    } catch (error) {
+      console.error(`OIDC request to ${url} failed:`, error instanceof Error ? error.message : error);
+      throw new Error('PROVIDER_UNAVAILABLE');
+    }
+  }
+
+  private static randomToken(bytes = 32): string {
+    return crypto.randomBytes(bytes).toString('base64url');
+  }
+}
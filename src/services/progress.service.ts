@@ -1,4 +1,8 @@
 import { db } from '../db';
+import { config } from '../config';
+import { can } from '../modules/permissions/policy';
+import { LessonReleaseService } from './lesson-release.service';
+import { Interval, watchedBetween, mergeInterval, watchedSeconds, dropOffCurve } from '../utils/watch-intervals';
 
 export interface LessonProgress {
   id: number;
@@ -10,14 +14,25 @@ export interface LessonProgress {
   updated_at: Date;
 }
 
+export interface ModuleProgress {
+  moduleId: number;
+  title: string;
+  position: number;
+  lessonsCompleted: number;
+  totalLessons: number;
+  percent: number;
+}
+
 export interface ProgressSummary {
   lessonsCompleted: number;
   totalLessons: number;
   percent: number;
+  modules: ModuleProgress[];
   lessons: {
     lessonId: number;
+    moduleId?: number;
     lessonTitle?: string;
-    position?: number;
+    position?: number; // Within the module
     completed: boolean;
     completed_at: Date | null;
   }[];
@@ -34,10 +49,46 @@ export interface StudentProgress {
   percent: number;
 }
 
+export interface VideoHeartbeat {
+  position: number; // Seconds into the video
+  duration: number; // Seconds
+  playbackRate: number;
+}
+
+export interface WatchProgress {
+  enrollmentId: number;
+  lessonId: number;
+  durationSeconds: number;
+  watchedSeconds: number;
+  watchedPercent: number;
+  lastPosition: number;
+  completed: boolean;
+  autoCompleted: boolean; // This heartbeat completed the lesson
+}
+
+export interface LessonWatchAnalytics {
+  lessonId: number;
+  lessonTitle: string;
+  moduleId: number;
+  durationSeconds: number; // Longest duration reported by players, 0 before anyone watched
+  viewers: number;
+  averageWatchedPercent: number;
+  viewersReachingThreshold: number;
+  dropOff: { fromSeconds: number; toSeconds: number; viewers: number; percent: number }[];
+}
+
+// Number of segments in a drop-off curve
+const DROP_OFF_BUCKETS = 20;
+
+function roundTenth(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
 export class ProgressService {
   /**
    * Mark a lesson as complete or incomplete for an enrollment
    * Idempotent operation - can be called multiple times
+   * Locked lessons cannot be completed; the error carries the lock reasons
    */
   async markLessonProgress(
     userId: number,
@@ -72,6 +123,13 @@ export class ProgressService {
       throw new Error('Lesson not found in this course');
     }
 
+    if (completed) {
+      const reasons = await LessonReleaseService.getLockReasons(enrollment.rows[0].course_id, lessonId, userId);
+      if (reasons.length > 0) {
+        throw Object.assign(new Error('Lesson is locked'), { reasons });
+      }
+    }
+
     // Check if progress record exists
     const existingProgress = await db.query(
       'SELECT * FROM lesson_progress WHERE enrollment_id = $1 AND lesson_id = $2',
@@ -122,6 +180,139 @@ export class ProgressService {
     return result.rows[0];
   }
 
+  /**
+   * Record a video player heartbeat for an enrollment
+   * The stretch since the previous heartbeat is added to the watched intervals
+   * when playback was continuous (see utils/watch-intervals). Once the distinct
+   * watched share reaches VIDEO_COMPLETION_THRESHOLD the lesson is completed,
+   * unless release rules lock it.
+   */
+  async recordHeartbeat(
+    userId: number,
+    enrollmentId: number,
+    lessonId: number,
+    heartbeat: VideoHeartbeat
+  ): Promise<WatchProgress> {
+    const enrollment = await db.query('SELECT user_id, course_id FROM enrollments WHERE id = $1', [enrollmentId]);
+
+    if (!enrollment.rows[0]) {
+      throw new Error('Enrollment not found');
+    }
+
+    if (enrollment.rows[0].user_id !== userId) {
+      throw new Error('You can only mark progress for your own enrollments');
+    }
+
+    const lesson = await db.query(
+      'SELECT video_url FROM lessons WHERE id = $1 AND course_id = $2',
+      [lessonId, enrollment.rows[0].course_id]
+    );
+
+    if (!lesson.rows[0]) {
+      throw new Error('Lesson not found in this course');
+    }
+
+    if (!lesson.rows[0].video_url) {
+      throw new Error('Lesson has no video');
+    }
+
+    const now = new Date();
+    const client = await db.getClient();
+    let watch: { duration: number; watched: number; position: number };
+
+    try {
+      await client.query('BEGIN');
+
+      // The first heartbeat only sets the starting point
+      await client.query(
+        `INSERT INTO lesson_watch_progress (enrollment_id, lesson_id, duration_seconds, last_position, last_heartbeat_at)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (enrollment_id, lesson_id) DO NOTHING`,
+        [enrollmentId, lessonId, heartbeat.duration, heartbeat.position, now]
+      );
+
+      const current = await client.query(
+        `SELECT duration_seconds, watched_intervals, last_position, last_heartbeat_at
+         FROM lesson_watch_progress
+         WHERE enrollment_id = $1 AND lesson_id = $2
+         FOR UPDATE`,
+        [enrollmentId, lessonId]
+      );
+      const row = current.rows[0];
+
+      let intervals: Interval[] = row.watched_intervals;
+      const watched = watchedBetween(
+        { position: parseFloat(row.last_position), at: row.last_heartbeat_at },
+        { position: heartbeat.position, playbackRate: heartbeat.playbackRate, at: now },
+        config.videoHeartbeatMaxGapSeconds
+      );
+      if (watched) {
+        intervals = mergeInterval(intervals, [roundTenth(watched[0]), roundTenth(watched[1])]);
+      }
+
+      // The longest duration reported so far, so a player cannot shrink it to reach the threshold early
+      const duration = Math.max(parseFloat(row.duration_seconds), heartbeat.duration);
+
+      watch = {
+        duration,
+        watched: roundTenth(watchedSeconds(intervals, duration)),
+        position: heartbeat.position
+      };
+
+      await client.query(
+        `UPDATE lesson_watch_progress
+         SET duration_seconds = $1, watched_intervals = $2, watched_seconds = $3, last_position = $4,
+             last_playback_rate = $5, last_heartbeat_at = $6, heartbeat_count = heartbeat_count + 1,
+             updated_at = CURRENT_TIMESTAMP
+         WHERE enrollment_id = $7 AND lesson_id = $8`,
+        [
+          watch.duration, JSON.stringify(intervals), watch.watched, watch.position,
+          heartbeat.playbackRate, now, enrollmentId, lessonId
+        ]
+      );
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    const watchedShare = (watch.watched / watch.duration) * 100;
+
+    const progress = await db.query(
+      'SELECT completed FROM lesson_progress WHERE enrollment_id = $1 AND lesson_id = $2',
+      [enrollmentId, lessonId]
+    );
+    let completed = progress.rows[0]?.completed === true;
+    let autoCompleted = false;
+
+    if (!completed && watchedShare >= config.videoCompletionThresholdPercent) {
+      try {
+        await this.markLessonProgress(userId, enrollmentId, lessonId, true);
+        completed = true;
+        autoCompleted = true;
+      } catch (error) {
+        // Watch time keeps accruing; the lesson completes on a heartbeat after it unlocks
+        if (!(error instanceof Error && error.message === 'Lesson is locked')) {
+          throw error;
+        }
+      }
+    }
+
+    return {
+      enrollmentId,
+      lessonId,
+      durationSeconds: watch.duration,
+      watchedSeconds: watch.watched,
+      watchedPercent: Math.min(100, Math.round(watchedShare)),
+      lastPosition: watch.position,
+      completed,
+      autoCompleted
+    };
+  }
+
   /**
    * Get user's progress for a specific course
    */
@@ -144,29 +335,33 @@ export class ProgressService {
         lessonsCompleted: 0,
         totalLessons,
         percent: 0,
+        modules: await this.getModuleProgress(courseId, null),
         lessons: []
       };
     }
 
     const enrollmentId = enrollment.rows[0].id;
 
-    // Get all lessons for the course with progress status
+    // Get all lessons for the course with progress status, in course order
     const lessonsWithProgress = await db.query(
       `SELECT 
         l.id as lesson_id,
+        l.module_id,
         l.title as lesson_title,
         l.position,
         COALESCE(lp.completed, false) as completed,
         lp.completed_at
        FROM lessons l
+       JOIN course_modules m ON l.module_id = m.id
        LEFT JOIN lesson_progress lp ON l.id = lp.lesson_id AND lp.enrollment_id = $1
        WHERE l.course_id = $2
-       ORDER BY l.position`,
+       ORDER BY m.position, l.position`,
       [enrollmentId, courseId]
     );
 
     const lessons = lessonsWithProgress.rows.map(row => ({
       lessonId: row.lesson_id,
+      moduleId: row.module_id,
       lessonTitle: row.lesson_title,
       position: row.position,
       completed: row.completed,
@@ -181,13 +376,50 @@ export class ProgressService {
       lessonsCompleted,
       totalLessons,
       percent,
+      modules: await this.getModuleProgress(courseId, enrollmentId),
       lessons
     };
   }
 
+  /**
+   * Roll up lesson completion per module, in module order
+   * With no enrollment every module reports zero completed lessons.
+   */
+  private async getModuleProgress(courseId: number, enrollmentId: number | null): Promise<ModuleProgress[]> {
+    const result = await db.query(
+      `SELECT 
+        m.id as module_id,
+        m.title,
+        m.position,
+        COUNT(l.id) as total_lessons,
+        COUNT(CASE WHEN lp.completed = true THEN 1 END) as completed_count
+       FROM course_modules m
+       LEFT JOIN lessons l ON l.module_id = m.id
+       LEFT JOIN lesson_progress lp ON l.id = lp.lesson_id AND lp.enrollment_id = $2
+       WHERE m.course_id = $1
+       GROUP BY m.id, m.title, m.position
+       ORDER BY m.position`,
+      [courseId, enrollmentId]
+    );
+
+    return result.rows.map(row => {
+      const totalLessons = parseInt(row.total_lessons);
+      const lessonsCompleted = parseInt(row.completed_count);
+
+      return {
+        moduleId: row.module_id,
+        title: row.title,
+        position: row.position,
+        lessonsCompleted,
+        totalLessons,
+        percent: totalLessons > 0 ? Math.round((lessonsCompleted / totalLessons) * 100) : 0
+      };
+    });
+  }
+
   /**
    * Get aggregated progress for all students in a course
-   * Only accessible by course instructor or admin
+   * Requires progress.view_course on the course
    */
   async getCourseProgress(courseId: number, requesterId: number, role: string): Promise<StudentProgress[]> {
     // Check if requester can view course progress
@@ -201,7 +433,7 @@ export class ProgressService {
     }
 
     // Check permissions
-    if (role !== 'admin' && course.rows[0].instructor_id !== requesterId) {
+    if (!(await can({ id: requesterId, role }, 'progress.view_course', { course: course.rows[0] }))) {
       throw new Error('You can only view progress for your own courses');
     }
 
@@ -241,6 +473,58 @@ export class ProgressService {
     }));
   }
 
+  /**
+   * Watch-time analytics for each video lesson of a course, in course order
+   * Requires progress.view_course on the course
+   */
+  async getCourseWatchAnalytics(courseId: number, requesterId: number, role: string): Promise<LessonWatchAnalytics[]> {
+    const course = await db.query('SELECT * FROM courses WHERE id = $1', [courseId]);
+
+    if (!course.rows[0]) {
+      throw new Error('Course not found');
+    }
+
+    if (!(await can({ id: requesterId, role }, 'progress.view_course', { course: course.rows[0] }))) {
+      throw new Error('You can only view progress for your own courses');
+    }
+
+    const lessons = await db.query(
+      `SELECT l.id, l.title, l.module_id
+       FROM lessons l
+       JOIN course_modules m ON l.module_id = m.id
+       WHERE l.course_id = $1 AND l.video_url IS NOT NULL AND l.video_url <> ''
+       ORDER BY m.position, l.position`,
+      [courseId]
+    );
+
+    const watches = await db.query(
+      `SELECT w.lesson_id, w.duration_seconds, w.watched_seconds, w.watched_intervals
+       FROM lesson_watch_progress w
+       JOIN lessons l ON w.lesson_id = l.id
+       WHERE l.course_id = $1`,
+      [courseId]
+    );
+
+    return lessons.rows.map(lesson => {
+      const rows = watches.rows.filter(row => row.lesson_id === lesson.id);
+      const durationSeconds = rows.reduce((max, row) => Math.max(max, parseFloat(row.duration_seconds)), 0);
+      const percents = rows.map(row => Math.min(100, (parseFloat(row.watched_seconds) / parseFloat(row.duration_seconds)) * 100));
+
+      return {
+        lessonId: lesson.id,
+        lessonTitle: lesson.title,
+        moduleId: lesson.module_id,
+        durationSeconds,
+        viewers: rows.length,
+        averageWatchedPercent: percents.length > 0
+          ? Math.round(percents.reduce((sum, percent) => sum + percent, 0) / percents.length)
+          : 0,
+        viewersReachingThreshold: percents.filter(percent => percent >= config.videoCompletionThresholdPercent).length,
+        dropOff: dropOffCurve(rows.map(row => row.watched_intervals), durationSeconds, DROP_OFF_BUCKETS)
+      };
+    });
+  }
+
   /**
    * Check if a user has completed all lessons in a course
    * Useful for certificate eligibility
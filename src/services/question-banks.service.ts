@@ -0,0 +1,287 @@
+import { db } from '../db';
+import { QuestionDefinition, QuestionDifficulty, toDefinition } from '../utils/quiz-grading';
+import { QuestionData, QuestionUpdates, storedDefinition, updatedDefinition } from './quizzes.service';
+
+/**
+ * Question banks: reusable questions of a course, tagged by topic and
+ * difficulty, that quizzes draw from at random for each attempt
+ *
+ * Bank questions share the quiz question ID sequence, so an attempt can hold
+ * both kinds with answers keyed by question ID. Attempts keep a copy of the
+ * questions they drew; editing or deleting bank questions does not change them.
+ */
+
+export interface QuestionBank {
+  id: number;
+  course_id: number;
+  title: string;
+  description: string | null;
+  question_count: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * A bank question with its type-specific fields next to the common ones,
+ * as quiz questions are returned
+ */
+export type BankQuestion = {
+  id: number;
+  bank_id: number;
+  prompt: string;
+  points: number;
+  topic: string | null;
+  difficulty: QuestionDifficulty | null;
+  created_at: Date;
+} & QuestionDefinition;
+
+export interface BankQuestionTags {
+  topic?: string | null;
+  difficulty?: QuestionDifficulty | null;
+}
+
+export interface BankQuestionFilters {
+  topic?: string;
+  difficulty?: QuestionDifficulty;
+}
+
+/**
+ * BANK_IN_USE, with the titles of the quizzes that draw from the bank
+ */
+export class BankInUseError extends Error {
+  constructor(readonly quizzes: string[]) {
+    super('BANK_IN_USE');
+    this.name = 'BankInUseError';
+  }
+}
+
+// Fields every bank question has; anything else in an update is type-specific
+const COMMON_FIELDS = ['prompt', 'points', 'topic', 'difficulty'];
+
+function toBankQuestion(row: any): BankQuestion {
+  return {
+    id: row.id,
+    bank_id: row.bank_id,
+    prompt: row.prompt,
+    type: row.type,
+    points: parseFloat(row.points),
+    topic: row.topic,
+    difficulty: row.difficulty,
+    ...row.definition,
+    created_at: row.created_at
+  };
+}
+
+export class QuestionBanksService {
+  /**
+   * List a course's banks with their question counts
+   */
+  static async listBanks(courseId: number): Promise<QuestionBank[]> {
+    const result = await db.query(
+      `SELECT b.*, (SELECT COUNT(*) FROM bank_questions q WHERE q.bank_id = b.id)::int as question_count
+       FROM question_banks b
+       WHERE b.course_id = $1
+       ORDER BY b.title, b.id`,
+      [courseId]
+    );
+
+    return result.rows;
+  }
+
+  /**
+   * Get a bank by ID
+   */
+  static async getBankById(bankId: number): Promise<QuestionBank | null> {
+    const result = await db.query(
+      `SELECT b.*, (SELECT COUNT(*) FROM bank_questions q WHERE q.bank_id = b.id)::int as question_count
+       FROM question_banks b
+       WHERE b.id = $1`,
+      [bankId]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Create a bank
+   */
+  static async createBank(courseId: number, title: string, description: string | null): Promise<QuestionBank> {
+    const result = await db.query(
+      `INSERT INTO question_banks (course_id, title, description)
+       VALUES ($1, $2, $3)
+       RETURNING *, 0 as question_count`,
+      [courseId, title, description]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Rename a bank or change its description
+   * Throws NOT_FOUND
+   */
+  static async updateBank(bankId: number, data: { title?: string; description?: string | null }): Promise<QuestionBank> {
+    const result = await db.query(
+      `UPDATE question_banks
+       SET title = COALESCE($1, title),
+           description = CASE WHEN $2 THEN $3 ELSE description END,
+           updated_at = CURRENT_TIMESTAMP
+       WHERE id = $4
+       RETURNING id`,
+      [data.title ?? null, data.description !== undefined, data.description ?? null, bankId]
+    );
+
+    if (result.rows.length === 0) {
+      throw new Error('NOT_FOUND');
+    }
+
+    return (await this.getBankById(bankId))!;
+  }
+
+  /**
+   * Delete a bank and its questions
+   * Throws NOT_FOUND, or BANK_IN_USE with the titles of the quizzes drawing from it
+   */
+  static async deleteBank(bankId: number): Promise<void> {
+    const client = await db.getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      const bank = await client.query('SELECT id FROM question_banks WHERE id = $1 FOR UPDATE', [bankId]);
+      if (bank.rows.length === 0) {
+        throw new Error('NOT_FOUND');
+      }
+
+      const quizzes = await client.query(
+        `SELECT DISTINCT q.title FROM quiz_question_draws d
+         JOIN quizzes q ON q.id = d.quiz_id
+         WHERE d.bank_id = $1
+         ORDER BY q.title`,
+        [bankId]
+      );
+      if (quizzes.rows.length > 0) {
+        throw new BankInUseError(quizzes.rows.map(row => row.title));
+      }
+
+      await client.query('DELETE FROM question_banks WHERE id = $1', [bankId]);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * List the questions of a bank in order, optionally of one topic and difficulty
+   */
+  static async listQuestions(bankId: number, filters: BankQuestionFilters = {}): Promise<BankQuestion[]> {
+    const result = await db.query(
+      `SELECT * FROM bank_questions
+       WHERE bank_id = $1
+         AND ($2::text IS NULL OR lower(topic) = lower($2))
+         AND ($3::text IS NULL OR difficulty = $3)
+       ORDER BY created_at, id`,
+      [bankId, filters.topic ?? null, filters.difficulty ?? null]
+    );
+
+    return result.rows.map(toBankQuestion);
+  }
+
+  /**
+   * Add a question of any type to a bank
+   */
+  static async createQuestion(bankId: number, data: QuestionData & BankQuestionTags): Promise<BankQuestion> {
+    const result = await db.query(
+      `INSERT INTO bank_questions (bank_id, prompt, type, points, definition, topic, difficulty)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING *`,
+      [
+        bankId,
+        data.prompt,
+        data.definition.type,
+        data.points ?? 1,
+        storedDefinition(data.definition),
+        data.topic?.trim() ?? null,
+        data.difficulty ?? null
+      ]
+    );
+
+    return toBankQuestion(result.rows[0]);
+  }
+
+  /**
+   * Update a bank question; type-specific fields work as for quiz questions
+   * Throws NOT_FOUND, or INVALID_QUESTION with details
+   */
+  static async updateQuestion(bankId: number, questionId: number, updates: QuestionUpdates & BankQuestionTags): Promise<BankQuestion> {
+    const questionResult = await db.query(
+      'SELECT * FROM bank_questions WHERE id = $1 AND bank_id = $2',
+      [questionId, bankId]
+    );
+
+    if (questionResult.rows.length === 0) {
+      throw new Error('NOT_FOUND');
+    }
+
+    const updateFields: string[] = [];
+    const values: any[] = [];
+    let paramCount = 1;
+
+    if (updates.prompt !== undefined) {
+      updateFields.push(`prompt = $${paramCount++}`);
+      values.push(updates.prompt);
+    }
+
+    if (updates.points !== undefined) {
+      updateFields.push(`points = $${paramCount++}`);
+      values.push(updates.points);
+    }
+
+    if (updates.topic !== undefined) {
+      updateFields.push(`topic = $${paramCount++}`);
+      values.push(updates.topic?.trim() ?? null);
+    }
+
+    if (updates.difficulty !== undefined) {
+      updateFields.push(`difficulty = $${paramCount++}`);
+      values.push(updates.difficulty);
+    }
+
+    if (Object.keys(updates).some(field => !COMMON_FIELDS.includes(field))) {
+      const current = questionResult.rows[0];
+      const definition = updatedDefinition(toDefinition(current.type, current.definition), updates);
+      updateFields.push(`type = $${paramCount++}`, `definition = $${paramCount++}`);
+      values.push(definition.type, storedDefinition(definition));
+    }
+
+    if (updateFields.length === 0) {
+      return toBankQuestion(questionResult.rows[0]);
+    }
+
+    values.push(questionId);
+    const result = await db.query(
+      `UPDATE bank_questions SET ${updateFields.join(', ')} WHERE id = $${paramCount} RETURNING *`,
+      values
+    );
+
+    return toBankQuestion(result.rows[0]);
+  }
+
+  /**
+   * Delete a bank question; attempts that drew it keep their copy
+   * Throws NOT_FOUND
+   */
+  static async deleteQuestion(bankId: number, questionId: number): Promise<void> {
+    const result = await db.query(
+      'DELETE FROM bank_questions WHERE id = $1 AND bank_id = $2',
+      [questionId, bankId]
+    );
+
+    if (result.rowCount === 0) {
+      throw new Error('NOT_FOUND');
+    }
+  }
+}
@@ -1,66 +1,380 @@
-import { db } from '../db';
+import crypto from 'crypto';
+import { db, PoolClient, QueryResult } from '../db';
+import { can, getCourseResource, Principal } from '../modules/permissions/policy';
+import { QuizValidator, ValidationError } from '../utils/validation';
+import {
+  QuestionDefinition,
+  QuestionDifficulty,
+  QuestionType,
+  QuizGrade,
+  ScorePolicy,
+  SnapshotQuestion,
+  countedScore,
+  gradeQuiz,
+  presentQuestions,
+  toDefinition,
+  withoutAnswerKey
+} from '../utils/quiz-grading';
+
+/**
+ * Attempt rules of a quiz; null turns a limit off
+ */
+export interface QuizSettings {
+  max_attempts: number | null;
+  time_limit_minutes: number | null;
+  pass_score: number | null; // Percentage
+  score_policy: ScorePolicy; // Which submissions make up the student's score
+  cooldown_minutes: number | null; // Wait between the end of an attempt and the next start
+  shuffle_questions: boolean; // Per student, from the attempt's seed
+  shuffle_choices: boolean;
+}
 
-export interface Quiz {
+export interface Quiz extends QuizSettings {
   id: number;
   course_id: number;
   title: string;
   created_at: Date;
 }
 
-export interface QuizQuestion {
+export interface QuizAttempt {
+  id: number;
+  started_at: Date;
+  deadline: Date | null;
+}
+
+/**
+ * Where a student stands with a quiz
+ */
+export interface AttemptStatus {
+  max_attempts: number | null;
+  attempts_used: number;
+  attempts_remaining: number | null; // null when unlimited
+  current_attempt: QuizAttempt | null; // Started and not yet submitted or expired
+  next_attempt_at: Date | null; // End of the cooldown, while it lasts
+  score: number | null; // Under the quiz's score_policy; null before any submission
+  passed: boolean | null; // null without a pass_score or a submission
+}
+
+/**
+ * A question with its type-specific fields (see utils/quiz-grading)
+ * next to the common ones
+ */
+export type QuizQuestion = {
   id: number;
   quiz_id: number;
   prompt: string;
-  choices: string[];
-  correct_index: number;
+  points: number;
   created_at: Date;
+} & QuestionDefinition;
+
+export interface QuestionData {
+  prompt: string;
+  points?: number;
+  definition: QuestionDefinition;
 }
 
+export interface QuestionUpdates {
+  prompt?: string;
+  points?: number;
+  type?: QuestionType;
+  [field: string]: unknown; // Type-specific fields
+}
+
+/**
+ * "Draw count questions from a bank", optionally of one topic and difficulty
+ */
+export interface QuizDraw {
+  id: number;
+  bank_id: number;
+  bank_title: string;
+  count: number;
+  topic: string | null;
+  difficulty: QuestionDifficulty | null;
+  available: number; // Bank questions matching the filters
+}
+
+export type QuizDrawData = Pick<QuizDraw, 'bank_id' | 'count'> & Partial<Pick<QuizDraw, 'topic' | 'difficulty'>>;
+
 export interface QuizSubmission {
   id: number;
   quiz_id: number;
   user_id: number;
-  answers: number[];
+  answers: Record<string, unknown>; // Question ID -> answer
   score: number;
   created_at: Date;
 }
 
-export interface SubmissionResult {
-  total: number;
-  correct: number;
-  score: number;
-  questions: {
-    id: number;
-    correct: boolean;
-  }[];
+/**
+ * A question of a submission as its attempt presented it, with the answer given
+ */
+export type SubmittedQuestion = Partial<QuizQuestion> & {
+  answer: unknown;
+  correct: boolean;
+  points_earned: number;
+};
+
+export type SubmissionResult = QuizGrade & {
+  passed: boolean | null;
+  attempts: AttemptStatus;
+};
+
+const SETTINGS_FIELDS: Array<keyof QuizSettings> = [
+  'max_attempts',
+  'time_limit_minutes',
+  'pass_score',
+  'score_policy',
+  'cooldown_minutes',
+  'shuffle_questions',
+  'shuffle_choices'
+];
+
+// Submissions this long after the deadline are still accepted, for network delay
+const DEADLINE_GRACE_SECONDS = 30;
+
+type Queryable = { query: (text: string, params?: any[]) => Promise<QueryResult> };
+
+/**
+ * What a submission's questions are rebuilt from: its attempt's quiz version, seed and drawn questions
+ */
+interface SubmissionVersion {
+  version_id: number;
+  seed: number | null;
+  drawn_questions: SnapshotQuestion[] | null;
+}
+
+// Selects a SubmissionVersion from a submission's attempt, joined as a
+const SUBMISSION_VERSION_COLUMNS = 'a.quiz_version_id as version_id, a.seed, a.drawn_questions';
+
+// Fields every question has; anything else in an update is type-specific
+const COMMON_QUESTION_FIELDS = ['prompt', 'points'];
+
+function toQuiz(row: any): Quiz {
+  return {
+    id: row.id,
+    course_id: row.course_id,
+    title: row.title,
+    max_attempts: row.max_attempts,
+    time_limit_minutes: row.time_limit_minutes,
+    pass_score: row.pass_score === null ? null : parseFloat(row.pass_score),
+    score_policy: row.score_policy,
+    cooldown_minutes: row.cooldown_minutes,
+    shuffle_questions: row.shuffle_questions,
+    shuffle_choices: row.shuffle_choices,
+    created_at: row.created_at
+  };
+}
+
+/**
+ * API shape of a quiz_questions row: the definition is stored without its type
+ */
+function toQuestion(row: any): QuizQuestion {
+  return {
+    id: row.id,
+    quiz_id: row.quiz_id,
+    prompt: row.prompt,
+    type: row.type,
+    points: parseFloat(row.points),
+    ...row.definition,
+    created_at: row.created_at
+  };
+}
+
+function toSnapshotQuestion(row: any): SnapshotQuestion {
+  return {
+    id: row.id,
+    prompt: row.prompt,
+    points: parseFloat(row.points),
+    definition: toDefinition(row.type, row.definition)
+  };
+}
+
+/**
+ * API shape of a question as a student saw it in an attempt
+ */
+function toPresentedQuestion(quizId: number, question: SnapshotQuestion): Partial<QuizQuestion> {
+  return {
+    id: question.id,
+    quiz_id: quizId,
+    prompt: question.prompt,
+    points: question.points,
+    ...question.definition
+  };
+}
+
+/**
+ * The definition as stored, without its type
+ */
+export function storedDefinition(definition: QuestionDefinition): string {
+  const { type, ...fields } = definition;
+  return JSON.stringify(fields);
+}
+
+/**
+ * INVALID_QUESTION, with the validation errors for the response
+ */
+export class InvalidQuestionError extends Error {
+  constructor(readonly details: ValidationError[]) {
+    super('INVALID_QUESTION');
+    this.name = 'InvalidQuestionError';
+  }
+}
+
+/**
+ * INVALID_ANSWERS, with the validation errors for the response
+ */
+export class InvalidAnswersError extends Error {
+  constructor(readonly details: ValidationError[]) {
+    super('INVALID_ANSWERS');
+    this.name = 'InvalidAnswersError';
+  }
+}
+
+/**
+ * BANK_NOT_FOUND: draw `index` names a bank that is not in the quiz's course
+ */
+export class BankNotFoundError extends Error {
+  constructor(readonly index: number, readonly bankId: number) {
+    super('BANK_NOT_FOUND');
+    this.name = 'BankNotFoundError';
+  }
+}
+
+/**
+ * NOT_ENOUGH_QUESTIONS: draw `index` asks for more questions than its bank has matching
+ */
+export class NotEnoughQuestionsError extends Error {
+  constructor(readonly index: number, readonly requested: number, readonly available: number) {
+    super('NOT_ENOUGH_QUESTIONS');
+    this.name = 'NotEnoughQuestionsError';
+  }
+}
+
+/**
+ * COOLDOWN_ACTIVE: the next attempt can start at availableAt
+ */
+export class CooldownActiveError extends Error {
+  constructor(readonly availableAt: Date) {
+    super('COOLDOWN_ACTIVE');
+    this.name = 'CooldownActiveError';
+  }
+}
+
+/**
+ * A definition with type-specific updates applied
+ * The fields replace the stored ones; changing the type requires all fields
+ * of the new type. Throws INVALID_QUESTION (with details) when the result is
+ * not a valid question.
+ */
+export function updatedDefinition(current: QuestionDefinition, updates: QuestionUpdates): QuestionDefinition {
+  const type = updates.type ?? current.type;
+  const merged = type === current.type ? { ...current, ...updates } : { ...updates, type };
+
+  const validation = QuizValidator.validateQuestionDefinition(merged);
+  if (!validation.isValid) {
+    throw new InvalidQuestionError(validation.errors);
+  }
+
+  return toDefinition(type, merged);
+}
+
+/**
+ * Questions of a submission with the answers given and the credit earned
+ */
+function toSubmittedQuestions(quizId: number, questions: SnapshotQuestion[], answers: Record<string, unknown>): SubmittedQuestion[] {
+  const grade = gradeQuiz(questions, answers);
+  return questions.map((question, i) => ({
+    ...toPresentedQuestion(quizId, question),
+    answer: answers[String(question.id)] ?? null,
+    correct: grade.questions[i].correct,
+    points_earned: grade.questions[i].points
+  }));
 }
 
 export class QuizzesService {
   /**
    * Create a new quiz for a course
    */
-  static async createQuiz(courseId: number, title: string, userId: number): Promise<Quiz> {
-    // Check if user owns the course or is admin
-    const canModify = await this.canModifyCourseQuizzes(courseId, userId);
-    if (!canModify) {
+  static async createQuiz(courseId: number, title: string, user: Principal, settings: Partial<QuizSettings> = {}): Promise<Quiz> {
+    const course = await getCourseResource(courseId);
+    if (!course || !(await can(user, 'quiz.manage', { course }))) {
       throw new Error('FORBIDDEN');
     }
 
     const result = await db.query(
-      'INSERT INTO quizzes (course_id, title) VALUES ($1, $2) RETURNING *',
-      [courseId, title]
+      `INSERT INTO quizzes (
+         course_id, title, max_attempts, time_limit_minutes, pass_score, score_policy, cooldown_minutes,
+         shuffle_questions, shuffle_choices
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+       RETURNING *`,
+      [
+        courseId,
+        title,
+        settings.max_attempts ?? null,
+        settings.time_limit_minutes ?? null,
+        settings.pass_score ?? null,
+        settings.score_policy ?? 'best',
+        settings.cooldown_minutes ?? null,
+        settings.shuffle_questions ?? false,
+        settings.shuffle_choices ?? false
+      ]
     );
 
-    return result.rows[0];
+    return toQuiz(result.rows[0]);
+  }
+
+  /**
+   * Change the attempt rules of a quiz (quiz.manage)
+   * New rules apply to attempts started afterwards; started attempts keep their deadline.
+   */
+  static async updateSettings(quizId: number, settings: Partial<QuizSettings>, user: Principal): Promise<Quiz> {
+    const quizResult = await db.query(
+      'SELECT q.*, c.instructor_id, c.published FROM quizzes q JOIN courses c ON q.course_id = c.id WHERE q.id = $1',
+      [quizId]
+    );
+
+    if (quizResult.rows.length === 0) {
+      throw new Error('NOT_FOUND');
+    }
+
+    const quiz = quizResult.rows[0];
+    const course = { id: quiz.course_id, instructor_id: quiz.instructor_id, published: quiz.published };
+
+    if (!(await can(user, 'quiz.manage', { course }))) {
+      throw new Error('FORBIDDEN');
+    }
+
+    const updates: string[] = [];
+    const values: any[] = [];
+    let paramCount = 1;
+
+    for (const field of SETTINGS_FIELDS) {
+      if (settings[field] !== undefined) {
+        updates.push(`${field} = $${paramCount++}`);
+        values.push(settings[field]);
+      }
+    }
+
+    if (updates.length === 0) {
+      return toQuiz(quiz);
+    }
+
+    values.push(quizId);
+    const result = await db.query(
+      `UPDATE quizzes SET ${updates.join(', ')} WHERE id = $${paramCount} RETURNING *`,
+      values
+    );
+
+    return toQuiz(result.rows[0]);
   }
 
   /**
    * List quizzes for a course
    */
-  static async listQuizzesForCourse(courseId: number, userId?: number): Promise<Quiz[]> {
+  static async listQuizzesForCourse(courseId: number, user?: Principal): Promise<Quiz[]> {
     // Check if course is published or user has access
-    const hasAccess = await this.canViewCourseQuizzes(courseId, userId);
-    if (!hasAccess) {
+    const course = await getCourseResource(courseId);
+    if (!course || !(await can(user, 'quiz.view', { course }))) {
       throw new Error('FORBIDDEN');
     }
 
@@ -69,16 +383,19 @@ export class QuizzesService {
       [courseId]
     );
 
-    return result.rows;
+    return result.rows.map(toQuiz);
   }
 
   /**
    * Get quiz details with questions
    */
-  static async getQuizById(quizId: number, userId?: number): Promise<{quiz: Quiz, questions: Partial<QuizQuestion>[]}> {
+  static async getQuizById(
+    quizId: number,
+    user?: Principal
+  ): Promise<{quiz: Quiz, questions: Partial<QuizQuestion>[], draws: QuizDraw[], attempts?: AttemptStatus}> {
     // Get quiz with course info
     const quizResult = await db.query(
-      `SELECT q.*, c.published, c.instructor_id 
+      `SELECT q.*, c.published, c.instructor_id, c.is_template
        FROM quizzes q 
        JOIN courses c ON q.course_id = c.id 
        WHERE q.id = $1`,
@@ -91,55 +408,137 @@ export class QuizzesService {
 
     const quiz = quizResult.rows[0];
     
-    // Check access
-    const isInstructor = userId && quiz.instructor_id === userId;
-    const isAdmin = userId && await this.isAdmin(userId);
-    const isStudent = !isInstructor && !isAdmin;
-    
-    // Students can only see published course quizzes
-    if (isStudent && !quiz.published) {
+    // Quizzes of unpublished courses are hidden from anyone without quiz.view
+    const course = { id: quiz.course_id, instructor_id: quiz.instructor_id, published: quiz.published, is_template: quiz.is_template };
+    if (!(await can(user, 'quiz.view', { course }))) {
       throw new Error('NOT_FOUND');
     }
 
-    // Get questions
-    const questionsResult = await db.query(
-      'SELECT * FROM quiz_questions WHERE quiz_id = $1 ORDER BY created_at',
+    const showAnswers = await can(user, 'quiz.view_answers', { course });
+
+    // Students who can take the quiz see where they stand
+    const attempts = user && (await can(user, 'quiz.submit', { course }))
+      ? await this.getAttemptStatus(toQuiz(quiz), user.id)
+      : undefined;
+
+    // During an attempt, the questions as they were when it started (with
+    // those drawn from banks), in the student's order
+    let questions: Partial<QuizQuestion>[];
+    if (attempts?.current_attempt) {
+      const presented = await this.getAttemptQuestions(db, attempts.current_attempt.id);
+      questions = presented.map(question => toPresentedQuestion(quizId, question));
+    } else if (!showAnswers && quiz.time_limit_minutes !== null) {
+      // The clock starts with the attempt, so a timed quiz shows its questions only during one
+      questions = [];
+    } else {
+      const questionsResult = await db.query(
+        'SELECT * FROM quiz_questions WHERE quiz_id = $1 ORDER BY created_at, id',
+        [quizId]
+      );
+      questions = questionsResult.rows.map(toQuestion);
+    }
+
+    // Remove the answer key unless the user may see answers
+    if (!showAnswers) {
+      questions = questions.map(question => withoutAnswerKey(question as QuizQuestion));
+    }
+
+    return {
+      quiz: toQuiz(quiz),
+      questions,
+      draws: await this.listDraws(db, quizId),
+      ...(attempts ? { attempts } : {})
+    };
+  }
+
+  /**
+   * The bank draws of a quiz, in order
+   */
+  private static async listDraws(queryable: Queryable, quizId: number): Promise<QuizDraw[]> {
+    const result = await queryable.query(
+      `SELECT d.id, d.bank_id, b.title as bank_title, d.count, d.topic, d.difficulty,
+              (SELECT COUNT(*) FROM bank_questions bq
+               WHERE bq.bank_id = d.bank_id
+                 AND (d.topic IS NULL OR lower(bq.topic) = lower(d.topic))
+                 AND (d.difficulty IS NULL OR bq.difficulty = d.difficulty))::int as available
+       FROM quiz_question_draws d
+       JOIN question_banks b ON b.id = d.bank_id
+       WHERE d.quiz_id = $1
+       ORDER BY d.position`,
       [quizId]
     );
 
-    // Remove correct_index for students
-    const questions = questionsResult.rows.map(q => {
-      if (isStudent) {
-        const { correct_index, ...questionWithoutAnswer } = q;
-        return questionWithoutAnswer;
+    return result.rows;
+  }
+
+  /**
+   * Replace the bank draws of a quiz (quiz.manage)
+   * Banks must belong to the quiz's course and hold enough matching questions.
+   * Throws BANK_NOT_FOUND or NOT_ENOUGH_QUESTIONS, with the draw's index.
+   * New draws apply to attempts started afterwards.
+   */
+  static async setDraws(quizId: number, draws: QuizDrawData[], user: Principal): Promise<QuizDraw[]> {
+    const quizResult = await db.query(
+      'SELECT q.*, c.instructor_id, c.published FROM quizzes q JOIN courses c ON q.course_id = c.id WHERE q.id = $1',
+      [quizId]
+    );
+
+    if (quizResult.rows.length === 0) {
+      throw new Error('NOT_FOUND');
+    }
+
+    const quiz = quizResult.rows[0];
+    const course = { id: quiz.course_id, instructor_id: quiz.instructor_id, published: quiz.published };
+
+    if (!(await can(user, 'quiz.manage', { course }))) {
+      throw new Error('FORBIDDEN');
+    }
+
+    const client = await db.getClient();
+
+    try {
+      await client.query('BEGIN');
+      await client.query('DELETE FROM quiz_question_draws WHERE quiz_id = $1', [quizId]);
+
+      for (const [index, draw] of draws.entries()) {
+        const bank = await client.query(
+          'SELECT id FROM question_banks WHERE id = $1 AND course_id = $2 FOR SHARE',
+          [draw.bank_id, quiz.course_id]
+        );
+        if (bank.rows.length === 0) {
+          throw new BankNotFoundError(index, draw.bank_id);
+        }
+
+        await client.query(
+          `INSERT INTO quiz_question_draws (quiz_id, bank_id, count, topic, difficulty, position)
+           VALUES ($1, $2, $3, $4, $5, $6)`,
+          [quizId, draw.bank_id, draw.count, draw.topic ?? null, draw.difficulty ?? null, index + 1]
+        );
       }
-      return q;
-    });
 
-    return {
-      quiz: {
-        id: quiz.id,
-        course_id: quiz.course_id,
-        title: quiz.title,
-        created_at: quiz.created_at
-      },
-      questions
-    };
+      const saved = await this.listDraws(client, quizId);
+      const short = saved.findIndex(draw => draw.available < draw.count);
+      if (short !== -1) {
+        throw new NotEnoughQuestionsError(short, saved[short].count, saved[short].available);
+      }
+
+      await client.query('COMMIT');
+      return saved;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
   }
 
   /**
-   * Create a quiz question
+   * Create a quiz question of any type
    */
-  static async createQuestion(
-    quizId: number,
-    prompt: string,
-    choices: string[],
-    correctIndex: number,
-    userId: number
-  ): Promise<QuizQuestion> {
+  static async createQuestion(quizId: number, data: QuestionData, user: Principal): Promise<QuizQuestion> {
     // Get quiz and course info
     const quizResult = await db.query(
-      'SELECT q.*, c.instructor_id FROM quizzes q JOIN courses c ON q.course_id = c.id WHERE q.id = $1',
+      'SELECT q.*, c.instructor_id, c.published FROM quizzes q JOIN courses c ON q.course_id = c.id WHERE q.id = $1',
       [quizId]
     );
 
@@ -148,35 +547,35 @@ export class QuizzesService {
     }
 
     const quiz = quizResult.rows[0];
+    const course = { id: quiz.course_id, instructor_id: quiz.instructor_id, published: quiz.published };
     
-    // Check ownership
-    const isOwner = quiz.instructor_id === userId;
-    const isAdmin = await this.isAdmin(userId);
-    
-    if (!isOwner && !isAdmin) {
+    if (!(await can(user, 'quiz.manage', { course }))) {
       throw new Error('FORBIDDEN');
     }
 
     const result = await db.query(
-      'INSERT INTO quiz_questions (quiz_id, prompt, choices, correct_index) VALUES ($1, $2, $3, $4) RETURNING *',
-      [quizId, prompt, JSON.stringify(choices), correctIndex]
+      'INSERT INTO quiz_questions (quiz_id, prompt, type, points, definition) VALUES ($1, $2, $3, $4, $5) RETURNING *',
+      [quizId, data.prompt, data.definition.type, data.points ?? 1, storedDefinition(data.definition)]
     );
 
-    return result.rows[0];
+    return toQuestion(result.rows[0]);
   }
 
   /**
    * Update a quiz question
+   * Type-specific fields replace the stored ones; changing the type requires
+   * all fields of the new type. Throws INVALID_QUESTION (with details) when
+   * the result is not a valid question.
    */
   static async updateQuestion(
     quizId: number,
     questionId: number,
-    updates: { prompt?: string; choices?: string[]; correct_index?: number },
-    userId: number
+    updates: QuestionUpdates,
+    user: Principal
   ): Promise<QuizQuestion> {
-    // Check ownership
+    // Check permission
     const quizResult = await db.query(
-      'SELECT q.*, c.instructor_id FROM quizzes q JOIN courses c ON q.course_id = c.id WHERE q.id = $1',
+      'SELECT q.*, c.instructor_id, c.published FROM quizzes q JOIN courses c ON q.course_id = c.id WHERE q.id = $1',
       [quizId]
     );
 
@@ -185,10 +584,9 @@ export class QuizzesService {
     }
 
     const quiz = quizResult.rows[0];
-    const isOwner = quiz.instructor_id === userId;
-    const isAdmin = await this.isAdmin(userId);
+    const course = { id: quiz.course_id, instructor_id: quiz.instructor_id, published: quiz.published };
     
-    if (!isOwner && !isAdmin) {
+    if (!(await can(user, 'quiz.manage', { course }))) {
       throw new Error('FORBIDDEN');
     }
 
@@ -212,18 +610,20 @@ export class QuizzesService {
       values.push(updates.prompt);
     }
 
-    if (updates.choices !== undefined) {
-      updateFields.push(`choices = $${paramCount++}`);
-      values.push(JSON.stringify(updates.choices));
+    if (updates.points !== undefined) {
+      updateFields.push(`points = $${paramCount++}`);
+      values.push(updates.points);
     }
 
-    if (updates.correct_index !== undefined) {
-      updateFields.push(`correct_index = $${paramCount++}`);
-      values.push(updates.correct_index);
+    if (Object.keys(updates).some(field => !COMMON_QUESTION_FIELDS.includes(field))) {
+      const current = questionResult.rows[0];
+      const definition = updatedDefinition(toDefinition(current.type, current.definition), updates);
+      updateFields.push(`type = $${paramCount++}`, `definition = $${paramCount++}`);
+      values.push(definition.type, storedDefinition(definition));
     }
 
     if (updateFields.length === 0) {
-      return questionResult.rows[0];
+      return toQuestion(questionResult.rows[0]);
     }
 
     values.push(questionId, quizId);
@@ -235,16 +635,16 @@ export class QuizzesService {
     `;
 
     const result = await db.query(updateQuery, values);
-    return result.rows[0];
+    return toQuestion(result.rows[0]);
   }
 
   /**
    * Delete a quiz question
    */
-  static async deleteQuestion(quizId: number, questionId: number, userId: number): Promise<void> {
-    // Check ownership
+  static async deleteQuestion(quizId: number, questionId: number, user: Principal): Promise<void> {
+    // Check permission
     const quizResult = await db.query(
-      'SELECT q.*, c.instructor_id FROM quizzes q JOIN courses c ON q.course_id = c.id WHERE q.id = $1',
+      'SELECT q.*, c.instructor_id, c.published FROM quizzes q JOIN courses c ON q.course_id = c.id WHERE q.id = $1',
       [quizId]
     );
 
@@ -253,10 +653,9 @@ export class QuizzesService {
     }
 
     const quiz = quizResult.rows[0];
-    const isOwner = quiz.instructor_id === userId;
-    const isAdmin = await this.isAdmin(userId);
+    const course = { id: quiz.course_id, instructor_id: quiz.instructor_id, published: quiz.published };
     
-    if (!isOwner && !isAdmin) {
+    if (!(await can(user, 'quiz.manage', { course }))) {
       throw new Error('FORBIDDEN');
     }
 
@@ -271,12 +670,16 @@ export class QuizzesService {
   }
 
   /**
-   * Submit quiz answers
+   * A quiz the user is about to start or submit
+   * Throws NOT_FOUND, FORBIDDEN (course not published) or NOT_ENROLLED
    */
-  static async submitQuiz(quizId: number, answers: number[], userId: number): Promise<SubmissionResult> {
+  private static async getQuizForStudent(quizId: number, user: Principal): Promise<Quiz> {
     // Get quiz with course info
     const quizResult = await db.query(
-      'SELECT q.*, c.published, c.id as course_id FROM quizzes q JOIN courses c ON q.course_id = c.id WHERE q.id = $1',
+      `SELECT q.*, c.published, c.instructor_id, c.is_template, c.id as course_id
+       FROM quizzes q
+       JOIN courses c ON q.course_id = c.id
+       WHERE q.id = $1`,
       [quizId]
     );
 
@@ -285,82 +688,347 @@ export class QuizzesService {
     }
 
     const quiz = quizResult.rows[0];
+    const course = { id: quiz.course_id, instructor_id: quiz.instructor_id, published: quiz.published, is_template: quiz.is_template };
+
+    // Quizzes the user cannot see are not found, as in getQuizById
+    if (!(await can(user, 'quiz.view', { course }))) {
+      throw new Error('NOT_FOUND');
+    }
 
     // Check course is published
     if (!quiz.published) {
       throw new Error('FORBIDDEN');
     }
 
-    // Check student is enrolled
-    const enrollmentResult = await db.query(
-      'SELECT * FROM enrollments WHERE user_id = $1 AND course_id = $2 AND status = $3',
-      [userId, quiz.course_id, 'active']
-    );
-
-    if (enrollmentResult.rows.length === 0) {
+    // quiz.submit comes with an active enrollment
+    if (!(await can(user, 'quiz.submit', { course }))) {
       throw new Error('NOT_ENROLLED');
     }
 
-    // Get questions with correct answers
-    const questionsResult = await db.query(
-      'SELECT id, correct_index FROM quiz_questions WHERE quiz_id = $1 ORDER BY created_at',
-      [quizId]
+    return toQuiz(quiz);
+  }
+
+  /**
+   * Where a student stands with a quiz: attempts used and left, the attempt
+   * in progress, the cooldown, and the score that counts
+   */
+  static async getAttemptStatus(quiz: Quiz, userId: number, client?: PoolClient): Promise<AttemptStatus> {
+    const queryable: Queryable = client || db;
+    const result = await queryable.query(
+      `SELECT a.id, a.started_at, a.expires_at, a.submitted_at, s.score,
+              a.submitted_at IS NULL
+                AND (a.expires_at IS NULL OR a.expires_at + $3 * interval '1 second' > CURRENT_TIMESTAMP) as in_progress,
+              COALESCE(a.submitted_at, a.expires_at) + $4 * interval '1 minute' as cooldown_ends_at,
+              COALESCE(a.submitted_at, a.expires_at) + $4 * interval '1 minute' > CURRENT_TIMESTAMP as cooling_down
+       FROM quiz_attempts a
+       LEFT JOIN quiz_submissions s ON s.id = a.submission_id
+       WHERE a.quiz_id = $1 AND a.user_id = $2
+       ORDER BY a.started_at, a.id`,
+      [quiz.id, userId, DEADLINE_GRACE_SECONDS, quiz.cooldown_minutes ?? 0]
+    );
+
+    const attempts = result.rows;
+    const last = attempts[attempts.length - 1];
+    const scores = attempts.filter(row => row.score !== null).map(row => parseFloat(row.score));
+    const score = countedScore(quiz.score_policy, scores);
+
+    return {
+      max_attempts: quiz.max_attempts,
+      attempts_used: attempts.length,
+      attempts_remaining: quiz.max_attempts === null ? null : Math.max(0, quiz.max_attempts - attempts.length),
+      current_attempt: last?.in_progress
+        ? { id: last.id, started_at: last.started_at, deadline: last.expires_at }
+        : null,
+      next_attempt_at: quiz.cooldown_minutes !== null && last && !last.in_progress && last.cooling_down
+        ? last.cooldown_ends_at
+        : null,
+      score,
+      passed: score === null || quiz.pass_score === null ? null : score >= quiz.pass_score
+    };
+  }
+
+  /**
+   * Serialize attempt starts and submissions of one student on one quiz
+   */
+  private static async lockAttempts(client: PoolClient, quizId: number, userId: number): Promise<void> {
+    await client.query('SELECT pg_advisory_xact_lock($1, $2)', [quizId, userId]);
+  }
+
+  /**
+   * The quiz version matching the current questions and shuffle settings,
+   * created when the content has not been seen before
+   */
+  private static async snapshotVersion(client: PoolClient, quiz: Quiz): Promise<number> {
+    const questionsResult = await client.query(
+      'SELECT * FROM quiz_questions WHERE quiz_id = $1 ORDER BY created_at, id',
+      [quiz.id]
+    );
+    const questions = questionsResult.rows.map(toSnapshotQuestion);
+    const checksum = crypto
+      .createHash('sha256')
+      .update(JSON.stringify({ questions, shuffle_questions: quiz.shuffle_questions, shuffle_choices: quiz.shuffle_choices }))
+      .digest('hex');
+
+    await client.query(
+      `INSERT INTO quiz_versions (quiz_id, checksum, questions, shuffle_questions, shuffle_choices)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (quiz_id, checksum) DO NOTHING`,
+      [quiz.id, checksum, JSON.stringify(questions), quiz.shuffle_questions, quiz.shuffle_choices]
+    );
+    const version = await client.query(
+      'SELECT id FROM quiz_versions WHERE quiz_id = $1 AND checksum = $2',
+      [quiz.id, checksum]
     );
 
-    const questions = questionsResult.rows;
+    return version.rows[0].id;
+  }
+
+  /**
+   * The questions of an attempt in the order and form the student saw them:
+   * the quiz version's questions followed by those drawn from banks
+   */
+  private static async getAttemptQuestions(queryable: Queryable, attemptId: number): Promise<SnapshotQuestion[]> {
+    const result = await queryable.query(
+      `SELECT a.seed, a.drawn_questions, v.questions, v.shuffle_questions, v.shuffle_choices
+       FROM quiz_attempts a
+       JOIN quiz_versions v ON v.id = a.quiz_version_id
+       WHERE a.id = $1`,
+      [attemptId]
+    );
+    const attempt = result.rows[0];
+
+    return presentQuestions([...attempt.questions, ...(attempt.drawn_questions ?? [])], attempt.seed, attempt);
+  }
 
-    // Validate answers length
-    if (answers.length !== questions.length) {
-      throw new Error('INVALID_ANSWERS_LENGTH');
+  /**
+   * Draw questions from the quiz's banks for a new attempt, at random
+   * Within a draw, questions keep their bank order; a bank that has shrunk
+   * since the draw was set gives what it has. A question is drawn at most
+   * once per attempt.
+   */
+  private static async drawQuestions(client: PoolClient, quizId: number): Promise<SnapshotQuestion[]> {
+    const draws = await client.query(
+      'SELECT * FROM quiz_question_draws WHERE quiz_id = $1 ORDER BY position',
+      [quizId]
+    );
+
+    const drawn: SnapshotQuestion[] = [];
+
+    for (const draw of draws.rows) {
+      const result = await client.query(
+        `SELECT * FROM (
+           SELECT * FROM bank_questions
+           WHERE bank_id = $1
+             AND ($2::text IS NULL OR lower(topic) = lower($2))
+             AND ($3::text IS NULL OR difficulty = $3)
+             AND NOT (id = ANY($4::int[]))
+           ORDER BY random()
+           LIMIT $5
+         ) picked
+         ORDER BY created_at, id`,
+        [draw.bank_id, draw.topic, draw.difficulty, drawn.map(question => question.id), draw.count]
+      );
+      drawn.push(...result.rows.map(toSnapshotQuestion));
     }
 
-    // Calculate score
-    let correct = 0;
-    const questionResults = questions.map((q, index) => {
-      const isCorrect = answers[index] === q.correct_index;
-      if (isCorrect) correct++;
-      return {
-        id: q.id,
-        correct: isCorrect
-      };
-    });
+    return drawn;
+  }
 
-    const total = questions.length;
-    const score = total > 0 ? (correct / total) * 100 : 0;
+  /**
+   * Record a new attempt on the current quiz version with its questions
+   * drawn from banks, a deadline when the quiz has a time limit and a seed
+   * when it shuffles
+   * Throws ATTEMPT_LIMIT_REACHED, or COOLDOWN_ACTIVE with availableAt
+   */
+  private static async createAttempt(client: PoolClient, quiz: Quiz, userId: number, status: AttemptStatus): Promise<number> {
+    if (status.attempts_remaining === 0) {
+      throw new Error('ATTEMPT_LIMIT_REACHED');
+    }
+    if (status.next_attempt_at) {
+      throw new CooldownActiveError(status.next_attempt_at);
+    }
+
+    const versionId = await this.snapshotVersion(client, quiz);
+    const drawn = await this.drawQuestions(client, quiz.id);
+    const seed = quiz.shuffle_questions || quiz.shuffle_choices ? crypto.randomInt(2 ** 31 - 1) : null;
 
-    // Save submission
-    await db.query(
-      'INSERT INTO quiz_submissions (quiz_id, user_id, answers, score) VALUES ($1, $2, $3, $4)',
-      [quizId, userId, JSON.stringify(answers), score]
+    const result = await client.query(
+      `INSERT INTO quiz_attempts (quiz_id, user_id, expires_at, quiz_version_id, seed, drawn_questions)
+       VALUES ($1, $2, CURRENT_TIMESTAMP + $3 * interval '1 minute', $4, $5, $6)
+       RETURNING id`,
+      [quiz.id, userId, quiz.time_limit_minutes, versionId, seed, drawn.length > 0 ? JSON.stringify(drawn) : null]
     );
 
+    return result.rows[0].id;
+  }
+
+  /**
+   * Start an attempt, or resume the one in progress
+   * Timed quizzes must be started before answers are submitted; the time
+   * limit runs from here.
+   */
+  static async startAttempt(quizId: number, user: Principal): Promise<{ created: boolean; attempts: AttemptStatus }> {
+    const quiz = await this.getQuizForStudent(quizId, user);
+    const client = await db.getClient();
+    let created = false;
+
+    try {
+      await client.query('BEGIN');
+      await this.lockAttempts(client, quizId, user.id);
+
+      const status = await this.getAttemptStatus(quiz, user.id, client);
+      if (!status.current_attempt) {
+        await this.createAttempt(client, quiz, user.id, status);
+        created = true;
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    return { created, attempts: await this.getAttemptStatus(quiz, user.id) };
+  }
+
+  /**
+   * Submit quiz answers keyed by question ID (null or missing when unanswered)
+   * The answers complete the attempt in progress and are graded against the
+   * questions as that attempt presented them. Untimed, unshuffled quizzes
+   * without bank draws may be submitted without starting an attempt first;
+   * one is then started and completed at once. Throws INVALID_ANSWERS with
+   * details, ATTEMPT_NOT_STARTED (timed, shuffled or drawn quiz), ATTEMPT_EXPIRED,
+   * ATTEMPT_LIMIT_REACHED or COOLDOWN_ACTIVE.
+   */
+  static async submitQuiz(quizId: number, answers: Record<string, unknown>, user: Principal): Promise<SubmissionResult> {
+    const quiz = await this.getQuizForStudent(quizId, user);
+    const client = await db.getClient();
+    let result: QuizGrade;
+
+    try {
+      await client.query('BEGIN');
+      await this.lockAttempts(client, quizId, user.id);
+
+      const status = await this.getAttemptStatus(quiz, user.id, client);
+      let attemptId = status.current_attempt?.id;
+
+      if (attemptId === undefined) {
+        // With nothing in progress, an unsubmitted last attempt ran out of time
+        const last = await client.query(
+          `SELECT submitted_at IS NULL as expired FROM quiz_attempts
+           WHERE quiz_id = $1 AND user_id = $2
+           ORDER BY started_at DESC, id DESC
+           LIMIT 1`,
+          [quizId, user.id]
+        );
+        if (last.rows[0]?.expired) {
+          throw new Error('ATTEMPT_EXPIRED');
+        }
+        // Shuffled and drawn questions must have been seen before they can be answered
+        const draws = await client.query('SELECT 1 FROM quiz_question_draws WHERE quiz_id = $1 LIMIT 1', [quizId]);
+        if (quiz.time_limit_minutes !== null || quiz.shuffle_questions || quiz.shuffle_choices || draws.rows.length > 0) {
+          throw new Error('ATTEMPT_NOT_STARTED');
+        }
+        attemptId = await this.createAttempt(client, quiz, user.id, status);
+      }
+
+      const questions = await this.getAttemptQuestions(client, attemptId);
+
+      const validation = QuizValidator.validateSubmission(
+        { answers },
+        questions.map(question => ({ id: question.id, ...question.definition }))
+      );
+      if (!validation.isValid) {
+        throw new InvalidAnswersError(validation.errors);
+      }
+
+      result = gradeQuiz(questions, answers);
+
+      // Save submission
+      const submission = await client.query(
+        'INSERT INTO quiz_submissions (quiz_id, user_id, answers, score) VALUES ($1, $2, $3, $4) RETURNING id',
+        [quizId, user.id, JSON.stringify(answers), result.score]
+      );
+
+      await client.query(
+        'UPDATE quiz_attempts SET submitted_at = CURRENT_TIMESTAMP, submission_id = $1 WHERE id = $2',
+        [submission.rows[0].id, attemptId]
+      );
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
     return {
-      total,
-      correct,
-      score,
-      questions: questionResults
+      ...result,
+      passed: quiz.pass_score === null ? null : result.score >= quiz.pass_score,
+      attempts: await this.getAttemptStatus(quiz, user.id)
     };
   }
 
   /**
-   * Get student's latest submission
+   * Get student's latest submission, with its questions as the attempt
+   * presented them (answer keys removed)
    */
-  static async getLatestSubmission(quizId: number, userId: number): Promise<QuizSubmission | null> {
+  static async getLatestSubmission(
+    quizId: number,
+    userId: number
+  ): Promise<(QuizSubmission & { questions: SubmittedQuestion[] }) | null> {
     const result = await db.query(
-      'SELECT * FROM quiz_submissions WHERE quiz_id = $1 AND user_id = $2 ORDER BY created_at DESC LIMIT 1',
+      `SELECT qs.*, ${SUBMISSION_VERSION_COLUMNS}
+       FROM quiz_submissions qs
+       JOIN quiz_attempts a ON a.submission_id = qs.id
+       WHERE qs.quiz_id = $1 AND qs.user_id = $2
+       ORDER BY qs.created_at DESC
+       LIMIT 1`,
       [quizId, userId]
     );
 
-    return result.rows[0] || null;
+    if (result.rows.length === 0) {
+      return null;
+    }
+
+    const { version_id, seed, drawn_questions, ...submission } = result.rows[0];
+    const [questions] = await this.getSubmissionQuestions(result.rows);
+
+    return {
+      ...submission,
+      questions: toSubmittedQuestions(quizId, questions, submission.answers)
+        .map(question => withoutAnswerKey(question as QuizQuestion) as SubmittedQuestion)
+    };
+  }
+
+  /**
+   * The questions each submission answered, as its attempt presented them
+   * The versions are loaded in one query.
+   */
+  private static async getSubmissionQuestions(rows: SubmissionVersion[]): Promise<SnapshotQuestion[][]> {
+    const versionIds = [...new Set(rows.map(row => row.version_id))];
+    const result = await db.query(
+      'SELECT id, questions, shuffle_questions, shuffle_choices FROM quiz_versions WHERE id = ANY($1::int[])',
+      [versionIds]
+    );
+    const versions = new Map(result.rows.map(version => [version.id, version]));
+
+    return rows.map(row => {
+      const version = versions.get(row.version_id);
+      return presentQuestions([...version.questions, ...(row.drawn_questions ?? [])], row.seed, version);
+    });
   }
 
   /**
-   * List all submissions for a quiz (instructor/admin only)
+   * List all submissions for a quiz (quiz.view_submissions)
    */
-  static async listSubmissions(quizId: number, userId: number): Promise<any[]> {
-    // Check ownership
+  static async listSubmissions(quizId: number, user: Principal): Promise<any[]> {
+    // Check permission
     const quizResult = await db.query(
-      'SELECT q.*, c.instructor_id FROM quizzes q JOIN courses c ON q.course_id = c.id WHERE q.id = $1',
+      'SELECT q.*, c.instructor_id, c.published FROM quizzes q JOIN courses c ON q.course_id = c.id WHERE q.id = $1',
       [quizId]
     );
 
@@ -369,10 +1037,9 @@ export class QuizzesService {
     }
 
     const quiz = quizResult.rows[0];
-    const isOwner = quiz.instructor_id === userId;
-    const isAdmin = await this.isAdmin(userId);
+    const course = { id: quiz.course_id, instructor_id: quiz.instructor_id, published: quiz.published };
     
-    if (!isOwner && !isAdmin) {
+    if (!(await can(user, 'quiz.view_submissions', { course }))) {
       throw new Error('FORBIDDEN');
     }
 
@@ -381,15 +1048,21 @@ export class QuizzesService {
         qs.*,
         u.id as user_id,
         u.name as user_name,
-        u.email as user_email
+        u.email as user_email,
+        ${SUBMISSION_VERSION_COLUMNS}
       FROM quiz_submissions qs
       JOIN users u ON qs.user_id = u.id
+      JOIN quiz_attempts a ON a.submission_id = qs.id
       WHERE qs.quiz_id = $1
       ORDER BY qs.created_at DESC`,
       [quizId]
     );
 
-    return result.rows.map(row => ({
+    // Each submission is shown against the questions as its attempt presented
+    // them, so later edits to the quiz or its banks do not change what was answered
+    const questions = await this.getSubmissionQuestions(result.rows);
+
+    return result.rows.map((row, index) => ({
       id: row.id,
       user: {
         id: row.user_id,
@@ -398,73 +1071,8 @@ export class QuizzesService {
       },
       score: parseFloat(row.score),
       answers: row.answers,
+      questions: toSubmittedQuestions(quizId, questions[index], row.answers),
       created_at: row.created_at
     }));
   }
-
-  /**
-   * Check if user can modify course quizzes
-   */
-  private static async canModifyCourseQuizzes(courseId: number, userId: number): Promise<boolean> {
-    // Check if admin
-    const userResult = await db.query('SELECT role FROM users WHERE id = $1', [userId]);
-    if (userResult.rows.length > 0 && userResult.rows[0].role === 'admin') {
-      return true;
-    }
-
-    // Check if course owner
-    const courseResult = await db.query(
-      'SELECT instructor_id FROM courses WHERE id = $1',
-      [courseId]
-    );
-
-    if (courseResult.rows.length === 0) {
-      return false;
-    }
-
-    return courseResult.rows[0].instructor_id === userId;
-  }
-
-  /**
-   * Check if user can view course quizzes
-   */
-  private static async canViewCourseQuizzes(courseId: number, userId?: number): Promise<boolean> {
-    const courseResult = await db.query(
-      'SELECT published, instructor_id FROM courses WHERE id = $1',
-      [courseId]
-    );
-
-    if (courseResult.rows.length === 0) {
-      return false;
-    }
-
-    const course = courseResult.rows[0];
-
-    // Published courses are viewable by all
-    if (course.published) {
-      return true;
-    }
-
-    // Unpublished courses require authentication
-    if (!userId) {
-      return false;
-    }
-
-    // Check if admin
-    const userResult = await db.query('SELECT role FROM users WHERE id = $1', [userId]);
-    if (userResult.rows.length > 0 && userResult.rows[0].role === 'admin') {
-      return true;
-    }
-
-    // Check if course owner
-    return course.instructor_id === userId;
-  }
-
-  /**
-   * Check if user is admin
-   */
-  private static async isAdmin(userId: number): Promise<boolean> {
-    const result = await db.query('SELECT role FROM users WHERE id = $1', [userId]);
-    return result.rows.length > 0 && result.rows[0].role === 'admin';
-  }
 }
@@ -0,0 +1,228 @@
+import crypto from 'crypto';
+import { db } from '../db';
+import { config } from '../config';
+import { TokenService } from './token.service';
+
+/**
+ * Session service for refresh token rotation and server-side revocation
+ *
+ * Each login creates a session (a refresh token family). Access tokens carry
+ * the session ID in the `sid` claim so they can be rejected once the session
+ * is revoked. Refresh tokens are single-use: every refresh rotates the token,
+ * and presenting an already-rotated token revokes the whole session.
+ */
+
+export interface SessionUser {
+  id: number;
+  email: string;
+  role: string;
+}
+
+export interface SessionMetadata {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+export interface SessionTokens {
+  sessionId: string;
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number; // Access token lifetime in seconds
+}
+
+export type SessionRevokeReason = 'logout' | 'logout_all' | 'token_reuse' | 'credentials_changed' | 'role_changed';
+
+export class SessionsService {
+  /**
+   * Create a new session and issue its first token pair
+   */
+  static async createSession(user: SessionUser, meta: SessionMetadata = {}): Promise<SessionTokens> {
+    const client = await db.getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      const expiresAt = new Date(Date.now() + config.refreshTokenTtlSeconds * 1000);
+
+      const sessionResult = await client.query(
+        `INSERT INTO auth_sessions (user_id, user_agent, ip_address, expires_at, last_used_at)
+         VALUES ($1, $2, $3, $4, CURRENT_TIMESTAMP)
+         RETURNING id`,
+        [user.id, meta.userAgent || null, meta.ipAddress || null, expiresAt]
+      );
+
+      const sessionId = sessionResult.rows[0].id;
+      const refreshToken = this.generateRefreshToken();
+
+      await client.query(
+        'INSERT INTO refresh_tokens (session_id, token_hash, expires_at) VALUES ($1, $2, $3)',
+        [sessionId, this.hashToken(refreshToken), expiresAt]
+      );
+
+      await client.query('COMMIT');
+
+      return {
+        sessionId,
+        accessToken: TokenService.generateAccessToken(user, sessionId),
+        refreshToken,
+        expiresIn: config.accessTokenTtlSeconds
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair (rotation)
+   * Throws INVALID_REFRESH_TOKEN, REFRESH_TOKEN_REUSED, SESSION_REVOKED or SESSION_EXPIRED
+   */
+  static async refreshSession(refreshToken: string): Promise<SessionTokens & { user: SessionUser }> {
+    const client = await db.getClient();
+
+    try {
+      await client.query('BEGIN');
+
+      const tokenResult = await client.query(
+        `SELECT rt.id, rt.session_id, rt.expires_at, rt.rotated_at,
+                s.user_id, s.revoked_at, s.expires_at as session_expires_at
+         FROM refresh_tokens rt
+         JOIN auth_sessions s ON rt.session_id = s.id
+         WHERE rt.token_hash = $1
+         FOR UPDATE OF rt, s`,
+        [this.hashToken(refreshToken)]
+      );
+
+      if (tokenResult.rows.length === 0) {
+        throw new Error('INVALID_REFRESH_TOKEN');
+      }
+
+      const token = tokenResult.rows[0];
+
+      if (token.revoked_at) {
+        throw new Error('SESSION_REVOKED');
+      }
+
+      // A rotated token being presented again means it leaked: kill the whole family
+      if (token.rotated_at) {
+        await client.query(
+          `UPDATE auth_sessions
+           SET revoked_at = CURRENT_TIMESTAMP, revoked_reason = 'token_reuse'
+           WHERE id = $1`,
+          [token.session_id]
+        );
+        await client.query('COMMIT');
+        throw new Error('REFRESH_TOKEN_REUSED');
+      }
+
+      const now = new Date();
+      if (new Date(token.expires_at) <= now || new Date(token.session_expires_at) <= now) {
+        throw new Error('SESSION_EXPIRED');
+      }
+
+      const userResult = await client.query(
+        'SELECT id, email, role FROM users WHERE id = $1',
+        [token.user_id]
+      );
+
+      if (userResult.rows.length === 0) {
+        throw new Error('INVALID_REFRESH_TOKEN');
+      }
+
+      const user: SessionUser = userResult.rows[0];
+      const expiresAt = new Date(Date.now() + config.refreshTokenTtlSeconds * 1000);
+      const newRefreshToken = this.generateRefreshToken();
+
+      await client.query(
+        'UPDATE refresh_tokens SET rotated_at = CURRENT_TIMESTAMP WHERE id = $1',
+        [token.id]
+      );
+
+      await client.query(
+        'INSERT INTO refresh_tokens (session_id, token_hash, expires_at) VALUES ($1, $2, $3)',
+        [token.session_id, this.hashToken(newRefreshToken), expiresAt]
+      );
+
+      await client.query(
+        'UPDATE auth_sessions SET last_used_at = CURRENT_TIMESTAMP, expires_at = $1 WHERE id = $2',
+        [expiresAt, token.session_id]
+      );
+
+      await client.query('COMMIT');
+
+      return {
+        sessionId: token.session_id,
+        accessToken: TokenService.generateAccessToken(user, token.session_id),
+        refreshToken: newRefreshToken,
+        expiresIn: config.accessTokenTtlSeconds,
+        user
+      };
+    } catch (error) {
+      if (!(error instanceof Error && error.message === 'REFRESH_TOKEN_REUSED')) {
+        await client.query('ROLLBACK');
+      }
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Revoke a single session
+   */
+  static async revokeSession(sessionId: string, reason: SessionRevokeReason): Promise<boolean> {
+    const result = await db.query(
+      `UPDATE auth_sessions
+       SET revoked_at = CURRENT_TIMESTAMP, revoked_reason = $2
+       WHERE id = $1 AND revoked_at IS NULL`,
+      [sessionId, reason]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Revoke every active session of a user, optionally keeping one (e.g. the caller's)
+   */
+  static async revokeAllSessions(
+    userId: number,
+    reason: SessionRevokeReason,
+    exceptSessionId?: string
+  ): Promise<number> {
+    const result = await db.query(
+      `UPDATE auth_sessions
+       SET revoked_at = CURRENT_TIMESTAMP, revoked_reason = $2
+       WHERE user_id = $1 AND revoked_at IS NULL
+         AND ($3::uuid IS NULL OR id <> $3::uuid)`,
+      [userId, reason, exceptSessionId || null]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Check that a session exists, is not revoked and has not expired
+   */
+  static async isSessionActive(sessionId: string): Promise<boolean> {
+    const result = await db.query(
+      `SELECT 1 FROM auth_sessions
+       WHERE id = $1 AND revoked_at IS NULL AND expires_at > CURRENT_TIMESTAMP`,
+      [sessionId]
+    );
+    return result.rows.length > 0;
+  }
+
+  /**
+   * Generate an opaque, URL-safe refresh token
+   */
+  private static generateRefreshToken(): string {
+    return crypto.randomBytes(32).toString('base64url');
+  }
+
+  /**
+   * Refresh tokens are never stored in plain text
+   */
+  private static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -0,0 +1,272 @@
+import crypto from 'crypto';
+import { config, JwtAlgorithm } from '../config';
+
+/**
+ * Token service: the only place that signs and verifies our JWTs
+ *
+ * Tokens are signed with the active key (JWT_KEY_ID, JWT_ALGORITHM) and carry
+ * its `kid` in the header. Verification looks the key up by `kid`, so keys
+ * listed in JWT_PREVIOUS_KEYS keep validating tokens issued before a rotation
+ * until they are removed or their `retireAt` passes.
+ *
+ * Signing is implemented on Node's crypto module (HS256, RS256 and EdDSA with
+ * Ed25519). The header algorithm must match the key's algorithm, so a token
+ * cannot pick a weaker algorithm than the key was configured for.
+ */
+
+// access: bearer token bound to a session (sid)
+// mfa_login: password verified, waiting for a TOTP/recovery code
+// mfa_enroll: password verified, but the user's role requires 2FA and none is set up yet
+export type TokenType = 'access' | 'mfa_login' | 'mfa_enroll';
+export type MfaChallengePurpose = Exclude<TokenType, 'access'>;
+
+export interface AccessTokenPayload {
+  sub: number; // User ID
+  email: string;
+  role: string;
+  sid: string; // Session ID (checked for revocation)
+  typ: 'access';
+  iat: number;
+  exp: number;
+}
+
+interface TokenKey {
+  kid: string;
+  alg: JwtAlgorithm;
+  signingKey: crypto.KeyObject | null; // Only the active key signs
+  verificationKey: crypto.KeyObject;
+  retireAt: number | null; // Epoch milliseconds
+}
+
+let keyring: { active: TokenKey; byKid: Map<string, TokenKey> } | null = null;
+
+export class TokenService {
+  /**
+   * Issue a short-lived access token bound to a session
+   */
+  static generateAccessToken(user: { id: number; email: string; role: string }, sessionId: string): string {
+    return this.sign(
+      { sub: user.id, email: user.email, role: user.role, sid: sessionId, typ: 'access' },
+      config.accessTokenTtlSeconds
+    );
+  }
+
+  /**
+   * Verify an access token
+   * @returns The payload, or null if the token is invalid, expired or not an access token
+   */
+  static verifyAccessToken(token: string): AccessTokenPayload | null {
+    const payload = this.verify(token);
+
+    if (
+      !payload ||
+      payload.typ !== 'access' ||
+      typeof payload.sub !== 'number' ||
+      typeof payload.email !== 'string' ||
+      typeof payload.role !== 'string' ||
+      typeof payload.sid !== 'string'
+    ) {
+      return null;
+    }
+
+    return payload as AccessTokenPayload;
+  }
+
+  /**
+   * Issue a challenge token for the second login step
+   * Challenge tokens carry no session ID, so they are never accepted as access tokens
+   */
+  static generateChallengeToken(userId: number, purpose: MfaChallengePurpose): string {
+    return this.sign({ sub: userId, typ: purpose }, config.mfaChallengeTtlSeconds);
+  }
+
+  /**
+   * Verify a challenge token for the given purpose
+   * @returns The user ID, or null if the token is invalid, expired or for another purpose
+   */
+  static verifyChallengeToken(token: string, purpose: MfaChallengePurpose): number | null {
+    const payload = this.verify(token);
+    if (!payload || payload.typ !== purpose || typeof payload.sub !== 'number') {
+      return null;
+    }
+    return payload.sub;
+  }
+
+  /**
+   * Sign claims with the active key; iat, exp, iss and aud are added here
+   */
+  static sign(claims: Record<string, unknown>, ttlSeconds: number, now: number = Date.now()): string {
+    const { active } = this.getKeyring();
+    const issuedAt = Math.floor(now / 1000);
+
+    const header = { alg: active.alg, typ: 'JWT', kid: active.kid };
+    const payload = {
+      ...claims,
+      iat: issuedAt,
+      exp: issuedAt + ttlSeconds,
+      ...(config.jwtIssuer ? { iss: config.jwtIssuer } : {}),
+      ...(config.jwtAudience ? { aud: config.jwtAudience } : {})
+    };
+
+    const signingInput = `${this.encodeSegment(header)}.${this.encodeSegment(payload)}`;
+    const signature = this.createSignature(active, Buffer.from(signingInput));
+
+    return `${signingInput}.${signature.toString('base64url')}`;
+  }
+
+  /**
+   * Verify signature, expiry, issuer and audience
+   * @returns The payload, or null if any check fails
+   */
+  static verify(token: string, now: number = Date.now()): Record<string, any> | null {
+    const parts = typeof token === 'string' ? token.split('.') : [];
+    if (parts.length !== 3) {
+      return null;
+    }
+
+    const [encodedHeader, encodedPayload, encodedSignature] = parts;
+    const header = this.decodeSegment(encodedHeader);
+    const payload = this.decodeSegment(encodedPayload);
+    if (!header || !payload) {
+      return null;
+    }
+
+    const key = typeof header.kid === 'string' ? this.getKeyring().byKid.get(header.kid) : undefined;
+    if (!key || header.alg !== key.alg || (key.retireAt !== null && now >= key.retireAt)) {
+      return null;
+    }
+
+    const signingInput = Buffer.from(`${encodedHeader}.${encodedPayload}`);
+    if (!this.checkSignature(key, signingInput, Buffer.from(encodedSignature, 'base64url'))) {
+      return null;
+    }
+
+    const nowSeconds = Math.floor(now / 1000);
+    if (typeof payload.exp !== 'number' || payload.exp <= nowSeconds) {
+      return null;
+    }
+
+    if (typeof payload.nbf === 'number' && payload.nbf > nowSeconds) {
+      return null;
+    }
+
+    if (config.jwtIssuer && payload.iss !== config.jwtIssuer) {
+      return null;
+    }
+
+    if (config.jwtAudience) {
+      const audiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+      if (!audiences.includes(config.jwtAudience)) {
+        return null;
+      }
+    }
+
+    return payload;
+  }
+
+  /**
+   * Public keys of asymmetric keys as a JWK set, for services that verify our tokens
+   * HS256 keys are secret and never included
+   */
+  static getJwks(now: number = Date.now()): { keys: Record<string, unknown>[] } {
+    const keys = [...this.getKeyring().byKid.values()]
+      .filter(key => key.alg !== 'HS256' && (key.retireAt === null || now < key.retireAt))
+      .map(key => ({
+        ...key.verificationKey.export({ format: 'jwk' }),
+        kid: key.kid,
+        alg: key.alg,
+        use: 'sig'
+      }));
+
+    return { keys };
+  }
+
+  /**
+   * Build the keyring from configuration on first use
+   */
+  private static getKeyring(): { active: TokenKey; byKid: Map<string, TokenKey> } {
+    if (keyring) {
+      return keyring;
+    }
+
+    let active: TokenKey;
+    if (config.jwtAlgorithm === 'HS256') {
+      const secret = crypto.createSecretKey(Buffer.from(config.jwtSecret));
+      active = { kid: config.jwtKeyId, alg: 'HS256', signingKey: secret, verificationKey: secret, retireAt: null };
+    } else {
+      const privateKey = crypto.createPrivateKey(config.jwtPrivateKey);
+      active = {
+        kid: config.jwtKeyId,
+        alg: config.jwtAlgorithm,
+        signingKey: privateKey,
+        verificationKey: crypto.createPublicKey(privateKey),
+        retireAt: null
+      };
+    }
+
+    const byKid = new Map<string, TokenKey>([[active.kid, active]]);
+
+    for (const previous of config.jwtPreviousKeys) {
+      // The active key wins if a previous key reuses its kid
+      if (byKid.has(previous.kid)) {
+        continue;
+      }
+
+      byKid.set(previous.kid, {
+        kid: previous.kid,
+        alg: previous.alg,
+        signingKey: null,
+        verificationKey: previous.alg === 'HS256'
+          ? crypto.createSecretKey(Buffer.from(previous.secret!))
+          : crypto.createPublicKey(previous.publicKey!),
+        retireAt: previous.retireAt ? new Date(previous.retireAt).getTime() : null
+      });
+    }
+
+    keyring = { active, byKid };
+    return keyring;
+  }
+
+  private static createSignature(key: TokenKey, data: Buffer): Buffer {
+    const signingKey = key.signingKey!;
+
+    switch (key.alg) {
+      case 'HS256':
+        return crypto.createHmac('sha256', signingKey).update(data).digest();
+      case 'RS256':
+        return crypto.sign('sha256', data, signingKey);
+      case 'EdDSA':
+        return crypto.sign(null, data, signingKey);
+    }
+  }
+
+  private static checkSignature(key: TokenKey, data: Buffer, signature: Buffer): boolean {
+    try {
+      switch (key.alg) {
+        case 'HS256': {
+          const expected = crypto.createHmac('sha256', key.verificationKey).update(data).digest();
+          return expected.length === signature.length && crypto.timingSafeEqual(expected, signature);
+        }
+        case 'RS256':
+          return crypto.verify('sha256', data, key.verificationKey, signature);
+        case 'EdDSA':
+          return crypto.verify(null, data, key.verificationKey, signature);
+      }
+    } catch {
+      return false;
+    }
+  }
+
+  private static encodeSegment(value: object): string {
+    return Buffer.from(JSON.stringify(value)).toString('base64url');
+  }
+
+  private static decodeSegment(segment: string): Record<string, any> | null {
+    try {
+      const value = JSON.parse(Buffer.from(segment, 'base64url').toString('utf8'));
+      return value && typeof value === 'object' && !Array.isArray(value) ? value : null;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,350 @@
+import { db } from '../db';
+import { AuthService } from './auth.service';
+import { LessonAttachmentsService } from './lesson-attachments.service';
+
+export type UserRole = 'admin' | 'instructor' | 'student';
+
+export const USER_ROLES: UserRole[] = ['admin', 'instructor', 'student'];
+
+export interface User {
+  id: number;
+  email: string;
+  name: string;
+  role: UserRole;
+  created_at: Date;
+}
+
+export interface CreateUserData {
+  email: string;
+  password: string;
+  name: string;
+  role: UserRole;
+}
+
+export interface UpdateUserData {
+  email?: string;
+  name?: string;
+  password?: string;
+  role?: UserRole; // Only admin can change
+}
+
+export interface UserListOptions {
+  page?: number;
+  limit?: number;
+  search?: string;
+  role?: UserRole;
+}
+
+export interface UserListResult {
+  users: User[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
+
+export interface DeleteUserOptions {
+  reassignCoursesTo?: number; // Required when the user still owns courses
+}
+
+export interface DeleteUserResult {
+  coursesReassigned: number;
+  enrollmentsRemoved: number;
+  certificatesRevoked: number;
+  submissionsRemoved: number;
+  assignmentSubmissionsRemoved: number;
+}
+
+export class UsersService {
+  /**
+   * List users with pagination, search (name/email) and role filter
+   */
+  static async listUsers(options: UserListOptions = {}): Promise<UserListResult> {
+    const { page = 1, limit = 10, search, role } = options;
+
+    const offset = (page - 1) * limit;
+    const conditions: string[] = [];
+    const values: any[] = [];
+    let paramCount = 1;
+
+    if (role) {
+      conditions.push(`role = $${paramCount++}`);
+      values.push(role);
+    }
+
+    if (search) {
+      conditions.push(`(name ILIKE $${paramCount} OR email ILIKE $${paramCount})`);
+      values.push(`%${search}%`);
+      paramCount++;
+    }
+
+    const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countResult = await db.query(
+      `SELECT COUNT(*) as total FROM users ${whereClause}`,
+      values
+    );
+    const total = parseInt(countResult.rows[0].total);
+
+    values.push(limit, offset);
+
+    const usersResult = await db.query(
+      `SELECT id, email, name, role, created_at
+       FROM users
+       ${whereClause}
+       ORDER BY created_at DESC, id DESC
+       LIMIT $${paramCount++} OFFSET $${paramCount}`,
+      values
+    );
+
+    return {
+      users: usersResult.rows,
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    };
+  }
+
+  /**
+   * Get user by ID (without password hash)
+   */
+  static async getUserById(id: number): Promise<User | null> {
+    const result = await db.query(
+      'SELECT id, email, name, role, created_at FROM users WHERE id = $1',
+      [id]
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Create a user with an explicit role (admin only)
+   */
+  static async createUser(data: CreateUserData): Promise<User> {
+    const email = data.email.toLowerCase();
+
+    const existing = await db.query('SELECT id FROM users WHERE email = $1', [email]);
+    if (existing.rows.length > 0) {
+      throw new Error('EMAIL_EXISTS');
+    }
+
+    const hashedPassword = await AuthService.hashPassword(data.password);
+
+    const result = await db.query(
+      `INSERT INTO users (email, password_hash, name, role)
+       VALUES ($1, $2, $3, $4)
+       RETURNING id, email, name, role, created_at`,
+      [email, hashedPassword, data.name, data.role]
+    );
+
+    return result.rows[0];
+  }
+
+  /**
+   * Update user profile fields
+   * Authorization (self vs admin, role changes) is enforced by the controller
+   */
+  static async updateUser(id: number, data: UpdateUserData): Promise<User | null> {
+    const current = await this.getUserById(id);
+    if (!current) {
+      return null;
+    }
+
+    const updates: string[] = [];
+    const values: any[] = [];
+    let paramCount = 1;
+
+    if (data.email !== undefined) {
+      const email = data.email.toLowerCase();
+      if (email !== current.email) {
+        const existing = await db.query(
+          'SELECT id FROM users WHERE email = $1 AND id <> $2',
+          [email, id]
+        );
+        if (existing.rows.length > 0) {
+          throw new Error('EMAIL_EXISTS');
+        }
+      }
+      updates.push(`email = $${paramCount++}`);
+      values.push(email);
+    }
+
+    if (data.name !== undefined) {
+      updates.push(`name = $${paramCount++}`);
+      values.push(data.name);
+    }
+
+    if (data.password !== undefined) {
+      updates.push(`password_hash = $${paramCount++}`);
+      values.push(await AuthService.hashPassword(data.password));
+    }
+
+    if (data.role !== undefined && data.role !== current.role) {
+      // Never demote the last remaining admin
+      if (current.role === 'admin' && await this.countAdmins() <= 1) {
+        throw new Error('LAST_ADMIN');
+      }
+      updates.push(`role = $${paramCount++}`);
+      values.push(data.role);
+    }
+
+    if (updates.length === 0) {
+      return current;
+    }
+
+    values.push(id);
+
+    const result = await db.query(
+      `UPDATE users
+       SET ${updates.join(', ')}
+       WHERE id = $${paramCount}
+       RETURNING id, email, name, role, created_at`,
+      values
+    );
+
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Verify a user's current password (used for self-service password changes)
+   */
+  static async verifyCurrentPassword(id: number, password: string): Promise<boolean> {
+    const result = await db.query('SELECT password_hash FROM users WHERE id = $1', [id]);
+    if (!result.rows[0]) {
+      return false;
+    }
+    return AuthService.verifyPassword(password, result.rows[0].password_hash);
+  }
+
+  /**
+   * Delete a user (admin only)
+   *
+   * Behavior for related data:
+   * - Owned courses must be reassigned to another instructor/admin first
+   *   (pass reassignCoursesTo), otherwise USER_OWNS_COURSES is thrown;
+   *   the new owner leaves the staff of those courses
+   * - Enrollments (and their lesson progress) are removed
+   * - Certificates issued to the user are revoked (deleted)
+   * - Quiz submissions are removed
+   */
+  static async deleteUser(id: number, options: DeleteUserOptions = {}): Promise<DeleteUserResult> {
+    const client = await db.getClient();
+    let result: DeleteUserResult;
+
+    try {
+      await client.query('BEGIN');
+
+      const userResult = await client.query(
+        'SELECT id, role FROM users WHERE id = $1 FOR UPDATE',
+        [id]
+      );
+
+      if (userResult.rows.length === 0) {
+        throw new Error('NOT_FOUND');
+      }
+
+      if (userResult.rows[0].role === 'admin') {
+        const admins = await client.query("SELECT COUNT(*) as total FROM users WHERE role = 'admin'");
+        if (parseInt(admins.rows[0].total) <= 1) {
+          throw new Error('LAST_ADMIN');
+        }
+      }
+
+      const ownedResult = await client.query(
+        'SELECT COUNT(*) as total FROM courses WHERE instructor_id = $1',
+        [id]
+      );
+      const ownedCourses = parseInt(ownedResult.rows[0].total);
+
+      let coursesReassigned = 0;
+      if (ownedCourses > 0) {
+        if (!options.reassignCoursesTo) {
+          throw new Error('USER_OWNS_COURSES');
+        }
+
+        if (options.reassignCoursesTo === id) {
+          throw new Error('INVALID_REASSIGN_TARGET');
+        }
+
+        const targetResult = await client.query(
+          'SELECT id, role FROM users WHERE id = $1',
+          [options.reassignCoursesTo]
+        );
+        const target = targetResult.rows[0];
+        if (!target || !['instructor', 'admin'].includes(target.role)) {
+          throw new Error('INVALID_REASSIGN_TARGET');
+        }
+
+        // An owner is not also on the staff of their course
+        await client.query(
+          `DELETE FROM course_staff
+           WHERE user_id = $1 AND course_id IN (SELECT id FROM courses WHERE instructor_id = $2)`,
+          [options.reassignCoursesTo, id]
+        );
+
+        const reassigned = await client.query(
+          'UPDATE courses SET instructor_id = $1 WHERE instructor_id = $2',
+          [options.reassignCoursesTo, id]
+        );
+        coursesReassigned = reassigned.rowCount ?? 0;
+      }
+
+      const certificates = await client.query('DELETE FROM certificates WHERE user_id = $1', [id]);
+      await client.query('DELETE FROM quiz_attempts WHERE user_id = $1', [id]);
+      const submissions = await client.query('DELETE FROM quiz_submissions WHERE user_id = $1', [id]);
+      // Grades, files and regrade requests go with their submission
+      const assignmentSubmissions = await client.query('DELETE FROM assignment_submissions WHERE user_id = $1', [id]);
+      // lesson_progress rows cascade with their enrollment
+      const enrollments = await client.query('DELETE FROM enrollments WHERE user_id = $1', [id]);
+
+      await client.query('DELETE FROM users WHERE id = $1', [id]);
+
+      await client.query('COMMIT');
+
+      result = {
+        coursesReassigned,
+        enrollmentsRemoved: enrollments.rowCount ?? 0,
+        certificatesRevoked: certificates.rowCount ?? 0,
+        submissionsRemoved: submissions.rowCount ?? 0,
+        assignmentSubmissionsRemoved: assignmentSubmissions.rowCount ?? 0
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    // Submission files went with the user; drop files nothing else uses.
+    // The user is gone either way, so a failure is only logged and left for the next cleanup.
+    if (result.assignmentSubmissionsRemoved > 0) {
+      try {
+        await LessonAttachmentsService.deleteUnreferencedObjects();
+      } catch (error) {
+        console.error(`Failed to remove stored objects after deleting user ${id}:`, error);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Count admin accounts
+   */
+  private static async countAdmins(): Promise<number> {
+    const result = await db.query("SELECT COUNT(*) as total FROM users WHERE role = 'admin'");
+    return parseInt(result.rows[0].total);
+  }
+
+  /**
+   * Validate role value
+   */
+  static isValidRole(role: any): role is UserRole {
+    return USER_ROLES.includes(role);
+  }
+}
@@ -0,0 +1,136 @@
+/**
+ * Assignment rubrics and late penalties
+ *
+ * Pure functions with no I/O. A rubric is a list of criteria, each with
+ * levels worth some points; a grader picks one level per criterion and the
+ * grade is the sum of the picked levels' points. The most an assignment is
+ * worth is the sum of each criterion's best level.
+ *
+ * Lateness counts started days past the due date: a submission one minute
+ * late is one day late. Each late day deducts late_penalty_per_day percent
+ * of the earned points, up to late_penalty_max percent. Without a per-day
+ * penalty late submissions are refused; late_cutoff_days refuses them once
+ * that many days have passed.
+ */
+
+export const SUBMISSION_TYPES = ['text', 'file', 'both'] as const;
+
+export type SubmissionType = typeof SUBMISSION_TYPES[number];
+
+export interface RubricLevel {
+  title: string;
+  description: string | null;
+  points: number;
+}
+
+export interface RubricCriterion {
+  title: string;
+  description: string | null;
+  levels: RubricLevel[];
+}
+
+export interface LatePolicy {
+  due_at: Date | null;
+  late_penalty_per_day: number | null; // Percentage; null refuses late submissions
+  late_penalty_max: number; // Percentage
+  late_cutoff_days: number | null;
+}
+
+// A grader's pick for one criterion, by index into the rubric
+export interface RubricSelection {
+  criterion: number;
+  level: number;
+  comment?: string | null;
+}
+
+export interface RubricScore {
+  criterion: number;
+  level: number;
+  points: number;
+  comment: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function roundPoints(points: number): number {
+  return Math.round(points * 100) / 100;
+}
+
+/**
+ * A validated rubric with only its known fields, titles trimmed
+ */
+export function normalizeRubric(rubric: any[]): RubricCriterion[] {
+  return rubric.map(criterion => ({
+    title: criterion.title.trim(),
+    description: criterion.description ?? null,
+    levels: criterion.levels.map((level: any) => ({
+      title: level.title.trim(),
+      description: level.description ?? null,
+      points: level.points
+    }))
+  }));
+}
+
+/**
+ * The most points a rubric awards: the best level of every criterion
+ */
+export function rubricMaxPoints(rubric: RubricCriterion[]): number {
+  return roundPoints(
+    rubric.reduce((sum, criterion) => sum + Math.max(0, ...criterion.levels.map(level => level.points)), 0)
+  );
+}
+
+/**
+ * Started days between the due date and the submission; 0 when on time or without a due date
+ */
+export function lateDays(dueAt: Date | null, submittedAt: Date): number {
+  if (!dueAt || submittedAt.getTime() <= dueAt.getTime()) {
+    return 0;
+  }
+  return Math.ceil((submittedAt.getTime() - dueAt.getTime()) / DAY_MS);
+}
+
+/**
+ * Whether a submission this many days late is accepted
+ */
+export function acceptsSubmission(policy: LatePolicy, daysLate: number): boolean {
+  if (daysLate === 0) {
+    return true;
+  }
+  if (policy.late_penalty_per_day === null) {
+    return false;
+  }
+  return policy.late_cutoff_days === null || daysLate <= policy.late_cutoff_days;
+}
+
+/**
+ * Percentage of the earned points deducted for a submission this many days late
+ */
+export function latePenaltyPercent(policy: LatePolicy, daysLate: number): number {
+  if (daysLate === 0 || policy.late_penalty_per_day === null) {
+    return 0;
+  }
+  return Math.min(policy.late_penalty_max, roundPoints(daysLate * policy.late_penalty_per_day));
+}
+
+/**
+ * Score a grader's picks, one per criterion, in rubric order
+ * Picks must name existing criteria and levels (AssignmentValidator.validateGrade).
+ */
+export function scoreRubric(rubric: RubricCriterion[], selections: RubricSelection[]): RubricScore[] {
+  return [...selections]
+    .sort((a, b) => a.criterion - b.criterion)
+    .map(selection => ({
+      criterion: selection.criterion,
+      level: selection.level,
+      points: rubric[selection.criterion].levels[selection.level].points,
+      comment: selection.comment ?? null
+    }));
+}
+
+/**
+ * Points left after deducting a late penalty percentage
+ */
+export function applyLatePenalty(rawPoints: number, penaltyPercent: number): number {
+  return roundPoints(rawPoints * (1 - penaltyPercent / 100));
+}
@@ -0,0 +1,183 @@
+/**
+ * Line-based text diff (Myers' O(ND) algorithm) and unified diff output
+ *
+ * Pure functions with no I/O, used to compare revisions of markdown content.
+ */
+
+export interface DiffLine {
+  op: 'equal' | 'insert' | 'delete';
+  text: string;
+  oldNumber: number | null; // 1-based line in the old text, null for inserts
+  newNumber: number | null; // 1-based line in the new text, null for deletes
+}
+
+export interface DiffStats {
+  added: number;
+  removed: number;
+}
+
+function splitLines(text: string): string[] {
+  return text === '' ? [] : text.split(/\r?\n/);
+}
+
+/**
+ * Shortest edit script between two line arrays, as ops in old/new order
+ */
+function shortestEdit(a: string[], b: string[]): DiffLine['op'][] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  search:
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        break search;
+      }
+    }
+  }
+
+  // Walk the trace back from the end to recover the path
+  const ops: DiffLine['op'][] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && snapshot[offset + k - 1] < snapshot[offset + k + 1]) ? k + 1 : k - 1;
+    const prevX = d === 0 ? 0 : snapshot[offset + prevK];
+    const prevY = d === 0 ? 0 : prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push('equal');
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      ops.push(x === prevX ? 'insert' : 'delete');
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * Diff two texts line by line
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  // Common prefix and suffix need no search
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const ops: DiffLine['op'][] = [
+    ...Array<DiffLine['op']>(start).fill('equal'),
+    ...shortestEdit(a.slice(start, endA), b.slice(start, endB)),
+    ...Array<DiffLine['op']>(a.length - endA).fill('equal')
+  ];
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  for (const op of ops) {
+    if (op === 'equal') {
+      lines.push({ op, text: a[i], oldNumber: i + 1, newNumber: j + 1 });
+      i++;
+      j++;
+    } else if (op === 'delete') {
+      lines.push({ op, text: a[i], oldNumber: i + 1, newNumber: null });
+      i++;
+    } else {
+      lines.push({ op, text: b[j], oldNumber: null, newNumber: j + 1 });
+      j++;
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Count added and removed lines
+ */
+export function diffStats(lines: DiffLine[]): DiffStats {
+  return {
+    added: lines.filter(line => line.op === 'insert').length,
+    removed: lines.filter(line => line.op === 'delete').length
+  };
+}
+
+/**
+ * Render a diff in unified format with `context` unchanged lines around each change
+ * @returns An empty string when the texts are equal
+ */
+export function formatUnifiedDiff(lines: DiffLine[], oldLabel: string, newLabel: string, context = 3): string {
+  const changed = lines
+    .map((line, index) => (line.op === 'equal' ? -1 : index))
+    .filter(index => index >= 0);
+
+  if (changed.length === 0) {
+    return '';
+  }
+
+  // Group changes whose context windows touch into hunks of [from, to] indexes
+  const hunks: [number, number][] = [];
+  for (const index of changed) {
+    const from = Math.max(0, index - context);
+    const to = Math.min(lines.length - 1, index + context);
+    const last = hunks[hunks.length - 1];
+    if (last && from <= last[1] + 1) {
+      last[1] = to;
+    } else {
+      hunks.push([from, to]);
+    }
+  }
+
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+
+  for (const [from, to] of hunks) {
+    const hunk = lines.slice(from, to + 1);
+    const oldCount = hunk.filter(line => line.op !== 'insert').length;
+    const newCount = hunk.filter(line => line.op !== 'delete').length;
+
+    // Lines of each text that come before the hunk
+    const oldBefore = lines.slice(0, from).filter(line => line.op !== 'insert').length;
+    const newBefore = lines.slice(0, from).filter(line => line.op !== 'delete').length;
+
+    // An empty range names the line before it
+    const oldStart = oldCount === 0 ? oldBefore : oldBefore + 1;
+    const newStart = newCount === 0 ? newBefore : newBefore + 1;
+
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+    for (const line of hunk) {
+      const prefix = line.op === 'insert' ? '+' : line.op === 'delete' ? '-' : ' ';
+      output.push(prefix + line.text);
+    }
+  }
+
+  return output.join('\n') + '\n';
+}
@@ -0,0 +1,394 @@
+/**
+ * Quiz question model and grading
+ *
+ * Pure functions with no I/O. Every question type grades an answer to a
+ * fraction between 0 and 1 of the question's points:
+ *
+ *   single_choice    index of the chosen choice; all or nothing
+ *   multiple_choice  indexes of the chosen choices; (right picks - wrong picks) / right choices, at least 0
+ *   true_false       boolean; all or nothing
+ *   numeric          number within tolerance of the correct value; all or nothing
+ *   short_text       text matching one of the accepted answers; all or nothing
+ *   ordering         item indexes in the chosen order; share of items in their correct place
+ *   matching         for each item, the index of the chosen match; share of items matched correctly
+ *
+ * Unanswered questions (null) and answers of the wrong shape earn nothing.
+ *
+ * Questions, and the choices, items and matches within them, can be shown
+ * to each student in a different order. The order comes from a seed kept
+ * with the attempt; the presented definition has its answer key re-indexed
+ * to that order, so answers are given and graded against what the student saw.
+ */
+
+export const QUESTION_TYPES = [
+  'single_choice',
+  'multiple_choice',
+  'true_false',
+  'numeric',
+  'short_text',
+  'ordering',
+  'matching'
+] as const;
+
+export type QuestionType = typeof QUESTION_TYPES[number];
+
+// How hard a question bank question is; used to filter random draws
+export const QUESTION_DIFFICULTIES = ['easy', 'medium', 'hard'] as const;
+
+export type QuestionDifficulty = typeof QUESTION_DIFFICULTIES[number];
+
+export type QuestionDefinition =
+  | { type: 'single_choice'; choices: string[]; correct_index: number }
+  | { type: 'multiple_choice'; choices: string[]; correct_indices: number[] }
+  | { type: 'true_false'; correct_answer: boolean }
+  | { type: 'numeric'; correct_value: number; tolerance: number }
+  | { type: 'short_text'; accepted_answers: string[]; case_sensitive: boolean }
+  | { type: 'ordering'; items: string[]; correct_order: number[] }
+  | { type: 'matching'; items: string[]; matches: string[]; correct_matches: number[] };
+
+/**
+ * Fields of each type that give the answer away; hidden from students
+ */
+export const ANSWER_KEY_FIELDS: Record<QuestionType, string[]> = {
+  single_choice: ['correct_index'],
+  multiple_choice: ['correct_indices'],
+  true_false: ['correct_answer'],
+  numeric: ['correct_value', 'tolerance'],
+  short_text: ['accepted_answers', 'case_sensitive'],
+  ordering: ['correct_order'],
+  matching: ['correct_matches']
+};
+
+export interface GradableQuestion {
+  id: number;
+  points: number;
+  definition: QuestionDefinition;
+}
+
+/**
+ * A question as frozen into a quiz version
+ */
+export interface SnapshotQuestion extends GradableQuestion {
+  prompt: string;
+}
+
+export interface ShuffleOptions {
+  shuffle_questions: boolean;
+  shuffle_choices: boolean;
+}
+
+export interface QuestionGrade {
+  id: number;
+  correct: boolean;
+  points: number;
+  max_points: number;
+}
+
+export interface QuizGrade {
+  total: number;
+  correct: number;
+  points: number;
+  max_points: number;
+  score: number; // Percentage of max_points
+  questions: QuestionGrade[];
+}
+
+// Numeric answers are compared with this much slack for floating point error
+const NUMERIC_EPSILON = 1e-9;
+
+/**
+ * The definition of a question from its type and fields, keeping only the
+ * fields of that type and filling in defaults. Expects validated data.
+ */
+export function toDefinition(type: QuestionType, data: any): QuestionDefinition {
+  switch (type) {
+    case 'single_choice':
+      return { type, choices: data.choices, correct_index: data.correct_index };
+    case 'multiple_choice':
+      return { type, choices: data.choices, correct_indices: [...new Set<number>(data.correct_indices)].sort((a, b) => a - b) };
+    case 'true_false':
+      return { type, correct_answer: data.correct_answer };
+    case 'numeric':
+      return { type, correct_value: data.correct_value, tolerance: data.tolerance ?? 0 };
+    case 'short_text':
+      return { type, accepted_answers: data.accepted_answers, case_sensitive: data.case_sensitive ?? false };
+    case 'ordering':
+      return { type, items: data.items, correct_order: data.correct_order };
+    case 'matching':
+      return { type, items: data.items, matches: data.matches, correct_matches: data.correct_matches };
+  }
+}
+
+/**
+ * A question or definition without the fields that give the answer away
+ */
+export function withoutAnswerKey<T extends { type: QuestionType }>(question: T): Partial<T> {
+  const hidden = ANSWER_KEY_FIELDS[question.type];
+  return Object.fromEntries(Object.entries(question).filter(([field]) => !hidden.includes(field))) as Partial<T>;
+}
+
+function isIndex(value: unknown, length: number): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) < length;
+}
+
+function normalizeText(text: string, caseSensitive: boolean): string {
+  const collapsed = text.trim().replace(/\s+/g, ' ');
+  return caseSensitive ? collapsed : collapsed.toLowerCase();
+}
+
+/**
+ * Whether text matches an accepted-answer pattern
+ * Both are trimmed with runs of whitespace collapsed; '*' in the pattern
+ * matches any run of characters, including none.
+ */
+export function matchesPattern(pattern: string, text: string, caseSensitive = false): boolean {
+  const p = normalizeText(pattern, caseSensitive);
+  const t = normalizeText(text, caseSensitive);
+
+  // Greedy wildcard match, backtracking only to the last '*'
+  let pi = 0;
+  let ti = 0;
+  let star = -1;
+  let starText = 0;
+
+  while (ti < t.length) {
+    if (pi < p.length && p[pi] === '*') {
+      star = pi++;
+      starText = ti;
+    } else if (pi < p.length && p[pi] === t[ti]) {
+      pi++;
+      ti++;
+    } else if (star !== -1) {
+      pi = star + 1;
+      ti = ++starText;
+    } else {
+      return false;
+    }
+  }
+
+  while (pi < p.length && p[pi] === '*') {
+    pi++;
+  }
+  return pi === p.length;
+}
+
+/**
+ * Share of positions where the answer has the expected index
+ */
+function positionalCredit(expected: number[], answer: unknown, optionCount: number): number {
+  if (!Array.isArray(answer) || answer.length !== expected.length) {
+    return 0;
+  }
+  if (!answer.every(value => value === null || isIndex(value, optionCount))) {
+    return 0;
+  }
+  return expected.filter((index, i) => answer[i] === index).length / expected.length;
+}
+
+/**
+ * Credit for one answer, from 0 to 1
+ */
+export function gradeAnswer(definition: QuestionDefinition, answer: unknown): number {
+  if (answer === null || answer === undefined) {
+    return 0;
+  }
+
+  switch (definition.type) {
+    case 'single_choice':
+      return answer === definition.correct_index ? 1 : 0;
+
+    case 'multiple_choice': {
+      if (!Array.isArray(answer) || !answer.every(value => isIndex(value, definition.choices.length))) {
+        return 0;
+      }
+      const picked = new Set<number>(answer);
+      let right = 0;
+      let wrong = 0;
+      for (const index of picked) {
+        if (definition.correct_indices.includes(index)) right++;
+        else wrong++;
+      }
+      return Math.max(0, (right - wrong) / definition.correct_indices.length);
+    }
+
+    case 'true_false':
+      return answer === definition.correct_answer ? 1 : 0;
+
+    case 'numeric':
+      return typeof answer === 'number' && Number.isFinite(answer)
+        && Math.abs(answer - definition.correct_value) <= definition.tolerance + NUMERIC_EPSILON ? 1 : 0;
+
+    case 'short_text':
+      return typeof answer === 'string'
+        && definition.accepted_answers.some(pattern => matchesPattern(pattern, answer, definition.case_sensitive)) ? 1 : 0;
+
+    case 'ordering':
+      return positionalCredit(definition.correct_order, answer, definition.items.length);
+
+    case 'matching':
+      return positionalCredit(definition.correct_matches, answer, definition.matches.length);
+  }
+}
+
+function roundPoints(points: number): number {
+  return Math.round(points * 100) / 100;
+}
+
+/**
+ * Grade answers keyed by question ID
+ * Questions without an answer earn nothing.
+ */
+export function gradeQuiz(questions: GradableQuestion[], answers: Record<string, unknown>): QuizGrade {
+  let points = 0;
+  let maxPoints = 0;
+  let correct = 0;
+
+  const graded = questions.map(question => {
+    const credit = gradeAnswer(question.definition, answers[String(question.id)]);
+    const earned = credit * question.points;
+
+    points += earned;
+    maxPoints += question.points;
+    if (credit === 1) correct++;
+
+    return {
+      id: question.id,
+      correct: credit === 1,
+      points: roundPoints(earned),
+      max_points: question.points
+    };
+  });
+
+  return {
+    total: questions.length,
+    correct,
+    points: roundPoints(points),
+    max_points: roundPoints(maxPoints),
+    score: maxPoints > 0 ? (points / maxPoints) * 100 : 0,
+    questions: graded
+  };
+}
+
+/**
+ * Seeded pseudo-random numbers in [0, 1) (mulberry32)
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Indexes 0..length-1 in a seeded random order (Fisher-Yates)
+ */
+export function shuffledOrder(length: number, seed: number): number[] {
+  const next = seededRandom(seed);
+  const order = Array.from({ length }, (_, i) => i);
+  for (let i = length - 1; i > 0; i--) {
+    const j = Math.floor(next() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+}
+
+/**
+ * A definition with its options shown in the given order: order[i] is the
+ * original index of the option shown at position i. The answer key refers
+ * to the shown positions.
+ */
+export function presentDefinition(definition: QuestionDefinition, order: number[]): QuestionDefinition {
+  const position = new Map(order.map((original, shown) => [original, shown]));
+  const reorder = (options: string[]) => order.map(original => options[original]);
+  const shown = (original: number) => position.get(original)!;
+
+  switch (definition.type) {
+    case 'single_choice':
+      return { ...definition, choices: reorder(definition.choices), correct_index: shown(definition.correct_index) };
+    case 'multiple_choice':
+      return {
+        ...definition,
+        choices: reorder(definition.choices),
+        correct_indices: definition.correct_indices.map(shown).sort((a, b) => a - b)
+      };
+    case 'ordering':
+      return { ...definition, items: reorder(definition.items), correct_order: definition.correct_order.map(shown) };
+    case 'matching':
+      return { ...definition, matches: reorder(definition.matches), correct_matches: definition.correct_matches.map(shown) };
+    default:
+      return definition;
+  }
+}
+
+/**
+ * Number of options of a definition that shuffling reorders
+ */
+function shuffledOptionCount(definition: QuestionDefinition): number {
+  switch (definition.type) {
+    case 'single_choice':
+    case 'multiple_choice':
+      return definition.choices.length;
+    case 'ordering':
+      return definition.items.length;
+    case 'matching':
+      return definition.matches.length;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Questions in the order and form one student sees them
+ * Without a seed nothing is shuffled. Each question's options are shuffled
+ * with a seed derived from the attempt's seed and the question ID, so
+ * adding or removing other questions does not change them.
+ */
+export function presentQuestions<T extends GradableQuestion>(questions: T[], seed: number | null, options: ShuffleOptions): T[] {
+  if (seed === null) {
+    return questions;
+  }
+
+  const ordered = options.shuffle_questions
+    ? shuffledOrder(questions.length, seed).map(index => questions[index])
+    : questions;
+
+  if (!options.shuffle_choices) {
+    return ordered;
+  }
+
+  return ordered.map(question => {
+    const count = shuffledOptionCount(question.definition);
+    if (count < 2) {
+      return question;
+    }
+    const order = shuffledOrder(count, (seed ^ Math.imul(question.id, 0x9e3779b1)) >>> 0);
+    return { ...question, definition: presentDefinition(question.definition, order) };
+  });
+}
+
+export const SCORE_POLICIES = ['best', 'latest', 'average'] as const;
+
+export type ScorePolicy = typeof SCORE_POLICIES[number];
+
+/**
+ * The score that counts for a student, from their scores in submission order
+ * @returns null when nothing was submitted
+ */
+export function countedScore(policy: ScorePolicy, scores: number[]): number | null {
+  if (scores.length === 0) {
+    return null;
+  }
+
+  switch (policy) {
+    case 'best':
+      return Math.max(...scores);
+    case 'latest':
+      return scores[scores.length - 1];
+    case 'average':
+      return scores.reduce((sum, score) => sum + score, 0) / scores.length;
+  }
+}
@@ -0,0 +1,148 @@
+import crypto from 'crypto';
+
+/**
+ * Time-based one-time passwords (RFC 6238) on top of HOTP (RFC 4226)
+ *
+ * Pure functions with no I/O. Every time-dependent function takes `now`
+ * (milliseconds since epoch) so codes can be generated and verified offline
+ * against a fixed clock.
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const TOTP_DIGITS = 6;
+export const TOTP_PERIOD_SECONDS = 30;
+
+export interface TotpVerifyOptions {
+  now?: number;
+  window?: number; // Accepted clock drift in time steps on each side
+}
+
+/**
+ * Encode bytes as RFC 4648 base32 without padding
+ */
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Decode RFC 4648 base32 (case-insensitive, spaces and padding ignored)
+ */
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Generate a random base32 secret (160 bits, as recommended by RFC 4226)
+ */
+export function generateSecret(byteLength = 20): string {
+  return base32Encode(crypto.randomBytes(byteLength));
+}
+
+/**
+ * HOTP code for a counter value
+ */
+export function hotp(secret: string, counter: number): string {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counterBuffer).digest();
+
+  // Dynamic truncation
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Time step for a point in time
+ */
+export function timeStep(now: number = Date.now()): number {
+  return Math.floor(now / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+/**
+ * TOTP code for a point in time
+ */
+export function totp(secret: string, now: number = Date.now()): string {
+  return hotp(secret, timeStep(now));
+}
+
+/**
+ * Verify a TOTP code, allowing `window` steps of clock drift
+ * @returns The matching time step (use it to reject replays) or null
+ */
+export function verifyTotp(secret: string, code: string, options: TotpVerifyOptions = {}): number | null {
+  const { now = Date.now(), window = 1 } = options;
+  const normalized = code.replace(/\s/g, '');
+
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) {
+    return null;
+  }
+
+  const current = timeStep(now);
+  for (let drift = -window; drift <= window; drift++) {
+    const step = current + drift;
+    const expected = hotp(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Provisioning URI understood by authenticator apps (usually shown as a QR code)
+ */
+export function buildOtpAuthUri(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(TOTP_DIGITS),
+    period: String(TOTP_PERIOD_SECONDS)
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
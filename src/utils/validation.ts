@@ -1,3 +1,6 @@
+import { QUESTION_DIFFICULTIES, QUESTION_TYPES, SCORE_POLICIES } from './quiz-grading';
+import { RubricCriterion, SUBMISSION_TYPES } from './assignment-grading';
+
 export interface ValidationError {
   field: string;
   message: string;
@@ -9,6 +12,9 @@ export interface ValidationResult {
 }
 
 export class CourseValidator {
+  static readonly VALID_LEVELS = ['beginner', 'intermediate', 'advanced'];
+  static readonly VALID_SORTS = ['newest', 'popular', 'rating', 'price_asc', 'price_desc'];
+
   /**
    * Validate course creation data
    */
@@ -50,6 +56,8 @@ export class CourseValidator {
       }
     }
 
+    this.validateCatalogFields(data, errors);
+
     return {
       isValid: errors.length === 0,
       errors
@@ -97,6 +105,112 @@ export class CourseValidator {
       }
     }
 
+    this.validateCatalogFields(data, errors);
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Catalog fields shared by create and update (all optional, null clears them)
+   */
+  private static validateCatalogFields(data: any, errors: ValidationError[]): void {
+    if (data.category_id !== undefined && data.category_id !== null) {
+      if (!Number.isInteger(data.category_id) || data.category_id <= 0) {
+        errors.push({ field: 'category_id', message: 'Category ID must be a positive integer' });
+      }
+    }
+
+    if (data.level !== undefined && data.level !== null && !this.VALID_LEVELS.includes(data.level)) {
+      errors.push({ field: 'level', message: `Level must be one of: ${this.VALID_LEVELS.join(', ')}` });
+    }
+
+    if (data.language !== undefined && data.language !== null) {
+      if (typeof data.language !== 'string' || !/^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/.test(data.language) || data.language.length > 20) {
+        errors.push({ field: 'language', message: 'Language must be a language tag such as en or pt-BR' });
+      }
+    }
+
+    if (data.tags !== undefined) {
+      if (!Array.isArray(data.tags) || !data.tags.every((tag: unknown) => typeof tag === 'string')) {
+        errors.push({ field: 'tags', message: 'Tags must be an array of strings' });
+      } else if (data.tags.length > 20) {
+        errors.push({ field: 'tags', message: 'A course can have at most 20 tags' });
+      } else if (data.tags.some((tag: string) => tag.trim().length === 0 || tag.trim().length > 50)) {
+        errors.push({ field: 'tags', message: 'Each tag must be 1 to 50 characters' });
+      }
+    }
+  }
+
+  /**
+   * Lowercase, trimmed, deduplicated tags
+   */
+  static normalizeTags(tags: string[]): string[] {
+    return [...new Set(tags.map(tag => tag.trim().toLowerCase().replace(/\s+/g, ' ')))];
+  }
+
+  /**
+   * Canonical case of a language tag ("PT-br" -> "pt-BR")
+   */
+  static normalizeLanguage(language: string): string {
+    return language
+      .split('-')
+      .map((part, index) => index === 0 ? part.toLowerCase() : part.length === 2 ? part.toUpperCase() : part.toLowerCase())
+      .join('-');
+  }
+
+  /**
+   * Catalog filters and sort order from the listing query string
+   * Lists are comma-separated: ?tag=sql,postgres&level=beginner,intermediate&language=en
+   */
+  static parseCatalogQuery(query: any): {
+    filters: { category?: string; tags?: string[]; levels?: string[]; languages?: string[]; sort?: string };
+    errors: ValidationError[];
+  } {
+    const errors: ValidationError[] = [];
+    const list = (value: any): string[] | undefined => {
+      if (typeof value !== 'string') return undefined;
+      const items = value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+      return items.length > 0 ? items : undefined;
+    };
+
+    const tags = list(query.tag);
+    const levels = list(query.level);
+    const languages = list(query.language);
+    const category = typeof query.category === 'string' && query.category.trim() ? query.category.trim() : undefined;
+
+    if (levels && !levels.every(level => this.VALID_LEVELS.includes(level))) {
+      errors.push({ field: 'level', message: `Level must be one of: ${this.VALID_LEVELS.join(', ')}` });
+    }
+
+    if (query.sort !== undefined && !this.VALID_SORTS.includes(query.sort)) {
+      errors.push({ field: 'sort', message: `Sort must be one of: ${this.VALID_SORTS.join(', ')}` });
+    }
+
+    return {
+      filters: {
+        category,
+        tags: tags && this.normalizeTags(tags),
+        levels,
+        languages: languages?.map(language => this.normalizeLanguage(language)),
+        sort: query.sort
+      },
+      errors
+    };
+  }
+
+  /**
+   * Validate a course rating: { rating: 1-5 }
+   */
+  static validateRating(data: any): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    if (!Number.isInteger(data.rating) || data.rating < 1 || data.rating > 5) {
+      errors.push({ field: 'rating', message: 'Rating must be a whole number from 1 to 5' });
+    }
+
     return {
       isValid: errors.length === 0,
       errors
@@ -167,6 +281,44 @@ export class CourseValidator {
     }
     return undefined;
   }
+
+  /**
+   * Validate clone request: { title? }
+   */
+  static validateClone(data: any): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    if (data.title !== undefined && data.title !== null) {
+      if (typeof data.title !== 'string') {
+        errors.push({ field: 'title', message: 'Title must be a string' });
+      } else if (data.title.trim().length === 0) {
+        errors.push({ field: 'title', message: 'Title cannot be empty' });
+      } else if (data.title.length > 255) {
+        errors.push({ field: 'title', message: 'Title must be 255 characters or less' });
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validate template flag update: { isTemplate: boolean }
+   */
+  static validateTemplate(data: any): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    if (typeof data.isTemplate !== 'boolean') {
+      errors.push({ field: 'isTemplate', message: 'isTemplate must be a boolean' });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
 }
 
 export class QuizValidator {
@@ -185,6 +337,50 @@ export class QuizValidator {
       errors.push({ field: 'title', message: 'Title must be 255 characters or less' });
     }
 
+    errors.push(...this.validateSettings(data).errors);
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validate quiz settings; every field is optional and null turns a limit off
+   * { max_attempts, time_limit_minutes, pass_score, score_policy, cooldown_minutes,
+   *   shuffle_questions, shuffle_choices }
+   */
+  static validateSettings(data: any): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    const limits: Array<[string, number]> = [
+      ['max_attempts', 100],
+      ['time_limit_minutes', 1440],
+      ['cooldown_minutes', 10080]
+    ];
+    for (const [field, max] of limits) {
+      const value = data[field];
+      if (value !== undefined && value !== null && (!Number.isInteger(value) || value < 1 || value > max)) {
+        errors.push({ field, message: `${field} must be an integer between 1 and ${max}, or null` });
+      }
+    }
+
+    if (data.pass_score !== undefined && data.pass_score !== null) {
+      if (typeof data.pass_score !== 'number' || !Number.isFinite(data.pass_score) || data.pass_score < 0 || data.pass_score > 100) {
+        errors.push({ field: 'pass_score', message: 'pass_score must be a percentage between 0 and 100, or null' });
+      }
+    }
+
+    if (data.score_policy !== undefined && !SCORE_POLICIES.includes(data.score_policy)) {
+      errors.push({ field: 'score_policy', message: `score_policy must be one of: ${SCORE_POLICIES.join(', ')}` });
+    }
+
+    for (const field of ['shuffle_questions', 'shuffle_choices']) {
+      if (data[field] !== undefined && typeof data[field] !== 'boolean') {
+        errors.push({ field, message: `${field} must be a boolean` });
+      }
+    }
+
     return {
       isValid: errors.length === 0,
       errors
@@ -193,6 +389,7 @@ export class QuizValidator {
 
   /**
    * Validate quiz question creation data
+   * type defaults to single_choice; the fields required depend on the type
    */
   static validateCreateQuestion(data: any): ValidationResult {
     const errors: ValidationError[] = [];
@@ -204,38 +401,14 @@ export class QuizValidator {
       errors.push({ field: 'prompt', message: 'Prompt cannot be empty' });
     }
 
-    // Choices validation
-    if (!data.choices) {
-      errors.push({ field: 'choices', message: 'Choices array is required' });
-    } else if (!Array.isArray(data.choices)) {
-      errors.push({ field: 'choices', message: 'Choices must be an array' });
-    } else if (data.choices.length < 2) {
-      errors.push({ field: 'choices', message: 'At least 2 choices are required' });
-    } else {
-      // Validate each choice
-      for (let i = 0; i < data.choices.length; i++) {
-        if (typeof data.choices[i] !== 'string' || data.choices[i].trim().length === 0) {
-          errors.push({ 
-            field: 'choices', 
-            message: `Choice at index ${i} must be a non-empty string` 
-          });
-          break;
-        }
-      }
+    if (data.points !== undefined) {
+      this.validatePoints(data.points, errors);
     }
 
-    // Correct index validation
-    if (data.correct_index === undefined || data.correct_index === null) {
-      errors.push({ field: 'correct_index', message: 'Correct index is required' });
-    } else if (!Number.isInteger(data.correct_index)) {
-      errors.push({ field: 'correct_index', message: 'Correct index must be an integer' });
-    } else if (data.choices && Array.isArray(data.choices)) {
-      if (data.correct_index < 0 || data.correct_index >= data.choices.length) {
-        errors.push({ 
-          field: 'correct_index', 
-          message: `Correct index must be between 0 and ${data.choices.length - 1}` 
-        });
-      }
+    if (data.type !== undefined && !QUESTION_TYPES.includes(data.type)) {
+      errors.push({ field: 'type', message: `Type must be one of: ${QUESTION_TYPES.join(', ')}` });
+    } else {
+      errors.push(...this.validateQuestionDefinition({ ...data, type: data.type ?? 'single_choice' }).errors);
     }
 
     return {
@@ -246,6 +419,8 @@ export class QuizValidator {
 
   /**
    * Validate quiz question update data
+   * Type-specific fields are checked once merged with the stored question
+   * (see validateQuestionDefinition).
    */
   static validateUpdateQuestion(data: any): ValidationResult {
     const errors: ValidationError[] = [];
@@ -259,38 +434,112 @@ export class QuizValidator {
       }
     }
 
-    // Choices validation (optional for updates)
-    if (data.choices !== undefined) {
-      if (!Array.isArray(data.choices)) {
-        errors.push({ field: 'choices', message: 'Choices must be an array' });
-      } else if (data.choices.length < 2) {
-        errors.push({ field: 'choices', message: 'At least 2 choices are required' });
-      } else {
-        // Validate each choice
-        for (let i = 0; i < data.choices.length; i++) {
-          if (typeof data.choices[i] !== 'string' || data.choices[i].trim().length === 0) {
-            errors.push({ 
-              field: 'choices', 
-              message: `Choice at index ${i} must be a non-empty string` 
+    if (data.points !== undefined) {
+      this.validatePoints(data.points, errors);
+    }
+
+    if (data.type !== undefined && !QUESTION_TYPES.includes(data.type)) {
+      errors.push({ field: 'type', message: `Type must be one of: ${QUESTION_TYPES.join(', ')}` });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validate the type-specific fields of a question: { type, ...fields }
+   */
+  static validateQuestionDefinition(data: any): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    switch (data.type) {
+      case 'single_choice':
+        if (this.validateTextList('choices', data.choices, 2, errors)) {
+          if (data.correct_index === undefined || data.correct_index === null) {
+            errors.push({ field: 'correct_index', message: 'Correct index is required' });
+          } else if (!Number.isInteger(data.correct_index)) {
+            errors.push({ field: 'correct_index', message: 'Correct index must be an integer' });
+          } else if (data.correct_index < 0 || data.correct_index >= data.choices.length) {
+            errors.push({
+              field: 'correct_index',
+              message: `Correct index must be between 0 and ${data.choices.length - 1}`
             });
-            break;
           }
         }
-      }
-    }
+        break;
+
+      case 'multiple_choice':
+        if (this.validateTextList('choices', data.choices, 2, errors)) {
+          if (!Array.isArray(data.correct_indices) || data.correct_indices.length === 0) {
+            errors.push({ field: 'correct_indices', message: 'At least one correct index is required' });
+          } else if (!data.correct_indices.every((index: unknown) => this.isIndex(index, data.choices.length))) {
+            errors.push({
+              field: 'correct_indices',
+              message: `Correct indices must be integers between 0 and ${data.choices.length - 1}`
+            });
+          } else if (new Set(data.correct_indices).size !== data.correct_indices.length) {
+            errors.push({ field: 'correct_indices', message: 'Correct indices must not repeat' });
+          }
+        }
+        break;
 
-    // Correct index validation (optional for updates)
-    if (data.correct_index !== undefined) {
-      if (!Number.isInteger(data.correct_index)) {
-        errors.push({ field: 'correct_index', message: 'Correct index must be an integer' });
-      } else if (data.choices && Array.isArray(data.choices)) {
-        if (data.correct_index < 0 || data.correct_index >= data.choices.length) {
-          errors.push({ 
-            field: 'correct_index', 
-            message: `Correct index must be between 0 and ${data.choices.length - 1}` 
-          });
+      case 'true_false':
+        if (typeof data.correct_answer !== 'boolean') {
+          errors.push({ field: 'correct_answer', message: 'Correct answer is required and must be a boolean' });
+        }
+        break;
+
+      case 'numeric':
+        if (typeof data.correct_value !== 'number' || !Number.isFinite(data.correct_value)) {
+          errors.push({ field: 'correct_value', message: 'Correct value is required and must be a number' });
+        }
+        if (data.tolerance !== undefined && (typeof data.tolerance !== 'number' || !Number.isFinite(data.tolerance) || data.tolerance < 0)) {
+          errors.push({ field: 'tolerance', message: 'Tolerance must be a non-negative number' });
+        }
+        break;
+
+      case 'short_text':
+        if (this.validateTextList('accepted_answers', data.accepted_answers, 1, errors)) {
+          if (data.accepted_answers.some((answer: string) => answer.length > 255)) {
+            errors.push({ field: 'accepted_answers', message: 'Accepted answers must be 255 characters or less' });
+          }
+        }
+        if (data.case_sensitive !== undefined && typeof data.case_sensitive !== 'boolean') {
+          errors.push({ field: 'case_sensitive', message: 'case_sensitive must be a boolean' });
         }
+        break;
+
+      case 'ordering':
+        if (this.validateTextList('items', data.items, 2, errors)) {
+          if (!this.isPermutation(data.correct_order, data.items.length)) {
+            errors.push({
+              field: 'correct_order',
+              message: `Correct order must list each item index from 0 to ${data.items.length - 1} exactly once`
+            });
+          }
+        }
+        break;
+
+      case 'matching': {
+        const validItems = this.validateTextList('items', data.items, 2, errors);
+        const validMatches = this.validateTextList('matches', data.matches, 2, errors);
+        if (validItems && validMatches) {
+          if (!Array.isArray(data.correct_matches) || data.correct_matches.length !== data.items.length) {
+            errors.push({ field: 'correct_matches', message: 'Correct matches must have one entry per item' });
+          } else if (!data.correct_matches.every((index: unknown) => this.isIndex(index, data.matches.length))) {
+            errors.push({
+              field: 'correct_matches',
+              message: `Correct matches must be integers between 0 and ${data.matches.length - 1}`
+            });
+          }
+        }
+        break;
       }
+
+      default:
+        errors.push({ field: 'type', message: `Type must be one of: ${QUESTION_TYPES.join(', ')}` });
     }
 
     return {
@@ -300,30 +549,29 @@ export class QuizValidator {
   }
 
   /**
-   * Validate quiz submission
+   * Validate quiz submission against the questions of the attempt
+   * answers maps question IDs to answers; each is null or missing (unanswered)
+   * or has the shape its question's type expects.
    */
-  static validateSubmission(data: any, questionCount: number): ValidationResult {
+  static validateSubmission(data: any, questions: Array<Record<string, any>>): ValidationResult {
     const errors: ValidationError[] = [];
 
     // Answers validation
     if (!data.answers) {
-      errors.push({ field: 'answers', message: 'Answers array is required' });
-    } else if (!Array.isArray(data.answers)) {
-      errors.push({ field: 'answers', message: 'Answers must be an array' });
-    } else if (data.answers.length !== questionCount) {
-      errors.push({ 
-        field: 'answers', 
-        message: `Expected ${questionCount} answers, got ${data.answers.length}` 
-      });
+      errors.push({ field: 'answers', message: 'Answers object is required' });
+    } else if (typeof data.answers !== 'object' || Array.isArray(data.answers)) {
+      errors.push({ field: 'answers', message: 'Answers must be an object mapping question IDs to answers' });
     } else {
-      // Validate each answer is a valid integer
-      for (let i = 0; i < data.answers.length; i++) {
-        if (!Number.isInteger(data.answers[i]) || data.answers[i] < 0) {
-          errors.push({ 
-            field: 'answers', 
-            message: `Answer at index ${i} must be a non-negative integer` 
-          });
-          break;
+      const byId = new Map(questions.map(question => [String(question.id), question]));
+      for (const [id, answer] of Object.entries(data.answers)) {
+        const question = byId.get(id);
+        if (!question) {
+          errors.push({ field: `answers.${id}`, message: 'Not a question of this quiz attempt' });
+          continue;
+        }
+        const message = answer === null ? null : this.checkAnswer(question, answer);
+        if (message) {
+          errors.push({ field: `answers.${id}`, message });
         }
       }
     }
@@ -333,6 +581,74 @@ export class QuizValidator {
       errors
     };
   }
+
+  /**
+   * Problem with the shape of an answer, or null when it fits the question
+   */
+  private static checkAnswer(question: Record<string, any>, answer: any): string | null {
+    switch (question.type) {
+      case 'single_choice':
+        return this.isIndex(answer, question.choices.length) ? null : 'Answer must be the index of a choice';
+      case 'multiple_choice':
+        return Array.isArray(answer) && answer.every(index => this.isIndex(index, question.choices.length))
+          && new Set(answer).size === answer.length
+          ? null : 'Answer must be an array of distinct choice indices';
+      case 'true_false':
+        return typeof answer === 'boolean' ? null : 'Answer must be a boolean';
+      case 'numeric':
+        return typeof answer === 'number' && Number.isFinite(answer) ? null : 'Answer must be a number';
+      case 'short_text':
+        return typeof answer === 'string' && answer.length <= 1000 ? null : 'Answer must be a string of 1000 characters or less';
+      case 'ordering':
+        return this.isPermutation(answer, question.items.length) ? null : 'Answer must list each item index exactly once';
+      case 'matching':
+        return Array.isArray(answer) && answer.length === question.items.length
+          && answer.every(index => index === null || this.isIndex(index, question.matches.length))
+          ? null : 'Answer must give a match index (or null) for each item';
+      default:
+        return null;
+    }
+  }
+
+  private static validatePoints(points: any, errors: ValidationError[]): void {
+    if (typeof points !== 'number' || !Number.isFinite(points) || points <= 0 || points > 1000) {
+      errors.push({ field: 'points', message: 'Points must be a number greater than 0 and at most 1000' });
+    } else if (Math.round(points * 100) !== points * 100) {
+      errors.push({ field: 'points', message: 'Points can have at most 2 decimal places' });
+    }
+  }
+
+  /**
+   * Check a list of non-empty strings with at least min entries
+   * @returns whether the list is valid
+   */
+  private static validateTextList(field: string, value: any, min: number, errors: ValidationError[]): boolean {
+    if (!Array.isArray(value)) {
+      errors.push({ field, message: `${field} must be an array` });
+      return false;
+    }
+    if (value.length < min) {
+      errors.push({ field, message: `At least ${min} ${field} ${min === 1 ? 'is' : 'are'} required` });
+      return false;
+    }
+    const invalid = value.findIndex((entry: unknown) => typeof entry !== 'string' || entry.trim().length === 0);
+    if (invalid !== -1) {
+      errors.push({ field, message: `Entry at index ${invalid} of ${field} must be a non-empty string` });
+      return false;
+    }
+    return true;
+  }
+
+  private static isIndex(value: unknown, length: number): boolean {
+    return Number.isInteger(value) && (value as number) >= 0 && (value as number) < length;
+  }
+
+  private static isPermutation(value: unknown, length: number): boolean {
+    return Array.isArray(value)
+      && value.length === length
+      && value.every(index => this.isIndex(index, length))
+      && new Set(value).size === length;
+  }
 }
 
 export class LessonValidator {
@@ -374,6 +690,13 @@ export class LessonValidator {
       }
     }
 
+    // Module validation (optional, defaults to the course's last module)
+    if (data.module_id !== undefined && data.module_id !== null) {
+      if (!Number.isInteger(data.module_id) || data.module_id <= 0) {
+        errors.push({ field: 'module_id', message: 'Module ID must be a positive integer' });
+      }
+    }
+
     return {
       isValid: errors.length === 0,
       errors
@@ -421,10 +744,15 @@ export class LessonValidator {
 
   /**
    * Validate reorder request
+   * Accepts either a flat lessonIds array or a modules layout
    */
   static validateReorder(data: any): ValidationResult {
     const errors: ValidationError[] = [];
 
+    if (data.modules !== undefined) {
+      return this.validateModuleLayout(data.modules);
+    }
+
     if (!data.lessonIds) {
       errors.push({ field: 'lessonIds', message: 'Lesson IDs array is required' });
     } else if (!Array.isArray(data.lessonIds)) {
@@ -456,6 +784,64 @@ export class LessonValidator {
     };
   }
 
+  /**
+   * Validate a course layout: [{ id, lessonIds }] in module order
+   */
+  private static validateModuleLayout(modules: any): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    if (!Array.isArray(modules) || modules.length === 0) {
+      return {
+        isValid: false,
+        errors: [{ field: 'modules', message: 'Modules must be a non-empty array' }]
+      };
+    }
+
+    const moduleIds = new Set<number>();
+    const lessonIds = new Set<number>();
+
+    for (let i = 0; i < modules.length; i++) {
+      const module = modules[i];
+
+      if (!module || !Number.isInteger(module.id) || module.id <= 0) {
+        errors.push({ field: 'modules', message: `Invalid module ID at index ${i}: must be a positive integer` });
+        break;
+      }
+
+      if (moduleIds.has(module.id)) {
+        errors.push({ field: 'modules', message: 'Module IDs must not contain duplicates' });
+        break;
+      }
+      moduleIds.add(module.id);
+
+      if (!Array.isArray(module.lessonIds)) {
+        errors.push({ field: 'modules', message: `Lesson IDs of module ${module.id} must be an array` });
+        break;
+      }
+
+      const invalid = module.lessonIds.find((id: any) => !Number.isInteger(id) || id <= 0);
+      if (invalid !== undefined) {
+        errors.push({
+          field: 'modules',
+          message: `Invalid lesson ID in module ${module.id}: must be a positive integer`
+        });
+        break;
+      }
+
+      const before = lessonIds.size;
+      module.lessonIds.forEach((id: number) => lessonIds.add(id));
+      if (lessonIds.size !== before + module.lessonIds.length) {
+        errors.push({ field: 'modules', message: 'Each lesson must appear in exactly one module' });
+        break;
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
   /**
    * Check if a string is a valid URL
    */
@@ -588,6 +974,47 @@ export class ProgressValidator {
     };
   }
 
+  /**
+   * Validate a video player heartbeat
+   */
+  static validateHeartbeat(data: any): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    if (!data || typeof data !== 'object') {
+      return {
+        isValid: false,
+        errors: [{ field: 'data', message: 'Invalid data provided' }]
+      };
+    }
+
+    for (const field of ['enrollmentId', 'lessonId']) {
+      if (!Number.isInteger(data[field]) || data[field] <= 0) {
+        errors.push({ field, message: `${field} must be a positive integer` });
+      }
+    }
+
+    const isFiniteNumber = (value: any) => typeof value === 'number' && Number.isFinite(value);
+
+    if (!isFiniteNumber(data.duration) || data.duration <= 0) {
+      errors.push({ field: 'duration', message: 'Duration must be a positive number of seconds' });
+    }
+
+    if (!isFiniteNumber(data.position) || data.position < 0) {
+      errors.push({ field: 'position', message: 'Position must be a non-negative number of seconds' });
+    } else if (isFiniteNumber(data.duration) && data.position > data.duration) {
+      errors.push({ field: 'position', message: 'Position cannot be past the end of the video' });
+    }
+
+    if (data.playbackRate !== undefined && (!isFiniteNumber(data.playbackRate) || data.playbackRate < 0.25 || data.playbackRate > 4)) {
+      errors.push({ field: 'playbackRate', message: 'Playback rate must be between 0.25 and 4' });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
   /**
    * Validate course ID query parameter
    */
@@ -733,3 +1160,887 @@ export class CertificateValidator {
     };
   }
 }
+
+export class UserValidator {
+  private static readonly EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+  private static readonly VALID_ROLES = ['admin', 'instructor', 'student'];
+
+  /**
+   * Validate user creation data (admin)
+   */
+  static validateCreateUser(data: any): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    if (!data || typeof data !== 'object') {
+      return {
+        isValid: false,
+        errors: [{ field: 'data', message: 'Invalid data provided' }]
+      };
+    }
+
+    // Email validation
+    if (!data.email || typeof data.email !== 'string') {
+      errors.push({ field: 'email', message: 'Email is required and must be a string' });
+    } else if (!this.EMAIL_REGEX.test(data.email)) {
+      errors.push({ field: 'email', message: 'Invalid email format' });
+    }
+
+    // Password validation
+    if (!data.password || typeof data.password !== 'string') {
+      errors.push({ field: 'password', message: 'Password is required and must be a string' });
+    } else if (data.password.length < 6) {
+      errors.push({ field: 'password', message: 'Password must be at least 6 characters long' });
+    }
+
+    // Name validation
+    if (!data.name || typeof data.name !== 'string') {
+      errors.push({ field: 'name', message: 'Name is required and must be a string' });
+    } else if (data.name.trim().length === 0) {
+      errors.push({ field: 'name', message: 'Name cannot be empty' });
+    } else if (data.name.length > 255) {
+      errors.push({ field: 'name', message: 'Name must be 255 characters or less' });
+    }
+
+    // Role validation
+    if (!data.role) {
+      errors.push({ field: 'role', message: 'Role is required' });
+    } else if (!this.VALID_ROLES.includes(data.role)) {
+      errors.push({ field: 'role', message: 'Role must be one of: admin, instructor, student' });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validate user update data
+   */
+  static validateUpdateUser(data: any): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    if (!data || typeof data !== 'object') {
+      return {
+        isValid: false,
+        errors: [{ field: 'data', message: 'Invalid data provided' }]
+      };
+    }
+
+    if (data.email !== undefined) {
+      if (typeof data.email !== 'string') {
+        errors.push({ field: 'email', message: 'Email must be a string' });
+      } else if (!this.EMAIL_REGEX.test(data.email)) {
+        errors.push({ field: 'email', message: 'Invalid email format' });
+      }
+    }
+
+    if (data.name !== undefined) {
+      if (typeof data.name !== 'string') {
+        errors.push({ field: 'name', message: 'Name must be a string' });
+      } else if (data.name.trim().length === 0) {
+        errors.push({ field: 'name', message: 'Name cannot be empty' });
+      } else if (data.name.length > 255) {
+        errors.push({ field: 'name', message: 'Name must be 255 characters or less' });
+      }
+    }
+
+    if (data.password !== undefined) {
+      if (typeof data.password !== 'string') {
+        errors.push({ field: 'password', message: 'Password must be a string' });
+      } else if (data.password.length < 6) {
+        errors.push({ field: 'password', message: 'Password must be at least 6 characters long' });
+      }
+    }
+
+    if (data.currentPassword !== undefined && typeof data.currentPassword !== 'string') {
+      errors.push({ field: 'currentPassword', message: 'Current password must be a string' });
+    }
+
+    if (data.role !== undefined && !this.VALID_ROLES.includes(data.role)) {
+      errors.push({ field: 'role', message: 'Role must be one of: admin, instructor, student' });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validate list query parameters (pagination, search, role filter)
+   */
+  static validateListQuery(query: any): {
+    page: number;
+    limit: number;
+    search?: string;
+    role?: 'admin' | 'instructor' | 'student';
+  } {
+    const { page, limit } = CourseValidator.validatePagination(query);
+    const search = CourseValidator.sanitizeSearch(query.q);
+    const role = this.VALID_ROLES.includes(query.role) ? query.role : undefined;
+
+    return { page, limit, search, role };
+  }
+}
+
+export class InstructorApplicationValidator {
+  private static readonly VALID_STATUSES = ['pending', 'approved', 'rejected'];
+
+  /**
+   * Validate a new instructor application
+   */
+  static validateCreateApplication(data: any): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    if (!data || typeof data !== 'object') {
+      return {
+        isValid: false,
+        errors: [{ field: 'data', message: 'Invalid data provided' }]
+      };
+    }
+
+    if (!data.motivation || typeof data.motivation !== 'string') {
+      errors.push({ field: 'motivation', message: 'Motivation is required and must be a string' });
+    } else if (data.motivation.trim().length < 20) {
+      errors.push({ field: 'motivation', message: 'Motivation must be at least 20 characters long' });
+    } else if (data.motivation.length > 5000) {
+      errors.push({ field: 'motivation', message: 'Motivation must be 5000 characters or less' });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validate an approve/reject decision (a reason is required for rejections)
+   */
+  static validateDecision(data: any, reasonRequired: boolean): ValidationResult {
+    const errors: ValidationError[] = [];
+    const reason = data?.reason;
+
+    if (reason === undefined || reason === null) {
+      if (reasonRequired) {
+        errors.push({ field: 'reason', message: 'Reason is required' });
+      }
+    } else if (typeof reason !== 'string') {
+      errors.push({ field: 'reason', message: 'Reason must be a string' });
+    } else if (reasonRequired && reason.trim().length === 0) {
+      errors.push({ field: 'reason', message: 'Reason cannot be empty' });
+    } else if (reason.length > 2000) {
+      errors.push({ field: 'reason', message: 'Reason must be 2000 characters or less' });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validate and normalize list query parameters
+   */
+  static validateListQuery(query: any): {
+    page: number;
+    limit: number;
+    status?: 'pending' | 'approved' | 'rejected';
+  } {
+    const { page, limit } = CourseValidator.validatePagination(query);
+
+    const status = typeof query.status === 'string' && this.VALID_STATUSES.includes(query.status)
+      ? query.status as 'pending' | 'approved' | 'rejected'
+      : undefined;
+
+    return { page, limit, status };
+  }
+}
+
+export class ApiKeyValidator {
+  /**
+   * Validate API key creation data
+   * Scope values are checked against API_KEY_SCOPES by the caller
+   */
+  static validateCreateApiKey(data: any, isValidScope: (scope: any) => boolean): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    if (!data || typeof data !== 'object') {
+      return {
+        isValid: false,
+        errors: [{ field: 'data', message: 'Invalid data provided' }]
+      };
+    }
+
+    if (!data.name || typeof data.name !== 'string') {
+      errors.push({ field: 'name', message: 'Name is required and must be a string' });
+    } else if (data.name.trim().length === 0) {
+      errors.push({ field: 'name', message: 'Name cannot be empty' });
+    } else if (data.name.length > 100) {
+      errors.push({ field: 'name', message: 'Name must be 100 characters or less' });
+    }
+
+    if (!Array.isArray(data.scopes) || data.scopes.length === 0) {
+      errors.push({ field: 'scopes', message: 'Scopes must be a non-empty array' });
+    } else {
+      const invalid = data.scopes.filter((scope: any) => !isValidScope(scope));
+      if (invalid.length > 0) {
+        errors.push({ field: 'scopes', message: `Unknown scope(s): ${invalid.join(', ')}` });
+      }
+    }
+
+    if (data.expiresAt !== undefined && data.expiresAt !== null) {
+      const expiresAt = new Date(data.expiresAt);
+      if (typeof data.expiresAt !== 'string' || isNaN(expiresAt.getTime())) {
+        errors.push({ field: 'expiresAt', message: 'expiresAt must be an ISO 8601 date string' });
+      } else if (expiresAt <= new Date()) {
+        errors.push({ field: 'expiresAt', message: 'expiresAt must be in the future' });
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+}
+
+export class CourseStaffValidator {
+  static readonly VALID_ROLES = ['co_instructor', 'ta'];
+
+  /**
+   * Validate adding a staff member
+   */
+  static validateAddStaff(data: any): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    if (!data || typeof data !== 'object') {
+      return {
+        isValid: false,
+        errors: [{ field: 'data', message: 'Invalid data provided' }]
+      };
+    }
+
+    if (!Number.isInteger(data.userId) || data.userId <= 0) {
+      errors.push({ field: 'userId', message: 'userId is required and must be a positive integer' });
+    }
+
+    if (!this.VALID_ROLES.includes(data.role)) {
+      errors.push({ field: 'role', message: `Role must be one of: ${this.VALID_ROLES.join(', ')}` });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validate a staff role change
+   */
+  static validateUpdateStaff(data: any): ValidationResult {
+    if (!data || !this.VALID_ROLES.includes(data.role)) {
+      return {
+        isValid: false,
+        errors: [{ field: 'role', message: `Role must be one of: ${this.VALID_ROLES.join(', ')}` }]
+      };
+    }
+
+    return { isValid: true, errors: [] };
+  }
+
+  /**
+   * Validate an ownership transfer
+   */
+  static validateTransfer(data: any): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    if (!data || typeof data !== 'object') {
+      return {
+        isValid: false,
+        errors: [{ field: 'data', message: 'Invalid data provided' }]
+      };
+    }
+
+    if (!Number.isInteger(data.userId) || data.userId <= 0) {
+      errors.push({ field: 'userId', message: 'userId is required and must be a positive integer' });
+    }
+
+    if (data.previousOwnerRole !== undefined && data.previousOwnerRole !== null &&
+        !this.VALID_ROLES.includes(data.previousOwnerRole)) {
+      errors.push({
+        field: 'previousOwnerRole',
+        message: `previousOwnerRole must be one of: ${this.VALID_ROLES.join(', ')}, or null to remove the previous owner`
+      });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+}
+
+export class CourseModuleValidator {
+  /**
+   * Validate module creation data
+   */
+  static validateCreateModule(data: any): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    if (!data || typeof data !== 'object') {
+      return {
+        isValid: false,
+        errors: [{ field: 'data', message: 'Invalid data provided' }]
+      };
+    }
+
+    errors.push(...this.validateTitle(data.title));
+
+    if (data.position !== undefined && data.position !== null) {
+      if (!Number.isInteger(data.position) || data.position <= 0) {
+        errors.push({ field: 'position', message: 'Position must be a positive integer' });
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validate module update data (only the title can change; order is set by reordering)
+   */
+  static validateUpdateModule(data: any): ValidationResult {
+    const errors = this.validateTitle(data?.title);
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  private static validateTitle(title: any): ValidationError[] {
+    if (!title || typeof title !== 'string') {
+      return [{ field: 'title', message: 'Title is required and must be a string' }];
+    }
+    if (title.trim().length === 0) {
+      return [{ field: 'title', message: 'Title cannot be empty' }];
+    }
+    if (title.length > 255) {
+      return [{ field: 'title', message: 'Title must be 255 characters or less' }];
+    }
+    return [];
+  }
+}
+
+export class LessonReleaseValidator {
+  static readonly VALID_MODES = ['open', 'sequential'];
+
+  /**
+   * Validate a course release mode change
+   */
+  static validateReleaseMode(data: any): ValidationResult {
+    if (!data || !this.VALID_MODES.includes(data.mode)) {
+      return {
+        isValid: false,
+        errors: [{ field: 'mode', message: `Mode must be one of: ${this.VALID_MODES.join(', ')}` }]
+      };
+    }
+
+    return { isValid: true, errors: [] };
+  }
+
+  /**
+   * Validate a lesson's drip schedule and prerequisites
+   */
+  static validateLessonRules(data: any): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    if (!data || typeof data !== 'object') {
+      return {
+        isValid: false,
+        errors: [{ field: 'data', message: 'Invalid data provided' }]
+      };
+    }
+
+    if (data.unlockAfterDays !== undefined && data.unlockAfterDays !== null) {
+      if (!Number.isInteger(data.unlockAfterDays) || data.unlockAfterDays < 0) {
+        errors.push({ field: 'unlockAfterDays', message: 'unlockAfterDays must be a non-negative integer' });
+      }
+    }
+
+    if (data.unlockAt !== undefined && data.unlockAt !== null) {
+      if (typeof data.unlockAt !== 'string' || isNaN(Date.parse(data.unlockAt))) {
+        errors.push({ field: 'unlockAt', message: 'unlockAt must be an ISO 8601 date' });
+      }
+    }
+
+    if (data.prerequisites !== undefined) {
+      if (!Array.isArray(data.prerequisites)) {
+        errors.push({ field: 'prerequisites', message: 'Prerequisites must be an array' });
+      } else {
+        data.prerequisites.forEach((prerequisite: any, index: number) => {
+          const isLesson = Number.isInteger(prerequisite?.lessonId) && prerequisite.lessonId > 0;
+          const isQuiz = Number.isInteger(prerequisite?.quizId) && prerequisite.quizId > 0;
+
+          if (isLesson === isQuiz) {
+            errors.push({
+              field: 'prerequisites',
+              message: `Prerequisite at index ${index} must have either a lessonId or a quizId`
+            });
+          } else if (prerequisite.minScore !== undefined && prerequisite.minScore !== null) {
+            if (isLesson) {
+              errors.push({ field: 'prerequisites', message: `minScore at index ${index} only applies to quizzes` });
+            } else if (typeof prerequisite.minScore !== 'number' || prerequisite.minScore < 0 || prerequisite.minScore > 100) {
+              errors.push({ field: 'prerequisites', message: `minScore at index ${index} must be between 0 and 100` });
+            }
+          }
+        });
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+}
+
+/**
+ * Lesson attachment validation
+ */
+export class AttachmentValidator {
+  /**
+   * File name as stored: no directories, control characters or quotes
+   */
+  static normalizeFilename(filename: any): string {
+    if (typeof filename !== 'string') {
+      return '';
+    }
+
+    return filename
+      .split(/[\\/]/)
+      .pop()!
+      .replace(/[\u0000-\u001f\u007f"]/g, '')
+      .trim()
+      .slice(0, 255);
+  }
+
+  /**
+   * Validate an upload (file type and size are checked separately)
+   */
+  static validateUpload(filename: string, data: unknown): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    if (!filename || filename === '.' || filename === '..') {
+      errors.push({ field: 'filename', message: 'A file name is required (?filename=)' });
+    }
+
+    if (!Buffer.isBuffer(data) || data.length === 0) {
+      errors.push({ field: 'file', message: 'The request body must contain the file' });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validate a course storage quota change
+   */
+  static validateQuota(data: any): ValidationResult {
+    const quota = data?.quotaBytes;
+
+    if (quota !== null && (!Number.isSafeInteger(quota) || quota < 0)) {
+      return {
+        isValid: false,
+        errors: [{ field: 'quotaBytes', message: 'quotaBytes must be a non-negative integer, or null for the default' }]
+      };
+    }
+
+    return { isValid: true, errors: [] };
+  }
+}
+
+/**
+ * Catalog category validation
+ */
+export class CourseCategoryValidator {
+  /**
+   * Validate category data: { name, slug?, parent_id?, position? }
+   * name is required unless partial (updates)
+   */
+  static validateCategory(data: any, partial = false): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    if (data.name !== undefined || !partial) {
+      if (typeof data.name !== 'string' || data.name.trim().length === 0) {
+        errors.push({ field: 'name', message: 'Name is required and must be a string' });
+      } else if (data.name.length > 100) {
+        errors.push({ field: 'name', message: 'Name must be 100 characters or less' });
+      }
+    }
+
+    if (data.slug !== undefined) {
+      if (typeof data.slug !== 'string' || !/^[a-z0-9]+(-[a-z0-9]+)*$/.test(data.slug) || data.slug.length > 100) {
+        errors.push({ field: 'slug', message: 'Slug must be lowercase letters, digits and single hyphens, at most 100 characters' });
+      }
+    }
+
+    if (data.parent_id !== undefined && data.parent_id !== null) {
+      if (!Number.isInteger(data.parent_id) || data.parent_id <= 0) {
+        errors.push({ field: 'parent_id', message: 'Parent ID must be a positive integer or null' });
+      }
+    }
+
+    if (data.position !== undefined && (!Number.isInteger(data.position) || data.position < 0)) {
+      errors.push({ field: 'position', message: 'Position must be a non-negative integer' });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+}
+
+export class QuestionBankValidator {
+  /**
+   * Validate question bank data: { title, description? }
+   * title is required unless partial (updates)
+   */
+  static validateBank(data: any, partial = false): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    if (data.title !== undefined || !partial) {
+      if (typeof data.title !== 'string' || data.title.trim().length === 0) {
+        errors.push({ field: 'title', message: 'Title is required and must be a string' });
+      } else if (data.title.length > 255) {
+        errors.push({ field: 'title', message: 'Title must be 255 characters or less' });
+      }
+    }
+
+    if (data.description !== undefined && data.description !== null) {
+      if (typeof data.description !== 'string') {
+        errors.push({ field: 'description', message: 'Description must be a string' });
+      } else if (data.description.length > 5000) {
+        errors.push({ field: 'description', message: 'Description must be 5000 characters or less' });
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validate the draw filters of a bank question or draw: { topic?, difficulty? }
+   * Either may be null.
+   */
+  static validateTags(data: any): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    if (data.topic !== undefined && data.topic !== null) {
+      if (typeof data.topic !== 'string' || data.topic.trim().length === 0 || data.topic.length > 100) {
+        errors.push({ field: 'topic', message: 'Topic must be a non-empty string of 100 characters or less, or null' });
+      }
+    }
+
+    if (data.difficulty !== undefined && data.difficulty !== null && !QUESTION_DIFFICULTIES.includes(data.difficulty)) {
+      errors.push({ field: 'difficulty', message: `Difficulty must be one of: ${QUESTION_DIFFICULTIES.join(', ')}, or null` });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validate the draws of a quiz: { draws: [{ bank_id, count, topic?, difficulty? }] }
+   */
+  static validateDraws(data: any): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    if (!Array.isArray(data.draws)) {
+      errors.push({ field: 'draws', message: 'Draws must be an array' });
+    } else if (data.draws.length > 20) {
+      errors.push({ field: 'draws', message: 'A quiz can have at most 20 draws' });
+    } else {
+      data.draws.forEach((draw: any, i: number) => {
+        const at = `draws[${i}]`;
+        if (typeof draw !== 'object' || draw === null) {
+          errors.push({ field: at, message: 'Draw must be an object' });
+          return;
+        }
+        if (!Number.isInteger(draw.bank_id) || draw.bank_id <= 0) {
+          errors.push({ field: `${at}.bank_id`, message: 'Bank ID must be a positive integer' });
+        }
+        if (!Number.isInteger(draw.count) || draw.count < 1 || draw.count > 100) {
+          errors.push({ field: `${at}.count`, message: 'Count must be an integer between 1 and 100' });
+        }
+        this.validateTags(draw).errors.forEach(e => errors.push({ field: `${at}.${e.field}`, message: e.message }));
+      });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+}
+
+/**
+ * Assignment validation
+ */
+export class AssignmentValidator {
+  /**
+   * Validate assignment data: { title, instructions?, submission_type?, due_at?,
+   * late_penalty_per_day?, late_penalty_max?, late_cutoff_days?, rubric }
+   * title and rubric are required unless partial (updates)
+   */
+  static validateAssignment(data: any, partial = false): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    if (!data || typeof data !== 'object') {
+      return {
+        isValid: false,
+        errors: [{ field: 'data', message: 'Invalid data provided' }]
+      };
+    }
+
+    if (data.title !== undefined || !partial) {
+      if (typeof data.title !== 'string' || data.title.trim().length === 0) {
+        errors.push({ field: 'title', message: 'Title is required and must be a string' });
+      } else if (data.title.length > 255) {
+        errors.push({ field: 'title', message: 'Title must be 255 characters or less' });
+      }
+    }
+
+    if (data.instructions !== undefined && data.instructions !== null) {
+      if (typeof data.instructions !== 'string') {
+        errors.push({ field: 'instructions', message: 'Instructions must be a string' });
+      } else if (data.instructions.length > 50000) {
+        errors.push({ field: 'instructions', message: 'Instructions must be 50000 characters or less' });
+      }
+    }
+
+    if (data.submission_type !== undefined && !SUBMISSION_TYPES.includes(data.submission_type)) {
+      errors.push({ field: 'submission_type', message: `submission_type must be one of: ${SUBMISSION_TYPES.join(', ')}` });
+    }
+
+    if (data.due_at !== undefined && data.due_at !== null) {
+      if (typeof data.due_at !== 'string' || isNaN(Date.parse(data.due_at))) {
+        errors.push({ field: 'due_at', message: 'due_at must be an ISO 8601 date, or null' });
+      }
+    }
+
+    if (data.late_penalty_per_day !== undefined && data.late_penalty_per_day !== null) {
+      const value = data.late_penalty_per_day;
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 100) {
+        errors.push({ field: 'late_penalty_per_day', message: 'late_penalty_per_day must be a percentage between 0 and 100, or null to refuse late submissions' });
+      }
+    }
+
+    if (data.late_penalty_max !== undefined) {
+      const value = data.late_penalty_max;
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 100) {
+        errors.push({ field: 'late_penalty_max', message: 'late_penalty_max must be a percentage between 0 and 100' });
+      }
+    }
+
+    if (data.late_cutoff_days !== undefined && data.late_cutoff_days !== null) {
+      if (!Number.isInteger(data.late_cutoff_days) || data.late_cutoff_days < 0 || data.late_cutoff_days > 365) {
+        errors.push({ field: 'late_cutoff_days', message: 'late_cutoff_days must be an integer between 0 and 365, or null' });
+      }
+    }
+
+    if (data.rubric !== undefined || !partial) {
+      errors.push(...this.validateRubric(data.rubric).errors);
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validate a rubric: [{ title, description?, levels: [{ title, description?, points }] }]
+   */
+  static validateRubric(rubric: any): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    if (!Array.isArray(rubric) || rubric.length === 0) {
+      errors.push({ field: 'rubric', message: 'Rubric must be a non-empty array of criteria' });
+    } else if (rubric.length > 20) {
+      errors.push({ field: 'rubric', message: 'A rubric can have at most 20 criteria' });
+    } else {
+      rubric.forEach((criterion: any, i: number) => {
+        const at = `rubric[${i}]`;
+        if (typeof criterion !== 'object' || criterion === null) {
+          errors.push({ field: at, message: 'Criterion must be an object' });
+          return;
+        }
+        this.validateRubricText(criterion, at, errors);
+
+        if (!Array.isArray(criterion.levels) || criterion.levels.length === 0 || criterion.levels.length > 10) {
+          errors.push({ field: `${at}.levels`, message: 'Levels must be an array of 1 to 10 levels' });
+          return;
+        }
+        criterion.levels.forEach((level: any, j: number) => {
+          const levelAt = `${at}.levels[${j}]`;
+          if (typeof level !== 'object' || level === null) {
+            errors.push({ field: levelAt, message: 'Level must be an object' });
+            return;
+          }
+          this.validateRubricText(level, levelAt, errors);
+          if (typeof level.points !== 'number' || !Number.isFinite(level.points) || level.points < 0 || level.points > 1000) {
+            errors.push({ field: `${levelAt}.points`, message: 'Points must be a number between 0 and 1000' });
+          }
+        });
+      });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  private static validateRubricText(item: any, at: string, errors: ValidationError[]): void {
+    if (typeof item.title !== 'string' || item.title.trim().length === 0 || item.title.length > 255) {
+      errors.push({ field: `${at}.title`, message: 'Title is required and must be 255 characters or less' });
+    }
+    if (item.description !== undefined && item.description !== null) {
+      if (typeof item.description !== 'string' || item.description.length > 2000) {
+        errors.push({ field: `${at}.description`, message: 'Description must be a string of 2000 characters or less' });
+      }
+    }
+  }
+
+  /**
+   * Validate a draft's text: { text }
+   */
+  static validateSubmissionText(data: any): ValidationResult {
+    if (typeof data?.text !== 'string' || data.text.length > 100000) {
+      return {
+        isValid: false,
+        errors: [{ field: 'text', message: 'Text must be a string of 100000 characters or less' }]
+      };
+    }
+
+    return { isValid: true, errors: [] };
+  }
+
+  /**
+   * Validate a grade against the assignment's rubric:
+   * { scores: [{ criterion, level, comment? }], feedback?, release? }
+   * Every criterion must be scored exactly once.
+   */
+  static validateGrade(data: any, rubric: RubricCriterion[]): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    if (!Array.isArray(data?.scores)) {
+      errors.push({ field: 'scores', message: 'Scores must be an array with one level per rubric criterion' });
+    } else {
+      const scored = new Set<number>();
+      data.scores.forEach((score: any, i: number) => {
+        const at = `scores[${i}]`;
+        const criterion = Number.isInteger(score?.criterion) ? rubric[score.criterion] : undefined;
+        if (!criterion) {
+          errors.push({ field: `${at}.criterion`, message: `Criterion must be an index between 0 and ${rubric.length - 1}` });
+          return;
+        }
+        if (scored.has(score.criterion)) {
+          errors.push({ field: `${at}.criterion`, message: `Criterion ${score.criterion} is scored more than once` });
+        }
+        scored.add(score.criterion);
+        if (!Number.isInteger(score.level) || score.level < 0 || score.level >= criterion.levels.length) {
+          errors.push({ field: `${at}.level`, message: `Level must be an index between 0 and ${criterion.levels.length - 1}` });
+        }
+        if (score.comment !== undefined && score.comment !== null) {
+          if (typeof score.comment !== 'string' || score.comment.length > 5000) {
+            errors.push({ field: `${at}.comment`, message: 'Comment must be a string of 5000 characters or less' });
+          }
+        }
+      });
+
+      const missing = rubric.map((_, i) => i).filter(i => !scored.has(i));
+      if (missing.length > 0) {
+        errors.push({ field: 'scores', message: `Criteria not scored: ${missing.join(', ')}` });
+      }
+    }
+
+    if (data?.feedback !== undefined && data.feedback !== null) {
+      if (typeof data.feedback !== 'string' || data.feedback.length > 20000) {
+        errors.push({ field: 'feedback', message: 'Feedback must be a string of 20000 characters or less' });
+      }
+    }
+
+    if (data?.release !== undefined && typeof data.release !== 'boolean') {
+      errors.push({ field: 'release', message: 'release must be a boolean' });
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+
+  /**
+   * Validate a grade release: { submission_ids? } (omitted: every graded submission)
+   */
+  static validateRelease(data: any): ValidationResult {
+    const ids = data?.submission_ids;
+
+    if (ids !== undefined && (!Array.isArray(ids) || !ids.every((id: any) => Number.isInteger(id) && id > 0))) {
+      return {
+        isValid: false,
+        errors: [{ field: 'submission_ids', message: 'submission_ids must be an array of submission IDs' }]
+      };
+    }
+
+    return { isValid: true, errors: [] };
+  }
+
+  /**
+   * Validate a student's regrade request: { reason }
+   */
+  static validateRegradeRequest(data: any): ValidationResult {
+    if (typeof data?.reason !== 'string' || data.reason.trim().length === 0 || data.reason.length > 5000) {
+      return {
+        isValid: false,
+        errors: [{ field: 'reason', message: 'Reason is required and must be 5000 characters or less' }]
+      };
+    }
+
+    return { isValid: true, errors: [] };
+  }
+
+  /**
+   * Validate a grader's answer to a regrade request: { status: resolved|rejected, response? }
+   */
+  static validateRegradeResolution(data: any): ValidationResult {
+    const errors: ValidationError[] = [];
+
+    if (!['resolved', 'rejected'].includes(data?.status)) {
+      errors.push({ field: 'status', message: 'Status must be resolved or rejected' });
+    }
+
+    if (data?.response !== undefined && data.response !== null) {
+      if (typeof data.response !== 'string' || data.response.length > 5000) {
+        errors.push({ field: 'response', message: 'Response must be a string of 5000 characters or less' });
+      }
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors
+    };
+  }
+}
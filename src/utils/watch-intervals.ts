@@ -0,0 +1,127 @@
+/**
+ * Watched intervals of a video and the heartbeats they are built from
+ *
+ * Pure functions with no I/O. A player reports its position every few seconds;
+ * the stretch between two heartbeats counts as watched only when the position
+ * advanced about as far as the elapsed time allows at the reported playback
+ * rate. Seeking, scrubbing and pausing therefore add nothing, and watching the
+ * same part twice counts once.
+ */
+
+export type Interval = [number, number]; // [start, end) in seconds
+
+export interface HeartbeatState {
+  position: number;
+  at: Date;
+}
+
+export interface Heartbeat {
+  position: number;
+  playbackRate: number;
+  at: Date;
+}
+
+// Slack for timer jitter and network delay between heartbeats
+const RATE_TOLERANCE = 1.25;
+const TOLERANCE_SECONDS = 2;
+
+// Intervals closer than this are joined
+const MERGE_GAP_SECONDS = 0.5;
+
+/**
+ * The interval watched between two heartbeats
+ * @returns null when the position jumped, went back, or the heartbeats are too far apart
+ */
+export function watchedBetween(
+  previous: HeartbeatState | null,
+  current: Heartbeat,
+  maxGapSeconds: number
+): Interval | null {
+  if (!previous) {
+    return null;
+  }
+
+  const elapsed = (current.at.getTime() - previous.at.getTime()) / 1000;
+  const advanced = current.position - previous.position;
+
+  if (elapsed <= 0 || elapsed > maxGapSeconds || advanced <= 0) {
+    return null;
+  }
+
+  if (advanced > elapsed * current.playbackRate * RATE_TOLERANCE + TOLERANCE_SECONDS) {
+    return null;
+  }
+
+  return [previous.position, current.position];
+}
+
+/**
+ * Add an interval to a sorted list of disjoint intervals, merging overlaps
+ */
+export function mergeInterval(intervals: Interval[], added: Interval): Interval[] {
+  const result: Interval[] = [];
+  let [start, end] = added;
+  let inserted = false;
+
+  for (const [s, e] of intervals) {
+    if (e + MERGE_GAP_SECONDS < start) {
+      result.push([s, e]);
+    } else if (end + MERGE_GAP_SECONDS < s) {
+      if (!inserted) {
+        result.push([start, end]);
+        inserted = true;
+      }
+      result.push([s, e]);
+    } else {
+      start = Math.min(start, s);
+      end = Math.max(end, e);
+    }
+  }
+
+  if (!inserted) {
+    result.push([start, end]);
+  }
+
+  return result;
+}
+
+/**
+ * Total length of disjoint intervals, clipped to the video duration
+ */
+export function watchedSeconds(intervals: Interval[], duration: number): number {
+  return intervals.reduce((total, [start, end]) => {
+    const clippedEnd = Math.min(end, duration);
+    return clippedEnd > start ? total + clippedEnd - start : total;
+  }, 0);
+}
+
+/**
+ * Share of viewers who watched each part of a video
+ * The video is cut into equal buckets; a viewer counts for a bucket when one
+ * of their intervals covers its midpoint.
+ */
+export function dropOffCurve(
+  viewers: Interval[][],
+  duration: number,
+  buckets: number
+): { fromSeconds: number; toSeconds: number; viewers: number; percent: number }[] {
+  if (duration <= 0 || viewers.length === 0) {
+    return [];
+  }
+
+  const size = duration / buckets;
+
+  return Array.from({ length: buckets }, (_, index) => {
+    const midpoint = (index + 0.5) * size;
+    const watching = viewers.filter(intervals =>
+      intervals.some(([start, end]) => start <= midpoint && midpoint < end)
+    ).length;
+
+    return {
+      fromSeconds: Math.round(index * size * 10) / 10,
+      toSeconds: Math.round((index + 1) * size * 10) / 10,
+      viewers: watching,
+      percent: Math.round((watching / viewers.length) * 100)
+    };
+  });
+}
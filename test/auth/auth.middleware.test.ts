@@ -0,0 +1,229 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { Request, Response } from 'express';
+import {
+  authenticate,
+  authenticateOptional,
+  requirePermission,
+  requireScope,
+  requireSession
+} from '../../src/middleware/auth.middleware';
+import { ApiKeysService } from '../../src/services/api-keys.service';
+import { SessionsService } from '../../src/services/sessions.service';
+import { TokenService } from '../../src/services/token.service';
+
+/**
+ * Authentication guards, called directly with stand-in requests and responses
+ *
+ * Tokens are real; the session and API key lookups are stubbed.
+ */
+
+jest.mock('../../src/db', () => ({
+  db: { query: jest.fn(), getClient: jest.fn() }
+}));
+
+const user = { id: 7, email: 'student@example.com', role: 'student' };
+const instructor = { id: 2, email: 'instructor@example.com', role: 'instructor' };
+
+interface Outcome {
+  req: Request;
+  status: number | null;
+  code: string | null;
+  passed: boolean;
+}
+
+/**
+ * Run a middleware with an Authorization header or a prepared request
+ */
+async function run(
+  middleware: (req: Request, res: Response, next: () => void) => unknown,
+  request: Partial<Request> = {}
+): Promise<Outcome> {
+  const req = { headers: {}, requestId: 'test', ...request } as Request;
+  const outcome: Outcome = { req, status: null, code: null, passed: false };
+
+  const res = {
+    status(status: number) {
+      outcome.status = status;
+      return this;
+    },
+    json(body: { error: { code: string } }) {
+      outcome.code = body.error.code;
+      return this;
+    }
+  } as unknown as Response;
+
+  await middleware(req, res, () => {
+    outcome.passed = true;
+  });
+  return outcome;
+}
+
+function withHeader(authorization: string): Partial<Request> {
+  return { headers: { authorization } };
+}
+
+function bearer(principal = user, sessionId = 'session-1'): Partial<Request> {
+  return withHeader(`Bearer ${TokenService.generateAccessToken(principal, sessionId)}`);
+}
+
+describe('authenticate', () => {
+  beforeEach(() => {
+    jest.spyOn(SessionsService, 'isSessionActive').mockResolvedValue(true);
+    jest.spyOn(ApiKeysService, 'authenticate').mockImplementation(async key => key === 'll_valid'
+      ? { user: instructor, apiKeyId: 3, scopes: ['courses:read'] }
+      : null);
+  });
+
+  it('attaches the user and session of a valid access token', async () => {
+    const { req, passed } = await run(authenticate, bearer());
+
+    expect(passed).toBe(true);
+    expect(req.user).toEqual(user);
+    expect(req.auth).toEqual({ type: 'session', sessionId: 'session-1' });
+  });
+
+  it('attaches the owner and scopes of a valid API key', async () => {
+    const { req, passed } = await run(authenticate, withHeader('ApiKey ll_valid '));
+
+    expect(passed).toBe(true);
+    expect(ApiKeysService.authenticate).toHaveBeenCalledWith('ll_valid');
+    expect(req.user).toEqual(instructor);
+    expect(req.auth).toEqual({ type: 'api_key', apiKeyId: 3, scopes: ['courses:read'], scopeChecked: false });
+  });
+
+  it.each([
+    ['an unknown API key', withHeader('ApiKey ll_unknown'), 'INVALID_API_KEY'],
+    ['no Authorization header', {}, 'UNAUTHORIZED'],
+    ['another scheme', withHeader('Basic dXNlcjpwYXNz'), 'UNAUTHORIZED'],
+    ['an empty token', withHeader('Bearer '), 'UNAUTHORIZED'],
+    ['a malformed token', withHeader('Bearer not-a-token'), 'INVALID_TOKEN']
+  ])('rejects %s', async (_label, request, code) => {
+    const outcome = await run(authenticate, request);
+
+    expect(outcome).toMatchObject({ status: 401, code, passed: false });
+    expect(outcome.req.user).toBeUndefined();
+  });
+
+  it('rejects a token whose session was revoked', async () => {
+    jest.mocked(SessionsService.isSessionActive).mockResolvedValue(false);
+
+    const outcome = await run(authenticate, bearer());
+
+    expect(SessionsService.isSessionActive).toHaveBeenCalledWith('session-1');
+    expect(outcome).toMatchObject({ status: 401, code: 'SESSION_REVOKED', passed: false });
+  });
+
+  it('rejects the request when the session lookup fails', async () => {
+    jest.mocked(SessionsService.isSessionActive).mockRejectedValue(new Error('connection refused'));
+
+    expect(await run(authenticate, bearer())).toMatchObject({ status: 401, code: 'AUTH_ERROR', passed: false });
+  });
+});
+
+describe('authenticateOptional', () => {
+  beforeEach(() => {
+    jest.spyOn(SessionsService, 'isSessionActive').mockResolvedValue(true);
+    jest.spyOn(ApiKeysService, 'authenticate').mockImplementation(async key => key === 'll_valid'
+      ? { user: instructor, apiKeyId: 3, scopes: [] }
+      : null);
+  });
+
+  it('attaches the user of a valid access token or API key', async () => {
+    expect((await run(authenticateOptional, bearer())).req.user).toEqual(user);
+    expect((await run(authenticateOptional, withHeader('ApiKey ll_valid'))).req.user).toEqual(instructor);
+  });
+
+  it.each([
+    ['no Authorization header', {}],
+    ['an unknown API key', withHeader('ApiKey ll_unknown')],
+    ['another scheme', withHeader('Basic dXNlcjpwYXNz')],
+    ['an empty token', withHeader('Bearer ')],
+    ['a malformed token', withHeader('Bearer not-a-token')]
+  ])('treats %s as anonymous', async (_label, request) => {
+    const outcome = await run(authenticateOptional, request);
+
+    expect(outcome).toMatchObject({ status: null, passed: true });
+    expect(outcome.req.user).toBeUndefined();
+  });
+
+  it('treats a revoked session as anonymous', async () => {
+    jest.mocked(SessionsService.isSessionActive).mockResolvedValue(false);
+
+    const outcome = await run(authenticateOptional, bearer());
+
+    expect(outcome.passed).toBe(true);
+    expect(outcome.req.user).toBeUndefined();
+  });
+
+  it('treats a failed session lookup as anonymous', async () => {
+    jest.mocked(SessionsService.isSessionActive).mockRejectedValue(new Error('connection refused'));
+
+    const outcome = await run(authenticateOptional, bearer());
+
+    expect(outcome.passed).toBe(true);
+    expect(outcome.req.user).toBeUndefined();
+  });
+});
+
+describe('requirePermission', () => {
+  const guard = requirePermission('course.create');
+
+  it('passes users whose role grants the permission', async () => {
+    expect((await run(guard, { user: instructor, auth: { type: 'session', sessionId: 's' } })).passed).toBe(true);
+  });
+
+  it('rejects anonymous requests', async () => {
+    expect(await run(guard)).toMatchObject({ status: 401, code: 'UNAUTHORIZED', passed: false });
+  });
+
+  it('rejects users whose role lacks the permission', async () => {
+    expect(await run(guard, { user, auth: { type: 'session', sessionId: 's' } }))
+      .toMatchObject({ status: 403, code: 'FORBIDDEN', passed: false });
+  });
+
+  it('rejects API keys unless a scope check ran first', async () => {
+    const auth = { type: 'api_key' as const, apiKeyId: 3, scopes: [], scopeChecked: false };
+
+    expect(await run(guard, { user: instructor, auth })).toMatchObject({ status: 403, code: 'API_KEY_NOT_ALLOWED' });
+    expect((await run(guard, { user: instructor, auth: { ...auth, scopeChecked: true } })).passed).toBe(true);
+  });
+});
+
+describe('requireScope', () => {
+  const guard = requireScope('courses:read', 'courses:write');
+
+  it('passes sessions and anonymous requests unchanged', async () => {
+    expect((await run(guard, { user, auth: { type: 'session', sessionId: 's' } })).passed).toBe(true);
+    expect((await run(guard)).passed).toBe(true);
+  });
+
+  it('passes API keys holding every scope and marks the check', async () => {
+    const { req, passed } = await run(guard, {
+      user: instructor,
+      auth: { type: 'api_key', apiKeyId: 3, scopes: ['courses:write', 'courses:read'], scopeChecked: false }
+    });
+
+    expect(passed).toBe(true);
+    expect(req.auth).toMatchObject({ scopeChecked: true });
+  });
+
+  it('rejects API keys missing a scope', async () => {
+    const outcome = await run(guard, {
+      user: instructor,
+      auth: { type: 'api_key', apiKeyId: 3, scopes: ['courses:read'], scopeChecked: false }
+    });
+
+    expect(outcome).toMatchObject({ status: 403, code: 'INSUFFICIENT_SCOPE', passed: false });
+    expect(outcome.req.auth).toMatchObject({ scopeChecked: false });
+  });
+});
+
+describe('requireSession', () => {
+  it('passes sessions and rejects API keys', async () => {
+    expect((await run(requireSession, { user, auth: { type: 'session', sessionId: 's' } })).passed).toBe(true);
+    expect(await run(requireSession, {
+      user: instructor,
+      auth: { type: 'api_key', apiKeyId: 3, scopes: [], scopeChecked: true }
+    })).toMatchObject({ status: 403, code: 'API_KEY_NOT_ALLOWED', passed: false });
+  });
+});
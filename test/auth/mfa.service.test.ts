@@ -0,0 +1,253 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { db } from '../../src/db';
+import { MfaService } from '../../src/services/mfa.service';
+import { hotp, timeStep, totp } from '../../src/utils/totp';
+
+/**
+ * MFA service against an in-memory stand-in for the user_mfa and
+ * mfa_recovery_codes tables, on a fixed clock
+ */
+
+jest.mock('../../src/db', () => ({
+  db: { query: jest.fn(), getClient: jest.fn() }
+}));
+
+interface MfaRow {
+  secret_encrypted: string;
+  enabled_at: Date | null;
+  last_used_step: number | null;
+}
+
+interface RecoveryCodeRow {
+  user_id: number;
+  code_hash: string;
+  used_at: Date | null;
+}
+
+const USER = { id: 7, email: 'ada@example.com' };
+const NOW = 1700000000 * 1000;
+const STEP_MS = 30 * 1000;
+
+let mfaRows: Map<number, MfaRow>;
+let recoveryCodes: RecoveryCodeRow[];
+
+function result(rows: any[] = [], rowCount = rows.length) {
+  return { rows, rowCount };
+}
+
+async function query(text: string, params: any[] = []) {
+  const sql = text.replace(/\s+/g, ' ').trim();
+  const [userId] = params;
+  const mfa = mfaRows.get(userId);
+
+  if (['BEGIN', 'COMMIT', 'ROLLBACK'].includes(sql)) {
+    return result();
+  }
+  if (sql.startsWith('SELECT required FROM mfa_role_policies')) {
+    return result();
+  }
+  if (sql.startsWith('SELECT 1 FROM user_mfa')) {
+    return result(mfa?.enabled_at ? [{}] : []);
+  }
+  if (sql.startsWith('SELECT secret_encrypted, enabled_at FROM user_mfa')) {
+    return result(mfa ? [mfa] : []);
+  }
+  if (sql.startsWith('SELECT secret_encrypted FROM user_mfa')) {
+    return result(mfa?.enabled_at ? [mfa] : []);
+  }
+  if (sql.startsWith('INSERT INTO user_mfa')) {
+    if (!mfa?.enabled_at) {
+      mfaRows.set(userId, { secret_encrypted: params[1], enabled_at: null, last_used_step: null });
+    }
+    return result();
+  }
+  if (sql.startsWith('UPDATE user_mfa SET enabled_at')) {
+    mfaRows.set(userId, { ...mfa!, enabled_at: new Date(NOW), last_used_step: params[1] });
+    return result([], 1);
+  }
+  if (sql.startsWith('UPDATE user_mfa SET last_used_step')) {
+    // WHERE last_used_step IS NULL OR last_used_step < $2
+    if (mfa && (mfa.last_used_step === null || mfa.last_used_step < params[1])) {
+      mfa.last_used_step = params[1];
+      return result([], 1);
+    }
+    return result([], 0);
+  }
+  if (sql.startsWith('DELETE FROM mfa_recovery_codes')) {
+    recoveryCodes = recoveryCodes.filter(code => code.user_id !== userId);
+    return result();
+  }
+  if (sql.startsWith('INSERT INTO mfa_recovery_codes')) {
+    recoveryCodes.push({ user_id: userId, code_hash: params[1], used_at: null });
+    return result([], 1);
+  }
+  if (sql.startsWith('UPDATE mfa_recovery_codes SET used_at')) {
+    const code = recoveryCodes.find(row => row.user_id === userId && row.code_hash === params[1] && row.used_at === null);
+    if (code) {
+      code.used_at = new Date(NOW);
+    }
+    return result([], code ? 1 : 0);
+  }
+  if (sql.startsWith('DELETE FROM user_mfa')) {
+    const existed = mfaRows.delete(userId);
+    return result([], existed ? 1 : 0);
+  }
+
+  throw new Error(`Unexpected query: ${sql}`);
+}
+
+/**
+ * Enroll the test user at NOW
+ * @returns The secret and the recovery codes
+ */
+async function enroll(): Promise<{ secret: string; codes: string[] }> {
+  const { secret } = await MfaService.beginEnrollment(USER);
+  const codes = await MfaService.activate(USER.id, totp(secret, NOW), NOW);
+  return { secret, codes };
+}
+
+describe('MfaService', () => {
+  beforeEach(() => {
+    mfaRows = new Map();
+    recoveryCodes = [];
+    jest.mocked(db.query).mockImplementation(query as any);
+    jest.mocked(db.getClient).mockImplementation((async () => ({ query, release: () => undefined })) as any);
+  });
+
+  describe('enrollment', () => {
+    it('stores the secret encrypted, not in plain text', async () => {
+      const { secret, otpauthUrl } = await MfaService.beginEnrollment(USER);
+
+      expect(otpauthUrl).toContain(`secret=${secret}`);
+      expect(mfaRows.get(USER.id)!.secret_encrypted).not.toContain(secret);
+    });
+
+    it('is only active once confirmed with a code', async () => {
+      const { secret } = await MfaService.beginEnrollment(USER);
+      expect(await MfaService.isEnabled(USER.id)).toBe(false);
+
+      await expect(MfaService.activate(USER.id, hotp(secret, timeStep(NOW) + 5), NOW)).rejects.toThrow('INVALID_CODE');
+
+      const codes = await MfaService.activate(USER.id, totp(secret, NOW), NOW);
+      expect(await MfaService.isEnabled(USER.id)).toBe(true);
+      expect(codes).toHaveLength(10);
+      expect(new Set(codes).size).toBe(10);
+      expect(recoveryCodes.map(code => code.code_hash)).not.toContain(codes[0]);
+    });
+
+    it('cannot be activated before it is started or twice', async () => {
+      await expect(MfaService.activate(USER.id, '000000', NOW)).rejects.toThrow('NOT_STARTED');
+
+      const { secret } = await enroll();
+      await expect(MfaService.activate(USER.id, totp(secret, NOW + STEP_MS), NOW + STEP_MS)).rejects.toThrow('ALREADY_ENABLED');
+      await expect(MfaService.beginEnrollment(USER)).rejects.toThrow('ALREADY_ENABLED');
+    });
+  });
+
+  describe('verifyCode', () => {
+    it('accepts the current code and one step of drift', async () => {
+      const { secret } = await enroll();
+      const later = NOW + 10 * STEP_MS;
+
+      expect(await MfaService.verifyCode(USER.id, hotp(secret, timeStep(later) - 1), later)).toBe(true);
+      expect(await MfaService.verifyCode(USER.id, totp(secret, later), later)).toBe(true);
+      expect(await MfaService.verifyCode(USER.id, hotp(secret, timeStep(later) + 1), later)).toBe(true);
+    });
+
+    it('rejects codes outside the window', async () => {
+      const { secret } = await enroll();
+      const later = NOW + 10 * STEP_MS;
+
+      expect(await MfaService.verifyCode(USER.id, hotp(secret, timeStep(later) - 2), later)).toBe(false);
+      expect(await MfaService.verifyCode(USER.id, hotp(secret, timeStep(later) + 2), later)).toBe(false);
+    });
+
+    it('rejects a replay of the last used step', async () => {
+      const { secret } = await enroll();
+      const later = NOW + 10 * STEP_MS;
+      const code = totp(secret, later);
+
+      expect(await MfaService.verifyCode(USER.id, code, later)).toBe(true);
+      expect(await MfaService.verifyCode(USER.id, code, later)).toBe(false);
+    });
+
+    it('rejects the code used to activate', async () => {
+      const { secret } = await enroll();
+      expect(await MfaService.verifyCode(USER.id, totp(secret, NOW), NOW)).toBe(false);
+    });
+
+    it('rejects an earlier step once a later one was used', async () => {
+      const { secret } = await enroll();
+      const later = NOW + 10 * STEP_MS;
+
+      expect(await MfaService.verifyCode(USER.id, hotp(secret, timeStep(later) + 1), later)).toBe(true);
+      expect(await MfaService.verifyCode(USER.id, totp(secret, later), later)).toBe(false);
+    });
+
+    it('rejects every code when 2FA is not enabled', async () => {
+      const { secret } = await MfaService.beginEnrollment(USER);
+      expect(await MfaService.verifyCode(USER.id, totp(secret, NOW), NOW)).toBe(false);
+    });
+  });
+
+  describe('recovery codes', () => {
+    it('are single-use', async () => {
+      const { codes } = await enroll();
+
+      expect(await MfaService.verifySecondFactor(USER.id, { recoveryCode: codes[0] }, NOW)).toBe('recovery_code');
+      expect(await MfaService.verifySecondFactor(USER.id, { recoveryCode: codes[0] }, NOW)).toBeNull();
+      expect(await MfaService.verifySecondFactor(USER.id, { recoveryCode: codes[1] }, NOW)).toBe('recovery_code');
+    });
+
+    it('are compared without case or dash', async () => {
+      const { codes } = await enroll();
+      expect(await MfaService.useRecoveryCode(USER.id, codes[0].toUpperCase().replace('-', ''))).toBe(true);
+    });
+
+    it('are replaced when regenerated', async () => {
+      const { secret, codes } = await enroll();
+      const later = NOW + 10 * STEP_MS;
+
+      const newCodes = await MfaService.regenerateRecoveryCodes(USER.id, totp(secret, later), later);
+
+      expect(await MfaService.useRecoveryCode(USER.id, codes[0])).toBe(false);
+      expect(await MfaService.useRecoveryCode(USER.id, newCodes[0])).toBe(true);
+    });
+
+    it('cannot be regenerated with a replayed code', async () => {
+      const { secret } = await enroll();
+      await expect(MfaService.regenerateRecoveryCodes(USER.id, totp(secret, NOW), NOW)).rejects.toThrow('INVALID_CODE');
+    });
+  });
+
+  describe('verifySecondFactor', () => {
+    it('prefers the TOTP code and reports the method used', async () => {
+      const { secret, codes } = await enroll();
+      const later = NOW + 10 * STEP_MS;
+
+      expect(await MfaService.verifySecondFactor(USER.id, { code: totp(secret, later), recoveryCode: codes[0] }, later)).toBe('totp');
+      // The recovery code was not consumed
+      expect(await MfaService.useRecoveryCode(USER.id, codes[0])).toBe(true);
+    });
+
+    it('falls back to the recovery code when the TOTP code fails', async () => {
+      const { secret, codes } = await enroll();
+      const wrongCode = hotp(secret, timeStep(NOW) + 5);
+      expect(await MfaService.verifySecondFactor(USER.id, { code: wrongCode, recoveryCode: codes[0] }, NOW)).toBe('recovery_code');
+    });
+  });
+
+  describe('disable', () => {
+    it('needs a valid second factor and removes every trace', async () => {
+      const { secret } = await enroll();
+      const later = NOW + 10 * STEP_MS;
+
+      const wrongCode = hotp(secret, timeStep(later) + 5);
+      await expect(MfaService.disable(USER.id, 'student', { code: wrongCode }, later)).rejects.toThrow('INVALID_CODE');
+      await MfaService.disable(USER.id, 'student', { code: totp(secret, later) }, later);
+
+      expect(await MfaService.isEnabled(USER.id)).toBe(false);
+      expect(recoveryCodes).toHaveLength(0);
+    });
+  });
+});
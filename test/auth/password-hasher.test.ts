@@ -0,0 +1,68 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  PasswordHasher,
+  createPasswordHasher,
+  hashPassword,
+  comparePassword,
+  passwordHasher
+} from '../../src/utils/password-hasher';
+
+/**
+ * Password hashing and verification with bcrypt
+ *
+ * Hashers under test use the lowest cost factor, except for the default
+ * instance behind the convenience functions.
+ */
+
+describe('PasswordHasher', () => {
+  const hasher = createPasswordHasher({ costFactor: 4 });
+
+  it('hashes with its cost factor and verifies the password', async () => {
+    const hash = await hasher.hash('correct horse');
+
+    expect(hash).toMatch(/^\$2[aby]\$04\$/);
+    expect(await hasher.compare('correct horse', hash)).toBe(true);
+    expect(await hasher.compare('wrong horse', hash)).toBe(false);
+  });
+
+  it('salts every hash', async () => {
+    expect(await hasher.hash('same')).not.toBe(await hasher.hash('same'));
+  });
+
+  it('rejects empty and non-string passwords', async () => {
+    await expect(hasher.hash('')).rejects.toThrow('Password must be a non-empty string');
+    await expect(hasher.hash(42 as unknown as string)).rejects.toThrow('Password must be a non-empty string');
+    await expect(hasher.compare('', 'hash')).rejects.toThrow('Password must be a non-empty string');
+  });
+
+  it('rejects an empty hash', async () => {
+    await expect(hasher.compare('password', '')).rejects.toThrow('Hashed password must be a non-empty string');
+  });
+
+  it('defaults to a cost factor of 12', () => {
+    expect(new PasswordHasher().getCostFactor()).toBe(12);
+    expect(passwordHasher.getCostFactor()).toBe(12);
+  });
+
+  it('changes its cost factor within bcrypt\'s range', async () => {
+    const custom = new PasswordHasher({ costFactor: 4 });
+
+    custom.setCostFactor(5);
+    expect(custom.getCostFactor()).toBe(5);
+    expect(await custom.hash('password')).toMatch(/^\$2[aby]\$05\$/);
+
+    for (const costFactor of [0, 32, 4.5]) {
+      expect(() => custom.setCostFactor(costFactor)).toThrow('Cost factor must be an integer between 1 and 31');
+    }
+    expect(custom.getCostFactor()).toBe(5);
+  });
+});
+
+describe('hashPassword and comparePassword', () => {
+  it('hash and verify with the default hasher', async () => {
+    const hash = await hashPassword('password');
+
+    expect(hash).toMatch(/^\$2[aby]\$12\$/);
+    expect(await comparePassword('password', hash)).toBe(true);
+  });
+});
@@ -0,0 +1,313 @@
+import crypto from 'crypto';
+import { describe, it, expect, jest, beforeAll } from '@jest/globals';
+import type { TokenService as TokenServiceType } from '../../src/services/token.service';
+
+/**
+ * Token service under several key configurations
+ *
+ * Config and the keyring are read once per module instance, so each
+ * configuration gets its own copy of the module (jest.isolateModules).
+ */
+
+type TokenService = typeof TokenServiceType;
+
+const NOW = Date.UTC(2026, 0, 1);
+const TTL = 15 * 60;
+
+function loadTokenService(env: Record<string, string> = {}): TokenService {
+  const saved = { ...process.env };
+  Object.assign(process.env, env);
+
+  let service: TokenService | undefined;
+  try {
+    jest.isolateModules(() => {
+      service = require('../../src/services/token.service').TokenService;
+    });
+  } finally {
+    process.env = saved;
+  }
+  return service!;
+}
+
+function encode(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+/**
+ * An HS256 token signed with any header and payload, for tokens the service would never issue
+ */
+function forgeHs256(header: Record<string, unknown>, payload: Record<string, unknown>, secret: string | Buffer): string {
+  const signingInput = `${encode(header)}.${encode(payload)}`;
+  const signature = crypto.createHmac('sha256', secret).update(signingInput).digest('base64url');
+  return `${signingInput}.${signature}`;
+}
+
+function decodeHeader(token: string): Record<string, unknown> {
+  return JSON.parse(Buffer.from(token.split('.')[0], 'base64url').toString('utf8'));
+}
+
+function pem(key: crypto.KeyObject): string {
+  return key.export({ format: 'pem', type: key.type === 'private' ? 'pkcs8' : 'spki' }).toString();
+}
+
+// setup.ts: HS256, secret test-jwt-secret, kid test, iss learnlite, aud learnlite-api
+const VALID_CLAIMS = { iss: 'learnlite', aud: 'learnlite-api', exp: NOW / 1000 + TTL };
+
+describe('TokenService', () => {
+  let rsa: { privateKey: crypto.KeyObject; publicKey: crypto.KeyObject };
+  let ed25519: { privateKey: crypto.KeyObject; publicKey: crypto.KeyObject };
+
+  beforeAll(() => {
+    rsa = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    ed25519 = crypto.generateKeyPairSync('ed25519');
+  });
+
+  describe('HS256', () => {
+    const service = loadTokenService();
+
+    it('signs with the active kid and adds iat, exp, iss and aud', () => {
+      const token = service.sign({ sub: 1 }, TTL, NOW);
+
+      expect(decodeHeader(token)).toEqual({ alg: 'HS256', typ: 'JWT', kid: 'test' });
+      expect(service.verify(token, NOW)).toEqual({
+        sub: 1,
+        iat: NOW / 1000,
+        exp: NOW / 1000 + TTL,
+        iss: 'learnlite',
+        aud: 'learnlite-api'
+      });
+    });
+
+    it('round-trips access tokens', () => {
+      const token = service.generateAccessToken({ id: 5, email: 'ada@example.com', role: 'student' }, 'session-1');
+
+      expect(service.verifyAccessToken(token)).toMatchObject({
+        sub: 5,
+        email: 'ada@example.com',
+        role: 'student',
+        sid: 'session-1',
+        typ: 'access'
+      });
+    });
+
+    it('rejects access tokens with a missing or mistyped claim', () => {
+      const claims = { sub: 5, email: 'ada@example.com', role: 'student', sid: 'session-1', typ: 'access' };
+
+      expect(service.verifyAccessToken(service.sign(claims, TTL))).not.toBeNull();
+      expect(service.verifyAccessToken(service.sign({ ...claims, typ: 'mfa_login' }, TTL))).toBeNull();
+      expect(service.verifyAccessToken(service.sign({ ...claims, sub: '5' }, TTL))).toBeNull();
+      expect(service.verifyAccessToken(service.sign({ ...claims, email: undefined }, TTL))).toBeNull();
+      expect(service.verifyAccessToken(service.sign({ ...claims, role: 1 }, TTL))).toBeNull();
+      expect(service.verifyAccessToken(service.sign({ ...claims, sid: null }, TTL))).toBeNull();
+    });
+
+    it('only accepts challenge tokens for their purpose, and never as access tokens', () => {
+      const token = service.generateChallengeToken(5, 'mfa_login');
+
+      expect(service.verifyChallengeToken(token, 'mfa_login')).toBe(5);
+      expect(service.verifyChallengeToken(token, 'mfa_enroll')).toBeNull();
+      expect(service.verifyAccessToken(token)).toBeNull();
+      expect(service.verifyChallengeToken(service.sign({ sub: 'x', typ: 'mfa_login' }, TTL), 'mfa_login')).toBeNull();
+      expect(service.verifyChallengeToken('not-a-token', 'mfa_login')).toBeNull();
+    });
+
+    it('publishes no secret keys in the JWK set', () => {
+      expect(service.getJwks()).toEqual({ keys: [] });
+    });
+  });
+
+  describe('expiry', () => {
+    const service = loadTokenService();
+
+    it('accepts a token until exp and rejects it from then on', () => {
+      const token = service.sign({ sub: 1 }, TTL, NOW);
+
+      expect(service.verify(token, NOW + TTL * 1000 - 1)).not.toBeNull();
+      expect(service.verify(token, NOW + TTL * 1000)).toBeNull();
+    });
+
+    it('rejects tokens without exp', () => {
+      const { exp, ...withoutExp } = VALID_CLAIMS;
+      expect(exp).toBeDefined();
+      expect(service.verify(forgeHs256({ alg: 'HS256', kid: 'test' }, withoutExp, 'test-jwt-secret'), NOW)).toBeNull();
+    });
+
+    it('rejects tokens before nbf', () => {
+      const token = service.sign({ sub: 1, nbf: NOW / 1000 + 60 }, TTL, NOW);
+
+      expect(service.verify(token, NOW)).toBeNull();
+      expect(service.verify(token, NOW + 60 * 1000)).not.toBeNull();
+    });
+  });
+
+  describe('issuer and audience', () => {
+    const service = loadTokenService();
+
+    it('rejects tokens from another issuer', () => {
+      const other = loadTokenService({ JWT_ISSUER: 'someone-else' });
+      expect(service.verify(other.sign({ sub: 1 }, TTL, NOW), NOW)).toBeNull();
+    });
+
+    it('rejects tokens without an issuer', () => {
+      const other = loadTokenService({ JWT_ISSUER: '' });
+      expect(service.verify(other.sign({ sub: 1 }, TTL, NOW), NOW)).toBeNull();
+    });
+
+    it('rejects tokens for another audience', () => {
+      const other = loadTokenService({ JWT_AUDIENCE: 'another-api' });
+      expect(service.verify(other.sign({ sub: 1 }, TTL, NOW), NOW)).toBeNull();
+    });
+
+    it('accepts an audience list that includes ours', () => {
+      const withList = forgeHs256({ alg: 'HS256', kid: 'test' }, { ...VALID_CLAIMS, aud: ['another-api', 'learnlite-api'] }, 'test-jwt-secret');
+      const withoutOurs = forgeHs256({ alg: 'HS256', kid: 'test' }, { ...VALID_CLAIMS, aud: ['another-api'] }, 'test-jwt-secret');
+
+      expect(service.verify(withList, NOW)).not.toBeNull();
+      expect(service.verify(withoutOurs, NOW)).toBeNull();
+    });
+
+    it('skips both checks when they are configured empty', () => {
+      const lenient = loadTokenService({ JWT_ISSUER: '', JWT_AUDIENCE: '' });
+      const token = lenient.sign({ sub: 1 }, TTL, NOW);
+
+      expect(lenient.verify(token, NOW)).toEqual({ sub: 1, iat: NOW / 1000, exp: NOW / 1000 + TTL });
+    });
+  });
+
+  describe('tampering', () => {
+    const service = loadTokenService();
+
+    it('rejects a changed payload', () => {
+      const [header, , signature] = service.sign({ sub: 1, role: 'student' }, TTL, NOW).split('.');
+      const payload = encode({ ...VALID_CLAIMS, sub: 1, role: 'admin', iat: NOW / 1000 });
+
+      expect(service.verify(`${header}.${payload}.${signature}`, NOW)).toBeNull();
+    });
+
+    it('rejects a changed signature', () => {
+      const token = service.sign({ sub: 1 }, TTL, NOW);
+      const [header, payload, signature] = token.split('.');
+      const flipped = Buffer.from(signature, 'base64url');
+      flipped[0] ^= 1;
+
+      expect(service.verify(`${header}.${payload}.${flipped.toString('base64url')}`, NOW)).toBeNull();
+      expect(service.verify(`${header}.${payload}.${signature.slice(0, 10)}`, NOW)).toBeNull();
+      expect(service.verify(`${header}.${payload}.`, NOW)).toBeNull();
+    });
+
+    it('rejects tokens signed with another secret', () => {
+      const other = loadTokenService({ JWT_SECRET: 'another-secret' });
+      expect(service.verify(other.sign({ sub: 1 }, TTL, NOW), NOW)).toBeNull();
+    });
+
+    it('rejects malformed tokens', () => {
+      const token = service.sign({ sub: 1 }, TTL, NOW);
+      const [header, payload, signature] = token.split('.');
+
+      expect(service.verify('', NOW)).toBeNull();
+      expect(service.verify(`${header}.${payload}`, NOW)).toBeNull();
+      expect(service.verify(`${token}.extra`, NOW)).toBeNull();
+      expect(service.verify(`not-json.${payload}.${signature}`, NOW)).toBeNull();
+      expect(service.verify(`${header}.${encode([1, 2])}.${signature}`, NOW)).toBeNull();
+      expect(service.verify(undefined as unknown as string, NOW)).toBeNull();
+    });
+  });
+
+  describe('algorithm', () => {
+    it('rejects a header algorithm that does not match the key', () => {
+      const service = loadTokenService();
+      const claims = { ...VALID_CLAIMS, sub: 1 };
+
+      expect(service.verify(forgeHs256({ alg: 'HS256', kid: 'test' }, claims, 'test-jwt-secret'), NOW)).not.toBeNull();
+      expect(service.verify(forgeHs256({ alg: 'RS256', kid: 'test' }, claims, 'test-jwt-secret'), NOW)).toBeNull();
+      expect(service.verify(`${encode({ alg: 'none', kid: 'test' })}.${encode(claims)}.`, NOW)).toBeNull();
+    });
+
+    it('rejects HS256 tokens signed with an RS256 public key', () => {
+      const service = loadTokenService({ JWT_ALGORITHM: 'RS256', JWT_KEY_ID: 'rsa', JWT_PRIVATE_KEY: pem(rsa.privateKey) });
+      const forged = forgeHs256({ alg: 'HS256', kid: 'rsa' }, { ...VALID_CLAIMS, sub: 1 }, pem(rsa.publicKey));
+
+      expect(service.verify(forged, NOW)).toBeNull();
+    });
+
+    it.each(['RS256', 'EdDSA'] as const)('signs and verifies %s tokens and publishes the public key', alg => {
+      const keys = alg === 'RS256' ? rsa : ed25519;
+      const service = loadTokenService({ JWT_ALGORITHM: alg, JWT_KEY_ID: `${alg}-key`, JWT_PRIVATE_KEY: pem(keys.privateKey) });
+      const token = service.sign({ sub: 1 }, TTL, NOW);
+
+      expect(decodeHeader(token)).toEqual({ alg, typ: 'JWT', kid: `${alg}-key` });
+      expect(service.verify(token, NOW)).toMatchObject({ sub: 1 });
+
+      const [header, payload, signature] = token.split('.');
+      const flipped = Buffer.from(signature, 'base64url');
+      flipped[0] ^= 1;
+      expect(service.verify(`${header}.${payload}.${flipped.toString('base64url')}`, NOW)).toBeNull();
+
+      const { keys: jwks } = service.getJwks();
+      expect(jwks).toEqual([{ ...keys.publicKey.export({ format: 'jwk' }), kid: `${alg}-key`, alg, use: 'sig' }]);
+    });
+  });
+
+  describe('key rotation', () => {
+    const retireAt = NOW + 24 * 60 * 60 * 1000;
+    const before = loadTokenService({ JWT_KEY_ID: '2025-12', JWT_SECRET: 'old-secret' });
+    const after = loadTokenService({
+      JWT_KEY_ID: '2026-01',
+      JWT_SECRET: 'new-secret',
+      JWT_PREVIOUS_KEYS: JSON.stringify([
+        { kid: '2025-12', alg: 'HS256', secret: 'old-secret', retireAt: new Date(retireAt).toISOString() }
+      ])
+    });
+
+    it('signs with the new key', () => {
+      const token = after.sign({ sub: 1 }, TTL, NOW);
+
+      expect(decodeHeader(token).kid).toBe('2026-01');
+      expect(before.verify(token, NOW)).toBeNull();
+    });
+
+    it('keeps accepting tokens of the previous key until it retires', () => {
+      const token = before.sign({ sub: 1 }, 2 * 24 * 60 * 60, NOW);
+
+      expect(after.verify(token, NOW)).toMatchObject({ sub: 1 });
+      expect(after.verify(token, retireAt - 1)).toMatchObject({ sub: 1 });
+      expect(after.verify(token, retireAt)).toBeNull();
+    });
+
+    it('rejects unknown and missing kids', () => {
+      const claims = { ...VALID_CLAIMS, sub: 1 };
+
+      expect(after.verify(forgeHs256({ alg: 'HS256', kid: '2025-11' }, claims, 'old-secret'), NOW)).toBeNull();
+      expect(after.verify(forgeHs256({ alg: 'HS256' }, claims, 'new-secret'), NOW)).toBeNull();
+    });
+
+    it('does not let a previous key replace the active kid', () => {
+      const service = loadTokenService({
+        JWT_KEY_ID: 'current',
+        JWT_SECRET: 'current-secret',
+        JWT_PREVIOUS_KEYS: JSON.stringify([{ kid: 'current', alg: 'HS256', secret: 'stale-secret' }])
+      });
+      const claims = { ...VALID_CLAIMS, sub: 1 };
+
+      expect(service.verify(forgeHs256({ alg: 'HS256', kid: 'current' }, claims, 'current-secret'), NOW)).not.toBeNull();
+      expect(service.verify(forgeHs256({ alg: 'HS256', kid: 'current' }, claims, 'stale-secret'), NOW)).toBeNull();
+    });
+
+    it('verifies asymmetric previous keys and drops retired ones from the JWK set', () => {
+      const old = loadTokenService({ JWT_ALGORITHM: 'EdDSA', JWT_KEY_ID: 'ed-old', JWT_PRIVATE_KEY: pem(ed25519.privateKey) });
+      const current = loadTokenService({
+        JWT_ALGORITHM: 'RS256',
+        JWT_KEY_ID: 'rsa-new',
+        JWT_PRIVATE_KEY: pem(rsa.privateKey),
+        JWT_PREVIOUS_KEYS: JSON.stringify([
+          { kid: 'ed-old', alg: 'EdDSA', publicKey: pem(ed25519.publicKey), retireAt: new Date(retireAt).toISOString() }
+        ])
+      });
+      const token = old.sign({ sub: 1 }, TTL, NOW);
+
+      expect(current.verify(token, NOW)).toMatchObject({ sub: 1 });
+      expect(current.getJwks(NOW).keys.map(key => key.kid)).toEqual(['rsa-new', 'ed-old']);
+      expect(current.getJwks(retireAt).keys.map(key => key.kid)).toEqual(['rsa-new']);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpAuthUri,
+  generateSecret,
+  hotp,
+  timeStep,
+  totp,
+  verifyTotp
+} from '../../src/utils/totp';
+
+// The RFC 4226 / RFC 6238 SHA-1 test secret: ASCII "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('base32', () => {
+  it('encodes the RFC test secret', () => {
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+  });
+
+  it('round-trips bytes that do not fill the last quantum', () => {
+    const bytes = Buffer.from([0xff, 0x00, 0x10]);
+    expect(base32Decode(base32Encode(bytes))).toEqual(bytes);
+  });
+
+  it('ignores case, spaces and padding when decoding', () => {
+    expect(base32Decode('gezd gnbv gy3t qojq gezd gnbv gy3t qojq====')).toEqual(Buffer.from('12345678901234567890'));
+  });
+
+  it('rejects characters outside the alphabet', () => {
+    expect(() => base32Decode('GEZD1')).toThrow('Invalid base32 character: 1');
+  });
+
+  it('generates 160-bit secrets', () => {
+    expect(base32Decode(generateSecret())).toHaveLength(20);
+  });
+});
+
+describe('hotp', () => {
+  // RFC 4226 appendix D
+  it.each([
+    [0, '755224'],
+    [1, '287082'],
+    [2, '359152'],
+    [3, '969429'],
+    [4, '338314'],
+    [5, '254676'],
+    [6, '287922'],
+    [7, '162583'],
+    [8, '399871'],
+    [9, '520489']
+  ])('counter %i is %s', (counter, code) => {
+    expect(hotp(RFC_SECRET, counter)).toBe(code);
+  });
+});
+
+describe('totp', () => {
+  // RFC 6238 appendix B (SHA-1), last six of the eight digits
+  it.each([
+    [59, '287082'],
+    [1111111109, '081804'],
+    [1111111111, '050471'],
+    [1234567890, '005924'],
+    [2000000000, '279037'],
+    [20000000000, '353130']
+  ])('at %i seconds is %s', (seconds, code) => {
+    expect(totp(RFC_SECRET, seconds * 1000)).toBe(code);
+  });
+
+  it('uses 30-second steps', () => {
+    expect(timeStep(59 * 1000)).toBe(1);
+    expect(timeStep(60 * 1000)).toBe(2);
+  });
+});
+
+describe('verifyTotp', () => {
+  const now = 1111111111 * 1000;
+  const step = timeStep(now);
+
+  it('returns the time step of a current code', () => {
+    expect(verifyTotp(RFC_SECRET, totp(RFC_SECRET, now), { now })).toBe(step);
+  });
+
+  it('accepts one step of drift on each side', () => {
+    expect(verifyTotp(RFC_SECRET, hotp(RFC_SECRET, step - 1), { now })).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, hotp(RFC_SECRET, step + 1), { now })).toBe(step + 1);
+  });
+
+  it('rejects codes two steps away', () => {
+    expect(verifyTotp(RFC_SECRET, hotp(RFC_SECRET, step - 2), { now })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, hotp(RFC_SECRET, step + 2), { now })).toBeNull();
+  });
+
+  it('accepts no drift with a window of 0', () => {
+    expect(verifyTotp(RFC_SECRET, hotp(RFC_SECRET, step - 1), { now, window: 0 })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, hotp(RFC_SECRET, step), { now, window: 0 })).toBe(step);
+  });
+
+  it('ignores spaces in the code', () => {
+    expect(verifyTotp(RFC_SECRET, '050 471', { now })).toBe(step);
+  });
+
+  it('rejects codes that are not six digits', () => {
+    expect(verifyTotp(RFC_SECRET, '50471', { now })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '0504712', { now })).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '05047a', { now })).toBeNull();
+  });
+
+  it('rejects codes for another secret', () => {
+    expect(verifyTotp(generateSecret(), totp(RFC_SECRET, now), { now })).toBeNull();
+  });
+});
+
+describe('buildOtpAuthUri', () => {
+  it('labels the account with the issuer and lists the parameters', () => {
+    expect(buildOtpAuthUri(RFC_SECRET, 'ada@example.com', 'LearnLite')).toBe(
+      'otpauth://totp/LearnLite%3Aada%40example.com' +
+      `?secret=${RFC_SECRET}&issuer=LearnLite&algorithm=SHA1&digits=6&period=30`
+    );
+  });
+});
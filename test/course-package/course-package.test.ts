@@ -0,0 +1,444 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import crypto from 'crypto';
+import { db } from '../../src/db';
+import { config } from '../../src/config';
+import { LessonAttachmentsService } from '../../src/services/lesson-attachments.service';
+import { lessonRevisionsService } from '../../src/services/lesson-revisions.service';
+import { CoursePackageService, AttachmentMissingError } from '../../src/services/course-package.service';
+import { CourseManifest, MANIFEST_FILE } from '../../src/modules/course-package/manifest';
+import { packTarGz, unpackTarGz } from '../../src/modules/course-package/tar';
+
+/**
+ * Course export followed by import, against an in-memory stand-in for the
+ * course content tables: the imported course must export to the same package
+ */
+
+jest.mock('../../src/db', () => ({
+  db: { query: jest.fn(), getClient: jest.fn() }
+}));
+
+jest.mock('../../src/services/lesson-attachments.service', () => ({
+  LessonAttachmentsService: { readAttachment: jest.fn(), storeObject: jest.fn() }
+}));
+
+jest.mock('../../src/services/lesson-revisions.service', () => ({
+  lessonRevisionsService: { createRevision: jest.fn() }
+}));
+
+type Row = Record<string, any>;
+
+const TABLES = [
+  'courses', 'course_categories', 'course_modules', 'lessons', 'lesson_prerequisites', 'lesson_attachments',
+  'quizzes', 'quiz_questions', 'question_banks', 'bank_questions', 'quiz_question_draws'
+] as const;
+
+type Store = Record<typeof TABLES[number], Row[]>;
+
+const OWNER = 2;
+const OTHER_INSTRUCTOR = 3;
+const COURSE_ID = 10;
+const CSV = Buffer.from('id,name\n1,ada\n');
+const CSV_SHA256 = crypto.createHash('sha256').update(CSV).digest('hex');
+
+let store: Store;
+let objects: Map<string, Buffer>;
+let nextId: number;
+
+/**
+ * The source course; rows are deliberately not in position order
+ */
+function seed(): Store {
+  return {
+    course_categories: [{ id: 1, slug: 'databases' }],
+    courses: [{
+      id: COURSE_ID, title: 'SQL Basics', description: 'Tables and queries', price_cents: 1900, instructor_id: OWNER,
+      published: true, release_mode: 'sequential', import_source: null, category_id: 1, level: 'beginner',
+      language: 'en', tags: ['sql']
+    }],
+    course_modules: [
+      { id: 21, course_id: COURSE_ID, title: 'Queries', position: 2 },
+      { id: 20, course_id: COURSE_ID, title: 'Setup', position: 1 },
+      { id: 22, course_id: COURSE_ID, title: 'Joins', position: 5 }
+    ],
+    lessons: [
+      lesson(30, 20, 'Installing Postgres', 1),
+      lesson(31, 20, 'psql', 2, { video_url: 'https://video.example.com/psql' }),
+      lesson(32, 21, 'SELECT', 3),
+      lesson(33, 21, 'Tables', 1, { unlock_after_days: 7 }),
+      lesson(34, 22, 'Inner joins', 1, { unlock_at: new Date('2030-01-01T00:00:00Z') })
+    ],
+    lesson_prerequisites: [
+      { id: 1, lesson_id: 34, prerequisite_lesson_id: 31, prerequisite_quiz_id: null, min_score: null },
+      { id: 2, lesson_id: 34, prerequisite_lesson_id: null, prerequisite_quiz_id: 41, min_score: '70.00' }
+    ],
+    lesson_attachments: [{
+      id: 60, lesson_id: 32, course_id: COURSE_ID, filename: 'people.csv', content_type: 'text/csv',
+      size_bytes: String(CSV.length), checksum_sha256: CSV_SHA256
+    }],
+    quizzes: [
+      quiz(40, 'Setup check', { shuffle_questions: true }),
+      quiz(41, 'Queries quiz', { max_attempts: 3, pass_score: '60.00', score_policy: 'latest', cooldown_minutes: 10 })
+    ],
+    quiz_questions: [
+      question(40, 'Which port does Postgres use by default?', 'single_choice', { choices: ['5432', '3306'], correct_index: 0 }),
+      question(40, 'psql is a command-line client', 'true_false', { correct_answer: true }, '0.50'),
+      question(40, 'Order the steps', 'ordering', { items: ['Install', 'Start', 'Connect'], correct_order: [0, 1, 2] }),
+      question(41, 'How many rows does SELECT 1 return?', 'numeric', { correct_value: 1, tolerance: 0 }),
+      question(41, 'Which keyword filters rows?', 'short_text', { accepted_answers: ['WHERE'], case_sensitive: false }, '2.00'),
+      question(41, 'Aggregate functions', 'multiple_choice', { choices: ['COUNT', 'JOIN', 'SUM'], correct_indices: [0, 2] }),
+      question(41, 'Match the clauses', 'matching', {
+        items: ['WHERE', 'ORDER BY'], matches: ['Sorts rows', 'Filters rows'], correct_matches: [1, 0]
+      })
+    ],
+    question_banks: [{ id: 50, course_id: COURSE_ID, title: 'SELECT drills', description: null }],
+    bank_questions: [
+      { id: 1, bank_id: 50, prompt: 'SELECT * returns every column', type: 'true_false', points: '1.00',
+        definition: { correct_answer: true }, topic: 'select', difficulty: 'easy' },
+      { id: 2, bank_id: 50, prompt: 'LIMIT 0 returns no rows', type: 'true_false', points: '1.00',
+        definition: { correct_answer: true }, topic: 'select', difficulty: 'medium' }
+    ],
+    quiz_question_draws: [{ quiz_id: 41, bank_id: 50, count: 1, topic: 'select', difficulty: null, position: 1 }]
+  };
+}
+
+function lesson(id: number, moduleId: number, title: string, position: number, fields: Row = {}): Row {
+  return {
+    id, course_id: COURSE_ID, module_id: moduleId, title, position, video_url: null,
+    content_md: `# ${title}\n\nNotes on ${title}.`, unlock_after_days: null, unlock_at: null, ...fields
+  };
+}
+
+function quiz(id: number, title: string, fields: Row = {}): Row {
+  return {
+    id, course_id: COURSE_ID, title, max_attempts: null, time_limit_minutes: null, pass_score: null,
+    score_policy: 'best', cooldown_minutes: null, shuffle_questions: false, shuffle_choices: false, ...fields
+  };
+}
+
+let questionId = 0;
+function question(quizId: number, prompt: string, type: string, definition: Row, points = '1.00'): Row {
+  return { id: ++questionId, quiz_id: quizId, prompt, type, points, definition };
+}
+
+function result(rows: Row[] = []) {
+  return { rows, rowCount: rows.length };
+}
+
+function insert(table: keyof Store, row: Row): Row {
+  const created = { id: nextId++, ...row };
+  store[table].push(created);
+  return created;
+}
+
+const courseIdOf = (table: 'lessons' | 'quizzes' | 'question_banks', id: number) =>
+  store[table].find(row => row.id === id)?.course_id;
+
+const byPosition = (a: Row, b: Row) => a.position - b.position;
+
+async function query(text: string, params: any[] = []) {
+  const sql = text.replace(/\s+/g, ' ').trim();
+  const [id] = params;
+
+  if (['BEGIN', 'COMMIT', 'ROLLBACK'].includes(sql)) {
+    return result();
+  }
+
+  // Export
+  if (sql.startsWith('SELECT c.id, c.title')) {
+    return result(store.courses.filter(row => row.id === id).map(row => ({
+      ...row, category_slug: store.course_categories.find(category => category.id === row.category_id)?.slug ?? null
+    })));
+  }
+  if (sql.startsWith('SELECT id, title, position FROM course_modules')) {
+    return result(store.course_modules.filter(row => row.course_id === id).sort(byPosition));
+  }
+  if (sql.startsWith('SELECT l.id, l.module_id')) {
+    const modulePosition = (row: Row) => store.course_modules.find(module => module.id === row.module_id)!.position;
+    return result(store.lessons
+      .filter(row => row.course_id === id)
+      .sort((a, b) => modulePosition(a) - modulePosition(b) || byPosition(a, b)));
+  }
+  if (sql.startsWith('SELECT p.lesson_id')) {
+    return result(store.lesson_prerequisites.filter(row => courseIdOf('lessons', row.lesson_id) === id));
+  }
+  if (sql.startsWith('SELECT id, lesson_id, filename')) {
+    return result(store.lesson_attachments.filter(row => row.course_id === id));
+  }
+  if (sql.startsWith('SELECT id, title, max_attempts')) {
+    return result(store.quizzes.filter(row => row.course_id === id));
+  }
+  if (sql.startsWith('SELECT qq.quiz_id')) {
+    return result(store.quiz_questions.filter(row => courseIdOf('quizzes', row.quiz_id) === id));
+  }
+  if (sql.startsWith('SELECT id, title, description FROM question_banks')) {
+    return result(store.question_banks.filter(row => row.course_id === id));
+  }
+  if (sql.startsWith('SELECT bq.bank_id')) {
+    return result(store.bank_questions.filter(row => courseIdOf('question_banks', row.bank_id) === id));
+  }
+  if (sql.startsWith('SELECT d.quiz_id')) {
+    return result(store.quiz_question_draws
+      .filter(row => courseIdOf('quizzes', row.quiz_id) === id)
+      .sort((a, b) => a.quiz_id - b.quiz_id || byPosition(a, b)));
+  }
+
+  // Import checks
+  if (sql.startsWith('SELECT id, title, import_source FROM courses')) {
+    const [ownerId, title, source] = params;
+    return result(store.courses.filter(row =>
+      row.instructor_id === ownerId && (row.title.toLowerCase() === title.toLowerCase() || row.import_source === source)
+    ));
+  }
+  if (sql.startsWith('SELECT id FROM course_categories')) {
+    return result(store.course_categories.filter(row => row.slug === id));
+  }
+
+  // Import writes
+  if (sql.startsWith('INSERT INTO courses')) {
+    const [title, description, price_cents, instructor_id, release_mode, import_source, category_id, level, language, tags] = params;
+    return result([insert('courses', {
+      title, description, price_cents, instructor_id, published: false, release_mode, import_source, category_id, level, language, tags
+    })]);
+  }
+  if (sql.startsWith('INSERT INTO question_banks')) {
+    const [course_id, title, description] = params;
+    return result([insert('question_banks', { course_id, title, description })]);
+  }
+  if (sql.startsWith('INSERT INTO bank_questions')) {
+    const [bank_id, prompt, type, points, definition, topic, difficulty] = params;
+    insert('bank_questions', { bank_id, prompt, type, points: String(points), definition: JSON.parse(definition), topic, difficulty });
+    return result();
+  }
+  if (sql.startsWith('INSERT INTO quizzes')) {
+    const [
+      course_id, title, max_attempts, time_limit_minutes, pass_score, score_policy, cooldown_minutes, shuffle_questions, shuffle_choices
+    ] = params;
+    return result([insert('quizzes', {
+      course_id, title, max_attempts, time_limit_minutes, pass_score, score_policy, cooldown_minutes, shuffle_questions, shuffle_choices
+    })]);
+  }
+  if (sql.startsWith('INSERT INTO quiz_questions')) {
+    const [quiz_id, prompt, type, points, definition] = params;
+    insert('quiz_questions', { quiz_id, prompt, type, points: String(points), definition: JSON.parse(definition) });
+    return result();
+  }
+  if (sql.startsWith('INSERT INTO quiz_question_draws')) {
+    const [quiz_id, bank_id, count, topic, difficulty, position] = params;
+    insert('quiz_question_draws', { quiz_id, bank_id, count, topic, difficulty, position });
+    return result();
+  }
+  if (sql.startsWith('INSERT INTO course_modules')) {
+    const [course_id, title, position] = params;
+    return result([insert('course_modules', { course_id, title, position })]);
+  }
+  if (sql.startsWith('INSERT INTO lessons')) {
+    const [course_id, module_id, title, video_url, content_md, position, unlock_after_days, unlock_at] = params;
+    return result([insert('lessons', { course_id, module_id, title, video_url, content_md, position, unlock_after_days, unlock_at })]);
+  }
+  if (sql.startsWith('UPDATE lesson_revisions SET published_at') || sql.startsWith('UPDATE lessons SET published_revision_id')) {
+    return result();
+  }
+  if (sql.startsWith('INSERT INTO lesson_attachments')) {
+    const [lesson_id, course_id, filename, content_type, size_bytes, checksum_sha256] = params;
+    insert('lesson_attachments', { lesson_id, course_id, filename, content_type, size_bytes, checksum_sha256 });
+    return result();
+  }
+  if (sql.startsWith('INSERT INTO lesson_prerequisites')) {
+    const [lesson_id, prerequisite_lesson_id, prerequisite_quiz_id, min_score] = params;
+    insert('lesson_prerequisites', { lesson_id, prerequisite_lesson_id, prerequisite_quiz_id, min_score });
+    return result();
+  }
+
+  throw new Error(`Unexpected query: ${sql}`);
+}
+
+function unpack(archive: Buffer): { manifest: CourseManifest; files: Map<string, Buffer> } {
+  const files = new Map(unpackTarGz(archive, config.courseImportMaxBytes).map(entry => [entry.name, entry.data]));
+  const manifest = JSON.parse(files.get(MANIFEST_FILE)!.toString('utf8'));
+  files.delete(MANIFEST_FILE);
+  return { manifest, files };
+}
+
+async function exportSource(): Promise<Buffer> {
+  return (await CoursePackageService.exportCourse(COURSE_ID)).archive;
+}
+
+describe('CoursePackageService', () => {
+  beforeEach(() => {
+    store = seed();
+    objects = new Map([[CSV_SHA256, CSV]]);
+    nextId = 1000;
+
+    jest.mocked(db.query).mockImplementation(query as any);
+    jest.mocked(db.getClient).mockImplementation((async () => ({ query, release: () => undefined })) as any);
+    jest.mocked(LessonAttachmentsService.readAttachment).mockImplementation(async attachment =>
+      objects.get(attachment.checksum_sha256) ?? null
+    );
+    jest.mocked(LessonAttachmentsService.storeObject).mockImplementation(async (_client, checksum, data) => {
+      objects.set(checksum, data);
+      return true;
+    });
+    jest.mocked(lessonRevisionsService.createRevision).mockImplementation((async () => ({ id: nextId++ })) as any);
+  });
+
+  describe('exportCourse', () => {
+    it('lists modules and lessons in position order with package keys', async () => {
+      const { manifest, files } = unpack(await exportSource());
+
+      expect(manifest.modules.map(module => [module.key, module.title, module.position])).toEqual([
+        ['module-1', 'Setup', 1],
+        ['module-2', 'Queries', 2],
+        ['module-3', 'Joins', 5]
+      ]);
+      expect(manifest.modules.map(module => module.lessons.map(lesson => [lesson.key, lesson.title, lesson.position]))).toEqual([
+        [['lesson-1', 'Installing Postgres', 1], ['lesson-2', 'psql', 2]],
+        [['lesson-3', 'Tables', 1], ['lesson-4', 'SELECT', 3]],
+        [['lesson-5', 'Inner joins', 1]]
+      ]);
+      expect(manifest.modules[2].lessons[0].prerequisites).toEqual([{ lesson: 'lesson-2' }, { quiz: 'quiz-2', minScore: 70 }]);
+      expect(files.get('lessons/004-select.md')!.toString()).toBe('# SELECT\n\nNotes on SELECT.');
+      expect(files.get(`attachments/${CSV_SHA256}`)).toEqual(CSV);
+    });
+
+    it('fails when an attachment is missing from storage', async () => {
+      objects.clear();
+      const error = await CoursePackageService.exportCourse(COURSE_ID).catch(caught => caught);
+      expect(error).toBeInstanceOf(AttachmentMissingError);
+      expect(error).toMatchObject({ message: 'ATTACHMENT_MISSING', filename: expect.any(String) });
+    });
+
+    it('fails for an unknown course', async () => {
+      await expect(CoursePackageService.exportCourse(999)).rejects.toThrow('NOT_FOUND');
+    });
+  });
+
+  describe('importCourse', () => {
+    it('reports a dry run without writing anything', async () => {
+      const archive = await exportSource();
+      const before = JSON.stringify(store);
+
+      const report = await CoursePackageService.importCourse(archive, OWNER, { dryRun: true, force: false });
+
+      expect(report).toMatchObject({ dryRun: true, imported: false, errors: [], warnings: [], course: null });
+      expect(report.summary).toEqual({
+        modules: 3,
+        lessons: 5,
+        quizzes: 2,
+        questions: 7,
+        questionBanks: 1,
+        bankQuestions: 2,
+        attachments: 1,
+        attachmentBytes: CSV.length
+      });
+      expect(report.conflicts).toEqual([
+        { code: 'COURSE_TITLE_EXISTS', message: 'You already have a course titled "SQL Basics"', courseId: COURSE_ID }
+      ]);
+      expect(JSON.stringify(store)).toBe(before);
+    });
+
+    it('does not import over conflicts without force', async () => {
+      const archive = await exportSource();
+      const before = JSON.stringify(store);
+
+      const report = await CoursePackageService.importCourse(archive, OWNER, { dryRun: false, force: false });
+
+      expect(report.imported).toBe(false);
+      expect(report.conflicts.map(conflict => conflict.code)).toEqual(['COURSE_TITLE_EXISTS']);
+      expect(JSON.stringify(store)).toBe(before);
+    });
+
+    it('imports despite conflicts with force', async () => {
+      const report = await CoursePackageService.importCourse(await exportSource(), OWNER, { dryRun: false, force: true });
+
+      expect(report.imported).toBe(true);
+      expect(report.conflicts.map(conflict => conflict.code)).toEqual(['COURSE_TITLE_EXISTS']);
+      expect(report.course).toMatchObject({ title: 'SQL Basics', instructor_id: OWNER, published: false });
+    });
+
+    it('reports a package already imported by the same user', async () => {
+      const archive = await exportSource();
+      const first = await CoursePackageService.importCourse(archive, OTHER_INSTRUCTOR, { dryRun: false, force: false });
+      expect(first.conflicts).toEqual([]);
+      const importedId = first.course!.id;
+
+      const again = await CoursePackageService.importCourse(archive, OTHER_INSTRUCTOR, { dryRun: true, force: false });
+      expect(again.conflicts).toEqual([
+        {
+          code: 'ALREADY_IMPORTED',
+          message: `Course ${importedId} was already imported from ${config.appBaseUrl}/courses/${COURSE_ID}`,
+          courseId: importedId
+        },
+        { code: 'COURSE_TITLE_EXISTS', message: 'You already have a course titled "SQL Basics"', courseId: importedId }
+      ]);
+
+      const renamed = await CoursePackageService.importCourse(archive, OTHER_INSTRUCTOR, { dryRun: true, force: false, title: 'SQL Again' });
+      expect(renamed.conflicts.map(conflict => conflict.code)).toEqual(['ALREADY_IMPORTED']);
+    });
+
+    it('rejects an archive that is not a package', async () => {
+      const report = await CoursePackageService.importCourse(Buffer.from('not a package'), OWNER, { dryRun: true, force: false });
+
+      expect(report.errors).toEqual([{ field: 'package', message: 'Archive is not gzip-compressed' }]);
+      expect(report.summary).toBeNull();
+    });
+
+    it('rejects a package with an unsafe entry name', async () => {
+      const archive = packTarGz([{ name: '../manifest.json', data: Buffer.from('{}') }]);
+      const report = await CoursePackageService.importCourse(archive, OWNER, { dryRun: true, force: false });
+
+      expect(report.errors).toEqual([{ field: 'package', message: 'Unsafe entry name: ../manifest.json' }]);
+    });
+  });
+
+  describe('round trip', () => {
+    it('imports a course that exports to the same content', async () => {
+      const source = unpack(await exportSource());
+
+      const report = await CoursePackageService.importCourse(
+        await exportSource(), OTHER_INSTRUCTOR, { dryRun: false, force: false }
+      );
+      expect(report.imported).toBe(true);
+      const courseId = report.course!.id;
+
+      const copy = unpack((await CoursePackageService.exportCourse(courseId)).archive);
+
+      expect(copy.manifest.course).toEqual(source.manifest.course);
+      expect(copy.manifest.modules).toEqual(source.manifest.modules);
+      expect(copy.manifest.questionBanks).toEqual(source.manifest.questionBanks);
+      expect(copy.manifest.quizzes).toEqual(source.manifest.quizzes);
+      expect(copy.files).toEqual(source.files);
+      expect(copy.manifest.source.courseId).toBe(courseId);
+    });
+
+    it('keeps module and lesson positions and quiz question order in the new course', async () => {
+      const report = await CoursePackageService.importCourse(await exportSource(), OTHER_INSTRUCTOR, { dryRun: false, force: false });
+      const courseId = report.course!.id;
+
+      const modules = store.course_modules.filter(row => row.course_id === courseId);
+      expect(modules.map(row => [row.title, row.position])).toEqual([['Setup', 1], ['Queries', 2], ['Joins', 5]]);
+
+      const lessons = (title: string) => store.lessons
+        .filter(row => row.module_id === modules.find(module => module.title === title)!.id)
+        .map(row => [row.title, row.position]);
+      expect(lessons('Setup')).toEqual([['Installing Postgres', 1], ['psql', 2]]);
+      expect(lessons('Queries')).toEqual([['Tables', 1], ['SELECT', 3]]);
+      expect(lessons('Joins')).toEqual([['Inner joins', 1]]);
+
+      const quizzes = store.quizzes.filter(row => row.course_id === courseId);
+      expect(quizzes.map(row => row.title)).toEqual(['Setup check', 'Queries quiz']);
+      for (const [index, quiz] of quizzes.entries()) {
+        const sourceQuiz = store.quizzes[index];
+        const prompts = (quizId: number) => store.quiz_questions.filter(row => row.quiz_id === quizId).map(row => [row.prompt, row.type]);
+        expect(prompts(quiz.id)).toEqual(prompts(sourceQuiz.id));
+      }
+
+      // Prerequisites point at the new course's lesson and quiz
+      const joins = store.lessons.find(row => row.course_id === courseId && row.title === 'Inner joins')!;
+      const psql = store.lessons.find(row => row.course_id === courseId && row.title === 'psql')!;
+      expect(store.lesson_prerequisites.filter(row => row.lesson_id === joins.id)).toEqual([
+        expect.objectContaining({ prerequisite_lesson_id: psql.id, prerequisite_quiz_id: null }),
+        expect.objectContaining({ prerequisite_lesson_id: null, prerequisite_quiz_id: quizzes[1].id, min_score: 70 })
+      ]);
+    });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from '@jest/globals';
+import zlib from 'zlib';
+import { packTarGz, unpackTarGz, TarError } from '../../src/modules/course-package/tar';
+
+const MAX_BYTES = 1024 * 1024;
+
+/**
+ * Change the first entry's header of a packed archive, fixing up its checksum
+ */
+function withHeader(archive: Buffer, change: (header: Buffer) => void): Buffer {
+  const tar = zlib.gunzipSync(archive);
+  const header = tar.subarray(0, 512);
+  change(header);
+
+  header.fill(0x20, 148, 156);
+  let sum = 0;
+  for (const byte of header) {
+    sum += byte;
+  }
+  header.write(sum.toString(8).padStart(6, '0') + '\0 ', 148, 8, 'ascii');
+
+  return zlib.gzipSync(tar);
+}
+
+function setName(header: Buffer, name: string): void {
+  header.fill(0, 0, 100);
+  header.fill(0, 345, 500);
+  header.write(name, 0, 100, 'utf8');
+}
+
+function entryNames(archive: Buffer): string[] {
+  return unpackTarGz(archive, MAX_BYTES).map(entry => entry.name);
+}
+
+describe('packTarGz / unpackTarGz', () => {
+  it('round-trips names and contents in order', () => {
+    const entries = [
+      { name: 'manifest.json', data: Buffer.from('{"format":"learnlite-course"}\n') },
+      { name: 'lessons/001-intro.md', data: Buffer.from('# Intro\n\nHéllo') },
+      { name: 'attachments/empty', data: Buffer.alloc(0) },
+      { name: 'attachments/blob', data: Buffer.alloc(1500, 7) }
+    ];
+
+    expect(unpackTarGz(packTarGz(entries), MAX_BYTES)).toEqual(entries);
+  });
+
+  it('splits long names over the ustar prefix', () => {
+    const name = `lessons/${'a'.repeat(120)}/${'b'.repeat(90)}.md`;
+    expect(entryNames(packTarGz([{ name, data: Buffer.from('x') }]))).toEqual([name]);
+  });
+
+  it('refuses to pack a name that does not fit', () => {
+    expect(() => packTarGz([{ name: 'c'.repeat(300), data: Buffer.alloc(0) }])).toThrow('Entry name is too long');
+  });
+
+  it('is reproducible for a fixed mtime', () => {
+    const entries = [{ name: 'a.txt', data: Buffer.from('a') }];
+    expect(zlib.gunzipSync(packTarGz(entries, new Date(0)))).toEqual(zlib.gunzipSync(packTarGz(entries, new Date(0))));
+  });
+
+  it('strips a leading ./ and skips directories', () => {
+    const archive = withHeader(packTarGz([{ name: 'lessons', data: Buffer.alloc(0) }, { name: 'b.txt', data: Buffer.from('b') }]), header => {
+      setName(header, './lessons/');
+      header.write('5', 156, 1, 'ascii');
+    });
+    const dotted = withHeader(packTarGz([{ name: 'a.txt', data: Buffer.from('a') }]), header => setName(header, './a.txt'));
+
+    expect(entryNames(archive)).toEqual(['b.txt']);
+    expect(entryNames(dotted)).toEqual(['a.txt']);
+  });
+});
+
+describe('unpackTarGz safety', () => {
+  const single = (name: string) => packTarGz([{ name, data: Buffer.from('x') }]);
+
+  it.each([
+    ['a parent directory segment', '../etc/passwd'],
+    ['a nested parent directory segment', 'lessons/../../etc/passwd'],
+    ['an absolute path', '/etc/passwd'],
+    ['a backslash', 'lessons\\..\\evil.md']
+  ])('rejects a name with %s', (_, name) => {
+    expect(() => unpackTarGz(single(name), MAX_BYTES)).toThrow(TarError);
+    expect(() => unpackTarGz(single(name), MAX_BYTES)).toThrow(`Unsafe entry name: ${name}`);
+  });
+
+  it('rejects an unsafe name given by a long-name prefix', () => {
+    const name = `../${'d'.repeat(120)}/evil.md`;
+    expect(() => unpackTarGz(single(name), MAX_BYTES)).toThrow('Unsafe entry name');
+  });
+
+  it.each([
+    ['hard link', '1'],
+    ['symbolic link', '2'],
+    ['character device', '3'],
+    ['FIFO', '6']
+  ])('rejects a %s entry', (_, type) => {
+    const archive = withHeader(single('link'), header => {
+      header.write(type, 156, 1, 'ascii');
+      header.write('/etc/passwd', 157, 100, 'utf8'); // Link target
+    });
+
+    expect(() => unpackTarGz(archive, MAX_BYTES)).toThrow(TarError);
+    expect(() => unpackTarGz(archive, MAX_BYTES)).toThrow('Unsupported tar entry type');
+  });
+
+  it('rejects a header with a bad checksum', () => {
+    const tar = zlib.gunzipSync(single('a.txt'));
+    tar.write('b', 0, 1, 'ascii');
+
+    expect(() => unpackTarGz(zlib.gzipSync(tar), MAX_BYTES)).toThrow(TarError);
+  });
+
+  it('rejects a truncated entry', () => {
+    const tar = zlib.gunzipSync(packTarGz([{ name: 'a.txt', data: Buffer.alloc(2000, 1) }]));
+
+    expect(() => unpackTarGz(zlib.gzipSync(tar.subarray(0, 1024)), MAX_BYTES)).toThrow('Truncated tar entry');
+  });
+
+  it('rejects an archive that is not gzip-compressed', () => {
+    expect(() => unpackTarGz(zlib.gunzipSync(single('a.txt')), MAX_BYTES)).toThrow('Archive is not gzip-compressed');
+  });
+
+  it('rejects an archive that unpacks beyond the limit', () => {
+    const archive = packTarGz([{ name: 'big.bin', data: Buffer.alloc(64 * 1024) }]);
+
+    expect(() => unpackTarGz(archive, 16 * 1024)).toThrow(TarError);
+    expect(() => unpackTarGz(archive, 16 * 1024)).toThrow('Archive unpacks to more than');
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from '@jest/globals';
+import { renderMarkdown } from '../../src/modules/markdown/render';
+
+const ATTRIBUTES: Record<string, string[]> = {
+  a: ['href', 'title', 'rel'],
+  img: ['src', 'alt', 'title', 'loading']
+};
+
+/**
+ * The attributes of every link and image, failing on any that is not well formed
+ */
+function attributesOf(html: string): Array<{ tag: string; attributes: Record<string, string> }> {
+  return Array.from(html.matchAll(/<(a|img)\b([^>]*)>/g), ([, tag, source]) => {
+    expect(source).toMatch(/^(?:\s+[\w-]+="[^"<>]*")*$/);
+
+    const attributes: Record<string, string> = {};
+    for (const [, name, value] of source.matchAll(/([\w-]+)="([^"]*)"/g)) {
+      expect(ATTRIBUTES[tag]).toContain(name);
+      attributes[name] = value;
+    }
+    return { tag, attributes };
+  });
+}
+
+describe('renderMarkdown', () => {
+  describe('links and images', () => {
+    it('renders links, images and autolinks', () => {
+      const { html } = renderMarkdown('[docs](https://example.com "Docs") ![logo](/logo.png) <https://example.org>');
+
+      expect(html).toBe(
+        '<p><a href="https://example.com" title="Docs" rel="nofollow noopener noreferrer">docs</a> ' +
+        '<img src="/logo.png" alt="logo" loading="lazy"> ' +
+        '<a href="https://example.org" rel="nofollow noopener noreferrer">https://example.org</a></p>'
+      );
+    });
+
+    it('drops unsafe URLs', () => {
+      const { html } = renderMarkdown('[a](javascript:alert(1)) ![b](data:image/png;base64,AAAA)');
+
+      expect(html).toBe('<p>a b</p>');
+    });
+
+    it('keeps an image inside a link URL out of the href', () => {
+      const { html } = renderMarkdown('[a](http://x/![b](http://y/onmouseover=alert(1)//))');
+
+      const [link] = attributesOf(html);
+      expect(link.tag).toBe('a');
+      expect(link.attributes.href).toBe('http://x/![b](http://y/onmouseover=alert(1)//)');
+      expect(html).not.toContain('<img');
+    });
+
+    it('reads math in alt text and titles as text', () => {
+      const image = renderMarkdown('![$x$](http://img.png)').html;
+      const link = renderMarkdown('[a](http://x "$t$")').html;
+
+      expect(attributesOf(image)[0].attributes.alt).toBe('$x$');
+      expect(attributesOf(link)[0].attributes.title).toBe('$t$');
+      expect(image + link).not.toContain('<span');
+    });
+
+    it('escapes quotes from code spans in attributes once', () => {
+      const { html } = renderMarkdown('![a `"` b](http://img.png "t $"$ u")');
+
+      const [image] = attributesOf(html);
+      expect(image.attributes.alt).toBe('a `&quot;` b');
+      expect(image.attributes.title).toBe('t $&quot;$ u');
+    });
+
+    it('resolves backslash escapes in URLs before checking the scheme', () => {
+      expect(attributesOf(renderMarkdown('[a](http://x/a\\_b)').html)[0].attributes.href).toBe('http://x/a_b');
+      expect(renderMarkdown('[a](java\\-script:alert(1))').html).toBe('<p>a</p>');
+    });
+
+    it('keeps code spans in autolinks as text', () => {
+      const { html } = renderMarkdown('<http://x/`a"b`>');
+
+      const [link] = attributesOf(html);
+      expect(link.attributes.href).toBe('http://x/`a&quot;b`');
+      expect(html).not.toContain('<code>');
+    });
+
+    it('renders markup in link labels', () => {
+      const { html } = renderMarkdown('[`c` and *em*](http://x "say `hi`")');
+
+      expect(html).toBe(
+        '<p><a href="http://x" title="say `hi`" rel="nofollow noopener noreferrer"><code>c</code> and <em>em</em></a></p>'
+      );
+    });
+  });
+});
@@ -0,0 +1,539 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { Router } from 'express';
+import request from 'supertest';
+import { db } from '../../src/db';
+import app from '../../src/app';
+import apiRoutes from '../../src/routes';
+import authRoutes from '../../src/routes/auth.routes';
+import usersRoutes from '../../src/routes/users.routes';
+import coursesRoutes from '../../src/routes/courses.routes';
+import categoriesRoutes from '../../src/routes/categories.routes';
+import lessonsRoutes from '../../src/routes/lessons.routes';
+import modulesRoutes from '../../src/routes/modules.routes';
+import attachmentsRoutes from '../../src/routes/attachments.routes';
+import enrollmentsRoutes from '../../src/routes/enrollments.routes';
+import progressRoutes from '../../src/routes/progress.routes';
+import quizzesRoutes from '../../src/routes/quizzes.routes';
+import questionBanksRoutes from '../../src/routes/question-banks.routes';
+import assignmentsRoutes from '../../src/routes/assignments.routes';
+import certificatesRoutes from '../../src/routes/certificates.routes';
+import notificationsRoutes from '../../src/routes/notifications.routes';
+import instructorApplicationsRoutes from '../../src/routes/instructor-applications.routes';
+import { can } from '../../src/modules/permissions/policy';
+import { Permission } from '../../src/modules/permissions/permissions';
+import { API_KEY_SCOPES, ApiKeysService } from '../../src/services/api-keys.service';
+import { SessionsService } from '../../src/services/sessions.service';
+import { TokenService } from '../../src/services/token.service';
+import { OidcService } from '../../src/services/oidc.service';
+import { signDownloadUrl } from '../../src/modules/storage/signed-urls';
+import { config } from '../../src/config';
+
+/**
+ * Every route against every kind of caller
+ *
+ * Each route is requested through the app with a real access token or API
+ * key per caller (only the session and key lookups are stubbed), against
+ * one unpublished course. Callers without access must get 401, 403 or 404
+ * and callers with access anything else, and a row's permission must be
+ * one the controller actually checked with can(). Every other query answers
+ * with a row of that course, and routes that validate their input first get
+ * valid input. Adding a route without a row here fails the
+ * coverage test.
+ */
+
+jest.mock('../../src/db', () => ({
+  db: { query: jest.fn(), getClient: jest.fn() }
+}));
+
+// The real policy, recording which permissions are checked
+jest.mock('../../src/modules/permissions/policy', () => {
+  const actual = jest.requireActual('../../src/modules/permissions/policy') as typeof import('../../src/modules/permissions/policy');
+  return { ...actual, can: jest.fn(actual.can) };
+});
+
+const CALLERS = [
+  'admin',
+  'owner', // The course's instructor_id
+  'co_instructor',
+  'ta',
+  'student', // Active enrollment in the course
+  'unenrolled', // Student without an enrollment
+  'anonymous',
+  'api_key', // The owner's API key, holding every scope
+  'api_key_no_scope' // The owner's API key, holding no scope
+] as const;
+
+type Caller = typeof CALLERS[number];
+
+const USERS: Record<Exclude<Caller, 'anonymous' | 'api_key' | 'api_key_no_scope'>, { id: number; email: string; role: string }> = {
+  admin: { id: 1, email: 'admin@example.com', role: 'admin' },
+  owner: { id: 2, email: 'owner@example.com', role: 'instructor' },
+  co_instructor: { id: 3, email: 'co@example.com', role: 'instructor' },
+  ta: { id: 4, email: 'ta@example.com', role: 'instructor' },
+  student: { id: 5, email: 'student@example.com', role: 'student' },
+  unenrolled: { id: 6, email: 'unenrolled@example.com', role: 'student' }
+};
+
+const STAFF_ROLES: Record<number, string> = { 3: 'co_instructor', 4: 'ta' };
+const ACTIVE_ENROLLMENTS = [5];
+
+// A user none of the callers is, for routes about another user's data
+const OTHER_USER_ID = 99;
+
+const COURSE_ID = 1;
+
+interface RouteRule {
+  allowed: readonly Caller[];
+  // Checked by the controller or service after the route's guards; any of them grants access
+  permission?: Permission | Permission[];
+}
+
+const EVERYONE = CALLERS;
+const SESSIONS: Caller[] = ['admin', 'owner', 'co_instructor', 'ta', 'student', 'unenrolled'];
+const SIGNED_IN: Caller[] = [...SESSIONS, 'api_key', 'api_key_no_scope'];
+const SIGNED_IN_SCOPED: Caller[] = [...SESSIONS, 'api_key'];
+const ADMIN: Caller[] = ['admin'];
+const STUDENT_ROLE: Caller[] = ['admin', 'student', 'unenrolled'];
+const ENROLLED: Caller[] = ['admin', 'student'];
+const INSTRUCTOR_ROLE: Caller[] = ['admin', 'owner', 'co_instructor', 'ta', 'api_key'];
+const COURSE_STAFF: Caller[] = ['admin', 'owner', 'co_instructor', 'ta', 'api_key'];
+const COURSE_AUTHORS: Caller[] = ['admin', 'owner', 'co_instructor', 'api_key'];
+const COURSE_OWNER: Caller[] = ['admin', 'owner', 'api_key'];
+
+const MATRIX: Record<string, RouteRule> = {
+  // Auth
+  'POST /auth/register': { allowed: EVERYONE },
+  'POST /auth/login': { allowed: EVERYONE },
+  'POST /auth/login/mfa': { allowed: EVERYONE },
+  'GET /auth/oidc/authorize': { allowed: EVERYONE },
+  'POST /auth/oidc/callback': { allowed: EVERYONE },
+  'POST /auth/refresh': { allowed: EVERYONE },
+  'POST /auth/logout': { allowed: SESSIONS },
+  'POST /auth/password/forgot': { allowed: EVERYONE },
+  'POST /auth/password/reset': { allowed: EVERYONE },
+  'POST /auth/email/verify': { allowed: EVERYONE },
+  'POST /auth/email/verification': { allowed: SESSIONS },
+  'GET /auth/mfa': { allowed: SESSIONS },
+  // Anonymous callers present an enrollment challenge token instead
+  'POST /auth/mfa/setup': { allowed: [...SESSIONS, 'anonymous'] },
+  'POST /auth/mfa/activate': { allowed: [...SESSIONS, 'anonymous'] },
+  'POST /auth/mfa/recovery-codes': { allowed: SESSIONS },
+  'POST /auth/mfa/disable': { allowed: SESSIONS },
+  'GET /auth/mfa/policies': { allowed: ADMIN },
+  'PUT /auth/mfa/policies/:role': { allowed: ADMIN },
+  'GET /auth/api-keys': { allowed: SESSIONS },
+  'POST /auth/api-keys': { allowed: SESSIONS },
+  'DELETE /auth/api-keys/:id': { allowed: SESSIONS },
+  'GET /auth/jwks': { allowed: EVERYONE },
+  'GET /auth/me': { allowed: SIGNED_IN },
+
+  // Users
+  'GET /users': { allowed: ADMIN },
+  'POST /users': { allowed: ADMIN },
+  'GET /users/:id': { allowed: ADMIN, permission: 'user.view' },
+  'PUT /users/:id': { allowed: ADMIN, permission: 'user.edit' },
+  'POST /users/:id/unlock': { allowed: ADMIN },
+  'DELETE /users/:id/mfa': { allowed: ADMIN },
+  'DELETE /users/:id': { allowed: ADMIN },
+
+  // Courses
+  'GET /courses': { allowed: [...SESSIONS, 'anonymous', 'api_key'] }, // Filtered by what the caller may see
+  'GET /courses/:id': { allowed: COURSE_STAFF, permission: 'course.view' },
+  'GET /courses/:id/overview': { allowed: COURSE_STAFF, permission: 'course.view' },
+  'POST /courses': { allowed: INSTRUCTOR_ROLE },
+  'PUT /courses/:id': { allowed: COURSE_OWNER, permission: 'course.edit' },
+  'DELETE /courses/:id': { allowed: ADMIN },
+  'POST /courses/:id/publish': { allowed: COURSE_OWNER, permission: 'course.publish' },
+  'POST /courses/:id/unpublish': { allowed: COURSE_OWNER, permission: 'course.publish' },
+  'PUT /courses/:id/rating': { allowed: ENROLLED, permission: 'course.rate' },
+  'POST /courses/:id/clone': { allowed: COURSE_AUTHORS, permission: 'course.clone' },
+  'PUT /courses/:id/template': { allowed: ADMIN, permission: 'course.manage_templates' },
+  'POST /courses/import': { allowed: INSTRUCTOR_ROLE },
+  'GET /courses/:id/export': { allowed: COURSE_AUTHORS, permission: 'course.export' },
+  'GET /courses/:id/staff': { allowed: COURSE_STAFF, permission: 'course.view_staff' },
+  'POST /courses/:id/staff': { allowed: COURSE_OWNER, permission: 'course.manage_staff' },
+  'POST /courses/:id/staff/transfer': { allowed: ['admin', 'owner'], permission: 'course.transfer' },
+  'PUT /courses/:id/staff/:userId': { allowed: COURSE_OWNER, permission: 'course.manage_staff' },
+  'DELETE /courses/:id/staff/:userId': { allowed: COURSE_OWNER, permission: 'course.manage_staff' },
+  'GET /courses/:courseId/modules': { allowed: COURSE_STAFF, permission: 'lesson.view' },
+  'POST /courses/:courseId/modules': { allowed: COURSE_AUTHORS, permission: 'module.create' },
+  'POST /courses/:courseId/lessons': { allowed: COURSE_AUTHORS, permission: 'lesson.create' },
+  'GET /courses/:courseId/lessons': { allowed: COURSE_STAFF, permission: 'lesson.view' },
+  'PATCH /courses/:courseId/lessons/reorder': { allowed: COURSE_AUTHORS, permission: 'lesson.edit' },
+  'GET /courses/:courseId/release': { allowed: COURSE_AUTHORS, permission: 'lesson.edit' },
+  'PUT /courses/:courseId/release': { allowed: COURSE_OWNER, permission: 'course.edit' },
+  'GET /courses/:courseId/storage': { allowed: COURSE_AUTHORS, permission: 'lesson.edit' },
+  'PUT /courses/:courseId/storage': { allowed: ADMIN, permission: 'course.manage_storage' },
+  'POST /courses/:courseId/quizzes': { allowed: COURSE_AUTHORS, permission: 'quiz.manage' },
+  'GET /courses/:courseId/quizzes': { allowed: COURSE_STAFF, permission: 'quiz.view' },
+  'GET /courses/:courseId/question-banks': { allowed: COURSE_AUTHORS, permission: 'quiz.manage' },
+  'POST /courses/:courseId/question-banks': { allowed: COURSE_AUTHORS, permission: 'quiz.manage' },
+  'GET /courses/:courseId/assignments': { allowed: COURSE_STAFF, permission: 'assignment.view' },
+  'POST /courses/:courseId/assignments': { allowed: COURSE_AUTHORS, permission: 'assignment.manage' },
+  'GET /courses/:courseId/gradebook': {
+    allowed: [...COURSE_STAFF, 'student'],
+    permission: ['gradebook.view_course', 'gradebook.view_own']
+  },
+  'GET /courses/:courseId/enrollments': { allowed: COURSE_AUTHORS, permission: 'enrollment.view_course' },
+  'GET /courses/:courseId/progress': { allowed: COURSE_STAFF, permission: 'progress.view_course' },
+  'GET /courses/:courseId/progress/watch-time': { allowed: COURSE_STAFF, permission: 'progress.view_course' },
+  'GET /courses/:courseId/certificates': { allowed: COURSE_AUTHORS, permission: 'certificate.view_course' },
+
+  // Categories
+  'GET /categories': { allowed: EVERYONE },
+  'POST /categories': { allowed: ADMIN },
+  'PUT /categories/:id': { allowed: ADMIN },
+  'DELETE /categories/:id': { allowed: ADMIN },
+
+  // Lessons
+  'GET /lessons/:id': { allowed: COURSE_STAFF, permission: 'lesson.view' },
+  'PUT /lessons/:id': { allowed: COURSE_AUTHORS, permission: 'lesson.edit' },
+  'DELETE /lessons/:id': { allowed: COURSE_AUTHORS, permission: 'lesson.delete' },
+  'POST /lessons/:id/publish': { allowed: COURSE_AUTHORS, permission: 'lesson.publish' },
+  'GET /lessons/:id/revisions': { allowed: COURSE_AUTHORS, permission: 'lesson.edit' },
+  'GET /lessons/:id/revisions/diff': { allowed: COURSE_AUTHORS, permission: 'lesson.edit' },
+  'GET /lessons/:id/revisions/:revision': { allowed: COURSE_AUTHORS, permission: 'lesson.edit' },
+  'POST /lessons/:id/revisions/:revision/restore': { allowed: COURSE_AUTHORS, permission: 'lesson.edit' },
+  'PUT /lessons/:id/release': { allowed: COURSE_AUTHORS, permission: 'lesson.edit' },
+  'GET /lessons/:id/attachments': { allowed: COURSE_STAFF, permission: 'lesson.view' },
+  'POST /lessons/:id/attachments': { allowed: COURSE_AUTHORS, permission: 'lesson.edit' },
+
+  // Modules
+  'PUT /modules/:id': { allowed: COURSE_AUTHORS, permission: 'module.edit' },
+  'DELETE /modules/:id': { allowed: COURSE_AUTHORS, permission: 'module.delete' },
+
+  // Attachments (downloads are authorized by the URL signature)
+  'GET /attachments/:id/download': { allowed: EVERYONE },
+  'DELETE /attachments/:id': { allowed: COURSE_AUTHORS, permission: 'lesson.edit' },
+
+  // Enrollments
+  'POST /enrollments': { allowed: STUDENT_ROLE },
+  'GET /enrollments/me': { allowed: SIGNED_IN_SCOPED },
+  'PUT /enrollments/:id/status': { allowed: ADMIN },
+
+  // Progress (the caller's own enrollments only)
+  'POST /progress/complete': { allowed: SIGNED_IN_SCOPED },
+  'POST /progress/heartbeat': { allowed: SIGNED_IN_SCOPED },
+  'GET /progress/me': { allowed: SIGNED_IN_SCOPED },
+
+  // Quizzes
+  'GET /quizzes/:id': { allowed: COURSE_STAFF, permission: 'quiz.view' },
+  'PUT /quizzes/:id/settings': { allowed: COURSE_AUTHORS, permission: 'quiz.manage' },
+  'PUT /quizzes/:id/draws': { allowed: COURSE_AUTHORS, permission: 'quiz.manage' },
+  // Nobody takes the quizzes of an unpublished course; see the published courses below
+  'POST /quizzes/:id/attempts': { allowed: [], permission: 'quiz.submit' },
+  'POST /quizzes/:id/submit': { allowed: [], permission: 'quiz.submit' },
+  'GET /quizzes/:id/submissions/me': { allowed: SIGNED_IN_SCOPED },
+  'GET /quizzes/:id/submissions': { allowed: COURSE_STAFF, permission: 'quiz.view_submissions' },
+  'POST /quizzes/:quizId/questions': { allowed: COURSE_AUTHORS, permission: 'quiz.manage' },
+  'PUT /quizzes/:quizId/questions/:questionId': { allowed: COURSE_AUTHORS, permission: 'quiz.manage' },
+  'DELETE /quizzes/:quizId/questions/:questionId': { allowed: COURSE_AUTHORS, permission: 'quiz.manage' },
+
+  // Question banks
+  'GET /question-banks/:id': { allowed: COURSE_AUTHORS, permission: 'quiz.manage' },
+  'PUT /question-banks/:id': { allowed: COURSE_AUTHORS, permission: 'quiz.manage' },
+  'DELETE /question-banks/:id': { allowed: COURSE_AUTHORS, permission: 'quiz.manage' },
+  'POST /question-banks/:id/questions': { allowed: COURSE_AUTHORS, permission: 'quiz.manage' },
+  'PUT /question-banks/:id/questions/:questionId': { allowed: COURSE_AUTHORS, permission: 'quiz.manage' },
+  'DELETE /question-banks/:id/questions/:questionId': { allowed: COURSE_AUTHORS, permission: 'quiz.manage' },
+
+  // Assignments
+  'GET /assignments/files/:id/download': { allowed: EVERYONE },
+  'GET /assignments/:id': { allowed: COURSE_STAFF, permission: 'assignment.view' },
+  'PUT /assignments/:id': { allowed: COURSE_AUTHORS, permission: 'assignment.manage' },
+  'DELETE /assignments/:id': { allowed: COURSE_AUTHORS, permission: 'assignment.manage' },
+  'GET /assignments/:id/submission': { allowed: ENROLLED, permission: 'assignment.submit' },
+  'PUT /assignments/:id/submission': { allowed: ENROLLED, permission: 'assignment.submit' },
+  'POST /assignments/:id/submission/files': { allowed: ENROLLED, permission: 'assignment.submit' },
+  'DELETE /assignments/:id/submission/files/:fileId': { allowed: ENROLLED, permission: 'assignment.submit' },
+  'POST /assignments/:id/submission/submit': { allowed: ENROLLED, permission: 'assignment.submit' },
+  'POST /assignments/:id/regrade-requests': { allowed: ENROLLED, permission: 'assignment.submit' },
+  'GET /assignments/:id/submissions': { allowed: COURSE_STAFF, permission: 'assignment.grade' },
+  'PUT /assignments/:id/submissions/:submissionId/grade': { allowed: COURSE_STAFF, permission: 'assignment.grade' },
+  'POST /assignments/:id/release': { allowed: COURSE_STAFF, permission: 'assignment.grade' },
+  'GET /assignments/:id/regrade-requests': { allowed: COURSE_STAFF, permission: 'assignment.grade' },
+  'PUT /assignments/:id/regrade-requests/:requestId': { allowed: COURSE_STAFF, permission: 'assignment.grade' },
+
+  // Certificates
+  'POST /certificates/issue': { allowed: COURSE_OWNER, permission: 'certificate.issue' },
+  'POST /certificates/claim': { allowed: STUDENT_ROLE },
+  'GET /certificates/me': { allowed: SIGNED_IN_SCOPED },
+  'GET /certificates/:code': { allowed: EVERYONE },
+
+  // Notifications
+  'GET /notifications/health': { allowed: EVERYONE },
+
+  // Instructor applications
+  'POST /instructor-applications': { allowed: STUDENT_ROLE },
+  'GET /instructor-applications/me': { allowed: SESSIONS },
+  'GET /instructor-applications': { allowed: ADMIN },
+  'GET /instructor-applications/:id': { allowed: ADMIN, permission: 'instructor_application.view' },
+  'POST /instructor-applications/:id/approve': { allowed: ADMIN },
+  'POST /instructor-applications/:id/reject': { allowed: ADMIN }
+};
+
+const MOUNTS: [string, Router][] = [
+  ['/auth', authRoutes],
+  ['/users', usersRoutes],
+  ['/courses', coursesRoutes],
+  ['/categories', categoriesRoutes],
+  ['/lessons', lessonsRoutes],
+  ['/modules', modulesRoutes],
+  ['/attachments', attachmentsRoutes],
+  ['/enrollments', enrollmentsRoutes],
+  ['/progress', progressRoutes],
+  ['/quizzes', quizzesRoutes],
+  ['/question-banks', questionBanksRoutes],
+  ['/assignments', assignmentsRoutes],
+  ['/certificates', certificatesRoutes],
+  ['/notifications', notificationsRoutes],
+  ['/instructor-applications', instructorApplicationsRoutes]
+];
+
+function mountedRoutes(): string[] {
+  const routes: string[] = [];
+
+  for (const [prefix, router] of MOUNTS) {
+    for (const layer of router.stack) {
+      if (layer.route) {
+        const path = layer.route.path === '/' ? '' : layer.route.path;
+        routes.push(`${layer.route.stack[0].method.toUpperCase()} ${prefix}${path}`);
+      }
+    }
+  }
+
+  return routes;
+}
+
+const DENIED_STATUSES = [401, 403, 404];
+
+interface RouteInput {
+  query?: Record<string, string>;
+  body?: object;
+}
+
+function signedQuery(url: string): Record<string, string> {
+  return Object.fromEntries(new URL(url, 'http://localhost').searchParams);
+}
+
+// Valid input for the routes that validate it before checking permissions
+const INPUTS: Record<string, () => RouteInput> = {
+  'POST /auth/oidc/callback': () => ({ body: { code: 'code', state: 'state' } }),
+  'POST /auth/mfa/setup': () => ({ body: { challengeToken: TokenService.generateChallengeToken(OTHER_USER_ID, 'mfa_enroll') } }),
+  'POST /courses/:courseId/lessons': () => ({ body: { title: 'Lesson' } }),
+  'PATCH /courses/:courseId/lessons/reorder': () => ({ body: { lessonIds: [1] } }),
+  'POST /courses/:courseId/quizzes': () => ({ body: { title: 'Quiz' } }),
+  'GET /lessons/:id/revisions/diff': () => ({ query: { from: '1', to: '2' } }),
+  'GET /attachments/:id/download': () => ({ query: signedQuery(signDownloadUrl(1).url) }),
+  'PUT /quizzes/:id/draws': () => ({ body: { draws: [] } }),
+  'POST /quizzes/:quizId/questions': () => ({ body: { prompt: 'Question', choices: ['a', 'b'], correct_index: 0 } }),
+  'GET /assignments/files/:id/download': () => ({ query: signedQuery(signDownloadUrl(1, undefined, 'submission_file').url) }),
+  'POST /certificates/issue': () => ({ body: { userId: OTHER_USER_ID, courseId: COURSE_ID } })
+};
+
+// API keys of the course owner; any other key is unknown
+const API_KEYS: Record<string, ApiKeyScopeSet> = {
+  'll_all_scopes': [...API_KEY_SCOPES],
+  'll_no_scopes': []
+};
+
+type ApiKeyScopeSet = typeof API_KEY_SCOPES[number][];
+
+function authorization(caller: Caller): string | null {
+  switch (caller) {
+    case 'anonymous':
+      return null;
+    case 'api_key':
+      return 'ApiKey ll_all_scopes';
+    case 'api_key_no_scope':
+      return 'ApiKey ll_no_scopes';
+    default:
+      return `Bearer ${TokenService.generateAccessToken(USERS[caller], `session-${caller}`)}`;
+  }
+}
+
+/**
+ * The route's path with its parameters filled in: the course, another user, or 1
+ */
+function urlFor(path: string): string {
+  return path
+    .replace(/^\/courses\/:(id|courseId)/, `/courses/${COURSE_ID}`)
+    .replace(/^\/users\/:id/, `/users/${OTHER_USER_ID}`)
+    .replace(':userId', String(OTHER_USER_ID))
+    .replace(':role', 'student')
+    .replace(':code', 'CERT-1')
+    .replace(/:\w+/g, '1');
+}
+
+/**
+ * Request a route as one caller
+ * @returns The response status and the permissions checked while handling it
+ */
+async function send(key: string, caller: Caller): Promise<{ status: number; checked: Permission[] }> {
+  const [method, path] = key.split(' ');
+  const verb = method.toLowerCase() as 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+  jest.mocked(can).mockClear();
+  let pending = request(app)[verb](`/api${urlFor(path)}`);
+  const credentials = authorization(caller);
+  if (credentials) {
+    pending = pending.set('Authorization', credentials);
+  }
+  const input = INPUTS[key]?.() ?? {};
+  if (input.query) {
+    pending = pending.query(input.query);
+  }
+  if (verb !== 'get' && verb !== 'delete') {
+    pending = pending.send(input.body ?? {});
+  }
+
+  const { status } = await pending;
+  return { status, checked: jest.mocked(can).mock.calls.map(([, permission]) => permission) };
+}
+
+async function allowedCallers(key: string, rule: RouteRule): Promise<Caller[]> {
+  const permissions = rule.permission === undefined ? [] : ([] as Permission[]).concat(rule.permission);
+  const allowed: Caller[] = [];
+
+  for (const caller of CALLERS) {
+    const { status, checked } = await send(key, caller);
+    if (DENIED_STATUSES.includes(status)) {
+      continue;
+    }
+
+    allowed.push(caller);
+    if (permissions.length > 0) {
+      // Any of the row's permissions will do; a failure shows what was checked instead
+      const expected = permissions.find(permission => checked.includes(permission)) ?? permissions[0];
+      expect({ caller, checked }).toEqual({ caller, checked: expect.arrayContaining([expected]) });
+    }
+  }
+
+  return allowed;
+}
+
+function inCallerOrder(callers: readonly Caller[]): Caller[] {
+  return CALLERS.filter(caller => callers.includes(caller));
+}
+
+const ROUTES = mountedRoutes();
+
+// What the course looks like to the policy in the current test
+let course = { published: false, is_template: false };
+
+/**
+ * The one row every query other than the policy's gets: whatever is loaded
+ * belongs to the course and to a user none of the callers is
+ */
+function courseRow(): Record<string, unknown> {
+  return {
+    id: 1,
+    course_id: COURSE_ID,
+    instructor_id: USERS.owner.id,
+    user_id: OTHER_USER_ID,
+    // No release rules, so no lesson is locked
+    release_mode: 'open',
+    unlock_after_days: null,
+    unlock_at: null,
+    rubric: [],
+    ...course
+  };
+}
+
+describe('route permission matrix', () => {
+  beforeEach(() => {
+    course = { published: false, is_template: false };
+
+    // Course relationships resolved by the policy: staff roles and active enrollments
+    const query = async (text: string, params: any[] = []) => {
+      if (text.startsWith('SELECT role FROM course_staff WHERE course_id = $1 AND user_id = $2')) {
+        const role = STAFF_ROLES[params[1]];
+        return { rows: role ? [{ role }] : [], rowCount: role ? 1 : 0 };
+      }
+      if (text.startsWith('SELECT 1 FROM enrollments WHERE user_id = $1 AND course_id = $2')) {
+        const enrolled = ACTIVE_ENROLLMENTS.includes(params[0]);
+        return { rows: enrolled ? [{}] : [], rowCount: enrolled ? 1 : 0 };
+      }
+      return { rows: [courseRow()], rowCount: 1 };
+    };
+    jest.mocked(db.query).mockImplementation(query as any);
+    jest.mocked(db.getClient).mockImplementation((async () => ({ query, release: () => undefined })) as any);
+
+    jest.spyOn(SessionsService, 'isSessionActive').mockResolvedValue(true);
+    jest.spyOn(ApiKeysService, 'authenticate').mockImplementation(async key => key in API_KEYS
+      ? { user: USERS.owner, apiKeyId: 1, scopes: API_KEYS[key] }
+      : null);
+
+    // Single sign-on is configured, but its provider cannot be reached
+    jest.replaceProperty(config, 'oidcEnabled', true);
+    jest.spyOn(OidcService, 'beginLogin').mockRejectedValue(new Error('PROVIDER_UNAVAILABLE'));
+    jest.spyOn(OidcService, 'completeLogin').mockRejectedValue(new Error('PROVIDER_UNAVAILABLE'));
+
+    // Handlers log their failures on the stand-in rows, and every request is logged
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  it('mounts every domain router listed here', () => {
+    expect(apiRoutes.stack.map(layer => layer.handle)).toEqual(MOUNTS.map(([, router]) => router));
+  });
+
+  it('has a row for every route and a route for every row', () => {
+    expect([...ROUTES].sort()).toEqual(Object.keys(MATRIX).sort());
+  });
+
+  it.each(Object.entries(MATRIX))('%s', async (key, rule) => {
+    expect(await allowedCallers(key, rule)).toEqual(inCallerOrder(rule.allowed));
+  });
+
+  describe('published courses', () => {
+    const everyoneButUnscopedKeys = EVERYONE.filter(caller => caller !== 'api_key_no_scope');
+
+    beforeEach(() => {
+      course = { published: true, is_template: false };
+    });
+
+    it.each([
+      'GET /courses/:id',
+      'GET /courses/:id/overview',
+      'GET /courses/:courseId/modules',
+      'GET /courses/:courseId/lessons',
+      'GET /courses/:courseId/quizzes',
+      'GET /courses/:courseId/assignments',
+      'GET /lessons/:id',
+      'GET /lessons/:id/attachments',
+      'GET /quizzes/:id',
+      'GET /assignments/:id'
+    ])('%s is open to everyone', async key => {
+      expect(await allowedCallers(key, MATRIX[key])).toEqual(everyoneButUnscopedKeys);
+    });
+
+    it.each([
+      'POST /quizzes/:id/attempts',
+      'POST /quizzes/:id/submit'
+    ])('%s is open to enrolled students', async key => {
+      expect(await allowedCallers(key, MATRIX[key])).toEqual(ENROLLED);
+    });
+
+    it('still needs a relationship to edit', async () => {
+      const key = 'PUT /courses/:id';
+      expect(await allowedCallers(key, MATRIX[key])).toEqual(COURSE_OWNER);
+    });
+  });
+
+  describe('template courses', () => {
+    beforeEach(() => {
+      course = { published: false, is_template: true };
+    });
+
+    it('can be cloned by any instructor', async () => {
+      const key = 'POST /courses/:id/clone';
+      expect(await allowedCallers(key, MATRIX[key])).toEqual(INSTRUCTOR_ROLE);
+    });
+
+    it('can be viewed by any instructor', async () => {
+      const key = 'GET /courses/:id';
+      expect(await allowedCallers(key, MATRIX[key])).toEqual(INSTRUCTOR_ROLE);
+    });
+  });
+});
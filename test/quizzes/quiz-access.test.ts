@@ -0,0 +1,154 @@
+import { describe, it, expect, jest, beforeEach } from '@jest/globals';
+import { db } from '../../src/db';
+import { can, Principal } from '../../src/modules/permissions/policy';
+import { Permission } from '../../src/modules/permissions/permissions';
+import { QuizzesService } from '../../src/services/quizzes.service';
+
+/**
+ * Which questions GET /quizzes/:id shows: a timed quiz's questions are only
+ * shown to students during an attempt, so they cannot be read off the clock
+ */
+
+jest.mock('../../src/db', () => ({
+  db: { query: jest.fn(), getClient: jest.fn() }
+}));
+
+jest.mock('../../src/modules/permissions/policy', () => ({
+  ...(jest.requireActual('../../src/modules/permissions/policy') as object),
+  can: jest.fn()
+}));
+
+type Row = Record<string, any>;
+
+const student: Principal = { id: 7, role: 'student' };
+const instructor: Principal = { id: 2, role: 'instructor' };
+
+const question = {
+  id: 11,
+  quiz_id: 1,
+  prompt: 'Capital of France?',
+  type: 'single_choice',
+  points: '1',
+  definition: { choices: ['Paris', 'Rome'], correct_index: 0 },
+  created_at: new Date('2026-01-01')
+};
+
+function quizRow(timeLimit: number | null): Row {
+  return {
+    id: 1,
+    course_id: 3,
+    title: 'Geography',
+    max_attempts: null,
+    time_limit_minutes: timeLimit,
+    pass_score: null,
+    score_policy: 'best',
+    cooldown_minutes: null,
+    shuffle_questions: false,
+    shuffle_choices: false,
+    created_at: new Date('2026-01-01'),
+    published: true,
+    instructor_id: 2,
+    is_template: false
+  };
+}
+
+/**
+ * Answer the queries of getQuizById, with or without an attempt in progress
+ */
+function useDatabase(quiz: Row, attempts: Row[]) {
+  jest.mocked(db.query).mockImplementation((async (sql: string) => {
+    const text = sql.trim();
+    if (text.startsWith('SELECT q.*')) return { rows: [quiz] };
+    if (text.startsWith('SELECT a.id, a.started_at')) return { rows: attempts };
+    if (text.startsWith('SELECT a.seed')) {
+      return {
+        rows: [{
+          seed: null,
+          drawn_questions: null,
+          questions: [{ id: 11, prompt: question.prompt, points: 1, definition: { type: 'single_choice', ...question.definition } }],
+          shuffle_questions: false,
+          shuffle_choices: false
+        }]
+      };
+    }
+    if (text.startsWith('SELECT * FROM quiz_questions')) return { rows: [question] };
+    if (text.startsWith('SELECT d.id')) return { rows: [] };
+    throw new Error(`Unexpected query: ${text}`);
+  }) as any);
+}
+
+function grant(permissions: Permission[]) {
+  jest.mocked(can).mockImplementation(async (_user, permission) => permissions.includes(permission));
+}
+
+const inProgress: Row = {
+  id: 5,
+  started_at: new Date(),
+  expires_at: new Date(Date.now() + 60_000),
+  submitted_at: null,
+  score: null,
+  in_progress: true,
+  cooldown_ends_at: null,
+  cooling_down: false
+};
+
+describe('QuizzesService.getQuizById', () => {
+  beforeEach(() => {
+    grant(['quiz.view', 'quiz.submit']);
+  });
+
+  it('hides the questions of a timed quiz from a student with no attempt in progress', async () => {
+    useDatabase(quizRow(20), []);
+
+    const result = await QuizzesService.getQuizById(1, student);
+
+    expect(result.questions).toEqual([]);
+    expect(result.attempts?.current_attempt).toBeNull();
+  });
+
+  it('hides them once the attempt has ended', async () => {
+    useDatabase(quizRow(20), [{ ...inProgress, submitted_at: new Date(), score: '100', in_progress: false }]);
+
+    const result = await QuizzesService.getQuizById(1, student);
+
+    expect(result.questions).toEqual([]);
+  });
+
+  it('hides them from viewers who cannot take the quiz', async () => {
+    grant(['quiz.view']);
+    useDatabase(quizRow(20), []);
+
+    const result = await QuizzesService.getQuizById(1, undefined);
+
+    expect(result.questions).toEqual([]);
+  });
+
+  it('shows a timed quiz to a student during an attempt, without the answer key', async () => {
+    useDatabase(quizRow(20), [inProgress]);
+
+    const result = await QuizzesService.getQuizById(1, student);
+
+    expect(result.questions).toHaveLength(1);
+    expect(result.questions[0]).toMatchObject({ id: 11, prompt: 'Capital of France?', choices: ['Paris', 'Rome'] });
+    expect(result.questions[0]).not.toHaveProperty('correct_index');
+  });
+
+  it('shows a timed quiz with its answer key to users who may see answers', async () => {
+    grant(['quiz.view', 'quiz.view_answers']);
+    useDatabase(quizRow(20), []);
+
+    const result = await QuizzesService.getQuizById(1, instructor);
+
+    expect(result.questions).toHaveLength(1);
+    expect(result.questions[0]).toMatchObject({ id: 11, correct_index: 0 });
+  });
+
+  it('shows an untimed quiz before an attempt, without the answer key', async () => {
+    useDatabase(quizRow(null), []);
+
+    const result = await QuizzesService.getQuizById(1, student);
+
+    expect(result.questions).toHaveLength(1);
+    expect(result.questions[0]).not.toHaveProperty('correct_index');
+  });
+});
@@ -0,0 +1,361 @@
+import { describe, it, expect } from '@jest/globals';
+import {
+  QuestionDefinition,
+  GradableQuestion,
+  countedScore,
+  gradeAnswer,
+  gradeQuiz,
+  matchesPattern,
+  presentDefinition,
+  presentQuestions,
+  shuffledOrder,
+  toDefinition,
+  withoutAnswerKey
+} from '../../src/utils/quiz-grading';
+
+const singleChoice: QuestionDefinition = { type: 'single_choice', choices: ['Paris', 'Rome', 'Madrid'], correct_index: 0 };
+const multipleChoice: QuestionDefinition = { type: 'multiple_choice', choices: ['2', '3', '4', '5'], correct_indices: [0, 1, 3] };
+const trueFalse: QuestionDefinition = { type: 'true_false', correct_answer: false };
+const numeric: QuestionDefinition = { type: 'numeric', correct_value: 3.14, tolerance: 0.01 };
+const shortText: QuestionDefinition = { type: 'short_text', accepted_answers: ['New York', 'NYC'], case_sensitive: false };
+const ordering: QuestionDefinition = { type: 'ordering', items: ['b', 'c', 'a', 'd'], correct_order: [2, 0, 1, 3] };
+const matching: QuestionDefinition = {
+  type: 'matching',
+  items: ['France', 'Italy', 'Spain'],
+  matches: ['Rome', 'Madrid', 'Paris'],
+  correct_matches: [2, 0, 1]
+};
+
+describe('gradeAnswer', () => {
+  describe('single_choice', () => {
+    it('is all or nothing', () => {
+      expect(gradeAnswer(singleChoice, 0)).toBe(1);
+      expect(gradeAnswer(singleChoice, 1)).toBe(0);
+    });
+  });
+
+  describe('multiple_choice', () => {
+    it('gives full credit for exactly the right choices, in any order', () => {
+      expect(gradeAnswer(multipleChoice, [3, 0, 1])).toBe(1);
+    });
+
+    it('gives partial credit for some right choices', () => {
+      expect(gradeAnswer(multipleChoice, [0])).toBeCloseTo(1 / 3);
+      expect(gradeAnswer(multipleChoice, [0, 1])).toBeCloseTo(2 / 3);
+    });
+
+    it('takes a right choice off for every wrong one, down to 0', () => {
+      expect(gradeAnswer(multipleChoice, [0, 1, 2])).toBeCloseTo(1 / 3);
+      expect(gradeAnswer(multipleChoice, [0, 2])).toBe(0);
+      expect(gradeAnswer(multipleChoice, [2])).toBe(0);
+    });
+
+    it('counts a repeated choice once', () => {
+      expect(gradeAnswer(multipleChoice, [0, 0, 0])).toBeCloseTo(1 / 3);
+    });
+
+    it('gives nothing for no choice', () => {
+      expect(gradeAnswer(multipleChoice, [])).toBe(0);
+    });
+  });
+
+  describe('true_false', () => {
+    it('is all or nothing', () => {
+      expect(gradeAnswer(trueFalse, false)).toBe(1);
+      expect(gradeAnswer(trueFalse, true)).toBe(0);
+    });
+  });
+
+  describe('numeric', () => {
+    it('accepts values within the tolerance, edges included', () => {
+      expect(gradeAnswer(numeric, 3.14)).toBe(1);
+      expect(gradeAnswer(numeric, 3.15)).toBe(1);
+      expect(gradeAnswer(numeric, 3.13)).toBe(1);
+      expect(gradeAnswer(numeric, 3.16)).toBe(0);
+    });
+
+    it('needs the exact value without a tolerance', () => {
+      const exact: QuestionDefinition = { type: 'numeric', correct_value: 0.3, tolerance: 0 };
+      expect(gradeAnswer(exact, 0.1 + 0.2)).toBe(1);
+      expect(gradeAnswer(exact, 0.31)).toBe(0);
+    });
+
+    it('rejects non-finite numbers', () => {
+      expect(gradeAnswer(numeric, NaN)).toBe(0);
+      expect(gradeAnswer(numeric, Infinity)).toBe(0);
+    });
+  });
+
+  describe('short_text', () => {
+    it('accepts any accepted answer, ignoring case and extra whitespace', () => {
+      expect(gradeAnswer(shortText, 'new york')).toBe(1);
+      expect(gradeAnswer(shortText, '  New   York ')).toBe(1);
+      expect(gradeAnswer(shortText, 'nyc')).toBe(1);
+      expect(gradeAnswer(shortText, 'Boston')).toBe(0);
+    });
+
+    it('honours case sensitivity', () => {
+      const caseSensitive: QuestionDefinition = { type: 'short_text', accepted_answers: ['NaCl'], case_sensitive: true };
+      expect(gradeAnswer(caseSensitive, 'NaCl')).toBe(1);
+      expect(gradeAnswer(caseSensitive, 'nacl')).toBe(0);
+    });
+  });
+
+  describe('ordering', () => {
+    it('gives the share of items in their correct place', () => {
+      expect(gradeAnswer(ordering, [2, 0, 1, 3])).toBe(1);
+      expect(gradeAnswer(ordering, [2, 0, 3, 1])).toBe(0.5);
+      expect(gradeAnswer(ordering, [0, 1, 2, 3])).toBe(0.25);
+      expect(gradeAnswer(ordering, [3, 2, 0, 1])).toBe(0);
+    });
+
+    it('counts unanswered positions as wrong', () => {
+      expect(gradeAnswer(ordering, [2, null, null, 3])).toBe(0.5);
+    });
+  });
+
+  describe('matching', () => {
+    it('gives the share of items matched correctly', () => {
+      expect(gradeAnswer(matching, [2, 0, 1])).toBe(1);
+      expect(gradeAnswer(matching, [2, 1, 0])).toBeCloseTo(1 / 3);
+      expect(gradeAnswer(matching, [0, 1, 2])).toBe(0);
+    });
+
+    it('allows the same match for several items', () => {
+      expect(gradeAnswer(matching, [2, 2, 2])).toBeCloseTo(1 / 3);
+    });
+  });
+
+  it('gives nothing for unanswered questions', () => {
+    for (const definition of [singleChoice, multipleChoice, trueFalse, numeric, shortText, ordering, matching]) {
+      expect(gradeAnswer(definition, null)).toBe(0);
+      expect(gradeAnswer(definition, undefined)).toBe(0);
+    }
+  });
+
+  describe('answers of the wrong shape', () => {
+    it.each([
+      ['single_choice', singleChoice, ['0', [0], true, 0.0001]],
+      ['multiple_choice', multipleChoice, [0, '0,1', [0, 4], [0, -1], [0.5], [0, '1'], {}]],
+      ['true_false', trueFalse, ['false', 0, null]],
+      ['numeric', numeric, ['3.14', [3.14], true]],
+      ['short_text', shortText, [['New York'], 42, { text: 'NYC' }]],
+      ['ordering', ordering, [[2, 0, 1], [2, 0, 1, 3, 4], [2, 0, 1, 4], [2, 0, 1, '3'], '2,0,1,3', 2]],
+      ['matching', matching, [[2, 0], [2, 0, 3], [2, 0, 1.5], { 0: 2, 1: 0, 2: 1 }]]
+    ] as [string, QuestionDefinition, unknown[]][])('%s earns nothing', (_type, definition, answers) => {
+      for (const answer of answers) {
+        expect(gradeAnswer(definition, answer)).toBe(0);
+      }
+    });
+  });
+});
+
+describe('matchesPattern', () => {
+  it('matches literal text exactly, apart from case and whitespace', () => {
+    expect(matchesPattern('Paris', 'paris')).toBe(true);
+    expect(matchesPattern('Paris', 'Pariss')).toBe(false);
+    expect(matchesPattern('Paris', 'Pari')).toBe(false);
+    expect(matchesPattern('Paris', 'paris', true)).toBe(false);
+  });
+
+  it('lets * match any run of characters, including none', () => {
+    expect(matchesPattern('photo*', 'photosynthesis')).toBe(true);
+    expect(matchesPattern('photo*', 'photo')).toBe(true);
+    expect(matchesPattern('*graph', 'photograph')).toBe(true);
+    expect(matchesPattern('*', '')).toBe(true);
+    expect(matchesPattern('**', 'anything')).toBe(true);
+    expect(matchesPattern('a*', 'b')).toBe(false);
+  });
+
+  it('backtracks when the first place a * could stop is wrong', () => {
+    expect(matchesPattern('a*c', 'abcbc')).toBe(true);
+    expect(matchesPattern('a*c', 'abcb')).toBe(false);
+    expect(matchesPattern('*ab*c', 'aabbc')).toBe(true);
+    expect(matchesPattern('*aab', 'aaab')).toBe(true);
+    expect(matchesPattern('a*b*c', 'axbxbxc')).toBe(true);
+    expect(matchesPattern('a*b*c', 'axbxcxb')).toBe(false);
+  });
+
+  it('collapses whitespace on both sides before matching', () => {
+    expect(matchesPattern(' new   york ', 'New York')).toBe(true);
+    expect(matchesPattern('new * city', 'new  york   city')).toBe(true);
+  });
+});
+
+describe('presentDefinition', () => {
+  it('re-indexes a single choice answer key to the shown order', () => {
+    const shown = presentDefinition(singleChoice, [2, 0, 1]);
+
+    expect(shown).toEqual({ type: 'single_choice', choices: ['Madrid', 'Paris', 'Rome'], correct_index: 1 });
+    expect(gradeAnswer(shown, 1)).toBe(1);
+  });
+
+  it('re-indexes and sorts multiple choice answers', () => {
+    const shown = presentDefinition(multipleChoice, [3, 2, 1, 0]);
+
+    expect(shown).toEqual({ type: 'multiple_choice', choices: ['5', '4', '3', '2'], correct_indices: [0, 2, 3] });
+  });
+
+  it('re-indexes ordering items', () => {
+    const shown = presentDefinition(ordering, [1, 3, 0, 2]);
+
+    expect(shown).toMatchObject({ items: ['c', 'd', 'b', 'a'], correct_order: [3, 2, 0, 1] });
+    // The same items in the same places are still right
+    expect((shown as any).correct_order.map((i: number) => (shown as any).items[i])).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('reorders the matches of a matching question, keeping its items', () => {
+    const shown = presentDefinition(matching, [2, 0, 1]);
+
+    expect(shown).toEqual({
+      type: 'matching',
+      items: ['France', 'Italy', 'Spain'],
+      matches: ['Paris', 'Rome', 'Madrid'],
+      correct_matches: [0, 1, 2]
+    });
+  });
+
+  it('leaves types without options unchanged', () => {
+    expect(presentDefinition(numeric, [0])).toBe(numeric);
+  });
+});
+
+describe('shuffledOrder', () => {
+  it('is a permutation', () => {
+    expect([...shuffledOrder(10, 42)].sort((a, b) => a - b)).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+  });
+
+  it('is the same for the same seed', () => {
+    expect(shuffledOrder(10, 42)).toEqual(shuffledOrder(10, 42));
+    expect(shuffledOrder(10, 0xffffffff)).toEqual(shuffledOrder(10, 0xffffffff));
+  });
+
+  it('differs between seeds', () => {
+    expect(shuffledOrder(10, 1)).not.toEqual(shuffledOrder(10, 2));
+  });
+
+  it('handles empty and single-item lists', () => {
+    expect(shuffledOrder(0, 1)).toEqual([]);
+    expect(shuffledOrder(1, 1)).toEqual([0]);
+  });
+});
+
+describe('presentQuestions', () => {
+  const questions: GradableQuestion[] = [
+    { id: 11, points: 1, definition: singleChoice },
+    { id: 12, points: 1, definition: trueFalse },
+    { id: 13, points: 2, definition: ordering },
+    { id: 14, points: 1, definition: multipleChoice }
+  ];
+  const both = { shuffle_questions: true, shuffle_choices: true };
+
+  it('shows everything as authored without a seed', () => {
+    expect(presentQuestions(questions, null, both)).toBe(questions);
+  });
+
+  it('is stable for a seed', () => {
+    expect(presentQuestions(questions, 7, both)).toEqual(presentQuestions(questions, 7, both));
+  });
+
+  it('only shuffles what is enabled', () => {
+    const questionsOnly = presentQuestions(questions, 7, { shuffle_questions: true, shuffle_choices: false });
+    expect(questionsOnly.map(question => question.definition)).toEqual(
+      expect.arrayContaining(questions.map(question => question.definition))
+    );
+
+    const choicesOnly = presentQuestions(questions, 7, { shuffle_questions: false, shuffle_choices: true });
+    expect(choicesOnly.map(question => question.id)).toEqual([11, 12, 13, 14]);
+  });
+
+  it('keeps a question\'s option order when other questions change', () => {
+    const options = { shuffle_questions: false, shuffle_choices: true };
+    const all = presentQuestions(questions, 7, options);
+    const fewer = presentQuestions(questions.filter(question => question.id !== 11), 7, options);
+
+    expect(fewer.find(question => question.id === 13)).toEqual(all.find(question => question.id === 13));
+  });
+
+  it('grades what was shown the same as the authored answer key', () => {
+    const shown = presentQuestions(questions, 7, both);
+    const answers = Object.fromEntries(shown.map(question => {
+      const definition = question.definition as any;
+      const key = definition.correct_index ?? definition.correct_indices ?? definition.correct_order ?? definition.correct_answer;
+      return [String(question.id), key];
+    }));
+
+    expect(gradeQuiz(shown, answers).score).toBe(100);
+  });
+});
+
+describe('gradeQuiz', () => {
+  const questions: GradableQuestion[] = [
+    { id: 1, points: 1, definition: singleChoice },
+    { id: 2, points: 3, definition: multipleChoice },
+    { id: 3, points: 2, definition: ordering }
+  ];
+
+  it('weights credit by points and keys answers by question ID', () => {
+    const grade = gradeQuiz(questions, { 1: 0, 2: [0], 3: [2, 0, 3, 1] });
+
+    expect(grade).toEqual({
+      total: 3,
+      correct: 1,
+      points: 3,
+      max_points: 6,
+      score: 50,
+      questions: [
+        { id: 1, correct: true, points: 1, max_points: 1 },
+        { id: 2, correct: false, points: 1, max_points: 3 },
+        { id: 3, correct: false, points: 1, max_points: 2 }
+      ]
+    });
+  });
+
+  it('gives nothing for missing answers', () => {
+    expect(gradeQuiz(questions, {}).points).toBe(0);
+  });
+
+  it('scores an empty quiz as 0', () => {
+    expect(gradeQuiz([], {}).score).toBe(0);
+  });
+});
+
+describe('countedScore', () => {
+  const scores = [60, 90, 75];
+
+  it('counts the best score', () => {
+    expect(countedScore('best', scores)).toBe(90);
+  });
+
+  it('counts the latest score', () => {
+    expect(countedScore('latest', scores)).toBe(75);
+  });
+
+  it('counts the average score', () => {
+    expect(countedScore('average', scores)).toBe(75);
+    expect(countedScore('average', [50, 100, 100])).toBeCloseTo(83.333, 3);
+  });
+
+  it('is null without submissions under every policy', () => {
+    expect(countedScore('best', [])).toBeNull();
+    expect(countedScore('latest', [])).toBeNull();
+    expect(countedScore('average', [])).toBeNull();
+  });
+});
+
+describe('toDefinition and withoutAnswerKey', () => {
+  it('keeps only the fields of the type and fills in defaults', () => {
+    expect(toDefinition('numeric', { correct_value: 2, choices: ['x'] })).toEqual({ type: 'numeric', correct_value: 2, tolerance: 0 });
+    expect(toDefinition('multiple_choice', { choices: ['a', 'b', 'c'], correct_indices: [2, 0, 2] })).toEqual({
+      type: 'multiple_choice',
+      choices: ['a', 'b', 'c'],
+      correct_indices: [0, 2]
+    });
+  });
+
+  it('hides the answer key', () => {
+    expect(withoutAnswerKey(singleChoice)).toEqual({ type: 'single_choice', choices: ['Paris', 'Rome', 'Madrid'] });
+    expect(withoutAnswerKey(numeric)).toEqual({ type: 'numeric' });
+    expect(withoutAnswerKey(matching)).toEqual({ type: 'matching', items: matching.items, matches: matching.matches });
+  });
+});
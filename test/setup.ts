@@ -0,0 +1,22 @@
+/**
+ * Jest setup, run before every test file
+ *
+ * Config is read once when src/config is first imported, so the environment is
+ * pinned here: tests never depend on a developer's .env (dotenv does not
+ * override variables that are already set).
+ */
+
+process.env.NODE_ENV = 'test';
+process.env.JWT_SECRET = 'test-jwt-secret';
+process.env.JWT_ALGORITHM = 'HS256';
+process.env.JWT_KEY_ID = 'test';
+process.env.JWT_PRIVATE_KEY = '';
+process.env.JWT_PREVIOUS_KEYS = '';
+process.env.JWT_ISSUER = 'learnlite';
+process.env.JWT_AUDIENCE = 'learnlite-api';
+process.env.DATABASE_URL = 'postgresql://localhost:5432/learnlite_test';
+process.env.NOTIFICATIONS_ENABLED = 'false';
+process.env.OIDC_ISSUER = '';
+process.env.STORAGE_DRIVER = 'local';
+process.env.STORAGE_SIGNING_KEY = 'test-storage-signing-key';
+process.env.MFA_ENCRYPTION_KEY = 'test-mfa-encryption-key';